@@ -3,8 +3,11 @@ import { User } from "../models/User.ts";
 import { Payment } from "../models/Payment.ts";
 import { Plan } from "../models/Plan.ts";
 import { AdminConfig } from "../models/AdminConfig.ts";
+import { ActivationEvent, ACTIVATION_EVENT_STATUSES } from "../models/ActivationEvent.ts";
 import { Op, Transaction } from "sequelize";
 import { AdvancedBVMatchingService } from "../services/advancedBvMatchingService.ts";
+import { ActivationOutboxService } from "../services/activationOutboxService.ts";
+import { TdsService } from "../services/tdsService.ts";
 
 // Get all users with pagination (excluding admins)
 export const getUsers = async (req: Request, res: Response): Promise<void> => {
@@ -591,7 +594,7 @@ console.log("config", config);
   }
 };
 
-// Update TDS percentage
+// Update TDS percentage (the rate for members with a verified PAN)
 export const updateTds = async (req: Request, res: Response): Promise<void> => {
   try {
     const { percentage } = req.body;
@@ -606,31 +609,25 @@ export const updateTds = async (req: Request, res: Response): Promise<void> => {
 
     const tdsPercentage = Number(percentage);
 
-    // Update TDS in the first admin config record
-    const config = await AdminConfig.findOne({
-      order: [['id', 'ASC']]
-    });
-
-    if (config) {
-      await config.update({
-        tds: tdsPercentage
-      });
-    } else {
-      // Create a new config if none exists
-      await AdminConfig.create({
-        key: 'tds-config',
-        value: tdsPercentage.toString(),
-        description: 'TDS percentage for withdrawals',
-        category: 'payment',
-        tds: tdsPercentage
+    let policy;
+    try {
+      const current = await TdsService.getConfig();
+      policy = TdsService.normalizeConfig({ ...current, rateWithPan: tdsPercentage });
+    } catch (validationError: any) {
+      res.status(400).json({
+        success: false,
+        message: validationError.message
       });
+      return;
     }
+    await TdsService.saveConfig(policy);
 
     res.json({
       success: true,
       message: "TDS percentage updated successfully",
       data: {
-        tds: tdsPercentage
+        tds: policy.rateWithPan,
+        tdsWithoutPan: policy.rateWithoutPan
       }
     });
   } catch (error: any) {
@@ -645,23 +642,100 @@ export const updateTds = async (req: Request, res: Response): Promise<void> => {
 // Get TDS percentage
 export const getTds = async (req: Request, res: Response): Promise<void> => {
   try {
-    const config = await AdminConfig.findOne({
-      order: [['id', 'ASC']]
+    const policy = await TdsService.getConfig();
+
+    res.json({
+      success: true,
+      data: {
+        tds: policy.rateWithPan,
+        tdsWithoutPan: policy.rateWithoutPan
+      }
+    });
+  } catch (error: any) {
+    console.error("Get TDS error:", error);
+    res.status(500).json({
+      success: false,
+      message: error.message || "Server error"
+    });
+  }
+};
+// Get activation events from the outbox (pending, failed, processed...)
+export const getActivationEvents = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 20;
+    const status = req.query.status as string || '';
+    const offset = (page - 1) * limit;
+
+    const whereClause: any = {};
+    if (status && status !== 'all') {
+      if (!ACTIVATION_EVENT_STATUSES.includes(status as any)) {
+        res.status(400).json({
+          success: false,
+          message: `Status must be one of: all, ${ACTIVATION_EVENT_STATUSES.join(", ")}`
+        });
+        return;
+      }
+      whereClause.status = status;
+    }
+
+    const { count, rows: events } = await ActivationEvent.findAndCountAll({
+      where: whereClause,
+      include: [{
+        model: User,
+        as: 'user',
+        attributes: ['id', 'name', 'username', 'email', 'sponsorId', 'position', 'isActive']
+      }],
+      order: [['createdAt', 'DESC']],
+      limit,
+      offset
     });
 
-    const tds = config ? Number(config.tds) : 5.00;
+    // Counts per status for the outbox overview
+    const statusCounts = await ActivationEvent.count({ group: ['status'] }) as any[];
+    const counts = Object.fromEntries(ACTIVATION_EVENT_STATUSES.map(s => [s, 0]));
+    for (const row of statusCounts) counts[row.status] = Number(row.count);
 
     res.json({
       success: true,
       data: {
-        tds
+        events,
+        counts,
+        maxAttempts: ActivationOutboxService.MAX_ATTEMPTS,
+        pagination: {
+          currentPage: page,
+          totalPages: Math.ceil(count / limit),
+          totalItems: count,
+          itemsPerPage: limit
+        }
       }
     });
   } catch (error: any) {
-    console.error("Get TDS error:", error);
+    console.error("Get activation events error:", error);
     res.status(500).json({
       success: false,
       message: error.message || "Server error"
     });
   }
-};
\ No newline at end of file
+};
+
+// Retry a failed activation event now
+export const retryActivationEvent = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const event = await ActivationOutboxService.retryEvent(Number(req.params.id));
+
+    res.json({
+      success: event.status !== 'failed',
+      message: event.status === 'failed'
+        ? `Activation event failed again: ${event.lastError}`
+        : `Activation event ${event.status}`,
+      data: event
+    });
+  } catch (error: any) {
+    console.error("Retry activation event error:", error);
+    res.status(error.message === "Activation event not found" ? 404 : 400).json({
+      success: false,
+      message: error.message || "Server error"
+    });
+  }
+};
@@ -8,6 +8,7 @@ dotenv.config();
 import { User } from "../models/User.ts";
 import { sendEmail } from "../utils/email.ts";
 import { BVMatchingService } from "../services/bvMatchingService.ts";
+import { PlacementService } from "../services/placementService.ts";
 const generateToken = (userId: number): string => {
   return jwt.sign({ userId }, process.env.JWT_SECRET || "your-secret-key", {
     expiresIn: "7d",
@@ -47,6 +48,7 @@ export const register = async (req: Request, res: Response): Promise<void> => {
 
     // Check if this is the first user
     const userCount = await User.count();
+    let sponsor: User | null = null;
 
     if (userCount > 0) {
       // For all users except the first one, sponsorId and position are required
@@ -66,19 +68,11 @@ export const register = async (req: Request, res: Response): Promise<void> => {
         return;
       }
       
-      const sponsor = await User.findOne({ where: { username: sponsorId } });
+      sponsor = await User.findOne({ where: { username: sponsorId } });
       if (!sponsor) {
         res.status(400).json({ message: "Invalid sponsor username" });
         return;
       }
-
-      // Position validation - just ensure it's valid
-      if (position !== 'left' && position !== 'right') {
-        res.status(400).json({ 
-          message: `Position must be either 'left' or 'right'` 
-        });
-        return;
-      }
     }
 
     // Generate unique username for new user
@@ -102,15 +96,31 @@ export const register = async (req: Request, res: Response): Promise<void> => {
 
     let user;
     try {
-      user = await User.create({
-        name,
-        email: normalizedEmail,
-        password,
-        username: newUsername!,
-        sponsorId: userCount === 0 ? null : sponsorId, // null for first user, else sponsorId
-        position: position as 'left' | 'right' | null,
-        isActive: false
-      });
+      if (sponsor) {
+        // The member keeps their sponsor; a full leg spills them over to the first free slot in it
+        user = await PlacementService.placeMember(sponsor, position as 'left' | 'right', (placement, transaction) =>
+          User.create({
+            name,
+            email: normalizedEmail,
+            password,
+            username: newUsername!,
+            sponsorId: sponsor!.username,
+            placementParentId: placement.parent.username,
+            position: placement.position,
+            isActive: false
+          }, { transaction })
+        );
+      } else {
+        user = await User.create({
+          name,
+          email: normalizedEmail,
+          password,
+          username: newUsername!,
+          sponsorId: null, // first user has no sponsor
+          position: null,
+          isActive: false
+        });
+      }
     } catch (createError: any) {
       // Handle any other database errors
       console.error("User creation error:", createError);
@@ -133,6 +143,7 @@ export const register = async (req: Request, res: Response): Promise<void> => {
         isActive: user.isActive,
         username: user.username,
         sponsorId: user.sponsorId,
+        placementParentId: user.placementParentId,
         position: user.position
       },
       token,
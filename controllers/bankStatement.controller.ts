@@ -0,0 +1,140 @@
+import type { Request, Response } from "express";
+import { BankStatementImport } from "../models/BankStatementImport.ts";
+import { BankStatementLine, BANK_STATEMENT_LINE_STATUSES } from "../models/BankStatementLine.ts";
+import { User } from "../models/User.ts";
+import { BankStatementService } from "../services/bankStatementService.ts";
+
+// POST /api/payments/admin/statements - Import a bank/UPI statement CSV and auto-verify matches (Admin only)
+export const importBankStatement = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const adminId = (req as any).user?.userId;
+    const file = req.file;
+
+    if (!file) {
+      res.status(400).json({
+        success: false,
+        message: "Statement CSV file is required"
+      });
+      return;
+    }
+
+    let statementImport;
+    try {
+      statementImport = await BankStatementService.importStatement(
+        file.originalname,
+        file.buffer.toString("utf8"),
+        adminId
+      );
+    } catch (parseError: any) {
+      res.status(400).json({
+        success: false,
+        message: parseError.message
+      });
+      return;
+    }
+
+    res.status(201).json({
+      success: true,
+      message: `${statementImport.matchedCount} of ${statementImport.creditRows} credits matched and verified`,
+      data: statementImport
+    });
+  } catch (error: any) {
+    console.error("Import bank statement error:", error);
+    res.status(500).json({
+      success: false,
+      message: error.message || "Server error"
+    });
+  }
+};
+
+// GET /api/payments/admin/statements - List statement imports (Admin only)
+export const getBankStatementImports = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { page = 1, limit = 20 } = req.query;
+    const offset = (Number(page) - 1) * Number(limit);
+
+    const { count, rows } = await BankStatementImport.findAndCountAll({
+      include: [{ model: User, as: 'uploader', attributes: ['id', 'name', 'email'] }],
+      order: [['createdAt', 'DESC']],
+      limit: Number(limit),
+      offset
+    });
+
+    res.json({
+      success: true,
+      data: {
+        imports: rows,
+        pagination: {
+          total: count,
+          page: Number(page),
+          limit: Number(limit),
+          pages: Math.ceil(count / Number(limit))
+        }
+      }
+    });
+  } catch (error: any) {
+    console.error("Get bank statement imports error:", error);
+    res.status(500).json({
+      success: false,
+      message: error.message || "Server error"
+    });
+  }
+};
+
+// GET /api/payments/admin/statements/:id - One import with its rows, filterable by match status (Admin only)
+export const getBankStatementImport = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { status, page = 1, limit = 50 } = req.query;
+    const offset = (Number(page) - 1) * Number(limit);
+
+    const statementImport = await BankStatementImport.findByPk(req.params.id, {
+      include: [{ model: User, as: 'uploader', attributes: ['id', 'name', 'email'] }]
+    });
+    if (!statementImport) {
+      res.status(404).json({
+        success: false,
+        message: "Statement import not found"
+      });
+      return;
+    }
+
+    const where: any = { importId: statementImport.id };
+    if (status) {
+      if (!BANK_STATEMENT_LINE_STATUSES.includes(status as any)) {
+        res.status(400).json({
+          success: false,
+          message: `Status must be one of: ${BANK_STATEMENT_LINE_STATUSES.join(", ")}`
+        });
+        return;
+      }
+      where.status = status;
+    }
+
+    const { count, rows } = await BankStatementLine.findAndCountAll({
+      where,
+      order: [['rowNumber', 'ASC']],
+      limit: Number(limit),
+      offset
+    });
+
+    res.json({
+      success: true,
+      data: {
+        import: statementImport,
+        lines: rows,
+        pagination: {
+          total: count,
+          page: Number(page),
+          limit: Number(limit),
+          pages: Math.ceil(count / Number(limit))
+        }
+      }
+    });
+  } catch (error: any) {
+    console.error("Get bank statement import error:", error);
+    res.status(500).json({
+      success: false,
+      message: error.message || "Server error"
+    });
+  }
+};
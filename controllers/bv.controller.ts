@@ -2,6 +2,11 @@ import type { Request, Response } from "express";
 import { User } from "../models/User.ts";
 import { UserBV } from "../models/UserBv.ts";
 import { BVLog } from "../models/BvLogs.ts";
+import { BvMatch } from "../models/BvMatch.ts";
+import { BvFlushLog } from "../models/BvFlushLog.ts";
+import { Plan } from "../models/Plan.ts";
+import { TreePathService } from "../services/treePathService.ts";
+import { sequelize } from "../utils/db.ts";
 import { Op } from "sequelize";
 
 // Get logged-in user's BV data
@@ -401,38 +406,8 @@ async function checkUserAccess(currentUserId: number, targetUserId: number): Pro
     return true;
   }
 
-  // Get current user's username
-  const currentUser = await User.findByPk(currentUserId);
-  if (!currentUser || !currentUser.username) {
-    return false;
-  }
-
   // Check if target user is in current user's referral tree
-  const allReferrals = await getAllReferralsInTree(currentUser.username);
-  return allReferrals.some(ref => ref.id === targetUserId);
-}
-
-// Helper function to get all referrals in tree (flattened)
-async function getAllReferralsInTree(username: string, visited: Set<string> = new Set()): Promise<any[]> {
-  if (visited.has(username)) {
-    return []; // Prevent infinite loops
-  }
-  visited.add(username);
-
-  const referrals = await User.findAll({
-    where: { sponsorId: username },
-    attributes: ['id', 'name', 'username', 'position', 'isActive']
-  });
-
-  let allReferrals = [...referrals];
-
-  // Recursively get referrals of referrals
-  for (const referral of referrals) {
-    const nestedReferrals = await getAllReferralsInTree(referral.username!, visited);
-    allReferrals = allReferrals.concat(nestedReferrals);
-  }
-
-  return allReferrals;
+  return TreePathService.isInDownline(currentUserId, targetUserId);
 }
 
 // Get BV statistics for logged-in user
@@ -459,10 +434,9 @@ export const getBVStats = async (req: Request, res: Response): Promise<void> =>
     }
 
     // Get all referrals in tree
-    const allReferrals = await getAllReferralsInTree(user.username);
+    const referralIds = await TreePathService.getDescendantIds(user.id);
     
     // Get BV data for all referrals
-    const referralIds = allReferrals.map(ref => ref.id);
     const bvRecords = await UserBV.findAll({
       where: { userId: { [Op.in]: referralIds } }
     });
@@ -480,12 +454,12 @@ export const getBVStats = async (req: Request, res: Response): Promise<void> =>
     res.json({
       success: true,
       data: {
-        totalReferrals: allReferrals.length,
+        totalReferrals: referralIds.length,
         totalLeftBV,
         totalRightBV,
         totalBV,
         matchingPairs,
-        averageBVPerUser: allReferrals.length > 0 ? totalBV / allReferrals.length : 0
+        averageBVPerUser: referralIds.length > 0 ? totalBV / referralIds.length : 0
       }
     });
   } catch (error: any) {
@@ -541,8 +515,7 @@ export const getBVLogsUser = async (req: Request, res: Response): Promise<void>
     const userSourceUserMap = new Map(userSourceUsers.map(user => [user.id, user]));
 
     // Get all referrals in the user's tree
-    const allReferrals = await getAllReferralsInTree(user.username);
-    const referralIds = allReferrals.map(ref => ref.id);
+    const referralIds = await TreePathService.getDescendantIds(user.id);
 
     // Get BV logs for all referrals
     const referralBVLogs = referralIds.length > 0 ? await BVLog.findAll({
@@ -602,7 +575,7 @@ export const getBVLogsUser = async (req: Request, res: Response): Promise<void>
           }))
         },
         referrals: {
-          totalReferrals: allReferrals.length,
+          totalReferrals: referralIds.length,
           totalBV: referralTotalBV,
           matchedBV: referralMatchedBV,
           unmatchedBV: referralUnmatchedBV,
@@ -634,4 +607,320 @@ export const getBVLogsUser = async (req: Request, res: Response): Promise<void>
       message: error.message || "Server error"
     });
   }
-};
\ No newline at end of file
+};
+// Build the where clause shared by the match history and flush endpoints
+const buildMatchFilter = (query: Request["query"], dateField: string = 'matchedAt'): any => {
+  const { startDate, endDate, source } = query;
+  const whereClause: any = {};
+
+  if (startDate || endDate) {
+    whereClause[dateField] = {};
+    if (startDate) whereClause[dateField][Op.gte] = new Date(startDate as string);
+    if (endDate) {
+      const end = new Date(endDate as string);
+      // A bare date means "through the end of that day"
+      if (/^\d{4}-\d{2}-\d{2}$/.test(endDate as string)) end.setHours(23, 59, 59, 999);
+      whereClause[dateField][Op.lte] = end;
+    }
+  }
+  if (source) whereClause.source = source;
+
+  return whereClause;
+};
+
+// Get logged-in user's BV match history
+export const getMyMatches = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = (req as any).user?.userId;
+    
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: "User not authenticated"
+      });
+      return;
+    }
+
+    const { page = 1, limit = 20 } = req.query;
+    const offset = (Number(page) - 1) * Number(limit);
+    const whereClause = { ...buildMatchFilter(req.query), userId };
+
+    const { count, rows: matches } = await BvMatch.findAndCountAll({
+      where: whereClause,
+      include: [{
+        model: Plan,
+        as: 'plan',
+        attributes: ['id', 'name', 'bvValue']
+      }],
+      order: [['matchedAt', 'DESC']],
+      limit: Number(limit),
+      offset
+    });
+
+    const totals = await BvMatch.findOne({
+      where: whereClause,
+      attributes: [
+        [sequelize.fn('COALESCE', sequelize.fn('SUM', sequelize.col('matchedAmount')), 0), 'totalMatchedBV'],
+        [sequelize.fn('COALESCE', sequelize.fn('SUM', sequelize.col('bonusEarned')), 0), 'totalBonus']
+      ],
+      raw: true
+    }) as any;
+
+    res.json({
+      success: true,
+      data: {
+        matches,
+        summary: {
+          totalMatches: count,
+          totalMatchedBV: Number(totals?.totalMatchedBV || 0),
+          totalBonus: Number(totals?.totalBonus || 0)
+        },
+        pagination: {
+          currentPage: Number(page),
+          totalPages: Math.ceil(count / Number(limit)),
+          totalItems: count,
+          itemsPerPage: Number(limit)
+        }
+      }
+    });
+  } catch (error: any) {
+    console.error("Get my matches error:", error);
+    res.status(500).json({
+      success: false,
+      message: error.message || "Server error"
+    });
+  }
+};
+
+// Get BV match history across all users (Admin only)
+export const getAllMatches = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { page = 1, limit = 20, userId, username } = req.query;
+    const offset = (Number(page) - 1) * Number(limit);
+    const whereClause = buildMatchFilter(req.query);
+
+    if (userId) {
+      whereClause.userId = Number(userId);
+    } else if (username) {
+      const user = await User.findOne({ where: { username: username as string }, attributes: ['id'] });
+      if (!user) {
+        res.status(404).json({
+          success: false,
+          message: "User not found"
+        });
+        return;
+      }
+      whereClause.userId = user.id;
+    }
+
+    const { count, rows: matches } = await BvMatch.findAndCountAll({
+      where: whereClause,
+      include: [
+        {
+          model: User,
+          as: 'user',
+          attributes: ['id', 'name', 'username', 'email']
+        },
+        {
+          model: Plan,
+          as: 'plan',
+          attributes: ['id', 'name', 'bvValue']
+        }
+      ],
+      order: [['matchedAt', 'DESC']],
+      limit: Number(limit),
+      offset
+    });
+
+    const totals = await BvMatch.findOne({
+      where: whereClause,
+      attributes: [
+        [sequelize.fn('COALESCE', sequelize.fn('SUM', sequelize.col('matchedAmount')), 0), 'totalMatchedBV'],
+        [sequelize.fn('COALESCE', sequelize.fn('SUM', sequelize.col('bonusEarned')), 0), 'totalBonus']
+      ],
+      raw: true
+    }) as any;
+
+    res.json({
+      success: true,
+      data: {
+        matches,
+        summary: {
+          totalMatches: count,
+          totalMatchedBV: Number(totals?.totalMatchedBV || 0),
+          totalBonus: Number(totals?.totalBonus || 0)
+        },
+        pagination: {
+          currentPage: Number(page),
+          totalPages: Math.ceil(count / Number(limit)),
+          totalItems: count,
+          itemsPerPage: Number(limit)
+        }
+      }
+    });
+  } catch (error: any) {
+    console.error("Get all matches error:", error);
+    res.status(500).json({
+      success: false,
+      message: error.message || "Server error"
+    });
+  }
+};
+
+// Get flushed and capped BV across all users (Admin only)
+export const getFlushLogs = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { page = 1, limit = 20, userId, username, reason, planId } = req.query;
+    const offset = (Number(page) - 1) * Number(limit);
+    const whereClause = buildMatchFilter(req.query, 'flushedAt');
+
+    if (reason) whereClause.reason = reason;
+    if (planId) whereClause.planId = Number(planId);
+    if (userId) {
+      whereClause.userId = Number(userId);
+    } else if (username) {
+      const user = await User.findOne({ where: { username: username as string }, attributes: ['id'] });
+      if (!user) {
+        res.status(404).json({
+          success: false,
+          message: "User not found"
+        });
+        return;
+      }
+      whereClause.userId = user.id;
+    }
+
+    const { count, rows: flushes } = await BvFlushLog.findAndCountAll({
+      where: whereClause,
+      include: [
+        {
+          model: User,
+          as: 'user',
+          attributes: ['id', 'name', 'username', 'email']
+        },
+        {
+          model: Plan,
+          as: 'plan',
+          attributes: ['id', 'name', 'bvValue']
+        }
+      ],
+      order: [['flushedAt', 'DESC']],
+      limit: Number(limit),
+      offset
+    });
+
+    res.json({
+      success: true,
+      data: {
+        flushes,
+        pagination: {
+          currentPage: Number(page),
+          totalPages: Math.ceil(count / Number(limit)),
+          totalItems: count,
+          itemsPerPage: Number(limit)
+        }
+      }
+    });
+  } catch (error: any) {
+    console.error("Get flush logs error:", error);
+    res.status(500).json({
+      success: false,
+      message: error.message || "Server error"
+    });
+  }
+};
+
+// Get how much binary income was held back by plan ceilings (Admin only)
+export const getCappingReport = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { reason, planId, top = 20 } = req.query;
+    const whereClause = buildMatchFilter(req.query, 'flushedAt');
+
+    if (reason) whereClause.reason = reason;
+    if (planId) whereClause.planId = Number(planId);
+
+    const totalsAttributes: any[] = [
+      [sequelize.fn('COUNT', sequelize.col('BvFlushLog.id')), 'flushCount'],
+      [sequelize.fn('COALESCE', sequelize.fn('SUM', sequelize.col('pairsCapped')), 0), 'pairsCapped'],
+      [sequelize.fn('COALESCE', sequelize.fn('SUM', sequelize.col('incomeCapped')), 0), 'incomeCapped'],
+      [sequelize.fn('COALESCE', sequelize.fn('SUM', sequelize.col('leftFlushed')), 0), 'leftFlushed'],
+      [sequelize.fn('COALESCE', sequelize.fn('SUM', sequelize.col('rightFlushed')), 0), 'rightFlushed']
+    ];
+
+    const byReason = await BvFlushLog.unscoped().findAll({
+      where: whereClause,
+      attributes: ['reason', ...totalsAttributes],
+      group: ['reason'],
+      raw: true
+    }) as any[];
+
+    const byPlan = await BvFlushLog.unscoped().findAll({
+      where: whereClause,
+      attributes: ['planId', ...totalsAttributes],
+      include: [{
+        model: Plan,
+        as: 'plan',
+        attributes: ['id', 'name']
+      }],
+      group: ['planId', 'plan.id', 'plan.name'],
+      raw: true,
+      nest: true
+    }) as any[];
+
+    const topUsers = await BvFlushLog.unscoped().findAll({
+      where: whereClause,
+      attributes: ['userId', ...totalsAttributes],
+      include: [{
+        model: User,
+        as: 'user',
+        attributes: ['id', 'name', 'username']
+      }],
+      group: ['userId', 'user.id', 'user.name', 'user.username'],
+      order: [[sequelize.literal('incomeCapped'), 'DESC']],
+      limit: Number(top),
+      raw: true,
+      nest: true
+    }) as any[];
+
+    const toTotals = (row: any) => ({
+      flushCount: Number(row.flushCount || 0),
+      pairsCapped: Number(row.pairsCapped || 0),
+      incomeCapped: Number(row.incomeCapped || 0),
+      leftFlushed: Number(row.leftFlushed || 0),
+      rightFlushed: Number(row.rightFlushed || 0)
+    });
+
+    const reasons = byReason.map(row => ({ reason: row.reason, ...toTotals(row) }));
+
+    res.json({
+      success: true,
+      data: {
+        summary: {
+          flushCount: reasons.reduce((sum, r) => sum + r.flushCount, 0),
+          pairsCapped: reasons.reduce((sum, r) => sum + r.pairsCapped, 0),
+          incomeCapped: reasons.reduce((sum, r) => sum + r.incomeCapped, 0),
+          leftFlushed: reasons.reduce((sum, r) => sum + r.leftFlushed, 0),
+          rightFlushed: reasons.reduce((sum, r) => sum + r.rightFlushed, 0)
+        },
+        byReason: reasons,
+        byPlan: byPlan.map(row => ({
+          planId: row.planId,
+          planName: row.plan?.name || null,
+          ...toTotals(row)
+        })),
+        topUsers: topUsers.map(row => ({
+          userId: row.userId,
+          name: row.user?.name || null,
+          username: row.user?.username || null,
+          ...toTotals(row)
+        }))
+      }
+    });
+  } catch (error: any) {
+    console.error("Get capping report error:", error);
+    res.status(500).json({
+      success: false,
+      message: error.message || "Server error"
+    });
+  }
+};
@@ -0,0 +1,326 @@
+import type { Request, Response } from "express";
+import { Coupon } from "../models/Coupon.ts";
+import { CouponRedemption } from "../models/CouponRedemption.ts";
+import { User } from "../models/User.ts";
+import { Plan } from "../models/Plan.ts";
+import { Competition } from "../models/Competition.ts";
+import { CouponService } from "../services/couponService.ts";
+import { UserPlanService } from "../services/userPlanService.ts";
+import { Op } from "sequelize";
+
+const NULLABLE_NUMBER_FIELDS = ['maxDiscount', 'minAmount', 'usageLimit', 'perUserLimit'] as const;
+const ID_LIST_FIELDS = ['planIds', 'competitionIds'] as const;
+const DATE_FIELDS = ['validFrom', 'validUntil'] as const;
+
+// Empty values clear a limit or restriction; the rest are parsed
+const parseCouponInput = (body: Record<string, any>): Record<string, any> => {
+  const data: Record<string, any> = {};
+  for (const field of ['code', 'description', 'discountType', 'appliesTo', 'isActive'] as const) {
+    if (field in body) data[field] = body[field];
+  }
+  if ('discountValue' in body) data.discountValue = parseFloat(body.discountValue);
+  for (const field of NULLABLE_NUMBER_FIELDS) {
+    if (field in body) data[field] = body[field] === null || body[field] === '' ? null : Number(body[field]);
+  }
+  for (const field of ID_LIST_FIELDS) {
+    if (field in body) {
+      const ids = Array.isArray(body[field]) ? body[field].map(Number).filter(Number.isInteger) : [];
+      data[field] = ids.length > 0 ? ids : null;
+    }
+  }
+  for (const field of DATE_FIELDS) {
+    if (field in body) data[field] = body[field] ? new Date(body[field]) : null;
+  }
+  return data;
+};
+
+// Model validation failures are the admin's input, not a server fault
+const statusFor = (error: any): number =>
+  error.name === 'SequelizeValidationError' || error.name === 'SequelizeUniqueConstraintError' || /^Valid until/.test(error.message || '')
+    ? 400
+    : 500;
+
+// GET /api/coupons - List coupons (Admin only)
+export const getCoupons = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { isActive, search, page = 1, limit = 20 } = req.query;
+    const offset = (Number(page) - 1) * Number(limit);
+
+    const whereClause: any = {};
+    if (isActive !== undefined) {
+      whereClause.isActive = isActive === 'true';
+    }
+    if (search) {
+      whereClause[Op.or] = [
+        { code: { [Op.like]: `%${search}%` } },
+        { description: { [Op.like]: `%${search}%` } }
+      ];
+    }
+
+    const { count, rows: coupons } = await Coupon.findAndCountAll({
+      where: whereClause,
+      order: [['createdAt', 'DESC']],
+      limit: Number(limit),
+      offset
+    });
+
+    res.json({
+      success: true,
+      data: coupons,
+      pagination: {
+        total: count,
+        page: Number(page),
+        limit: Number(limit),
+        pages: Math.ceil(count / Number(limit))
+      }
+    });
+  } catch (error: any) {
+    console.error("Get coupons error:", error);
+    res.status(500).json({
+      success: false,
+      message: error.message || "Server error"
+    });
+  }
+};
+
+// GET /api/coupons/:id - Coupon with its redemption totals (Admin only)
+export const getCouponById = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const coupon = await Coupon.findByPk(req.params.id, {
+      include: [{ model: User, as: 'creator', attributes: ['id', 'name', 'email'] }]
+    });
+    if (!coupon) {
+      res.status(404).json({
+        success: false,
+        message: "Coupon not found"
+      });
+      return;
+    }
+
+    const where = { couponId: coupon.id, status: 'applied' };
+    const [redemptions, discountTotal] = await Promise.all([
+      CouponRedemption.count({ where }),
+      CouponRedemption.sum('discountAmount', { where })
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        coupon,
+        redemptions,
+        discountTotal: Number(discountTotal) || 0
+      }
+    });
+  } catch (error: any) {
+    console.error("Get coupon error:", error);
+    res.status(500).json({
+      success: false,
+      message: error.message || "Server error"
+    });
+  }
+};
+
+// POST /api/coupons - Create a coupon (Admin only)
+export const createCoupon = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const adminId = (req as any).user?.userId;
+    const data = parseCouponInput(req.body);
+
+    if (!data.code || !data.discountType || !data.discountValue) {
+      res.status(400).json({
+        success: false,
+        message: "Code, discount type and discount value are required"
+      });
+      return;
+    }
+
+    const coupon = await Coupon.create({
+      ...data,
+      code: data.code,
+      discountType: data.discountType,
+      discountValue: data.discountValue,
+      createdBy: adminId ?? null
+    });
+
+    res.status(201).json({
+      success: true,
+      message: "Coupon created successfully",
+      data: coupon
+    });
+  } catch (error: any) {
+    console.error("Create coupon error:", error);
+    res.status(statusFor(error)).json({
+      success: false,
+      message: error.errors?.[0]?.message || error.message || "Server error"
+    });
+  }
+};
+
+// PUT /api/coupons/:id - Update a coupon (Admin only)
+export const updateCoupon = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const coupon = await Coupon.findByPk(req.params.id);
+    if (!coupon) {
+      res.status(404).json({
+        success: false,
+        message: "Coupon not found"
+      });
+      return;
+    }
+
+    const data = parseCouponInput(req.body);
+    // The code is what members were given, so it stays once the coupon is used
+    if (data.code && CouponService.normalizeCode(data.code) !== coupon.code && coupon.usedCount > 0) {
+      res.status(400).json({
+        success: false,
+        message: "A coupon's code can't change once it has been redeemed"
+      });
+      return;
+    }
+
+    await coupon.update(data);
+
+    res.json({
+      success: true,
+      message: "Coupon updated successfully",
+      data: coupon
+    });
+  } catch (error: any) {
+    console.error("Update coupon error:", error);
+    res.status(statusFor(error)).json({
+      success: false,
+      message: error.errors?.[0]?.message || error.message || "Server error"
+    });
+  }
+};
+
+// DELETE /api/coupons/:id - Deactivate a coupon; its redemptions are kept (Admin only)
+export const deactivateCoupon = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const coupon = await Coupon.findByPk(req.params.id);
+    if (!coupon) {
+      res.status(404).json({
+        success: false,
+        message: "Coupon not found"
+      });
+      return;
+    }
+
+    await coupon.update({ isActive: false });
+
+    res.json({
+      success: true,
+      message: "Coupon deactivated successfully",
+      data: coupon
+    });
+  } catch (error: any) {
+    console.error("Deactivate coupon error:", error);
+    res.status(500).json({
+      success: false,
+      message: error.message || "Server error"
+    });
+  }
+};
+
+// GET /api/coupons/:id/redemptions - Uses of a coupon (Admin only)
+export const getCouponRedemptions = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { status, page = 1, limit = 20 } = req.query;
+    const offset = (Number(page) - 1) * Number(limit);
+
+    const whereClause: any = { couponId: Number(req.params.id) };
+    if (status) {
+      whereClause.status = status;
+    }
+
+    const { count, rows: redemptions } = await CouponRedemption.findAndCountAll({
+      where: whereClause,
+      include: [
+        { model: User, as: 'user', attributes: ['id', 'name', 'email', 'username'] },
+        { model: Plan, as: 'plan', attributes: ['id', 'name'] },
+        { model: Competition, as: 'competition', attributes: ['id', 'title'] }
+      ],
+      order: [['createdAt', 'DESC']],
+      limit: Number(limit),
+      offset
+    });
+
+    res.json({
+      success: true,
+      data: redemptions,
+      pagination: {
+        total: count,
+        page: Number(page),
+        limit: Number(limit),
+        pages: Math.ceil(count / Number(limit))
+      }
+    });
+  } catch (error: any) {
+    console.error("Get coupon redemptions error:", error);
+    res.status(500).json({
+      success: false,
+      message: error.message || "Server error"
+    });
+  }
+};
+
+// POST /api/coupons/validate - Price a plan or competition entry with a coupon (User)
+export const validateCoupon = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = (req as any).user?.userId;
+    const { code, planId, competitionId } = req.body;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: "User not authenticated"
+      });
+      return;
+    }
+
+    if (!code || !planId === !competitionId) {
+      res.status(400).json({
+        success: false,
+        message: "Provide a coupon code and either planId or competitionId"
+      });
+      return;
+    }
+
+    let application;
+    try {
+      if (planId) {
+        const quote = await UserPlanService.quote(userId, Number(planId));
+        application = await CouponService.apply(code, userId, { purpose: 'plan', planId: quote.plan.id, amount: quote.amount });
+      } else {
+        const competition = await Competition.findByPk(competitionId);
+        if (!competition || !competition.isActive) {
+          throw new Error("Competition not found");
+        }
+        application = await CouponService.apply(code, userId, { purpose: 'competition', competitionId: competition.id, amount: Number(competition.price) });
+      }
+    } catch (couponError: any) {
+      res.status(couponError.message.endsWith("not found") ? 404 : 400).json({
+        success: false,
+        message: couponError.message
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: {
+        code: application.coupon.code,
+        description: application.coupon.description,
+        listAmount: application.listAmount,
+        discountAmount: application.discountAmount,
+        amount: application.amount
+      }
+    });
+  } catch (error: any) {
+    console.error("Validate coupon error:", error);
+    res.status(500).json({
+      success: false,
+      message: error.message || "Server error"
+    });
+  }
+};
@@ -0,0 +1,154 @@
+import type { Request, Response } from "express";
+import { ExportJob, EXPORT_FORMATS } from "../models/ExportJob.ts";
+import { User } from "../models/User.ts";
+import { ExportService } from "../services/exportService.ts";
+
+// POST /api/exports - Queue a plan purchase export (Admin only)
+export const createExport = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const adminId = (req as any).user?.userId;
+    const { format, ...filterInput } = req.body;
+
+    if (!EXPORT_FORMATS.includes(format)) {
+      res.status(400).json({
+        success: false,
+        message: `Format must be one of: ${EXPORT_FORMATS.join(", ")}`
+      });
+      return;
+    }
+
+    let filters;
+    try {
+      filters = ExportService.normalizeFilters(filterInput);
+    } catch (validationError: any) {
+      res.status(400).json({
+        success: false,
+        message: validationError.message
+      });
+      return;
+    }
+
+    const job = await ExportService.create(adminId, format, filters);
+
+    res.status(202).json({
+      success: true,
+      message: "Export queued; download it once it completes",
+      data: job
+    });
+  } catch (error: any) {
+    console.error("Create export error:", error);
+    res.status(500).json({
+      success: false,
+      message: error.message || "Server error"
+    });
+  }
+};
+
+// GET /api/exports - List exports, newest first (Admin only)
+export const getExports = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { status, page = 1, limit = 20 } = req.query;
+    const offset = (Number(page) - 1) * Number(limit);
+
+    const whereClause: any = {};
+    if (status) {
+      whereClause.status = status;
+    }
+
+    const { count, rows: exports } = await ExportJob.findAndCountAll({
+      where: whereClause,
+      include: [{ model: User, as: 'requester', attributes: ['id', 'name', 'email'] }],
+      order: [['createdAt', 'DESC']],
+      limit: Number(limit),
+      offset
+    });
+
+    res.json({
+      success: true,
+      data: exports,
+      pagination: {
+        total: count,
+        page: Number(page),
+        limit: Number(limit),
+        pages: Math.ceil(count / Number(limit))
+      }
+    });
+  } catch (error: any) {
+    console.error("Get exports error:", error);
+    res.status(500).json({
+      success: false,
+      message: error.message || "Server error"
+    });
+  }
+};
+
+// GET /api/exports/:id - Export status (Admin only)
+export const getExportById = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const job = await ExportJob.findByPk(req.params.id);
+    if (!job) {
+      res.status(404).json({
+        success: false,
+        message: "Export not found"
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: job
+    });
+  } catch (error: any) {
+    console.error("Get export error:", error);
+    res.status(500).json({
+      success: false,
+      message: error.message || "Server error"
+    });
+  }
+};
+
+// GET /api/exports/:id/download - The finished file (Admin only)
+export const downloadExport = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const job = await ExportJob.findByPk(req.params.id);
+    if (!job) {
+      res.status(404).json({
+        success: false,
+        message: "Export not found"
+      });
+      return;
+    }
+
+    if (job.status === "expired") {
+      res.status(410).json({
+        success: false,
+        message: "This export has expired; run it again"
+      });
+      return;
+    }
+
+    if (job.status !== "completed" || !job.filePath || !job.fileName) {
+      res.status(409).json({
+        success: false,
+        message: job.status === "failed" ? `Export failed: ${job.error}` : `Export is still ${job.status}`
+      });
+      return;
+    }
+
+    res.download(job.filePath, job.fileName, (error) => {
+      if (error && !res.headersSent) {
+        console.error("Download export error:", error);
+        res.status(404).json({
+          success: false,
+          message: "Export file is missing"
+        });
+      }
+    });
+  } catch (error: any) {
+    console.error("Download export error:", error);
+    res.status(500).json({
+      success: false,
+      message: error.message || "Server error"
+    });
+  }
+};
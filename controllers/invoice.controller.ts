@@ -0,0 +1,144 @@
+import type { Request, Response } from "express";
+import { Invoice } from "../models/Invoice.ts";
+import { User } from "../models/User.ts";
+import { InvoiceService, GSTR1_COLUMNS } from "../services/invoiceService.ts";
+import { toCsv } from "../utils/csv.ts";
+import { Op } from "sequelize";
+
+// Parse a from/to query pair; `to` is a day, so the range ends at the next midnight
+const parsePeriod = (from: unknown, to: unknown): { start: Date; end: Date } | null => {
+  if (!from || !to) return null;
+  const start = new Date(String(from));
+  const end = new Date(String(to));
+  if (isNaN(start.getTime()) || isNaN(end.getTime())) return null;
+  start.setHours(0, 0, 0, 0);
+  end.setHours(0, 0, 0, 0);
+  end.setDate(end.getDate() + 1);
+  return start < end ? { start, end } : null;
+};
+
+// GET /api/invoices/my - The member's invoices (User)
+export const getMyInvoices = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = (req as any).user?.userId;
+    const { page = 1, limit = 20 } = req.query;
+    const offset = (Number(page) - 1) * Number(limit);
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: "User not authenticated"
+      });
+      return;
+    }
+
+    const { count, rows: invoices } = await Invoice.findAndCountAll({
+      where: { userId },
+      order: [['invoiceDate', 'DESC'], ['id', 'DESC']],
+      limit: Number(limit),
+      offset
+    });
+
+    res.json({
+      success: true,
+      data: invoices,
+      pagination: {
+        total: count,
+        page: Number(page),
+        limit: Number(limit),
+        pages: Math.ceil(count / Number(limit))
+      }
+    });
+  } catch (error: any) {
+    console.error("Get my invoices error:", error);
+    res.status(500).json({
+      success: false,
+      message: error.message || "Server error"
+    });
+  }
+};
+
+// GET /api/invoices - List invoices (Admin only)
+export const getInvoices = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { from, to, userId, search, page = 1, limit = 20 } = req.query;
+    const offset = (Number(page) - 1) * Number(limit);
+
+    const whereClause: any = {};
+    if (from || to) {
+      const period = parsePeriod(from, to);
+      if (!period) {
+        res.status(400).json({
+          success: false,
+          message: "Provide both from and to as dates, from not after to"
+        });
+        return;
+      }
+      whereClause.invoiceDate = { [Op.gte]: period.start, [Op.lt]: period.end };
+    }
+    if (userId) {
+      whereClause.userId = Number(userId);
+    }
+    if (search) {
+      whereClause[Op.or] = [
+        { invoiceNumber: { [Op.like]: `%${search}%` } },
+        { buyerName: { [Op.like]: `%${search}%` } }
+      ];
+    }
+
+    const { count, rows: invoices } = await Invoice.findAndCountAll({
+      where: whereClause,
+      include: [{ model: User, as: 'user', attributes: ['id', 'name', 'email', 'username'] }],
+      order: [['financialYear', 'DESC'], ['sequence', 'DESC']],
+      limit: Number(limit),
+      offset
+    });
+
+    res.json({
+      success: true,
+      data: invoices,
+      pagination: {
+        total: count,
+        page: Number(page),
+        limit: Number(limit),
+        pages: Math.ceil(count / Number(limit))
+      }
+    });
+  } catch (error: any) {
+    console.error("Get invoices error:", error);
+    res.status(500).json({
+      success: false,
+      message: error.message || "Server error"
+    });
+  }
+};
+
+// GET /api/invoices/gstr1?from=2025-04-01&to=2025-04-30 - GSTR-1 style CSV of a period (Admin only)
+export const exportGstr1 = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const period = parsePeriod(req.query.from, req.query.to);
+    if (!period) {
+      res.status(400).json({
+        success: false,
+        message: "Provide from and to dates (YYYY-MM-DD), from not after to"
+      });
+      return;
+    }
+
+    const invoices = await InvoiceService.listForPeriod(period.start, period.end);
+    const csv = toCsv([GSTR1_COLUMNS, ...InvoiceService.toGstr1Rows(invoices)]);
+
+    res.setHeader("Content-Type", "text/csv; charset=utf-8");
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="gstr1-${req.query.from}-to-${req.query.to}.csv"`
+    );
+    res.send(csv);
+  } catch (error: any) {
+    console.error("Export GSTR-1 error:", error);
+    res.status(500).json({
+      success: false,
+      message: error.message || "Server error"
+    });
+  }
+};
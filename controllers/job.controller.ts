@@ -0,0 +1,89 @@
+import type { Request, Response } from "express";
+import { ScheduledJob, JOB_SCHEDULES } from "../models/ScheduledJob.ts";
+import { JobRunner } from "../services/jobRunner.ts";
+
+// GET /api/jobs - List scheduled jobs (Admin only)
+export const getScheduledJobs = async (req: Request, res: Response): Promise<void> => {
+  try {
+    await JobRunner.ensureDefaultJobs();
+    const jobs = await ScheduledJob.findAll({ order: [['name', 'ASC']] });
+
+    res.json({
+      success: true,
+      data: jobs
+    });
+  } catch (error: any) {
+    console.error("Get scheduled jobs error:", error);
+    res.status(500).json({
+      success: false,
+      message: error.message || "Server error"
+    });
+  }
+};
+
+// PUT /api/jobs/:name - Change a job's schedule, options or enabled flag (Admin only)
+export const updateScheduledJob = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { schedule, isEnabled, options } = req.body;
+
+    await JobRunner.ensureDefaultJobs();
+    const job = await ScheduledJob.findOne({ where: { name: req.params.name } });
+    if (!job) {
+      res.status(404).json({
+        success: false,
+        message: "Job not found"
+      });
+      return;
+    }
+
+    if (schedule !== undefined && !JOB_SCHEDULES.includes(schedule)) {
+      res.status(400).json({
+        success: false,
+        message: `Schedule must be one of: ${JOB_SCHEDULES.join(", ")}`
+      });
+      return;
+    }
+
+    const updates: any = {};
+    if (schedule !== undefined) {
+      updates.schedule = schedule;
+      updates.nextRunAt = JobRunner.computeNextRun(schedule);
+    }
+    if (isEnabled !== undefined) updates.isEnabled = Boolean(isEnabled);
+    if (options !== undefined) updates.options = { ...(job.options || {}), ...options };
+
+    await job.update(updates);
+
+    res.json({
+      success: true,
+      message: "Job updated successfully",
+      data: job
+    });
+  } catch (error: any) {
+    console.error("Update scheduled job error:", error);
+    res.status(500).json({
+      success: false,
+      message: error.message || "Server error"
+    });
+  }
+};
+
+// POST /api/jobs/:name/run - Run a job now (Admin only)
+export const runScheduledJob = async (req: Request, res: Response): Promise<void> => {
+  try {
+    await JobRunner.ensureDefaultJobs();
+    const job = await JobRunner.runJob(String(req.params.name));
+
+    res.json({
+      success: job.lastStatus !== 'failed',
+      message: job.lastStatus === 'failed' ? `Job failed: ${job.lastError}` : "Job completed",
+      data: job
+    });
+  } catch (error: any) {
+    console.error("Run scheduled job error:", error);
+    res.status(error.message?.includes("not found") ? 404 : 500).json({
+      success: false,
+      message: error.message || "Server error"
+    });
+  }
+};
@@ -3,6 +3,7 @@ import { User } from "../models/User.ts";
 import { Kyc } from "../models/Kyc.ts";
 import { Op } from "sequelize";
 import { toPublicUrl } from "../middlewares/upload.ts";
+import { resolveStateCode } from "../utils/gst.ts";
 
 // Submit KYC request
 export const submitKycRequest = async (req: Request, res: Response): Promise<void> => {
@@ -34,7 +35,8 @@ export const submitKycRequest = async (req: Request, res: Response): Promise<voi
       bankName, 
       accountHolderName,
       address,
-      pincode
+      pincode,
+      state
     } = req.body;
 
     // Handle uploaded files
@@ -69,6 +71,16 @@ export const submitKycRequest = async (req: Request, res: Response): Promise<voi
       return;
     }
 
+    // State may be given as a GST state code or a name
+    const stateCode = resolveStateCode(state);
+    if (state && !stateCode) {
+      res.status(400).json({ 
+        success: false,
+        message: "State must be a valid Indian state or GST state code" 
+      });
+      return;
+    }
+
     // Validate that at least one image is provided
     if (!parentImageFile && !childImageFile) {
       res.status(400).json({ 
@@ -105,6 +117,7 @@ export const submitKycRequest = async (req: Request, res: Response): Promise<voi
       accountHolderName,
       address: address || null,
       pincode: pincode || null,
+      stateCode,
       parentImage: parentImageFile ? toPublicUrl(parentImageFile.filename) : null,
       childImage: childImageFile ? toPublicUrl(childImageFile.filename) : null,
       status: 'pending'
@@ -216,6 +229,7 @@ export const getMyKycStatus = async (req: Request, res: Response): Promise<void>
         accountHolderName: kyc.accountHolderName,
         address: kyc.address,
         pincode: kyc.pincode,
+        stateCode: kyc.stateCode,
         parentImage: kyc.parentImage,
         childImage: kyc.childImage,
         rejectionReason: kyc.rejectionReason,
@@ -301,6 +315,7 @@ export const getAllKycRequests = async (req: Request, res: Response): Promise<vo
           accountHolderName: kyc.accountHolderName,
           address: kyc.address,
           pincode: kyc.pincode,
+          stateCode: kyc.stateCode,
           parentImage: kyc.parentImage,
           childImage: kyc.childImage,
           rejectionReason: kyc.rejectionReason,
@@ -514,6 +529,7 @@ export const getKycRequestDetails = async (req: Request, res: Response): Promise
         accountHolderName: kyc.accountHolderName,
         address: kyc.address,
         pincode: kyc.pincode,
+        stateCode: kyc.stateCode,
         parentImage: kyc.parentImage,
         childImage: kyc.childImage,
         rejectionReason: kyc.rejectionReason,
@@ -0,0 +1,211 @@
+import type { Request, Response } from "express";
+import { LedgerAccount } from "../models/LedgerAccount.ts";
+import { JournalEntry } from "../models/JournalEntry.ts";
+import { JournalLine } from "../models/JournalLine.ts";
+import { User } from "../models/User.ts";
+import { RecoveryDue, RECOVERY_DUE_STATUSES } from "../models/RecoveryDue.ts";
+import { LedgerService } from "../services/ledgerService.ts";
+import { sequelize } from "../utils/db.ts";
+import { Op } from "sequelize";
+
+// GET /api/ledger/accounts - Chart of accounts with balances (Admin only)
+export const getLedgerAccounts = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { type, system } = req.query;
+
+    const whereClause: any = {};
+    if (type) whereClause.type = type;
+    if (system !== undefined) whereClause.isSystem = system === 'true';
+
+    const accounts = await LedgerAccount.findAll({
+      where: whereClause,
+      include: [{
+        model: User,
+        as: 'user',
+        attributes: ['id', 'name', 'username', 'email']
+      }],
+      order: [['isSystem', 'DESC'], ['code', 'ASC']]
+    });
+
+    const data = await Promise.all(accounts.map(async account => ({
+      ...account.toJSON(),
+      balance: await LedgerService.getAccountBalance(account.id)
+    })));
+
+    res.json({
+      success: true,
+      data
+    });
+  } catch (error: any) {
+    console.error("Get ledger accounts error:", error);
+    res.status(500).json({
+      success: false,
+      message: error.message || "Server error"
+    });
+  }
+};
+
+// GET /api/ledger/trial-balance - Trial balance (Admin only)
+export const getTrialBalance = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const trialBalance = await LedgerService.getTrialBalance();
+
+    res.json({
+      success: true,
+      data: trialBalance
+    });
+  } catch (error: any) {
+    console.error("Get trial balance error:", error);
+    res.status(500).json({
+      success: false,
+      message: error.message || "Server error"
+    });
+  }
+};
+
+// GET /api/ledger/entries - Journal entries with lines (Admin only)
+export const getJournalEntries = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { page = 1, limit = 20, entryType, reference, accountId, startDate, endDate } = req.query;
+    const offset = (Number(page) - 1) * Number(limit);
+
+    const whereClause: any = {};
+    if (entryType) whereClause.entryType = entryType;
+    if (reference) whereClause.reference = { [Op.like]: `%${reference}%` };
+    if (startDate || endDate) {
+      whereClause.createdAt = {};
+      if (startDate) whereClause.createdAt[Op.gte] = new Date(startDate as string);
+      if (endDate) whereClause.createdAt[Op.lte] = new Date(endDate as string);
+    }
+    if (accountId) {
+      const lines = await JournalLine.findAll({
+        where: { accountId: Number(accountId) },
+        attributes: ['journalEntryId']
+      });
+      whereClause.id = { [Op.in]: lines.map(line => line.journalEntryId) };
+    }
+
+    const { count, rows: entries } = await JournalEntry.findAndCountAll({
+      where: whereClause,
+      include: [{
+        model: JournalLine,
+        as: 'lines',
+        include: [{
+          model: LedgerAccount,
+          as: 'account',
+          attributes: ['id', 'code', 'name', 'type']
+        }]
+      }],
+      order: [['createdAt', 'DESC']],
+      limit: Number(limit),
+      offset,
+      distinct: true
+    });
+
+    res.json({
+      success: true,
+      data: entries,
+      pagination: {
+        total: count,
+        page: Number(page),
+        limit: Number(limit),
+        pages: Math.ceil(count / Number(limit))
+      }
+    });
+  } catch (error: any) {
+    console.error("Get journal entries error:", error);
+    res.status(500).json({
+      success: false,
+      message: error.message || "Server error"
+    });
+  }
+};
+
+// POST /api/ledger/users/:userId/rebuild - Rebuild wallet projections from the journal (Admin only)
+export const rebuildUserWallet = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = Number(req.params.userId);
+
+    const user = await User.findByPk(userId, { attributes: ['id'] });
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        message: "User not found"
+      });
+      return;
+    }
+
+    const wallet = await LedgerService.rebuildUserWallet(userId);
+
+    res.json({
+      success: true,
+      message: "Wallet rebuilt from ledger successfully",
+      data: wallet
+    });
+  } catch (error: any) {
+    console.error("Rebuild user wallet error:", error);
+    res.status(500).json({
+      success: false,
+      message: error.message || "Server error"
+    });
+  }
+};
+
+// GET /api/ledger/recovery-dues - Clawbacks still owed by members (Admin only)
+export const getRecoveryDues = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { status = 'open', userId, page = 1, limit = 20 } = req.query;
+    const offset = (Number(page) - 1) * Number(limit);
+
+    const whereClause: any = {};
+    if (status !== 'all') {
+      if (!RECOVERY_DUE_STATUSES.includes(status as any)) {
+        res.status(400).json({
+          success: false,
+          message: `Status must be one of: all, ${RECOVERY_DUE_STATUSES.join(", ")}`
+        });
+        return;
+      }
+      whereClause.status = status;
+    }
+    if (userId) whereClause.userId = Number(userId);
+
+    const { count, rows: dues } = await RecoveryDue.findAndCountAll({
+      where: whereClause,
+      include: [{
+        model: User,
+        as: 'user',
+        attributes: ['id', 'name', 'email', 'username']
+      }],
+      order: [['createdAt', 'DESC']],
+      limit: Number(limit),
+      offset
+    });
+
+    const outstanding = await RecoveryDue.findOne({
+      where: { ...whereClause, status: 'open' },
+      attributes: [
+        [sequelize.fn('COALESCE', sequelize.fn('SUM', sequelize.literal('amount - recoveredAmount')), 0), 'total']
+      ],
+      raw: true
+    }) as any;
+
+    res.json({
+      success: true,
+      data: dues,
+      outstanding: Number(outstanding?.total || 0),
+      pagination: {
+        total: count,
+        page: Number(page),
+        limit: Number(limit),
+        pages: Math.ceil(count / Number(limit))
+      }
+    });
+  } catch (error: any) {
+    console.error("Get recovery dues error:", error);
+    res.status(500).json({
+      success: false,
+      message: error.message || "Server error"
+    });
+  }
+};
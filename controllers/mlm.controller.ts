@@ -2,6 +2,8 @@ import type { Request, Response } from "express";
 import { User } from "../models/User.ts";
 import { Op } from "sequelize";
 import { AdvancedBVMatchingService } from "../services/advancedBvMatchingService.ts";
+import { TreePathService } from "../services/treePathService.ts";
+import { PlacementService } from "../services/placementService.ts";
 
 // Get user's referrals with basic info
 export const getMyReferrals = async (req: Request, res: Response): Promise<void> => {
@@ -133,7 +135,7 @@ export const getReferralTree = async (req: Request, res: Response): Promise<void
     }
 
     // Get the full referral tree
-    const tree = await buildReferralTree(currentUser.username);
+    const tree = await TreePathService.getReferralTree(currentUser.id);
 
     res.json({
       success: true,
@@ -203,7 +205,7 @@ export const getReferralDetails = async (req: Request, res: Response): Promise<v
     }
 
     // Get the referral's nested tree
-    const nestedTree = await buildReferralTree(referral.username!);
+    const nestedTree = await TreePathService.getReferralTree(referral.id);
 
     res.json({
       success: true,
@@ -230,95 +232,6 @@ export const getReferralDetails = async (req: Request, res: Response): Promise<v
   }
 };
 
-// Helper function to build referral tree recursively
-async function buildReferralTree(username: string, maxDepth: number = 10, currentDepth: number = 0): Promise<any> {
-  if (currentDepth >= maxDepth) {
-    return {
-      leftSide: { count: 0, activeCount: 0, referrals: [] },
-      rightSide: { count: 0, activeCount: 0, referrals: [] },
-      totalCount: 0,
-      totalActiveCount: 0
-    };
-  }
-
-  // Get direct referrals
-  const referrals = await User.findAll({
-    where: { sponsorId: username },
-    attributes: [
-      'id',
-      'name',
-      'email',
-      'username',
-      'sponsorId',
-      'position',
-      'isActive',
-      'createdAt',
-    ],
-    order: [['createdAt', 'DESC']],
-  });
-
-  // Separate by position
-  const leftSideReferrals = referrals.filter(ref => ref.position === 'left');
-  const rightSideReferrals = referrals.filter(ref => ref.position === 'right');
-
-  // Build nested trees for each referral
-  const leftSideWithNested = await Promise.all(
-    leftSideReferrals.map(async (referral) => {
-      const nestedTree = await buildReferralTree(referral.username!, maxDepth, currentDepth + 1);
-      return {
-        id: referral.id,
-        name: referral.name,
-        email: referral.email,
-        username: referral.username,
-        sponsorId: referral.sponsorId,
-        position: referral.position,
-        isActive: referral.isActive,
-        joinedAt: referral.createdAt,
-        referrals: nestedTree
-      };
-    })
-  );
-
-  const rightSideWithNested = await Promise.all(
-    rightSideReferrals.map(async (referral) => {
-      const nestedTree = await buildReferralTree(referral.username!, maxDepth, currentDepth + 1);
-      return {
-        id: referral.id,
-        name: referral.name,
-        email: referral.email,
-        username: referral.username,
-        sponsorId: referral.sponsorId,
-        position: referral.position,
-        isActive: referral.isActive,
-        joinedAt: referral.createdAt,
-        referrals: nestedTree
-      };
-    })
-  );
-
-  // Calculate counts including nested
-  const leftCount = leftSideWithNested.reduce((sum, ref) => sum + 1 + (ref.referrals?.totalCount || 0), 0);
-  const leftActiveCount = leftSideWithNested.reduce((sum, ref) => sum + (ref.isActive ? 1 : 0) + (ref.referrals?.totalActiveCount || 0), 0);
-  
-  const rightCount = rightSideWithNested.reduce((sum, ref) => sum + 1 + (ref.referrals?.totalCount || 0), 0);
-  const rightActiveCount = rightSideWithNested.reduce((sum, ref) => sum + (ref.isActive ? 1 : 0) + (ref.referrals?.totalActiveCount || 0), 0);
-
-  return {
-    leftSide: {
-      count: leftCount,
-      activeCount: leftActiveCount,
-      referrals: leftSideWithNested
-    },
-    rightSide: {
-      count: rightCount,
-      activeCount: rightActiveCount,
-      referrals: rightSideWithNested
-    },
-    totalCount: leftCount + rightCount,
-    totalActiveCount: leftActiveCount + rightActiveCount
-  };
-}
-
 // Get referral statistics
 export const getReferralStats = async (req: Request, res: Response): Promise<void> => {
   try {
@@ -342,31 +255,17 @@ export const getReferralStats = async (req: Request, res: Response): Promise<voi
       return;
     }
 
-    // Get all referrals in the tree (recursive)
-    const allReferrals = await getAllReferralsInTree(currentUser.username);
-
-    // Calculate statistics
-    const totalReferrals = allReferrals.length;
-    const activeReferrals = allReferrals.filter(ref => ref.isActive).length;
-    const leftSideReferrals = allReferrals.filter(ref => ref.position === 'left');
-    const rightSideReferrals = allReferrals.filter(ref => ref.position === 'right');
+    // Leg counts for the whole tree
+    const legs = await TreePathService.getLegCounts(currentUser.id);
 
     res.json({
       success: true,
       data: {
-        totalReferrals,
-        activeReferrals,
-        inactiveReferrals: totalReferrals - activeReferrals,
-        leftSide: {
-          total: leftSideReferrals.length,
-          active: leftSideReferrals.filter(ref => ref.isActive).length,
-          inactive: leftSideReferrals.filter(ref => !ref.isActive).length
-        },
-        rightSide: {
-          total: rightSideReferrals.length,
-          active: rightSideReferrals.filter(ref => ref.isActive).length,
-          inactive: rightSideReferrals.filter(ref => !ref.isActive).length
-        }
+        totalReferrals: legs.total,
+        activeReferrals: legs.active,
+        inactiveReferrals: legs.total - legs.active,
+        leftSide: legs.left,
+        rightSide: legs.right
       }
     });
   } catch (error: any) {
@@ -378,39 +277,6 @@ export const getReferralStats = async (req: Request, res: Response): Promise<voi
   }
 };
 
-// Helper function to get all referrals in tree (flattened)
-async function getAllReferralsInTree(username: string, visited: Set<string> = new Set()): Promise<any[]> {
-  if (visited.has(username)) {
-    return []; // Prevent infinite loops
-  }
-  visited.add(username);
-
-  const referrals = await User.findAll({
-    where: { sponsorId: username },
-    attributes: [
-      'id',
-      'name',
-      'email',
-      'username',
-      'sponsorId',
-      'position',
-      'isActive',
-      'createdAt',
-    ]
-  });
-
-  let allReferrals = [...referrals];
-
-  // Recursively get referrals of referrals
-  for (const referral of referrals) {
-    const nestedReferrals = await getAllReferralsInTree(referral.username!, visited);
-    allReferrals = allReferrals.concat(nestedReferrals);
-  }
-
-  return allReferrals;
-}
-
-// Check position availability for a sponsor
 export const checkPositionAvailability = async (req: Request, res: Response): Promise<void> => {
   try {
     const { sponsorId } = req.query;
@@ -439,18 +305,22 @@ export const checkPositionAvailability = async (req: Request, res: Response): Pr
     // Check available positions
     const leftPosition = await User.findOne({
       where: { 
-        sponsorId: sponsorId as string,
+        placementParentId: sponsor.username,
         position: 'left'
       }
     });
 
     const rightPosition = await User.findOne({
       where: { 
-        sponsorId: sponsorId as string,
+        placementParentId: sponsor.username,
         position: 'right'
       }
     });
 
+    // A taken slot still accepts members: they spill over further down that leg
+    const leftPlacement = await PlacementService.findPlacement(sponsor, 'left');
+    const rightPlacement = await PlacementService.findPlacement(sponsor, 'right');
+
     res.json({
       success: true,
       data: {
@@ -460,6 +330,10 @@ export const checkPositionAvailability = async (req: Request, res: Response): Pr
         positions: {
           left: leftPosition ? 'taken' : 'available',
           right: rightPosition ? 'taken' : 'available'
+        },
+        placements: {
+          left: { placementParentId: leftPlacement.parent.username, position: leftPlacement.position },
+          right: { placementParentId: rightPlacement.parent.username, position: rightPlacement.position }
         }
       }
     });
@@ -501,14 +375,14 @@ export const getAvailablePositions = async (req: Request, res: Response): Promis
     // Get positions
     const leftPosition = await User.findOne({
       where: { 
-        sponsorId: sponsorId,
+        placementParentId: sponsor.username,
         position: 'left'
       }
     });
 
     const rightPosition = await User.findOne({
       where: { 
-        sponsorId: sponsorId,
+        placementParentId: sponsor.username,
         position: 'right'
       }
     });
@@ -549,7 +423,7 @@ export const getUserTree = async (req: Request, res: Response): Promise<void> =>
       return;
     }
 
-    const tree = await buildReferralTree(user.username);
+    const tree = await TreePathService.getReferralTree(user.id);
 
     res.json({
       success: true,
@@ -619,31 +493,18 @@ export const getUserDownlineStats = async (req: Request, res: Response): Promise
       return;
     }
 
-    const allReferrals = await getAllReferralsInTree(user.username);
-    
-    const totalReferrals = allReferrals.length;
-    const activeReferrals = allReferrals.filter(ref => ref.isActive).length;
-    const leftSideReferrals = allReferrals.filter(ref => ref.position === 'left');
-    const rightSideReferrals = allReferrals.filter(ref => ref.position === 'right');
+    const legs = await TreePathService.getLegCounts(user.id);
 
     res.json({
       success: true,
       data: {
         userId: user.id,
         username: user.username,
-        totalReferrals,
-        activeReferrals,
-        inactiveReferrals: totalReferrals - activeReferrals,
-        leftSide: {
-          total: leftSideReferrals.length,
-          active: leftSideReferrals.filter(ref => ref.isActive).length,
-          inactive: leftSideReferrals.filter(ref => !ref.isActive).length
-        },
-        rightSide: {
-          total: rightSideReferrals.length,
-          active: rightSideReferrals.filter(ref => ref.isActive).length,
-          inactive: rightSideReferrals.filter(ref => !ref.isActive).length
-        }
+        totalReferrals: legs.total,
+        activeReferrals: legs.active,
+        inactiveReferrals: legs.total - legs.active,
+        leftSide: legs.left,
+        rightSide: legs.right
       }
     });
   } catch (error: any) {
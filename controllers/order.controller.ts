@@ -0,0 +1,168 @@
+import type { Request, Response } from "express";
+import { Order, ORDER_STATUSES } from "../models/Order.ts";
+import { OrderEvent } from "../models/OrderEvent.ts";
+import { Payment } from "../models/Payment.ts";
+import { PlanRequest } from "../models/PlanRequest.ts";
+import { User } from "../models/User.ts";
+import { Plan } from "../models/Plan.ts";
+import { Refund } from "../models/Refund.ts";
+import { RefundReversal } from "../models/RefundReversal.ts";
+
+// GET /api/orders - List plan purchase orders (Admin only)
+export const getOrders = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { status, userId, page = 1, limit = 20 } = req.query;
+    const offset = (Number(page) - 1) * Number(limit);
+
+    const whereClause: any = {};
+    if (status && status !== 'all') {
+      if (!ORDER_STATUSES.includes(status as any)) {
+        res.status(400).json({
+          success: false,
+          message: `Status must be one of: all, ${ORDER_STATUSES.join(", ")}`
+        });
+        return;
+      }
+      whereClause.status = status;
+    }
+    if (userId) {
+      whereClause.userId = Number(userId);
+    }
+
+    const { count, rows: orders } = await Order.findAndCountAll({
+      where: whereClause,
+      include: [
+        {
+          model: User,
+          as: 'user',
+          attributes: ['id', 'name', 'email', 'username']
+        },
+        {
+          model: Plan,
+          as: 'plan',
+          attributes: ['id', 'name', 'price', 'currency']
+        }
+      ],
+      order: [['createdAt', 'DESC']],
+      limit: Number(limit),
+      offset
+    });
+
+    res.json({
+      success: true,
+      data: orders,
+      pagination: {
+        total: count,
+        page: Number(page),
+        limit: Number(limit),
+        pages: Math.ceil(count / Number(limit))
+      }
+    });
+  } catch (error: any) {
+    console.error("Get orders error:", error);
+    res.status(500).json({
+      success: false,
+      message: error.message || "Server error"
+    });
+  }
+};
+
+// GET /api/orders/my - The logged-in member's orders (User)
+export const getMyOrders = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = (req as any).user?.userId;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: "User not authenticated"
+      });
+      return;
+    }
+
+    const orders = await Order.findAll({
+      where: { userId },
+      include: [
+        {
+          model: Plan,
+          as: 'plan',
+          attributes: ['id', 'name', 'price', 'currency']
+        }
+      ],
+      order: [['createdAt', 'DESC']]
+    });
+
+    res.json({
+      success: true,
+      data: orders
+    });
+  } catch (error: any) {
+    console.error("Get my orders error:", error);
+    res.status(500).json({
+      success: false,
+      message: error.message || "Server error"
+    });
+  }
+};
+
+// GET /api/orders/:id - Order with its payments, plan requests, history and refund (Admin only)
+export const getOrderById = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const order = await Order.findByPk(req.params.id, {
+      include: [
+        {
+          model: User,
+          as: 'user',
+          attributes: ['id', 'name', 'email', 'username', 'isActive']
+        },
+        {
+          model: Plan,
+          as: 'plan',
+          attributes: ['id', 'name', 'price', 'currency']
+        },
+        {
+          model: Payment,
+          as: 'payments'
+        },
+        {
+          model: PlanRequest,
+          as: 'planRequests'
+        },
+        {
+          model: OrderEvent,
+          as: 'events',
+          include: [{ model: User, as: 'actor', attributes: ['id', 'name', 'email'] }]
+        },
+        {
+          model: Refund,
+          as: 'refund',
+          include: [{
+            model: RefundReversal,
+            as: 'reversals',
+            include: [{ model: User, as: 'user', attributes: ['id', 'name', 'username'] }]
+          }]
+        }
+      ],
+      order: [[{ model: OrderEvent, as: 'events' }, 'createdAt', 'ASC']]
+    });
+
+    if (!order) {
+      res.status(404).json({
+        success: false,
+        message: "Order not found"
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: order
+    });
+  } catch (error: any) {
+    console.error("Get order error:", error);
+    res.status(500).json({
+      success: false,
+      message: error.message || "Server error"
+    });
+  }
+};
@@ -4,6 +4,11 @@ import { Competition } from '../models/Competition.js';
 import { User } from '../models/User.js';
 import { CertificateRequest, CertificateStatus } from '../models/CertificateRequest.js';
 import { checkUserCertificateEligibility } from './competition.controller.js';
+import { UtrRegistryService } from '../services/utrRegistryService.js';
+import { UpiIntentService } from '../services/upiIntentService.js';
+import { CouponService } from '../services/couponService.js';
+import { sequelize } from '../utils/db.js';
+import { toPaise } from '../utils/money.js';
 import { Op } from 'sequelize';
 
 // POST /api/competitions/:id/participate - Participate in competition (User)
@@ -59,12 +64,37 @@ export const participateInCompetition = async (req: Request, res: Response): Pro
       return;
     }
 
+    // A coupon comes off the entry fee
+    const { couponCode } = req.body || {};
+    const couponTarget = { purpose: 'competition' as const, competitionId: competition.id, amount: Number(competition.price) };
+    let pricing = null;
+    if (couponCode) {
+      try {
+        pricing = await CouponService.apply(couponCode, userId, couponTarget);
+      } catch (couponError: any) {
+        res.status(400).json({ success: false, message: couponError.message });
+        return;
+      }
+    }
+
     // Create participation request
-    const participation = await CompetitionParticipation.create({
-      userId: userId,
-      competitionId: parseInt(competitionId),
-      status: ParticipationStatus.PAYMENT_PENDING,
-      paymentAmount: competition.price
+    const participation = await sequelize.transaction(async (t) => {
+      const participation = await CompetitionParticipation.create({
+        userId: userId,
+        competitionId: parseInt(competitionId),
+        status: ParticipationStatus.PAYMENT_PENDING,
+        paymentAmount: pricing ? pricing.amount : competition.price,
+        couponId: pricing?.coupon.id ?? null,
+        discountAmount: pricing?.discountAmount ?? 0
+      }, { transaction: t });
+
+      if (couponCode) {
+        const { application } = await CouponService.redeem(couponCode, userId, couponTarget, { participationId: participation.id }, t);
+        if (toPaise(application.amount) !== toPaise(participation.paymentAmount)) {
+          throw new Error(`Coupon ${application.coupon.code} changed while the entry was being submitted; please try again`);
+        }
+      }
+      return participation;
     });
 
     res.status(201).json({ 
@@ -83,15 +113,15 @@ export const submitPaymentDetails = async (req: Request, res: Response): Promise
   try {
     const { id: participationId } = req.params;
     const userId = (req as any).user?.userId;
-    const { paymentMethod, utrNumber, paymentScreenshot } = req.body;
+    const { paymentMethod, utrNumber, intentReference, paymentScreenshot } = req.body;
 
     if (!userId) {
       res.status(401).json({ success: false, message: "User not authenticated" });
       return;
     }
 
-    if (!paymentMethod || !utrNumber) {
-      res.status(400).json({ success: false, message: "Payment method and UTR number are required" });
+    if (!paymentMethod || (!utrNumber && !intentReference)) {
+      res.status(400).json({ success: false, message: "Payment method and a UTR number or payment reference are required" });
       return;
     }
 
@@ -112,11 +142,46 @@ export const submitPaymentDetails = async (req: Request, res: Response): Promise
       return;
     }
 
-    await participation.update({
-      paymentMethod,
-      utrNumber,
-      paymentScreenshot,
-      status: ParticipationStatus.PENDING
+    const utr = utrNumber ? UtrRegistryService.normalize(utrNumber) : null;
+    if (utr && !UtrRegistryService.isValid(utr)) {
+      res.status(400).json({ success: false, message: "UTR number must be 6-50 letters or digits" });
+      return;
+    }
+
+    // A UTR can only ever pay for one plan or competition entry
+    if (utr && await UtrRegistryService.find(utr)) {
+      res.status(400).json({ success: false, message: UtrRegistryService.duplicateMessage(utr) });
+      return;
+    }
+
+    // Paid through a UPI intent: the statement credit is matched by its reference
+    let intent = null;
+    if (intentReference) {
+      try {
+        intent = await UpiIntentService.resolveForSubmission(intentReference, userId, 'participation', { participationId: participation.id });
+      } catch (intentError: any) {
+        res.status(400).json({ success: false, message: intentError.message });
+        return;
+      }
+    }
+
+    await sequelize.transaction(async (t) => {
+      await participation.update({
+        paymentMethod,
+        // Without a UTR the intent reference stands in until the statement shows the bank's
+        utrNumber: utr || intent!.reference,
+        paymentScreenshot,
+        status: ParticipationStatus.PENDING
+      }, { transaction: t });
+
+      if (utr) {
+        await UtrRegistryService.claim(utr, {
+          type: 'participation',
+          id: participation.id,
+          userId,
+          amount: Number(participation.paymentAmount)
+        }, t);
+      }
     });
 
     res.json({ success: true, data: participation, message: "Payment details submitted successfully" });
@@ -277,18 +342,27 @@ export const verifyPayment = async (req: Request, res: Response): Promise<void>
       return;
     }
 
-    if (participation.status !== ParticipationStatus.PENDING) {
+    // PAYMENT_VERIFIED: the UTR was already matched on an imported bank statement
+    if (participation.status !== ParticipationStatus.PENDING && participation.status !== ParticipationStatus.PAYMENT_VERIFIED) {
       res.status(400).json({ success: false, message: "Participation is not in pending status" });
       return;
     }
 
     const newStatus = status === 'APPROVED' ? ParticipationStatus.APPROVED : ParticipationStatus.REJECTED;
 
-    await participation.update({
-      status: newStatus,
-      adminNotes,
-      verifiedAt: new Date(),
-      verifiedBy: adminId
+    await sequelize.transaction(async (t) => {
+      await participation.update({
+        status: newStatus,
+        adminNotes,
+        verifiedAt: new Date(),
+        verifiedBy: adminId
+      }, { transaction: t });
+
+      // A rejected entry gives back its UTR, so the member can resubmit it, and its coupon use
+      if (newStatus === ParticipationStatus.REJECTED) {
+        await UtrRegistryService.release('participation', participation.id, t);
+        await CouponService.releaseForParticipation(participation.id, t);
+      }
     });
 
     // Update competition participant count if approved
@@ -1,21 +1,31 @@
 import type { Request, Response } from "express";
 import { Payment } from "../models/Payment.ts";
 import { Plan } from "../models/Plan.ts";
-import { BVLog } from "../models/BvLogs.ts";
 import { User } from "../models/User.ts";
-import { UserBV } from "../models/UserBv.ts";
 import { Wallet } from "../models/Wallet.ts";
 import { WalletTransaction } from "../models/WalletTransaction.ts";
-import { Withdrawal } from "../models/Withdrawal.ts";
-import { AdminConfig } from "../models/AdminConfig.ts";
+import { Withdrawal, VPA_WITHDRAWAL_METHODS } from "../models/Withdrawal.ts";
+import { WithdrawalService } from "../services/withdrawalService.ts";
+import { WithdrawalRuleError } from "../services/withdrawalRulesService.ts";
+import { PayoutDestinationService } from "../services/payoutDestinationService.ts";
+import { UtrRegistryService } from "../services/utrRegistryService.ts";
+import { UpiIntentService } from "../services/upiIntentService.ts";
+import { UpiPaymentIntent } from "../models/UpiPaymentIntent.ts";
+import { OrderService } from "../services/orderService.ts";
+import { UserPlanService } from "../services/userPlanService.ts";
+import { CouponService } from "../services/couponService.ts";
+import { RefundService } from "../services/refundService.ts";
+import { REFUND_KINDS } from "../models/Refund.ts";
+import { RefundReversal } from "../models/RefundReversal.ts";
 import { Op, Transaction } from "sequelize";
 import { sequelize } from "../utils/db.ts";
+import { toPaise } from "../utils/money.ts";
 // import BVLog from "@/models/BvLogs.ts";
 // import BVLog from "@/models/BvLogs.ts";
 
 export const createPayment = async (req: Request, res: Response): Promise<void> => {
   try {
-    const { planId, utrNumber, paymentMethod = "UPI" } = req.body;
+    const { planId, utrNumber, intentReference, paymentMethod = "UPI", couponCode } = req.body;
     const userId = (req as any).user?.userId;
 // console.log("req.user", req.user);
 
@@ -28,14 +38,46 @@ export const createPayment = async (req: Request, res: Response): Promise<void>
       return;
     }
 
-    if (!planId || !utrNumber) {
+    if (!planId || (!utrNumber && !intentReference)) {
       res.status(400).json({
         success: false,
-        message: "Plan ID and UTR number are required"
+        message: "Plan ID and a UTR number or payment reference are required"
       });
       return;
     }
 
+    const utr = utrNumber ? UtrRegistryService.normalize(utrNumber) : null;
+    if (utr && !UtrRegistryService.isValid(utr)) {
+      res.status(400).json({
+        success: false,
+        message: "UTR number must be 6-50 letters or digits"
+      });
+      return;
+    }
+
+    // A UTR can only ever pay for one plan or competition entry
+    if (utr && await UtrRegistryService.find(utr)) {
+      res.status(400).json({
+        success: false,
+        message: UtrRegistryService.duplicateMessage(utr)
+      });
+      return;
+    }
+
+    // Paid through a UPI intent: the statement credit is matched by its reference
+    let intent = null;
+    if (intentReference) {
+      try {
+        intent = await UpiIntentService.resolveForSubmission(intentReference, userId, 'plan', { planId: Number(planId) });
+      } catch (intentError: any) {
+        res.status(400).json({
+          success: false,
+          message: intentError.message
+        });
+        return;
+      }
+    }
+
     // Check if plan exists
     const plan = await Plan.findByPk(planId);
     if (!plan) {
@@ -46,6 +88,44 @@ export const createPayment = async (req: Request, res: Response): Promise<void>
       return;
     }
 
+    // Members who hold a plan pay only the difference to a higher one, or renew
+    // the one they hold; buying the same plan again is refused here
+    let quote;
+    try {
+      quote = await UserPlanService.quote(userId, plan.id);
+    } catch (quoteError: any) {
+      res.status(400).json({
+        success: false,
+        message: quoteError.message
+      });
+      return;
+    }
+
+    // A coupon comes off what the member would otherwise pay
+    const couponTarget = { purpose: "plan" as const, planId: plan.id, amount: quote.amount };
+    let pricing = null;
+    if (couponCode) {
+      try {
+        pricing = await CouponService.apply(couponCode, userId, couponTarget);
+      } catch (couponError: any) {
+        res.status(400).json({
+          success: false,
+          message: couponError.message
+        });
+        return;
+      }
+    }
+    const amount = pricing ? pricing.amount : quote.amount;
+
+    // The QR code must have asked for what the purchase costs now
+    if (intent && toPaise(intent.amount) !== toPaise(amount)) {
+      res.status(400).json({
+        success: false,
+        message: `Payment reference was issued for ₹${Number(intent.amount)} but this purchase costs ₹${amount}; please generate a new QR code`
+      });
+      return;
+    }
+
     // Check if user already has a pending payment for this plan
     const existingPayment = await Payment.findOne({
       where: {
@@ -63,32 +143,44 @@ export const createPayment = async (req: Request, res: Response): Promise<void>
       return;
     }
 
-    // Check if user already has an approved payment for this plan
-    const approvedPayment = await Payment.findOne({
-      where: {
+    // Create payment record and claim its UTR together
+    const payment = await sequelize.transaction(async (t) => {
+      const payment = await Payment.create({
         userId,
         planId,
-        status: "approved"
+        amount,
+        couponId: pricing?.coupon.id ?? null,
+        discountAmount: pricing?.discountAmount ?? 0,
+        currency: quote.currency,
+        // Without a UTR the intent reference stands in until the statement shows the bank's
+        utrNumber: utr || intent!.reference,
+        paymentMethod,
+        status: "pending"
+      }, { transaction: t });
+
+      if (utr) {
+        await UtrRegistryService.claim(utr, {
+          type: 'payment',
+          id: payment.id,
+          userId,
+          amount: Number(payment.amount)
+        }, t);
       }
-    });
 
-    if (approvedPayment) {
-      res.status(400).json({
-        success: false,
-        message: "You already have an approved payment for this plan"
-      });
-      return;
-    }
+      if (intent) {
+        await intent.update({ paymentId: payment.id }, { transaction: t });
+      }
 
-    // Create payment record
-    const payment = await Payment.create({
-      userId,
-      planId,
-      amount: plan.price,
-      currency: plan.currency,
-      utrNumber: utrNumber.toUpperCase(),
-      paymentMethod,
-      status: "pending"
+      const order = await OrderService.syncPayment(payment, { actorId: userId, note: `Payment #${payment.id} submitted` }, t);
+
+      if (couponCode) {
+        const { application } = await CouponService.redeem(couponCode, userId, couponTarget, { orderId: order.id, paymentId: payment.id }, t);
+        if (toPaise(application.amount) !== toPaise(amount)) {
+          throw new Error(`Coupon ${application.coupon.code} changed while the payment was being submitted; please try again`);
+        }
+      }
+
+      return payment;
     });
 
     // Include plan details in response
@@ -271,181 +363,58 @@ export const updatePaymentStatus = async (req: Request, res: Response): Promise<
       return;
     }
 
+    // A refunded payment, or one whose order is settled, is final: an
+    // activated purchase is undone by a refund, not by editing its payment
+    if (payment.status === 'refunded') {
+      await transaction.rollback();
+      res.status(409).json({
+        success: false,
+        message: "This payment has been refunded; its status can't be changed"
+      });
+      return;
+    }
+    const order = await OrderService.linkPayment(payment, transaction);
+    if (order.status === 'activated' || order.status === 'refunded' || order.status === 'cancelled') {
+      await transaction.rollback();
+      res.status(409).json({
+        success: false,
+        message: `Order #${order.id} for this payment is already ${order.status}; its payment can only change through a refund`
+      });
+      return;
+    }
+
+    const previousStatus = payment.status;
+
     // Update payment status
     await payment.update({
       status,
       adminNotes: adminNotes || payment.adminNotes
     }, { transaction });
 
-    // If payment is approved, activate the user and process BV
-    if (status === 'approved') {
-      try {
-        // Activate the user
-        await User.update(
-          { isActive: true },
-          { where: { id: payment.userId }, transaction }
-        );
-
-        // Process BV distribution
-        const bvPoints = 50; // fixed BV for every approved payment
-        let currentUser = await User.findByPk(payment.userId, { transaction });
-
-        while (currentUser && currentUser.sponsorId) {
-          // Find sponsor by username (sponsorId contains the username)
-          const sponsor = await User.findOne({
-            where: { username: currentUser.sponsorId },
-            transaction
-          });
-
-          if (sponsor) {
-            // Update or create sponsor BV row
-            const [bvRow] = await UserBV.findOrCreate({
-              where: { userId: sponsor.id },
-              defaults: { 
-                userId: sponsor.id,
-                leftBV: 0, 
-                rightBV: 0, 
-                carryLeft: 0, 
-                carryRight: 0 
-              },
-              transaction
-            });
-
-            // Add BV to sponsor (no left/right distinction in new system)
-            await bvRow.update({
-              leftBV: Number(bvRow.leftBV) + bvPoints
-            }, { transaction });
-
-            // Add a log entry (no side field in new system)
-            await BVLog.create({
-              userId: sponsor.id,
-              sourceUserId: payment.userId,
-              points: bvPoints,
-              matched: false
-            }, { transaction });
-          }
-
-          // Move up the chain
-          currentUser = sponsor;
-        }
-
-        // Process sponsor bonus for DIRECT SPONSOR ONLY (not the entire upline tree)
-        console.log(`🎁 Processing sponsor bonus for payment ${payment.id}...`);
-        const user = await User.findByPk(payment.userId, { transaction });
-        console.log(`👤 User details:`, { 
-          id: user?.id, 
-          username: user?.username, 
-          sponsorId: user?.sponsorId,
-          name: user?.name,
-          email: user?.email
-        });
-        
-        if (user?.sponsorId) {
-          console.log(`🔍 Looking for sponsor with username: "${user.sponsorId}"`);
-          const directSponsor = await User.findOne({
-            where: { username: user.sponsorId },
-            transaction
-          });
-
-          console.log(`🎯 Direct sponsor found:`, { 
-            id: directSponsor?.id, 
-            username: directSponsor?.username,
-            name: directSponsor?.name,
-            email: directSponsor?.email
-          });
-
-          if (directSponsor) {
-            // Get sponsor bonus amount from admin config
-            const sponsorBonusConfig = await AdminConfig.findOne({
-              order: [['id', 'ASC']],
-              transaction
-            });
-
-            console.log(`💰 Sponsor bonus config:`, { sponsorBonus: sponsorBonusConfig?.sponsorBonus });
-
-            if (sponsorBonusConfig) {
-              const bonusAmount = Number(sponsorBonusConfig.sponsorBonus);
-              console.log(`💵 Bonus amount: ₹${bonusAmount}`);
-              
-              if (bonusAmount > 0) {
-                // Get or create sponsor's wallet
-                const [sponsorWallet] = await Wallet.findOrCreate({
-                  where: { userId: directSponsor.id },
-                  defaults: { 
-                    userId: directSponsor.id,
-                    balance: 0,
-                    totalEarned: 0,
-                    totalWithdrawn: 0
-                  },
-                  transaction
-                });
-
-                // Add bonus to sponsor's wallet
-                await sponsorWallet.update({
-                  balance: Number(sponsorWallet.balance) + bonusAmount,
-                  totalEarned: Number(sponsorWallet.totalEarned) + bonusAmount,
-                  lastTransactionAt: new Date()
-                }, { transaction });
-
-                // Add bonus to sponsor's totalIncome
-                await User.update({
-                  totalIncome: Number(directSponsor.totalIncome) + bonusAmount
-                }, {
-                  where: { id: directSponsor.id },
-                  transaction
-                });
-
-                // Create wallet transaction record
-                await WalletTransaction.create({
-                  userId: directSponsor.id,
-                  type: 'commission',
-                  amount: bonusAmount,
-                  balanceBefore: Number(sponsorWallet.balance),
-                  balanceAfter: Number(sponsorWallet.balance) + bonusAmount,
-                  status: 'completed',
-                  description: `Sponsor bonus for referring user ${user.username} (${user.name})`,
-                  referenceId: `SPONSOR_BONUS_${user.id}_${directSponsor.id}_${Date.now()}`,
-                  metadata: {
-                    referredUserId: user.id,
-                    referredUsername: user.username,
-                    referredUserName: user.name,
-                    referredUserEmail: user.email,
-                    sponsorId: directSponsor.id,
-                    sponsorUsername: directSponsor.username,
-                    sponsorName: directSponsor.name,
-                    paymentId: payment.id,
-                    bonusAmount: bonusAmount,
-                    timestamp: new Date().toISOString()
-                  }
-                }, { transaction });
-
-                console.log(`✅ Sponsor bonus of ₹${bonusAmount} credited to DIRECT SPONSOR ${directSponsor.id} (${directSponsor.username})`);
-              } else {
-                console.log(`⚠️ Bonus amount is 0 or negative: ${bonusAmount}`);
-              }
-            } else {
-              console.log(`❌ No sponsor bonus config found`);
-            }
-          } else {
-            console.log(`❌ Direct sponsor not found for username: ${user.sponsorId}`);
-          }
-        } else {
-          console.log(`❌ User has no sponsorId: ${user?.sponsorId}`);
-        }
+    // A rejected payment gives its UTR back so the member can resubmit it;
+    // reopening one claims it again (and fails if it has been reused)
+    if (status === 'rejected') {
+      await UtrRegistryService.release('payment', payment.id, transaction);
+    } else if (previousStatus === 'rejected' && UpiIntentService.findReference(payment.utrNumber) !== payment.utrNumber) {
+      await UtrRegistryService.claim(payment.utrNumber, {
+        type: 'payment',
+        id: payment.id,
+        userId: payment.userId,
+        amount: Number(payment.amount)
+      }, transaction);
+    }
 
-        // Process BV matching and wallet updates
-        await processBVMatching(payment.userId, transaction);
-      } catch (bvError) {
-        console.error("BV processing error:", bvError);
-        await transaction.rollback();
-        res.status(500).json({
-          success: false,
-          message: "Error processing BV distribution"
-        });
-        return;
-      }
+    if (status === 'approved') {
+      const intent = await UpiPaymentIntent.findOne({ where: { paymentId: payment.id }, transaction });
+      if (intent) await UpiIntentService.markPaid(intent, transaction);
     }
 
+    // The order runs activation, the sponsor bonus and BV, once per purchase
+    await OrderService.sync(order.id, {
+      actorId: (req as any).user?.userId ?? null,
+      note: `Payment #${payment.id} ${status}${adminNotes ? `: ${adminNotes}` : ''}`
+    }, transaction);
+
     // Commit transaction
     await transaction.commit();
 
@@ -488,6 +457,49 @@ export const updatePaymentStatus = async (req: Request, res: Response): Promise<
   }
 };
 
+// POST /api/payments/admin/:paymentId/refund - Refund or charge back an approved plan purchase (Admin only)
+export const refundPayment = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { paymentId } = req.params;
+    const { kind = 'refund', reason, externalReference } = req.body;
+
+    if (!REFUND_KINDS.includes(kind)) {
+      res.status(400).json({
+        success: false,
+        message: `Kind must be one of: ${REFUND_KINDS.join(", ")}`
+      });
+      return;
+    }
+
+    const refund = await RefundService.refundPayment(Number(paymentId), {
+      kind,
+      reason: reason || null,
+      externalReference: externalReference || null,
+      actorId: (req as any).user?.userId ?? null
+    });
+
+    const data = await refund.reload({
+      include: [{ model: RefundReversal, as: 'reversals' }]
+    });
+
+    res.json({
+      success: true,
+      message: `Payment ${kind === 'chargeback' ? 'charged back' : 'refunded'} successfully`,
+      data
+    });
+  } catch (error: any) {
+    console.error("Refund payment error:", error);
+    const message: string = error.message || "Server error";
+    const status = message === "Payment not found" ? 404
+      : /only .* can be refunded|right now/i.test(message) ? 400
+      : 500;
+    res.status(status).json({
+      success: false,
+      message
+    });
+  }
+};
+
 export const getPaymentStats = async (req: Request, res: Response): Promise<void> => {
   try {
     const totalPayments = await Payment.count();
@@ -495,6 +507,7 @@ export const getPaymentStats = async (req: Request, res: Response): Promise<void
     const verifiedPayments = await Payment.count({ where: { status: 'verified' } });
     const approvedPayments = await Payment.count({ where: { status: 'approved' } });
     const rejectedPayments = await Payment.count({ where: { status: 'rejected' } });
+    const refundedPayments = await Payment.count({ where: { status: 'refunded' } });
 
     // Calculate total revenue
     const revenueResult = await Payment.sum('amount', {
@@ -511,6 +524,7 @@ export const getPaymentStats = async (req: Request, res: Response): Promise<void
         verified: verifiedPayments,
         approved: approvedPayments,
         rejected: rejectedPayments,
+        refunded: refundedPayments,
         totalRevenue
       }
     });
@@ -523,114 +537,6 @@ export const getPaymentStats = async (req: Request, res: Response): Promise<void
   }
 };
 
-// BV Matching Logic
-const processBVMatching = async (userId: number, transaction: Transaction): Promise<void> => {
-  try {
-    // Get all users who need BV matching processing
-    const users = await User.findAll({
-      where: {
-        isActive: true
-      },
-      include: [{
-        model: UserBV,
-        as: 'userBV',
-        required: true
-      }],
-      transaction
-    });
-
-    for (const user of users) {
-      const userBV = (user as any).userBV;
-      if (!userBV) continue;
-
-      const leftBV = Number(userBV.leftBV);
-      const rightBV = Number(userBV.rightBV);
-      const carryLeft = Number(userBV.carryLeft);
-      const carryRight = Number(userBV.carryRight);
-
-      // Calculate total available BV on each side
-      const totalLeftBV = leftBV + carryLeft;
-      const totalRightBV = rightBV + carryRight;
-
-      // Find the minimum BV to match
-      const matchableBV = Math.min(totalLeftBV, totalRightBV);
-
-      if (matchableBV > 0) {
-        // Calculate earnings (example: 10% of matched BV)
-        const earnings = matchableBV * 0.1; // 10% commission
-        const newLeftBV = totalLeftBV - matchableBV;
-        const newRightBV = totalRightBV - matchableBV;
-
-        // Update UserBV
-        await userBV.update({
-          leftBV: newLeftBV,
-          rightBV: newRightBV,
-          carryLeft: 0,
-          carryRight: 0
-        }, { transaction });
-
-        // Update or create wallet
-        const [wallet] = await Wallet.findOrCreate({
-          where: { userId: user.id },
-          defaults: {
-            userId: user.id,
-            balance: 0,
-            totalEarned: 0,
-            totalWithdrawn: 0
-          },
-          transaction
-        });
-
-        // Add earnings to wallet
-        const balanceBefore = Number(wallet.balance);
-        wallet.addAmount(earnings);
-        await wallet.save({ transaction });
-
-        // Create wallet transaction record
-        await WalletTransaction.create({
-          userId: user.id,
-          type: 'bv_match',
-          amount: earnings,
-          balanceBefore,
-          balanceAfter: Number(wallet.balance),
-          status: 'completed',
-          description: `BV Matching Income: ${matchableBV} points matched (${earnings} earned)`,
-          referenceId: `BV_MATCH_${user.id}_${Date.now()}`,
-          metadata: {
-            matchedBV: matchableBV,
-            leftBV: totalLeftBV,
-            rightBV: totalRightBV,
-            earnings: earnings,
-            commissionRate: 0.1,
-            username: user.username,
-            userEmail: user.email,
-            userFullName: user.name,
-            timestamp: new Date().toISOString(),
-            incomeType: 'BV_MATCHING'
-          }
-        }, { transaction });
-
-        // Update BV logs to mark as matched
-        await BVLog.update(
-          { matched: true },
-          {
-            where: {
-              userId: user.id,
-              matched: false
-            },
-            transaction
-          }
-        );
-
-        console.log(`BV Match processed for user ${user.id}: ${earnings} earned from ${matchableBV} matched BV`);
-      }
-    }
-  } catch (error) {
-    console.error("BV matching error:", error);
-    throw error;
-  }
-};
-
 // Wallet Controller Functions
 export const getUserWallet = async (req: Request, res: Response): Promise<void> => {
   try {
@@ -743,8 +649,9 @@ export const getWalletTransactionSummary = async (req: Request, res: Response):
     }
 
     // Get transaction summary by type
+    // Pending, cancelled and failed rows only track withdrawal holds
     const summary = await WalletTransaction.findAll({
-      where: { userId },
+      where: { userId, status: 'completed' },
       attributes: [
         'type',
         [sequelize.fn('COUNT', sequelize.col('id')), 'count'],
@@ -758,14 +665,16 @@ export const getWalletTransactionSummary = async (req: Request, res: Response):
     const totalEarnings = await WalletTransaction.sum('amount', {
       where: { 
         userId,
-        amount: { [Op.gt]: 0 }
+        direction: 'credit',
+        status: 'completed'
       }
     });
 
     const totalWithdrawals = await WalletTransaction.sum('amount', {
       where: { 
         userId,
-        amount: { [Op.lt]: 0 }
+        direction: 'debit',
+        status: 'completed'
       }
     });
 
@@ -779,8 +688,8 @@ export const getWalletTransactionSummary = async (req: Request, res: Response):
         })),
         totals: {
           totalEarnings: totalEarnings || 0,
-          totalWithdrawals: Math.abs(totalWithdrawals || 0),
-          netAmount: (totalEarnings || 0) + (totalWithdrawals || 0)
+          totalWithdrawals: totalWithdrawals || 0,
+          netAmount: (totalEarnings || 0) - (totalWithdrawals || 0)
         }
       }
     });
@@ -796,7 +705,7 @@ export const getWalletTransactionSummary = async (req: Request, res: Response):
 export const createWithdrawal = async (req: Request, res: Response): Promise<void> => {
   try {
     const userId = (req as any).user?.userId;
-    const { amount, method, accountDetails } = req.body;
+    const { amount, method, accountDetails, destinationId } = req.body;
 
     if (!userId) {
       res.status(401).json({
@@ -806,7 +715,7 @@ export const createWithdrawal = async (req: Request, res: Response): Promise<voi
       return;
     }
 
-    if (!amount || !method || !accountDetails) {
+    if (!amount || !method || (!accountDetails && !destinationId)) {
       res.status(400).json({
         success: false,
         message: "Amount, method, and account details are required"
@@ -832,34 +741,51 @@ export const createWithdrawal = async (req: Request, res: Response): Promise<voi
       return;
     }
 
-    // Check minimum withdrawal amount
-    if (amount < 100) {
-      res.status(400).json({
-        success: false,
-        message: "Minimum withdrawal amount is ₹100"
-      });
-      return;
+    // UPI methods pay only to one of the member's verified UPI IDs
+    let payoutDetails = accountDetails;
+    let payoutDestinationId: number | null = null;
+    if (VPA_WITHDRAWAL_METHODS.includes(method)) {
+      if (!destinationId) {
+        res.status(400).json({
+          success: false,
+          message: "Choose the UPI ID (destinationId) to withdraw to"
+        });
+        return;
+      }
+      try {
+        const destination = await PayoutDestinationService.payableDestination(userId, Number(destinationId));
+        payoutDetails = PayoutDestinationService.accountDetailsFor(destination);
+        payoutDestinationId = destination.id;
+      } catch (destinationError: any) {
+        res.status(400).json({
+          success: false,
+          message: destinationError.message
+        });
+        return;
+      }
     }
 
-    // Get user wallet
-    const wallet = await Wallet.findOne({ where: { userId } });
-    if (!wallet || Number(wallet.balance) < amount) {
-      res.status(400).json({
-        success: false,
-        message: "Insufficient wallet balance"
+    // Create withdrawal request; the withdrawal rules are checked and the amount is held in the wallet
+    let withdrawal: Withdrawal;
+    try {
+      withdrawal = await WithdrawalService.request(userId, {
+        amount: Number(amount),
+        method,
+        accountDetails: payoutDetails,
+        payoutDestinationId
       });
-      return;
+    } catch (holdError: any) {
+      if (holdError instanceof WithdrawalRuleError) {
+        res.status(400).json({
+          success: false,
+          code: holdError.code,
+          message: holdError.message
+        });
+        return;
+      }
+      throw holdError;
     }
 
-    // Create withdrawal request
-    const withdrawal = await Withdrawal.create({
-      userId,
-      amount,
-      method,
-      accountDetails,
-      status: 'pending'
-    });
-
     res.status(201).json({
       success: true,
       message: "Withdrawal request submitted successfully",
@@ -942,63 +868,33 @@ export const updateWithdrawalStatus = async (req: Request, res: Response): Promi
       return;
     }
 
-    const withdrawal = await Withdrawal.findByPk(withdrawalId);
-    if (!withdrawal) {
-      res.status(404).json({
-        success: false,
-        message: "Withdrawal not found"
+    // Holds, releases and the ledger debit follow from the transition
+    let withdrawal: Withdrawal;
+    try {
+      withdrawal = await WithdrawalService.transition(Number(withdrawalId), status, {
+        actorId: (req as any).user?.userId,
+        transactionId: transactionId || null,
+        adminNotes: adminNotes || null
       });
-      return;
-    }
-
-    // If approving withdrawal, deduct from wallet
-    if (status === 'approved' && withdrawal.status === 'pending') {
-      const wallet = await Wallet.findOne({ where: { userId: withdrawal.userId } });
-      if (!wallet || Number(wallet.balance) < withdrawal.amount) {
+    } catch (transitionError: any) {
+      if (transitionError.message === "Withdrawal request not found") {
+        res.status(404).json({
+          success: false,
+          message: "Withdrawal not found"
+        });
+        return;
+      }
+      if (transitionError.message?.includes("can't move to") || transitionError.message?.includes("already debited")
+        || transitionError.message === "Insufficient wallet balance") {
         res.status(400).json({
           success: false,
-          message: "Insufficient wallet balance"
+          message: transitionError.message
         });
         return;
       }
-
-      // Deduct from wallet
-      wallet.subtractAmount(withdrawal.amount);
-      await wallet.save();
-
-      // Create wallet transaction
-      await WalletTransaction.create({
-        userId: withdrawal.userId,
-        type: 'withdrawal',
-        amount: -withdrawal.amount,
-        balanceBefore: Number(wallet.balance) + Number(withdrawal.amount),
-        balanceAfter: Number(wallet.balance),
-        status: 'completed',
-        description: `Withdrawal: ${withdrawal.method} - ₹${withdrawal.amount}`,
-        referenceId: `WITHDRAWAL_${withdrawalId}_${Date.now()}`,
-        metadata: {
-          withdrawalId: withdrawal.id,
-          withdrawalMethod: withdrawal.method,
-          withdrawalAmount: Number(withdrawal.amount),
-          accountDetails: typeof withdrawal.accountDetails === 'string' 
-            ? JSON.parse(withdrawal.accountDetails) 
-            : withdrawal.accountDetails,
-          adminNotes: withdrawal.adminNotes,
-          transactionId: withdrawal.transactionId,
-          timestamp: new Date().toISOString(),
-          incomeType: 'WITHDRAWAL'
-        }
-      });
+      throw transitionError;
     }
 
-    // Update withdrawal status
-    await withdrawal.update({
-      status,
-      adminNotes: adminNotes || withdrawal.adminNotes,
-      transactionId: transactionId || withdrawal.transactionId,
-      processedAt: status === 'completed' ? new Date() : withdrawal.processedAt
-    });
-
     res.json({
       success: true,
       message: `Withdrawal ${status} successfully`,
@@ -0,0 +1,111 @@
+import type { Request, Response } from "express";
+import { PaymentGatewayService } from "../services/paymentGatewayService.ts";
+import { getEnabledPaymentProviders } from "../services/paymentProviders/index.ts";
+
+// GET /api/payments/gateway/providers - Online payment providers available to members (User)
+export const getPaymentProviders = async (req: Request, res: Response): Promise<void> => {
+  try {
+    res.json({
+      success: true,
+      data: getEnabledPaymentProviders().map(provider => provider.name)
+    });
+  } catch (error: any) {
+    console.error("Get payment providers error:", error);
+    res.status(500).json({
+      success: false,
+      message: error.message || "Server error"
+    });
+  }
+};
+
+// POST /api/payments/gateway/orders - Place a gateway order for a plan or competition entry (User)
+export const createGatewayOrder = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = (req as any).user?.userId;
+    const { planId, participationId, provider } = req.body;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: "User not authenticated"
+      });
+      return;
+    }
+
+    if (!planId === !participationId) {
+      res.status(400).json({
+        success: false,
+        message: "Provide either planId or participationId"
+      });
+      return;
+    }
+
+    let result;
+    try {
+      result = await PaymentGatewayService.createOrder(
+        userId,
+        planId ? { planId: Number(planId) } : { participationId: Number(participationId) },
+        provider
+      );
+    } catch (orderError: any) {
+      const message: string = orderError.message || "Could not create order";
+      res.status(message.endsWith("not found") ? 404 : message.includes("order failed") ? 502 : 400).json({
+        success: false,
+        message
+      });
+      return;
+    }
+
+    res.status(201).json({
+      success: true,
+      data: result
+    });
+  } catch (error: any) {
+    console.error("Create gateway order error:", error);
+    res.status(500).json({
+      success: false,
+      message: error.message || "Server error"
+    });
+  }
+};
+
+// POST /api/webhooks/:provider - Payment provider webhook (signed, no auth)
+export const handlePaymentWebhook = async (req: Request, res: Response): Promise<void> => {
+  const provider = String(req.params.provider);
+  try {
+    if (!Buffer.isBuffer(req.body)) {
+      res.status(400).json({
+        success: false,
+        message: "Webhook body must be sent raw"
+      });
+      return;
+    }
+
+    const result = await PaymentGatewayService.handleWebhook(provider, req.body, req.headers);
+    res.json({
+      success: true,
+      data: result
+    });
+  } catch (error: any) {
+    const message: string = error.message || "Server error";
+    if (message.startsWith("Unknown payment provider")) {
+      res.status(404).json({ success: false, message });
+      return;
+    }
+    if (message === "Invalid webhook signature") {
+      res.status(401).json({ success: false, message });
+      return;
+    }
+    if (message === "Webhook body is not valid JSON") {
+      res.status(400).json({ success: false, message });
+      return;
+    }
+
+    // A 5xx makes the provider redeliver; the event is retried then
+    console.error(`Payment webhook error (${provider}):`, error);
+    res.status(500).json({
+      success: false,
+      message
+    });
+  }
+};
@@ -0,0 +1,202 @@
+import type { Request, Response } from "express";
+import { PayoutBatch, PAYOUT_BATCH_STATUSES } from "../models/PayoutBatch.ts";
+import { PayoutBatchItem } from "../models/PayoutBatchItem.ts";
+import { User } from "../models/User.ts";
+import { PayoutBatchService } from "../services/payoutBatchService.ts";
+
+// POST /api/withdrawals/admin/batches - Batch approved withdrawals for a bank bulk upload (Admin only)
+export const createPayoutBatch = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const adminId = (req as any).user?.userId;
+    const { withdrawalIds, mode, fileFormat } = req.body;
+
+    if (withdrawalIds !== undefined && (!Array.isArray(withdrawalIds) || !withdrawalIds.every(id => Number.isInteger(Number(id))))) {
+      res.status(400).json({
+        success: false,
+        message: "withdrawalIds must be a list of withdrawal ids"
+      });
+      return;
+    }
+
+    let result;
+    try {
+      result = await PayoutBatchService.createBatch({
+        withdrawalIds: withdrawalIds?.map(Number),
+        mode,
+        fileFormat
+      }, adminId);
+    } catch (batchError: any) {
+      res.status(400).json({
+        success: false,
+        message: batchError.message
+      });
+      return;
+    }
+
+    res.status(201).json({
+      success: true,
+      message: `Payout batch #${result.batch.id} created with ${result.batch.itemCount} transfers`,
+      data: result
+    });
+  } catch (error: any) {
+    console.error("Create payout batch error:", error);
+    res.status(500).json({
+      success: false,
+      message: error.message || "Server error"
+    });
+  }
+};
+
+// GET /api/withdrawals/admin/batches - List payout batches (Admin only)
+export const getPayoutBatches = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { status, page = 1, limit = 20 } = req.query;
+    const offset = (Number(page) - 1) * Number(limit);
+
+    const where: any = {};
+    if (status) {
+      if (!PAYOUT_BATCH_STATUSES.includes(status as any)) {
+        res.status(400).json({
+          success: false,
+          message: `Status must be one of: ${PAYOUT_BATCH_STATUSES.join(", ")}`
+        });
+        return;
+      }
+      where.status = status;
+    }
+
+    const { count, rows } = await PayoutBatch.findAndCountAll({
+      where,
+      include: [{ model: User, as: 'creator', attributes: ['id', 'name', 'email'] }],
+      order: [['createdAt', 'DESC']],
+      limit: Number(limit),
+      offset
+    });
+
+    res.json({
+      success: true,
+      data: {
+        batches: rows,
+        pagination: {
+          total: count,
+          page: Number(page),
+          limit: Number(limit),
+          pages: Math.ceil(count / Number(limit))
+        }
+      }
+    });
+  } catch (error: any) {
+    console.error("Get payout batches error:", error);
+    res.status(500).json({
+      success: false,
+      message: error.message || "Server error"
+    });
+  }
+};
+
+// GET /api/withdrawals/admin/batches/:id - One batch with its transfers (Admin only)
+export const getPayoutBatch = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const batch = await PayoutBatch.findByPk(req.params.id, {
+      include: [{ model: User, as: 'creator', attributes: ['id', 'name', 'email'] }]
+    });
+    if (!batch) {
+      res.status(404).json({
+        success: false,
+        message: "Payout batch not found"
+      });
+      return;
+    }
+
+    const items = await PayoutBatchItem.findAll({
+      where: { batchId: batch.id },
+      include: [{ model: User, as: 'user', attributes: ['id', 'name', 'email', 'username'] }],
+      order: [['id', 'ASC']]
+    });
+
+    res.json({
+      success: true,
+      data: {
+        batch,
+        items
+      }
+    });
+  } catch (error: any) {
+    console.error("Get payout batch error:", error);
+    res.status(500).json({
+      success: false,
+      message: error.message || "Server error"
+    });
+  }
+};
+
+// GET /api/withdrawals/admin/batches/:id/file?format=csv|fixed_width - Download the bank upload file (Admin only)
+export const downloadPayoutBatchFile = async (req: Request, res: Response): Promise<void> => {
+  try {
+    let file;
+    try {
+      file = await PayoutBatchService.renderFile(Number(req.params.id), req.query.format as any);
+    } catch (renderError: any) {
+      res.status(renderError.message === "Payout batch not found" ? 404 : 400).json({
+        success: false,
+        message: renderError.message
+      });
+      return;
+    }
+
+    res.setHeader("Content-Type", file.contentType);
+    res.setHeader("Content-Disposition", `attachment; filename="${file.fileName}"`);
+    res.send(file.content);
+  } catch (error: any) {
+    console.error("Download payout batch file error:", error);
+    res.status(500).json({
+      success: false,
+      message: error.message || "Server error"
+    });
+  }
+};
+
+// POST /api/withdrawals/admin/batches/:id/response - Import the bank's response file (Admin only)
+export const importPayoutBatchResponse = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const adminId = (req as any).user?.userId;
+    const file = req.file;
+
+    if (!file) {
+      res.status(400).json({
+        success: false,
+        message: "Response CSV file is required"
+      });
+      return;
+    }
+
+    let result;
+    try {
+      result = await PayoutBatchService.importResponse(
+        Number(req.params.id),
+        file.originalname,
+        file.buffer.toString("utf8"),
+        adminId
+      );
+    } catch (importError: any) {
+      res.status(importError.message === "Payout batch not found" ? 404 : 400).json({
+        success: false,
+        message: importError.message
+      });
+      return;
+    }
+
+    const count = (outcome: string) => result.rows.filter(row => row.outcome === outcome).length;
+    res.json({
+      success: true,
+      message: `${count('completed')} completed, ${count('failed')} failed, ${count('error') + count('unmatched')} need attention`,
+      data: result
+    });
+  } catch (error: any) {
+    console.error("Import payout batch response error:", error);
+    res.status(500).json({
+      success: false,
+      message: error.message || "Server error"
+    });
+  }
+};
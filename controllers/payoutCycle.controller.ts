@@ -0,0 +1,233 @@
+import type { Request, Response } from "express";
+import { PayoutCycle, PAYOUT_CYCLE_STATUSES } from "../models/PayoutCycle.ts";
+import { PayoutCycleItem, PAYOUT_CYCLE_ITEM_STATUSES } from "../models/PayoutCycleItem.ts";
+import { User } from "../models/User.ts";
+import { Plan } from "../models/Plan.ts";
+import { PayoutCycleService } from "../services/payoutCycleService.ts";
+
+// GET /api/payout-cycles - List payout cycles (Admin only)
+export const getPayoutCycles = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { status, page = 1, limit = 20 } = req.query;
+    const offset = (Number(page) - 1) * Number(limit);
+
+    const whereClause: any = {};
+    if (status && status !== 'all') {
+      if (!PAYOUT_CYCLE_STATUSES.includes(status as any)) {
+        res.status(400).json({
+          success: false,
+          message: `Status must be one of: all, ${PAYOUT_CYCLE_STATUSES.join(", ")}`
+        });
+        return;
+      }
+      whereClause.status = status;
+    }
+
+    const { count, rows: cycles } = await PayoutCycle.findAndCountAll({
+      where: whereClause,
+      include: [
+        {
+          model: User,
+          as: 'creator',
+          attributes: ['id', 'name', 'email']
+        },
+        {
+          model: User,
+          as: 'reviewer',
+          attributes: ['id', 'name', 'email']
+        }
+      ],
+      order: [['createdAt', 'DESC']],
+      limit: Number(limit),
+      offset
+    });
+
+    res.json({
+      success: true,
+      data: cycles,
+      pagination: {
+        total: count,
+        page: Number(page),
+        limit: Number(limit),
+        pages: Math.ceil(count / Number(limit))
+      }
+    });
+  } catch (error: any) {
+    console.error("Get payout cycles error:", error);
+    res.status(500).json({
+      success: false,
+      message: error.message || "Server error"
+    });
+  }
+};
+
+// GET /api/payout-cycles/:id - Cycle summary with its items (Admin only)
+export const getPayoutCycleById = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { status, page = 1, limit = 50 } = req.query;
+    const offset = (Number(page) - 1) * Number(limit);
+
+    const cycle = await PayoutCycle.findByPk(req.params.id, {
+      include: [
+        {
+          model: User,
+          as: 'creator',
+          attributes: ['id', 'name', 'email']
+        },
+        {
+          model: User,
+          as: 'reviewer',
+          attributes: ['id', 'name', 'email']
+        }
+      ]
+    });
+
+    if (!cycle) {
+      res.status(404).json({
+        success: false,
+        message: "Payout cycle not found"
+      });
+      return;
+    }
+
+    const whereClause: any = { payoutCycleId: cycle.id };
+    if (status && PAYOUT_CYCLE_ITEM_STATUSES.includes(status as any)) {
+      whereClause.status = status;
+    }
+
+    const { count, rows: items } = await PayoutCycleItem.findAndCountAll({
+      where: whereClause,
+      include: [
+        {
+          model: User,
+          as: 'user',
+          attributes: ['id', 'name', 'username', 'email']
+        },
+        {
+          model: Plan,
+          as: 'plan',
+          attributes: ['id', 'name', 'bvValue']
+        }
+      ],
+      order: [['bonusEarned', 'DESC'], ['id', 'ASC']],
+      limit: Number(limit),
+      offset
+    });
+
+    res.json({
+      success: true,
+      data: {
+        cycle,
+        items,
+        pagination: {
+          total: count,
+          page: Number(page),
+          limit: Number(limit),
+          pages: Math.ceil(count / Number(limit))
+        }
+      }
+    });
+  } catch (error: any) {
+    console.error("Get payout cycle error:", error);
+    res.status(500).json({
+      success: false,
+      message: error.message || "Server error"
+    });
+  }
+};
+
+// POST /api/payout-cycles - Preview matching now and open a cycle for review (Admin only)
+export const createPayoutCycle = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const adminId = (req as any).user?.userId;
+    const cycle = await PayoutCycleService.createCycle('manual', adminId);
+
+    if (!cycle) {
+      res.json({
+        success: true,
+        message: "No members have a pair to pay",
+        data: null
+      });
+      return;
+    }
+
+    res.status(201).json({
+      success: true,
+      message: `Payout cycle #${cycle.id} is ready for review`,
+      data: cycle
+    });
+  } catch (error: any) {
+    console.error("Create payout cycle error:", error);
+    res.status(error.message?.startsWith("Payout cycle #") ? 409 : 500).json({
+      success: false,
+      message: error.message || "Server error"
+    });
+  }
+};
+
+// PUT /api/payout-cycles/:id/approve - Post the cycle's payouts to wallets (Admin only)
+export const approvePayoutCycle = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const adminId = (req as any).user?.userId;
+    const { notes } = req.body;
+
+    const cycle = await PayoutCycleService.approveCycle(Number(req.params.id), adminId, notes);
+
+    res.json({
+      success: true,
+      message: cycle.status === 'posted'
+        ? `Payout cycle posted: ₹${cycle.postedBonus} credited`
+        : "Payout cycle is still being posted by another request",
+      data: cycle
+    });
+  } catch (error: any) {
+    console.error("Approve payout cycle error:", error);
+    res.status(error.message === "Payout cycle not found" ? 404 : 400).json({
+      success: false,
+      message: error.message || "Server error"
+    });
+  }
+};
+
+// PUT /api/payout-cycles/:id/retry - Post a posted cycle's failed items again (Admin only)
+export const retryPayoutCycle = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const cycle = await PayoutCycleService.retryFailedItems(Number(req.params.id));
+
+    res.json({
+      success: true,
+      message: cycle.status === 'posted'
+        ? `Payout cycle retried: ₹${cycle.postedBonus} credited, ${cycle.failedCount} still failed`
+        : "Payout cycle is still being posted by another request",
+      data: cycle
+    });
+  } catch (error: any) {
+    console.error("Retry payout cycle error:", error);
+    res.status(error.message === "Payout cycle not found" ? 404 : 400).json({
+      success: false,
+      message: error.message || "Server error"
+    });
+  }
+};
+
+// PUT /api/payout-cycles/:id/reject - Discard the cycle without posting (Admin only)
+export const rejectPayoutCycle = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const adminId = (req as any).user?.userId;
+    const { notes } = req.body;
+
+    const cycle = await PayoutCycleService.rejectCycle(Number(req.params.id), adminId, notes);
+
+    res.json({
+      success: true,
+      message: "Payout cycle rejected",
+      data: cycle
+    });
+  } catch (error: any) {
+    console.error("Reject payout cycle error:", error);
+    res.status(error.message === "Payout cycle not found" ? 404 : 400).json({
+      success: false,
+      message: error.message || "Server error"
+    });
+  }
+};
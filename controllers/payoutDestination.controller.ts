@@ -0,0 +1,180 @@
+import type { Request, Response } from "express";
+import { PayoutDestinationService } from "../services/payoutDestinationService.ts";
+
+// Errors about the member's own input or UPI IDs, rather than a fault
+const isDestinationError = (error: any): boolean =>
+  typeof error?.message === 'string' && (
+    error.message.startsWith('Enter a valid UPI ID') ||
+    error.message.startsWith('You have already added') ||
+    error.message.startsWith('You can keep up to') ||
+    error.message.startsWith('This UPI ID has a withdrawal')
+  );
+
+// GET /api/withdrawals/destinations - The member's UPI IDs, masked (User)
+export const getMyPayoutDestinations = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = (req as any).user?.userId;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: "User not authenticated"
+      });
+      return;
+    }
+
+    const destinations = await PayoutDestinationService.listForUser(userId);
+
+    res.json({
+      success: true,
+      data: destinations
+    });
+  } catch (error: any) {
+    console.error("Get payout destinations error:", error);
+    res.status(500).json({
+      success: false,
+      message: error.message || "Server error"
+    });
+  }
+};
+
+// POST /api/withdrawals/destinations - Add a UPI ID and verify it (User)
+export const addPayoutDestination = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = (req as any).user?.userId;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: "User not authenticated"
+      });
+      return;
+    }
+
+    const { vpa, label } = req.body;
+    if (!vpa) {
+      res.status(400).json({
+        success: false,
+        message: "UPI ID (vpa) is required"
+      });
+      return;
+    }
+
+    let destination;
+    try {
+      destination = await PayoutDestinationService.register(userId, { vpa, label });
+    } catch (registerError: any) {
+      if (isDestinationError(registerError)) {
+        res.status(400).json({
+          success: false,
+          message: registerError.message
+        });
+        return;
+      }
+      throw registerError;
+    }
+
+    res.status(201).json({
+      success: true,
+      message: destination.isVerified()
+        ? "UPI ID added and verified"
+        : `UPI ID added but not verified: ${destination.failureReason}`,
+      data: destination
+    });
+  } catch (error: any) {
+    console.error("Add payout destination error:", error);
+    res.status(500).json({
+      success: false,
+      message: error.message || "Server error"
+    });
+  }
+};
+
+// POST /api/withdrawals/destinations/:id/verify - Verify a UPI ID again (User)
+export const verifyPayoutDestination = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = (req as any).user?.userId;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: "User not authenticated"
+      });
+      return;
+    }
+
+    let destination;
+    try {
+      destination = await PayoutDestinationService.verifyForUser(userId, Number(req.params.id));
+    } catch (verifyError: any) {
+      if (verifyError.message === "UPI ID not found") {
+        res.status(404).json({
+          success: false,
+          message: verifyError.message
+        });
+        return;
+      }
+      throw verifyError;
+    }
+
+    res.json({
+      success: true,
+      message: destination.isVerified()
+        ? "UPI ID verified"
+        : `UPI ID could not be verified: ${destination.failureReason}`,
+      data: destination
+    });
+  } catch (error: any) {
+    console.error("Verify payout destination error:", error);
+    res.status(500).json({
+      success: false,
+      message: error.message || "Server error"
+    });
+  }
+};
+
+// DELETE /api/withdrawals/destinations/:id - Remove a UPI ID (User)
+export const removePayoutDestination = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = (req as any).user?.userId;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: "User not authenticated"
+      });
+      return;
+    }
+
+    try {
+      await PayoutDestinationService.remove(userId, Number(req.params.id));
+    } catch (removeError: any) {
+      if (removeError.message === "UPI ID not found") {
+        res.status(404).json({
+          success: false,
+          message: removeError.message
+        });
+        return;
+      }
+      if (isDestinationError(removeError)) {
+        res.status(400).json({
+          success: false,
+          message: removeError.message
+        });
+        return;
+      }
+      throw removeError;
+    }
+
+    res.json({
+      success: true,
+      message: "UPI ID removed"
+    });
+  } catch (error: any) {
+    console.error("Remove payout destination error:", error);
+    res.status(500).json({
+      success: false,
+      message: error.message || "Server error"
+    });
+  }
+};
@@ -3,6 +3,28 @@ import { Plan } from "../models/Plan.ts";
 import { Op, QueryTypes } from "sequelize";
 import { sequelize } from "../utils/db.ts";
 
+const PAIR_CAP_FIELDS = ['dailyPairCap', 'weeklyPairCap'] as const;
+const INCOME_CAP_FIELDS = ['dailyIncomeCap', 'weeklyIncomeCap'] as const;
+
+/**
+ * A plan cap or validity period that isn't a non-negative number
+ */
+class PlanCapError extends Error {
+  constructor(field: string) {
+    super(`${field} must be a non-negative number`);
+    this.name = "PlanCapError";
+  }
+}
+
+// Empty values clear a cap; anything else must be a non-negative number
+const parseCap = (field: string, value: any, integer: boolean): number | null => {
+  if (value === null || value === undefined || value === '') return null;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    throw new PlanCapError(field);
+  }
+  return integer ? Math.floor(parsed) : parsed;
+};
 
 export const getAllPlans = async (req: Request, res: Response): Promise<void> => {
   try {
@@ -78,7 +100,12 @@ export const createPlan = async (req: Request, res: Response): Promise<void> =>
       description, 
       originalPrice,
       currency = "INR",
- 
+      dailyPairCap,
+      weeklyPairCap,
+      dailyIncomeCap,
+      weeklyIncomeCap,
+      validityPeriod,
+      validityUnit
     } = req.body;
     
     if (!name || !price || !description) {
@@ -95,7 +122,12 @@ export const createPlan = async (req: Request, res: Response): Promise<void> =>
       description,
       originalPrice: originalPrice ? parseFloat(originalPrice) : null,
       currency,
-     
+      dailyPairCap: parseCap('dailyPairCap', dailyPairCap, true),
+      weeklyPairCap: parseCap('weeklyPairCap', weeklyPairCap, true),
+      dailyIncomeCap: parseCap('dailyIncomeCap', dailyIncomeCap, false),
+      weeklyIncomeCap: parseCap('weeklyIncomeCap', weeklyIncomeCap, false),
+      validityPeriod: parseCap('validityPeriod', validityPeriod, true),
+      ...(validityUnit ? { validityUnit } : {}),
       status: "draft"
     });
 
@@ -104,11 +136,11 @@ export const createPlan = async (req: Request, res: Response): Promise<void> =>
       message: "Plan created successfully",
       data: newPlan
     });
-  } catch (error: any) {
+  } catch (error: unknown) {
     console.error("Create plan error:", error);
-    res.status(500).json({ 
+    res.status(error instanceof PlanCapError ? 400 : 500).json({ 
       success: false,
-      message: error.message || "Server error" 
+      message: (error instanceof Error && error.message) || "Server error" 
     });
   }
 };
@@ -131,7 +163,14 @@ export const updatePlan = async (req: Request, res: Response): Promise<void> =>
     // Convert string numbers to proper types
     if (updateData.price) updateData.price = parseFloat(updateData.price);
     if (updateData.originalPrice) updateData.originalPrice = parseFloat(updateData.originalPrice);
-  
+    for (const field of PAIR_CAP_FIELDS) {
+      if (field in updateData) updateData[field] = parseCap(field, updateData[field], true);
+    }
+    for (const field of INCOME_CAP_FIELDS) {
+      if (field in updateData) updateData[field] = parseCap(field, updateData[field], false);
+    }
+    // An empty validity period makes the plan never expire
+    if ('validityPeriod' in updateData) updateData.validityPeriod = parseCap('validityPeriod', updateData.validityPeriod, true);
 
     await plan.update(updateData);
 
@@ -140,11 +179,11 @@ export const updatePlan = async (req: Request, res: Response): Promise<void> =>
       message: "Plan updated successfully",
       data: plan
     });
-  } catch (error: any) {
+  } catch (error: unknown) {
     console.error("Update plan error:", error);
-    res.status(500).json({ 
+    res.status(error instanceof PlanCapError ? 400 : 500).json({ 
       success: false,
-      message: error.message || "Server error" 
+      message: (error instanceof Error && error.message) || "Server error" 
     });
   }
 };
@@ -2,13 +2,12 @@ import type { Request, Response } from "express";
 import { PlanRequest } from "../models/PlanRequest.ts";
 import { Plan } from "../models/Plan.ts";
 import { User } from "../models/User.ts";
-import { Wallet } from "../models/Wallet.ts";
-import { WalletTransaction } from "../models/WalletTransaction.ts";
-import { AdminConfig } from "../models/AdminConfig.ts";
 import { Op, Transaction } from "sequelize";
 import { BVMatchingService } from "../services/bvMatchingService.ts";
 import { AdvancedBVMatchingService } from "../services/advancedBvMatchingService.ts";
-import { MLMService } from "../services/mlmService.ts";
+import { OrderService } from "../services/orderService.ts";
+import { UserPlanService } from "../services/userPlanService.ts";
+import { sequelize } from "../utils/db.ts";
 
 // GET /api/plan-requests - Get all plan requests (Admin only)
 export const getAllPlanRequests = async (req: Request, res: Response): Promise<void> => {
@@ -151,6 +150,18 @@ export const createPlanRequest = async (req: Request, res: Response): Promise<vo
       return;
     }
 
+    // Members who hold a plan pay only the difference to a higher one
+    let quote;
+    try {
+      quote = await UserPlanService.quote(userId, plan.id);
+    } catch (quoteError: any) {
+      res.status(400).json({
+        success: false,
+        message: quoteError.message
+      });
+      return;
+    }
+
     // Check if user already has a pending request for this plan
     const existingRequest = await PlanRequest.findOne({
       where: {
@@ -168,15 +179,20 @@ export const createPlanRequest = async (req: Request, res: Response): Promise<vo
       return;
     }
 
-    const newRequest = await PlanRequest.create({
-      userId,
-      planId,
-      amount: plan.price,
-      currency: plan.currency,
-      paymentMethod,
-      paymentReference,
-      notes,
-      status: 'pending'
+    const newRequest = await sequelize.transaction(async (t) => {
+      const request = await PlanRequest.create({
+        userId,
+        planId,
+        amount: quote.amount,
+        currency: quote.currency,
+        paymentMethod,
+        paymentReference,
+        notes,
+        status: 'pending'
+      }, { transaction: t });
+
+      await OrderService.syncPlanRequest(request, { actorId: userId, note: `Plan request #${request.id} submitted` }, t);
+      return request;
     });
 
     // Fetch the created request with relations
@@ -208,7 +224,7 @@ export const createPlanRequest = async (req: Request, res: Response): Promise<vo
 export const approvePlanRequest = async (req: Request, res: Response): Promise<void> => {
   try {
     const { id } = req.params;
-    const adminId = (req as any).user?.id;
+    const adminId = (req as any).user?.userId;
     
     const request = await PlanRequest.findByPk(id, {
       include: [
@@ -241,130 +257,17 @@ export const approvePlanRequest = async (req: Request, res: Response): Promise<v
       return;
     }
 
-    // Update request status
-    await request.update({
-      status: 'approved',
-      approvedBy: adminId,
-      approvedAt: new Date()
-    });
+    // Approve and activate together; the order runs activation, the
+    // sponsor bonus and BV once per purchase, however it was paid
+    await sequelize.transaction(async (t) => {
+      await request.update({
+        status: 'approved',
+        approvedBy: adminId,
+        approvedAt: new Date()
+      }, { transaction: t });
 
-    // Activate user account
-    const user = await User.findByPk(request.userId);
-    if (user) {
-      await user.update({ isActive: true });
-      
-      // Generate username if not exists (for first user)
-      if (!user.username) {
-        let username = MLMService.generateSponsorId();
-        // Ensure username is unique
-        while (await User.findOne({ where: { username } })) {
-          username = MLMService.generateSponsorId();
-        }
-        await user.update({ username });
-      }
-
-      // Note: BV distribution will be handled automatically by User model hook
-      // when isActive changes to true
-      
-      // Process sponsor bonus for direct sponsor only
-      console.log(`🎁 Processing sponsor bonus for plan request ${id}...`);
-      console.log(`👤 User details:`, { 
-        id: user.id, 
-        username: user.username, 
-        sponsorId: user.sponsorId,
-        name: user.name,
-        email: user.email
-      });
-      
-      if (user.sponsorId) {
-        console.log(`🔍 Looking for sponsor with username: "${user.sponsorId}"`);
-        const directSponsor = await User.findOne({
-          where: { username: user.sponsorId }
-        });
-
-        console.log(`🎯 Direct sponsor found:`, { 
-          id: directSponsor?.id, 
-          username: directSponsor?.username,
-          name: directSponsor?.name,
-          email: directSponsor?.email
-        });
-
-        if (directSponsor) {
-          // Get sponsor bonus amount from admin config
-          const sponsorBonusConfig = await AdminConfig.findOne({
-            order: [['id', 'ASC']]
-          });
-
-          console.log(`💰 Sponsor bonus config:`, { sponsorBonus: sponsorBonusConfig?.sponsorBonus });
-
-          if (sponsorBonusConfig) {
-            const bonusAmount = Number(sponsorBonusConfig.sponsorBonus);
-            console.log(`💵 Bonus amount: ₹${bonusAmount}`);
-            
-            if (bonusAmount > 0) {
-              // Get or create sponsor's wallet
-              const [sponsorWallet] = await Wallet.findOrCreate({
-                where: { userId: directSponsor.id },
-                defaults: { 
-                  userId: directSponsor.id,
-                  balance: 0,
-                  totalEarned: 0,
-                  totalWithdrawn: 0
-                }
-              });
-
-              // Add bonus to sponsor's wallet
-              await sponsorWallet.update({
-                balance: Number(sponsorWallet.balance) + bonusAmount,
-                totalEarned: Number(sponsorWallet.totalEarned) + bonusAmount,
-                lastTransactionAt: new Date()
-              });
-
-              // Add bonus to sponsor's totalIncome
-              await User.update({
-                totalIncome: Number(directSponsor.totalIncome) + bonusAmount
-              }, {
-                where: { id: directSponsor.id }
-              });
-
-              // Create wallet transaction record
-              await WalletTransaction.create({
-                userId: directSponsor.id,
-                type: 'commission',
-                amount: bonusAmount,
-                balanceBefore: Number(sponsorWallet.balance),
-                balanceAfter: Number(sponsorWallet.balance) + bonusAmount,
-                status: 'completed',
-                description: `Sponsor bonus for referring user ${user.username} (${user.name})`,
-                referenceId: `SPONSOR_BONUS_${user.id}_${directSponsor.id}_${Date.now()}`,
-                metadata: {
-                  referredUserId: user.id,
-                  referredUsername: user.username,
-                  referredUserName: user.name,
-                  referredUserEmail: user.email,
-                  sponsorId: directSponsor.id,
-                  sponsorUsername: directSponsor.username,
-                  sponsorName: directSponsor.name,
-                  planRequestId: id,
-                  bonusAmount: bonusAmount,
-                  timestamp: new Date().toISOString()
-                }
-              });
-
-              console.log(`✅ Sponsor bonus of ₹${bonusAmount} credited to DIRECT SPONSOR ${directSponsor.id} (${directSponsor.username})`);
-            } else {
-              console.log(`⚠️ Bonus amount is 0 or negative: ${bonusAmount}`);
-            }
-          } else {
-            console.log(`❌ No sponsor bonus config found`);
-          }
-        } else {
-          console.log(`❌ Direct sponsor not found for username: ${user.sponsorId}`);
-        }
-      } else {
-        console.log(`❌ User has no sponsorId: ${user.sponsorId}`);
-      }
-    }
+      await OrderService.syncPlanRequest(request, { actorId: adminId, note: `Plan request #${request.id} approved` }, t);
+    });
 
     res.json({
       success: true,
@@ -385,7 +288,7 @@ export const rejectPlanRequest = async (req: Request, res: Response): Promise<vo
   try {
     const { id } = req.params;
     const { rejectionReason } = req.body;
-    const adminId = (req as any).user?.id;
+    const adminId = (req as any).user?.userId;
     
     const request = await PlanRequest.findByPk(id);
 
@@ -405,11 +308,18 @@ export const rejectPlanRequest = async (req: Request, res: Response): Promise<vo
       return;
     }
 
-    await request.update({
-      status: 'rejected',
-      approvedBy: adminId,
-      approvedAt: new Date(),
-      rejectionReason
+    await sequelize.transaction(async (t) => {
+      await request.update({
+        status: 'rejected',
+        approvedBy: adminId,
+        approvedAt: new Date(),
+        rejectionReason
+      }, { transaction: t });
+
+      await OrderService.syncPlanRequest(request, {
+        actorId: adminId,
+        note: `Plan request #${request.id} rejected${rejectionReason ? `: ${rejectionReason}` : ''}`
+      }, t);
     });
 
     res.json({
@@ -430,7 +340,7 @@ export const rejectPlanRequest = async (req: Request, res: Response): Promise<vo
 export const cancelPlanRequest = async (req: Request, res: Response): Promise<void> => {
   try {
     const { id } = req.params;
-    const userId = (req as any).user?.id;
+    const userId = (req as any).user?.userId;
     
     const request = await PlanRequest.findByPk(id);
 
@@ -458,8 +368,12 @@ export const cancelPlanRequest = async (req: Request, res: Response): Promise<vo
       return;
     }
 
-    await request.update({
-      status: 'cancelled'
+    await sequelize.transaction(async (t) => {
+      await request.update({
+        status: 'cancelled'
+      }, { transaction: t });
+
+      await OrderService.syncPlanRequest(request, { actorId: userId, note: `Plan request #${request.id} cancelled by member` }, t);
     });
 
     res.json({
@@ -0,0 +1,143 @@
+import type { Request, Response } from "express";
+import { WalletReconciliation, RECONCILIATION_STATUSES } from "../models/WalletReconciliation.ts";
+import { User } from "../models/User.ts";
+import { WalletReconciliationService } from "../services/walletReconciliationService.ts";
+
+// POST /api/ledger/reconciliations/run - Recompute balances and open drift reports (Admin only)
+export const runReconciliation = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const summary = await WalletReconciliationService.runReconciliation();
+
+    res.json({
+      success: true,
+      message: `Reconciliation complete: ${summary.usersWithDrift} of ${summary.usersChecked} users drifting`,
+      data: summary
+    });
+  } catch (error: any) {
+    console.error("Run reconciliation error:", error);
+    res.status(500).json({
+      success: false,
+      message: error.message || "Server error"
+    });
+  }
+};
+
+// GET /api/ledger/reconciliations - Drift report (Admin only)
+export const getReconciliations = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { status = 'open', userId, page = 1, limit = 20 } = req.query;
+    const offset = (Number(page) - 1) * Number(limit);
+
+    const whereClause: any = {};
+    if (status && status !== 'all') {
+      if (!RECONCILIATION_STATUSES.includes(status as any)) {
+        res.status(400).json({
+          success: false,
+          message: `Status must be one of: all, ${RECONCILIATION_STATUSES.join(", ")}`
+        });
+        return;
+      }
+      whereClause.status = status;
+    }
+    if (userId) whereClause.userId = Number(userId);
+
+    const { count, rows: reconciliations } = await WalletReconciliation.findAndCountAll({
+      where: whereClause,
+      include: [
+        {
+          model: User,
+          as: 'user',
+          attributes: ['id', 'name', 'username', 'email']
+        },
+        {
+          model: User,
+          as: 'reviewer',
+          attributes: ['id', 'name', 'email']
+        }
+      ],
+      order: [['createdAt', 'DESC']],
+      limit: Number(limit),
+      offset
+    });
+
+    res.json({
+      success: true,
+      data: reconciliations,
+      pagination: {
+        total: count,
+        page: Number(page),
+        limit: Number(limit),
+        pages: Math.ceil(count / Number(limit))
+      }
+    });
+  } catch (error: any) {
+    console.error("Get reconciliations error:", error);
+    res.status(500).json({
+      success: false,
+      message: error.message || "Server error"
+    });
+  }
+};
+
+// GET /api/ledger/reconciliations/users/:userId - Live drift check for one user (Admin only)
+export const getUserDrift = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = Number(req.params.userId);
+    const result = await WalletReconciliationService.computeExpectedBalance(userId);
+
+    res.json({
+      success: true,
+      data: result
+    });
+  } catch (error: any) {
+    console.error("Get user drift error:", error);
+    res.status(error.message?.includes("not found") ? 404 : 500).json({
+      success: false,
+      message: error.message || "Server error"
+    });
+  }
+};
+
+// PUT /api/ledger/reconciliations/:id/apply - Post an adjustment transaction (Admin only)
+export const applyReconciliation = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const adminId = (req as any).user?.userId;
+    const { notes } = req.body;
+
+    const reconciliation = await WalletReconciliationService.applyReconciliation(Number(req.params.id), adminId, notes);
+
+    res.json({
+      success: true,
+      message: "Reconciliation applied successfully",
+      data: reconciliation
+    });
+  } catch (error: any) {
+    console.error("Apply reconciliation error:", error);
+    res.status(error.message === "Reconciliation not found" ? 404 : 400).json({
+      success: false,
+      message: error.message || "Server error"
+    });
+  }
+};
+
+// PUT /api/ledger/reconciliations/:id/ignore - Close without adjusting (Admin only)
+export const ignoreReconciliation = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const adminId = (req as any).user?.userId;
+    const { notes } = req.body;
+
+    const reconciliation = await WalletReconciliationService.ignoreReconciliation(Number(req.params.id), adminId, notes);
+
+    res.json({
+      success: true,
+      message: "Reconciliation ignored",
+      data: reconciliation
+    });
+  } catch (error: any) {
+    console.error("Ignore reconciliation error:", error);
+    res.status(error.message === "Reconciliation not found" ? 404 : 400).json({
+      success: false,
+      message: error.message || "Server error"
+    });
+  }
+};
@@ -1,16 +1,38 @@
 import type { Request, Response } from "express";
 import { AdminConfig } from "../models/AdminConfig.ts";
-
-// Default UPI Configuration
-const DEFAULT_UPI_CONFIG = {
-  upiId: "admin@paytm",
-  upiName: "Universal Guruji",
-  bankName: "State Bank of India",
-  accountNumber: "****1234",
-  ifscCode: "SBIN0001234",
-  phoneNumber: "+91 9876543210",
-  email: "admin@universalguruji.com"
-};
+import {
+  CompensationPlanEngine,
+  COMPENSATION_PLAN_CONFIG_KEY,
+  DEFAULT_COMPENSATION_PLAN,
+  FIRST_PAIR_RATIOS,
+  CARRY_FORWARD_POLICIES,
+  UPGRADE_EFFECTIVE_POLICIES,
+  EXPIRED_MATCHING_POLICIES,
+  COUPON_BV_BASES
+} from "../services/compensationPlanEngine.ts";
+import {
+  PlacementService,
+  PLACEMENT_CONFIG_KEY,
+  DEFAULT_PLACEMENT_CONFIG,
+  PLACEMENT_POLICIES
+} from "../services/placementService.ts";
+import {
+  InvoiceService,
+  GST_INVOICE_CONFIG_KEY,
+  DEFAULT_GST_INVOICE_CONFIG
+} from "../services/invoiceService.ts";
+import {
+  PayoutBatchService,
+  PAYOUT_BATCH_CONFIG_KEY,
+  DEFAULT_PAYOUT_BATCH_CONFIG
+} from "../services/payoutBatchService.ts";
+import { TdsService, DEFAULT_TDS_POLICY } from "../services/tdsService.ts";
+import {
+  WithdrawalRulesService,
+  WITHDRAWAL_RULES_CONFIG_KEY,
+  DEFAULT_WITHDRAWAL_RULES
+} from "../services/withdrawalRulesService.ts";
+import { DEFAULT_UPI_CONFIG } from "../services/upiIntentService.ts";
 
 export const getAdminUPIConfig = async (req: Request, res: Response): Promise<void> => {
   try {
@@ -215,3 +237,389 @@ export const deleteAdminConfig = async (req: Request, res: Response): Promise<vo
     });
   }
 };
+
+export const getCompensationPlanConfig = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const config = await CompensationPlanEngine.getConfig();
+
+    res.json({
+      success: true,
+      data: {
+        config,
+        defaults: DEFAULT_COMPENSATION_PLAN,
+        options: {
+          firstPairRatio: FIRST_PAIR_RATIOS,
+          carryForward: CARRY_FORWARD_POLICIES,
+          upgradeEffective: UPGRADE_EFFECTIVE_POLICIES,
+          expiredMatching: EXPIRED_MATCHING_POLICIES,
+          couponBvBasis: COUPON_BV_BASES
+        }
+      }
+    });
+  } catch (error: any) {
+    console.error("Get compensation plan config error:", error);
+    res.status(500).json({
+      success: false,
+      message: error.message || "Server error"
+    });
+  }
+};
+
+export const updateCompensationPlanConfig = async (req: Request, res: Response): Promise<void> => {
+  try {
+    let config;
+    try {
+      // Unspecified settings keep their current value
+      const current = await CompensationPlanEngine.getConfig();
+      config = CompensationPlanEngine.normalizeConfig({ ...current, ...req.body });
+    } catch (validationError: any) {
+      res.status(400).json({
+        success: false,
+        message: validationError.message
+      });
+      return;
+    }
+
+    const [record, created] = await AdminConfig.findOrCreate({
+      where: { key: COMPENSATION_PLAN_CONFIG_KEY },
+      defaults: {
+        key: COMPENSATION_PLAN_CONFIG_KEY,
+        value: JSON.stringify(config),
+        description: 'Binary compensation plan: pair unit, BV per plan, first pair ratio, carry forward, upgrade timing, plan expiry and coupon BV',
+        category: 'system'
+      }
+    });
+
+    if (!created) {
+      await record.update({
+        value: JSON.stringify(config),
+        isActive: true
+      });
+    }
+
+    res.json({
+      success: true,
+      message: "Compensation plan updated successfully",
+      data: config
+    });
+  } catch (error: any) {
+    console.error("Update compensation plan config error:", error);
+    res.status(500).json({
+      success: false,
+      message: error.message || "Server error"
+    });
+  }
+};
+
+export const getPlacementConfig = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const config = await PlacementService.getConfig();
+
+    res.json({
+      success: true,
+      data: {
+        config,
+        defaults: DEFAULT_PLACEMENT_CONFIG,
+        options: {
+          policy: PLACEMENT_POLICIES
+        }
+      }
+    });
+  } catch (error: any) {
+    console.error("Get placement config error:", error);
+    res.status(500).json({
+      success: false,
+      message: error.message || "Server error"
+    });
+  }
+};
+
+export const updatePlacementConfig = async (req: Request, res: Response): Promise<void> => {
+  try {
+    let config;
+    try {
+      const current = await PlacementService.getConfig();
+      config = PlacementService.normalizeConfig({ ...current, ...req.body });
+    } catch (validationError: any) {
+      res.status(400).json({
+        success: false,
+        message: validationError.message
+      });
+      return;
+    }
+
+    const [record, created] = await AdminConfig.findOrCreate({
+      where: { key: PLACEMENT_CONFIG_KEY },
+      defaults: {
+        key: PLACEMENT_CONFIG_KEY,
+        value: JSON.stringify(config),
+        description: 'Spillover placement policy for members whose chosen leg is full',
+        category: 'system'
+      }
+    });
+
+    if (!created) {
+      await record.update({
+        value: JSON.stringify(config),
+        isActive: true
+      });
+    }
+
+    res.json({
+      success: true,
+      message: "Placement policy updated successfully",
+      data: config
+    });
+  } catch (error: any) {
+    console.error("Update placement config error:", error);
+    res.status(500).json({
+      success: false,
+      message: error.message || "Server error"
+    });
+  }
+};
+
+export const getGstInvoiceConfig = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const config = await InvoiceService.getConfig();
+
+    res.json({
+      success: true,
+      data: {
+        config,
+        defaults: DEFAULT_GST_INVOICE_CONFIG
+      }
+    });
+  } catch (error: any) {
+    console.error("Get GST invoice config error:", error);
+    res.status(500).json({
+      success: false,
+      message: error.message || "Server error"
+    });
+  }
+};
+
+export const updateGstInvoiceConfig = async (req: Request, res: Response): Promise<void> => {
+  try {
+    let config;
+    try {
+      const current = await InvoiceService.getConfig();
+      config = InvoiceService.normalizeConfig({ ...current, ...req.body });
+    } catch (validationError: any) {
+      res.status(400).json({
+        success: false,
+        message: validationError.message
+      });
+      return;
+    }
+
+    const [record, created] = await AdminConfig.findOrCreate({
+      where: { key: GST_INVOICE_CONFIG_KEY },
+      defaults: {
+        key: GST_INVOICE_CONFIG_KEY,
+        value: JSON.stringify(config),
+        description: 'Company GSTIN, address, GST rate, SAC code and invoice number prefix for tax invoices',
+        category: 'payment'
+      }
+    });
+
+    if (!created) {
+      await record.update({
+        value: JSON.stringify(config),
+        isActive: true
+      });
+    }
+
+    res.json({
+      success: true,
+      message: "GST invoice settings updated successfully",
+      data: config
+    });
+  } catch (error: any) {
+    console.error("Update GST invoice config error:", error);
+    res.status(500).json({
+      success: false,
+      message: error.message || "Server error"
+    });
+  }
+};
+
+export const getPayoutBatchConfig = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const config = await PayoutBatchService.getConfig();
+
+    res.json({
+      success: true,
+      data: {
+        config,
+        defaults: DEFAULT_PAYOUT_BATCH_CONFIG
+      }
+    });
+  } catch (error: any) {
+    console.error("Get payout batch config error:", error);
+    res.status(500).json({
+      success: false,
+      message: error.message || "Server error"
+    });
+  }
+};
+
+export const updatePayoutBatchConfig = async (req: Request, res: Response): Promise<void> => {
+  try {
+    let config;
+    try {
+      const current = await PayoutBatchService.getConfig();
+      config = PayoutBatchService.normalizeConfig({ ...current, ...req.body });
+    } catch (validationError: any) {
+      res.status(400).json({
+        success: false,
+        message: validationError.message
+      });
+      return;
+    }
+
+    const [record, created] = await AdminConfig.findOrCreate({
+      where: { key: PAYOUT_BATCH_CONFIG_KEY },
+      defaults: {
+        key: PAYOUT_BATCH_CONFIG_KEY,
+        value: JSON.stringify(config),
+        description: 'Debit account, narration and default transfer mode and file format for bank payout batches',
+        category: 'payment'
+      }
+    });
+
+    if (!created) {
+      await record.update({
+        value: JSON.stringify(config),
+        isActive: true
+      });
+    }
+
+    res.json({
+      success: true,
+      message: "Payout batch settings updated successfully",
+      data: config
+    });
+  } catch (error: any) {
+    console.error("Update payout batch config error:", error);
+    res.status(500).json({
+      success: false,
+      message: error.message || "Server error"
+    });
+  }
+};
+
+export const getTdsPolicyConfig = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const config = await TdsService.getConfig();
+
+    res.json({
+      success: true,
+      data: {
+        config,
+        defaults: DEFAULT_TDS_POLICY
+      }
+    });
+  } catch (error: any) {
+    console.error("Get TDS policy config error:", error);
+    res.status(500).json({
+      success: false,
+      message: error.message || "Server error"
+    });
+  }
+};
+
+export const updateTdsPolicyConfig = async (req: Request, res: Response): Promise<void> => {
+  try {
+    let config;
+    try {
+      const current = await TdsService.getConfig();
+      config = TdsService.normalizeConfig({ ...current, ...req.body });
+    } catch (validationError: any) {
+      res.status(400).json({
+        success: false,
+        message: validationError.message
+      });
+      return;
+    }
+
+    await TdsService.saveConfig(config);
+
+    res.json({
+      success: true,
+      message: "TDS policy updated successfully",
+      data: config
+    });
+  } catch (error: any) {
+    console.error("Update TDS policy config error:", error);
+    res.status(500).json({
+      success: false,
+      message: error.message || "Server error"
+    });
+  }
+};
+
+export const getWithdrawalRulesConfig = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const config = await WithdrawalRulesService.getConfig();
+
+    res.json({
+      success: true,
+      data: {
+        config,
+        defaults: DEFAULT_WITHDRAWAL_RULES
+      }
+    });
+  } catch (error: any) {
+    console.error("Get withdrawal rules config error:", error);
+    res.status(500).json({
+      success: false,
+      message: error.message || "Server error"
+    });
+  }
+};
+
+export const updateWithdrawalRulesConfig = async (req: Request, res: Response): Promise<void> => {
+  try {
+    let config;
+    try {
+      const current = await WithdrawalRulesService.getConfig();
+      config = WithdrawalRulesService.normalizeConfig({ ...current, ...req.body });
+    } catch (validationError: any) {
+      res.status(400).json({
+        success: false,
+        message: validationError.message
+      });
+      return;
+    }
+
+    const [record, created] = await AdminConfig.findOrCreate({
+      where: { key: WITHDRAWAL_RULES_CONFIG_KEY },
+      defaults: {
+        key: WITHDRAWAL_RULES_CONFIG_KEY,
+        value: JSON.stringify(config),
+        description: 'Withdrawal limits, allowed weekdays, cooling periods, processing fee and minimum wallet balance',
+        category: 'payment'
+      }
+    });
+
+    if (!created) {
+      await record.update({
+        value: JSON.stringify(config),
+        isActive: true
+      });
+    }
+
+    res.json({
+      success: true,
+      message: "Withdrawal rules updated successfully",
+      data: config
+    });
+  } catch (error: any) {
+    console.error("Update withdrawal rules config error:", error);
+    res.status(500).json({
+      success: false,
+      message: error.message || "Server error"
+    });
+  }
+};
@@ -0,0 +1,157 @@
+import type { Request, Response } from "express";
+import { TdsDeduction } from "../models/TdsDeduction.ts";
+import { User } from "../models/User.ts";
+import { TdsService, FORM_26Q_COLUMNS } from "../services/tdsService.ts";
+import { TDS_QUARTERS, isFinancialYear, type TdsQuarter } from "../utils/tds.ts";
+import { toCsv } from "../utils/csv.ts";
+import { sequelize } from "../utils/db.ts";
+
+// GET /api/tds/my - The member's TDS by quarter, and the rate their next withdrawal gets (User)
+export const getMyTds = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = (req as any).user?.userId;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: "User not authenticated"
+      });
+      return;
+    }
+
+    const [quarters, policy, pan] = await Promise.all([
+      TdsDeduction.findAll({
+        where: { userId },
+        attributes: [
+          'financialYear',
+          'quarter',
+          [sequelize.fn('COUNT', sequelize.col('id')), 'count'],
+          [sequelize.fn('SUM', sequelize.col('grossAmount')), 'grossAmount'],
+          [sequelize.fn('SUM', sequelize.col('tdsAmount')), 'tdsAmount']
+        ],
+        group: ['financialYear', 'quarter'],
+        order: [['financialYear', 'DESC'], ['quarter', 'DESC']],
+        raw: true
+      }),
+      TdsService.getConfig(),
+      TdsService.verifiedPan(userId)
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        panVerified: pan !== null,
+        section: policy.section,
+        currentRate: pan ? policy.rateWithPan : policy.rateWithoutPan,
+        quarters: quarters.map((row: any) => ({
+          financialYear: row.financialYear,
+          quarter: row.quarter,
+          count: Number(row.count),
+          grossAmount: Number(row.grossAmount),
+          tdsAmount: Number(row.tdsAmount),
+          certificateUrl: `/api/pdf/tds-certificate?financialYear=${row.financialYear}&quarter=${row.quarter}`
+        }))
+      }
+    });
+  } catch (error: any) {
+    console.error("Get my TDS error:", error);
+    res.status(500).json({
+      success: false,
+      message: error.message || "Server error"
+    });
+  }
+};
+
+// GET /api/tds - List TDS deductions, by quarter and member (Admin only)
+export const getTdsDeductions = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { financialYear, quarter, userId, page = 1, limit = 20 } = req.query;
+    const offset = (Number(page) - 1) * Number(limit);
+
+    const whereClause: any = {};
+    if (financialYear) {
+      if (!isFinancialYear(financialYear)) {
+        res.status(400).json({
+          success: false,
+          message: "financialYear must look like 2025-26"
+        });
+        return;
+      }
+      whereClause.financialYear = financialYear;
+    }
+    if (quarter) {
+      if (!TDS_QUARTERS.includes(quarter as TdsQuarter)) {
+        res.status(400).json({
+          success: false,
+          message: `Quarter must be one of: ${TDS_QUARTERS.join(", ")}`
+        });
+        return;
+      }
+      whereClause.quarter = quarter;
+    }
+    if (userId) {
+      whereClause.userId = Number(userId);
+    }
+
+    const [{ count, rows: deductions }, totalTds] = await Promise.all([
+      TdsDeduction.findAndCountAll({
+        where: whereClause,
+        include: [{ model: User, as: 'user', attributes: ['id', 'name', 'email', 'username'] }],
+        order: [['deductedAt', 'DESC'], ['id', 'DESC']],
+        limit: Number(limit),
+        offset
+      }),
+      TdsDeduction.sum('tdsAmount', { where: whereClause })
+    ]);
+
+    res.json({
+      success: true,
+      data: deductions,
+      totals: {
+        tdsAmount: Number(totalTds || 0)
+      },
+      pagination: {
+        total: count,
+        page: Number(page),
+        limit: Number(limit),
+        pages: Math.ceil(count / Number(limit))
+      }
+    });
+  } catch (error: any) {
+    console.error("Get TDS deductions error:", error);
+    res.status(500).json({
+      success: false,
+      message: error.message || "Server error"
+    });
+  }
+};
+
+// GET /api/tds/26q?financialYear=2025-26&quarter=Q1 - Form 26Q style deductee CSV of a quarter (Admin only)
+export const exportForm26Q = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { financialYear, quarter } = req.query;
+    if (!isFinancialYear(financialYear) || !TDS_QUARTERS.includes(quarter as TdsQuarter)) {
+      res.status(400).json({
+        success: false,
+        message: `Provide financialYear (e.g. 2025-26) and quarter (${TDS_QUARTERS.join(", ")})`
+      });
+      return;
+    }
+
+    const deductions = await TdsService.listForQuarter(financialYear, quarter as TdsQuarter);
+    const csv = toCsv([FORM_26Q_COLUMNS, ...TdsService.toForm26QRows(deductions)]);
+
+    res.setHeader("Content-Type", "text/csv; charset=utf-8");
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="form26q-${financialYear}-${quarter}.csv"`
+    );
+    res.send(csv);
+  } catch (error: any) {
+    console.error("Export Form 26Q error:", error);
+    res.status(500).json({
+      success: false,
+      message: error.message || "Server error"
+    });
+  }
+};
@@ -0,0 +1,93 @@
+import type { Request, Response } from "express";
+import QRCode from "qrcode";
+import { UpiIntentService, type QrFormat } from "../services/upiIntentService.ts";
+
+// POST /api/payments/upi-intents - Issue a UPI intent and QR code for a plan or competition entry (User)
+export const createUpiIntent = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = (req as any).user?.userId;
+    const { planId, participationId, couponCode } = req.body;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: "User not authenticated"
+      });
+      return;
+    }
+
+    if (!planId === !participationId) {
+      res.status(400).json({
+        success: false,
+        message: "Provide either planId or participationId"
+      });
+      return;
+    }
+
+    let intent;
+    try {
+      intent = planId
+        ? await UpiIntentService.createForPlan(userId, Number(planId), couponCode)
+        : await UpiIntentService.createForParticipation(userId, Number(participationId));
+    } catch (lookupError: any) {
+      res.status(lookupError.message.endsWith("not found") ? 404 : 400).json({
+        success: false,
+        message: lookupError.message
+      });
+      return;
+    }
+
+    const uri = UpiIntentService.buildUri(intent);
+
+    res.status(201).json({
+      success: true,
+      data: {
+        intent,
+        uri,
+        qrCode: await QRCode.toDataURL(uri, { margin: 2, width: 320 }),
+        qrCodeUrl: `/api/payments/upi-intents/${intent.reference}/qr`,
+        instructions: [
+          "Scan the QR code or open the link in any UPI app",
+          "Do not change the amount or the note before paying",
+          `Pay before ${intent.expiresAt.toISOString()}; after that, generate a new QR code`,
+          "Submit the payment with this reference; the UTR is optional"
+        ]
+      }
+    });
+  } catch (error: any) {
+    console.error("Create UPI intent error:", error);
+    res.status(500).json({
+      success: false,
+      message: error.message || "Server error"
+    });
+  }
+};
+
+// GET /api/payments/upi-intents/:reference/qr?format=png|svg - QR image for one of the member's intents (User)
+export const getUpiIntentQr = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = (req as any).user?.userId;
+    const format = (req.query.format === "svg" ? "svg" : "png") as QrFormat;
+
+    const intent = await UpiIntentService.findForUser(req.params.reference, userId);
+    if (!intent) {
+      res.status(404).json({
+        success: false,
+        message: "Payment reference not found"
+      });
+      return;
+    }
+
+    const image = await UpiIntentService.renderQr(intent, format);
+
+    res.setHeader("Content-Type", format === "svg" ? "image/svg+xml" : "image/png");
+    res.setHeader("Cache-Control", "private, no-store");
+    res.send(image);
+  } catch (error: any) {
+    console.error("Get UPI intent QR error:", error);
+    res.status(500).json({
+      success: false,
+      message: error.message || "Server error"
+    });
+  }
+};
@@ -2,6 +2,11 @@ import { type Request, type Response } from "express";
 import { PlanRequest } from "../models/PlanRequest.ts";
 import { Plan } from "../models/Plan.ts";
 import { User } from "../models/User.ts";
+import { OrderService } from "../services/orderService.ts";
+import { UserPlanService } from "../services/userPlanService.ts";
+import { CouponService } from "../services/couponService.ts";
+import { sequelize } from "../utils/db.ts";
+import { toPaise } from "../utils/money.ts";
 import { Op } from "sequelize";
 
 /**
@@ -53,7 +58,7 @@ export const getMyPlanRequests = async (req: Request, res: Response): Promise<vo
 };
 
 /**
- * Get logged-in user's approved plans (active plans)
+ * Get logged-in user's current plan and plan history (purchase and upgrades)
  */
 export const getMyActivePlans = async (req: Request, res: Response): Promise<void> => {
   try {
@@ -67,24 +72,30 @@ export const getMyActivePlans = async (req: Request, res: Response): Promise<voi
       return;
     }
 
-    const activePlans = await PlanRequest.findAll({
-      where: { 
-        userId,
-        status: 'approved'
-      },
-      include: [
-        {
-          model: Plan,
-          as: 'plan',
+    const held = await UserPlanService.getHeldPlan(userId);
+    const currentPlan = held
+      ? await Plan.findByPk(held.planId, {
           attributes: ['id', 'name', 'price', 'currency', 'description', 'bvValue']
-        }
-      ],
-      order: [['approvedAt', 'DESC']]
-    });
+        })
+      : null;
+
+    const history = await UserPlanService.getHistory(userId);
 
     res.json({
       success: true,
-      data: activePlans
+      data: {
+        current: held
+          ? {
+              plan: currentPlan,
+              planPrice: held.planPrice,
+              effectiveFrom: held.userPlan?.effectiveFrom ?? null,
+              expiresAt: held.expiresAt,
+              expired: held.expiresAt !== null && held.expiresAt <= new Date(),
+              userPlanId: held.userPlan?.id ?? null
+            }
+          : null,
+        history
+      }
     });
   } catch (error: any) {
     console.error("Get my active plans error:", error);
@@ -95,6 +106,51 @@ export const getMyActivePlans = async (req: Request, res: Response): Promise<voi
   }
 };
 
+/**
+ * Get what a plan costs the logged-in user: full price, the difference for
+ * an upgrade from the plan they hold, or a renewal of it
+ */
+export const getUpgradeQuote = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = (req as any).user?.userId;
+    
+    if (!userId) {
+      res.status(401).json({ 
+        success: false,
+        message: "User not authenticated" 
+      });
+      return;
+    }
+
+    const quote = await UserPlanService.quote(userId, Number(req.params.planId));
+
+    res.json({
+      success: true,
+      data: {
+        kind: quote.kind,
+        plan: { id: quote.plan.id, name: quote.plan.name, price: Number(quote.plan.price) },
+        fromPlan: quote.fromPlan
+          ? { id: quote.fromPlan.id, name: quote.fromPlan.name, price: Number(quote.fromPlan.price) }
+          : null,
+        price: quote.price,
+        amount: quote.amount,
+        currency: quote.currency,
+        bv: quote.bv,
+        expiresAt: quote.expiresAt
+      }
+    });
+  } catch (error: any) {
+    console.error("Get upgrade quote error:", error);
+    const status = error.message === "Plan not found" ? 404
+      : /already hold|not an upgrade/i.test(error.message || "") ? 400
+      : 500;
+    res.status(status).json({ 
+      success: false,
+      message: error.message || "Server error" 
+    });
+  }
+};
+
 /**
  * Get logged-in user's plan statistics
  */
@@ -173,12 +229,12 @@ export const createMyPlanRequest = async (req: Request, res: Response): Promise<
       return;
     }
 
-    const { planId, paymentMethod, paymentReference, amount, currency = 'INR', notes } = req.body;
+    const { planId, paymentMethod, paymentReference, notes, couponCode } = req.body;
 
-    if (!planId || !amount) {
+    if (!planId) {
       res.status(400).json({ 
         success: false,
-        message: "Plan ID and amount are required" 
+        message: "Plan ID is required" 
       });
       return;
     }
@@ -193,15 +249,57 @@ export const createMyPlanRequest = async (req: Request, res: Response): Promise<
       return;
     }
 
-    const newRequest = await PlanRequest.create({
-      userId,
-      planId,
-      amount: parseFloat(amount),
-      paymentMethod,
-      paymentReference,
-      currency,
-      notes,
-      status: 'pending'
+    // The amount is set here, not by the member: full price, or the difference for an upgrade
+    let quote;
+    try {
+      quote = await UserPlanService.quote(userId, plan.id);
+    } catch (quoteError: any) {
+      res.status(400).json({ 
+        success: false,
+        message: quoteError.message 
+      });
+      return;
+    }
+
+    // A coupon comes off what the member would otherwise pay
+    const couponTarget = { purpose: 'plan' as const, planId: plan.id, amount: quote.amount };
+    let pricing = null;
+    if (couponCode) {
+      try {
+        pricing = await CouponService.apply(couponCode, userId, couponTarget);
+      } catch (couponError: any) {
+        res.status(400).json({ 
+          success: false,
+          message: couponError.message 
+        });
+        return;
+      }
+    }
+    const amount = pricing ? pricing.amount : quote.amount;
+
+    const newRequest = await sequelize.transaction(async (t) => {
+      const request = await PlanRequest.create({
+        userId,
+        planId,
+        amount,
+        couponId: pricing?.coupon.id ?? null,
+        discountAmount: pricing?.discountAmount ?? 0,
+        paymentMethod,
+        paymentReference,
+        currency: quote.currency,
+        notes,
+        status: 'pending'
+      }, { transaction: t });
+
+      const order = await OrderService.syncPlanRequest(request, { actorId: userId, note: `Plan request #${request.id} submitted` }, t);
+
+      if (couponCode) {
+        const { application } = await CouponService.redeem(couponCode, userId, couponTarget, { orderId: order.id, planRequestId: request.id }, t);
+        if (toPaise(application.amount) !== toPaise(amount)) {
+          throw new Error(`Coupon ${application.coupon.code} changed while the request was being submitted; please try again`);
+        }
+      }
+      return request;
     });
 
     // Include plan details in response
@@ -268,8 +366,12 @@ export const cancelMyPlanRequest = async (req: Request, res: Response): Promise<
       return;
     }
 
-    await request.update({
-      status: 'cancelled'
+    await sequelize.transaction(async (t) => {
+      await request.update({
+        status: 'cancelled'
+      }, { transaction: t });
+
+      await OrderService.syncPlanRequest(request, { actorId: userId, note: `Plan request #${request.id} cancelled by member` }, t);
     });
 
     res.json({
@@ -1,10 +1,21 @@
 import type { Request, Response } from "express";
 import { User } from "../models/User.ts";
-import { Withdrawal, WITHDRAWAL_METHODS, WITHDRAWAL_STATUSES } from "../models/Withdrawal.ts";
+import {
+  Withdrawal,
+  OPEN_WITHDRAWAL_STATUSES,
+  WITHDRAWAL_METHODS,
+  VPA_WITHDRAWAL_METHODS,
+  type WithdrawalMethod,
+  type WithdrawalStatus
+} from "../models/Withdrawal.ts";
+import type { PayoutDestination } from "../models/PayoutDestination.ts";
 import { Kyc } from "../models/Kyc.ts";
 import { Wallet } from "../models/Wallet.ts";
-import { WalletTransaction, WALLET_TRANSACTION_TYPES } from "../models/WalletTransaction.ts";
-import { AdminConfig } from "../models/AdminConfig.ts";
+import { WithdrawalService } from "../services/withdrawalService.ts";
+import { WithdrawalRulesService, WithdrawalRuleError } from "../services/withdrawalRulesService.ts";
+import { PayoutDestinationService } from "../services/payoutDestinationService.ts";
+import { UpiPayoutService } from "../services/upiPayoutService.ts";
+import { maskVpa } from "../utils/upi.ts";
 import { Op } from "sequelize";
 
 // Request withdrawal
@@ -20,7 +31,7 @@ export const requestWithdrawal = async (req: Request, res: Response): Promise<vo
       return;
     }
 
-    const { amount } = req.body;
+    const { amount, method = 'bank_transfer', destinationId } = req.body;
 
     // Validate required fields
     if (!amount) {
@@ -31,20 +42,20 @@ export const requestWithdrawal = async (req: Request, res: Response): Promise<vo
       return;
     }
 
-    // Validate amount
+    // Validate amount; the limits are checked with the other withdrawal rules
     const withdrawalAmount = Number(amount);
-    if (isNaN(withdrawalAmount) || withdrawalAmount < 100) {
+    if (isNaN(withdrawalAmount) || withdrawalAmount <= 0) {
       res.status(400).json({ 
         success: false,
-        message: "Minimum withdrawal amount is ₹100" 
+        message: "Amount must be a positive number" 
       });
       return;
     }
 
-    if (withdrawalAmount > 100000) {
+    if (!WITHDRAWAL_METHODS.includes(method)) {
       res.status(400).json({ 
         success: false,
-        message: "Maximum withdrawal amount is ₹1,00,000" 
+        message: `Method must be one of: ${WITHDRAWAL_METHODS.join(", ")}` 
       });
       return;
     }
@@ -88,66 +99,60 @@ export const requestWithdrawal = async (req: Request, res: Response): Promise<vo
       return;
     }
 
-    // Check if user has sufficient balance
-    const availableBalance = Number(user.totalIncome) - Number(user.totalWithdrawals);
-    if (availableBalance < withdrawalAmount) {
-      res.status(400).json({ 
-        success: false,
-        message: `Insufficient balance. Available: ₹${availableBalance.toFixed(2)}` 
-      });
-      return;
-    }
-
-    // Check for pending withdrawals
-    const pendingWithdrawal = await Withdrawal.findOne({
-      where: { 
-        userId,
-        status: { [Op.in]: ['pending', 'approved', 'processing'] }
+    // UPI methods pay to one of the member's verified UPI IDs, bank transfers to the KYC bank account
+    let destination: PayoutDestination | null = null;
+    if (VPA_WITHDRAWAL_METHODS.includes(method)) {
+      if (!destinationId) {
+        res.status(400).json({ 
+          success: false,
+          message: "Choose the UPI ID (destinationId) to withdraw to" 
+        });
+        return;
       }
-    });
+      try {
+        destination = await PayoutDestinationService.payableDestination(userId, Number(destinationId));
+      } catch (destinationError: any) {
+        res.status(400).json({ 
+          success: false,
+          message: destinationError.message 
+        });
+        return;
+      }
+    }
 
-    if (pendingWithdrawal) {
-      res.status(400).json({ 
-        success: false,
-        message: "You already have a pending withdrawal request" 
+    // Prepare account details from the UPI ID or KYC
+    const accountDetails = destination
+      ? PayoutDestinationService.accountDetailsFor(destination)
+      : {
+        accountNumber: kyc.accountNumber,
+        ifscCode: kyc.ifscCode,
+        bankName: kyc.bankName,
+        accountHolderName: kyc.accountHolderName,
+        address: kyc.address,
+        pincode: kyc.pincode
+      };
+
+    // Create withdrawal request; the rules are checked, TDS and the fee worked out and the amount held in the wallet
+    let withdrawal: Withdrawal;
+    try {
+      withdrawal = await WithdrawalService.request(userId, {
+        amount: withdrawalAmount,
+        method: method as WithdrawalMethod,
+        accountDetails,
+        payoutDestinationId: destination?.id ?? null
       });
-      return;
+    } catch (holdError: any) {
+      if (holdError instanceof WithdrawalRuleError) {
+        res.status(400).json({ 
+          success: false,
+          code: holdError.code,
+          message: holdError.message 
+        });
+        return;
+      }
+      throw holdError;
     }
 
-    // Get TDS percentage from admin config
-    const tdsConfig = await AdminConfig.findOne({
-      order: [['id', 'ASC']]
-    });
-    const tdsPercentage = tdsConfig ? Number(tdsConfig.tds) : 5.00;
-
-    // Calculate TDS deduction
-    const tdsAmount = (withdrawalAmount * tdsPercentage) / 100;
-    const netAmount = withdrawalAmount - tdsAmount;
-
-    // Prepare account details from KYC
-    const accountDetails = {
-      accountNumber: kyc.accountNumber,
-      ifscCode: kyc.ifscCode,
-      bankName: kyc.bankName,
-      accountHolderName: kyc.accountHolderName,
-      address: kyc.address,
-      pincode: kyc.pincode
-    };
-
-    // Create withdrawal request with TDS details
-    const withdrawal = await Withdrawal.create({
-      userId,
-      amount: withdrawalAmount,
-      method: 'bank_transfer', // Default to bank transfer since we're using KYC bank details
-      accountDetails: {
-        ...accountDetails,
-        tdsPercentage,
-        tdsAmount,
-        netAmount
-      },
-      status: 'pending'
-    });
-
     res.status(201).json({
       success: true,
       message: "Withdrawal request submitted successfully",
@@ -156,12 +161,19 @@ export const requestWithdrawal = async (req: Request, res: Response): Promise<vo
         amount: withdrawal.amount,
         method: withdrawal.method,
         status: withdrawal.status,
+        heldAmount: Number(withdrawal.heldAmount),
         tdsDetails: {
-          tdsPercentage,
-          tdsAmount,
-          netAmount
+          tdsPercentage: Number(withdrawal.tdsRate),
+          tdsAmount: Number(withdrawal.tdsAmount),
+          processingFee: Number(withdrawal.feeAmount),
+          netAmount: withdrawal.getNetAmount(),
+          panVerified: withdrawal.tdsPan !== null
         },
-        accountDetails: {
+        accountDetails: destination ? {
+          upiId: maskVpa(destination.vpa),
+          upiName: destination.verifiedName,
+          destinationId: destination.id
+        } : {
           bankName: kyc.bankName,
           accountHolderName: kyc.accountHolderName,
           accountNumber: `${kyc.accountNumber.substring(0, 4)}****${kyc.accountNumber.substring(kyc.accountNumber.length - 4)}`,
@@ -179,6 +191,79 @@ export const requestWithdrawal = async (req: Request, res: Response): Promise<vo
   }
 };
 
+// Preview a withdrawal: TDS, processing fee, net payout and the rules it breaks
+export const previewWithdrawal = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = (req as any).user?.userId;
+    
+    if (!userId) {
+      res.status(401).json({ 
+        success: false,
+        message: "User not authenticated" 
+      });
+      return;
+    }
+
+    const withdrawalAmount = Number(req.query.amount);
+    if (isNaN(withdrawalAmount) || withdrawalAmount <= 0) {
+      res.status(400).json({ 
+        success: false,
+        message: "Amount must be a positive number" 
+      });
+      return;
+    }
+
+    let preview;
+    try {
+      preview = await WithdrawalService.preview(
+        userId,
+        withdrawalAmount,
+        req.query.destinationId ? Number(req.query.destinationId) : null
+      );
+    } catch (destinationError: any) {
+      if (destinationError.message === "UPI ID not found" || destinationError.message.startsWith("Verify this UPI ID")) {
+        res.status(400).json({ 
+          success: false,
+          message: destinationError.message 
+        });
+        return;
+      }
+      throw destinationError;
+    }
+
+    res.json({
+      success: true,
+      data: {
+        amount: preview.amount,
+        tdsDetails: {
+          tdsPercentage: preview.tds.rate,
+          tdsAmount: preview.tds.tdsAmount,
+          processingFee: preview.feeAmount,
+          netAmount: preview.netAmount,
+          panVerified: preview.tds.pan !== null
+        },
+        availableBalance: preview.availableBalance,
+        allowed: preview.violations.length === 0,
+        violations: preview.violations
+      }
+    });
+  } catch (error: any) {
+    console.error("Preview withdrawal error:", error);
+    res.status(500).json({ 
+      success: false,
+      message: error.message || "Server error" 
+    });
+  }
+};
+
+// Account details for responses, with the UPI ID masked
+const presentAccountDetails = (withdrawal: Withdrawal): Record<string, any> => {
+  const details = typeof withdrawal.accountDetails === 'string'
+    ? JSON.parse(withdrawal.accountDetails)
+    : withdrawal.accountDetails;
+  return details?.upiId ? { ...details, upiId: maskVpa(details.upiId) } : details;
+};
+
 // Get user's withdrawal history
 export const getMyWithdrawals = async (req: Request, res: Response): Promise<void> => {
   try {
@@ -216,9 +301,11 @@ export const getMyWithdrawals = async (req: Request, res: Response): Promise<voi
           amount: Number(withdrawal.amount),
           method: withdrawal.method,
           status: withdrawal.status,
-          accountDetails: typeof withdrawal.accountDetails === 'string' 
-            ? JSON.parse(withdrawal.accountDetails) 
-            : withdrawal.accountDetails,
+          heldAmount: Number(withdrawal.heldAmount),
+          tdsAmount: Number(withdrawal.tdsAmount),
+          feeAmount: Number(withdrawal.feeAmount),
+          netAmount: withdrawal.getNetAmount(),
+          accountDetails: presentAccountDetails(withdrawal),
           adminNotes: withdrawal.adminNotes,
           transactionId: withdrawal.transactionId,
           requestedAt: withdrawal.createdAt,
@@ -266,9 +353,13 @@ export const getWithdrawalBalance = async (req: Request, res: Response): Promise
       return;
     }
 
-    const totalIncome = Number(user.totalIncome);
-    const totalWithdrawn = Number(user.totalWithdrawals);
-    const availableBalance = totalIncome - totalWithdrawn;
+    // Wallet is the source of truth; User income columns mirror it
+    const wallet = await Wallet.findOne({ where: { userId } });
+    const totalIncome = Number(wallet?.totalEarned || 0);
+    const totalWithdrawn = Number(wallet?.totalWithdrawn || 0);
+    const balance = Number(wallet?.balance || 0);
+    const heldBalance = Number(wallet?.heldBalance || 0);
+    const availableBalance = wallet ? wallet.getAvailableBalance() : 0;
 
     // Get KYC details if verified
     let kycDetails = null;
@@ -293,13 +384,15 @@ export const getWithdrawalBalance = async (req: Request, res: Response): Promise
       }
     }
 
+    const rules = await WithdrawalRulesService.getConfig();
+
     // Check for pending withdrawals
     const pendingWithdrawal = await Withdrawal.findOne({
       where: { 
         userId,
-        status: { [Op.in]: ['pending', 'approved', 'processing'] }
+        status: { [Op.in]: [...OPEN_WITHDRAWAL_STATUSES] }
       },
-      attributes: ['id', 'amount', 'status', 'createdAt']
+      attributes: ['id', 'amount', 'heldAmount', 'status', 'createdAt']
     });
 
     res.json({
@@ -309,10 +402,14 @@ export const getWithdrawalBalance = async (req: Request, res: Response): Promise
         kycDetails,
         totalIncome,
         totalWithdrawn,
+        balance,
+        heldBalance,
         availableBalance,
+        withdrawalRules: rules,
         pendingWithdrawal: pendingWithdrawal ? {
           id: pendingWithdrawal.id,
           amount: Number(pendingWithdrawal.amount),
+          heldAmount: Number(pendingWithdrawal.heldAmount),
           status: pendingWithdrawal.status,
           requestedAt: pendingWithdrawal.createdAt
         } : null
@@ -372,9 +469,11 @@ export const getAllWithdrawals = async (req: Request, res: Response): Promise<vo
           amount: Number(withdrawal.amount),
           method: withdrawal.method,
           status: withdrawal.status,
-          accountDetails: typeof withdrawal.accountDetails === 'string' 
-            ? JSON.parse(withdrawal.accountDetails) 
-            : withdrawal.accountDetails,
+          heldAmount: Number(withdrawal.heldAmount),
+          tdsAmount: Number(withdrawal.tdsAmount),
+          feeAmount: Number(withdrawal.feeAmount),
+          netAmount: withdrawal.getNetAmount(),
+          accountDetails: presentAccountDetails(withdrawal),
           adminNotes: withdrawal.adminNotes,
           transactionId: withdrawal.transactionId,
           user: {
@@ -404,76 +503,76 @@ export const getAllWithdrawals = async (req: Request, res: Response): Promise<vo
   }
 };
 
-// Approve withdrawal request (Admin only)
-export const approveWithdrawal = async (req: Request, res: Response): Promise<void> => {
+// Move a withdrawal through its states and answer with the outcome
+const moveWithdrawal = async (
+  req: Request,
+  res: Response,
+  to: WithdrawalStatus,
+  successMessage: string
+): Promise<void> => {
+  const { withdrawalId } = req.params;
+  const { transactionId, adminNotes } = req.body;
+  const adminId = (req as any).user?.userId;
+
+  let withdrawal: Withdrawal;
   try {
-    const { withdrawalId } = req.params;
-    const { transactionId } = req.body;
-    const adminId = (req as any).user?.userId;
-
-    const withdrawal = await Withdrawal.findByPk(withdrawalId, {
-      include: [
-        {
-          model: User,
-          as: 'user',
-          attributes: ['id', 'name', 'email', 'username', 'totalIncome', 'totalWithdrawals']
-        }
-      ]
+    withdrawal = await WithdrawalService.transition(Number(withdrawalId), to, {
+      actorId: adminId,
+      transactionId: transactionId || null,
+      adminNotes: adminNotes || null
     });
-
-    if (!withdrawal) {
+  } catch (error: any) {
+    if (error.message === "Withdrawal request not found") {
       res.status(404).json({ 
         success: false,
-        message: "Withdrawal request not found" 
+        message: error.message 
       });
       return;
     }
-
-    if (withdrawal.status !== 'pending') {
+    if (isWithdrawalRuleError(error)) {
       res.status(400).json({ 
         success: false,
-        message: "Withdrawal request is not pending" 
+        message: error.message === 'Insufficient wallet balance'
+          ? "User has insufficient balance for this withdrawal"
+          : error.message 
       });
       return;
     }
+    throw error;
+  }
 
-    // Check if user still has sufficient balance
-    const user = (withdrawal as any).user;
-    const availableBalance = Number(user.totalIncome) - Number(user.totalWithdrawals);
-    if (availableBalance < Number(withdrawal.amount)) {
-      res.status(400).json({ 
-        success: false,
-        message: "User has insufficient balance for this withdrawal" 
-      });
-      return;
+  const user = await User.findByPk(withdrawal.userId, { attributes: ['id', 'name'] });
+
+  res.json({
+    success: true,
+    message: successMessage,
+    data: {
+      withdrawalId: withdrawal.id,
+      userId: withdrawal.userId,
+      userName: user?.name ?? null,
+      amount: Number(withdrawal.amount),
+      heldAmount: Number(withdrawal.heldAmount),
+      status: withdrawal.status,
+      transactionId: withdrawal.transactionId,
+      adminNotes: withdrawal.adminNotes,
+      processedAt: withdrawal.processedAt
     }
+  });
+};
 
-    // Update withdrawal status
-    await withdrawal.update({
-      status: 'approved',
-      transactionId: transactionId || null,
-      processedAt: new Date()
-    });
-
-    // Update user's total withdrawals
-    await User.update(
-      { totalWithdrawals: Number(user.totalWithdrawals) + Number(withdrawal.amount) },
-      { where: { id: withdrawal.userId } }
-    );
+// Errors that mean the request can't be carried out as asked, rather than a fault
+const isWithdrawalRuleError = (error: any): boolean =>
+  error instanceof WithdrawalRuleError || typeof error?.message === 'string' && (
+    error.message.startsWith('Insufficient') ||
+    error.message.startsWith('You already have') ||
+    error.message.includes("can't move to") ||
+    error.message.includes('already debited')
+  );
 
-    res.json({
-      success: true,
-      message: "Withdrawal request approved successfully",
-      data: {
-        withdrawalId: withdrawal.id,
-        userId: withdrawal.userId,
-        userName: user.name,
-        amount: Number(withdrawal.amount),
-        status: 'approved',
-        transactionId: withdrawal.transactionId,
-        processedAt: withdrawal.processedAt
-      }
-    });
+// Approve withdrawal request (Admin only)
+export const approveWithdrawal = async (req: Request, res: Response): Promise<void> => {
+  try {
+    await moveWithdrawal(req, res, 'approved', "Withdrawal request approved successfully");
   } catch (error: any) {
     console.error("Approve withdrawal error:", error);
     res.status(500).json({ 
@@ -483,61 +582,25 @@ export const approveWithdrawal = async (req: Request, res: Response): Promise<vo
   }
 };
 
-// Reject withdrawal request (Admin only)
+// Reject withdrawal request and release the hold (Admin only)
 export const rejectWithdrawal = async (req: Request, res: Response): Promise<void> => {
   try {
-    const { withdrawalId } = req.params;
-    const { adminNotes } = req.body;
-    const adminId = (req as any).user?.userId;
-
-    const withdrawal = await Withdrawal.findByPk(withdrawalId, {
-      include: [
-        {
-          model: User,
-          as: 'user',
-          attributes: ['id', 'name', 'email', 'username']
-        }
-      ]
-    });
-
-    if (!withdrawal) {
-      res.status(404).json({ 
-        success: false,
-        message: "Withdrawal request not found" 
-      });
-      return;
-    }
-
-    if (withdrawal.status !== 'pending') {
-      res.status(400).json({ 
-        success: false,
-        message: "Withdrawal request is not pending" 
-      });
-      return;
-    }
-
-    // Update withdrawal status
-    await withdrawal.update({
-      status: 'rejected',
-      adminNotes: adminNotes || null,
-      processedAt: new Date()
+    await moveWithdrawal(req, res, 'rejected', "Withdrawal request rejected successfully");
+  } catch (error: any) {
+    console.error("Reject withdrawal error:", error);
+    res.status(500).json({ 
+      success: false,
+      message: error.message || "Server error" 
     });
+  }
+};
 
-    res.json({
-      success: true,
-      message: "Withdrawal request rejected successfully",
-      data: {
-        withdrawalId: withdrawal.id,
-        userId: withdrawal.userId,
-        userName: (withdrawal as any).user.name,
-        amount: Number(withdrawal.amount),
-        status: 'rejected',
-        adminNotes: withdrawal.adminNotes,
-        processedAt: withdrawal.processedAt
-      }
-    });
+// Mark an approved withdrawal as sent for payout (Admin only)
+export const processWithdrawal = async (req: Request, res: Response): Promise<void> => {
+  try {
+    await moveWithdrawal(req, res, 'processing', "Withdrawal marked as processing");
   } catch (error: any) {
-    console.error("Reject withdrawal error:", error);
+    console.error("Process withdrawal error:", error);
     res.status(500).json({ 
       success: false,
       message: error.message || "Server error" 
@@ -545,61 +608,116 @@ export const rejectWithdrawal = async (req: Request, res: Response): Promise<voi
   }
 };
 
-// Complete withdrawal (Admin only)
+// Complete withdrawal: debit the wallet and release the hold (Admin only)
 export const completeWithdrawal = async (req: Request, res: Response): Promise<void> => {
   try {
-    const { withdrawalId } = req.params;
-    const { transactionId } = req.body;
-    const adminId = (req as any).user?.userId;
+    await moveWithdrawal(req, res, 'completed', "Withdrawal completed successfully");
+  } catch (error: any) {
+    console.error("Complete withdrawal error:", error);
+    res.status(500).json({ 
+      success: false,
+      message: error.message || "Server error" 
+    });
+  }
+};
 
-    const withdrawal = await Withdrawal.findByPk(withdrawalId, {
-      include: [
-        {
-          model: User,
-          as: 'user',
-          attributes: ['id', 'name', 'email', 'username']
-        }
-      ]
+// Record a failed payout and release the hold (Admin only)
+export const failWithdrawal = async (req: Request, res: Response): Promise<void> => {
+  try {
+    await moveWithdrawal(req, res, 'failed', "Withdrawal marked as failed");
+  } catch (error: any) {
+    console.error("Fail withdrawal error:", error);
+    res.status(500).json({ 
+      success: false,
+      message: error.message || "Server error" 
     });
+  }
+};
 
-    if (!withdrawal) {
-      res.status(404).json({ 
-        success: false,
-        message: "Withdrawal request not found" 
-      });
-      return;
+// Answer with a UPI withdrawal after a payout provider call
+const sendUpiPayoutResult = (res: Response, withdrawal: Withdrawal): void => {
+  const messages: Partial<Record<WithdrawalStatus, string>> = {
+    completed: "UPI payout completed",
+    failed: "UPI payout failed; the hold was released",
+    processing: "UPI payout sent; the provider hasn't confirmed it yet"
+  };
+
+  res.json({
+    success: true,
+    message: messages[withdrawal.status] || `Withdrawal is ${withdrawal.status}`,
+    data: {
+      withdrawalId: withdrawal.id,
+      userId: withdrawal.userId,
+      amount: Number(withdrawal.amount),
+      netAmount: withdrawal.getNetAmount(),
+      status: withdrawal.status,
+      accountDetails: presentAccountDetails(withdrawal),
+      payoutProvider: withdrawal.payoutProvider,
+      providerPayoutId: withdrawal.providerPayoutId,
+      transactionId: withdrawal.transactionId,
+      adminNotes: withdrawal.adminNotes,
+      processedAt: withdrawal.processedAt
     }
+  });
+};
 
-    if (withdrawal.status !== 'approved') {
-      res.status(400).json({ 
-        success: false,
-        message: "Withdrawal request must be approved before completion" 
-      });
-      return;
+// Answer a UPI payout error: 404, 400 for what the admin asked, 502 for the provider
+const sendUpiPayoutError = (res: Response, error: any): boolean => {
+  if (error.message === "Withdrawal request not found") {
+    res.status(404).json({ success: false, message: error.message });
+    return true;
+  }
+  if (error.message?.startsWith("Payout provider error")) {
+    res.status(502).json({ success: false, message: error.message });
+    return true;
+  }
+  if (isWithdrawalRuleError(error) || error.message?.includes("payout batch") || error.message?.includes("no UPI payout")
+    || error.message?.includes("not configured")) {
+    res.status(400).json({ success: false, message: error.message });
+    return true;
+  }
+  return false;
+};
+
+// Pay an approved UPI withdrawal through the payout provider (Admin only)
+export const sendUpiPayout = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const adminId = (req as any).user?.userId;
+
+    let withdrawal: Withdrawal;
+    try {
+      withdrawal = await UpiPayoutService.send(Number(req.params.withdrawalId), adminId ?? null);
+    } catch (payoutError: any) {
+      if (sendUpiPayoutError(res, payoutError)) return;
+      throw payoutError;
     }
 
-    // Update withdrawal status
-    await withdrawal.update({
-      status: 'completed',
-      transactionId: transactionId || withdrawal.transactionId,
-      processedAt: new Date()
+    sendUpiPayoutResult(res, withdrawal);
+  } catch (error: any) {
+    console.error("Send UPI payout error:", error);
+    res.status(500).json({ 
+      success: false,
+      message: error.message || "Server error" 
     });
+  }
+};
 
-    res.json({
-      success: true,
-      message: "Withdrawal completed successfully",
-      data: {
-        withdrawalId: withdrawal.id,
-        userId: withdrawal.userId,
-        userName: (withdrawal as any).user.name,
-        amount: Number(withdrawal.amount),
-        status: 'completed',
-        transactionId: withdrawal.transactionId,
-        processedAt: withdrawal.processedAt
-      }
-    });
+// Check a UPI payout in progress with its provider (Admin only)
+export const refreshUpiPayout = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const adminId = (req as any).user?.userId;
+
+    let withdrawal: Withdrawal;
+    try {
+      withdrawal = await UpiPayoutService.refresh(Number(req.params.withdrawalId), adminId ?? null);
+    } catch (payoutError: any) {
+      if (sendUpiPayoutError(res, payoutError)) return;
+      throw payoutError;
+    }
+
+    sendUpiPayoutResult(res, withdrawal);
   } catch (error: any) {
-    console.error("Complete withdrawal error:", error);
+    console.error("Refresh UPI payout error:", error);
     res.status(500).json({ 
       success: false,
       message: error.message || "Server error" 
@@ -631,22 +749,30 @@ export const getWithdrawalStats = async (req: Request, res: Response): Promise<v
       totalWithdrawals,
       pendingWithdrawals,
       approvedWithdrawals,
+      processingWithdrawals,
       rejectedWithdrawals,
       completedWithdrawals,
+      failedWithdrawals,
       totalAmount,
       pendingAmount,
       approvedAmount,
-      completedAmount
+      processingAmount,
+      completedAmount,
+      heldAmount
     ] = await Promise.all([
       Withdrawal.count({ where: whereClause }),
       Withdrawal.count({ where: { ...whereClause, status: 'pending' } }),
       Withdrawal.count({ where: { ...whereClause, status: 'approved' } }),
+      Withdrawal.count({ where: { ...whereClause, status: 'processing' } }),
       Withdrawal.count({ where: { ...whereClause, status: 'rejected' } }),
       Withdrawal.count({ where: { ...whereClause, status: 'completed' } }),
+      Withdrawal.count({ where: { ...whereClause, status: 'failed' } }),
       Withdrawal.sum('amount', { where: whereClause }),
       Withdrawal.sum('amount', { where: { ...whereClause, status: 'pending' } }),
       Withdrawal.sum('amount', { where: { ...whereClause, status: 'approved' } }),
-      Withdrawal.sum('amount', { where: { ...whereClause, status: 'completed' } })
+      Withdrawal.sum('amount', { where: { ...whereClause, status: 'processing' } }),
+      Withdrawal.sum('amount', { where: { ...whereClause, status: 'completed' } }),
+      Withdrawal.sum('heldAmount', { where: whereClause })
     ]);
 
     res.json({
@@ -656,14 +782,18 @@ export const getWithdrawalStats = async (req: Request, res: Response): Promise<v
           total: totalWithdrawals,
           pending: pendingWithdrawals,
           approved: approvedWithdrawals,
+          processing: processingWithdrawals,
           rejected: rejectedWithdrawals,
-          completed: completedWithdrawals
+          completed: completedWithdrawals,
+          failed: failedWithdrawals
         },
         amounts: {
           total: Number(totalAmount || 0),
           pending: Number(pendingAmount || 0),
           approved: Number(approvedAmount || 0),
-          completed: Number(completedAmount || 0)
+          processing: Number(processingAmount || 0),
+          completed: Number(completedAmount || 0),
+          held: Number(heldAmount || 0)
         }
       }
     });
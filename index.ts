@@ -22,6 +22,15 @@ import withdrawalRoutes from "./routes/withdrawal.routes.ts";
 import certificateRoutes from "./routes/certificate.routes.ts";
 import competitionRoutes from "./routes/competition.routes.ts";
 import participationRoutes from "./routes/participation.routes.ts";
+import ledgerRoutes from "./routes/ledger.routes.ts";
+import payoutCycleRoutes from "./routes/payoutCycle.routes.ts";
+import jobRoutes from "./routes/job.routes.ts";
+import webhookRoutes from "./routes/webhook.routes.ts";
+import orderRoutes from "./routes/order.routes.ts";
+import couponRoutes from "./routes/coupon.routes.ts";
+import invoiceRoutes from "./routes/invoice.routes.ts";
+import exportRoutes from "./routes/export.routes.ts";
+import tdsRoutes from "./routes/tds.routes.ts";
 import { configurePassport } from "./middlewares/passport.ts";
 import { sequelize } from "./utils/db.ts";
 import "./models/User.ts";
@@ -62,6 +71,10 @@ const corsOptions: cors.CorsOptions = {
 
 app.use(cors(corsOptions));
 
+// Payment webhooks need the raw body for signature checks, so they are
+// mounted ahead of the JSON parser
+app.use("/api/webhooks", webhookRoutes);
+
 app.use(express.json({ limit: "50mb" }));
 app.use(express.urlencoded({ extended: true, limit: "50mb" }));
 app.use("/api/uploads", express.static(path.join(process.cwd(), "uploads")));
@@ -91,6 +104,14 @@ app.use("/api/withdrawals", withdrawalRoutes);
 app.use("/api/certificates", certificateRoutes);
 app.use("/api/competitions", competitionRoutes);
 app.use("/api/participations", participationRoutes);
+app.use("/api/ledger", ledgerRoutes);
+app.use("/api/payout-cycles", payoutCycleRoutes);
+app.use("/api/jobs", jobRoutes);
+app.use("/api/orders", orderRoutes);
+app.use("/api/coupons", couponRoutes);
+app.use("/api/invoices", invoiceRoutes);
+app.use("/api/exports", exportRoutes);
+app.use("/api/tds", tdsRoutes);
 
 // Health check
 app.get("/api/health", (req: Request, res: Response) => {
@@ -69,6 +69,19 @@ const documentFilter: (req: Request, file: Express.Multer.File, cb: FileFilterCa
     else cb(new Error('Only PDF files are allowed!'));
   };
 
+const allowedCsv = new Set([
+  'text/csv',
+  'application/csv',
+  'application/vnd.ms-excel', // What Windows browsers send for .csv
+  'text/plain',
+]);
+
+const csvFilter: (req: Request, file: Express.Multer.File, cb: FileFilterCallback) => void =
+  (_req, file, cb) => {
+    if (allowedCsv.has(file.mimetype) || path.extname(file.originalname).toLowerCase() === '.csv') cb(null, true);
+    else cb(new Error('Only CSV files are allowed!'));
+  };
+
 const mixedFilter: (req: Request, file: Express.Multer.File, cb: FileFilterCallback) => void =
   (_req, file, cb) => {
     if (allowedImages.has(file.mimetype) || 
@@ -105,5 +118,12 @@ export const uploadMixed = multer({
   fileFilter: mixedFilter,
 });
 
+// CSV imports are parsed straight from memory and never written to uploads/
+export const uploadCsv = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 5 * 1024 * 1024 },
+  fileFilter: csvFilter,
+});
+
 // Helper to get a public URL path you can save in DB
 export const toPublicUrl = (filename: string) => `/uploads/${filename}`;
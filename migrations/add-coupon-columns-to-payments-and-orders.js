@@ -0,0 +1,37 @@
+const { QueryInterface, DataTypes } = require('sequelize');
+
+// Tables that take a coupon: the purchase records members submit
+const COUPON_TABLES = ['payments', 'plan_requests', 'competition_participations'];
+
+module.exports = {
+  up: async (queryInterface) => {
+    for (const table of COUPON_TABLES) {
+      await queryInterface.addColumn(table, 'couponId', {
+        type: DataTypes.INTEGER.UNSIGNED,
+        allowNull: true,
+        defaultValue: null
+      });
+
+      await queryInterface.addColumn(table, 'discountAmount', {
+        type: DataTypes.DECIMAL(10, 2),
+        allowNull: false,
+        defaultValue: 0
+      });
+    }
+
+    await queryInterface.addColumn('orders', 'discountAmount', {
+      type: DataTypes.DECIMAL(10, 2),
+      allowNull: false,
+      defaultValue: 0
+    });
+  },
+
+  down: async (queryInterface) => {
+    await queryInterface.removeColumn('orders', 'discountAmount');
+
+    for (const table of [...COUPON_TABLES].reverse()) {
+      await queryInterface.removeColumn(table, 'discountAmount');
+      await queryInterface.removeColumn(table, 'couponId');
+    }
+  }
+};
@@ -0,0 +1,36 @@
+const { QueryInterface, DataTypes } = require('sequelize');
+
+module.exports = {
+  up: async (queryInterface) => {
+    await queryInterface.addColumn('plans', 'dailyPairCap', {
+      type: DataTypes.INTEGER.UNSIGNED,
+      allowNull: true,
+      defaultValue: null
+    });
+
+    await queryInterface.addColumn('plans', 'weeklyPairCap', {
+      type: DataTypes.INTEGER.UNSIGNED,
+      allowNull: true,
+      defaultValue: null
+    });
+
+    await queryInterface.addColumn('plans', 'dailyIncomeCap', {
+      type: DataTypes.DECIMAL(12, 2),
+      allowNull: true,
+      defaultValue: null
+    });
+
+    await queryInterface.addColumn('plans', 'weeklyIncomeCap', {
+      type: DataTypes.DECIMAL(12, 2),
+      allowNull: true,
+      defaultValue: null
+    });
+  },
+
+  down: async (queryInterface) => {
+    await queryInterface.removeColumn('plans', 'weeklyIncomeCap');
+    await queryInterface.removeColumn('plans', 'dailyIncomeCap');
+    await queryInterface.removeColumn('plans', 'weeklyPairCap');
+    await queryInterface.removeColumn('plans', 'dailyPairCap');
+  }
+};
@@ -0,0 +1,32 @@
+const { QueryInterface, DataTypes } = require('sequelize');
+
+module.exports = {
+  up: async (queryInterface) => {
+    await queryInterface.addColumn('wallet_transactions', 'direction', {
+      type: DataTypes.STRING(10),
+      allowNull: false,
+      defaultValue: 'credit'
+    });
+
+    await queryInterface.addColumn('wallet_transactions', 'journalEntryId', {
+      type: DataTypes.INTEGER.UNSIGNED,
+      allowNull: true,
+      defaultValue: null
+    });
+
+    await queryInterface.addIndex('wallet_transactions', ['journalEntryId'], {
+      name: 'idx_wallet_transactions_journal_entry'
+    });
+
+    // Withdrawals were the only debits before the ledger existed
+    await queryInterface.sequelize.query(
+      "UPDATE wallet_transactions SET direction = 'debit' WHERE type = 'withdrawal'"
+    );
+  },
+
+  down: async (queryInterface) => {
+    await queryInterface.removeIndex('wallet_transactions', 'idx_wallet_transactions_journal_entry');
+    await queryInterface.removeColumn('wallet_transactions', 'journalEntryId');
+    await queryInterface.removeColumn('wallet_transactions', 'direction');
+  }
+};
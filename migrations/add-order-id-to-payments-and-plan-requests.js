@@ -0,0 +1,34 @@
+const { QueryInterface, DataTypes } = require('sequelize');
+
+module.exports = {
+  up: async (queryInterface) => {
+    await queryInterface.addColumn('payments', 'orderId', {
+      type: DataTypes.INTEGER.UNSIGNED,
+      allowNull: true,
+      defaultValue: null
+    });
+
+    await queryInterface.addIndex('payments', ['orderId'], {
+      name: 'idx_payments_order_id'
+    });
+
+    await queryInterface.addColumn('plan_requests', 'orderId', {
+      type: DataTypes.INTEGER.UNSIGNED,
+      allowNull: true,
+      defaultValue: null
+    });
+
+    await queryInterface.addIndex('plan_requests', ['orderId'], {
+      name: 'idx_plan_requests_order_id'
+    });
+
+    // Existing rows are linked to orders by scripts/backfillOrders.ts
+  },
+
+  down: async (queryInterface) => {
+    await queryInterface.removeIndex('plan_requests', 'idx_plan_requests_order_id');
+    await queryInterface.removeColumn('plan_requests', 'orderId');
+    await queryInterface.removeIndex('payments', 'idx_payments_order_id');
+    await queryInterface.removeColumn('payments', 'orderId');
+  }
+};
@@ -0,0 +1,20 @@
+const { QueryInterface, DataTypes } = require('sequelize');
+
+module.exports = {
+  up: async (queryInterface) => {
+    await queryInterface.addColumn('bv_matches', 'pairs', {
+      type: DataTypes.INTEGER.UNSIGNED,
+      allowNull: false,
+      defaultValue: 0
+    });
+
+    await queryInterface.addIndex('bv_matches', ['userId', 'matchedAt'], {
+      name: 'idx_bv_matches_user_matched_at'
+    });
+  },
+
+  down: async (queryInterface) => {
+    await queryInterface.removeIndex('bv_matches', 'idx_bv_matches_user_matched_at');
+    await queryInterface.removeColumn('bv_matches', 'pairs');
+  }
+};
@@ -0,0 +1,25 @@
+const { QueryInterface, DataTypes } = require('sequelize');
+
+module.exports = {
+  up: async (queryInterface) => {
+    await queryInterface.addColumn('users', 'placementParentId', {
+      type: DataTypes.STRING(20),
+      allowNull: true,
+      defaultValue: null
+    });
+
+    // Until now every member sat directly under their sponsor
+    await queryInterface.sequelize.query(
+      'UPDATE users SET placementParentId = sponsorId WHERE sponsorId IS NOT NULL'
+    );
+
+    await queryInterface.addIndex('users', ['placementParentId', 'position'], {
+      name: 'idx_users_placement_parent_position'
+    });
+  },
+
+  down: async (queryInterface) => {
+    await queryInterface.removeIndex('users', 'idx_users_placement_parent_position');
+    await queryInterface.removeColumn('users', 'placementParentId');
+  }
+};
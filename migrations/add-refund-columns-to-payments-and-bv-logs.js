@@ -0,0 +1,22 @@
+const { QueryInterface, DataTypes } = require('sequelize');
+
+module.exports = {
+  up: async (queryInterface) => {
+    await queryInterface.addColumn('payments', 'refundedAt', {
+      type: DataTypes.DATE,
+      allowNull: true,
+      defaultValue: null
+    });
+
+    await queryInterface.addColumn('bv_logs', 'reversedAt', {
+      type: DataTypes.DATE,
+      allowNull: true,
+      defaultValue: null
+    });
+  },
+
+  down: async (queryInterface) => {
+    await queryInterface.removeColumn('bv_logs', 'reversedAt');
+    await queryInterface.removeColumn('payments', 'refundedAt');
+  }
+};
@@ -0,0 +1,32 @@
+const { QueryInterface, DataTypes } = require('sequelize');
+
+module.exports = {
+  up: async (queryInterface) => {
+    await queryInterface.addColumn('bv_logs', 'side', {
+      type: DataTypes.STRING(10),
+      allowNull: true,
+      defaultValue: null
+    });
+
+    await queryInterface.addColumn('bv_logs', 'matchedPoints', {
+      type: DataTypes.DECIMAL(12, 2),
+      allowNull: false,
+      defaultValue: 0.0
+    });
+
+    await queryInterface.addIndex('bv_logs', ['userId', 'side', 'matched'], {
+      name: 'idx_bv_logs_user_side_matched'
+    });
+
+    // Logs already flagged as matched were fully consumed
+    await queryInterface.sequelize.query(
+      'UPDATE bv_logs SET matchedPoints = points WHERE matched = 1'
+    );
+  },
+
+  down: async (queryInterface) => {
+    await queryInterface.removeIndex('bv_logs', 'idx_bv_logs_user_side_matched');
+    await queryInterface.removeColumn('bv_logs', 'matchedPoints');
+    await queryInterface.removeColumn('bv_logs', 'side');
+  }
+};
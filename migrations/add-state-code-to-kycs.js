@@ -0,0 +1,18 @@
+const { QueryInterface, DataTypes } = require('sequelize');
+
+module.exports = {
+  up: async (queryInterface) => {
+    // GST state code of the member's address, for the place of supply on invoices
+    await queryInterface.addColumn('kycs', 'stateCode', {
+      type: DataTypes.STRING(2),
+      allowNull: true,
+      defaultValue: null
+    });
+
+    // invoices and invoice_sequences are new tables, created by sequelize.sync
+  },
+
+  down: async (queryInterface) => {
+    await queryInterface.removeColumn('kycs', 'stateCode');
+  }
+};
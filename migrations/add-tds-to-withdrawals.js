@@ -0,0 +1,39 @@
+const { QueryInterface, DataTypes } = require('sequelize');
+
+module.exports = {
+  up: async (queryInterface) => {
+    await queryInterface.addColumn('withdrawals', 'tdsRate', {
+      type: DataTypes.DECIMAL(5, 2),
+      allowNull: false,
+      defaultValue: 0.0
+    });
+
+    await queryInterface.addColumn('withdrawals', 'tdsAmount', {
+      type: DataTypes.DECIMAL(12, 2),
+      allowNull: false,
+      defaultValue: 0.0
+    });
+
+    await queryInterface.addColumn('withdrawals', 'tdsPan', {
+      type: DataTypes.STRING(10),
+      allowNull: true,
+      defaultValue: null
+    });
+
+    // TDS used to live only in accountDetails
+    await queryInterface.sequelize.query(
+      `UPDATE withdrawals SET
+         tdsRate = COALESCE(CAST(JSON_UNQUOTE(JSON_EXTRACT(accountDetails, '$.tdsPercentage')) AS DECIMAL(5, 2)), 0),
+         tdsAmount = COALESCE(CAST(JSON_UNQUOTE(JSON_EXTRACT(accountDetails, '$.tdsAmount')) AS DECIMAL(12, 2)), 0)
+       WHERE JSON_EXTRACT(accountDetails, '$.tdsAmount') IS NOT NULL`
+    );
+
+    // tds_deductions is a new table, created by sequelize.sync
+  },
+
+  down: async (queryInterface) => {
+    await queryInterface.removeColumn('withdrawals', 'tdsPan');
+    await queryInterface.removeColumn('withdrawals', 'tdsAmount');
+    await queryInterface.removeColumn('withdrawals', 'tdsRate');
+  }
+};
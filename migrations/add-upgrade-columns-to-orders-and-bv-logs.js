@@ -0,0 +1,36 @@
+const { QueryInterface, DataTypes } = require('sequelize');
+
+module.exports = {
+  up: async (queryInterface) => {
+    await queryInterface.addColumn('orders', 'kind', {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+      defaultValue: 'purchase'
+    });
+
+    await queryInterface.addColumn('orders', 'fromPlanId', {
+      type: DataTypes.INTEGER.UNSIGNED,
+      allowNull: true,
+      defaultValue: null
+    });
+
+    await queryInterface.addColumn('bv_logs', 'orderId', {
+      type: DataTypes.INTEGER.UNSIGNED,
+      allowNull: true,
+      defaultValue: null
+    });
+
+    await queryInterface.addIndex('bv_logs', ['orderId'], {
+      name: 'idx_bv_logs_order_id'
+    });
+
+    // Plan history for orders activated before this is built by scripts/backfillUserPlans.ts
+  },
+
+  down: async (queryInterface) => {
+    await queryInterface.removeIndex('bv_logs', 'idx_bv_logs_order_id');
+    await queryInterface.removeColumn('bv_logs', 'orderId');
+    await queryInterface.removeColumn('orders', 'fromPlanId');
+    await queryInterface.removeColumn('orders', 'kind');
+  }
+};
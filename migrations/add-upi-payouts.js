@@ -0,0 +1,38 @@
+const { QueryInterface, DataTypes } = require('sequelize');
+
+module.exports = {
+  up: async (queryInterface) => {
+    // payout_destinations is a new table, created by sequelize.sync; run this after it exists
+    await queryInterface.addColumn('withdrawals', 'payoutDestinationId', {
+      type: DataTypes.INTEGER.UNSIGNED,
+      allowNull: true,
+      defaultValue: null,
+      references: { model: 'payout_destinations', key: 'id' },
+      onDelete: 'RESTRICT',
+      onUpdate: 'CASCADE'
+    });
+
+    await queryInterface.addColumn('withdrawals', 'payoutProvider', {
+      type: DataTypes.STRING(20),
+      allowNull: true,
+      defaultValue: null
+    });
+
+    await queryInterface.addColumn('withdrawals', 'providerPayoutId', {
+      type: DataTypes.STRING(100),
+      allowNull: true,
+      defaultValue: null
+    });
+
+    await queryInterface.addIndex('withdrawals', ['payoutProvider', 'providerPayoutId'], {
+      name: 'idx_withdrawals_provider_payout'
+    });
+  },
+
+  down: async (queryInterface) => {
+    await queryInterface.removeIndex('withdrawals', 'idx_withdrawals_provider_payout');
+    await queryInterface.removeColumn('withdrawals', 'providerPayoutId');
+    await queryInterface.removeColumn('withdrawals', 'payoutProvider');
+    await queryInterface.removeColumn('withdrawals', 'payoutDestinationId');
+  }
+};
@@ -0,0 +1,43 @@
+const { QueryInterface, DataTypes } = require('sequelize');
+
+module.exports = {
+  up: async (queryInterface) => {
+    await queryInterface.addColumn('plans', 'validityPeriod', {
+      type: DataTypes.INTEGER.UNSIGNED,
+      allowNull: true,
+      defaultValue: null
+    });
+
+    await queryInterface.addColumn('plans', 'validityUnit', {
+      type: DataTypes.STRING(10),
+      allowNull: false,
+      defaultValue: 'days'
+    });
+
+    await queryInterface.addColumn('user_plans', 'expiresAt', {
+      type: DataTypes.DATE,
+      allowNull: true,
+      defaultValue: null
+    });
+
+    await queryInterface.addColumn('user_plans', 'remindersSent', {
+      type: DataTypes.JSON,
+      allowNull: false,
+      defaultValue: []
+    });
+
+    await queryInterface.addIndex('user_plans', ['status', 'expiresAt'], {
+      name: 'idx_user_plans_status_expires'
+    });
+
+    // Existing plans have no validity period, so plans bought so far never expire
+  },
+
+  down: async (queryInterface) => {
+    await queryInterface.removeIndex('user_plans', 'idx_user_plans_status_expires');
+    await queryInterface.removeColumn('user_plans', 'remindersSent');
+    await queryInterface.removeColumn('user_plans', 'expiresAt');
+    await queryInterface.removeColumn('plans', 'validityUnit');
+    await queryInterface.removeColumn('plans', 'validityPeriod');
+  }
+};
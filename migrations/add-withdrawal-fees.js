@@ -0,0 +1,15 @@
+const { QueryInterface, DataTypes } = require('sequelize');
+
+module.exports = {
+  up: async (queryInterface) => {
+    await queryInterface.addColumn('withdrawals', 'feeAmount', {
+      type: DataTypes.DECIMAL(12, 2),
+      allowNull: false,
+      defaultValue: 0.0
+    });
+  },
+
+  down: async (queryInterface) => {
+    await queryInterface.removeColumn('withdrawals', 'feeAmount');
+  }
+};
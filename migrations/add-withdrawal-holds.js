@@ -0,0 +1,48 @@
+const { QueryInterface, DataTypes } = require('sequelize');
+
+module.exports = {
+  up: async (queryInterface) => {
+    await queryInterface.addColumn('wallets', 'heldBalance', {
+      type: DataTypes.DECIMAL(12, 2),
+      allowNull: false,
+      defaultValue: 0.0
+    });
+
+    await queryInterface.addColumn('withdrawals', 'heldAmount', {
+      type: DataTypes.DECIMAL(12, 2),
+      allowNull: false,
+      defaultValue: 0.0
+    });
+
+    await queryInterface.addColumn('withdrawals', 'debitedBeforeLedger', {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: false
+    });
+
+    // Pending requests weren't debited yet, so they hold their amount now.
+    // Approved and processing ones were taken off the member's balance on
+    // approval, through totalWithdrawals and with no WITHDRAWAL_<id> entry;
+    // they hold nothing and are marked so completing them doesn't debit the
+    // wallet again.
+    await queryInterface.sequelize.query(
+      "UPDATE withdrawals SET heldAmount = amount WHERE status = 'pending'"
+    );
+    await queryInterface.sequelize.query(
+      "UPDATE withdrawals SET debitedBeforeLedger = true WHERE status IN ('approved', 'processing')"
+    );
+    await queryInterface.sequelize.query(
+      `UPDATE wallets w
+       JOIN (
+         SELECT userId, SUM(heldAmount) AS held FROM withdrawals WHERE status = 'pending' GROUP BY userId
+       ) h ON h.userId = w.userId
+       SET w.heldBalance = h.held`
+    );
+  },
+
+  down: async (queryInterface) => {
+    await queryInterface.removeColumn('withdrawals', 'debitedBeforeLedger');
+    await queryInterface.removeColumn('withdrawals', 'heldAmount');
+    await queryInterface.removeColumn('wallets', 'heldBalance');
+  }
+};
@@ -0,0 +1,167 @@
+import {
+  DataTypes,
+  Model,
+  type CreationOptional,
+  type InferAttributes,
+  type InferCreationAttributes,
+  type ModelAttributes,
+} from "sequelize";
+import { sequelize } from "../utils/db.ts";
+
+/**
+ * Activation event lifecycle
+ *  - pending:    recorded, BV not yet distributed
+ *  - processing: claimed by a worker
+ *  - processed:  BV distributed (or found already distributed)
+ *  - skipped:    nothing to distribute (no sponsor or position)
+ *  - failed:     last attempt errored; retried until attempts run out
+ *  - reversed:   BV taken back after the member's purchase was refunded;
+ *                a later activation queues the event again
+ */
+export const ACTIVATION_EVENT_STATUSES = [
+  "pending",
+  "processing",
+  "processed",
+  "skipped",
+  "failed",
+  "reversed"
+] as const;
+
+export type ActivationEventStatus = (typeof ACTIVATION_EVENT_STATUSES)[number];
+
+/**
+ * Where the BV for an activation was distributed
+ */
+export const ACTIVATION_EVENT_SOURCES = [
+  "activation",  // Outbox processing after User.isActive turned true
+  "payment",     // Inline distribution on payment approval (before orders)
+  "legacy"       // Distributed before the outbox existed
+] as const;
+
+export type ActivationEventSource = (typeof ACTIVATION_EVENT_SOURCES)[number];
+
+/**
+ * ActivationEvent model
+ * Outbox of user activations. One row per user ever activated: the unique
+ * userId is what stops a block/unblock from distributing BV twice.
+ */
+export class ActivationEvent extends Model<
+  InferAttributes<ActivationEvent>,
+  InferCreationAttributes<ActivationEvent>
+> {
+  declare id: CreationOptional<number>;
+  declare userId: number;
+  declare status: CreationOptional<ActivationEventStatus>;
+  declare source: CreationOptional<ActivationEventSource>;
+  declare bvAmount: CreationOptional<number>;
+  declare levels: CreationOptional<number>;
+  declare attempts: CreationOptional<number>;
+  declare lastError: CreationOptional<string | null>;
+  declare lockedAt: CreationOptional<Date | null>;
+  declare processedAt: CreationOptional<Date | null>;
+
+  // Timestamps
+  declare createdAt: CreationOptional<Date>;
+  declare updatedAt: CreationOptional<Date>;
+
+  toJSON() {
+    const data = this.get();
+    return {
+      ...data,
+      bvAmount: Number(data.bvAmount),
+    };
+  }
+}
+
+const activationEventAttributes = {
+  id: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    autoIncrement: true,
+    primaryKey: true,
+  },
+
+  userId: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: false,
+    unique: true,
+    references: { model: "users", key: "id" },
+    onDelete: "CASCADE",
+    onUpdate: "CASCADE",
+  },
+
+  status: {
+    type: DataTypes.STRING(20),
+    allowNull: false,
+    defaultValue: "pending",
+    validate: {
+      isIn: {
+        args: [ACTIVATION_EVENT_STATUSES as unknown as string[]],
+        msg: `Status must be one of: ${ACTIVATION_EVENT_STATUSES.join(", ")}`,
+      },
+    },
+  },
+
+  source: {
+    type: DataTypes.STRING(20),
+    allowNull: false,
+    defaultValue: "activation",
+    validate: {
+      isIn: {
+        args: [ACTIVATION_EVENT_SOURCES as unknown as string[]],
+        msg: `Source must be one of: ${ACTIVATION_EVENT_SOURCES.join(", ")}`,
+      },
+    },
+  },
+
+  bvAmount: {
+    type: DataTypes.DECIMAL(12, 2),
+    allowNull: false,
+    defaultValue: 0.0,
+  },
+
+  levels: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: false,
+    defaultValue: 0,
+  },
+
+  attempts: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: false,
+    defaultValue: 0,
+  },
+
+  lastError: {
+    type: DataTypes.TEXT,
+    allowNull: true,
+    defaultValue: null,
+  },
+
+  lockedAt: {
+    type: DataTypes.DATE,
+    allowNull: true,
+    defaultValue: null,
+  },
+
+  processedAt: {
+    type: DataTypes.DATE,
+    allowNull: true,
+    defaultValue: null,
+  },
+
+  // TS satisfaction for timestamps
+  createdAt: { type: DataTypes.DATE, allowNull: true },
+  updatedAt: { type: DataTypes.DATE, allowNull: true },
+} satisfies ModelAttributes<ActivationEvent, InferCreationAttributes<ActivationEvent>>;
+
+ActivationEvent.init(activationEventAttributes, {
+  sequelize,
+  tableName: "activation_events",
+  timestamps: true,
+  indexes: [
+    { name: "idx_activation_events_user_id", unique: true, fields: ["userId"] },
+    { name: "idx_activation_events_status", fields: ["status"] },
+  ],
+});
+
+export default ActivationEvent;
@@ -0,0 +1,113 @@
+import {
+  DataTypes,
+  Model,
+  type CreationOptional,
+  type InferAttributes,
+  type InferCreationAttributes,
+  type ModelAttributes,
+} from "sequelize";
+import { sequelize } from "../utils/db.ts";
+
+/**
+ * BankStatementImport model
+ * A bank or UPI statement CSV uploaded by an admin, with the outcome of
+ * matching its credits against pending payments
+ */
+export class BankStatementImport extends Model<
+  InferAttributes<BankStatementImport>,
+  InferCreationAttributes<BankStatementImport>
+> {
+  declare id: CreationOptional<number>;
+  declare fileName: string;
+  declare uploadedBy: number;
+  declare totalRows: CreationOptional<number>;
+  declare creditRows: CreationOptional<number>;
+  declare matchedCount: CreationOptional<number>;
+  declare mismatchCount: CreationOptional<number>;
+  declare unmatchedCount: CreationOptional<number>;
+  declare matchedAmount: CreationOptional<number>;
+
+  // Timestamps
+  declare createdAt: CreationOptional<Date>;
+  declare updatedAt: CreationOptional<Date>;
+
+  toJSON() {
+    const data = this.get();
+    return {
+      ...data,
+      matchedAmount: Number(data.matchedAmount),
+    };
+  }
+}
+
+const bankStatementImportAttributes = {
+  id: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    autoIncrement: true,
+    primaryKey: true,
+  },
+
+  fileName: {
+    type: DataTypes.STRING(255),
+    allowNull: false,
+  },
+
+  uploadedBy: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: false,
+    references: { model: "users", key: "id" },
+    onDelete: "RESTRICT",
+    onUpdate: "CASCADE",
+  },
+
+  totalRows: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: false,
+    defaultValue: 0,
+  },
+
+  creditRows: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: false,
+    defaultValue: 0,
+  },
+
+  matchedCount: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: false,
+    defaultValue: 0,
+  },
+
+  mismatchCount: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: false,
+    defaultValue: 0,
+  },
+
+  unmatchedCount: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: false,
+    defaultValue: 0,
+  },
+
+  matchedAmount: {
+    type: DataTypes.DECIMAL(15, 2),
+    allowNull: false,
+    defaultValue: 0.0,
+  },
+
+  // TS satisfaction for timestamps
+  createdAt: { type: DataTypes.DATE, allowNull: true },
+  updatedAt: { type: DataTypes.DATE, allowNull: true },
+} satisfies ModelAttributes<BankStatementImport, InferCreationAttributes<BankStatementImport>>;
+
+BankStatementImport.init(bankStatementImportAttributes, {
+  sequelize,
+  tableName: "bank_statement_imports",
+  timestamps: true,
+  indexes: [
+    { name: "idx_bank_statement_imports_uploaded_by", fields: ["uploadedBy"] },
+  ],
+});
+
+export default BankStatementImport;
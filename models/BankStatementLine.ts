@@ -0,0 +1,158 @@
+import {
+  DataTypes,
+  Model,
+  type CreationOptional,
+  type InferAttributes,
+  type InferCreationAttributes,
+  type ModelAttributes,
+} from "sequelize";
+import { sequelize } from "../utils/db.ts";
+import { UTR_SOURCE_TYPES, type UtrSourceType } from "./UtrRegistry.ts";
+
+/**
+ * Outcome of matching one statement row
+ *  - matched:          UTR and amount match a pending submission, now verified
+ *  - amount_mismatch:  UTR found but the credited amount differs
+ *  - already_verified: UTR belongs to a submission that was already past pending
+ *  - unmatched:        no submission uses this UTR (yet)
+ *  - skipped:          debit, or no UTR could be read from the row
+ */
+export const BANK_STATEMENT_LINE_STATUSES = [
+  "matched",
+  "amount_mismatch",
+  "already_verified",
+  "unmatched",
+  "skipped"
+] as const;
+
+export type BankStatementLineStatus = (typeof BANK_STATEMENT_LINE_STATUSES)[number];
+
+/**
+ * BankStatementLine model
+ * One row of an imported statement and what it was matched to
+ */
+export class BankStatementLine extends Model<
+  InferAttributes<BankStatementLine>,
+  InferCreationAttributes<BankStatementLine>
+> {
+  declare id: CreationOptional<number>;
+  declare importId: number;
+  declare rowNumber: number;
+  declare txnDate: CreationOptional<string | null>;
+  declare utr: CreationOptional<string | null>;
+  declare amount: CreationOptional<number | null>;
+  declare description: CreationOptional<string | null>;
+  declare status: BankStatementLineStatus;
+  declare matchedSourceType: CreationOptional<UtrSourceType | null>;
+  declare matchedSourceId: CreationOptional<number | null>;
+  declare note: CreationOptional<string | null>;
+
+  // Timestamps
+  declare createdAt: CreationOptional<Date>;
+  declare updatedAt: CreationOptional<Date>;
+
+  toJSON() {
+    const data = this.get();
+    return {
+      ...data,
+      amount: data.amount === null || data.amount === undefined ? null : Number(data.amount),
+    };
+  }
+}
+
+const bankStatementLineAttributes = {
+  id: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    autoIncrement: true,
+    primaryKey: true,
+  },
+
+  importId: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: false,
+    references: { model: "bank_statement_imports", key: "id" },
+    onDelete: "CASCADE",
+    onUpdate: "CASCADE",
+  },
+
+  rowNumber: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: false,
+  },
+
+  txnDate: {
+    type: DataTypes.STRING(30),
+    allowNull: true,
+    defaultValue: null,
+  },
+
+  utr: {
+    type: DataTypes.STRING(50),
+    allowNull: true,
+    defaultValue: null,
+  },
+
+  amount: {
+    type: DataTypes.DECIMAL(12, 2),
+    allowNull: true,
+    defaultValue: null,
+  },
+
+  description: {
+    type: DataTypes.STRING(500),
+    allowNull: true,
+    defaultValue: null,
+  },
+
+  status: {
+    type: DataTypes.STRING(20),
+    allowNull: false,
+    validate: {
+      isIn: {
+        args: [BANK_STATEMENT_LINE_STATUSES as unknown as string[]],
+        msg: `Status must be one of: ${BANK_STATEMENT_LINE_STATUSES.join(", ")}`,
+      },
+    },
+  },
+
+  matchedSourceType: {
+    type: DataTypes.STRING(20),
+    allowNull: true,
+    defaultValue: null,
+    validate: {
+      isIn: {
+        args: [UTR_SOURCE_TYPES as unknown as string[]],
+        msg: `Source type must be one of: ${UTR_SOURCE_TYPES.join(", ")}`,
+      },
+    },
+  },
+
+  matchedSourceId: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: true,
+    defaultValue: null,
+  },
+
+  note: {
+    type: DataTypes.STRING(255),
+    allowNull: true,
+    defaultValue: null,
+  },
+
+  // TS satisfaction for timestamps
+  createdAt: { type: DataTypes.DATE, allowNull: true },
+  updatedAt: { type: DataTypes.DATE, allowNull: true },
+} satisfies ModelAttributes<BankStatementLine, InferCreationAttributes<BankStatementLine>>;
+
+BankStatementLine.init(bankStatementLineAttributes, {
+  sequelize,
+  tableName: "bank_statement_lines",
+  timestamps: true,
+  indexes: [
+    { name: "idx_bank_statement_lines_import_id", fields: ["importId"] },
+    { name: "idx_bank_statement_lines_utr", fields: ["utr"] },
+    { name: "idx_bank_statement_lines_status", fields: ["status"] },
+  ],
+});
+
+export default BankStatementLine;
@@ -0,0 +1,178 @@
+import {
+  DataTypes,
+  Model,
+  type CreationOptional,
+  type InferAttributes,
+  type InferCreationAttributes,
+  type ModelAttributes,
+} from "sequelize";
+import { sequelize } from "../utils/db.ts";
+import { BV_MATCH_SOURCES, type BvMatchSource } from "./BvMatch.ts";
+
+/**
+ * Why BV was flushed instead of paid
+ */
+export const BV_FLUSH_REASONS = [
+  "daily_cap",     // Plan's daily pair or income ceiling reached
+  "weekly_cap",    // Plan's weekly pair or income ceiling reached
+  "carry_forward", // Carry forward policy or per-leg carry limit
+  "plan_expired"   // Member's plan had expired and expired plans flush their pairs
+] as const;
+
+export type BvFlushReason = (typeof BV_FLUSH_REASONS)[number];
+
+/**
+ * BvFlushLog model
+ * Ledger of BV that left a member's carry without earning, so capped
+ * income can be reported and every consumed BV log accounted for.
+ */
+export class BvFlushLog extends Model<
+  InferAttributes<BvFlushLog>,
+  InferCreationAttributes<BvFlushLog>
+> {
+  declare id: CreationOptional<number>;
+  declare userId: number;
+  declare source: BvMatchSource;
+  declare reason: BvFlushReason;
+  declare leftFlushed: number;
+  declare rightFlushed: number;
+  declare pairsCapped: CreationOptional<number>;
+  declare incomeCapped: CreationOptional<number>;   // ₹ the capped pairs would have paid
+  declare planId: CreationOptional<number | null>;
+  declare bvMatchId: CreationOptional<number | null>;
+  declare bvLogIds: CreationOptional<{ left: number[]; right: number[] } | null>;
+  declare periodStart: CreationOptional<Date | null>; // Start of the cap period that was hit
+  declare flushedAt: CreationOptional<Date>;
+
+  // Timestamps
+  declare createdAt: CreationOptional<Date>;
+  declare updatedAt: CreationOptional<Date>;
+
+  toJSON() {
+    const data = this.get();
+    return {
+      ...data,
+      leftFlushed: Number(data.leftFlushed),
+      rightFlushed: Number(data.rightFlushed),
+      incomeCapped: Number(data.incomeCapped),
+    };
+  }
+}
+
+const bvFlushLogAttributes = {
+  id: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    autoIncrement: true,
+    primaryKey: true,
+  },
+
+  userId: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: false,
+    references: { model: "users", key: "id" },
+    onDelete: "CASCADE",
+    onUpdate: "CASCADE",
+  },
+
+  source: {
+    type: DataTypes.STRING(20),
+    allowNull: false,
+    validate: {
+      isIn: {
+        args: [BV_MATCH_SOURCES as unknown as string[]],
+        msg: `Source must be one of: ${BV_MATCH_SOURCES.join(", ")}`,
+      },
+    },
+  },
+
+  reason: {
+    type: DataTypes.STRING(20),
+    allowNull: false,
+    validate: {
+      isIn: {
+        args: [BV_FLUSH_REASONS as unknown as string[]],
+        msg: `Reason must be one of: ${BV_FLUSH_REASONS.join(", ")}`,
+      },
+    },
+  },
+
+  leftFlushed: {
+    type: DataTypes.DECIMAL(12, 2),
+    allowNull: false,
+    defaultValue: 0.0,
+  },
+
+  rightFlushed: {
+    type: DataTypes.DECIMAL(12, 2),
+    allowNull: false,
+    defaultValue: 0.0,
+  },
+
+  pairsCapped: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: false,
+    defaultValue: 0,
+  },
+
+  incomeCapped: {
+    type: DataTypes.DECIMAL(12, 2),
+    allowNull: false,
+    defaultValue: 0.0,
+  },
+
+  planId: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: true,
+    defaultValue: null,
+    references: { model: "plans", key: "id" },
+    onDelete: "SET NULL",
+    onUpdate: "CASCADE",
+  },
+
+  bvMatchId: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: true,
+    defaultValue: null,
+    references: { model: "bv_matches", key: "id" },
+    onDelete: "SET NULL",
+    onUpdate: "CASCADE",
+  },
+
+  bvLogIds: {
+    type: DataTypes.JSON,
+    allowNull: true,
+    defaultValue: null,
+  },
+
+  periodStart: {
+    type: DataTypes.DATE,
+    allowNull: true,
+    defaultValue: null,
+  },
+
+  flushedAt: {
+    type: DataTypes.DATE,
+    allowNull: false,
+    defaultValue: DataTypes.NOW,
+  },
+
+  // TS satisfaction for timestamps
+  createdAt: { type: DataTypes.DATE, allowNull: true },
+  updatedAt: { type: DataTypes.DATE, allowNull: true },
+} satisfies ModelAttributes<BvFlushLog, InferCreationAttributes<BvFlushLog>>;
+
+BvFlushLog.init(bvFlushLogAttributes, {
+  sequelize,
+  tableName: "bv_flush_logs",
+  timestamps: true,
+  defaultScope: {
+    order: [["flushedAt", "DESC"]],
+  },
+  indexes: [
+    { name: "idx_bv_flush_logs_user_id", fields: ["userId"] },
+    { name: "idx_bv_flush_logs_reason", fields: ["reason"] },
+    { name: "idx_bv_flush_logs_flushed_at", fields: ["flushedAt"] },
+  ],
+});
+
+export default BvFlushLog;
@@ -8,6 +8,13 @@ import {
 } from "sequelize";
 import { sequelize } from "../utils/db.ts";
 
+/**
+ * Binary leg a BV addition landed on
+ */
+export const BV_SIDES = ["left", "right"] as const;
+
+export type BVSide = (typeof BV_SIDES)[number];
+
 /**
  * BVLogs model
  * Tracks each BV addition event (for audit & matching reference)
@@ -20,9 +27,13 @@ export class BVLog extends Model<
 
   declare userId: number;          // The user who receives the BV
   declare sourceUserId: number;    // The user from whom this BV originates
+  declare orderId: CreationOptional<number | null>; // Upgrade order that sent the BV (null for activations)
   declare points: number;          // Amount of BV added
+  declare side: CreationOptional<BVSide | null>; // Leg the BV was added to (null for legacy rows)
 
   declare matched: CreationOptional<boolean>; // Whether this BV got matched in a pair
+  declare matchedPoints: CreationOptional<number>; // How much of `points` has been paired so far
+  declare reversedAt: CreationOptional<Date | null>; // Taken back because the source member's purchase was refunded
 
   // Timestamps
   declare createdAt: CreationOptional<Date>;
@@ -53,17 +64,50 @@ const bvLogAttributes = {
   },
 
 
+  orderId: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: true,
+    defaultValue: null,
+    references: { model: "orders", key: "id" },
+    onDelete: "SET NULL",
+    onUpdate: "CASCADE",
+  },
+
   points: {
     type: DataTypes.DECIMAL(12, 2),
     allowNull: false,
   },
 
+  side: {
+    type: DataTypes.STRING(10),
+    allowNull: true,
+    defaultValue: null,
+    validate: {
+      isIn: {
+        args: [BV_SIDES as unknown as string[]],
+        msg: `Side must be one of: ${BV_SIDES.join(", ")}`,
+      },
+    },
+  },
+
   matched: {
     type: DataTypes.BOOLEAN,
     allowNull: false,
     defaultValue: false,
   },
 
+  matchedPoints: {
+    type: DataTypes.DECIMAL(12, 2),
+    allowNull: false,
+    defaultValue: 0.0,
+  },
+
+  reversedAt: {
+    type: DataTypes.DATE,
+    allowNull: true,
+    defaultValue: null,
+  },
+
   // TS satisfaction for timestamps
   createdAt: { type: DataTypes.DATE, allowNull: true },
   updatedAt: { type: DataTypes.DATE, allowNull: true },
@@ -76,7 +120,9 @@ BVLog.init(bvLogAttributes, {
   indexes: [
     { name: "idx_bv_logs_user_id", fields: ["userId"] },
     { name: "idx_bv_logs_source_user_id", fields: ["sourceUserId"] },
+    { name: "idx_bv_logs_order_id", fields: ["orderId"] },
     { name: "idx_bv_logs_matched", fields: ["matched"] },
+    { name: "idx_bv_logs_user_side_matched", fields: ["userId", "side", "matched"] },
   ],
 });
 
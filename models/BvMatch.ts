@@ -0,0 +1,185 @@
+import {
+  DataTypes,
+  Model,
+  type CreationOptional,
+  type InferAttributes,
+  type InferCreationAttributes,
+  type ModelAttributes,
+} from "sequelize";
+import { sequelize } from "../utils/db.ts";
+
+/**
+ * Matching engines that can produce a pairing event
+ */
+export const BV_MATCH_SOURCES = [
+  "carry",     // BVMatchingService (carry-based matching)
+  "advanced",  // AdvancedBVMatchingService (referral tree matching)
+  "payment"    // Legacy matching run on payment approval
+] as const;
+
+export type BvMatchSource = (typeof BV_MATCH_SOURCES)[number];
+
+/**
+ * BvMatch model
+ * One row per pairing event, so every matching bonus can be traced back
+ * to the BV, carry and plan rate that produced it.
+ */
+export class BvMatch extends Model<
+  InferAttributes<BvMatch>,
+  InferCreationAttributes<BvMatch>
+> {
+  declare id: CreationOptional<number>;
+  declare userId: number;
+  declare source: BvMatchSource;
+  declare matchedAmount: number;    // BV paired off on each leg
+  declare pairs: CreationOptional<number>; // Paid pairs; 0 for commission-based matches
+  declare bonusEarned: number;
+  declare carryLeftBefore: number;
+  declare carryRightBefore: number;
+  declare carryLeftAfter: number;
+  declare carryRightAfter: number;
+  declare planId: CreationOptional<number | null>; // Plan whose rate priced the bonus
+  declare planBvValue: CreationOptional<number>;   // Plan rate at the time of the match
+  declare sourceBvLogIds: CreationOptional<{ left: number[]; right: number[] } | null>;
+  declare walletTransactionId: CreationOptional<number | null>;
+  declare matchedAt: CreationOptional<Date>;
+
+  // Timestamps
+  declare createdAt: CreationOptional<Date>;
+  declare updatedAt: CreationOptional<Date>;
+
+  toJSON() {
+    const data = this.get();
+    return {
+      ...data,
+      matchedAmount: Number(data.matchedAmount),
+      bonusEarned: Number(data.bonusEarned),
+      carryLeftBefore: Number(data.carryLeftBefore),
+      carryRightBefore: Number(data.carryRightBefore),
+      carryLeftAfter: Number(data.carryLeftAfter),
+      carryRightAfter: Number(data.carryRightAfter),
+      planBvValue: Number(data.planBvValue),
+    };
+  }
+}
+
+const bvMatchAttributes = {
+  id: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    autoIncrement: true,
+    primaryKey: true,
+  },
+
+  userId: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: false,
+    references: { model: "users", key: "id" },
+    onDelete: "CASCADE",
+    onUpdate: "CASCADE",
+  },
+
+  source: {
+    type: DataTypes.STRING(20),
+    allowNull: false,
+    validate: {
+      isIn: {
+        args: [BV_MATCH_SOURCES as unknown as string[]],
+        msg: `Source must be one of: ${BV_MATCH_SOURCES.join(", ")}`,
+      },
+    },
+  },
+
+  matchedAmount: {
+    type: DataTypes.DECIMAL(12, 2),
+    allowNull: false,
+  },
+
+  pairs: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: false,
+    defaultValue: 0,
+  },
+
+  bonusEarned: {
+    type: DataTypes.DECIMAL(12, 2),
+    allowNull: false,
+    defaultValue: 0.0,
+  },
+
+  carryLeftBefore: {
+    type: DataTypes.DECIMAL(12, 2),
+    allowNull: false,
+  },
+
+  carryRightBefore: {
+    type: DataTypes.DECIMAL(12, 2),
+    allowNull: false,
+  },
+
+  carryLeftAfter: {
+    type: DataTypes.DECIMAL(12, 2),
+    allowNull: false,
+  },
+
+  carryRightAfter: {
+    type: DataTypes.DECIMAL(12, 2),
+    allowNull: false,
+  },
+
+  planId: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: true,
+    defaultValue: null,
+    references: { model: "plans", key: "id" },
+    onDelete: "SET NULL",
+    onUpdate: "CASCADE",
+  },
+
+  planBvValue: {
+    type: DataTypes.DECIMAL(12, 2),
+    allowNull: false,
+    defaultValue: 0.0,
+  },
+
+  sourceBvLogIds: {
+    type: DataTypes.JSON,
+    allowNull: true,
+    defaultValue: null,
+  },
+
+  walletTransactionId: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: true,
+    defaultValue: null,
+    references: { model: "wallet_transactions", key: "id" },
+    onDelete: "SET NULL",
+    onUpdate: "CASCADE",
+  },
+
+  matchedAt: {
+    type: DataTypes.DATE,
+    allowNull: false,
+    defaultValue: DataTypes.NOW,
+  },
+
+  // TS satisfaction for timestamps
+  createdAt: { type: DataTypes.DATE, allowNull: true },
+  updatedAt: { type: DataTypes.DATE, allowNull: true },
+} satisfies ModelAttributes<BvMatch, InferCreationAttributes<BvMatch>>;
+
+BvMatch.init(bvMatchAttributes, {
+  sequelize,
+  tableName: "bv_matches",
+  timestamps: true,
+  defaultScope: {
+    order: [["matchedAt", "DESC"]],
+  },
+  indexes: [
+    { name: "idx_bv_matches_user_id", fields: ["userId"] },
+    { name: "idx_bv_matches_matched_at", fields: ["matchedAt"] },
+    { name: "idx_bv_matches_user_matched_at", fields: ["userId", "matchedAt"] },
+    { name: "idx_bv_matches_plan_id", fields: ["planId"] },
+  ],
+});
+
+export default BvMatch;
@@ -30,6 +30,8 @@ export class CompetitionParticipation extends Model<
   declare competitionId: number;
   declare status: ParticipationStatus;
   declare paymentAmount: number;
+  declare couponId: CreationOptional<number | null>;
+  declare discountAmount: CreationOptional<number>;   // Coupon discount off the list price
   declare paymentMethod: CreationOptional<string | null>;
   declare utrNumber: CreationOptional<string | null>;
   declare paymentScreenshot: CreationOptional<string | null>;
@@ -86,6 +88,24 @@ const participationAttributes = {
     }
   },
 
+  couponId: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: true,
+    defaultValue: null,
+    references: {
+      model: 'coupons',
+      key: 'id'
+    },
+    onDelete: 'SET NULL',
+    onUpdate: 'CASCADE'
+  },
+
+  discountAmount: {
+    type: DataTypes.DECIMAL(10, 2),
+    allowNull: false,
+    defaultValue: 0,
+  },
+
   paymentMethod: {
     type: DataTypes.STRING(50),
     allowNull: true,
@@ -0,0 +1,234 @@
+import {
+  DataTypes,
+  Model,
+  type CreationOptional,
+  type InferAttributes,
+  type InferCreationAttributes,
+  type ModelAttributes,
+} from "sequelize";
+import { sequelize } from "../utils/db.ts";
+
+/**
+ * How a coupon takes money off
+ *  - percentage: a share of the price, up to maxDiscount if set
+ *  - fixed:      a flat amount, never more than the price
+ */
+export const COUPON_DISCOUNT_TYPES = ["percentage", "fixed"] as const;
+
+export type CouponDiscountType = (typeof COUPON_DISCOUNT_TYPES)[number];
+
+/**
+ * What a coupon can be used on; planIds / competitionIds narrow it further
+ */
+export const COUPON_SCOPES = ["any", "plan", "competition"] as const;
+
+export type CouponScope = (typeof COUPON_SCOPES)[number];
+
+/**
+ * Coupon model
+ * A discount code members enter when buying a plan or entering a
+ * competition. Each use is a CouponRedemption.
+ */
+export class Coupon extends Model<
+  InferAttributes<Coupon>,
+  InferCreationAttributes<Coupon>
+> {
+  declare id: CreationOptional<number>;
+  declare code: string;
+  declare description: CreationOptional<string | null>;
+  declare discountType: CouponDiscountType;
+  declare discountValue: number;     // Percent, or ₹ for fixed coupons
+  declare maxDiscount: CreationOptional<number | null>;   // Ceiling on a percentage discount
+  declare minAmount: CreationOptional<number | null>;     // Price the purchase must reach
+  declare appliesTo: CreationOptional<CouponScope>;
+  declare planIds: CreationOptional<number[] | null>;         // null: every plan
+  declare competitionIds: CreationOptional<number[] | null>;  // null: every competition
+  declare usageLimit: CreationOptional<number | null>;    // Uses across all members; null for no limit
+  declare perUserLimit: CreationOptional<number | null>;  // Uses per member; null for no limit
+  declare usedCount: CreationOptional<number>;
+  declare validFrom: CreationOptional<Date | null>;
+  declare validUntil: CreationOptional<Date | null>;
+  declare isActive: CreationOptional<boolean>;
+  declare createdBy: CreationOptional<number | null>;
+
+  // Timestamps
+  declare createdAt: CreationOptional<Date>;
+  declare updatedAt: CreationOptional<Date>;
+
+  isWithinWindow(at: Date = new Date()) {
+    if (this.validFrom && at < this.validFrom) return false;
+    if (this.validUntil && at > this.validUntil) return false;
+    return true;
+  }
+
+  toJSON() {
+    const data = this.get();
+    return {
+      ...data,
+      discountValue: Number(data.discountValue),
+      maxDiscount: data.maxDiscount === null || data.maxDiscount === undefined ? null : Number(data.maxDiscount),
+      minAmount: data.minAmount === null || data.minAmount === undefined ? null : Number(data.minAmount),
+      isWithinWindow: this.isWithinWindow(),
+    };
+  }
+}
+
+const couponAttributes = {
+  id: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    autoIncrement: true,
+    primaryKey: true,
+  },
+
+  code: {
+    type: DataTypes.STRING(40),
+    allowNull: false,
+    unique: { name: "uniq_coupons_code", msg: "Coupon code already exists" },
+    validate: {
+      is: { args: /^[A-Z0-9_-]{3,40}$/, msg: "Coupon code must be 3-40 letters, digits, - or _" },
+    },
+    set(this: Coupon, val: string) {
+      this.setDataValue("code", String(val ?? "").trim().toUpperCase());
+    },
+  },
+
+  description: {
+    type: DataTypes.TEXT,
+    allowNull: true,
+    defaultValue: null,
+  },
+
+  discountType: {
+    type: DataTypes.STRING(20),
+    allowNull: false,
+    validate: {
+      isIn: {
+        args: [COUPON_DISCOUNT_TYPES as unknown as string[]],
+        msg: `Discount type must be one of: ${COUPON_DISCOUNT_TYPES.join(", ")}`,
+      },
+    },
+  },
+
+  discountValue: {
+    type: DataTypes.DECIMAL(10, 2),
+    allowNull: false,
+    validate: {
+      min: { args: [0.01], msg: "Discount value must be greater than 0" },
+      isValidForType(this: Coupon, value: number) {
+        if (this.discountType === "percentage" && Number(value) > 100) {
+          throw new Error("A percentage discount cannot be more than 100");
+        }
+      },
+    },
+  },
+
+  maxDiscount: {
+    type: DataTypes.DECIMAL(10, 2),
+    allowNull: true,
+    defaultValue: null,
+    validate: {
+      min: { args: [0], msg: "Maximum discount must be non-negative" },
+    },
+  },
+
+  minAmount: {
+    type: DataTypes.DECIMAL(10, 2),
+    allowNull: true,
+    defaultValue: null,
+    validate: {
+      min: { args: [0], msg: "Minimum amount must be non-negative" },
+    },
+  },
+
+  appliesTo: {
+    type: DataTypes.STRING(20),
+    allowNull: false,
+    defaultValue: "any",
+    validate: {
+      isIn: {
+        args: [COUPON_SCOPES as unknown as string[]],
+        msg: `Applies to must be one of: ${COUPON_SCOPES.join(", ")}`,
+      },
+    },
+  },
+
+  planIds: {
+    type: DataTypes.JSON,
+    allowNull: true,
+    defaultValue: null,
+  },
+
+  competitionIds: {
+    type: DataTypes.JSON,
+    allowNull: true,
+    defaultValue: null,
+  },
+
+  usageLimit: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: true,
+    defaultValue: null,
+  },
+
+  perUserLimit: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: true,
+    defaultValue: 1,
+  },
+
+  usedCount: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: false,
+    defaultValue: 0,
+  },
+
+  validFrom: {
+    type: DataTypes.DATE,
+    allowNull: true,
+    defaultValue: null,
+  },
+
+  validUntil: {
+    type: DataTypes.DATE,
+    allowNull: true,
+    defaultValue: null,
+  },
+
+  isActive: {
+    type: DataTypes.BOOLEAN,
+    allowNull: false,
+    defaultValue: true,
+  },
+
+  createdBy: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: true,
+    defaultValue: null,
+    references: { model: "users", key: "id" },
+    onDelete: "SET NULL",
+    onUpdate: "CASCADE",
+  },
+
+  // TS satisfaction for timestamps
+  createdAt: { type: DataTypes.DATE, allowNull: true },
+  updatedAt: { type: DataTypes.DATE, allowNull: true },
+} satisfies ModelAttributes<Coupon, InferCreationAttributes<Coupon>>;
+
+Coupon.init(couponAttributes, {
+  sequelize,
+  tableName: "coupons",
+  timestamps: true,
+  indexes: [
+    { name: "uniq_coupons_code", unique: true, fields: ["code"] },
+    { name: "idx_coupons_is_active", fields: ["isActive"] },
+  ],
+});
+
+/** ---------------- Hooks ---------------- **/
+Coupon.beforeValidate((coupon) => {
+  if (coupon.validFrom && coupon.validUntil && coupon.validUntil <= coupon.validFrom) {
+    throw new Error("Valid until must be after valid from");
+  }
+});
+
+export default Coupon;
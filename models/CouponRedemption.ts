@@ -0,0 +1,205 @@
+import {
+  DataTypes,
+  Model,
+  type CreationOptional,
+  type InferAttributes,
+  type InferCreationAttributes,
+  type ModelAttributes,
+} from "sequelize";
+import { sequelize } from "../utils/db.ts";
+
+/**
+ * What the coupon was used on
+ */
+export const COUPON_PURPOSES = ["plan", "competition"] as const;
+
+export type CouponPurpose = (typeof COUPON_PURPOSES)[number];
+
+/**
+ * Redemption lifecycle
+ *  - applied:  counts towards the coupon's limits
+ *  - released: the purchase was rejected or cancelled, so the use is given back
+ */
+export const COUPON_REDEMPTION_STATUSES = ["applied", "released"] as const;
+
+export type CouponRedemptionStatus = (typeof COUPON_REDEMPTION_STATUSES)[number];
+
+/**
+ * CouponRedemption model
+ * One use of a coupon: what was bought, the list price, the discount and
+ * what the member paid.
+ */
+export class CouponRedemption extends Model<
+  InferAttributes<CouponRedemption>,
+  InferCreationAttributes<CouponRedemption>
+> {
+  declare id: CreationOptional<number>;
+  declare couponId: number;
+  declare userId: number;
+  declare purpose: CouponPurpose;
+  declare planId: CreationOptional<number | null>;
+  declare competitionId: CreationOptional<number | null>;
+  declare orderId: CreationOptional<number | null>;
+  declare paymentId: CreationOptional<number | null>;
+  declare planRequestId: CreationOptional<number | null>;
+  declare participationId: CreationOptional<number | null>;
+  declare listAmount: number;       // Price before the discount
+  declare discountAmount: number;
+  declare paidAmount: number;
+  declare status: CreationOptional<CouponRedemptionStatus>;
+  declare releasedAt: CreationOptional<Date | null>;
+
+  // Timestamps
+  declare createdAt: CreationOptional<Date>;
+  declare updatedAt: CreationOptional<Date>;
+
+  toJSON() {
+    const data = this.get();
+    return {
+      ...data,
+      listAmount: Number(data.listAmount),
+      discountAmount: Number(data.discountAmount),
+      paidAmount: Number(data.paidAmount),
+    };
+  }
+}
+
+const couponRedemptionAttributes = {
+  id: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    autoIncrement: true,
+    primaryKey: true,
+  },
+
+  couponId: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: false,
+    references: { model: "coupons", key: "id" },
+    onDelete: "RESTRICT",
+    onUpdate: "CASCADE",
+  },
+
+  userId: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: false,
+    references: { model: "users", key: "id" },
+    onDelete: "CASCADE",
+    onUpdate: "CASCADE",
+  },
+
+  purpose: {
+    type: DataTypes.STRING(20),
+    allowNull: false,
+    validate: {
+      isIn: {
+        args: [COUPON_PURPOSES as unknown as string[]],
+        msg: `Purpose must be one of: ${COUPON_PURPOSES.join(", ")}`,
+      },
+    },
+  },
+
+  planId: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: true,
+    defaultValue: null,
+    references: { model: "plans", key: "id" },
+    onDelete: "SET NULL",
+    onUpdate: "CASCADE",
+  },
+
+  competitionId: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: true,
+    defaultValue: null,
+    references: { model: "competitions", key: "id" },
+    onDelete: "SET NULL",
+    onUpdate: "CASCADE",
+  },
+
+  orderId: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: true,
+    defaultValue: null,
+    references: { model: "orders", key: "id" },
+    onDelete: "SET NULL",
+    onUpdate: "CASCADE",
+  },
+
+  paymentId: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: true,
+    defaultValue: null,
+    references: { model: "payments", key: "id" },
+    onDelete: "SET NULL",
+    onUpdate: "CASCADE",
+  },
+
+  planRequestId: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: true,
+    defaultValue: null,
+    references: { model: "plan_requests", key: "id" },
+    onDelete: "SET NULL",
+    onUpdate: "CASCADE",
+  },
+
+  participationId: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: true,
+    defaultValue: null,
+    references: { model: "competition_participations", key: "id" },
+    onDelete: "SET NULL",
+    onUpdate: "CASCADE",
+  },
+
+  listAmount: {
+    type: DataTypes.DECIMAL(10, 2),
+    allowNull: false,
+  },
+
+  discountAmount: {
+    type: DataTypes.DECIMAL(10, 2),
+    allowNull: false,
+  },
+
+  paidAmount: {
+    type: DataTypes.DECIMAL(10, 2),
+    allowNull: false,
+  },
+
+  status: {
+    type: DataTypes.STRING(20),
+    allowNull: false,
+    defaultValue: "applied",
+    validate: {
+      isIn: {
+        args: [COUPON_REDEMPTION_STATUSES as unknown as string[]],
+        msg: `Status must be one of: ${COUPON_REDEMPTION_STATUSES.join(", ")}`,
+      },
+    },
+  },
+
+  releasedAt: {
+    type: DataTypes.DATE,
+    allowNull: true,
+    defaultValue: null,
+  },
+
+  // TS satisfaction for timestamps
+  createdAt: { type: DataTypes.DATE, allowNull: true },
+  updatedAt: { type: DataTypes.DATE, allowNull: true },
+} satisfies ModelAttributes<CouponRedemption, InferCreationAttributes<CouponRedemption>>;
+
+CouponRedemption.init(couponRedemptionAttributes, {
+  sequelize,
+  tableName: "coupon_redemptions",
+  timestamps: true,
+  indexes: [
+    { name: "idx_coupon_redemptions_coupon_status", fields: ["couponId", "status"] },
+    { name: "idx_coupon_redemptions_user_coupon", fields: ["userId", "couponId"] },
+    { name: "idx_coupon_redemptions_order_id", fields: ["orderId"] },
+    { name: "idx_coupon_redemptions_participation_id", fields: ["participationId"] },
+  ],
+});
+
+export default CouponRedemption;
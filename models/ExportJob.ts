@@ -0,0 +1,190 @@
+import {
+  DataTypes,
+  Model,
+  type CreationOptional,
+  type InferAttributes,
+  type InferCreationAttributes,
+  type ModelAttributes,
+} from "sequelize";
+import { sequelize } from "../utils/db.ts";
+
+/**
+ * What an export produces
+ *  - zip:  one PDF slip per plan request / payment, plus a summary CSV
+ *  - csv:  the summary only
+ *  - xlsx: the summary as a spreadsheet
+ */
+export const EXPORT_FORMATS = ["zip", "csv", "xlsx"] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+/**
+ * Which purchase records an export covers
+ */
+export const EXPORT_SOURCES = ["all", "plan_requests", "payments"] as const;
+
+export type ExportSource = (typeof EXPORT_SOURCES)[number];
+
+/**
+ * Export lifecycle
+ *  - queued:    waiting for a worker
+ *  - running:   being generated
+ *  - completed: the file is ready to download
+ *  - failed:    generation stopped with an error
+ *  - expired:   the file was deleted after the retention period
+ */
+export const EXPORT_STATUSES = ["queued", "running", "completed", "failed", "expired"] as const;
+
+export type ExportStatus = (typeof EXPORT_STATUSES)[number];
+
+export interface ExportFilters {
+  source: ExportSource;
+  from?: string | null;      // YYYY-MM-DD, inclusive
+  to?: string | null;        // YYYY-MM-DD, inclusive
+  status?: string | null;
+  planId?: number | null;
+}
+
+/**
+ * ExportJob model
+ * An admin's request for a plan purchase report. The file is generated in
+ * the background and kept on disk until it expires.
+ */
+export class ExportJob extends Model<
+  InferAttributes<ExportJob>,
+  InferCreationAttributes<ExportJob>
+> {
+  declare id: CreationOptional<number>;
+  declare requestedBy: number;
+  declare format: ExportFormat;
+  declare filters: ExportFilters;
+  declare status: CreationOptional<ExportStatus>;
+  declare fileName: CreationOptional<string | null>;
+  declare filePath: CreationOptional<string | null>;   // Server path; never sent to clients
+  declare fileSize: CreationOptional<number | null>;
+  declare rowCount: CreationOptional<number | null>;
+  declare error: CreationOptional<string | null>;
+  declare startedAt: CreationOptional<Date | null>;
+  declare completedAt: CreationOptional<Date | null>;
+  declare expiresAt: CreationOptional<Date | null>;
+
+  // Timestamps
+  declare createdAt: CreationOptional<Date>;
+  declare updatedAt: CreationOptional<Date>;
+
+  toJSON() {
+    const { filePath, ...data } = this.get();
+    return {
+      ...data,
+      downloadUrl: data.status === "completed" ? `/api/exports/${data.id}/download` : null,
+    };
+  }
+}
+
+const exportJobAttributes = {
+  id: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    autoIncrement: true,
+    primaryKey: true,
+  },
+
+  requestedBy: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: false,
+    references: { model: "users", key: "id" },
+    onDelete: "CASCADE",
+    onUpdate: "CASCADE",
+  },
+
+  format: {
+    type: DataTypes.STRING(10),
+    allowNull: false,
+    validate: {
+      isIn: {
+        args: [EXPORT_FORMATS as unknown as string[]],
+        msg: `Format must be one of: ${EXPORT_FORMATS.join(", ")}`,
+      },
+    },
+  },
+
+  filters: {
+    type: DataTypes.JSON,
+    allowNull: false,
+  },
+
+  status: {
+    type: DataTypes.STRING(20),
+    allowNull: false,
+    defaultValue: "queued",
+    validate: {
+      isIn: {
+        args: [EXPORT_STATUSES as unknown as string[]],
+        msg: `Status must be one of: ${EXPORT_STATUSES.join(", ")}`,
+      },
+    },
+  },
+
+  fileName: {
+    type: DataTypes.STRING(255),
+    allowNull: true,
+    defaultValue: null,
+  },
+
+  filePath: {
+    type: DataTypes.STRING(500),
+    allowNull: true,
+    defaultValue: null,
+  },
+
+  fileSize: {
+    type: DataTypes.BIGINT.UNSIGNED,
+    allowNull: true,
+    defaultValue: null,
+  },
+
+  rowCount: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: true,
+    defaultValue: null,
+  },
+
+  error: {
+    type: DataTypes.TEXT,
+    allowNull: true,
+    defaultValue: null,
+  },
+
+  startedAt: {
+    type: DataTypes.DATE,
+    allowNull: true,
+    defaultValue: null,
+  },
+
+  completedAt: {
+    type: DataTypes.DATE,
+    allowNull: true,
+    defaultValue: null,
+  },
+
+  expiresAt: {
+    type: DataTypes.DATE,
+    allowNull: true,
+    defaultValue: null,
+  },
+
+  // TS satisfaction for timestamps
+  createdAt: { type: DataTypes.DATE, allowNull: true },
+  updatedAt: { type: DataTypes.DATE, allowNull: true },
+} satisfies ModelAttributes<ExportJob, InferCreationAttributes<ExportJob>>;
+
+ExportJob.init(exportJobAttributes, {
+  sequelize,
+  tableName: "export_jobs",
+  timestamps: true,
+  indexes: [
+    { name: "idx_export_jobs_status", fields: ["status"] },
+    { name: "idx_export_jobs_requested_by", fields: ["requestedBy"] },
+  ],
+});
+
+export default ExportJob;
@@ -0,0 +1,218 @@
+import {
+  DataTypes,
+  Model,
+  type CreationOptional,
+  type InferAttributes,
+  type InferCreationAttributes,
+  type ModelAttributes,
+} from "sequelize";
+import { sequelize } from "../utils/db.ts";
+
+/**
+ * Payment gateways orders can be placed with
+ */
+export const GATEWAY_PROVIDERS = [
+  "razorpay",
+  "cashfree",
+  "fake"        // Local provider for development and tests
+] as const;
+
+export type GatewayProvider = (typeof GATEWAY_PROVIDERS)[number];
+
+/**
+ * What the order pays for
+ */
+export const GATEWAY_ORDER_PURPOSES = [
+  "plan",           // Plan purchase (becomes a Payment)
+  "participation"   // Competition entry fee
+] as const;
+
+export type GatewayOrderPurpose = (typeof GATEWAY_ORDER_PURPOSES)[number];
+
+/**
+ * Gateway order lifecycle
+ *  - created: order placed with the provider, waiting for the member to pay
+ *  - paid:    provider confirmed the payment through a webhook
+ *  - failed:  the last payment attempt failed; the member may retry
+ */
+export const GATEWAY_ORDER_STATUSES = [
+  "created",
+  "paid",
+  "failed"
+] as const;
+
+export type GatewayOrderStatus = (typeof GATEWAY_ORDER_STATUSES)[number];
+
+/**
+ * GatewayOrder model
+ * An order placed with a payment gateway for one purchase. Webhooks are
+ * matched to it by the provider's order id.
+ */
+export class GatewayOrder extends Model<
+  InferAttributes<GatewayOrder>,
+  InferCreationAttributes<GatewayOrder>
+> {
+  declare id: CreationOptional<number>;
+  declare provider: GatewayProvider;
+  declare providerOrderId: string;
+  declare receipt: string;
+  declare userId: number;
+  declare purpose: GatewayOrderPurpose;
+  declare planId: CreationOptional<number | null>;
+  declare participationId: CreationOptional<number | null>;
+  declare paymentId: CreationOptional<number | null>;
+  declare amount: number;
+  declare currency: CreationOptional<string>;
+  declare status: CreationOptional<GatewayOrderStatus>;
+  declare providerPaymentId: CreationOptional<string | null>;
+  declare failureReason: CreationOptional<string | null>;
+  declare paidAt: CreationOptional<Date | null>;
+
+  // Timestamps
+  declare createdAt: CreationOptional<Date>;
+  declare updatedAt: CreationOptional<Date>;
+
+  toJSON() {
+    const data = this.get();
+    return {
+      ...data,
+      amount: Number(data.amount),
+    };
+  }
+}
+
+const gatewayOrderAttributes = {
+  id: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    autoIncrement: true,
+    primaryKey: true,
+  },
+
+  provider: {
+    type: DataTypes.STRING(20),
+    allowNull: false,
+    validate: {
+      isIn: {
+        args: [GATEWAY_PROVIDERS as unknown as string[]],
+        msg: `Provider must be one of: ${GATEWAY_PROVIDERS.join(", ")}`,
+      },
+    },
+  },
+
+  providerOrderId: {
+    type: DataTypes.STRING(100),
+    allowNull: false,
+  },
+
+  receipt: {
+    type: DataTypes.STRING(40),
+    allowNull: false,
+    unique: true,
+  },
+
+  userId: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: false,
+    references: { model: "users", key: "id" },
+    onDelete: "CASCADE",
+    onUpdate: "CASCADE",
+  },
+
+  purpose: {
+    type: DataTypes.STRING(20),
+    allowNull: false,
+    validate: {
+      isIn: {
+        args: [GATEWAY_ORDER_PURPOSES as unknown as string[]],
+        msg: `Purpose must be one of: ${GATEWAY_ORDER_PURPOSES.join(", ")}`,
+      },
+    },
+  },
+
+  planId: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: true,
+    defaultValue: null,
+    references: { model: "plans", key: "id" },
+    onDelete: "SET NULL",
+    onUpdate: "CASCADE",
+  },
+
+  participationId: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: true,
+    defaultValue: null,
+    references: { model: "competition_participations", key: "id" },
+    onDelete: "SET NULL",
+    onUpdate: "CASCADE",
+  },
+
+  paymentId: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: true,
+    defaultValue: null,
+    references: { model: "payments", key: "id" },
+    onDelete: "SET NULL",
+    onUpdate: "CASCADE",
+  },
+
+  amount: {
+    type: DataTypes.DECIMAL(10, 2),
+    allowNull: false,
+  },
+
+  currency: {
+    type: DataTypes.STRING(3),
+    allowNull: false,
+    defaultValue: "INR",
+  },
+
+  status: {
+    type: DataTypes.STRING(20),
+    allowNull: false,
+    defaultValue: "created",
+    validate: {
+      isIn: {
+        args: [GATEWAY_ORDER_STATUSES as unknown as string[]],
+        msg: `Status must be one of: ${GATEWAY_ORDER_STATUSES.join(", ")}`,
+      },
+    },
+  },
+
+  providerPaymentId: {
+    type: DataTypes.STRING(100),
+    allowNull: true,
+    defaultValue: null,
+  },
+
+  failureReason: {
+    type: DataTypes.STRING(255),
+    allowNull: true,
+    defaultValue: null,
+  },
+
+  paidAt: {
+    type: DataTypes.DATE,
+    allowNull: true,
+    defaultValue: null,
+  },
+
+  // TS satisfaction for timestamps
+  createdAt: { type: DataTypes.DATE, allowNull: true },
+  updatedAt: { type: DataTypes.DATE, allowNull: true },
+} satisfies ModelAttributes<GatewayOrder, InferCreationAttributes<GatewayOrder>>;
+
+GatewayOrder.init(gatewayOrderAttributes, {
+  sequelize,
+  tableName: "gateway_orders",
+  timestamps: true,
+  indexes: [
+    { name: "idx_gateway_orders_provider_order", unique: true, fields: ["provider", "providerOrderId"] },
+    { name: "idx_gateway_orders_receipt", unique: true, fields: ["receipt"] },
+    { name: "idx_gateway_orders_user_status", fields: ["userId", "status"] },
+    { name: "idx_gateway_orders_payment_id", fields: ["paymentId"] },
+    { name: "idx_gateway_orders_participation_id", fields: ["participationId"] },
+  ],
+});
+
+export default GatewayOrder;
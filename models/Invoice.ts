@@ -0,0 +1,268 @@
+import {
+  DataTypes,
+  Model,
+  type CreationOptional,
+  type InferAttributes,
+  type InferCreationAttributes,
+  type ModelAttributes,
+} from "sequelize";
+import { sequelize } from "../utils/db.ts";
+
+/**
+ * Where the supply is taxed
+ *  - intra_state: buyer in the company's state, split into CGST and SGST
+ *  - inter_state: buyer elsewhere, charged IGST
+ */
+export const SUPPLY_TYPES = ["intra_state", "inter_state"] as const;
+
+export type SupplyType = (typeof SUPPLY_TYPES)[number];
+
+/**
+ * Invoice model
+ * The GST tax invoice for an activated plan purchase order. Seller and
+ * buyer details are copied in when it is issued, so later changes to the
+ * company settings or the member's KYC don't alter an issued invoice.
+ */
+export class Invoice extends Model<
+  InferAttributes<Invoice>,
+  InferCreationAttributes<Invoice>
+> {
+  declare id: CreationOptional<number>;
+  declare invoiceNumber: string;     // "INV/25-26/00042"
+  declare financialYear: string;
+  declare sequence: number;          // Position in the financial year's numbering
+  declare orderId: number;
+  declare userId: number;
+  declare planId: number;
+  declare invoiceDate: Date;
+
+  // Seller
+  declare sellerName: string;
+  declare sellerGstin: string;
+  declare sellerAddress: CreationOptional<string | null>;
+  declare sellerStateCode: string;
+
+  // Buyer (unregistered member)
+  declare buyerName: string;
+  declare buyerEmail: CreationOptional<string | null>;
+  declare buyerAddress: CreationOptional<string | null>;
+  declare buyerStateCode: CreationOptional<string | null>; // From KYC; null if the member gave none
+
+  // Supply
+  declare placeOfSupply: string;     // State code the tax is due in
+  declare supplyType: SupplyType;
+  declare sacCode: string;
+  declare description: string;
+  declare discountAmount: CreationOptional<number>;   // Coupon discount, shown for reference
+  declare taxableValue: number;
+  declare gstRate: number;
+  declare cgstAmount: CreationOptional<number>;
+  declare sgstAmount: CreationOptional<number>;
+  declare igstAmount: CreationOptional<number>;
+  declare totalAmount: number;       // What the member paid, tax included
+  declare currency: CreationOptional<string>;
+
+  // Timestamps
+  declare createdAt: CreationOptional<Date>;
+  declare updatedAt: CreationOptional<Date>;
+
+  toJSON() {
+    const data = this.get();
+    return {
+      ...data,
+      discountAmount: Number(data.discountAmount),
+      taxableValue: Number(data.taxableValue),
+      gstRate: Number(data.gstRate),
+      cgstAmount: Number(data.cgstAmount),
+      sgstAmount: Number(data.sgstAmount),
+      igstAmount: Number(data.igstAmount),
+      totalAmount: Number(data.totalAmount),
+    };
+  }
+}
+
+const invoiceAttributes = {
+  id: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    autoIncrement: true,
+    primaryKey: true,
+  },
+
+  invoiceNumber: {
+    type: DataTypes.STRING(16),
+    allowNull: false,
+  },
+
+  financialYear: {
+    type: DataTypes.STRING(7),
+    allowNull: false,
+  },
+
+  sequence: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: false,
+  },
+
+  orderId: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: false,
+    references: { model: "orders", key: "id" },
+    onDelete: "RESTRICT",
+    onUpdate: "CASCADE",
+  },
+
+  userId: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: false,
+    references: { model: "users", key: "id" },
+    onDelete: "RESTRICT",
+    onUpdate: "CASCADE",
+  },
+
+  planId: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: false,
+    references: { model: "plans", key: "id" },
+    onDelete: "RESTRICT",
+    onUpdate: "CASCADE",
+  },
+
+  invoiceDate: {
+    type: DataTypes.DATE,
+    allowNull: false,
+  },
+
+  sellerName: {
+    type: DataTypes.STRING(200),
+    allowNull: false,
+  },
+
+  sellerGstin: {
+    type: DataTypes.STRING(15),
+    allowNull: false,
+  },
+
+  sellerAddress: {
+    type: DataTypes.TEXT,
+    allowNull: true,
+    defaultValue: null,
+  },
+
+  sellerStateCode: {
+    type: DataTypes.STRING(2),
+    allowNull: false,
+  },
+
+  buyerName: {
+    type: DataTypes.STRING(200),
+    allowNull: false,
+  },
+
+  buyerEmail: {
+    type: DataTypes.STRING(255),
+    allowNull: true,
+    defaultValue: null,
+  },
+
+  buyerAddress: {
+    type: DataTypes.TEXT,
+    allowNull: true,
+    defaultValue: null,
+  },
+
+  buyerStateCode: {
+    type: DataTypes.STRING(2),
+    allowNull: true,
+    defaultValue: null,
+  },
+
+  placeOfSupply: {
+    type: DataTypes.STRING(2),
+    allowNull: false,
+  },
+
+  supplyType: {
+    type: DataTypes.STRING(20),
+    allowNull: false,
+    validate: {
+      isIn: {
+        args: [SUPPLY_TYPES as unknown as string[]],
+        msg: `Supply type must be one of: ${SUPPLY_TYPES.join(", ")}`,
+      },
+    },
+  },
+
+  sacCode: {
+    type: DataTypes.STRING(8),
+    allowNull: false,
+  },
+
+  description: {
+    type: DataTypes.STRING(255),
+    allowNull: false,
+  },
+
+  discountAmount: {
+    type: DataTypes.DECIMAL(10, 2),
+    allowNull: false,
+    defaultValue: 0.0,
+  },
+
+  taxableValue: {
+    type: DataTypes.DECIMAL(10, 2),
+    allowNull: false,
+  },
+
+  gstRate: {
+    type: DataTypes.DECIMAL(5, 2),
+    allowNull: false,
+  },
+
+  cgstAmount: {
+    type: DataTypes.DECIMAL(10, 2),
+    allowNull: false,
+    defaultValue: 0.0,
+  },
+
+  sgstAmount: {
+    type: DataTypes.DECIMAL(10, 2),
+    allowNull: false,
+    defaultValue: 0.0,
+  },
+
+  igstAmount: {
+    type: DataTypes.DECIMAL(10, 2),
+    allowNull: false,
+    defaultValue: 0.0,
+  },
+
+  totalAmount: {
+    type: DataTypes.DECIMAL(10, 2),
+    allowNull: false,
+  },
+
+  currency: {
+    type: DataTypes.STRING(3),
+    allowNull: false,
+    defaultValue: "INR",
+  },
+
+  // TS satisfaction for timestamps
+  createdAt: { type: DataTypes.DATE, allowNull: true },
+  updatedAt: { type: DataTypes.DATE, allowNull: true },
+} satisfies ModelAttributes<Invoice, InferCreationAttributes<Invoice>>;
+
+Invoice.init(invoiceAttributes, {
+  sequelize,
+  tableName: "invoices",
+  timestamps: true,
+  indexes: [
+    { name: "uniq_invoices_invoice_number", unique: true, fields: ["invoiceNumber"] },
+    { name: "uniq_invoices_order_id", unique: true, fields: ["orderId"] },
+    { name: "uniq_invoices_year_sequence", unique: true, fields: ["financialYear", "sequence"] },
+    { name: "idx_invoices_user_id", fields: ["userId"] },
+    { name: "idx_invoices_invoice_date", fields: ["invoiceDate"] },
+  ],
+});
+
+export default Invoice;
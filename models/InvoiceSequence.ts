@@ -0,0 +1,65 @@
+import {
+  DataTypes,
+  Model,
+  type CreationOptional,
+  type InferAttributes,
+  type InferCreationAttributes,
+  type ModelAttributes,
+} from "sequelize";
+import { sequelize } from "../utils/db.ts";
+
+/**
+ * InvoiceSequence model
+ * The last invoice number used in each financial year. The row is locked
+ * while an invoice is issued, in the same transaction, so numbers are
+ * handed out in order and a rolled-back invoice gives its number back.
+ */
+export class InvoiceSequence extends Model<
+  InferAttributes<InvoiceSequence>,
+  InferCreationAttributes<InvoiceSequence>
+> {
+  declare id: CreationOptional<number>;
+  declare financialYear: string;   // "2025-26"
+  declare lastNumber: CreationOptional<number>;
+
+  // Timestamps
+  declare createdAt: CreationOptional<Date>;
+  declare updatedAt: CreationOptional<Date>;
+}
+
+const invoiceSequenceAttributes = {
+  id: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    autoIncrement: true,
+    primaryKey: true,
+  },
+
+  financialYear: {
+    type: DataTypes.STRING(7),
+    allowNull: false,
+    validate: {
+      is: { args: /^[0-9]{4}-[0-9]{2}$/, msg: "Financial year must look like 2025-26" },
+    },
+  },
+
+  lastNumber: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: false,
+    defaultValue: 0,
+  },
+
+  // TS satisfaction for timestamps
+  createdAt: { type: DataTypes.DATE, allowNull: true },
+  updatedAt: { type: DataTypes.DATE, allowNull: true },
+} satisfies ModelAttributes<InvoiceSequence, InferCreationAttributes<InvoiceSequence>>;
+
+InvoiceSequence.init(invoiceSequenceAttributes, {
+  sequelize,
+  tableName: "invoice_sequences",
+  timestamps: true,
+  indexes: [
+    { name: "uniq_invoice_sequences_financial_year", unique: true, fields: ["financialYear"] },
+  ],
+});
+
+export default InvoiceSequence;
@@ -0,0 +1,88 @@
+import {
+  DataTypes,
+  Model,
+  type CreationOptional,
+  type InferAttributes,
+  type InferCreationAttributes,
+  type ModelAttributes,
+} from "sequelize";
+import { sequelize } from "../utils/db.ts";
+
+/**
+ * JournalEntry model
+ * Header of a balanced double-entry posting. The reference is the idempotency
+ * key: posting the same reference twice returns the original entry.
+ */
+export class JournalEntry extends Model<
+  InferAttributes<JournalEntry>,
+  InferCreationAttributes<JournalEntry>
+> {
+  declare id: CreationOptional<number>;
+  declare reference: string;
+  declare entryType: string; // Wallet transaction type for wallet postings, otherwise e.g. plan_purchase
+  declare description: string;
+  declare metadata: CreationOptional<Record<string, any> | null>;
+  declare postedBy: CreationOptional<number | null>; // Admin who posted a manual entry
+
+  // Timestamps
+  declare createdAt: CreationOptional<Date>;
+  declare updatedAt: CreationOptional<Date>;
+}
+
+const journalEntryAttributes = {
+  id: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    autoIncrement: true,
+    primaryKey: true,
+  },
+
+  reference: {
+    type: DataTypes.STRING(100),
+    allowNull: false,
+    unique: true,
+    validate: { notEmpty: { msg: "Reference is required" } },
+  },
+
+  entryType: {
+    type: DataTypes.STRING(30),
+    allowNull: false,
+  },
+
+  description: {
+    type: DataTypes.TEXT,
+    allowNull: false,
+    validate: { notEmpty: { msg: "Description is required" } },
+  },
+
+  metadata: {
+    type: DataTypes.JSON,
+    allowNull: true,
+    defaultValue: null,
+  },
+
+  postedBy: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: true,
+    defaultValue: null,
+    references: { model: "users", key: "id" },
+    onDelete: "SET NULL",
+    onUpdate: "CASCADE",
+  },
+
+  // TS satisfaction for timestamps
+  createdAt: { type: DataTypes.DATE, allowNull: true },
+  updatedAt: { type: DataTypes.DATE, allowNull: true },
+} satisfies ModelAttributes<JournalEntry, InferCreationAttributes<JournalEntry>>;
+
+JournalEntry.init(journalEntryAttributes, {
+  sequelize,
+  tableName: "journal_entries",
+  timestamps: true,
+  indexes: [
+    { name: "uniq_journal_entries_reference", unique: true, fields: ["reference"] },
+    { name: "idx_journal_entries_type", fields: ["entryType"] },
+    { name: "idx_journal_entries_created_at", fields: ["createdAt"] },
+  ],
+});
+
+export default JournalEntry;
@@ -0,0 +1,99 @@
+import {
+  DataTypes,
+  Model,
+  type CreationOptional,
+  type InferAttributes,
+  type InferCreationAttributes,
+  type ModelAttributes,
+} from "sequelize";
+import { sequelize } from "../utils/db.ts";
+
+/**
+ * JournalLine model
+ * A single debit or credit against one ledger account. The lines of an entry
+ * always sum to zero (total debits == total credits).
+ */
+export class JournalLine extends Model<
+  InferAttributes<JournalLine>,
+  InferCreationAttributes<JournalLine>
+> {
+  declare id: CreationOptional<number>;
+  declare journalEntryId: number;
+  declare accountId: number;
+  declare debit: CreationOptional<number>;
+  declare credit: CreationOptional<number>;
+  declare memo: CreationOptional<string | null>;
+
+  // Timestamps
+  declare createdAt: CreationOptional<Date>;
+  declare updatedAt: CreationOptional<Date>;
+
+  toJSON() {
+    const data = this.get();
+    return {
+      ...data,
+      debit: Number(data.debit),
+      credit: Number(data.credit),
+    };
+  }
+}
+
+const journalLineAttributes = {
+  id: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    autoIncrement: true,
+    primaryKey: true,
+  },
+
+  journalEntryId: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: false,
+    references: { model: "journal_entries", key: "id" },
+    onDelete: "CASCADE",
+    onUpdate: "CASCADE",
+  },
+
+  accountId: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: false,
+    references: { model: "ledger_accounts", key: "id" },
+    onDelete: "RESTRICT",
+    onUpdate: "CASCADE",
+  },
+
+  debit: {
+    type: DataTypes.DECIMAL(14, 2),
+    allowNull: false,
+    defaultValue: 0.0,
+    validate: { min: { args: [0], msg: "Debit cannot be negative" } },
+  },
+
+  credit: {
+    type: DataTypes.DECIMAL(14, 2),
+    allowNull: false,
+    defaultValue: 0.0,
+    validate: { min: { args: [0], msg: "Credit cannot be negative" } },
+  },
+
+  memo: {
+    type: DataTypes.STRING(255),
+    allowNull: true,
+    defaultValue: null,
+  },
+
+  // TS satisfaction for timestamps
+  createdAt: { type: DataTypes.DATE, allowNull: true },
+  updatedAt: { type: DataTypes.DATE, allowNull: true },
+} satisfies ModelAttributes<JournalLine, InferCreationAttributes<JournalLine>>;
+
+JournalLine.init(journalLineAttributes, {
+  sequelize,
+  tableName: "journal_lines",
+  timestamps: true,
+  indexes: [
+    { name: "idx_journal_lines_entry_id", fields: ["journalEntryId"] },
+    { name: "idx_journal_lines_account_id", fields: ["accountId"] },
+  ],
+});
+
+export default JournalLine;
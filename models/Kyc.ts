@@ -7,6 +7,7 @@ import {
   ModelAttributes,
 } from "sequelize";
 import { sequelize } from "../utils/db.ts";
+import { GST_STATE_CODES } from "../utils/gst.ts";
 
 export class Kyc extends Model<
   InferAttributes<Kyc>,
@@ -28,6 +29,7 @@ export class Kyc extends Model<
   // Address Details
   declare address: CreationOptional<string | null>;
   declare pincode: CreationOptional<string | null>;
+  declare stateCode: CreationOptional<string | null>; // GST state code, for the place of supply on invoices
   
   // Document Images
   declare parentImage: CreationOptional<string | null>;
@@ -121,6 +123,18 @@ const kycAttributes = {
       is: /^[0-9]{6}$/, // 6-digit pincode validation
     },
   },
+
+  stateCode: {
+    type: DataTypes.STRING(2),
+    allowNull: true,
+    defaultValue: null,
+    validate: {
+      isIn: {
+        args: [GST_STATE_CODES],
+        msg: "State code must be a valid GST state code",
+      },
+    },
+  },
   
   // Document Images
   parentImage: {
@@ -0,0 +1,114 @@
+import {
+  DataTypes,
+  Model,
+  type CreationOptional,
+  type InferAttributes,
+  type InferCreationAttributes,
+  type ModelAttributes,
+} from "sequelize";
+import { sequelize } from "../utils/db.ts";
+
+/**
+ * Ledger account types (standard double-entry classification)
+ */
+export const LEDGER_ACCOUNT_TYPES = [
+  "asset",
+  "liability",
+  "equity",
+  "revenue",
+  "expense"
+] as const;
+
+export type LedgerAccountType = (typeof LEDGER_ACCOUNT_TYPES)[number];
+
+/**
+ * LedgerAccount model
+ * One row per account in the chart of accounts. User wallets are liability
+ * accounts (the company owes the member), everything else is a system account.
+ */
+export class LedgerAccount extends Model<
+  InferAttributes<LedgerAccount>,
+  InferCreationAttributes<LedgerAccount>
+> {
+  declare id: CreationOptional<number>;
+  declare code: string;
+  declare name: string;
+  declare type: LedgerAccountType;
+  declare userId: CreationOptional<number | null>; // Set for user wallet accounts
+  declare isSystem: CreationOptional<boolean>;
+
+  // Timestamps
+  declare createdAt: CreationOptional<Date>;
+  declare updatedAt: CreationOptional<Date>;
+
+  /**
+   * Debit-normal accounts grow with debits, credit-normal accounts with credits
+   */
+  isDebitNormal() {
+    return this.type === 'asset' || this.type === 'expense';
+  }
+}
+
+const ledgerAccountAttributes = {
+  id: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    autoIncrement: true,
+    primaryKey: true,
+  },
+
+  code: {
+    type: DataTypes.STRING(50),
+    allowNull: false,
+    unique: true,
+    validate: { notEmpty: { msg: "Account code is required" } },
+  },
+
+  name: {
+    type: DataTypes.STRING(150),
+    allowNull: false,
+    validate: { notEmpty: { msg: "Account name is required" } },
+  },
+
+  type: {
+    type: DataTypes.STRING(20),
+    allowNull: false,
+    validate: {
+      isIn: {
+        args: [LEDGER_ACCOUNT_TYPES as unknown as string[]],
+        msg: `Type must be one of: ${LEDGER_ACCOUNT_TYPES.join(", ")}`,
+      },
+    },
+  },
+
+  userId: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: true,
+    defaultValue: null,
+    references: { model: "users", key: "id" },
+    onDelete: "CASCADE",
+    onUpdate: "CASCADE",
+  },
+
+  isSystem: {
+    type: DataTypes.BOOLEAN,
+    allowNull: false,
+    defaultValue: false,
+  },
+
+  // TS satisfaction for timestamps
+  createdAt: { type: DataTypes.DATE, allowNull: true },
+  updatedAt: { type: DataTypes.DATE, allowNull: true },
+} satisfies ModelAttributes<LedgerAccount, InferCreationAttributes<LedgerAccount>>;
+
+LedgerAccount.init(ledgerAccountAttributes, {
+  sequelize,
+  tableName: "ledger_accounts",
+  timestamps: true,
+  indexes: [
+    { name: "uniq_ledger_accounts_code", unique: true, fields: ["code"] },
+    { name: "idx_ledger_accounts_user_id", fields: ["userId"] },
+    { name: "idx_ledger_accounts_type", fields: ["type"] },
+  ],
+});
+
+export default LedgerAccount;
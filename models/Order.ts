@@ -0,0 +1,226 @@
+import {
+  DataTypes,
+  Model,
+  type CreationOptional,
+  type InferAttributes,
+  type InferCreationAttributes,
+  type ModelAttributes,
+} from "sequelize";
+import { sequelize } from "../utils/db.ts";
+
+/**
+ * Plan purchase order lifecycle
+ *  - created:   purchase started (plan request without payment details, gateway checkout)
+ *  - paid:      member reports having paid (UTR / reference submitted)
+ *  - verified:  the money was seen (statement match, gateway webhook, admin check)
+ *  - activated: approved; the member is activated and the sponsor bonus and BV went out
+ *  - refunded:  money returned after activation
+ *  - cancelled: rejected or withdrawn before activation
+ */
+export const ORDER_STATUSES = [
+  "created",
+  "paid",
+  "verified",
+  "activated",
+  "refunded",
+  "cancelled"
+] as const;
+
+export type OrderStatus = (typeof ORDER_STATUSES)[number];
+
+/**
+ * What the order buys
+ *  - purchase: a member's first plan (or their first after a refund)
+ *  - upgrade:  a higher plan, charged the price difference
+ *  - renewal:  the plan the member holds again, extending its validity
+ */
+export const ORDER_KINDS = ["purchase", "upgrade", "renewal"] as const;
+
+export type OrderKind = (typeof ORDER_KINDS)[number];
+
+/**
+ * Allowed moves between statuses. A cancelled order can be reopened (or
+ * approved outright) when a rejected payment is reconsidered; activation
+ * and refund are final.
+ */
+export const ORDER_TRANSITIONS: Record<OrderStatus, readonly OrderStatus[]> = {
+  created: ["paid", "verified", "activated", "cancelled"],
+  paid: ["verified", "activated", "cancelled"],
+  verified: ["paid", "activated", "cancelled"],
+  activated: ["refunded"],
+  refunded: [],
+  cancelled: ["created", "paid", "verified", "activated"]
+};
+
+/**
+ * Order model
+ * One plan purchase. Payments and plan requests for the purchase point at
+ * it; activation side effects (account activation, sponsor bonus, BV) hang
+ * off its move to `activated`, which can only happen once.
+ */
+export class Order extends Model<
+  InferAttributes<Order>,
+  InferCreationAttributes<Order>
+> {
+  declare id: CreationOptional<number>;
+  declare userId: number;
+  declare planId: number;
+  declare kind: CreationOptional<OrderKind>;
+  declare fromPlanId: CreationOptional<number | null>; // Plan held when an upgrade was ordered
+  declare amount: number;
+  declare discountAmount: CreationOptional<number>;   // Coupon discount off the list price
+  declare currency: CreationOptional<string>;
+  declare status: CreationOptional<OrderStatus>;
+  declare paidAt: CreationOptional<Date | null>;
+  declare verifiedAt: CreationOptional<Date | null>;
+  declare activatedAt: CreationOptional<Date | null>;
+  declare activatedBy: CreationOptional<number | null>;
+  declare refundedAt: CreationOptional<Date | null>;
+  declare cancelledAt: CreationOptional<Date | null>;
+
+  // Timestamps
+  declare createdAt: CreationOptional<Date>;
+  declare updatedAt: CreationOptional<Date>;
+
+  canMoveTo(status: OrderStatus) {
+    return ORDER_TRANSITIONS[this.status as OrderStatus].includes(status);
+  }
+
+  toJSON() {
+    const data = this.get();
+    return {
+      ...data,
+      amount: Number(data.amount),
+      discountAmount: Number(data.discountAmount),
+    };
+  }
+}
+
+const orderAttributes = {
+  id: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    autoIncrement: true,
+    primaryKey: true,
+  },
+
+  userId: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: false,
+    references: { model: "users", key: "id" },
+    onDelete: "CASCADE",
+    onUpdate: "CASCADE",
+  },
+
+  planId: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: false,
+    references: { model: "plans", key: "id" },
+    onDelete: "RESTRICT",
+    onUpdate: "CASCADE",
+  },
+
+  kind: {
+    type: DataTypes.STRING(20),
+    allowNull: false,
+    defaultValue: "purchase",
+    validate: {
+      isIn: {
+        args: [ORDER_KINDS as unknown as string[]],
+        msg: `Kind must be one of: ${ORDER_KINDS.join(", ")}`,
+      },
+    },
+  },
+
+  fromPlanId: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: true,
+    defaultValue: null,
+    references: { model: "plans", key: "id" },
+    onDelete: "SET NULL",
+    onUpdate: "CASCADE",
+  },
+
+  amount: {
+    type: DataTypes.DECIMAL(10, 2),
+    allowNull: false,
+  },
+
+  discountAmount: {
+    type: DataTypes.DECIMAL(10, 2),
+    allowNull: false,
+    defaultValue: 0,
+  },
+
+  currency: {
+    type: DataTypes.STRING(3),
+    allowNull: false,
+    defaultValue: "INR",
+  },
+
+  status: {
+    type: DataTypes.STRING(20),
+    allowNull: false,
+    defaultValue: "created",
+    validate: {
+      isIn: {
+        args: [ORDER_STATUSES as unknown as string[]],
+        msg: `Status must be one of: ${ORDER_STATUSES.join(", ")}`,
+      },
+    },
+  },
+
+  paidAt: {
+    type: DataTypes.DATE,
+    allowNull: true,
+    defaultValue: null,
+  },
+
+  verifiedAt: {
+    type: DataTypes.DATE,
+    allowNull: true,
+    defaultValue: null,
+  },
+
+  activatedAt: {
+    type: DataTypes.DATE,
+    allowNull: true,
+    defaultValue: null,
+  },
+
+  activatedBy: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: true,
+    defaultValue: null,
+    references: { model: "users", key: "id" },
+    onDelete: "SET NULL",
+    onUpdate: "CASCADE",
+  },
+
+  refundedAt: {
+    type: DataTypes.DATE,
+    allowNull: true,
+    defaultValue: null,
+  },
+
+  cancelledAt: {
+    type: DataTypes.DATE,
+    allowNull: true,
+    defaultValue: null,
+  },
+
+  // TS satisfaction for timestamps
+  createdAt: { type: DataTypes.DATE, allowNull: true },
+  updatedAt: { type: DataTypes.DATE, allowNull: true },
+} satisfies ModelAttributes<Order, InferCreationAttributes<Order>>;
+
+Order.init(orderAttributes, {
+  sequelize,
+  tableName: "orders",
+  timestamps: true,
+  indexes: [
+    { name: "idx_orders_user_plan_status", fields: ["userId", "planId", "status"] },
+    { name: "idx_orders_status", fields: ["status"] },
+  ],
+});
+
+export default Order;
@@ -0,0 +1,94 @@
+import {
+  DataTypes,
+  Model,
+  type CreationOptional,
+  type InferAttributes,
+  type InferCreationAttributes,
+  type ModelAttributes,
+} from "sequelize";
+import { sequelize } from "../utils/db.ts";
+import { ORDER_STATUSES, type OrderStatus } from "./Order.ts";
+
+/**
+ * OrderEvent model
+ * Audit trail of an order's status changes: who moved it, from where to
+ * where, and why.
+ */
+export class OrderEvent extends Model<
+  InferAttributes<OrderEvent>,
+  InferCreationAttributes<OrderEvent>
+> {
+  declare id: CreationOptional<number>;
+  declare orderId: number;
+  declare fromStatus: CreationOptional<OrderStatus | null>;
+  declare toStatus: OrderStatus;
+  declare actorId: CreationOptional<number | null>;
+  declare note: CreationOptional<string | null>;
+
+  // Timestamps
+  declare createdAt: CreationOptional<Date>;
+  declare updatedAt: CreationOptional<Date>;
+}
+
+const orderEventAttributes = {
+  id: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    autoIncrement: true,
+    primaryKey: true,
+  },
+
+  orderId: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: false,
+    references: { model: "orders", key: "id" },
+    onDelete: "CASCADE",
+    onUpdate: "CASCADE",
+  },
+
+  fromStatus: {
+    type: DataTypes.STRING(20),
+    allowNull: true,
+    defaultValue: null,
+  },
+
+  toStatus: {
+    type: DataTypes.STRING(20),
+    allowNull: false,
+    validate: {
+      isIn: {
+        args: [ORDER_STATUSES as unknown as string[]],
+        msg: `Status must be one of: ${ORDER_STATUSES.join(", ")}`,
+      },
+    },
+  },
+
+  actorId: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: true,
+    defaultValue: null,
+    references: { model: "users", key: "id" },
+    onDelete: "SET NULL",
+    onUpdate: "CASCADE",
+  },
+
+  note: {
+    type: DataTypes.TEXT,
+    allowNull: true,
+    defaultValue: null,
+  },
+
+  // TS satisfaction for timestamps
+  createdAt: { type: DataTypes.DATE, allowNull: true },
+  updatedAt: { type: DataTypes.DATE, allowNull: true },
+} satisfies ModelAttributes<OrderEvent, InferCreationAttributes<OrderEvent>>;
+
+OrderEvent.init(orderEventAttributes, {
+  sequelize,
+  tableName: "order_events",
+  timestamps: true,
+  indexes: [
+    { name: "idx_order_events_order_id", fields: ["orderId"] },
+  ],
+});
+
+export default OrderEvent;
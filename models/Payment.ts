@@ -16,6 +16,7 @@ export const PAYMENT_STATUSES = [
   "verified",
   "approved",
   "rejected",
+  "refunded",
 ] as const;
 
 export type PaymentStatus = (typeof PAYMENT_STATUSES)[number];
@@ -27,7 +28,10 @@ export class Payment extends Model<
   declare id: CreationOptional<number>;
   declare userId: number;
   declare planId: number;
+  declare orderId: CreationOptional<number | null>;
   declare amount: number;
+  declare couponId: CreationOptional<number | null>;
+  declare discountAmount: CreationOptional<number>;   // Coupon discount off the list price
   declare currency: string;
   declare utrNumber: string;
   declare paymentMethod: string;
@@ -36,6 +40,7 @@ export class Payment extends Model<
   declare verifiedAt: CreationOptional<Date | null>;
   declare approvedAt: CreationOptional<Date | null>;
   declare rejectedAt: CreationOptional<Date | null>;
+  declare refundedAt: CreationOptional<Date | null>;
   
   // Timestamps
   declare createdAt: CreationOptional<Date>;
@@ -58,6 +63,10 @@ export class Payment extends Model<
     return this.status === 'rejected';
   }
 
+  isRefunded() {
+    return this.status === 'refunded';
+  }
+
   toJSON() {
     const data = this.get();
     return {
@@ -66,6 +75,7 @@ export class Payment extends Model<
       isVerified: this.isVerified(),
       isApproved: this.isApproved(),
       isRejected: this.isRejected(),
+      isRefunded: this.isRefunded(),
     };
   }
 }
@@ -91,6 +101,18 @@ const paymentAttributes = {
     }
   },
 
+  orderId: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: true,
+    defaultValue: null,
+    references: {
+      model: 'orders',
+      key: 'id'
+    },
+    onDelete: 'SET NULL',
+    onUpdate: 'CASCADE'
+  },
+
   amount: {
     type: DataTypes.DECIMAL(10, 2),
     allowNull: false,
@@ -100,6 +122,24 @@ const paymentAttributes = {
     },
   },
 
+  couponId: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: true,
+    defaultValue: null,
+    references: {
+      model: 'coupons',
+      key: 'id'
+    },
+    onDelete: 'SET NULL',
+    onUpdate: 'CASCADE'
+  },
+
+  discountAmount: {
+    type: DataTypes.DECIMAL(10, 2),
+    allowNull: false,
+    defaultValue: 0,
+  },
+
   currency: {
     type: DataTypes.STRING(3),
     allowNull: false,
@@ -127,8 +167,8 @@ const paymentAttributes = {
     defaultValue: "UPI",
     validate: {
       isIn: {
-        args: [["UPI", "BANK_TRANSFER", "CASH"]],
-        msg: "Payment method must be UPI, BANK_TRANSFER, or CASH",
+        args: [["UPI", "BANK_TRANSFER", "CASH", "GATEWAY"]],
+        msg: "Payment method must be UPI, BANK_TRANSFER, CASH, or GATEWAY",
       },
     },
   },
@@ -169,6 +209,12 @@ const paymentAttributes = {
     defaultValue: null,
   },
 
+  refundedAt: {
+    type: DataTypes.DATE,
+    allowNull: true,
+    defaultValue: null,
+  },
+
   // TS satisfaction for timestamps
   createdAt: { type: DataTypes.DATE, allowNull: true },
   updatedAt: { type: DataTypes.DATE, allowNull: true },
@@ -202,10 +248,16 @@ Payment.init(paymentAttributes, {
         status: "rejected",
       },
     },
+    refunded: {
+      where: {
+        status: "refunded",
+      },
+    },
   },
   indexes: [
     { name: "idx_payments_user_id", fields: ["userId"] },
     { name: "idx_payments_plan_id", fields: ["planId"] },
+    { name: "idx_payments_order_id", fields: ["orderId"] },
     { name: "idx_payments_status", fields: ["status"] },
     { name: "idx_payments_utr", fields: ["utrNumber"] },
     { name: "idx_payments_created_at", fields: ["createdAt"] },
@@ -234,6 +286,9 @@ Payment.beforeUpdate((payment) => {
       case 'rejected':
         payment.rejectedAt = now;
         break;
+      case 'refunded':
+        payment.refundedAt = now;
+        break;
     }
   }
 });
@@ -0,0 +1,176 @@
+import {
+  DataTypes,
+  Model,
+  type CreationOptional,
+  type InferAttributes,
+  type InferCreationAttributes,
+  type ModelAttributes,
+} from "sequelize";
+import { sequelize } from "../utils/db.ts";
+
+/**
+ * Bank transfer rails a batch is paid over
+ */
+export const PAYOUT_MODES = ["NEFT", "IMPS"] as const;
+
+export type PayoutMode = (typeof PAYOUT_MODES)[number];
+
+/**
+ * Layouts of the bulk upload file
+ *  - csv:         one comma-separated row per transfer, with a header
+ *  - fixed_width: one padded line per transfer, no header
+ */
+export const PAYOUT_FILE_FORMATS = ["csv", "fixed_width"] as const;
+
+export type PayoutFileFormat = (typeof PAYOUT_FILE_FORMATS)[number];
+
+/**
+ * Batch lifecycle
+ *  - generated:          withdrawals are processing; waiting for the bank's response
+ *  - partially_settled:  a response settled some transfers, others are still open
+ *  - settled:            every transfer is completed or failed
+ */
+export const PAYOUT_BATCH_STATUSES = ["generated", "partially_settled", "settled"] as const;
+
+export type PayoutBatchStatus = (typeof PAYOUT_BATCH_STATUSES)[number];
+
+/**
+ * PayoutBatch model
+ * Approved withdrawals collected into one bank bulk-transfer upload. The
+ * file is built from the batch's items whenever it is downloaded.
+ */
+export class PayoutBatch extends Model<
+  InferAttributes<PayoutBatch>,
+  InferCreationAttributes<PayoutBatch>
+> {
+  declare id: CreationOptional<number>;
+  declare mode: PayoutMode;
+  declare fileFormat: PayoutFileFormat;
+  declare status: CreationOptional<PayoutBatchStatus>;
+  declare debitAccountNumber: string;       // Company account the transfers are paid from
+  declare itemCount: CreationOptional<number>;
+  declare totalAmount: CreationOptional<number>;   // Net of TDS; what leaves the bank
+  declare completedCount: CreationOptional<number>;
+  declare failedCount: CreationOptional<number>;
+  declare createdBy: number;
+  declare responseFileName: CreationOptional<string | null>;  // Last response file imported
+  declare settledAt: CreationOptional<Date | null>;
+
+  // Timestamps
+  declare createdAt: CreationOptional<Date>;
+  declare updatedAt: CreationOptional<Date>;
+
+  toJSON() {
+    const data = this.get();
+    return {
+      ...data,
+      totalAmount: Number(data.totalAmount),
+    };
+  }
+}
+
+const payoutBatchAttributes = {
+  id: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    autoIncrement: true,
+    primaryKey: true,
+  },
+
+  mode: {
+    type: DataTypes.STRING(10),
+    allowNull: false,
+    validate: {
+      isIn: {
+        args: [PAYOUT_MODES as unknown as string[]],
+        msg: `Mode must be one of: ${PAYOUT_MODES.join(", ")}`,
+      },
+    },
+  },
+
+  fileFormat: {
+    type: DataTypes.STRING(20),
+    allowNull: false,
+    validate: {
+      isIn: {
+        args: [PAYOUT_FILE_FORMATS as unknown as string[]],
+        msg: `File format must be one of: ${PAYOUT_FILE_FORMATS.join(", ")}`,
+      },
+    },
+  },
+
+  status: {
+    type: DataTypes.STRING(20),
+    allowNull: false,
+    defaultValue: "generated",
+    validate: {
+      isIn: {
+        args: [PAYOUT_BATCH_STATUSES as unknown as string[]],
+        msg: `Status must be one of: ${PAYOUT_BATCH_STATUSES.join(", ")}`,
+      },
+    },
+  },
+
+  debitAccountNumber: {
+    type: DataTypes.STRING(20),
+    allowNull: false,
+  },
+
+  itemCount: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: false,
+    defaultValue: 0,
+  },
+
+  totalAmount: {
+    type: DataTypes.DECIMAL(14, 2),
+    allowNull: false,
+    defaultValue: 0.0,
+  },
+
+  completedCount: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: false,
+    defaultValue: 0,
+  },
+
+  failedCount: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: false,
+    defaultValue: 0,
+  },
+
+  createdBy: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: false,
+    references: { model: "users", key: "id" },
+    onDelete: "RESTRICT",
+    onUpdate: "CASCADE",
+  },
+
+  responseFileName: {
+    type: DataTypes.STRING(255),
+    allowNull: true,
+    defaultValue: null,
+  },
+
+  settledAt: {
+    type: DataTypes.DATE,
+    allowNull: true,
+    defaultValue: null,
+  },
+
+  // TS satisfaction for timestamps
+  createdAt: { type: DataTypes.DATE, allowNull: true },
+  updatedAt: { type: DataTypes.DATE, allowNull: true },
+} satisfies ModelAttributes<PayoutBatch, InferCreationAttributes<PayoutBatch>>;
+
+PayoutBatch.init(payoutBatchAttributes, {
+  sequelize,
+  tableName: "payout_batches",
+  timestamps: true,
+  indexes: [
+    { name: "idx_payout_batches_status", fields: ["status"] },
+  ],
+});
+
+export default PayoutBatch;
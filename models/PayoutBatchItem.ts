@@ -0,0 +1,173 @@
+import {
+  DataTypes,
+  Model,
+  type CreationOptional,
+  type InferAttributes,
+  type InferCreationAttributes,
+  type ModelAttributes,
+} from "sequelize";
+import { sequelize } from "../utils/db.ts";
+
+/**
+ * Outcome of one transfer, as reported by the bank
+ */
+export const PAYOUT_ITEM_STATUSES = ["pending", "completed", "failed"] as const;
+
+export type PayoutItemStatus = (typeof PAYOUT_ITEM_STATUSES)[number];
+
+/**
+ * PayoutBatchItem model
+ * One withdrawal's transfer within a payout batch. Beneficiary details are
+ * copied from the withdrawal so the file doesn't change if KYC does.
+ */
+export class PayoutBatchItem extends Model<
+  InferAttributes<PayoutBatchItem>,
+  InferCreationAttributes<PayoutBatchItem>
+> {
+  declare id: CreationOptional<number>;
+  declare batchId: number;
+  declare withdrawalId: number;
+  declare userId: number;
+  declare paymentReference: string;   // Our reference on the bank file, e.g. "WD00000123"
+  declare beneficiaryName: string;
+  declare accountNumber: string;
+  declare ifscCode: string;
+  declare bankName: CreationOptional<string | null>;
+  declare amount: number;             // Net of TDS
+  declare tdsAmount: CreationOptional<number>;
+  declare status: CreationOptional<PayoutItemStatus>;
+  declare utr: CreationOptional<string | null>;
+  declare failureReason: CreationOptional<string | null>;
+  declare settledAt: CreationOptional<Date | null>;
+
+  // Timestamps
+  declare createdAt: CreationOptional<Date>;
+  declare updatedAt: CreationOptional<Date>;
+
+  toJSON() {
+    const data = this.get();
+    return {
+      ...data,
+      amount: Number(data.amount),
+      tdsAmount: Number(data.tdsAmount),
+    };
+  }
+}
+
+const payoutBatchItemAttributes = {
+  id: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    autoIncrement: true,
+    primaryKey: true,
+  },
+
+  batchId: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: false,
+    references: { model: "payout_batches", key: "id" },
+    onDelete: "CASCADE",
+    onUpdate: "CASCADE",
+  },
+
+  withdrawalId: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: false,
+    references: { model: "withdrawals", key: "id" },
+    onDelete: "RESTRICT",
+    onUpdate: "CASCADE",
+  },
+
+  userId: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: false,
+    references: { model: "users", key: "id" },
+    onDelete: "RESTRICT",
+    onUpdate: "CASCADE",
+  },
+
+  paymentReference: {
+    type: DataTypes.STRING(20),
+    allowNull: false,
+  },
+
+  beneficiaryName: {
+    type: DataTypes.STRING(100),
+    allowNull: false,
+  },
+
+  accountNumber: {
+    type: DataTypes.STRING(20),
+    allowNull: false,
+  },
+
+  ifscCode: {
+    type: DataTypes.STRING(11),
+    allowNull: false,
+  },
+
+  bankName: {
+    type: DataTypes.STRING(100),
+    allowNull: true,
+    defaultValue: null,
+  },
+
+  amount: {
+    type: DataTypes.DECIMAL(12, 2),
+    allowNull: false,
+    validate: { min: { args: [0.01], msg: "Amount must be greater than 0" } },
+  },
+
+  tdsAmount: {
+    type: DataTypes.DECIMAL(12, 2),
+    allowNull: false,
+    defaultValue: 0.0,
+  },
+
+  status: {
+    type: DataTypes.STRING(20),
+    allowNull: false,
+    defaultValue: "pending",
+    validate: {
+      isIn: {
+        args: [PAYOUT_ITEM_STATUSES as unknown as string[]],
+        msg: `Status must be one of: ${PAYOUT_ITEM_STATUSES.join(", ")}`,
+      },
+    },
+  },
+
+  utr: {
+    type: DataTypes.STRING(50),
+    allowNull: true,
+    defaultValue: null,
+  },
+
+  failureReason: {
+    type: DataTypes.STRING(255),
+    allowNull: true,
+    defaultValue: null,
+  },
+
+  settledAt: {
+    type: DataTypes.DATE,
+    allowNull: true,
+    defaultValue: null,
+  },
+
+  // TS satisfaction for timestamps
+  createdAt: { type: DataTypes.DATE, allowNull: true },
+  updatedAt: { type: DataTypes.DATE, allowNull: true },
+} satisfies ModelAttributes<PayoutBatchItem, InferCreationAttributes<PayoutBatchItem>>;
+
+PayoutBatchItem.init(payoutBatchItemAttributes, {
+  sequelize,
+  tableName: "payout_batch_items",
+  timestamps: true,
+  indexes: [
+    // A withdrawal is paid through one batch only
+    { name: "uniq_payout_batch_items_withdrawal", unique: true, fields: ["withdrawalId"] },
+    { name: "uniq_payout_batch_items_reference", unique: true, fields: ["paymentReference"] },
+    { name: "idx_payout_batch_items_batch_status", fields: ["batchId", "status"] },
+  ],
+});
+
+export default PayoutBatchItem;
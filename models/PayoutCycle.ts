@@ -0,0 +1,209 @@
+import {
+  DataTypes,
+  Model,
+  type CreationOptional,
+  type InferAttributes,
+  type InferCreationAttributes,
+  type ModelAttributes,
+} from "sequelize";
+import { sequelize } from "../utils/db.ts";
+
+/**
+ * Payout cycle lifecycle
+ *  - pending_review: matching previewed, nothing posted yet
+ *  - posting:        approved, payouts being posted to wallets
+ *  - posted:         every item processed
+ *  - rejected:       discarded by an admin; carry is left for the next cycle
+ */
+export const PAYOUT_CYCLE_STATUSES = [
+  "pending_review",
+  "posting",
+  "posted",
+  "rejected"
+] as const;
+
+export type PayoutCycleStatus = (typeof PAYOUT_CYCLE_STATUSES)[number];
+
+export const PAYOUT_CYCLE_TRIGGERS = [
+  "schedule",
+  "manual"
+] as const;
+
+export type PayoutCycleTrigger = (typeof PAYOUT_CYCLE_TRIGGERS)[number];
+
+/**
+ * PayoutCycle model
+ * One batch run of binary matching. The cycle previews what every member
+ * with pending carry would earn; payouts only reach wallets once an admin
+ * approves it.
+ */
+export class PayoutCycle extends Model<
+  InferAttributes<PayoutCycle>,
+  InferCreationAttributes<PayoutCycle>
+> {
+  declare id: CreationOptional<number>;
+  declare status: CreationOptional<PayoutCycleStatus>;
+  declare triggeredBy: PayoutCycleTrigger;
+  declare createdBy: CreationOptional<number | null>;
+  declare usersChecked: CreationOptional<number>;
+  declare itemCount: CreationOptional<number>;
+  declare totalPairs: CreationOptional<number>;
+  declare totalMatchedBv: CreationOptional<number>;
+  declare totalBonus: CreationOptional<number>;      // Previewed payout
+  declare totalCapped: CreationOptional<number>;     // Previewed income held back by caps
+  declare postedBonus: CreationOptional<number>;     // Actually credited when posted
+  declare failedCount: CreationOptional<number>;
+  declare notes: CreationOptional<string | null>;
+  declare reviewedBy: CreationOptional<number | null>;
+  declare reviewedAt: CreationOptional<Date | null>;
+  declare postedAt: CreationOptional<Date | null>;
+
+  // Timestamps
+  declare createdAt: CreationOptional<Date>;
+  declare updatedAt: CreationOptional<Date>;
+
+  toJSON() {
+    const data = this.get();
+    return {
+      ...data,
+      totalMatchedBv: Number(data.totalMatchedBv),
+      totalBonus: Number(data.totalBonus),
+      totalCapped: Number(data.totalCapped),
+      postedBonus: Number(data.postedBonus),
+    };
+  }
+}
+
+const payoutCycleAttributes = {
+  id: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    autoIncrement: true,
+    primaryKey: true,
+  },
+
+  status: {
+    type: DataTypes.STRING(20),
+    allowNull: false,
+    defaultValue: "pending_review",
+    validate: {
+      isIn: {
+        args: [PAYOUT_CYCLE_STATUSES as unknown as string[]],
+        msg: `Status must be one of: ${PAYOUT_CYCLE_STATUSES.join(", ")}`,
+      },
+    },
+  },
+
+  triggeredBy: {
+    type: DataTypes.STRING(20),
+    allowNull: false,
+    validate: {
+      isIn: {
+        args: [PAYOUT_CYCLE_TRIGGERS as unknown as string[]],
+        msg: `Trigger must be one of: ${PAYOUT_CYCLE_TRIGGERS.join(", ")}`,
+      },
+    },
+  },
+
+  createdBy: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: true,
+    defaultValue: null,
+    references: { model: "users", key: "id" },
+    onDelete: "SET NULL",
+    onUpdate: "CASCADE",
+  },
+
+  usersChecked: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: false,
+    defaultValue: 0,
+  },
+
+  itemCount: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: false,
+    defaultValue: 0,
+  },
+
+  totalPairs: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: false,
+    defaultValue: 0,
+  },
+
+  totalMatchedBv: {
+    type: DataTypes.DECIMAL(14, 2),
+    allowNull: false,
+    defaultValue: 0.0,
+  },
+
+  totalBonus: {
+    type: DataTypes.DECIMAL(14, 2),
+    allowNull: false,
+    defaultValue: 0.0,
+  },
+
+  totalCapped: {
+    type: DataTypes.DECIMAL(14, 2),
+    allowNull: false,
+    defaultValue: 0.0,
+  },
+
+  postedBonus: {
+    type: DataTypes.DECIMAL(14, 2),
+    allowNull: false,
+    defaultValue: 0.0,
+  },
+
+  failedCount: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: false,
+    defaultValue: 0,
+  },
+
+  notes: {
+    type: DataTypes.TEXT,
+    allowNull: true,
+    defaultValue: null,
+  },
+
+  reviewedBy: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: true,
+    defaultValue: null,
+    references: { model: "users", key: "id" },
+    onDelete: "SET NULL",
+    onUpdate: "CASCADE",
+  },
+
+  reviewedAt: {
+    type: DataTypes.DATE,
+    allowNull: true,
+    defaultValue: null,
+  },
+
+  postedAt: {
+    type: DataTypes.DATE,
+    allowNull: true,
+    defaultValue: null,
+  },
+
+  // TS satisfaction for timestamps
+  createdAt: { type: DataTypes.DATE, allowNull: true },
+  updatedAt: { type: DataTypes.DATE, allowNull: true },
+} satisfies ModelAttributes<PayoutCycle, InferCreationAttributes<PayoutCycle>>;
+
+PayoutCycle.init(payoutCycleAttributes, {
+  sequelize,
+  tableName: "payout_cycles",
+  timestamps: true,
+  defaultScope: {
+    order: [["createdAt", "DESC"]],
+  },
+  indexes: [
+    { name: "idx_payout_cycles_status", fields: ["status"] },
+    { name: "idx_payout_cycles_created_at", fields: ["createdAt"] },
+  ],
+});
+
+export default PayoutCycle;
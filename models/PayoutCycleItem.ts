@@ -0,0 +1,204 @@
+import {
+  DataTypes,
+  Model,
+  type CreationOptional,
+  type InferAttributes,
+  type InferCreationAttributes,
+  type ModelAttributes,
+} from "sequelize";
+import { sequelize } from "../utils/db.ts";
+
+/**
+ * Payout cycle item statuses
+ */
+export const PAYOUT_CYCLE_ITEM_STATUSES = [
+  "pending",
+  "posted",
+  "skipped",   // Carry fell below the reviewed match by the time the cycle posted
+  "failed",
+  "rejected"
+] as const;
+
+export type PayoutCycleItemStatus = (typeof PAYOUT_CYCLE_ITEM_STATUSES)[number];
+
+/**
+ * PayoutCycleItem model
+ * A member's previewed match in a payout cycle and, once posted, the
+ * match and wallet transaction it actually produced.
+ */
+export class PayoutCycleItem extends Model<
+  InferAttributes<PayoutCycleItem>,
+  InferCreationAttributes<PayoutCycleItem>
+> {
+  declare id: CreationOptional<number>;
+  declare payoutCycleId: number;
+  declare userId: number;
+  declare status: CreationOptional<PayoutCycleItemStatus>;
+  declare carryLeft: number;
+  declare carryRight: number;
+  declare pairs: number;
+  declare cappedPairs: CreationOptional<number>;
+  declare matchedAmount: number;
+  declare bonusEarned: number;
+  declare incomeCapped: CreationOptional<number>;
+  declare planId: CreationOptional<number | null>;
+  declare postedBonus: CreationOptional<number>;
+  declare bvMatchId: CreationOptional<number | null>;
+  declare walletTransactionId: CreationOptional<number | null>;
+  declare error: CreationOptional<string | null>;
+  declare postedAt: CreationOptional<Date | null>;
+
+  // Timestamps
+  declare createdAt: CreationOptional<Date>;
+  declare updatedAt: CreationOptional<Date>;
+
+  toJSON() {
+    const data = this.get();
+    return {
+      ...data,
+      carryLeft: Number(data.carryLeft),
+      carryRight: Number(data.carryRight),
+      matchedAmount: Number(data.matchedAmount),
+      bonusEarned: Number(data.bonusEarned),
+      incomeCapped: Number(data.incomeCapped),
+      postedBonus: Number(data.postedBonus),
+    };
+  }
+}
+
+const payoutCycleItemAttributes = {
+  id: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    autoIncrement: true,
+    primaryKey: true,
+  },
+
+  payoutCycleId: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: false,
+    references: { model: "payout_cycles", key: "id" },
+    onDelete: "CASCADE",
+    onUpdate: "CASCADE",
+  },
+
+  userId: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: false,
+    references: { model: "users", key: "id" },
+    onDelete: "CASCADE",
+    onUpdate: "CASCADE",
+  },
+
+  status: {
+    type: DataTypes.STRING(20),
+    allowNull: false,
+    defaultValue: "pending",
+    validate: {
+      isIn: {
+        args: [PAYOUT_CYCLE_ITEM_STATUSES as unknown as string[]],
+        msg: `Status must be one of: ${PAYOUT_CYCLE_ITEM_STATUSES.join(", ")}`,
+      },
+    },
+  },
+
+  carryLeft: {
+    type: DataTypes.DECIMAL(12, 2),
+    allowNull: false,
+  },
+
+  carryRight: {
+    type: DataTypes.DECIMAL(12, 2),
+    allowNull: false,
+  },
+
+  pairs: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: false,
+    defaultValue: 0,
+  },
+
+  cappedPairs: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: false,
+    defaultValue: 0,
+  },
+
+  matchedAmount: {
+    type: DataTypes.DECIMAL(12, 2),
+    allowNull: false,
+  },
+
+  bonusEarned: {
+    type: DataTypes.DECIMAL(12, 2),
+    allowNull: false,
+    defaultValue: 0.0,
+  },
+
+  incomeCapped: {
+    type: DataTypes.DECIMAL(12, 2),
+    allowNull: false,
+    defaultValue: 0.0,
+  },
+
+  planId: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: true,
+    defaultValue: null,
+    references: { model: "plans", key: "id" },
+    onDelete: "SET NULL",
+    onUpdate: "CASCADE",
+  },
+
+  postedBonus: {
+    type: DataTypes.DECIMAL(12, 2),
+    allowNull: false,
+    defaultValue: 0.0,
+  },
+
+  bvMatchId: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: true,
+    defaultValue: null,
+    references: { model: "bv_matches", key: "id" },
+    onDelete: "SET NULL",
+    onUpdate: "CASCADE",
+  },
+
+  walletTransactionId: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: true,
+    defaultValue: null,
+    references: { model: "wallet_transactions", key: "id" },
+    onDelete: "SET NULL",
+    onUpdate: "CASCADE",
+  },
+
+  error: {
+    type: DataTypes.TEXT,
+    allowNull: true,
+    defaultValue: null,
+  },
+
+  postedAt: {
+    type: DataTypes.DATE,
+    allowNull: true,
+    defaultValue: null,
+  },
+
+  // TS satisfaction for timestamps
+  createdAt: { type: DataTypes.DATE, allowNull: true },
+  updatedAt: { type: DataTypes.DATE, allowNull: true },
+} satisfies ModelAttributes<PayoutCycleItem, InferCreationAttributes<PayoutCycleItem>>;
+
+PayoutCycleItem.init(payoutCycleItemAttributes, {
+  sequelize,
+  tableName: "payout_cycle_items",
+  timestamps: true,
+  indexes: [
+    { name: "idx_payout_cycle_items_cycle_id", fields: ["payoutCycleId"] },
+    { name: "idx_payout_cycle_items_user_id", fields: ["userId"] },
+    { name: "idx_payout_cycle_items_status", fields: ["status"] },
+  ],
+});
+
+export default PayoutCycleItem;
@@ -0,0 +1,138 @@
+import {
+  DataTypes,
+  Model,
+  type CreationOptional,
+  type InferAttributes,
+  type InferCreationAttributes,
+  type ModelAttributes,
+} from "sequelize";
+import { sequelize } from "../utils/db.ts";
+import { maskVpa } from "../utils/upi.ts";
+
+/**
+ * Payout destination statuses
+ *  - unverified: registered; the payout provider hasn't confirmed it yet
+ *  - verified:   the provider resolved the VPA to an account holder
+ *  - failed:     the provider couldn't resolve the VPA
+ */
+export const PAYOUT_DESTINATION_STATUSES = ["unverified", "verified", "failed"] as const;
+
+export type PayoutDestinationStatus = (typeof PAYOUT_DESTINATION_STATUSES)[number];
+
+/**
+ * PayoutDestination model
+ * A UPI VPA a member registered to receive withdrawals on. Only verified,
+ * active destinations can be paid out to; removing one deactivates it so
+ * past withdrawals keep their record.
+ */
+export class PayoutDestination extends Model<
+  InferAttributes<PayoutDestination>,
+  InferCreationAttributes<PayoutDestination>
+> {
+  declare id: CreationOptional<number>;
+  declare userId: number;
+  declare vpa: string;                                    // Lower case
+  declare label: CreationOptional<string | null>;         // The member's name for it, e.g. "PhonePe"
+  declare status: CreationOptional<PayoutDestinationStatus>;
+  declare verifiedName: CreationOptional<string | null>;  // Account holder the provider reported
+  declare verifiedAt: CreationOptional<Date | null>;
+  declare failureReason: CreationOptional<string | null>;
+  declare isActive: CreationOptional<boolean>;
+
+  // Timestamps
+  declare createdAt: CreationOptional<Date>;
+  declare updatedAt: CreationOptional<Date>;
+
+  isVerified() {
+    return this.status === "verified";
+  }
+
+  toJSON() {
+    const data = this.get();
+    return {
+      ...data,
+      vpa: maskVpa(data.vpa),
+      isVerified: this.isVerified(),
+    };
+  }
+}
+
+const payoutDestinationAttributes = {
+  id: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    autoIncrement: true,
+    primaryKey: true,
+  },
+
+  userId: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: false,
+    references: { model: "users", key: "id" },
+    onDelete: "CASCADE",
+    onUpdate: "CASCADE",
+  },
+
+  vpa: {
+    type: DataTypes.STRING(320),
+    allowNull: false,
+  },
+
+  label: {
+    type: DataTypes.STRING(50),
+    allowNull: true,
+    defaultValue: null,
+  },
+
+  status: {
+    type: DataTypes.STRING(20),
+    allowNull: false,
+    defaultValue: "unverified",
+    validate: {
+      isIn: {
+        args: [PAYOUT_DESTINATION_STATUSES as unknown as string[]],
+        msg: `Status must be one of: ${PAYOUT_DESTINATION_STATUSES.join(", ")}`,
+      },
+    },
+  },
+
+  verifiedName: {
+    type: DataTypes.STRING(100),
+    allowNull: true,
+    defaultValue: null,
+  },
+
+  verifiedAt: {
+    type: DataTypes.DATE,
+    allowNull: true,
+    defaultValue: null,
+  },
+
+  failureReason: {
+    type: DataTypes.STRING(255),
+    allowNull: true,
+    defaultValue: null,
+  },
+
+  isActive: {
+    type: DataTypes.BOOLEAN,
+    allowNull: false,
+    defaultValue: true,
+  },
+
+  // TS satisfaction for timestamps
+  createdAt: { type: DataTypes.DATE, allowNull: true },
+  updatedAt: { type: DataTypes.DATE, allowNull: true },
+} satisfies ModelAttributes<PayoutDestination, InferCreationAttributes<PayoutDestination>>;
+
+PayoutDestination.init(payoutDestinationAttributes, {
+  sequelize,
+  tableName: "payout_destinations",
+  timestamps: true,
+  indexes: [
+    // A member registers a VPA once; re-adding a removed one reactivates it
+    { name: "uniq_payout_destinations_user_vpa", unique: true, fields: ["userId", "vpa"] },
+    { name: "idx_payout_destinations_user_active", fields: ["userId", "isActive"] },
+  ],
+});
+
+export default PayoutDestination;
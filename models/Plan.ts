@@ -19,6 +19,13 @@ export const ALLOWED_STATUSES = [
 
 export type PlanStatus = (typeof ALLOWED_STATUSES)[number];
 
+/**
+ * Units a plan's validity period is counted in
+ */
+export const PLAN_VALIDITY_UNITS = ["days", "months"] as const;
+
+export type PlanValidityUnit = (typeof PLAN_VALIDITY_UNITS)[number];
+
 export class Plan extends Model<
   InferAttributes<Plan>,
   InferCreationAttributes<Plan>
@@ -33,6 +40,16 @@ export class Plan extends Model<
   declare isActive: CreationOptional<boolean>;
   declare status: CreationOptional<PlanStatus>;
   declare bvValue: CreationOptional<number>;
+
+  // Binary income ceilings; null means no cap
+  declare dailyPairCap: CreationOptional<number | null>;
+  declare weeklyPairCap: CreationOptional<number | null>;
+  declare dailyIncomeCap: CreationOptional<number | null>;
+  declare weeklyIncomeCap: CreationOptional<number | null>;
+
+  // How long a purchase stays valid; null means it never expires
+  declare validityPeriod: CreationOptional<number | null>;
+  declare validityUnit: CreationOptional<PlanValidityUnit>;
   
   // Timestamps
   declare createdAt: CreationOptional<Date>;
@@ -46,6 +63,26 @@ export class Plan extends Model<
     return Math.round(((this.originalPrice - this.price) / this.originalPrice) * 100);
   }
 
+  /**
+   * When a purchase of this plan starting at `from` expires, or null if the
+   * plan has no validity period
+   */
+  getExpiryFrom(from: Date): Date | null {
+    if (!this.validityPeriod) return null;
+    const expiresAt = new Date(from);
+    if (this.validityUnit === "months") {
+      // Month-end purchases expire at the end of the shorter month, not in the next one
+      const day = expiresAt.getDate();
+      expiresAt.setDate(1);
+      expiresAt.setMonth(expiresAt.getMonth() + this.validityPeriod);
+      const lastDay = new Date(expiresAt.getFullYear(), expiresAt.getMonth() + 1, 0).getDate();
+      expiresAt.setDate(Math.min(day, lastDay));
+    } else {
+      expiresAt.setDate(expiresAt.getDate() + this.validityPeriod);
+    }
+    return expiresAt;
+  }
+
   
 
 }
@@ -135,6 +172,63 @@ const planAttributes = {
     },
   },
 
+  dailyPairCap: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: true,
+    defaultValue: null,
+    validate: {
+      min: { args: [0], msg: "Daily pair cap must be non-negative" }
+    },
+  },
+
+  weeklyPairCap: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: true,
+    defaultValue: null,
+    validate: {
+      min: { args: [0], msg: "Weekly pair cap must be non-negative" }
+    },
+  },
+
+  dailyIncomeCap: {
+    type: DataTypes.DECIMAL(12, 2),
+    allowNull: true,
+    defaultValue: null,
+    validate: {
+      min: { args: [0], msg: "Daily income cap must be non-negative" }
+    },
+  },
+
+  weeklyIncomeCap: {
+    type: DataTypes.DECIMAL(12, 2),
+    allowNull: true,
+    defaultValue: null,
+    validate: {
+      min: { args: [0], msg: "Weekly income cap must be non-negative" }
+    },
+  },
+
+  validityPeriod: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: true,
+    defaultValue: null,
+    validate: {
+      min: { args: [1], msg: "Validity period must be at least 1" }
+    },
+  },
+
+  validityUnit: {
+    type: DataTypes.STRING(10),
+    allowNull: false,
+    defaultValue: "days",
+    validate: {
+      isIn: {
+        args: [PLAN_VALIDITY_UNITS as unknown as string[]],
+        msg: `Validity unit must be one of: ${PLAN_VALIDITY_UNITS.join(", ")}`,
+      },
+    },
+  },
+
   // TS satisfaction for timestamps
   createdAt: { type: DataTypes.DATE, allowNull: true },
   updatedAt: { type: DataTypes.DATE, allowNull: true },
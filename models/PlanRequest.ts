@@ -27,10 +27,13 @@ export class PlanRequest extends Model<
   declare id: CreationOptional<number>;
   declare userId: number;
   declare planId: number;
+  declare orderId: CreationOptional<number | null>;
   declare status: CreationOptional<PlanRequestStatus>;
   declare paymentMethod: CreationOptional<string | null>;
   declare paymentReference: CreationOptional<string | null>;
   declare amount: number;
+  declare couponId: CreationOptional<number | null>;
+  declare discountAmount: CreationOptional<number>;   // Coupon discount off the list price
   declare currency: CreationOptional<string>;
   declare notes: CreationOptional<string | null>;
   declare approvedBy: CreationOptional<number | null>;
@@ -95,6 +98,18 @@ const planRequestAttributes = {
     onUpdate: 'CASCADE'
   },
 
+  orderId: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: true,
+    defaultValue: null,
+    references: {
+      model: 'orders',
+      key: 'id'
+    },
+    onDelete: 'SET NULL',
+    onUpdate: 'CASCADE'
+  },
+
   status: {
     type: DataTypes.STRING(20),
     allowNull: false,
@@ -128,6 +143,24 @@ const planRequestAttributes = {
     },
   },
 
+  couponId: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: true,
+    defaultValue: null,
+    references: {
+      model: 'coupons',
+      key: 'id'
+    },
+    onDelete: 'SET NULL',
+    onUpdate: 'CASCADE'
+  },
+
+  discountAmount: {
+    type: DataTypes.DECIMAL(10, 2),
+    allowNull: false,
+    defaultValue: 0,
+  },
+
   currency: {
     type: DataTypes.STRING(3),
     allowNull: false,
@@ -207,6 +240,7 @@ PlanRequest.init(planRequestAttributes, {
   indexes: [
     { name: "idx_plan_requests_user_id", fields: ["userId"] },
     { name: "idx_plan_requests_plan_id", fields: ["planId"] },
+    { name: "idx_plan_requests_order_id", fields: ["orderId"] },
     { name: "idx_plan_requests_status", fields: ["status"] },
     { name: "idx_plan_requests_created_at", fields: ["createdAt"] },
   ],
@@ -0,0 +1,140 @@
+import {
+  DataTypes,
+  Model,
+  type CreationOptional,
+  type InferAttributes,
+  type InferCreationAttributes,
+  type ModelAttributes,
+} from "sequelize";
+import { sequelize } from "../utils/db.ts";
+
+/**
+ * Recovery due lifecycle
+ *  - open:    still owed; taken from the member's next wallet credits
+ *  - settled: fully recovered
+ */
+export const RECOVERY_DUE_STATUSES = ["open", "settled"] as const;
+
+export type RecoveryDueStatus = (typeof RECOVERY_DUE_STATUSES)[number];
+
+/**
+ * RecoveryDue model
+ * Negative carry on a wallet: money clawed back from a member (e.g. the
+ * sponsor bonus of a refunded purchase) that their balance couldn't
+ * cover. Future credits pay it off before the member can spend them.
+ */
+export class RecoveryDue extends Model<
+  InferAttributes<RecoveryDue>,
+  InferCreationAttributes<RecoveryDue>
+> {
+  declare id: CreationOptional<number>;
+  declare userId: number;
+  declare reference: string;          // Reference of the clawback that fell short
+  declare account: string;            // System account the recovered money goes back to
+  declare amount: number;
+  declare recoveredAmount: CreationOptional<number>;
+  declare status: CreationOptional<RecoveryDueStatus>;
+  declare description: string;
+  declare refundId: CreationOptional<number | null>;
+  declare settledAt: CreationOptional<Date | null>;
+
+  // Timestamps
+  declare createdAt: CreationOptional<Date>;
+  declare updatedAt: CreationOptional<Date>;
+
+  toJSON() {
+    const data = this.get();
+    return {
+      ...data,
+      amount: Number(data.amount),
+      recoveredAmount: Number(data.recoveredAmount),
+      outstanding: Number(data.amount) - Number(data.recoveredAmount),
+    };
+  }
+}
+
+const recoveryDueAttributes = {
+  id: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    autoIncrement: true,
+    primaryKey: true,
+  },
+
+  userId: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: false,
+    references: { model: "users", key: "id" },
+    onDelete: "CASCADE",
+    onUpdate: "CASCADE",
+  },
+
+  reference: {
+    type: DataTypes.STRING(100),
+    allowNull: false,
+    unique: true,
+  },
+
+  account: {
+    type: DataTypes.STRING(50),
+    allowNull: false,
+  },
+
+  amount: {
+    type: DataTypes.DECIMAL(12, 2),
+    allowNull: false,
+  },
+
+  recoveredAmount: {
+    type: DataTypes.DECIMAL(12, 2),
+    allowNull: false,
+    defaultValue: 0.0,
+  },
+
+  status: {
+    type: DataTypes.STRING(20),
+    allowNull: false,
+    defaultValue: "open",
+    validate: {
+      isIn: {
+        args: [RECOVERY_DUE_STATUSES as unknown as string[]],
+        msg: `Status must be one of: ${RECOVERY_DUE_STATUSES.join(", ")}`,
+      },
+    },
+  },
+
+  description: {
+    type: DataTypes.TEXT,
+    allowNull: false,
+  },
+
+  refundId: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: true,
+    defaultValue: null,
+    references: { model: "refunds", key: "id" },
+    onDelete: "SET NULL",
+    onUpdate: "CASCADE",
+  },
+
+  settledAt: {
+    type: DataTypes.DATE,
+    allowNull: true,
+    defaultValue: null,
+  },
+
+  // TS satisfaction for timestamps
+  createdAt: { type: DataTypes.DATE, allowNull: true },
+  updatedAt: { type: DataTypes.DATE, allowNull: true },
+} satisfies ModelAttributes<RecoveryDue, InferCreationAttributes<RecoveryDue>>;
+
+RecoveryDue.init(recoveryDueAttributes, {
+  sequelize,
+  tableName: "recovery_dues",
+  timestamps: true,
+  indexes: [
+    { name: "idx_recovery_dues_user_status", fields: ["userId", "status"] },
+    { name: "idx_recovery_dues_refund_id", fields: ["refundId"] },
+  ],
+});
+
+export default RecoveryDue;
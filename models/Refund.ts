@@ -0,0 +1,152 @@
+import {
+  DataTypes,
+  Model,
+  type CreationOptional,
+  type InferAttributes,
+  type InferCreationAttributes,
+  type ModelAttributes,
+} from "sequelize";
+import { sequelize } from "../utils/db.ts";
+
+/**
+ * How the money went back
+ *  - refund:     the company returned it
+ *  - chargeback: the bank or gateway pulled it back
+ */
+export const REFUND_KINDS = ["refund", "chargeback"] as const;
+
+export type RefundKind = (typeof REFUND_KINDS)[number];
+
+/**
+ * Refund model
+ * One per refunded plan purchase order, with totals of what was undone.
+ * The individual reversals are kept as RefundReversal rows.
+ */
+export class Refund extends Model<
+  InferAttributes<Refund>,
+  InferCreationAttributes<Refund>
+> {
+  declare id: CreationOptional<number>;
+  declare orderId: number;
+  declare userId: number;
+  declare kind: CreationOptional<RefundKind>;
+  declare amount: number;
+  declare reason: CreationOptional<string | null>;
+  declare externalReference: CreationOptional<string | null>; // Bank / gateway refund or dispute id
+  declare refundedBy: CreationOptional<number | null>;
+  declare bvReversed: CreationOptional<number>;       // BV taken back from the upline
+  declare amountRecovered: CreationOptional<number>;  // ₹ clawed back from wallets
+  declare amountDue: CreationOptional<number>;        // ₹ left as recovery dues
+
+  // Timestamps
+  declare createdAt: CreationOptional<Date>;
+  declare updatedAt: CreationOptional<Date>;
+
+  toJSON() {
+    const data = this.get();
+    return {
+      ...data,
+      amount: Number(data.amount),
+      bvReversed: Number(data.bvReversed),
+      amountRecovered: Number(data.amountRecovered),
+      amountDue: Number(data.amountDue),
+    };
+  }
+}
+
+const refundAttributes = {
+  id: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    autoIncrement: true,
+    primaryKey: true,
+  },
+
+  orderId: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: false,
+    unique: true,
+    references: { model: "orders", key: "id" },
+    onDelete: "CASCADE",
+    onUpdate: "CASCADE",
+  },
+
+  userId: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: false,
+    references: { model: "users", key: "id" },
+    onDelete: "CASCADE",
+    onUpdate: "CASCADE",
+  },
+
+  kind: {
+    type: DataTypes.STRING(20),
+    allowNull: false,
+    defaultValue: "refund",
+    validate: {
+      isIn: {
+        args: [REFUND_KINDS as unknown as string[]],
+        msg: `Kind must be one of: ${REFUND_KINDS.join(", ")}`,
+      },
+    },
+  },
+
+  amount: {
+    type: DataTypes.DECIMAL(10, 2),
+    allowNull: false,
+  },
+
+  reason: {
+    type: DataTypes.TEXT,
+    allowNull: true,
+    defaultValue: null,
+  },
+
+  externalReference: {
+    type: DataTypes.STRING(100),
+    allowNull: true,
+    defaultValue: null,
+  },
+
+  refundedBy: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: true,
+    defaultValue: null,
+    references: { model: "users", key: "id" },
+    onDelete: "SET NULL",
+    onUpdate: "CASCADE",
+  },
+
+  bvReversed: {
+    type: DataTypes.DECIMAL(12, 2),
+    allowNull: false,
+    defaultValue: 0.0,
+  },
+
+  amountRecovered: {
+    type: DataTypes.DECIMAL(12, 2),
+    allowNull: false,
+    defaultValue: 0.0,
+  },
+
+  amountDue: {
+    type: DataTypes.DECIMAL(12, 2),
+    allowNull: false,
+    defaultValue: 0.0,
+  },
+
+  // TS satisfaction for timestamps
+  createdAt: { type: DataTypes.DATE, allowNull: true },
+  updatedAt: { type: DataTypes.DATE, allowNull: true },
+} satisfies ModelAttributes<Refund, InferCreationAttributes<Refund>>;
+
+Refund.init(refundAttributes, {
+  sequelize,
+  tableName: "refunds",
+  timestamps: true,
+  indexes: [
+    { name: "idx_refunds_user_id", fields: ["userId"] },
+    { name: "idx_refunds_kind", fields: ["kind"] },
+  ],
+});
+
+export default Refund;
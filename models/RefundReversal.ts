@@ -0,0 +1,182 @@
+import {
+  DataTypes,
+  Model,
+  type CreationOptional,
+  type InferAttributes,
+  type InferCreationAttributes,
+  type ModelAttributes,
+} from "sequelize";
+import { sequelize } from "../utils/db.ts";
+import { BV_SIDES, type BVSide } from "./BvLogs.ts";
+
+/**
+ * What a refund undid
+ *  - sponsor_bonus: the direct sponsor's bonus for the purchase
+ *  - bv:            BV an upline member got from the refunded member
+ *  - match_bonus:   the share of a matching bonus that BV paid for
+ */
+export const REFUND_REVERSAL_KINDS = [
+  "sponsor_bonus",
+  "bv",
+  "match_bonus"
+] as const;
+
+export type RefundReversalKind = (typeof REFUND_REVERSAL_KINDS)[number];
+
+/**
+ * RefundReversal model
+ * Audit trail of a refund: one row per bonus clawed back or BV log
+ * reversed, naming the member it was taken from.
+ */
+export class RefundReversal extends Model<
+  InferAttributes<RefundReversal>,
+  InferCreationAttributes<RefundReversal>
+> {
+  declare id: CreationOptional<number>;
+  declare refundId: number;
+  declare userId: number;            // Member the reversal was applied to
+  declare kind: RefundReversalKind;
+  declare side: CreationOptional<BVSide | null>;
+  declare bvLogId: CreationOptional<number | null>;
+  declare bvMatchId: CreationOptional<number | null>;
+  declare bv: CreationOptional<number>;          // BV taken back (bv) or unpaired (match_bonus)
+  declare carryReversed: CreationOptional<number>; // Part of `bv` removed from carry
+  declare amount: CreationOptional<number>;      // ₹ to claw back
+  declare recovered: CreationOptional<number>;   // ₹ taken from the wallet
+  declare due: CreationOptional<number>;         // ₹ left as a recovery due
+  declare note: CreationOptional<string | null>;
+
+  // Timestamps
+  declare createdAt: CreationOptional<Date>;
+  declare updatedAt: CreationOptional<Date>;
+
+  toJSON() {
+    const data = this.get();
+    return {
+      ...data,
+      bv: Number(data.bv),
+      carryReversed: Number(data.carryReversed),
+      amount: Number(data.amount),
+      recovered: Number(data.recovered),
+      due: Number(data.due),
+    };
+  }
+}
+
+const refundReversalAttributes = {
+  id: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    autoIncrement: true,
+    primaryKey: true,
+  },
+
+  refundId: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: false,
+    references: { model: "refunds", key: "id" },
+    onDelete: "CASCADE",
+    onUpdate: "CASCADE",
+  },
+
+  userId: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: false,
+    references: { model: "users", key: "id" },
+    onDelete: "CASCADE",
+    onUpdate: "CASCADE",
+  },
+
+  kind: {
+    type: DataTypes.STRING(20),
+    allowNull: false,
+    validate: {
+      isIn: {
+        args: [REFUND_REVERSAL_KINDS as unknown as string[]],
+        msg: `Kind must be one of: ${REFUND_REVERSAL_KINDS.join(", ")}`,
+      },
+    },
+  },
+
+  side: {
+    type: DataTypes.STRING(10),
+    allowNull: true,
+    defaultValue: null,
+    validate: {
+      isIn: {
+        args: [BV_SIDES as unknown as string[]],
+        msg: `Side must be one of: ${BV_SIDES.join(", ")}`,
+      },
+    },
+  },
+
+  bvLogId: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: true,
+    defaultValue: null,
+    references: { model: "bv_logs", key: "id" },
+    onDelete: "SET NULL",
+    onUpdate: "CASCADE",
+  },
+
+  bvMatchId: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: true,
+    defaultValue: null,
+    references: { model: "bv_matches", key: "id" },
+    onDelete: "SET NULL",
+    onUpdate: "CASCADE",
+  },
+
+  bv: {
+    type: DataTypes.DECIMAL(12, 2),
+    allowNull: false,
+    defaultValue: 0.0,
+  },
+
+  carryReversed: {
+    type: DataTypes.DECIMAL(12, 2),
+    allowNull: false,
+    defaultValue: 0.0,
+  },
+
+  amount: {
+    type: DataTypes.DECIMAL(12, 2),
+    allowNull: false,
+    defaultValue: 0.0,
+  },
+
+  recovered: {
+    type: DataTypes.DECIMAL(12, 2),
+    allowNull: false,
+    defaultValue: 0.0,
+  },
+
+  due: {
+    type: DataTypes.DECIMAL(12, 2),
+    allowNull: false,
+    defaultValue: 0.0,
+  },
+
+  note: {
+    type: DataTypes.TEXT,
+    allowNull: true,
+    defaultValue: null,
+  },
+
+  // TS satisfaction for timestamps
+  createdAt: { type: DataTypes.DATE, allowNull: true },
+  updatedAt: { type: DataTypes.DATE, allowNull: true },
+} satisfies ModelAttributes<RefundReversal, InferCreationAttributes<RefundReversal>>;
+
+RefundReversal.init(refundReversalAttributes, {
+  sequelize,
+  tableName: "refund_reversals",
+  timestamps: true,
+  indexes: [
+    { name: "idx_refund_reversals_refund_id", fields: ["refundId"] },
+    { name: "idx_refund_reversals_user_id", fields: ["userId"] },
+    { name: "idx_refund_reversals_bv_match_id", fields: ["bvMatchId"] },
+  ],
+});
+
+export default RefundReversal;
@@ -0,0 +1,153 @@
+import {
+  DataTypes,
+  Model,
+  type CreationOptional,
+  type InferAttributes,
+  type InferCreationAttributes,
+  type ModelAttributes,
+} from "sequelize";
+import { sequelize } from "../utils/db.ts";
+
+/**
+ * How often a job runs; manual jobs only run when triggered
+ */
+export const JOB_SCHEDULES = [
+  "hourly",
+  "daily",
+  "weekly",
+  "manual"
+] as const;
+
+export type JobSchedule = (typeof JOB_SCHEDULES)[number];
+
+/**
+ * Outcome of a job's last run
+ */
+export const JOB_RUN_STATUSES = [
+  "succeeded",
+  "failed"
+] as const;
+
+export type JobRunStatus = (typeof JOB_RUN_STATUSES)[number];
+
+/**
+ * ScheduledJob model
+ * One row per recurring background job. The job runner claims a due row
+ * by setting lockedAt, runs its handler and schedules the next run.
+ */
+export class ScheduledJob extends Model<
+  InferAttributes<ScheduledJob>,
+  InferCreationAttributes<ScheduledJob>
+> {
+  declare id: CreationOptional<number>;
+  declare name: string;
+  declare schedule: CreationOptional<JobSchedule>;
+  declare isEnabled: CreationOptional<boolean>;
+  declare options: CreationOptional<Record<string, any> | null>;
+  declare nextRunAt: CreationOptional<Date | null>;
+  declare lastRunAt: CreationOptional<Date | null>;
+  declare lastStatus: CreationOptional<JobRunStatus | null>;
+  declare lastError: CreationOptional<string | null>;
+  declare lockedAt: CreationOptional<Date | null>;
+  declare lockedBy: CreationOptional<string | null>;
+
+  // Timestamps
+  declare createdAt: CreationOptional<Date>;
+  declare updatedAt: CreationOptional<Date>;
+}
+
+const scheduledJobAttributes = {
+  id: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    autoIncrement: true,
+    primaryKey: true,
+  },
+
+  name: {
+    type: DataTypes.STRING(50),
+    allowNull: false,
+    unique: true,
+  },
+
+  schedule: {
+    type: DataTypes.STRING(20),
+    allowNull: false,
+    defaultValue: "daily",
+    validate: {
+      isIn: {
+        args: [JOB_SCHEDULES as unknown as string[]],
+        msg: `Schedule must be one of: ${JOB_SCHEDULES.join(", ")}`,
+      },
+    },
+  },
+
+  isEnabled: {
+    type: DataTypes.BOOLEAN,
+    allowNull: false,
+    defaultValue: true,
+  },
+
+  options: {
+    type: DataTypes.JSON,
+    allowNull: true,
+    defaultValue: null,
+  },
+
+  nextRunAt: {
+    type: DataTypes.DATE,
+    allowNull: true,
+    defaultValue: null,
+  },
+
+  lastRunAt: {
+    type: DataTypes.DATE,
+    allowNull: true,
+    defaultValue: null,
+  },
+
+  lastStatus: {
+    type: DataTypes.STRING(20),
+    allowNull: true,
+    defaultValue: null,
+    validate: {
+      isIn: {
+        args: [JOB_RUN_STATUSES as unknown as string[]],
+        msg: `Last status must be one of: ${JOB_RUN_STATUSES.join(", ")}`,
+      },
+    },
+  },
+
+  lastError: {
+    type: DataTypes.TEXT,
+    allowNull: true,
+    defaultValue: null,
+  },
+
+  lockedAt: {
+    type: DataTypes.DATE,
+    allowNull: true,
+    defaultValue: null,
+  },
+
+  lockedBy: {
+    type: DataTypes.STRING(100),
+    allowNull: true,
+    defaultValue: null,
+  },
+
+  // TS satisfaction for timestamps
+  createdAt: { type: DataTypes.DATE, allowNull: true },
+  updatedAt: { type: DataTypes.DATE, allowNull: true },
+} satisfies ModelAttributes<ScheduledJob, InferCreationAttributes<ScheduledJob>>;
+
+ScheduledJob.init(scheduledJobAttributes, {
+  sequelize,
+  tableName: "scheduled_jobs",
+  timestamps: true,
+  indexes: [
+    { name: "idx_scheduled_jobs_name", unique: true, fields: ["name"] },
+    { name: "idx_scheduled_jobs_due", fields: ["isEnabled", "nextRunAt"] },
+  ],
+});
+
+export default ScheduledJob;
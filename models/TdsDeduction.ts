@@ -0,0 +1,149 @@
+import {
+  DataTypes,
+  Model,
+  type CreationOptional,
+  type InferAttributes,
+  type InferCreationAttributes,
+  type ModelAttributes,
+} from "sequelize";
+import { sequelize } from "../utils/db.ts";
+import { TDS_QUARTERS, type TdsQuarter } from "../utils/tds.ts";
+
+/**
+ * TdsDeduction model
+ * Tax deducted from one paid-out withdrawal, filed under the quarter it
+ * was paid in. Deductee details are copied at payout so the quarterly
+ * return and certificates don't change if KYC does.
+ */
+export class TdsDeduction extends Model<
+  InferAttributes<TdsDeduction>,
+  InferCreationAttributes<TdsDeduction>
+> {
+  declare id: CreationOptional<number>;
+  declare userId: number;
+  declare withdrawalId: number;
+  declare financialYear: string;      // "2025-26"
+  declare quarter: TdsQuarter;
+  declare section: string;            // Income-tax section, e.g. "194H"
+  declare deducteeName: string;
+  declare pan: CreationOptional<string | null>;   // Null when the member had no verified PAN
+  declare rate: number;               // Percent
+  declare grossAmount: number;        // Amount paid or credited, before TDS
+  declare tdsAmount: number;
+  declare netAmount: number;
+  declare deductedAt: Date;
+
+  // Timestamps
+  declare createdAt: CreationOptional<Date>;
+  declare updatedAt: CreationOptional<Date>;
+
+  toJSON() {
+    const data = this.get();
+    return {
+      ...data,
+      rate: Number(data.rate),
+      grossAmount: Number(data.grossAmount),
+      tdsAmount: Number(data.tdsAmount),
+      netAmount: Number(data.netAmount),
+    };
+  }
+}
+
+const tdsDeductionAttributes = {
+  id: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    autoIncrement: true,
+    primaryKey: true,
+  },
+
+  userId: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: false,
+    references: { model: "users", key: "id" },
+    onDelete: "RESTRICT",
+    onUpdate: "CASCADE",
+  },
+
+  withdrawalId: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: false,
+    references: { model: "withdrawals", key: "id" },
+    onDelete: "RESTRICT",
+    onUpdate: "CASCADE",
+  },
+
+  financialYear: {
+    type: DataTypes.STRING(7),
+    allowNull: false,
+  },
+
+  quarter: {
+    type: DataTypes.STRING(2),
+    allowNull: false,
+    validate: {
+      isIn: {
+        args: [TDS_QUARTERS as unknown as string[]],
+        msg: `Quarter must be one of: ${TDS_QUARTERS.join(", ")}`,
+      },
+    },
+  },
+
+  section: {
+    type: DataTypes.STRING(10),
+    allowNull: false,
+  },
+
+  deducteeName: {
+    type: DataTypes.STRING(100),
+    allowNull: false,
+  },
+
+  pan: {
+    type: DataTypes.STRING(10),
+    allowNull: true,
+    defaultValue: null,
+  },
+
+  rate: {
+    type: DataTypes.DECIMAL(5, 2),
+    allowNull: false,
+  },
+
+  grossAmount: {
+    type: DataTypes.DECIMAL(12, 2),
+    allowNull: false,
+  },
+
+  tdsAmount: {
+    type: DataTypes.DECIMAL(12, 2),
+    allowNull: false,
+  },
+
+  netAmount: {
+    type: DataTypes.DECIMAL(12, 2),
+    allowNull: false,
+  },
+
+  deductedAt: {
+    type: DataTypes.DATE,
+    allowNull: false,
+  },
+
+  // TS satisfaction for timestamps
+  createdAt: { type: DataTypes.DATE, allowNull: true },
+  updatedAt: { type: DataTypes.DATE, allowNull: true },
+} satisfies ModelAttributes<TdsDeduction, InferCreationAttributes<TdsDeduction>>;
+
+TdsDeduction.init(tdsDeductionAttributes, {
+  sequelize,
+  tableName: "tds_deductions",
+  timestamps: true,
+  indexes: [
+    // One deduction per payout
+    { name: "uniq_tds_deductions_withdrawal", unique: true, fields: ["withdrawalId"] },
+    { name: "idx_tds_deductions_period", fields: ["financialYear", "quarter"] },
+    { name: "idx_tds_deductions_user_period", fields: ["userId", "financialYear", "quarter"] },
+  ],
+});
+
+export default TdsDeduction;
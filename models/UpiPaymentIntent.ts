@@ -0,0 +1,201 @@
+import {
+  DataTypes,
+  Model,
+  type CreationOptional,
+  type InferAttributes,
+  type InferCreationAttributes,
+  type ModelAttributes,
+} from "sequelize";
+import { sequelize } from "../utils/db.ts";
+
+/**
+ * What the member is paying for
+ */
+export const UPI_INTENT_PURPOSES = [
+  "plan",           // Plan purchase (becomes a Payment)
+  "participation"   // Competition entry fee
+] as const;
+
+export type UpiIntentPurpose = (typeof UPI_INTENT_PURPOSES)[number];
+
+/**
+ * UPI intent lifecycle
+ *  - open:      shown to the member, waiting for the transfer
+ *  - paid:      transfer seen on a statement or payment approved
+ *  - expired:   not paid in time; a new intent is issued on request
+ *  - cancelled: superseded or withdrawn
+ */
+export const UPI_INTENT_STATUSES = [
+  "open",
+  "paid",
+  "expired",
+  "cancelled"
+] as const;
+
+export type UpiIntentStatus = (typeof UPI_INTENT_STATUSES)[number];
+
+/**
+ * UpiPaymentIntent model
+ * A `upi://pay` request issued for one purchase. Its reference travels
+ * with the transfer as the UPI transaction reference/note, so the credit
+ * can be matched back to the purchase without a typed UTR.
+ */
+export class UpiPaymentIntent extends Model<
+  InferAttributes<UpiPaymentIntent>,
+  InferCreationAttributes<UpiPaymentIntent>
+> {
+  declare id: CreationOptional<number>;
+  declare reference: string;
+  declare userId: number;
+  declare purpose: UpiIntentPurpose;
+  declare planId: CreationOptional<number | null>;
+  declare participationId: CreationOptional<number | null>;
+  declare paymentId: CreationOptional<number | null>;
+  declare amount: number;
+  declare currency: CreationOptional<string>;
+  declare payeeVpa: string;
+  declare payeeName: string;
+  declare note: string;
+  declare status: CreationOptional<UpiIntentStatus>;
+  declare expiresAt: Date;
+  declare paidAt: CreationOptional<Date | null>;
+
+  // Timestamps
+  declare createdAt: CreationOptional<Date>;
+  declare updatedAt: CreationOptional<Date>;
+
+  toJSON() {
+    const data = this.get();
+    return {
+      ...data,
+      amount: Number(data.amount),
+    };
+  }
+}
+
+const upiPaymentIntentAttributes = {
+  id: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    autoIncrement: true,
+    primaryKey: true,
+  },
+
+  reference: {
+    type: DataTypes.STRING(35),
+    allowNull: false,
+    unique: true,
+  },
+
+  userId: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: false,
+    references: { model: "users", key: "id" },
+    onDelete: "CASCADE",
+    onUpdate: "CASCADE",
+  },
+
+  purpose: {
+    type: DataTypes.STRING(20),
+    allowNull: false,
+    validate: {
+      isIn: {
+        args: [UPI_INTENT_PURPOSES as unknown as string[]],
+        msg: `Purpose must be one of: ${UPI_INTENT_PURPOSES.join(", ")}`,
+      },
+    },
+  },
+
+  planId: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: true,
+    defaultValue: null,
+    references: { model: "plans", key: "id" },
+    onDelete: "SET NULL",
+    onUpdate: "CASCADE",
+  },
+
+  participationId: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: true,
+    defaultValue: null,
+    references: { model: "competition_participations", key: "id" },
+    onDelete: "SET NULL",
+    onUpdate: "CASCADE",
+  },
+
+  paymentId: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: true,
+    defaultValue: null,
+    references: { model: "payments", key: "id" },
+    onDelete: "SET NULL",
+    onUpdate: "CASCADE",
+  },
+
+  amount: {
+    type: DataTypes.DECIMAL(10, 2),
+    allowNull: false,
+  },
+
+  currency: {
+    type: DataTypes.STRING(3),
+    allowNull: false,
+    defaultValue: "INR",
+  },
+
+  payeeVpa: {
+    type: DataTypes.STRING(100),
+    allowNull: false,
+  },
+
+  payeeName: {
+    type: DataTypes.STRING(100),
+    allowNull: false,
+  },
+
+  note: {
+    type: DataTypes.STRING(80),
+    allowNull: false,
+  },
+
+  status: {
+    type: DataTypes.STRING(20),
+    allowNull: false,
+    defaultValue: "open",
+    validate: {
+      isIn: {
+        args: [UPI_INTENT_STATUSES as unknown as string[]],
+        msg: `Status must be one of: ${UPI_INTENT_STATUSES.join(", ")}`,
+      },
+    },
+  },
+
+  expiresAt: {
+    type: DataTypes.DATE,
+    allowNull: false,
+  },
+
+  paidAt: {
+    type: DataTypes.DATE,
+    allowNull: true,
+    defaultValue: null,
+  },
+
+  // TS satisfaction for timestamps
+  createdAt: { type: DataTypes.DATE, allowNull: true },
+  updatedAt: { type: DataTypes.DATE, allowNull: true },
+} satisfies ModelAttributes<UpiPaymentIntent, InferCreationAttributes<UpiPaymentIntent>>;
+
+UpiPaymentIntent.init(upiPaymentIntentAttributes, {
+  sequelize,
+  tableName: "upi_payment_intents",
+  timestamps: true,
+  indexes: [
+    { name: "idx_upi_payment_intents_reference", unique: true, fields: ["reference"] },
+    { name: "idx_upi_payment_intents_user_status", fields: ["userId", "status"] },
+    { name: "idx_upi_payment_intents_payment_id", fields: ["paymentId"] },
+    { name: "idx_upi_payment_intents_participation_id", fields: ["participationId"] },
+  ],
+});
+
+export default UpiPaymentIntent;
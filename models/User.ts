@@ -42,6 +42,7 @@ import {
     declare isActive: CreationOptional<boolean>;
     declare username: CreationOptional<string | null>; // My unique username/ID
     declare sponsorId: CreationOptional<string | null>; // Another person's sponsor ID who referred me
+    declare placementParentId: CreationOptional<string | null>; // Username of my parent in the binary tree (differs from sponsorId after spillover)
     declare position: CreationOptional<Position | null>; // Position in binary tree (left/right)
   
     // BV matching and income tracking fields
@@ -152,6 +153,12 @@ import {
       defaultValue: null
     },
 
+    placementParentId: {
+      type: DataTypes.STRING(20),
+      allowNull: true,
+      defaultValue: null
+    },
+
     position: {
       type: DataTypes.STRING(10),
       allowNull: true,
@@ -247,6 +254,7 @@ import {
       { name: "idx_users_sponsor_id", fields: ["sponsorId"] },
       { name: "idx_users_position", fields: ["position"] },
       { name: "idx_users_sponsor_position", fields: ["sponsorId", "position"] },
+      { name: "idx_users_placement_parent_position", fields: ["placementParentId", "position"] },
       { name: "idx_users_reset_otp_expiry", fields: ["resetOtpExpiry"] },
       { name: "idx_users_reset_token_expiry", fields: ["resetTokenExpiry"] },
     ],
@@ -267,14 +275,41 @@ import {
     }
   });
 
-  User.afterUpdate(async (user) => {
+  User.afterCreate(async (user, options) => {
+    // Import here to avoid circular dependency
+    const { TreePathService } = await import("../services/treePathService.js");
+
+    // Keep the tree closure table in step with registration
+    await TreePathService.addNode(user, options.transaction ?? undefined);
+  });
+
+  User.afterUpdate(async (user, options) => {
+    // Re-link the user's downline when they are placed somewhere else
+    if (user.changed("placementParentId") || user.changed("position")) {
+      const { TreePathService } = await import("../services/treePathService.js");
+      await TreePathService.moveSubtree(user, options.transaction ?? undefined);
+    }
+
     // Check if user was just activated (isActive changed from false to true)
     if (user.changed("isActive") && user.isActive === true) {
       // Import here to avoid circular dependency
-      const { UserActivationService } = await import("../services/userActivationService.js");
+      const { ActivationOutboxService } = await import("../services/activationOutboxService.js");
       
-      // Trigger BV distribution for newly activated user
-      await UserActivationService.handleUserActivation(user.id);
+      // Record the activation; a user only ever gets one event, so
+      // re-activating after a block doesn't distribute BV again
+      const event = await ActivationOutboxService.recordActivation(user.id, options.transaction ?? undefined);
+      if (event.status !== "pending") return;
+
+      // Distribute BV once the activation is committed; failures stay in the outbox for retry
+      if (options.transaction) {
+        options.transaction.afterCommit(() => {
+          ActivationOutboxService.processEvent(event.id).catch(error => {
+            console.error(`Activation event ${event.id} processing error:`, error);
+          });
+        });
+      } else {
+        await ActivationOutboxService.processEvent(event.id);
+      }
     }
   });
   
\ No newline at end of file
@@ -0,0 +1,188 @@
+import {
+  DataTypes,
+  Model,
+  type CreationOptional,
+  type InferAttributes,
+  type InferCreationAttributes,
+  type ModelAttributes,
+} from "sequelize";
+import { sequelize } from "../utils/db.ts";
+
+/**
+ * How the member came to hold a plan
+ */
+export const USER_PLAN_KINDS = ["purchase", "upgrade", "renewal"] as const;
+
+export type UserPlanKind = (typeof USER_PLAN_KINDS)[number];
+
+/**
+ * User plan lifecycle
+ *  - active:     the plan the member holds now
+ *  - superseded: replaced by an upgrade or renewal (still earning until the upgrade takes effect)
+ *  - refunded:   the order that bought it was refunded
+ */
+export const USER_PLAN_STATUSES = ["active", "superseded", "refunded"] as const;
+
+export type UserPlanStatus = (typeof USER_PLAN_STATUSES)[number];
+
+/**
+ * UserPlan model
+ * A member's plan history: one row per activated plan purchase or
+ * upgrade. The row in effect at a point in time sets the member's pair
+ * income and caps.
+ */
+export class UserPlan extends Model<
+  InferAttributes<UserPlan>,
+  InferCreationAttributes<UserPlan>
+> {
+  declare id: CreationOptional<number>;
+  declare userId: number;
+  declare planId: number;
+  declare orderId: number;
+  declare kind: CreationOptional<UserPlanKind>;
+  declare previousPlanId: CreationOptional<number | null>;
+  declare status: CreationOptional<UserPlanStatus>;
+  declare planPrice: number;        // List price of the plan when it was bought
+  declare amountPaid: number;       // What the order charged (the difference, for upgrades)
+  declare bvDistributed: CreationOptional<number>; // BV this step sent up the tree
+  declare effectiveFrom: Date;      // When the plan's rates start to apply
+  declare endedAt: CreationOptional<Date | null>;  // When the next plan (or a refund) took over
+  declare expiresAt: CreationOptional<Date | null>; // When the plan stops earning; null if it never expires
+  declare remindersSent: CreationOptional<number[]>; // Days-before-expiry reminders already emailed (0 = expiry notice)
+
+  // Timestamps
+  declare createdAt: CreationOptional<Date>;
+  declare updatedAt: CreationOptional<Date>;
+
+  toJSON() {
+    const data = this.get();
+    return {
+      ...data,
+      planPrice: Number(data.planPrice),
+      amountPaid: Number(data.amountPaid),
+      bvDistributed: Number(data.bvDistributed),
+    };
+  }
+}
+
+const userPlanAttributes = {
+  id: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    autoIncrement: true,
+    primaryKey: true,
+  },
+
+  userId: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: false,
+    references: { model: "users", key: "id" },
+    onDelete: "CASCADE",
+    onUpdate: "CASCADE",
+  },
+
+  planId: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: false,
+    references: { model: "plans", key: "id" },
+    onDelete: "RESTRICT",
+    onUpdate: "CASCADE",
+  },
+
+  orderId: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: false,
+    unique: true,
+    references: { model: "orders", key: "id" },
+    onDelete: "CASCADE",
+    onUpdate: "CASCADE",
+  },
+
+  kind: {
+    type: DataTypes.STRING(20),
+    allowNull: false,
+    defaultValue: "purchase",
+    validate: {
+      isIn: {
+        args: [USER_PLAN_KINDS as unknown as string[]],
+        msg: `Kind must be one of: ${USER_PLAN_KINDS.join(", ")}`,
+      },
+    },
+  },
+
+  previousPlanId: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: true,
+    defaultValue: null,
+    references: { model: "plans", key: "id" },
+    onDelete: "SET NULL",
+    onUpdate: "CASCADE",
+  },
+
+  status: {
+    type: DataTypes.STRING(20),
+    allowNull: false,
+    defaultValue: "active",
+    validate: {
+      isIn: {
+        args: [USER_PLAN_STATUSES as unknown as string[]],
+        msg: `Status must be one of: ${USER_PLAN_STATUSES.join(", ")}`,
+      },
+    },
+  },
+
+  planPrice: {
+    type: DataTypes.DECIMAL(10, 2),
+    allowNull: false,
+  },
+
+  amountPaid: {
+    type: DataTypes.DECIMAL(10, 2),
+    allowNull: false,
+  },
+
+  bvDistributed: {
+    type: DataTypes.DECIMAL(12, 2),
+    allowNull: false,
+    defaultValue: 0.0,
+  },
+
+  effectiveFrom: {
+    type: DataTypes.DATE,
+    allowNull: false,
+  },
+
+  endedAt: {
+    type: DataTypes.DATE,
+    allowNull: true,
+    defaultValue: null,
+  },
+
+  expiresAt: {
+    type: DataTypes.DATE,
+    allowNull: true,
+    defaultValue: null,
+  },
+
+  remindersSent: {
+    type: DataTypes.JSON,
+    allowNull: false,
+    defaultValue: [],
+  },
+
+  // TS satisfaction for timestamps
+  createdAt: { type: DataTypes.DATE, allowNull: true },
+  updatedAt: { type: DataTypes.DATE, allowNull: true },
+} satisfies ModelAttributes<UserPlan, InferCreationAttributes<UserPlan>>;
+
+UserPlan.init(userPlanAttributes, {
+  sequelize,
+  tableName: "user_plans",
+  timestamps: true,
+  indexes: [
+    { name: "idx_user_plans_user_status", fields: ["userId", "status"] },
+    { name: "idx_user_plans_user_effective", fields: ["userId", "effectiveFrom"] },
+    { name: "idx_user_plans_status_expires", fields: ["status", "expiresAt"] },
+  ],
+});
+
+export default UserPlan;
@@ -0,0 +1,90 @@
+import {
+  DataTypes,
+  Model,
+  type CreationOptional,
+  type InferAttributes,
+  type InferCreationAttributes,
+  type ModelAttributes,
+} from "sequelize";
+import { sequelize } from "../utils/db.ts";
+import { ALLOWED_POSITIONS, type Position } from "./User.ts";
+
+/**
+ * UserTreePath model
+ * Closure table of the binary tree: one row for every ancestor/descendant
+ * pair, including each user paired with themselves at depth 0. `side` is
+ * the ancestor's leg the descendant sits in (null for the self row), so
+ * downline and leg counts are single indexed queries.
+ */
+export class UserTreePath extends Model<
+  InferAttributes<UserTreePath>,
+  InferCreationAttributes<UserTreePath>
+> {
+  declare id: CreationOptional<number>;
+  declare ancestorId: number;
+  declare descendantId: number;
+  declare depth: number;
+  declare side: CreationOptional<Position | null>;
+
+  // Timestamps
+  declare createdAt: CreationOptional<Date>;
+  declare updatedAt: CreationOptional<Date>;
+}
+
+const userTreePathAttributes = {
+  id: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    autoIncrement: true,
+    primaryKey: true,
+  },
+
+  ancestorId: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: false,
+    references: { model: "users", key: "id" },
+    onDelete: "CASCADE",
+    onUpdate: "CASCADE",
+  },
+
+  descendantId: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: false,
+    references: { model: "users", key: "id" },
+    onDelete: "CASCADE",
+    onUpdate: "CASCADE",
+  },
+
+  depth: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: false,
+  },
+
+  side: {
+    type: DataTypes.STRING(10),
+    allowNull: true,
+    defaultValue: null,
+    validate: {
+      isIn: {
+        args: [ALLOWED_POSITIONS as unknown as string[]],
+        msg: `Side must be one of: ${ALLOWED_POSITIONS.join(", ")}`,
+      },
+    },
+  },
+
+  // TS satisfaction for timestamps
+  createdAt: { type: DataTypes.DATE, allowNull: true },
+  updatedAt: { type: DataTypes.DATE, allowNull: true },
+} satisfies ModelAttributes<UserTreePath, InferCreationAttributes<UserTreePath>>;
+
+UserTreePath.init(userTreePathAttributes, {
+  sequelize,
+  tableName: "user_tree_paths",
+  timestamps: true,
+  indexes: [
+    { name: "idx_user_tree_paths_pair", unique: true, fields: ["ancestorId", "descendantId"] },
+    { name: "idx_user_tree_paths_ancestor_side_depth", fields: ["ancestorId", "side", "depth"] },
+    { name: "idx_user_tree_paths_descendant", fields: ["descendantId"] },
+  ],
+});
+
+export default UserTreePath;
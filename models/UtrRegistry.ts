@@ -0,0 +1,109 @@
+import {
+  DataTypes,
+  Model,
+  type CreationOptional,
+  type InferAttributes,
+  type InferCreationAttributes,
+  type ModelAttributes,
+} from "sequelize";
+import { sequelize } from "../utils/db.ts";
+
+/**
+ * Records that can claim a UTR
+ */
+export const UTR_SOURCE_TYPES = [
+  "payment",        // Plan purchase (Payment)
+  "participation"   // Competition entry fee (CompetitionParticipation)
+] as const;
+
+export type UtrSourceType = (typeof UTR_SOURCE_TYPES)[number];
+
+/**
+ * UtrRegistry model
+ * One row per UTR in use across payments and competition participations.
+ * The unique UTR is what stops one bank transfer from being submitted
+ * twice; a rejected submission releases its UTR.
+ */
+export class UtrRegistry extends Model<
+  InferAttributes<UtrRegistry>,
+  InferCreationAttributes<UtrRegistry>
+> {
+  declare id: CreationOptional<number>;
+  declare utr: string;
+  declare sourceType: UtrSourceType;
+  declare sourceId: number;
+  declare userId: number;
+  declare amount: number;
+
+  // Timestamps
+  declare createdAt: CreationOptional<Date>;
+  declare updatedAt: CreationOptional<Date>;
+
+  toJSON() {
+    const data = this.get();
+    return {
+      ...data,
+      amount: Number(data.amount),
+    };
+  }
+}
+
+const utrRegistryAttributes = {
+  id: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    autoIncrement: true,
+    primaryKey: true,
+  },
+
+  utr: {
+    type: DataTypes.STRING(50),
+    allowNull: false,
+    unique: true,
+  },
+
+  sourceType: {
+    type: DataTypes.STRING(20),
+    allowNull: false,
+    validate: {
+      isIn: {
+        args: [UTR_SOURCE_TYPES as unknown as string[]],
+        msg: `Source type must be one of: ${UTR_SOURCE_TYPES.join(", ")}`,
+      },
+    },
+  },
+
+  sourceId: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: false,
+  },
+
+  userId: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: false,
+    references: { model: "users", key: "id" },
+    onDelete: "CASCADE",
+    onUpdate: "CASCADE",
+  },
+
+  amount: {
+    type: DataTypes.DECIMAL(10, 2),
+    allowNull: false,
+  },
+
+  // TS satisfaction for timestamps
+  createdAt: { type: DataTypes.DATE, allowNull: true },
+  updatedAt: { type: DataTypes.DATE, allowNull: true },
+} satisfies ModelAttributes<UtrRegistry, InferCreationAttributes<UtrRegistry>>;
+
+UtrRegistry.init(utrRegistryAttributes, {
+  sequelize,
+  tableName: "utr_registry",
+  timestamps: true,
+  indexes: [
+    { name: "idx_utr_registry_utr", unique: true, fields: ["utr"] },
+    { name: "idx_utr_registry_source", fields: ["sourceType", "sourceId"] },
+    { name: "idx_utr_registry_user_id", fields: ["userId"] },
+  ],
+});
+
+export default UtrRegistry;
@@ -34,6 +34,7 @@ export class Wallet extends Model<
   declare balance: number;
   declare totalEarned: number;
   declare totalWithdrawn: number;
+  declare heldBalance: CreationOptional<number>; // Part of the balance reserved for open withdrawals
   declare lastTransactionAt: CreationOptional<Date | null>;
 
   // Timestamps
@@ -41,6 +42,10 @@ export class Wallet extends Model<
   declare updatedAt: CreationOptional<Date>;
 
   // Helper methods
+  getAvailableBalance() {
+    return Number(this.balance) - Number(this.heldBalance || 0);
+  }
+
   addAmount(amount: number) {
     this.balance = Number(this.balance) + amount;
     this.totalEarned = Number(this.totalEarned) + amount;
@@ -63,6 +68,8 @@ export class Wallet extends Model<
       balance: Number(data.balance),
       totalEarned: Number(data.totalEarned),
       totalWithdrawn: Number(data.totalWithdrawn),
+      heldBalance: Number(data.heldBalance),
+      availableBalance: this.getAvailableBalance(),
     };
   }
 }
@@ -104,6 +111,13 @@ const walletAttributes = {
     validate: { min: { args: [0], msg: "Total withdrawn cannot be negative" } },
   },
 
+  heldBalance: {
+    type: DataTypes.DECIMAL(12, 2),
+    allowNull: false,
+    defaultValue: 0.0,
+    validate: { min: { args: [0], msg: "Held balance cannot be negative" } },
+  },
+
   lastTransactionAt: {
     type: DataTypes.DATE,
     allowNull: true,
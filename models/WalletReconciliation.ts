@@ -0,0 +1,175 @@
+import {
+  DataTypes,
+  Model,
+  type CreationOptional,
+  type InferAttributes,
+  type InferCreationAttributes,
+  type ModelAttributes,
+} from "sequelize";
+import { sequelize } from "../utils/db.ts";
+
+/**
+ * Reconciliation statuses
+ */
+export const RECONCILIATION_STATUSES = [
+  "open",
+  "applied",
+  "ignored"
+] as const;
+
+export type ReconciliationStatus = (typeof RECONCILIATION_STATUSES)[number];
+
+/**
+ * WalletReconciliation model
+ * One row per user whose stored balances disagree with the balance
+ * recomputed from transaction, withdrawal and BV match history.
+ */
+export class WalletReconciliation extends Model<
+  InferAttributes<WalletReconciliation>,
+  InferCreationAttributes<WalletReconciliation>
+> {
+  declare id: CreationOptional<number>;
+  declare userId: number;
+  declare expectedBalance: number; // Recomputed from history
+  declare walletBalance: number; // Wallet.balance at run time
+  declare userBalance: number; // User.totalIncome - User.totalWithdrawals at run time
+  declare ledgerBalance: number; // Balance of the user's ledger account at run time
+  declare walletDrift: number; // expectedBalance - walletBalance
+  declare userDrift: number; // expectedBalance - userBalance
+  declare breakdown: Record<string, any>;
+  declare status: CreationOptional<ReconciliationStatus>;
+  declare notes: CreationOptional<string | null>;
+  declare reviewedBy: CreationOptional<number | null>;
+  declare reviewedAt: CreationOptional<Date | null>;
+  declare walletTransactionId: CreationOptional<number | null>; // Adjustment posted when applied
+
+  // Timestamps
+  declare createdAt: CreationOptional<Date>;
+  declare updatedAt: CreationOptional<Date>;
+
+  toJSON() {
+    const data = this.get();
+    return {
+      ...data,
+      expectedBalance: Number(data.expectedBalance),
+      walletBalance: Number(data.walletBalance),
+      userBalance: Number(data.userBalance),
+      ledgerBalance: Number(data.ledgerBalance),
+      walletDrift: Number(data.walletDrift),
+      userDrift: Number(data.userDrift),
+    };
+  }
+}
+
+const walletReconciliationAttributes = {
+  id: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    autoIncrement: true,
+    primaryKey: true,
+  },
+
+  userId: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: false,
+    references: { model: "users", key: "id" },
+    onDelete: "CASCADE",
+    onUpdate: "CASCADE",
+  },
+
+  expectedBalance: {
+    type: DataTypes.DECIMAL(14, 2),
+    allowNull: false,
+  },
+
+  walletBalance: {
+    type: DataTypes.DECIMAL(14, 2),
+    allowNull: false,
+  },
+
+  userBalance: {
+    type: DataTypes.DECIMAL(14, 2),
+    allowNull: false,
+  },
+
+  ledgerBalance: {
+    type: DataTypes.DECIMAL(14, 2),
+    allowNull: false,
+  },
+
+  walletDrift: {
+    type: DataTypes.DECIMAL(14, 2),
+    allowNull: false,
+  },
+
+  userDrift: {
+    type: DataTypes.DECIMAL(14, 2),
+    allowNull: false,
+  },
+
+  breakdown: {
+    type: DataTypes.JSON,
+    allowNull: false,
+  },
+
+  status: {
+    type: DataTypes.STRING(20),
+    allowNull: false,
+    defaultValue: "open",
+    validate: {
+      isIn: {
+        args: [RECONCILIATION_STATUSES as unknown as string[]],
+        msg: `Status must be one of: ${RECONCILIATION_STATUSES.join(", ")}`,
+      },
+    },
+  },
+
+  notes: {
+    type: DataTypes.TEXT,
+    allowNull: true,
+    defaultValue: null,
+  },
+
+  reviewedBy: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: true,
+    defaultValue: null,
+    references: { model: "users", key: "id" },
+    onDelete: "SET NULL",
+    onUpdate: "CASCADE",
+  },
+
+  reviewedAt: {
+    type: DataTypes.DATE,
+    allowNull: true,
+    defaultValue: null,
+  },
+
+  walletTransactionId: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: true,
+    defaultValue: null,
+    references: { model: "wallet_transactions", key: "id" },
+    onDelete: "SET NULL",
+    onUpdate: "CASCADE",
+  },
+
+  // TS satisfaction for timestamps
+  createdAt: { type: DataTypes.DATE, allowNull: true },
+  updatedAt: { type: DataTypes.DATE, allowNull: true },
+} satisfies ModelAttributes<WalletReconciliation, InferCreationAttributes<WalletReconciliation>>;
+
+WalletReconciliation.init(walletReconciliationAttributes, {
+  sequelize,
+  tableName: "wallet_reconciliations",
+  timestamps: true,
+  defaultScope: {
+    order: [["createdAt", "DESC"]],
+  },
+  indexes: [
+    { name: "idx_wallet_reconciliations_user_id", fields: ["userId"] },
+    { name: "idx_wallet_reconciliations_status", fields: ["status"] },
+    { name: "idx_wallet_reconciliations_created_at", fields: ["createdAt"] },
+  ],
+});
+
+export default WalletReconciliation;
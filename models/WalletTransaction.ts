@@ -28,14 +28,26 @@ export const WALLET_TRANSACTION_TYPES = [
   "withdrawal",
   "refund",
   "bonus",
-  "commission"
+  "commission",
+  "adjustment"
 ] as const;
 
 export type WalletTransactionType = (typeof WALLET_TRANSACTION_TYPES)[number];
 
+/**
+ * Direction of a wallet transaction (amount is always positive)
+ */
+export const TRANSACTION_DIRECTIONS = [
+  "credit",
+  "debit"
+] as const;
+
+export type TransactionDirection = (typeof TRANSACTION_DIRECTIONS)[number];
+
 /**
  * WalletTransaction model
- * Stores individual wallet transactions
+ * Stores individual wallet transactions. Rows are a projection of the ledger:
+ * each one points at the journal entry that produced it.
  */
 export class WalletTransaction extends Model<
   InferAttributes<WalletTransaction>,
@@ -44,6 +56,7 @@ export class WalletTransaction extends Model<
   declare id: CreationOptional<number>;
   declare userId: number;
   declare type: WalletTransactionType;
+  declare direction: CreationOptional<TransactionDirection>;
   declare amount: number;
   declare balanceBefore: number;
   declare balanceAfter: number;
@@ -51,6 +64,7 @@ export class WalletTransaction extends Model<
   declare description: string;
   declare referenceId: CreationOptional<string | null>; // Reference to payment, withdrawal, etc.
   declare metadata: CreationOptional<Record<string, any> | null>;
+  declare journalEntryId: CreationOptional<number | null>; // Ledger entry backing this transaction
 
   // Timestamps
   declare createdAt: CreationOptional<Date>;
@@ -93,6 +107,18 @@ const walletTransactionAttributes = {
     },
   },
 
+  direction: {
+    type: DataTypes.STRING(10),
+    allowNull: false,
+    defaultValue: "credit",
+    validate: {
+      isIn: {
+        args: [TRANSACTION_DIRECTIONS as unknown as string[]],
+        msg: `Direction must be one of: ${TRANSACTION_DIRECTIONS.join(", ")}`,
+      },
+    },
+  },
+
   amount: {
     type: DataTypes.DECIMAL(12, 2),
     allowNull: false,
@@ -144,6 +170,15 @@ const walletTransactionAttributes = {
     defaultValue: null,
   },
 
+  journalEntryId: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: true,
+    defaultValue: null,
+    references: { model: "journal_entries", key: "id" },
+    onDelete: "SET NULL",
+    onUpdate: "CASCADE",
+  },
+
   // TS satisfaction for timestamps
   createdAt: { type: DataTypes.DATE, allowNull: true },
   updatedAt: { type: DataTypes.DATE, allowNull: true },
@@ -173,6 +208,7 @@ WalletTransaction.init(walletTransactionAttributes, {
     { name: "idx_wallet_transactions_status", fields: ["status"] },
     { name: "idx_wallet_transactions_reference", fields: ["referenceId"] },
     { name: "idx_wallet_transactions_created_at", fields: ["createdAt"] },
+    { name: "idx_wallet_transactions_journal_entry", fields: ["journalEntryId"] },
   ],
 });
 
@@ -0,0 +1,138 @@
+import {
+  DataTypes,
+  Model,
+  type CreationOptional,
+  type InferAttributes,
+  type InferCreationAttributes,
+  type ModelAttributes,
+} from "sequelize";
+import { sequelize } from "../utils/db.ts";
+import { GATEWAY_PROVIDERS, type GatewayProvider } from "./GatewayOrder.ts";
+
+/**
+ * Webhook event lifecycle
+ *  - received:  stored, not yet applied
+ *  - processed: applied to its order
+ *  - ignored:   nothing to do (unknown order, event we don't act on, order already settled)
+ *  - failed:    applying it errored; a redelivery retries it
+ */
+export const WEBHOOK_EVENT_STATUSES = [
+  "received",
+  "processed",
+  "ignored",
+  "failed"
+] as const;
+
+export type WebhookEventStatus = (typeof WEBHOOK_EVENT_STATUSES)[number];
+
+/**
+ * WebhookEvent model
+ * Every verified webhook delivery, keyed by the provider's event id. The
+ * unique key is what stops a redelivered event from being applied twice.
+ */
+export class WebhookEvent extends Model<
+  InferAttributes<WebhookEvent>,
+  InferCreationAttributes<WebhookEvent>
+> {
+  declare id: CreationOptional<number>;
+  declare provider: GatewayProvider;
+  declare eventId: string;
+  declare eventType: string;
+  declare providerOrderId: CreationOptional<string | null>;
+  declare payload: string;
+  declare status: CreationOptional<WebhookEventStatus>;
+  declare attempts: CreationOptional<number>;
+  declare note: CreationOptional<string | null>;
+  declare processedAt: CreationOptional<Date | null>;
+
+  // Timestamps
+  declare createdAt: CreationOptional<Date>;
+  declare updatedAt: CreationOptional<Date>;
+}
+
+const webhookEventAttributes = {
+  id: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    autoIncrement: true,
+    primaryKey: true,
+  },
+
+  provider: {
+    type: DataTypes.STRING(20),
+    allowNull: false,
+    validate: {
+      isIn: {
+        args: [GATEWAY_PROVIDERS as unknown as string[]],
+        msg: `Provider must be one of: ${GATEWAY_PROVIDERS.join(", ")}`,
+      },
+    },
+  },
+
+  eventId: {
+    type: DataTypes.STRING(120),
+    allowNull: false,
+  },
+
+  eventType: {
+    type: DataTypes.STRING(60),
+    allowNull: false,
+  },
+
+  providerOrderId: {
+    type: DataTypes.STRING(100),
+    allowNull: true,
+    defaultValue: null,
+  },
+
+  payload: {
+    type: DataTypes.TEXT,
+    allowNull: false,
+  },
+
+  status: {
+    type: DataTypes.STRING(20),
+    allowNull: false,
+    defaultValue: "received",
+    validate: {
+      isIn: {
+        args: [WEBHOOK_EVENT_STATUSES as unknown as string[]],
+        msg: `Status must be one of: ${WEBHOOK_EVENT_STATUSES.join(", ")}`,
+      },
+    },
+  },
+
+  attempts: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: false,
+    defaultValue: 0,
+  },
+
+  note: {
+    type: DataTypes.TEXT,
+    allowNull: true,
+    defaultValue: null,
+  },
+
+  processedAt: {
+    type: DataTypes.DATE,
+    allowNull: true,
+    defaultValue: null,
+  },
+
+  // TS satisfaction for timestamps
+  createdAt: { type: DataTypes.DATE, allowNull: true },
+  updatedAt: { type: DataTypes.DATE, allowNull: true },
+} satisfies ModelAttributes<WebhookEvent, InferCreationAttributes<WebhookEvent>>;
+
+WebhookEvent.init(webhookEventAttributes, {
+  sequelize,
+  tableName: "webhook_events",
+  timestamps: true,
+  indexes: [
+    { name: "idx_webhook_events_provider_event", unique: true, fields: ["provider", "eventId"] },
+    { name: "idx_webhook_events_status", fields: ["status"] },
+    { name: "idx_webhook_events_provider_order", fields: ["provider", "providerOrderId"] },
+  ],
+});
+
+export default WebhookEvent;
@@ -7,9 +7,16 @@ import {
   type ModelAttributes,
 } from "sequelize";
 import { sequelize } from "../utils/db.ts";
+import { maskVpa } from "../utils/upi.ts";
 
 /**
  * Withdrawal statuses
+ *  - pending:    requested; the amount is held in the member's wallet
+ *  - approved:   an admin accepted it
+ *  - processing: the payout has been sent to the bank
+ *  - completed:  paid out; the wallet was debited and the hold released
+ *  - rejected:   refused before payout; the hold was released
+ *  - failed:     the payout didn't go through; the hold was released
  */
 export const WITHDRAWAL_STATUSES = [
   "pending",
@@ -22,6 +29,23 @@ export const WITHDRAWAL_STATUSES = [
 
 export type WithdrawalStatus = (typeof WITHDRAWAL_STATUSES)[number];
 
+/**
+ * Allowed moves between statuses. Completed, rejected and failed are final.
+ */
+export const WITHDRAWAL_TRANSITIONS: Record<WithdrawalStatus, readonly WithdrawalStatus[]> = {
+  pending: ["approved", "rejected"],
+  approved: ["processing", "rejected"],
+  processing: ["completed", "failed"],
+  rejected: [],
+  completed: [],
+  failed: []
+};
+
+/**
+ * Statuses in which a withdrawal still holds funds
+ */
+export const OPEN_WITHDRAWAL_STATUSES: readonly WithdrawalStatus[] = ["pending", "approved", "processing"];
+
 /**
  * Withdrawal methods
  */
@@ -35,6 +59,20 @@ export const WITHDRAWAL_METHODS = [
 
 export type WithdrawalMethod = (typeof WITHDRAWAL_METHODS)[number];
 
+/**
+ * Methods paid to a member's UPI VPA; the rest go to their KYC bank account
+ */
+export const VPA_WITHDRAWAL_METHODS: readonly WithdrawalMethod[] = ["upi", "paytm", "phonepe", "google_pay"];
+
+/**
+ * Payout providers UPI withdrawals can be sent through
+ */
+export const PAYOUT_PROVIDERS = [
+  "fake"        // Local provider for development and tests
+] as const;
+
+export type PayoutProviderName = (typeof PAYOUT_PROVIDERS)[number];
+
 /**
  * Withdrawal model
  * Stores withdrawal requests and their status
@@ -49,6 +87,15 @@ export class Withdrawal extends Model<
   declare method: WithdrawalMethod;
   declare accountDetails: Record<string, any>; // Bank details, UPI ID, etc.
   declare status: WithdrawalStatus;
+  declare heldAmount: CreationOptional<number>; // Amount still held in the wallet; 0 once released or paid out
+  declare debitedBeforeLedger: CreationOptional<boolean>; // Approved under the old flow, which took it off the balance outside the ledger
+  declare tdsRate: CreationOptional<number>;    // Percent, fixed when requested
+  declare tdsAmount: CreationOptional<number>;  // Deducted from the amount at payout
+  declare tdsPan: CreationOptional<string | null>; // Verified PAN the rate was chosen for
+  declare feeAmount: CreationOptional<number>;  // Processing fee, also deducted at payout
+  declare payoutDestinationId: CreationOptional<number | null>; // UPI destination, for VPA methods
+  declare payoutProvider: CreationOptional<PayoutProviderName | null>; // Provider a UPI payout was sent through
+  declare providerPayoutId: CreationOptional<string | null>;
   declare adminNotes: CreationOptional<string | null>;
   declare processedAt: CreationOptional<Date | null>;
   declare transactionId: CreationOptional<string | null>; // External transaction reference
@@ -74,11 +121,33 @@ export class Withdrawal extends Model<
     return this.status === 'completed';
   }
 
+  // What reaches the member's bank
+  getNetAmount() {
+    return Number(this.amount) - Number(this.tdsAmount || 0) - Number(this.feeAmount || 0);
+  }
+
+  isVpaPayout() {
+    return VPA_WITHDRAWAL_METHODS.includes(this.method);
+  }
+
+  canTransitionTo(status: WithdrawalStatus) {
+    return WITHDRAWAL_TRANSITIONS[this.status].includes(status);
+  }
+
   toJSON() {
     const data = this.get();
+    const accountDetails = data.accountDetails && typeof data.accountDetails === "object" && data.accountDetails.upiId
+      ? { ...data.accountDetails, upiId: maskVpa(data.accountDetails.upiId) }
+      : data.accountDetails;
     return {
       ...data,
+      accountDetails,
       amount: Number(data.amount),
+      heldAmount: Number(data.heldAmount),
+      tdsRate: Number(data.tdsRate),
+      tdsAmount: Number(data.tdsAmount),
+      feeAmount: Number(data.feeAmount),
+      netAmount: this.getNetAmount(),
       isPending: this.isPending(),
       isApproved: this.isApproved(),
       isRejected: this.isRejected(),
@@ -105,9 +174,9 @@ const withdrawalAttributes = {
   amount: {
     type: DataTypes.DECIMAL(12, 2),
     allowNull: false,
-    validate: { 
-      min: { args: [100], msg: "Minimum withdrawal amount is ₹100" },
-      max: { args: [100000], msg: "Maximum withdrawal amount is ₹1,00,000" }
+    // Limits are admin settings, checked by WithdrawalRulesService
+    validate: {
+      min: { args: [0.01], msg: "Withdrawal amount must be positive" }
     },
   },
 
@@ -151,6 +220,69 @@ const withdrawalAttributes = {
     },
   },
 
+  heldAmount: {
+    type: DataTypes.DECIMAL(12, 2),
+    allowNull: false,
+    defaultValue: 0.0,
+  },
+
+  debitedBeforeLedger: {
+    type: DataTypes.BOOLEAN,
+    allowNull: false,
+    defaultValue: false,
+  },
+
+  tdsRate: {
+    type: DataTypes.DECIMAL(5, 2),
+    allowNull: false,
+    defaultValue: 0.0,
+  },
+
+  tdsAmount: {
+    type: DataTypes.DECIMAL(12, 2),
+    allowNull: false,
+    defaultValue: 0.0,
+  },
+
+  tdsPan: {
+    type: DataTypes.STRING(10),
+    allowNull: true,
+    defaultValue: null,
+  },
+
+  feeAmount: {
+    type: DataTypes.DECIMAL(12, 2),
+    allowNull: false,
+    defaultValue: 0.0,
+  },
+
+  payoutDestinationId: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: true,
+    defaultValue: null,
+    references: { model: "payout_destinations", key: "id" },
+    onDelete: "RESTRICT",
+    onUpdate: "CASCADE",
+  },
+
+  payoutProvider: {
+    type: DataTypes.STRING(20),
+    allowNull: true,
+    defaultValue: null,
+    validate: {
+      isIn: {
+        args: [PAYOUT_PROVIDERS as unknown as string[]],
+        msg: `Payout provider must be one of: ${PAYOUT_PROVIDERS.join(", ")}`,
+      },
+    },
+  },
+
+  providerPayoutId: {
+    type: DataTypes.STRING(100),
+    allowNull: true,
+    defaultValue: null,
+  },
+
   adminNotes: {
     type: DataTypes.TEXT,
     allowNull: true,
@@ -204,6 +336,7 @@ Withdrawal.init(withdrawalAttributes, {
     { name: "idx_withdrawals_method", fields: ["method"] },
     { name: "idx_withdrawals_amount", fields: ["amount"] },
     { name: "idx_withdrawals_created_at", fields: ["createdAt"] },
+    { name: "idx_withdrawals_provider_payout", fields: ["payoutProvider", "providerPayoutId"] },
   ],
 });
 
@@ -13,6 +13,38 @@ import { Kyc } from './Kyc.ts';
 import { CertificateRequest } from './CertificateRequest.ts';
 import { Competition } from './Competition.ts';
 import { CompetitionParticipation } from './CompetitionParticipation.ts';
+import { LedgerAccount } from './LedgerAccount.ts';
+import { JournalEntry } from './JournalEntry.ts';
+import { JournalLine } from './JournalLine.ts';
+import { WalletReconciliation } from './WalletReconciliation.ts';
+import { BvMatch } from './BvMatch.ts';
+import { BvFlushLog } from './BvFlushLog.ts';
+import { PayoutCycle } from './PayoutCycle.ts';
+import { PayoutCycleItem } from './PayoutCycleItem.ts';
+import { ScheduledJob } from './ScheduledJob.ts';
+import { ActivationEvent } from './ActivationEvent.ts';
+import { UserTreePath } from './UserTreePath.ts';
+import { UtrRegistry } from './UtrRegistry.ts';
+import { BankStatementImport } from './BankStatementImport.ts';
+import { BankStatementLine } from './BankStatementLine.ts';
+import { UpiPaymentIntent } from './UpiPaymentIntent.ts';
+import { GatewayOrder } from './GatewayOrder.ts';
+import { WebhookEvent } from './WebhookEvent.ts';
+import { Order } from './Order.ts';
+import { OrderEvent } from './OrderEvent.ts';
+import { Refund } from './Refund.ts';
+import { RefundReversal } from './RefundReversal.ts';
+import { RecoveryDue } from './RecoveryDue.ts';
+import { UserPlan } from './UserPlan.ts';
+import { Coupon } from './Coupon.ts';
+import { CouponRedemption } from './CouponRedemption.ts';
+import { Invoice } from './Invoice.ts';
+import { InvoiceSequence } from './InvoiceSequence.ts';
+import { ExportJob } from './ExportJob.ts';
+import { PayoutBatch } from './PayoutBatch.ts';
+import { PayoutBatchItem } from './PayoutBatchItem.ts';
+import { TdsDeduction } from './TdsDeduction.ts';
+import { PayoutDestination } from './PayoutDestination.ts';
 
 // Define associations
 PlanRequest.belongsTo(User, { 
@@ -265,5 +297,733 @@ User.hasMany(CompetitionParticipation, {
   foreignKey: 'verifiedBy'
 });
 
-export { Plan, PlanRequest, Payment, User, Wallet, WalletTransaction, Withdrawal, UserBV, BVLog, Level, Video, Kyc, CertificateRequest, Competition, CompetitionParticipation };
+// Ledger associations
+LedgerAccount.belongsTo(User, {
+  as: 'user',
+  foreignKey: 'userId',
+  onDelete: 'CASCADE',
+  onUpdate: 'CASCADE'
+});
+
+User.hasOne(LedgerAccount, {
+  as: 'ledgerAccount',
+  foreignKey: 'userId'
+});
+
+JournalEntry.hasMany(JournalLine, {
+  as: 'lines',
+  foreignKey: 'journalEntryId'
+});
+
+JournalLine.belongsTo(JournalEntry, {
+  as: 'entry',
+  foreignKey: 'journalEntryId',
+  onDelete: 'CASCADE',
+  onUpdate: 'CASCADE'
+});
+
+JournalLine.belongsTo(LedgerAccount, {
+  as: 'account',
+  foreignKey: 'accountId',
+  onDelete: 'RESTRICT',
+  onUpdate: 'CASCADE'
+});
+
+LedgerAccount.hasMany(JournalLine, {
+  as: 'lines',
+  foreignKey: 'accountId'
+});
+
+JournalEntry.belongsTo(User, {
+  as: 'poster',
+  foreignKey: 'postedBy',
+  onDelete: 'SET NULL',
+  onUpdate: 'CASCADE'
+});
+
+WalletTransaction.belongsTo(JournalEntry, {
+  as: 'journalEntry',
+  foreignKey: 'journalEntryId',
+  onDelete: 'SET NULL',
+  onUpdate: 'CASCADE'
+});
+
+// WalletReconciliation associations
+WalletReconciliation.belongsTo(User, {
+  as: 'user',
+  foreignKey: 'userId',
+  onDelete: 'CASCADE',
+  onUpdate: 'CASCADE'
+});
+
+WalletReconciliation.belongsTo(User, {
+  as: 'reviewer',
+  foreignKey: 'reviewedBy',
+  onDelete: 'SET NULL',
+  onUpdate: 'CASCADE'
+});
+
+WalletReconciliation.belongsTo(WalletTransaction, {
+  as: 'adjustment',
+  foreignKey: 'walletTransactionId',
+  onDelete: 'SET NULL',
+  onUpdate: 'CASCADE'
+});
+
+User.hasMany(WalletReconciliation, {
+  as: 'walletReconciliations',
+  foreignKey: 'userId'
+});
+
+// BvMatch associations
+BvMatch.belongsTo(User, {
+  as: 'user',
+  foreignKey: 'userId',
+  onDelete: 'CASCADE',
+  onUpdate: 'CASCADE'
+});
+
+BvMatch.belongsTo(Plan, {
+  as: 'plan',
+  foreignKey: 'planId',
+  onDelete: 'SET NULL',
+  onUpdate: 'CASCADE'
+});
+
+BvMatch.belongsTo(WalletTransaction, {
+  as: 'walletTransaction',
+  foreignKey: 'walletTransactionId',
+  onDelete: 'SET NULL',
+  onUpdate: 'CASCADE'
+});
+
+User.hasMany(BvMatch, {
+  as: 'bvMatches',
+  foreignKey: 'userId'
+});
+
+// BvFlushLog associations
+BvFlushLog.belongsTo(User, {
+  as: 'user',
+  foreignKey: 'userId',
+  onDelete: 'CASCADE',
+  onUpdate: 'CASCADE'
+});
+
+BvFlushLog.belongsTo(Plan, {
+  as: 'plan',
+  foreignKey: 'planId',
+  onDelete: 'SET NULL',
+  onUpdate: 'CASCADE'
+});
+
+BvFlushLog.belongsTo(BvMatch, {
+  as: 'bvMatch',
+  foreignKey: 'bvMatchId',
+  onDelete: 'SET NULL',
+  onUpdate: 'CASCADE'
+});
+
+User.hasMany(BvFlushLog, {
+  as: 'bvFlushLogs',
+  foreignKey: 'userId'
+});
+
+// PayoutCycle associations
+PayoutCycle.belongsTo(User, {
+  as: 'creator',
+  foreignKey: 'createdBy',
+  onDelete: 'SET NULL',
+  onUpdate: 'CASCADE'
+});
+
+PayoutCycle.belongsTo(User, {
+  as: 'reviewer',
+  foreignKey: 'reviewedBy',
+  onDelete: 'SET NULL',
+  onUpdate: 'CASCADE'
+});
+
+PayoutCycle.hasMany(PayoutCycleItem, {
+  as: 'items',
+  foreignKey: 'payoutCycleId'
+});
+
+// PayoutCycleItem associations
+PayoutCycleItem.belongsTo(PayoutCycle, {
+  as: 'payoutCycle',
+  foreignKey: 'payoutCycleId',
+  onDelete: 'CASCADE',
+  onUpdate: 'CASCADE'
+});
+
+PayoutCycleItem.belongsTo(User, {
+  as: 'user',
+  foreignKey: 'userId',
+  onDelete: 'CASCADE',
+  onUpdate: 'CASCADE'
+});
+
+PayoutCycleItem.belongsTo(Plan, {
+  as: 'plan',
+  foreignKey: 'planId',
+  onDelete: 'SET NULL',
+  onUpdate: 'CASCADE'
+});
+
+PayoutCycleItem.belongsTo(BvMatch, {
+  as: 'bvMatch',
+  foreignKey: 'bvMatchId',
+  onDelete: 'SET NULL',
+  onUpdate: 'CASCADE'
+});
+
+PayoutCycleItem.belongsTo(WalletTransaction, {
+  as: 'walletTransaction',
+  foreignKey: 'walletTransactionId',
+  onDelete: 'SET NULL',
+  onUpdate: 'CASCADE'
+});
+
+// ActivationEvent associations
+ActivationEvent.belongsTo(User, {
+  as: 'user',
+  foreignKey: 'userId',
+  onDelete: 'CASCADE',
+  onUpdate: 'CASCADE'
+});
+
+User.hasOne(ActivationEvent, {
+  as: 'activationEvent',
+  foreignKey: 'userId'
+});
+
+// UserTreePath associations
+UserTreePath.belongsTo(User, {
+  as: 'ancestor',
+  foreignKey: 'ancestorId',
+  onDelete: 'CASCADE',
+  onUpdate: 'CASCADE'
+});
+
+UserTreePath.belongsTo(User, {
+  as: 'descendant',
+  foreignKey: 'descendantId',
+  onDelete: 'CASCADE',
+  onUpdate: 'CASCADE'
+});
+
+// UtrRegistry associations
+UtrRegistry.belongsTo(User, {
+  as: 'user',
+  foreignKey: 'userId',
+  onDelete: 'CASCADE',
+  onUpdate: 'CASCADE'
+});
+
+// BankStatementImport associations
+BankStatementImport.belongsTo(User, {
+  as: 'uploader',
+  foreignKey: 'uploadedBy',
+  onDelete: 'RESTRICT',
+  onUpdate: 'CASCADE'
+});
+
+BankStatementImport.hasMany(BankStatementLine, {
+  as: 'lines',
+  foreignKey: 'importId'
+});
+
+BankStatementLine.belongsTo(BankStatementImport, {
+  as: 'statementImport',
+  foreignKey: 'importId',
+  onDelete: 'CASCADE',
+  onUpdate: 'CASCADE'
+});
+
+// UpiPaymentIntent associations
+UpiPaymentIntent.belongsTo(User, {
+  as: 'user',
+  foreignKey: 'userId',
+  onDelete: 'CASCADE',
+  onUpdate: 'CASCADE'
+});
+
+UpiPaymentIntent.belongsTo(Plan, {
+  as: 'plan',
+  foreignKey: 'planId',
+  onDelete: 'SET NULL',
+  onUpdate: 'CASCADE'
+});
+
+UpiPaymentIntent.belongsTo(CompetitionParticipation, {
+  as: 'participation',
+  foreignKey: 'participationId',
+  onDelete: 'SET NULL',
+  onUpdate: 'CASCADE'
+});
+
+UpiPaymentIntent.belongsTo(Payment, {
+  as: 'payment',
+  foreignKey: 'paymentId',
+  onDelete: 'SET NULL',
+  onUpdate: 'CASCADE'
+});
+
+// GatewayOrder associations
+GatewayOrder.belongsTo(User, {
+  as: 'user',
+  foreignKey: 'userId',
+  onDelete: 'CASCADE',
+  onUpdate: 'CASCADE'
+});
+
+GatewayOrder.belongsTo(Plan, {
+  as: 'plan',
+  foreignKey: 'planId',
+  onDelete: 'SET NULL',
+  onUpdate: 'CASCADE'
+});
+
+GatewayOrder.belongsTo(CompetitionParticipation, {
+  as: 'participation',
+  foreignKey: 'participationId',
+  onDelete: 'SET NULL',
+  onUpdate: 'CASCADE'
+});
+
+GatewayOrder.belongsTo(Payment, {
+  as: 'payment',
+  foreignKey: 'paymentId',
+  onDelete: 'SET NULL',
+  onUpdate: 'CASCADE'
+});
+
+// Order associations
+Order.belongsTo(User, {
+  as: 'user',
+  foreignKey: 'userId',
+  onDelete: 'CASCADE',
+  onUpdate: 'CASCADE'
+});
+
+Order.belongsTo(User, {
+  as: 'activator',
+  foreignKey: 'activatedBy',
+  onDelete: 'SET NULL',
+  onUpdate: 'CASCADE'
+});
+
+Order.belongsTo(Plan, {
+  as: 'plan',
+  foreignKey: 'planId',
+  onDelete: 'RESTRICT',
+  onUpdate: 'CASCADE'
+});
+
+Order.hasMany(Payment, {
+  as: 'payments',
+  foreignKey: 'orderId'
+});
+
+Payment.belongsTo(Order, {
+  as: 'order',
+  foreignKey: 'orderId',
+  onDelete: 'SET NULL',
+  onUpdate: 'CASCADE'
+});
+
+Order.hasMany(PlanRequest, {
+  as: 'planRequests',
+  foreignKey: 'orderId'
+});
+
+PlanRequest.belongsTo(Order, {
+  as: 'order',
+  foreignKey: 'orderId',
+  onDelete: 'SET NULL',
+  onUpdate: 'CASCADE'
+});
+
+Order.hasMany(OrderEvent, {
+  as: 'events',
+  foreignKey: 'orderId'
+});
+
+OrderEvent.belongsTo(Order, {
+  as: 'order',
+  foreignKey: 'orderId',
+  onDelete: 'CASCADE',
+  onUpdate: 'CASCADE'
+});
+
+OrderEvent.belongsTo(User, {
+  as: 'actor',
+  foreignKey: 'actorId',
+  onDelete: 'SET NULL',
+  onUpdate: 'CASCADE'
+});
+
+// Refund associations
+Order.hasOne(Refund, {
+  as: 'refund',
+  foreignKey: 'orderId'
+});
+
+Refund.belongsTo(Order, {
+  as: 'order',
+  foreignKey: 'orderId',
+  onDelete: 'CASCADE',
+  onUpdate: 'CASCADE'
+});
+
+Refund.belongsTo(User, {
+  as: 'user',
+  foreignKey: 'userId',
+  onDelete: 'CASCADE',
+  onUpdate: 'CASCADE'
+});
+
+Refund.belongsTo(User, {
+  as: 'refunder',
+  foreignKey: 'refundedBy',
+  onDelete: 'SET NULL',
+  onUpdate: 'CASCADE'
+});
+
+Refund.hasMany(RefundReversal, {
+  as: 'reversals',
+  foreignKey: 'refundId'
+});
+
+RefundReversal.belongsTo(Refund, {
+  as: 'refund',
+  foreignKey: 'refundId',
+  onDelete: 'CASCADE',
+  onUpdate: 'CASCADE'
+});
+
+RefundReversal.belongsTo(User, {
+  as: 'user',
+  foreignKey: 'userId',
+  onDelete: 'CASCADE',
+  onUpdate: 'CASCADE'
+});
+
+RefundReversal.belongsTo(BVLog, {
+  as: 'bvLog',
+  foreignKey: 'bvLogId',
+  onDelete: 'SET NULL',
+  onUpdate: 'CASCADE'
+});
+
+RefundReversal.belongsTo(BvMatch, {
+  as: 'bvMatch',
+  foreignKey: 'bvMatchId',
+  onDelete: 'SET NULL',
+  onUpdate: 'CASCADE'
+});
+
+// RecoveryDue associations
+User.hasMany(RecoveryDue, {
+  as: 'recoveryDues',
+  foreignKey: 'userId'
+});
+
+RecoveryDue.belongsTo(User, {
+  as: 'user',
+  foreignKey: 'userId',
+  onDelete: 'CASCADE',
+  onUpdate: 'CASCADE'
+});
+
+RecoveryDue.belongsTo(Refund, {
+  as: 'refund',
+  foreignKey: 'refundId',
+  onDelete: 'SET NULL',
+  onUpdate: 'CASCADE'
+});
+
+// UserPlan associations
+User.hasMany(UserPlan, {
+  as: 'userPlans',
+  foreignKey: 'userId'
+});
+
+UserPlan.belongsTo(User, {
+  as: 'user',
+  foreignKey: 'userId',
+  onDelete: 'CASCADE',
+  onUpdate: 'CASCADE'
+});
+
+UserPlan.belongsTo(Plan, {
+  as: 'plan',
+  foreignKey: 'planId',
+  onDelete: 'RESTRICT',
+  onUpdate: 'CASCADE'
+});
+
+UserPlan.belongsTo(Plan, {
+  as: 'previousPlan',
+  foreignKey: 'previousPlanId',
+  onDelete: 'SET NULL',
+  onUpdate: 'CASCADE'
+});
+
+Order.hasOne(UserPlan, {
+  as: 'userPlan',
+  foreignKey: 'orderId'
+});
+
+UserPlan.belongsTo(Order, {
+  as: 'order',
+  foreignKey: 'orderId',
+  onDelete: 'CASCADE',
+  onUpdate: 'CASCADE'
+});
+
+Order.belongsTo(Plan, {
+  as: 'fromPlan',
+  foreignKey: 'fromPlanId',
+  onDelete: 'SET NULL',
+  onUpdate: 'CASCADE'
+});
+
+// Coupon associations
+Coupon.belongsTo(User, {
+  as: 'creator',
+  foreignKey: 'createdBy',
+  onDelete: 'SET NULL',
+  onUpdate: 'CASCADE'
+});
+
+Coupon.hasMany(CouponRedemption, {
+  as: 'redemptions',
+  foreignKey: 'couponId'
+});
+
+CouponRedemption.belongsTo(Coupon, {
+  as: 'coupon',
+  foreignKey: 'couponId',
+  onDelete: 'RESTRICT',
+  onUpdate: 'CASCADE'
+});
+
+CouponRedemption.belongsTo(User, {
+  as: 'user',
+  foreignKey: 'userId',
+  onDelete: 'CASCADE',
+  onUpdate: 'CASCADE'
+});
+
+CouponRedemption.belongsTo(Plan, {
+  as: 'plan',
+  foreignKey: 'planId',
+  onDelete: 'SET NULL',
+  onUpdate: 'CASCADE'
+});
+
+CouponRedemption.belongsTo(Competition, {
+  as: 'competition',
+  foreignKey: 'competitionId',
+  onDelete: 'SET NULL',
+  onUpdate: 'CASCADE'
+});
+
+CouponRedemption.belongsTo(Order, {
+  as: 'order',
+  foreignKey: 'orderId',
+  onDelete: 'SET NULL',
+  onUpdate: 'CASCADE'
+});
+
+CouponRedemption.belongsTo(Payment, {
+  as: 'payment',
+  foreignKey: 'paymentId',
+  onDelete: 'SET NULL',
+  onUpdate: 'CASCADE'
+});
+
+CouponRedemption.belongsTo(PlanRequest, {
+  as: 'planRequest',
+  foreignKey: 'planRequestId',
+  onDelete: 'SET NULL',
+  onUpdate: 'CASCADE'
+});
+
+CouponRedemption.belongsTo(CompetitionParticipation, {
+  as: 'participation',
+  foreignKey: 'participationId',
+  onDelete: 'SET NULL',
+  onUpdate: 'CASCADE'
+});
+
+Payment.belongsTo(Coupon, {
+  as: 'coupon',
+  foreignKey: 'couponId',
+  onDelete: 'SET NULL',
+  onUpdate: 'CASCADE'
+});
+
+PlanRequest.belongsTo(Coupon, {
+  as: 'coupon',
+  foreignKey: 'couponId',
+  onDelete: 'SET NULL',
+  onUpdate: 'CASCADE'
+});
+
+CompetitionParticipation.belongsTo(Coupon, {
+  as: 'coupon',
+  foreignKey: 'couponId',
+  onDelete: 'SET NULL',
+  onUpdate: 'CASCADE'
+});
+
+// Invoice associations
+Order.hasOne(Invoice, {
+  as: 'invoice',
+  foreignKey: 'orderId',
+  onDelete: 'RESTRICT',
+  onUpdate: 'CASCADE'
+});
+
+Invoice.belongsTo(Order, {
+  as: 'order',
+  foreignKey: 'orderId',
+  onDelete: 'RESTRICT',
+  onUpdate: 'CASCADE'
+});
+
+User.hasMany(Invoice, {
+  as: 'invoices',
+  foreignKey: 'userId',
+  onDelete: 'RESTRICT',
+  onUpdate: 'CASCADE'
+});
+
+Invoice.belongsTo(User, {
+  as: 'user',
+  foreignKey: 'userId',
+  onDelete: 'RESTRICT',
+  onUpdate: 'CASCADE'
+});
+
+Invoice.belongsTo(Plan, {
+  as: 'plan',
+  foreignKey: 'planId',
+  onDelete: 'RESTRICT',
+  onUpdate: 'CASCADE'
+});
+
+// ExportJob associations
+ExportJob.belongsTo(User, {
+  as: 'requester',
+  foreignKey: 'requestedBy',
+  onDelete: 'CASCADE',
+  onUpdate: 'CASCADE'
+});
+
+// PayoutBatch associations
+PayoutBatch.belongsTo(User, {
+  as: 'creator',
+  foreignKey: 'createdBy',
+  onDelete: 'RESTRICT',
+  onUpdate: 'CASCADE'
+});
+
+PayoutBatch.hasMany(PayoutBatchItem, {
+  as: 'items',
+  foreignKey: 'batchId',
+  onDelete: 'CASCADE',
+  onUpdate: 'CASCADE'
+});
+
+PayoutBatchItem.belongsTo(PayoutBatch, {
+  as: 'batch',
+  foreignKey: 'batchId',
+  onDelete: 'CASCADE',
+  onUpdate: 'CASCADE'
+});
+
+Withdrawal.hasOne(PayoutBatchItem, {
+  as: 'payoutItem',
+  foreignKey: 'withdrawalId',
+  onDelete: 'RESTRICT',
+  onUpdate: 'CASCADE'
+});
+
+PayoutBatchItem.belongsTo(Withdrawal, {
+  as: 'withdrawal',
+  foreignKey: 'withdrawalId',
+  onDelete: 'RESTRICT',
+  onUpdate: 'CASCADE'
+});
+
+PayoutBatchItem.belongsTo(User, {
+  as: 'user',
+  foreignKey: 'userId',
+  onDelete: 'RESTRICT',
+  onUpdate: 'CASCADE'
+});
+
+// TdsDeduction associations
+User.hasMany(TdsDeduction, {
+  as: 'tdsDeductions',
+  foreignKey: 'userId',
+  onDelete: 'RESTRICT',
+  onUpdate: 'CASCADE'
+});
+
+TdsDeduction.belongsTo(User, {
+  as: 'user',
+  foreignKey: 'userId',
+  onDelete: 'RESTRICT',
+  onUpdate: 'CASCADE'
+});
+
+Withdrawal.hasOne(TdsDeduction, {
+  as: 'tdsDeduction',
+  foreignKey: 'withdrawalId',
+  onDelete: 'RESTRICT',
+  onUpdate: 'CASCADE'
+});
+
+TdsDeduction.belongsTo(Withdrawal, {
+  as: 'withdrawal',
+  foreignKey: 'withdrawalId',
+  onDelete: 'RESTRICT',
+  onUpdate: 'CASCADE'
+});
+
+// PayoutDestination associations
+User.hasMany(PayoutDestination, {
+  as: 'payoutDestinations',
+  foreignKey: 'userId',
+  onDelete: 'CASCADE',
+  onUpdate: 'CASCADE'
+});
+
+PayoutDestination.belongsTo(User, {
+  as: 'user',
+  foreignKey: 'userId',
+  onDelete: 'CASCADE',
+  onUpdate: 'CASCADE'
+});
+
+PayoutDestination.hasMany(Withdrawal, {
+  as: 'withdrawals',
+  foreignKey: 'payoutDestinationId',
+  onDelete: 'RESTRICT',
+  onUpdate: 'CASCADE'
+});
+
+Withdrawal.belongsTo(PayoutDestination, {
+  as: 'payoutDestination',
+  foreignKey: 'payoutDestinationId',
+  onDelete: 'RESTRICT',
+  onUpdate: 'CASCADE'
+});
+
+export { Plan, PlanRequest, Payment, User, Wallet, WalletTransaction, Withdrawal, UserBV, BVLog, Level, Video, Kyc, CertificateRequest, Competition, CompetitionParticipation, LedgerAccount, JournalEntry, JournalLine, WalletReconciliation, BvMatch, BvFlushLog, PayoutCycle, PayoutCycleItem, ScheduledJob, ActivationEvent, UserTreePath, UtrRegistry, BankStatementImport, BankStatementLine, UpiPaymentIntent, GatewayOrder, WebhookEvent, Order, OrderEvent, Refund, RefundReversal, RecoveryDue, UserPlan, Coupon, CouponRedemption, Invoice, InvoiceSequence, ExportJob, PayoutBatch, PayoutBatchItem, TdsDeduction, PayoutDestination };
 
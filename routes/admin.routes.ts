@@ -12,9 +12,11 @@ import {
   updateSponsorBonus,
   getSponsorBonus,
   updateTds,
-  getTds
+  getTds,
+  getActivationEvents,
+  retryActivationEvent
 } from "../controllers/admin.controller.ts";
-import { authenticateJWT } from "@/middlewares/protected.ts";
+import { authenticateJWT, requireRole } from "@/middlewares/protected.ts";
 // import { authenticateJWT } from "../middlewares/jwt.ts";
 // import { requireAdmin } from "../middlewares/protected.ts";
 
@@ -47,4 +49,8 @@ router.put("/sponsor-bonus", updateSponsorBonus);
 router.get("/tds", getTds);
 router.put("/tds", updateTds);
 
+// Activation outbox
+router.get("/activation-events", requireRole("admin"), getActivationEvents);
+router.post("/activation-events/:id/retry", requireRole("admin"), retryActivationEvent);
+
 export default router;
\ No newline at end of file
@@ -5,9 +5,13 @@ import {
   getUserBV,
   getUserBVTree,
   getBVStats,
-  getBVLogsUser
+  getBVLogsUser,
+  getMyMatches,
+  getAllMatches,
+  getFlushLogs,
+  getCappingReport
 } from "../controllers/bv.controller.ts";
-import { authenticateJWT } from "../middlewares/protected.ts";
+import { authenticateJWT, requireRole } from "../middlewares/protected.ts";
 
 const router = express.Router();
 
@@ -21,5 +25,11 @@ router.get("/user-bv/:username", getUserBV);
 router.get("/user-bv-tree/:username", getUserBVTree);
 router.get("/stats", getBVStats);
 router.get("/my-bv-logs", getBVLogsUser);
+router.get("/my-matches", getMyMatches);
+
+// Admin routes
+router.get("/admin/matches", requireRole("admin"), getAllMatches);
+router.get("/admin/flushes", requireRole("admin"), getFlushLogs);
+router.get("/admin/capping-report", requireRole("admin"), getCappingReport);
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,26 @@
+import express from "express";
+import {
+  getCoupons,
+  getCouponById,
+  createCoupon,
+  updateCoupon,
+  deactivateCoupon,
+  getCouponRedemptions,
+  validateCoupon
+} from "../controllers/coupon.controller.ts";
+import { adminProtected, authenticateJWT } from "../middlewares/protected.ts";
+
+const router = express.Router();
+
+// User routes
+router.post("/validate", authenticateJWT, validateCoupon);
+
+// Admin routes (require admin authentication)
+router.get("/", ...adminProtected, getCoupons);
+router.post("/", ...adminProtected, createCoupon);
+router.get("/:id", ...adminProtected, getCouponById);
+router.put("/:id", ...adminProtected, updateCoupon);
+router.delete("/:id", ...adminProtected, deactivateCoupon);
+router.get("/:id/redemptions", ...adminProtected, getCouponRedemptions);
+
+export default router;
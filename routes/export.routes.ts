@@ -0,0 +1,18 @@
+import express from "express";
+import {
+  createExport,
+  getExports,
+  getExportById,
+  downloadExport
+} from "../controllers/export.controller.ts";
+import { adminProtected } from "../middlewares/protected.ts";
+
+const router = express.Router();
+
+// Admin routes (require admin authentication)
+router.post("/", ...adminProtected, createExport);
+router.get("/", ...adminProtected, getExports);
+router.get("/:id", ...adminProtected, getExportById);
+router.get("/:id/download", ...adminProtected, downloadExport);
+
+export default router;
@@ -0,0 +1,18 @@
+import express from "express";
+import {
+  getMyInvoices,
+  getInvoices,
+  exportGstr1
+} from "../controllers/invoice.controller.ts";
+import { adminProtected, authenticateJWT } from "../middlewares/protected.ts";
+
+const router = express.Router();
+
+// User routes
+router.get("/my", authenticateJWT, getMyInvoices);
+
+// Admin routes (require admin authentication)
+router.get("/", ...adminProtected, getInvoices);
+router.get("/gstr1", ...adminProtected, exportGstr1);
+
+export default router;
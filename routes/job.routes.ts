@@ -0,0 +1,16 @@
+import express from "express";
+import {
+  getScheduledJobs,
+  updateScheduledJob,
+  runScheduledJob
+} from "../controllers/job.controller.ts";
+import { adminProtected } from "../middlewares/protected.ts";
+
+const router = express.Router();
+
+// Admin routes (require admin authentication)
+router.get("/", ...adminProtected, getScheduledJobs);
+router.put("/:name", ...adminProtected, updateScheduledJob);
+router.post("/:name/run", ...adminProtected, runScheduledJob);
+
+export default router;
@@ -0,0 +1,34 @@
+import express from "express";
+import {
+  getLedgerAccounts,
+  getTrialBalance,
+  getJournalEntries,
+  rebuildUserWallet,
+  getRecoveryDues
+} from "../controllers/ledger.controller.ts";
+import {
+  runReconciliation,
+  getReconciliations,
+  getUserDrift,
+  applyReconciliation,
+  ignoreReconciliation
+} from "../controllers/reconciliation.controller.ts";
+import { adminProtected } from "../middlewares/protected.ts";
+
+const router = express.Router();
+
+// Admin routes (require admin authentication)
+router.get("/accounts", ...adminProtected, getLedgerAccounts);
+router.get("/trial-balance", ...adminProtected, getTrialBalance);
+router.get("/entries", ...adminProtected, getJournalEntries);
+router.post("/users/:userId/rebuild", ...adminProtected, rebuildUserWallet);
+router.get("/recovery-dues", ...adminProtected, getRecoveryDues);
+
+// Wallet reconciliation
+router.post("/reconciliations/run", ...adminProtected, runReconciliation);
+router.get("/reconciliations", ...adminProtected, getReconciliations);
+router.get("/reconciliations/users/:userId", ...adminProtected, getUserDrift);
+router.put("/reconciliations/:id/apply", ...adminProtected, applyReconciliation);
+router.put("/reconciliations/:id/ignore", ...adminProtected, ignoreReconciliation);
+
+export default router;
@@ -0,0 +1,14 @@
+import express from "express";
+import { getOrders, getMyOrders, getOrderById } from "../controllers/order.controller.ts";
+import { adminProtected, authenticateJWT } from "../middlewares/protected.ts";
+
+const router = express.Router();
+
+// User routes
+router.get("/my", authenticateJWT, getMyOrders);
+
+// Admin routes (require admin authentication)
+router.get("/", ...adminProtected, getOrders);
+router.get("/:id", ...adminProtected, getOrderById);
+
+export default router;
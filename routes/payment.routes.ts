@@ -4,6 +4,7 @@ import {
   getUserPayments, 
   getAllPayments, 
   updatePaymentStatus, 
+  refundPayment,
   getPaymentStats,
   getUserWallet,
   getWalletTransactions,
@@ -12,6 +13,14 @@ import {
   getUserWithdrawals,
   updateWithdrawalStatus
 } from "../controllers/payment.controller.ts";
+import {
+  importBankStatement,
+  getBankStatementImports,
+  getBankStatementImport
+} from "../controllers/bankStatement.controller.ts";
+import { createUpiIntent, getUpiIntentQr } from "../controllers/upiIntent.controller.ts";
+import { getPaymentProviders, createGatewayOrder } from "../controllers/paymentGateway.controller.ts";
+import { uploadCsv } from "../middlewares/upload.ts";
 import { adminProtected, authenticateJWT } from "../middlewares/protected.ts";
 // import { authenticateToken } from "../middlewares/jwt.ts";
 // import { requireAdmin } from "../middlewares/protected.ts";
@@ -22,6 +31,14 @@ const router = express.Router();
 router.post("/", authenticateJWT, createPayment);
 router.get("/my-payments",  getUserPayments);
 
+// UPI intent links and QR codes
+router.post("/upi-intents", authenticateJWT, createUpiIntent);
+router.get("/upi-intents/:reference/qr", authenticateJWT, getUpiIntentQr);
+
+// Online payments through a gateway (webhooks live under /api/webhooks)
+router.get("/gateway/providers", authenticateJWT, getPaymentProviders);
+router.post("/gateway/orders", authenticateJWT, createGatewayOrder);
+
 // Wallet routes
 router.get("/wallet", authenticateJWT, getUserWallet);
 router.get("/wallet/transactions", authenticateJWT, getWalletTransactions);
@@ -34,7 +51,13 @@ router.get("/withdrawals", authenticateJWT, getUserWithdrawals);
 // Admin routes (require authentication + admin role)
 router.get("/admin/all", authenticateJWT, getAllPayments);
 router.put("/admin/:paymentId/status", authenticateJWT, updatePaymentStatus);
+router.post("/admin/:paymentId/refund", ...adminProtected, refundPayment);
 router.get("/admin/stats", authenticateJWT,  getPaymentStats);
 router.put("/admin/withdrawals/:withdrawalId/status", authenticateJWT, updateWithdrawalStatus);
 
+// Bank/UPI statement matching
+router.post("/admin/statements", ...adminProtected, uploadCsv.single('file'), importBankStatement);
+router.get("/admin/statements", ...adminProtected, getBankStatementImports);
+router.get("/admin/statements/:id", ...adminProtected, getBankStatementImport);
+
 export default router;
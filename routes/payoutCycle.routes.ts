@@ -0,0 +1,22 @@
+import express from "express";
+import {
+  getPayoutCycles,
+  getPayoutCycleById,
+  createPayoutCycle,
+  approvePayoutCycle,
+  retryPayoutCycle,
+  rejectPayoutCycle
+} from "../controllers/payoutCycle.controller.ts";
+import { adminProtected } from "../middlewares/protected.ts";
+
+const router = express.Router();
+
+// Admin routes (require admin authentication)
+router.get("/", ...adminProtected, getPayoutCycles);
+router.post("/", ...adminProtected, createPayoutCycle);
+router.get("/:id", ...adminProtected, getPayoutCycleById);
+router.put("/:id/approve", ...adminProtected, approvePayoutCycle);
+router.put("/:id/retry", ...adminProtected, retryPayoutCycle);
+router.put("/:id/reject", ...adminProtected, rejectPayoutCycle);
+
+export default router;
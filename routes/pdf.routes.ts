@@ -1,6 +1,6 @@
 import express from "express";
 import * as pdfController from "../controllers/pdf.controller.ts";
-import { authenticateJWT } from "../middlewares/protected.ts";
+import { adminProtected, authenticateJWT } from "../middlewares/protected.ts";
 
 const pdfRoutes = express.Router();
 
@@ -15,4 +15,25 @@ pdfRoutes.get("/all-plan-requests",
   pdfController.downloadAllPaymentSlips
 );
 
+pdfRoutes.get("/invoice/:orderId",
+  authenticateJWT,
+  pdfController.downloadInvoice
+);
+
+pdfRoutes.get("/tds-certificate",
+  authenticateJWT,
+  pdfController.downloadTdsCertificate
+);
+
+// Admin routes (require admin authentication)
+pdfRoutes.get("/admin/invoice/:orderId",
+  ...adminProtected,
+  pdfController.downloadInvoiceForAdmin
+);
+
+pdfRoutes.get("/admin/tds-certificate/:userId",
+  ...adminProtected,
+  pdfController.downloadTdsCertificateForAdmin
+);
+
 export default pdfRoutes;
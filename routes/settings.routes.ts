@@ -4,7 +4,19 @@ import {
   updateAdminUPIConfig, 
   getAllAdminConfigs, 
   updateAdminConfig, 
-  deleteAdminConfig 
+  deleteAdminConfig,
+  getCompensationPlanConfig,
+  updateCompensationPlanConfig,
+  getPlacementConfig,
+  updatePlacementConfig,
+  getGstInvoiceConfig,
+  updateGstInvoiceConfig,
+  getPayoutBatchConfig,
+  updatePayoutBatchConfig,
+  getTdsPolicyConfig,
+  updateTdsPolicyConfig,
+  getWithdrawalRulesConfig,
+  updateWithdrawalRulesConfig
 } from "../controllers/settings.controller.ts";
 import { verifyToken } from "../middlewares/jwt.ts";
 import { adminProtected, authenticateJWT, requireRole } from "../middlewares/protected.ts";
@@ -19,5 +31,17 @@ router.get("/admin/configs", authenticateJWT, requireRole("admin"), getAllAdminC
 router.put("/admin/configs", authenticateJWT, requireRole("admin"), updateAdminConfig);
 router.put("/upi-config", authenticateJWT, requireRole("admin"), updateAdminUPIConfig);
 router.delete("/admin/configs/:category/:key", authenticateJWT, requireRole("admin"), deleteAdminConfig);
+router.get("/admin/compensation-plan", authenticateJWT, requireRole("admin"), getCompensationPlanConfig);
+router.put("/admin/compensation-plan", authenticateJWT, requireRole("admin"), updateCompensationPlanConfig);
+router.get("/admin/placement-policy", authenticateJWT, requireRole("admin"), getPlacementConfig);
+router.put("/admin/placement-policy", authenticateJWT, requireRole("admin"), updatePlacementConfig);
+router.get("/admin/gst-invoice", authenticateJWT, requireRole("admin"), getGstInvoiceConfig);
+router.put("/admin/gst-invoice", authenticateJWT, requireRole("admin"), updateGstInvoiceConfig);
+router.get("/admin/payout-batch", authenticateJWT, requireRole("admin"), getPayoutBatchConfig);
+router.put("/admin/payout-batch", authenticateJWT, requireRole("admin"), updatePayoutBatchConfig);
+router.get("/admin/tds-policy", authenticateJWT, requireRole("admin"), getTdsPolicyConfig);
+router.put("/admin/tds-policy", authenticateJWT, requireRole("admin"), updateTdsPolicyConfig);
+router.get("/admin/withdrawal-rules", authenticateJWT, requireRole("admin"), getWithdrawalRulesConfig);
+router.put("/admin/withdrawal-rules", authenticateJWT, requireRole("admin"), updateWithdrawalRulesConfig);
 
 export default router;
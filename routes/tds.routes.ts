@@ -0,0 +1,18 @@
+import express from "express";
+import {
+  getMyTds,
+  getTdsDeductions,
+  exportForm26Q
+} from "../controllers/tds.controller.ts";
+import { adminProtected, authenticateJWT } from "../middlewares/protected.ts";
+
+const router = express.Router();
+
+// User routes (certificates are under /api/pdf)
+router.get("/my", authenticateJWT, getMyTds);
+
+// Admin routes (require admin authentication)
+router.get("/", ...adminProtected, getTdsDeductions);
+router.get("/26q", ...adminProtected, exportForm26Q);
+
+export default router;
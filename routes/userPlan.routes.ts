@@ -10,9 +10,12 @@ userPlanRoutes.use(authenticateJWT);
 // Get user's plan requests
 userPlanRoutes.get("/my-requests", userPlanController.getMyPlanRequests);
 
-// Get user's active plans (approved)
+// Get user's current plan and plan history
 userPlanRoutes.get("/my-active-plans", userPlanController.getMyActivePlans);
 
+// Price a plan for the user (full price, the difference for an upgrade, or a renewal)
+userPlanRoutes.get("/upgrade-quote/:planId", userPlanController.getUpgradeQuote);
+
 // Get user's plan statistics
 userPlanRoutes.get("/my-stats", userPlanController.getMyPlanStats);
 
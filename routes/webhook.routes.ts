@@ -0,0 +1,9 @@
+import express from "express";
+import { handlePaymentWebhook } from "../controllers/paymentGateway.controller.ts";
+
+const router = express.Router();
+
+// Signatures are computed over the exact bytes sent, so the body is kept raw
+router.post("/:provider", express.raw({ type: "*/*", limit: "1mb" }), handlePaymentWebhook);
+
+export default router;
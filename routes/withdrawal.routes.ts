@@ -1,28 +1,65 @@
 import express from "express";
 import { 
   requestWithdrawal,
+  previewWithdrawal,
   getMyWithdrawals,
   getWithdrawalBalance,
   getAllWithdrawals,
   approveWithdrawal,
   rejectWithdrawal,
+  processWithdrawal,
   completeWithdrawal,
+  failWithdrawal,
+  sendUpiPayout,
+  refreshUpiPayout,
   getWithdrawalStats
 } from "../controllers/withdrawal.controller.ts";
+import {
+  createPayoutBatch,
+  getPayoutBatches,
+  getPayoutBatch,
+  downloadPayoutBatchFile,
+  importPayoutBatchResponse
+} from "../controllers/payoutBatch.controller.ts";
+import {
+  getMyPayoutDestinations,
+  addPayoutDestination,
+  verifyPayoutDestination,
+  removePayoutDestination
+} from "../controllers/payoutDestination.controller.ts";
+import { uploadCsv } from "../middlewares/upload.ts";
 import { authenticateJWT, adminProtected } from "../middlewares/protected.ts";
 
 const router = express.Router();
 
 // User routes (require authentication)
 router.post("/request", authenticateJWT, requestWithdrawal);
+router.get("/preview", authenticateJWT, previewWithdrawal);
 router.get("/my-withdrawals", authenticateJWT, getMyWithdrawals);
 router.get("/balance", authenticateJWT, getWithdrawalBalance);
 
+// UPI IDs members withdraw to
+router.get("/destinations", authenticateJWT, getMyPayoutDestinations);
+router.post("/destinations", authenticateJWT, addPayoutDestination);
+router.post("/destinations/:id/verify", authenticateJWT, verifyPayoutDestination);
+router.delete("/destinations/:id", authenticateJWT, removePayoutDestination);
+
 // Admin routes (require admin authentication)
 router.get("/admin/all", ...adminProtected, getAllWithdrawals);
 router.get("/admin/stats", ...adminProtected, getWithdrawalStats);
 router.put("/admin/:withdrawalId/approve", ...adminProtected, approveWithdrawal);
 router.put("/admin/:withdrawalId/reject", ...adminProtected, rejectWithdrawal);
+router.put("/admin/:withdrawalId/processing", ...adminProtected, processWithdrawal);
 router.put("/admin/:withdrawalId/complete", ...adminProtected, completeWithdrawal);
+router.put("/admin/:withdrawalId/fail", ...adminProtected, failWithdrawal);
+router.put("/admin/:withdrawalId/upi-payout", ...adminProtected, sendUpiPayout);
+router.put("/admin/:withdrawalId/upi-payout/refresh", ...adminProtected, refreshUpiPayout);
+
+// Bank bulk-transfer batches
+router.post("/admin/batches", ...adminProtected, createPayoutBatch);
+router.get("/admin/batches", ...adminProtected, getPayoutBatches);
+router.get("/admin/batches/:id", ...adminProtected, getPayoutBatch);
+router.get("/admin/batches/:id/file", ...adminProtected, downloadPayoutBatchFile);
+router.post("/admin/batches/:id/response", ...adminProtected, uploadCsv.single('file'), importPayoutBatchResponse);
 
 export default router;
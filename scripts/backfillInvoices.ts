@@ -0,0 +1,24 @@
+import '../models/associations.ts';
+import { InvoiceService } from '../services/invoiceService.ts';
+
+/**
+ * Issue tax invoices for activated orders that have none: orders from
+ * before invoicing, or from before the company GSTIN was configured. Set
+ * the GSTIN first; safe to run again.
+ */
+const backfillInvoices = async () => {
+  try {
+    console.log('🧾 Issuing invoices for activated orders...');
+
+    const summary = await InvoiceService.backfill();
+
+    console.log(`✅ Issued ${summary.issued} invoices (${summary.skipped} orders skipped)`);
+    process.exit(0);
+  } catch (error) {
+    console.error('❌ Error backfilling invoices:', error);
+    process.exit(1);
+  }
+};
+
+// Run the backfill
+backfillInvoices();
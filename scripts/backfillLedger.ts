@@ -0,0 +1,74 @@
+import { sequelize } from '../utils/db.ts';
+import '../models/associations.ts';
+import { Wallet } from '../models/Wallet.ts';
+import { LedgerService } from '../services/ledgerService.ts';
+import { toPaise } from '../utils/money.ts';
+
+/**
+ * Post opening journal entries for wallets that existed before the ledger.
+ * Safe to re-run: opening entries use fixed references per user.
+ */
+const backfillLedger = async () => {
+  try {
+    console.log('📒 Backfilling ledger opening balances...');
+
+    const equity = await LedgerService.getSystemAccount('OPENING_BALANCE_EQUITY');
+    const bank = await LedgerService.getSystemAccount('COMPANY_BANK');
+    const wallets = await Wallet.findAll({ order: [['userId', 'ASC']] });
+
+    let posted = 0;
+    for (const wallet of wallets) {
+      const earned = Number(wallet.totalEarned);
+      const withdrawn = Number(wallet.totalWithdrawn);
+
+      const transaction = await sequelize.transaction();
+      try {
+        const account = await LedgerService.getUserWalletAccount(wallet.userId, transaction);
+
+        if (toPaise(earned) > 0) {
+          const { created } = await LedgerService.postEntry({
+            reference: `OPENING_BALANCE_${wallet.userId}`,
+            entryType: 'opening_balance',
+            description: `Opening balance: earnings before ledger for user ${wallet.userId}`,
+            metadata: { walletId: wallet.id, totalEarned: earned },
+            lines: [
+              { accountId: equity.id, debit: earned },
+              { accountId: account.id, credit: earned }
+            ]
+          }, transaction);
+          if (created) posted++;
+        }
+
+        if (toPaise(withdrawn) > 0) {
+          const { created } = await LedgerService.postEntry({
+            reference: `OPENING_WITHDRAWAL_${wallet.userId}`,
+            entryType: 'opening_withdrawal',
+            description: `Opening balance: withdrawals before ledger for user ${wallet.userId}`,
+            metadata: { walletId: wallet.id, totalWithdrawn: withdrawn },
+            lines: [
+              { accountId: account.id, debit: withdrawn },
+              { accountId: bank.id, credit: withdrawn }
+            ]
+          }, transaction);
+          if (created) posted++;
+        }
+
+        await transaction.commit();
+      } catch (error) {
+        await transaction.rollback();
+        console.error(`❌ Failed to backfill wallet of user ${wallet.userId}:`, error);
+      }
+    }
+
+    const trialBalance = await LedgerService.getTrialBalance();
+    console.log(`✅ Posted ${posted} opening entries for ${wallets.length} wallets`);
+    console.log(`⚖️ Trial balance: debits ₹${trialBalance.totalDebit}, credits ₹${trialBalance.totalCredit}, balanced: ${trialBalance.balanced}`);
+    process.exit(0);
+  } catch (error) {
+    console.error('❌ Error backfilling ledger:', error);
+    process.exit(1);
+  }
+};
+
+// Run the backfill
+backfillLedger();
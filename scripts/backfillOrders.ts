@@ -0,0 +1,23 @@
+import '../models/associations.ts';
+import { OrderService } from '../services/orderService.ts';
+
+/**
+ * Link existing payments and plan requests to orders. Run once after the
+ * add-order-id-to-payments-and-plan-requests migration; safe to run again.
+ */
+const backfillOrders = async () => {
+  try {
+    console.log('🧾 Linking payments and plan requests to orders...');
+
+    const summary = await OrderService.backfill();
+
+    console.log(`✅ Linked ${summary.payments} payments and ${summary.planRequests} plan requests into ${summary.orders} new orders`);
+    process.exit(0);
+  } catch (error) {
+    console.error('❌ Error backfilling orders:', error);
+    process.exit(1);
+  }
+};
+
+// Run the backfill
+backfillOrders();
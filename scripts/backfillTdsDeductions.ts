@@ -0,0 +1,24 @@
+import '../models/associations.ts';
+import { TdsService } from '../services/tdsService.ts';
+
+/**
+ * Record TDS deductions for withdrawals paid out before the TDS ledger
+ * existed, so they show in Form 26Q exports and certificates. Run after
+ * the add-tds-to-withdrawals migration; safe to run again.
+ */
+const backfillTdsDeductions = async () => {
+  try {
+    console.log('🧾 Recording TDS for completed withdrawals...');
+
+    const summary = await TdsService.backfill();
+
+    console.log(`✅ Recorded ${summary.recorded} TDS deductions (${summary.skipped} withdrawals skipped)`);
+    process.exit(0);
+  } catch (error) {
+    console.error('❌ Error backfilling TDS deductions:', error);
+    process.exit(1);
+  }
+};
+
+// Run the backfill
+backfillTdsDeductions();
@@ -0,0 +1,23 @@
+import '../models/associations.ts';
+import { TreePathService } from '../services/treePathService.ts';
+
+/**
+ * Rebuild the binary tree closure table from every user's sponsor and
+ * position. Run once after deploying it, and again to repair drift.
+ */
+const backfillTreePaths = async () => {
+  try {
+    console.log('🌳 Rebuilding tree paths...');
+
+    const summary = await TreePathService.rebuildAll();
+
+    console.log(`✅ ${summary.paths} paths for ${summary.users} users, ${summary.levels} levels deep`);
+    process.exit(0);
+  } catch (error) {
+    console.error('❌ Error rebuilding tree paths:', error);
+    process.exit(1);
+  }
+};
+
+// Run the backfill
+backfillTreePaths();
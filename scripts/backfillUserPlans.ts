@@ -0,0 +1,24 @@
+import '../models/associations.ts';
+import { UserPlanService } from '../services/userPlanService.ts';
+
+/**
+ * Build plan history for members activated before it existed. Run once
+ * after the add-upgrade-columns-to-orders-and-bv-logs migration; safe to
+ * run again.
+ */
+const backfillUserPlans = async () => {
+  try {
+    console.log('📚 Building plan history from activated orders...');
+
+    const summary = await UserPlanService.backfill();
+
+    console.log(`✅ Recorded ${summary.userPlans} plan history rows for ${summary.users} members`);
+    process.exit(0);
+  } catch (error) {
+    console.error('❌ Error backfilling plan history:', error);
+    process.exit(1);
+  }
+};
+
+// Run the backfill
+backfillUserPlans();
@@ -0,0 +1,29 @@
+import '../models/associations.ts';
+import { UtrRegistryService } from '../services/utrRegistryService.ts';
+
+/**
+ * Register the UTRs of existing payments and competition participations.
+ * Run once after deploying the UTR registry; safe to run again.
+ */
+const backfillUtrRegistry = async () => {
+  try {
+    console.log('🧾 Registering existing UTRs...');
+
+    const summary = await UtrRegistryService.backfill();
+
+    console.log(`✅ Registered ${summary.registered} UTRs`);
+    if (summary.duplicates.length > 0) {
+      console.log(`⚠️ ${summary.duplicates.length} submissions reuse a UTR already registered:`);
+      for (const duplicate of summary.duplicates) {
+        console.log(`   ${duplicate.utr} → ${duplicate.type} #${duplicate.id}`);
+      }
+    }
+    process.exit(0);
+  } catch (error) {
+    console.error('❌ Error registering UTRs:', error);
+    process.exit(1);
+  }
+};
+
+// Run the backfill
+backfillUtrRegistry();
@@ -0,0 +1,24 @@
+import '../models/associations.ts';
+import { WalletReconciliationService } from '../services/walletReconciliationService.ts';
+
+/**
+ * Nightly wallet reconciliation: recompute every balance and open drift
+ * reports for admins to review.
+ */
+const reconcileWallets = async () => {
+  try {
+    console.log('🧮 Reconciling wallets...');
+
+    const summary = await WalletReconciliationService.runReconciliation();
+
+    console.log(`✅ Checked ${summary.usersChecked} users, ${summary.usersWithDrift} drifting`);
+    console.log(`📊 Total wallet drift ₹${summary.totalWalletDrift}, total income drift ₹${summary.totalUserDrift}`);
+    process.exit(0);
+  } catch (error) {
+    console.error('❌ Error reconciling wallets:', error);
+    process.exit(1);
+  }
+};
+
+// Run the reconciliation
+reconcileWallets();
@@ -0,0 +1,39 @@
+import '../models/associations.ts';
+import { JobRunner } from '../services/jobRunner.ts';
+
+/**
+ * Background job runner.
+ *
+ *   npm run jobs                       poll for due jobs until stopped
+ *   npm run jobs -- --once             run whatever is due, then exit
+ *   npm run jobs -- --job=payout-cycle run one job now, then exit
+ */
+const runJobs = async () => {
+  const args = process.argv.slice(2);
+  const jobArg = args.find(arg => arg.startsWith('--job='));
+  const intervalArg = args.find(arg => arg.startsWith('--interval='));
+
+  try {
+    await JobRunner.ensureDefaultJobs();
+
+    if (jobArg) {
+      const job = await JobRunner.runJob(jobArg.slice('--job='.length));
+      console.log(`🏁 Job ${job.name} ${job.lastStatus}${job.lastError ? `: ${job.lastError}` : ''}`);
+      process.exit(job.lastStatus === 'failed' ? 1 : 0);
+    }
+
+    if (args.includes('--once')) {
+      await JobRunner.runDueJobs();
+      process.exit(0);
+    }
+
+    const intervalSeconds = intervalArg ? Number(intervalArg.slice('--interval='.length)) : 60;
+    JobRunner.start(intervalSeconds * 1000);
+  } catch (error) {
+    console.error('❌ Error running jobs:', error);
+    process.exit(1);
+  }
+};
+
+// Start the runner
+runJobs();
@@ -0,0 +1,48 @@
+import crypto from 'crypto';
+import { FakePaymentProvider } from '../services/paymentProviders/fakeProvider.ts';
+
+/**
+ * Complete (or fail) a fake gateway order by posting a signed webhook to
+ * the local server, the way a real provider would. The server needs
+ * PAYMENT_FAKE_ENABLED=true, and both sides the same
+ * FAKE_PAYMENT_WEBHOOK_SECRET.
+ *
+ *   tsx scripts/sendFakeWebhook.ts <providerOrderId> <amount> [succeeded|failed]
+ */
+const sendFakeWebhook = async () => {
+  const [orderId, amount, result = 'succeeded'] = process.argv.slice(2);
+  if (!orderId || !amount) {
+    console.error('Usage: tsx scripts/sendFakeWebhook.ts <providerOrderId> <amount> [succeeded|failed]');
+    process.exit(1);
+  }
+
+  const body = JSON.stringify({
+    id: `fake_evt_${crypto.randomBytes(8).toString('hex')}`,
+    type: `payment.${result}`,
+    orderId,
+    paymentId: `fake_pay_${crypto.randomBytes(8).toString('hex')}`,
+    amount: Number(amount),
+    reason: result === 'failed' ? 'Declined by fake provider' : undefined
+  });
+
+  const url = `http://localhost:${process.env.PORT || 5000}/api/webhooks/fake`;
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        [FakePaymentProvider.SIGNATURE_HEADER]: FakePaymentProvider.sign(body)
+      },
+      body
+    });
+
+    console.log(`📨 ${response.status}`, await response.text());
+    process.exit(response.ok ? 0 : 1);
+  } catch (error) {
+    console.error('❌ Error sending fake webhook:', error);
+    process.exit(1);
+  }
+};
+
+// Send the webhook
+sendFakeWebhook();
@@ -0,0 +1,175 @@
+import { ActivationEvent } from "../models/ActivationEvent.ts";
+import { BVLog } from "../models/BvLogs.ts";
+import { UserActivationService } from "./userActivationService.ts";
+import { sequelize } from "../utils/db.ts";
+import { Transaction, Op } from "sequelize";
+
+export interface OutboxRunSummary {
+  processed: number;
+  skipped: number;
+  failed: number;
+}
+
+export class ActivationOutboxService {
+  // Failed events are retried automatically until they reach this many attempts
+  static readonly MAX_ATTEMPTS = 5;
+
+  // A processing claim older than this belongs to a worker that died
+  private static readonly LOCK_TIMEOUT_MS = 10 * 60 * 1000;
+
+  /**
+   * Record that a user was activated. Returns the user's existing event if
+   * there is one, so a re-activation never queues a second distribution.
+   * Users whose BV went out before the outbox existed are recorded as
+   * already processed. An event reversed by a refund is queued again.
+   */
+  static async recordActivation(userId: number, transaction?: Transaction): Promise<ActivationEvent> {
+    const existing = await ActivationEvent.findOne({ where: { userId }, transaction });
+    if (existing?.status === 'reversed') {
+      return existing.update({
+        status: 'pending',
+        source: 'activation',
+        attempts: 0,
+        lastError: null,
+        lockedAt: null,
+        processedAt: null
+      }, { transaction });
+    }
+    if (existing) return existing;
+
+    const legacyLog = await BVLog.findOne({
+      where: { sourceUserId: userId, reversedAt: null },
+      attributes: ['id'],
+      transaction
+    });
+
+    const [event] = await ActivationEvent.findOrCreate({
+      where: { userId },
+      defaults: legacyLog
+        ? { userId, status: 'processed', source: 'legacy', processedAt: new Date() }
+        : { userId },
+      transaction
+    });
+
+    return event;
+  }
+
+  /**
+   * Distribute BV for one event. The distribution and the event's final
+   * status commit together, so a crash either leaves the event claimable
+   * again or fully processed. A worker whose claim was taken over as stale
+   * leaves the event to the new owner. Never throws: failures are kept on
+   * the event, or logged and answered with null when the event itself can't
+   * be updated.
+   */
+  static async processEvent(eventId: number): Promise<ActivationEvent | null> {
+    try {
+      // The claim is identified by its lock time, so keep it to the whole
+      // seconds the column stores
+      const now = new Date(Math.floor(Date.now() / 1000) * 1000);
+      const [claimed] = await ActivationEvent.update(
+        { status: 'processing', lockedAt: now },
+        {
+          where: {
+            id: eventId,
+            [Op.or]: [
+              { status: { [Op.in]: ['pending', 'failed'] } },
+              { status: 'processing', lockedAt: { [Op.lt]: new Date(now.getTime() - this.LOCK_TIMEOUT_MS) } }
+            ]
+          }
+        }
+      );
+
+      const event = await ActivationEvent.findByPk(eventId);
+      if (!claimed || !event) return event;
+
+      const attempts = event.attempts + 1;
+      const claim = { id: event.id, status: 'processing', lockedAt: now };
+      try {
+        const owned = await sequelize.transaction(async (t) => {
+          // Distributing twice would add the BV to the upline twice
+          const current = await ActivationEvent.findOne({ where: claim, lock: t.LOCK.UPDATE, transaction: t });
+          if (!current) return false;
+
+          const result = await UserActivationService.handleUserActivation(event.userId, t);
+
+          await ActivationEvent.update({
+            status: result.distributed ? 'processed' : 'skipped',
+            bvAmount: result.bvAmount,
+            levels: result.levels,
+            attempts,
+            lastError: null,
+            lockedAt: null,
+            processedAt: new Date()
+          }, { where: claim, transaction: t });
+          return true;
+        });
+        if (!owned) {
+          console.warn(`⚠️ Activation event ${event.id} was taken over by another worker`);
+        }
+      } catch (error: any) {
+        console.error(`❌ Activation event ${event.id} for user ${event.userId} failed:`, error);
+        await ActivationEvent.update({
+          status: 'failed',
+          attempts,
+          lastError: error.message || String(error),
+          lockedAt: null
+        }, { where: claim });
+      }
+
+      return await event.reload();
+    } catch (error: any) {
+      // Runs from afterCommit hooks nobody awaits, so a rejection here would be unhandled
+      console.error(`❌ Activation event ${eventId} could not be processed:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Process pending events, retry failed ones that still have attempts left
+   * and recover events left processing by a dead worker
+   */
+  static async processPending(limit: number = 100): Promise<OutboxRunSummary> {
+    const staleBefore = new Date(Date.now() - this.LOCK_TIMEOUT_MS);
+    const events = await ActivationEvent.findAll({
+      where: {
+        [Op.or]: [
+          { status: 'pending' },
+          { status: 'failed', attempts: { [Op.lt]: this.MAX_ATTEMPTS } },
+          { status: 'processing', lockedAt: { [Op.lt]: staleBefore } }
+        ]
+      },
+      order: [['createdAt', 'ASC']],
+      limit
+    });
+
+    const summary: OutboxRunSummary = { processed: 0, skipped: 0, failed: 0 };
+    for (const { id } of events) {
+      const event = await this.processEvent(id);
+      if (event?.status === 'processed') summary.processed++;
+      else if (event?.status === 'skipped') summary.skipped++;
+      else if (!event || event.status === 'failed') summary.failed++;
+    }
+
+    return summary;
+  }
+
+  /**
+   * Retry a failed event now, even if it has used up its attempts
+   */
+  static async retryEvent(eventId: number): Promise<ActivationEvent> {
+    const event = await ActivationEvent.findByPk(eventId);
+    if (!event) {
+      throw new Error("Activation event not found");
+    }
+    if (event.status !== 'failed') {
+      throw new Error(`Activation event is ${event.status}, only failed events can be retried`);
+    }
+
+    const processed = await this.processEvent(event.id);
+    if (!processed) {
+      throw new Error("Activation event could not be processed, try again shortly");
+    }
+    return processed;
+  }
+}
@@ -1,8 +1,11 @@
 import { User } from '../models/User.ts';
 import { UserBV } from '../models/UserBv.ts';
 import { BVLog } from '../models/BvLogs.ts';
+import { BvMatch } from '../models/BvMatch.ts';
 import { Plan } from '../models/Plan.ts';
-import { PlanRequest } from '../models/PlanRequest.ts';
+import { LedgerService } from './ledgerService.ts';
+import { BVMatchingService } from './bvMatchingService.ts';
+import { CompensationPlanEngine } from './compensationPlanEngine.ts';
 import { sequelize } from '../utils/db.ts';
 import { Transaction, Op } from 'sequelize';
 
@@ -26,7 +29,6 @@ export interface BVMatch {
 }
 
 export class AdvancedBVMatchingService {
-  private static readonly DEFAULT_BV_PER_REFERRAL = 50;
   private static readonly MAX_MATCHING_LEVELS = 10; // Prevent infinite loops
 
   /**
@@ -50,7 +52,8 @@ export class AdvancedBVMatchingService {
         };
       }
 
-      const planBv = Number(plan.bvValue) || 0;
+      const config = await CompensationPlanEngine.getConfig(transaction);
+      const planBv = CompensationPlanEngine.getBVForPlan(plan.id, config);
       
       // Add BV to user's BV record
       await this.addBVToUser(userId, planBv, transaction);
@@ -135,6 +138,7 @@ export class AdvancedBVMatchingService {
           userId: sponsor.id,
           sourceUserId: newUser.id,
           points: bvAmount,
+          side: newUser.position as 'left' | 'right',
           matched: false
         }, { transaction });
       }
@@ -219,6 +223,7 @@ export class AdvancedBVMatchingService {
           userId: sponsor.id,
           sourceUserId: newUser.id,
           points: bvAmount,
+          side: position,
           matched: false
         }, { transaction });
         console.log(`📝 Created BV log entry`);
@@ -236,14 +241,18 @@ export class AdvancedBVMatchingService {
   }
 
   /**
-   * Add nested BV to entire upline chain (NEW METHOD)
+   * Add nested BV to entire upline chain (NEW METHOD). Follows placement
+   * parents, crediting each ancestor on the leg the new user sits in.
+   * Upgrades pass their order so the BV can be traced back to it.
    */
   static async addNestedBVToUpline(
     newUserId: number,
     bvAmount: number,
-    position: 'left' | 'right'
-  ): Promise<void> {
-    const transaction = await sequelize.transaction();
+    newUserPosition: 'left' | 'right',
+    externalTransaction?: Transaction,
+    orderId: number | null = null
+  ): Promise<number> {
+    const transaction = externalTransaction || await sequelize.transaction();
     
     try {
       console.log(`🌳 Starting nested BV distribution for user ${newUserId}`);
@@ -252,21 +261,28 @@ export class AdvancedBVMatchingService {
       let level = 0;
       const maxLevels = 20; // Prevent infinite loops
       
-      // Go up the entire referral chain
+      // Go up the entire placement chain
       while (currentUserId && level < maxLevels) {
         const currentUser = await User.findByPk(currentUserId, { transaction });
-        if (!currentUser || !currentUser.sponsorId) {
+        if (!currentUser || !currentUser.placementParentId) {
           console.log(`🏁 Reached end of upline chain at level ${level}`);
           break;
         }
 
         const sponsor = await User.findOne({ 
-          where: { username: currentUser.sponsorId }, 
+          where: { username: currentUser.placementParentId }, 
           transaction 
         });
         
         if (!sponsor) {
-          console.log(`⚠️ Sponsor not found: ${currentUser.sponsorId}`);
+          console.log(`⚠️ Placement parent not found: ${currentUser.placementParentId}`);
+          break;
+        }
+
+        // The new member sits in the leg of this ancestor that the path came up through
+        const position = level === 0 ? newUserPosition : currentUser.position;
+        if (!position) {
+          console.log(`⚠️ ${currentUser.username} has no position under ${sponsor.username}`);
           break;
         }
 
@@ -288,7 +304,7 @@ export class AdvancedBVMatchingService {
           }, { transaction });
         }
 
-        // Add BV to the side where the new user is joining (same side for all upline)
+        // Add BV to the side where the new user is joining for this ancestor
         if (position === 'left') {
           const newLeftBV = Number(sponsorBV.leftBV) + bvAmount;
           const newCarryLeft = Number(sponsorBV.carryLeft) + bvAmount;
@@ -296,7 +312,7 @@ export class AdvancedBVMatchingService {
             leftBV: newLeftBV,      // Lifetime left BV (never decreases)
             carryLeft: newCarryLeft // Current left BV for matching
           }, { transaction });
-          console.log(`⬅️ Added ${bvAmount} to LEFT side for ALL upline: ${sponsorBV.leftBV} → ${newLeftBV} (lifetime), ${sponsorBV.carryLeft} → ${newCarryLeft} (carry)`);
+          console.log(`⬅️ Added ${bvAmount} to LEFT side: ${sponsorBV.leftBV} → ${newLeftBV} (lifetime), ${sponsorBV.carryLeft} → ${newCarryLeft} (carry)`);
         } else if (position === 'right') {
           const newRightBV = Number(sponsorBV.rightBV) + bvAmount;
           const newCarryRight = Number(sponsorBV.carryRight) + bvAmount;
@@ -304,14 +320,16 @@ export class AdvancedBVMatchingService {
             rightBV: newRightBV,      // Lifetime right BV (never decreases)
             carryRight: newCarryRight // Current right BV for matching
           }, { transaction });
-          console.log(`➡️ Added ${bvAmount} to RIGHT side for ALL upline: ${sponsorBV.rightBV} → ${newRightBV} (lifetime), ${sponsorBV.carryRight} → ${newCarryRight} (carry)`);
+          console.log(`➡️ Added ${bvAmount} to RIGHT side: ${sponsorBV.rightBV} → ${newRightBV} (lifetime), ${sponsorBV.carryRight} → ${newCarryRight} (carry)`);
         }
 
         // Log the BV addition
         await BVLog.create({
           userId: sponsor.id,
           sourceUserId: newUserId,
+          orderId,
           points: bvAmount,
+          side: position,
           matched: false
         }, { transaction });
 
@@ -320,10 +338,11 @@ export class AdvancedBVMatchingService {
         level++;
       }
 
-      await transaction.commit();
+      if (!externalTransaction) await transaction.commit();
       console.log(`✅ Nested BV distribution completed for ${level} levels`);
+      return level;
     } catch (error) {
-      await transaction.rollback();
+      if (!externalTransaction) await transaction.rollback();
       console.error(`❌ Nested BV distribution failed:`, error);
       throw error;
     }
@@ -348,18 +367,14 @@ export class AdvancedBVMatchingService {
 
     // Add BV to the appropriate side based on user's position
     const user = await User.findByPk(userId, { transaction });
-    if (!user || !user.sponsorId) return;
+    if (!user || !user.placementParentId) return;
 
-    const sponsor = await User.findOne({ where: { username: user.sponsorId }, transaction });
+    const sponsor = await User.findOne({ where: { username: user.placementParentId }, transaction });
     if (!sponsor) return;
 
     // Find which side this user is on
-    const leftReferral = await User.findOne({ 
-      where: { sponsorId: sponsor.username, position: 'left' }, 
-      transaction 
-    });
-    
-    if (leftReferral && leftReferral.id === userId) {
+    const side = user.position === 'left' ? 'left' : 'right';
+    if (side === 'left') {
       // User is on left side
       await userBV.update({
         leftBV: Number(userBV.leftBV) + bvAmount
@@ -376,6 +391,7 @@ export class AdvancedBVMatchingService {
       userId: sponsor.id,
       sourceUserId: userId,
       points: bvAmount,
+      side,
       matched: false
     }, { transaction });
   }
@@ -415,10 +431,10 @@ export class AdvancedBVMatchingService {
     // Go up the tree to find sponsors and process matches
     while (currentUserId && level < this.MAX_MATCHING_LEVELS) {
       const currentUser = await User.findByPk(currentUserId, { transaction });
-      if (!currentUser || !currentUser.sponsorId) break;
+      if (!currentUser || !currentUser.placementParentId) break;
 
       const sponsor = await User.findOne({ 
-        where: { username: currentUser.sponsorId }, 
+        where: { username: currentUser.placementParentId }, 
         transaction 
       });
       
@@ -468,10 +484,18 @@ export class AdvancedBVMatchingService {
       return null;
     }
 
-    // Calculate matchable BV (minimum of both sides)
-    const matchableBv = Math.min(leftBv, rightBv);
+    // Let the compensation plan decide how many pairs the BV makes
+    const config = await CompensationPlanEngine.getConfig(transaction);
+    const isFirstPair = await CompensationPlanEngine.isFirstPair(sponsorId, transaction);
+    const match = CompensationPlanEngine.computeMatch(leftBv, rightBv, isFirstPair, config);
     
-    if (matchableBv <= 0) {
+    if (match.pairs <= 0) {
+      return null;
+    }
+
+    // An expired plan earns nothing: its pairs wait for a renewal or are flushed
+    const expired = await CompensationPlanEngine.isPlanExpired(sponsorId, config, transaction);
+    if (expired && config.expiredMatching === 'hold') {
       return null;
     }
 
@@ -479,30 +503,90 @@ export class AdvancedBVMatchingService {
     const sponsor = await User.findByPk(sponsorId, { transaction });
     if (!sponsor) return null;
 
-    // Find sponsor's plan request
-    const planRequest = await PlanRequest.findOne({
-      where: { userId: sponsorId, status: 'approved' },
-      include: [{ model: Plan, as: 'plan' }],
-      order: [['createdAt', 'DESC']],
-      transaction
-    });
-
-    const bonusAmount = planRequest ? Number((planRequest as any).plan?.bvValue) || 0 : 0;
+    // The plan in effect prices the pairs
+    const plan = await CompensationPlanEngine.getEarningPlan(sponsorId, transaction);
+    const pairIncome = CompensationPlanEngine.getPairIncome(plan, config);
+    // Hold the match to the plan's daily and weekly ceilings, or its expiry
+    const caps = expired
+      ? CompensationPlanEngine.applyExpiry(match, pairIncome)
+      : await CompensationPlanEngine.applyCaps(sponsorId, plan, match, pairIncome, config, transaction);
+    const matchableBv = caps.paidPairs * config.pairUnit;
+    const bonusAmount = caps.bonusEarned;
 
-    // Update sponsor's BV (deduct matched amount)
-    const newLeftBv = leftBv - matchableBv;
-    const newRightBv = rightBv - matchableBv;
+    // Update sponsor's BV (deduct matched, capped and flushed amounts)
+    const newLeftBv = match.carryLeftAfter;
+    const newRightBv = match.carryRightAfter;
 
     await sponsorBV.update({
       leftBV: newLeftBv,
       rightBV: newRightBv
     }, { transaction });
 
-    // Mark BV logs as matched
-    await this.markBVLogsAsMatched(sponsorId, matchableBv, transaction);
+    // Pair off the BV logs that make up this match
+    const sourceBvLogIds = {
+      left: await BVMatchingService.consumeBVLogs(sponsorId, 'left', match.leftConsumed - caps.leftCapped, transaction),
+      right: await BVMatchingService.consumeBVLogs(sponsorId, 'right', match.rightConsumed - caps.rightCapped, transaction)
+    };
+    const cappedBvLogIds = {
+      left: caps.leftCapped > 0 ? await BVMatchingService.consumeBVLogs(sponsorId, 'left', caps.leftCapped, transaction) : [],
+      right: caps.rightCapped > 0 ? await BVMatchingService.consumeBVLogs(sponsorId, 'right', caps.rightCapped, transaction) : []
+    };
+    const flushedBvLogIds = {
+      left: match.leftFlushed > 0 ? await BVMatchingService.consumeBVLogs(sponsorId, 'left', match.leftFlushed, transaction) : [],
+      right: match.rightFlushed > 0 ? await BVMatchingService.consumeBVLogs(sponsorId, 'right', match.rightFlushed, transaction) : []
+    };
+
+    // Keep the pairing event for match history; fully capped matches are only flushes
+    let bvMatch: BvMatch | null = null;
+    if (caps.paidPairs > 0) {
+      bvMatch = await BvMatch.create({
+        userId: sponsorId,
+        source: 'advanced',
+        matchedAmount: matchableBv,
+        pairs: caps.paidPairs,
+        bonusEarned: bonusAmount,
+        carryLeftBefore: leftBv,
+        carryRightBefore: rightBv,
+        carryLeftAfter: newLeftBv,
+        carryRightAfter: newRightBv,
+        planId: plan?.id ?? null,
+        planBvValue: pairIncome,
+        sourceBvLogIds,
+        walletTransactionId: null
+      }, { transaction });
+
+      // Credit the bonus to the sponsor's wallet and increment match count
+      const walletTransactionId = await this.addBonusToUser(sponsorId, bonusAmount, bvMatch.id, {
+        bvMatchId: bvMatch.id,
+        matchedAmount: matchableBv,
+        bonusEarned: bonusAmount,
+        carryBefore: { left: leftBv, right: rightBv },
+        carryAfter: { left: newLeftBv, right: newRightBv },
+        pairs: caps.paidPairs,
+        pairUnit: config.pairUnit,
+        firstPairRatio: match.firstPairRatioApplied,
+        flushed: { left: match.leftFlushed, right: match.rightFlushed },
+        capped: { pairs: caps.cappedPairs, income: caps.incomeCapped, reason: caps.reason },
+        sourceBvLogIds,
+        flushedBvLogIds,
+        planId: plan?.id ?? null,
+        planBvValue: pairIncome
+      }, transaction);
+      if (walletTransactionId) {
+        await bvMatch.update({ walletTransactionId }, { transaction });
+      }
+    }
 
-    // Add bonus to sponsor's total income and increment match count
-    await this.addBonusToUser(sponsorId, bonusAmount, transaction);
+    await CompensationPlanEngine.recordFlushes({
+      userId: sponsorId,
+      source: 'advanced',
+      planId: plan?.id ?? null,
+      bvMatchId: bvMatch?.id ?? null,
+      match,
+      caps,
+      cappedBvLogIds,
+      flushedBvLogIds
+    }, transaction);
 
     return {
       userId: sponsorId,
@@ -518,56 +602,37 @@ export class AdvancedBVMatchingService {
   }
 
   /**
-   * Mark BV logs as matched
-   */
-  private static async markBVLogsAsMatched(
-    userId: number, 
-    matchedAmount: number, 
-    transaction: Transaction
-  ): Promise<void> {
-    // Get unmatched BV logs for this user
-    const unmatchedLogs = await BVLog.findAll({
-      where: { userId, matched: false },
-      order: [['createdAt', 'ASC']],
-      transaction
-    });
-
-    let remainingAmount = matchedAmount;
-    
-    for (const log of unmatchedLogs) {
-      if (remainingAmount <= 0) break;
-      
-      const logAmount = Number(log.points);
-      const toMatch = Math.min(logAmount, remainingAmount);
-      
-      await log.update({ matched: true }, { transaction });
-      remainingAmount -= toMatch;
-    }
-  }
-
-  /**
-   * Add bonus to user's total income and increment match count
+   * Credit a match bonus to the user's wallet and increment match count.
+   * The ledger reference is keyed to the match, so it can't be credited twice.
    */
   private static async addBonusToUser(
     userId: number, 
     bonusAmount: number, 
+    bvMatchId: number,
+    matchDetails: Record<string, any>,
     transaction: Transaction
-  ): Promise<void> {
-    if (bonusAmount <= 0) return;
+  ): Promise<number | null> {
+    if (bonusAmount <= 0) return null;
 
     const user = await User.findByPk(userId, { transaction });
-    if (!user) return;
+    if (!user) return null;
 
-    // Add bonus to total income and increment match count
-    const currentIncome = Number(user.totalIncome) || 0;
+    // Credit the bonus through the ledger and increment match count
     const currentMatched = Number(user.totalMatched) || 0;
 
+    const walletTransaction = await LedgerService.creditUserWallet(userId, bonusAmount, {
+      type: 'bv_match',
+      reference: `BV_MATCH_${bvMatchId}`,
+      description: `BV Matching Income: ${matchDetails.matchedAmount} BV matched (₹${bonusAmount} earned)`,
+      metadata: { ...matchDetails, incomeType: 'BV_MATCHING' }
+    }, transaction);
+
     await user.update({
-      totalIncome: currentIncome + bonusAmount,
       totalMatched: currentMatched + 1
     }, { transaction });
 
-    console.log(`💰 Added bonus ${bonusAmount} to user ${user.name} (ID: ${userId}). New total income: ${currentIncome + bonusAmount}, Total matches: ${currentMatched + 1}`);
+    console.log(`💰 Added bonus ${bonusAmount} to user ${user.name} (ID: ${userId}). Total matches: ${currentMatched + 1}`);
+    return walletTransaction.id;
   }
 
   /**
@@ -640,12 +705,12 @@ export class AdvancedBVMatchingService {
 
     // Get left side referrals
     const leftReferrals = await User.findAll({
-      where: { sponsorId: user.username, position: 'left' }
+      where: { placementParentId: user.username, position: 'left' }
     });
 
     // Get right side referrals
     const rightReferrals = await User.findAll({
-      where: { sponsorId: user.username, position: 'right' }
+      where: { placementParentId: user.username, position: 'right' }
     });
 
     // Get BV data for left side referrals
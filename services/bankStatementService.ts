@@ -0,0 +1,298 @@
+import { BankStatementImport } from "../models/BankStatementImport.ts";
+import { BankStatementLine, type BankStatementLineStatus } from "../models/BankStatementLine.ts";
+import { Payment } from "../models/Payment.ts";
+import { CompetitionParticipation, ParticipationStatus } from "../models/CompetitionParticipation.ts";
+import { type UtrSourceType } from "../models/UtrRegistry.ts";
+import { UpiPaymentIntent } from "../models/UpiPaymentIntent.ts";
+import { UtrRegistryService } from "./utrRegistryService.ts";
+import { UpiIntentService } from "./upiIntentService.ts";
+import { OrderService } from "./orderService.ts";
+import { sequelize } from "../utils/db.ts";
+import { parseCsv } from "../utils/csv.ts";
+import { toPaise, fromPaise } from "../utils/money.ts";
+import { Transaction } from "sequelize";
+
+type StatementColumn = 'utr' | 'amount' | 'credit' | 'debit' | 'type' | 'date' | 'description';
+
+// Header names used by the banks and UPI apps we've seen, normalized
+const COLUMN_ALIASES: Record<StatementColumn, string[]> = {
+  utr: ['utr', 'utr no', 'utr number', 'reference', 'reference no', 'reference number', 'ref no', 'chq ref no', 'ref no cheque no', 'transaction id', 'txn id', 'rrn', 'upi ref no', 'bank reference'],
+  amount: ['amount', 'amount inr', 'txn amount', 'transaction amount'],
+  credit: ['credit', 'credit amount', 'credit amt', 'deposit', 'deposit amt', 'deposits', 'cr amount'],
+  debit: ['debit', 'debit amount', 'debit amt', 'withdrawal', 'withdrawal amt', 'withdrawals', 'dr amount'],
+  type: ['type', 'dr cr', 'cr dr', 'txn type', 'transaction type'],
+  date: ['date', 'txn date', 'transaction date', 'value date', 'posting date'],
+  description: ['description', 'narration', 'remarks', 'particulars', 'details']
+};
+
+interface MatchOutcome {
+  status: BankStatementLineStatus;
+  sourceType?: UtrSourceType;
+  sourceId?: number;
+  note?: string;
+}
+
+export class BankStatementService {
+  // Keeps a single import inside one reasonable transaction
+  static readonly MAX_ROWS = 10000;
+
+  // Preamble rows some banks put above the header
+  private static readonly HEADER_SEARCH_ROWS = 20;
+
+  /**
+   * Import a statement CSV and verify every pending payment or
+   * participation whose UTR (or UPI intent reference in the narration) and
+   * amount match a credit. Rows that don't match are kept on the import
+   * for admins to follow up.
+   */
+  static async importStatement(fileName: string, csvText: string, uploadedBy: number): Promise<BankStatementImport> {
+    const rows = parseCsv(csvText);
+    const headerIndex = this.findHeaderRow(rows);
+    if (headerIndex === -1) {
+      throw new Error("Could not find a header row with an amount or credit column");
+    }
+
+    const columns = this.mapColumns(rows[headerIndex]);
+    if (columns.utr === undefined && columns.description === undefined) {
+      throw new Error("Statement needs a UTR/reference or a narration column");
+    }
+
+    const dataRows = rows.slice(headerIndex + 1);
+    if (dataRows.length > this.MAX_ROWS) {
+      throw new Error(`Statement has ${dataRows.length} rows; import at most ${this.MAX_ROWS} at a time`);
+    }
+
+    return sequelize.transaction(async (t) => {
+      const statementImport = await BankStatementImport.create({
+        fileName,
+        uploadedBy,
+        totalRows: dataRows.length
+      }, { transaction: t });
+
+      const lines = [];
+      let matchedPaise = 0;
+
+      for (let i = 0; i < dataRows.length; i++) {
+        const row = dataRows[i];
+        const cell = (column: StatementColumn) =>
+          columns[column] === undefined ? '' : (row[columns[column]!] || '').trim();
+
+        const description = cell('description') || null;
+        const credit = this.readCredit(cell('amount'), cell('credit'), cell('debit'), cell('type'));
+        const utr = this.readUtr(cell('utr'), description);
+        const reference = UpiIntentService.findReference(description);
+
+        let outcome: MatchOutcome;
+        if (credit === null) {
+          outcome = { status: 'skipped', note: 'Not a credit' };
+        } else if (!utr && !reference) {
+          outcome = { status: 'skipped', note: 'No UTR found on the row' };
+        } else {
+          outcome = await this.matchCredit(utr, reference, credit, statementImport.id, t);
+        }
+
+        if (outcome.status === 'matched') matchedPaise += toPaise(credit);
+
+        lines.push({
+          importId: statementImport.id,
+          rowNumber: headerIndex + i + 2,
+          txnDate: cell('date') || null,
+          utr,
+          amount: credit,
+          description: description ? description.slice(0, 500) : null,
+          status: outcome.status,
+          matchedSourceType: outcome.sourceType || null,
+          matchedSourceId: outcome.sourceId || null,
+          note: outcome.note || null
+        });
+      }
+
+      await BankStatementLine.bulkCreate(lines, { transaction: t });
+
+      await statementImport.update({
+        creditRows: lines.filter(line => line.amount !== null).length,
+        matchedCount: lines.filter(line => line.status === 'matched').length,
+        mismatchCount: lines.filter(line => line.status === 'amount_mismatch').length,
+        unmatchedCount: lines.filter(line => line.status === 'unmatched').length,
+        matchedAmount: fromPaise(matchedPaise)
+      }, { transaction: t });
+
+      console.log(`🏦 Statement import #${statementImport.id} (${fileName}): ${statementImport.matchedCount} of ${statementImport.creditRows} credits matched`);
+      return statementImport;
+    });
+  }
+
+  /**
+   * Match one credit to the submission holding its UTR, or failing that to
+   * the submission made against the UPI intent named in its narration
+   */
+  private static async matchCredit(
+    utr: string | null,
+    reference: string | null,
+    amount: number,
+    importId: number,
+    transaction: Transaction
+  ): Promise<MatchOutcome> {
+    const holder = utr ? await UtrRegistryService.find(utr, transaction) : null;
+    if (holder) {
+      return this.verifySource(holder.sourceType, holder.sourceId, null, amount, importId, transaction);
+    }
+    if (!reference) {
+      return { status: 'unmatched' };
+    }
+
+    const intent = await UpiPaymentIntent.findOne({ where: { reference }, transaction });
+    if (!intent) {
+      return { status: 'unmatched', note: `Unknown payment reference ${reference}` };
+    }
+
+    const sourceType: UtrSourceType = intent.purpose === 'plan' ? 'payment' : 'participation';
+    const sourceId = intent.purpose === 'plan' ? intent.paymentId : intent.participationId;
+    if (!sourceId) {
+      return { status: 'unmatched', note: `Payment reference ${reference} has no submitted payment yet` };
+    }
+
+    return this.verifySource(sourceType, sourceId, { reference, utr }, amount, importId, transaction);
+  }
+
+  /**
+   * Verify a pending payment or participation against a credit. When it
+   * was submitted with an intent reference instead of a UTR, the
+   * statement's UTR replaces the reference and is claimed for it.
+   */
+  private static async verifySource(
+    sourceType: UtrSourceType,
+    sourceId: number,
+    intentMatch: { reference: string; utr: string | null } | null,
+    amount: number,
+    importId: number,
+    transaction: Transaction
+  ): Promise<MatchOutcome> {
+    const source = { sourceType, sourceId };
+    const note = `Verified from bank statement import #${importId}`;
+    const bankUtr = (stored: string | null) =>
+      intentMatch?.utr && stored === intentMatch.reference ? intentMatch.utr : null;
+
+    if (sourceType === 'payment') {
+      const payment = await Payment.findByPk(sourceId, { lock: transaction.LOCK.UPDATE, transaction });
+      if (!payment) return { status: 'unmatched', note: 'Payment no longer exists' };
+      if (payment.status !== 'pending') {
+        return { ...source, status: 'already_verified', note: `Payment is already ${payment.status}` };
+      }
+      if (toPaise(payment.amount) !== toPaise(amount)) {
+        return { ...source, status: 'amount_mismatch', note: `Expected ₹${Number(payment.amount)}` };
+      }
+
+      const statementUtr = bankUtr(payment.utrNumber);
+      if (statementUtr) {
+        await UtrRegistryService.claim(statementUtr, { type: 'payment', id: payment.id, userId: payment.userId, amount: Number(payment.amount) }, transaction);
+      }
+      await payment.update({
+        status: 'verified',
+        verifiedAt: new Date(),
+        ...(statementUtr ? { utrNumber: statementUtr } : {}),
+        adminNotes: payment.adminNotes ? `${payment.adminNotes}\n${note}` : note
+      }, { transaction });
+
+      const intent = await UpiPaymentIntent.findOne({ where: { paymentId: payment.id }, transaction });
+      if (intent) await UpiIntentService.markPaid(intent, transaction);
+
+      await OrderService.syncPayment(payment, { note }, transaction);
+      return { ...source, status: 'matched' };
+    }
+
+    const participation = await CompetitionParticipation.findByPk(sourceId, { lock: transaction.LOCK.UPDATE, transaction });
+    if (!participation) return { status: 'unmatched', note: 'Participation no longer exists' };
+    if (participation.status !== ParticipationStatus.PENDING) {
+      return { ...source, status: 'already_verified', note: `Participation is already ${participation.status}` };
+    }
+    if (toPaise(participation.paymentAmount) !== toPaise(amount)) {
+      return { ...source, status: 'amount_mismatch', note: `Expected ₹${Number(participation.paymentAmount)}` };
+    }
+
+    const statementUtr = bankUtr(participation.utrNumber);
+    if (statementUtr) {
+      await UtrRegistryService.claim(statementUtr, { type: 'participation', id: participation.id, userId: participation.userId, amount: Number(participation.paymentAmount) }, transaction);
+    }
+    await participation.update({
+      status: ParticipationStatus.PAYMENT_VERIFIED,
+      ...(statementUtr ? { utrNumber: statementUtr } : {}),
+      adminNotes: participation.adminNotes ? `${participation.adminNotes}\n${note}` : note
+    }, { transaction });
+
+    const intent = await UpiPaymentIntent.findOne({
+      where: { participationId: participation.id, status: 'open' },
+      order: [['createdAt', 'DESC']],
+      transaction
+    });
+    if (intent) await UpiIntentService.markPaid(intent, transaction);
+    return { ...source, status: 'matched' };
+  }
+
+  /**
+   * Index of the header row: the first row naming an amount or credit column
+   */
+  private static findHeaderRow(rows: string[][]): number {
+    const limit = Math.min(rows.length, this.HEADER_SEARCH_ROWS);
+    for (let i = 0; i < limit; i++) {
+      const columns = this.mapColumns(rows[i]);
+      if (columns.amount !== undefined || columns.credit !== undefined) {
+        return i;
+      }
+    }
+    return -1;
+  }
+
+  /**
+   * Column index for each field we read, by header name
+   */
+  private static mapColumns(header: string[]): Partial<Record<StatementColumn, number>> {
+    const columns: Partial<Record<StatementColumn, number>> = {};
+    header.forEach((name, index) => {
+      const normalized = name.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+      for (const [column, aliases] of Object.entries(COLUMN_ALIASES) as Array<[StatementColumn, string[]]>) {
+        if (columns[column] === undefined && aliases.includes(normalized)) {
+          columns[column] = index;
+        }
+      }
+    });
+    return columns;
+  }
+
+  /**
+   * The credited amount, or null for debits and unreadable rows
+   */
+  private static readCredit(amount: string, credit: string, debit: string, type: string): number | null {
+    const parse = (value: string): number | null => {
+      const cleaned = value.replace(/[₹,\s]|INR|Rs\.?/gi, '');
+      if (!cleaned) return null;
+      const number = Number(cleaned);
+      return Number.isFinite(number) ? number : null;
+    };
+
+    const creditAmount = parse(credit);
+    if (creditAmount !== null) return creditAmount > 0 ? creditAmount : null;
+    if (parse(debit)) return null;
+
+    const value = parse(amount);
+    if (value === null || value <= 0) return null;
+    if (/^(dr|debit|d)$/i.test(type.trim())) return null;
+    return value;
+  }
+
+  /**
+   * The UTR from its own column, or pulled out of the narration
+   * (e.g. "UPI/412345678901/PAYMENT/..." or "NEFT-SBIN0123456789-...")
+   */
+  private static readUtr(utrCell: string, description: string | null): string | null {
+    const fromColumn = UtrRegistryService.normalize(utrCell);
+    if (UtrRegistryService.isValid(fromColumn)) return fromColumn;
+    if (!description) return null;
+
+    const tokens = description.toUpperCase().split(/[^A-Z0-9]+/);
+    return tokens.find(token => /^\d{12}$/.test(token))
+      || tokens.find(token => token.length >= 12 && /\d/.test(token) && UtrRegistryService.isValid(token)
+        && !UpiIntentService.findReference(token))
+      || null;
+  }
+}
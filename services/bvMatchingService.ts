@@ -1,9 +1,12 @@
 import { UserBV } from "../models/UserBv.ts";
+import { BVLog, type BVSide } from "../models/BvLogs.ts";
+import { BvMatch } from "../models/BvMatch.ts";
 import { User } from "../models/User.ts";
-import { Plan } from "../models/Plan.ts";
+import { LedgerService } from "./ledgerService.ts";
+import { CompensationPlanEngine } from "./compensationPlanEngine.ts";
 import { sequelize } from "../utils/db.ts";
+import { toPaise } from "../utils/money.ts";
 import { Transaction, Op } from "sequelize";
-const { PlanRequest } = await import("../models/PlanRequest.ts");
 
 export interface BVMatchResult {
   userId: number;
@@ -18,6 +21,38 @@ export interface BVMatchResult {
   carryRightAfter: number;
   lifetimeLeftBV: number;
   lifetimeRightBV: number;
+  sourceBvLogIds: { left: number[]; right: number[] };
+  walletTransactionId: number | null;
+  pairs: number;
+  cappedPairs: number;
+  incomeCapped: number;
+  bvMatchId: number | null;
+}
+
+export interface BVMatchPreview {
+  userId: number;
+  carryLeft: number;
+  carryRight: number;
+  pairs: number;            // Pairs that would be paid
+  cappedPairs: number;
+  matchedAmount: number;
+  bonusEarned: number;
+  incomeCapped: number;
+  leftFlushed: number;      // Capped and carry-forward flushes combined
+  rightFlushed: number;
+  carryLeftAfter: number;
+  carryRightAfter: number;
+  planId: number | null;
+  planBvValue: number;
+}
+
+// The carry and payout an admin approved in a payout cycle
+export interface ReviewedMatch {
+  carryLeft: number;
+  carryRight: number;
+  pairs: number;
+  bonusEarned: number;
+  reference: string;        // Ledger reference for the payout, stable across retries
 }
 
 export interface BVMatchingStats {
@@ -30,9 +65,15 @@ export interface BVMatchingStats {
 export class BVMatchingService {
 
   /**
-   * Process BV matching for a specific user
+   * Process BV matching for a specific user. Given a reviewed match, only
+   * the reviewed carry is matched and it must pay exactly the reviewed pairs
+   * and bonus; carry added since then waits for the next match.
    */
-  static async processUserBVMatching(userId: number, transaction?: Transaction): Promise<BVMatchResult | null> {
+  static async processUserBVMatching(
+    userId: number,
+    transaction?: Transaction,
+    reviewed?: ReviewedMatch
+  ): Promise<BVMatchResult | null> {
     const t = transaction || await sequelize.transaction();
     
     try {
@@ -43,23 +84,34 @@ export class BVMatchingService {
 
       if (!userBV) {
         console.log(`No BV record found for user ${userId}`);
+        if (!transaction) await t.commit();
         return null;
       }
 
       const carryLeft = Number(userBV.carryLeft);
       const carryRight = Number(userBV.carryRight);
 
-      // Find the minimum amount that can be matched (only from carry)
-      const matchedAmount = Math.min(carryLeft, carryRight);
+      if (reviewed && (carryLeft < reviewed.carryLeft || carryRight < reviewed.carryRight)) {
+        throw new Error(`Carry fell below the reviewed match: ${carryLeft}/${carryRight} BV left, ${reviewed.carryLeft}/${reviewed.carryRight} BV reviewed`);
+      }
+      const heldLeft = reviewed ? carryLeft - reviewed.carryLeft : 0;
+      const heldRight = reviewed ? carryRight - reviewed.carryRight : 0;
+
+      const { config, match, plan, planBvValue, caps } = await this.computeUserMatch(userId, carryLeft - heldLeft, carryRight - heldRight, t);
 
-      if (matchedAmount <= 0) {
+      if (reviewed && (caps.paidPairs !== reviewed.pairs || toPaise(caps.bonusEarned) !== toPaise(reviewed.bonusEarned))) {
+        throw new Error(`Match no longer agrees with the review: ${caps.paidPairs} pairs for ₹${caps.bonusEarned}, ${reviewed.pairs} pairs for ₹${reviewed.bonusEarned} reviewed`);
+      }
+
+      if (match.pairs <= 0) {
         console.log(`No BV to match for user ${userId} (carryLeft: ${carryLeft}, carryRight: ${carryRight})`);
+        if (!transaction) await t.commit();
         return null;
       }
 
-      // Calculate bonus based on plan's bvValue
-      const bonusEarned = await this.calculateBonusFromPlan(userId, matchedAmount, t);
-console.log("bonusEarned", bonusEarned);
+      const planId = plan?.id ?? null;
+      const matchedAmount = caps.paidPairs * config.pairUnit;
+      const bonusEarned = caps.bonusEarned;
 
       // Get user info
       const user = await User.findByPk(userId, { transaction: t });
@@ -67,9 +119,8 @@ console.log("bonusEarned", bonusEarned);
         throw new Error(`User ${userId} not found`);
       }
 
-      // Calculate new values after matching (only subtract from carry)
-      const newCarryLeft = carryLeft - matchedAmount;
-      const newCarryRight = carryRight - matchedAmount;
+      const newCarryLeft = match.carryLeftAfter + heldLeft;
+      const newCarryRight = match.carryRightAfter + heldRight;
 
       // Update the user's BV record (only update carry fields)
       await userBV.update({
@@ -78,22 +129,96 @@ console.log("bonusEarned", bonusEarned);
         // leftBV and rightBV (lifetime) remain unchanged
       }, { transaction: t });
 
-      // Update user's income and totalMatched
-      const currentIncome = Number(user.totalIncome) || 0;
+      // Pair off the oldest unmatched BV logs on each leg
+      const sourceBvLogIds = {
+        left: await this.consumeBVLogs(userId, 'left', match.leftConsumed - caps.leftCapped, t),
+        right: await this.consumeBVLogs(userId, 'right', match.rightConsumed - caps.rightCapped, t)
+      };
+
+      // Capped and flushed BV is gone too, so its logs are used up without earning
+      const cappedBvLogIds = {
+        left: caps.leftCapped > 0 ? await this.consumeBVLogs(userId, 'left', caps.leftCapped, t) : [],
+        right: caps.rightCapped > 0 ? await this.consumeBVLogs(userId, 'right', caps.rightCapped, t) : []
+      };
+      const flushedBvLogIds = {
+        left: match.leftFlushed > 0 ? await this.consumeBVLogs(userId, 'left', match.leftFlushed, t) : [],
+        right: match.rightFlushed > 0 ? await this.consumeBVLogs(userId, 'right', match.rightFlushed, t) : []
+      };
+
+      // Credit the matching income through the ledger; only the match count is kept on the user
       const currentMatched = Number(user.totalMatched) || 0;
       
-      console.log(`💰 Updating user ${user.username} income:`, {
-        currentIncome,
+      console.log(`💰 Crediting user ${user.username} matching income:`, {
         bonusEarned,
-        newIncome: currentIncome + bonusEarned,
+        cappedPairs: caps.cappedPairs,
         currentMatched,
-        newMatched: currentMatched + 1
+        newMatched: caps.paidPairs > 0 ? currentMatched + 1 : currentMatched
       });
-      
-      await user.update({
-        totalIncome: currentIncome + bonusEarned,
-        totalMatched: currentMatched + 1
-      }, { transaction: t });
+
+      // A match whose pairs were all capped pays nothing and is only kept as a flush
+      let bvMatch: BvMatch | null = null;
+      if (caps.paidPairs > 0) {
+        await user.update({
+          totalMatched: currentMatched + 1
+        }, { transaction: t });
+
+        // Keep the pairing event for match history
+        bvMatch = await BvMatch.create({
+          userId,
+          source: 'carry',
+          matchedAmount,
+          pairs: caps.paidPairs,
+          bonusEarned,
+          carryLeftBefore: carryLeft,
+          carryRightBefore: carryRight,
+          carryLeftAfter: newCarryLeft,
+          carryRightAfter: newCarryRight,
+          planId,
+          planBvValue,
+          sourceBvLogIds,
+          walletTransactionId: null
+        }, { transaction: t });
+      }
+
+      // The ledger reference is keyed to the match, so posting it again can't credit twice
+      let walletTransactionId: number | null = null;
+      if (bvMatch && bonusEarned > 0) {
+        const walletTransaction = await LedgerService.creditUserWallet(userId, bonusEarned, {
+          type: 'bv_match',
+          reference: reviewed?.reference ?? `BV_MATCH_${bvMatch.id}`,
+          description: `BV Matching Income: ${matchedAmount} BV matched (₹${bonusEarned} earned)`,
+          metadata: {
+            bvMatchId: bvMatch.id,
+            matchedAmount,
+            bonusEarned,
+            pairs: caps.paidPairs,
+            pairUnit: config.pairUnit,
+            firstPairRatio: match.firstPairRatioApplied,
+            carryBefore: { left: carryLeft, right: carryRight },
+            carryAfter: { left: newCarryLeft, right: newCarryRight },
+            flushed: { left: match.leftFlushed, right: match.rightFlushed },
+            capped: { pairs: caps.cappedPairs, income: caps.incomeCapped, reason: caps.reason },
+            sourceBvLogIds,
+            flushedBvLogIds,
+            planId,
+            planBvValue,
+            incomeType: 'BV_MATCHING'
+          }
+        }, t);
+        walletTransactionId = walletTransaction.id;
+        await bvMatch.update({ walletTransactionId }, { transaction: t });
+      }
+
+      await CompensationPlanEngine.recordFlushes({
+        userId,
+        source: 'carry',
+        planId,
+        bvMatchId: bvMatch?.id ?? null,
+        match,
+        caps,
+        cappedBvLogIds,
+        flushedBvLogIds
+      }, t);
 
       const result: BVMatchResult = {
         userId,
@@ -107,7 +232,13 @@ console.log("bonusEarned", bonusEarned);
         carryLeftAfter: newCarryLeft,
         carryRightAfter: newCarryRight,
         lifetimeLeftBV: Number(userBV.leftBV),    // Same as leftBV
-        lifetimeRightBV: Number(userBV.rightBV)   // Same as rightBV
+        lifetimeRightBV: Number(userBV.rightBV),  // Same as rightBV
+        sourceBvLogIds,
+        walletTransactionId,
+        pairs: caps.paidPairs,
+        cappedPairs: caps.cappedPairs,
+        incomeCapped: caps.incomeCapped,
+        bvMatchId: bvMatch?.id ?? null
       };
 
       console.log(`✅ BV Match processed for ${user.username}:`, {
@@ -128,6 +259,115 @@ console.log("bonusEarned", bonusEarned);
     }
   }
 
+  /**
+   * Work out what matching a user's carry would pay right now, without
+   * touching carry, BV logs or the wallet
+   */
+  static async previewUserBVMatching(userId: number, transaction?: Transaction): Promise<BVMatchPreview | null> {
+    const userBV = await UserBV.findOne({ where: { userId }, transaction });
+    if (!userBV) return null;
+
+    const carryLeft = Number(userBV.carryLeft);
+    const carryRight = Number(userBV.carryRight);
+    const { config, match, plan, planBvValue, caps } = await this.computeUserMatch(userId, carryLeft, carryRight, transaction);
+    if (match.pairs <= 0) return null;
+
+    return {
+      userId,
+      carryLeft,
+      carryRight,
+      pairs: caps.paidPairs,
+      cappedPairs: caps.cappedPairs,
+      matchedAmount: caps.paidPairs * config.pairUnit,
+      bonusEarned: caps.bonusEarned,
+      incomeCapped: caps.incomeCapped,
+      leftFlushed: match.leftFlushed + caps.leftCapped,
+      rightFlushed: match.rightFlushed + caps.rightCapped,
+      carryLeftAfter: match.carryLeftAfter,
+      carryRightAfter: match.carryRightAfter,
+      planId: plan?.id ?? null,
+      planBvValue
+    };
+  }
+
+  /**
+   * Let the compensation plan decide how many pairs the carry makes and
+   * hold them to the plan's daily and weekly ceilings and its expiry
+   */
+  private static async computeUserMatch(
+    userId: number,
+    carryLeft: number,
+    carryRight: number,
+    transaction?: Transaction
+  ) {
+    const config = await CompensationPlanEngine.getConfig(transaction);
+    const isFirstPair = await CompensationPlanEngine.isFirstPair(userId, transaction);
+    let match = CompensationPlanEngine.computeMatch(carryLeft, carryRight, isFirstPair, config);
+
+    // An expired plan earns nothing: its pairs wait for a renewal or are flushed
+    const expired = match.pairs > 0 && await CompensationPlanEngine.isPlanExpired(userId, config, transaction);
+    if (expired && config.expiredMatching === "hold") {
+      match = CompensationPlanEngine.noMatch(carryLeft, carryRight);
+    }
+
+    const plan = match.pairs > 0 ? await CompensationPlanEngine.getEarningPlan(userId, transaction) : null;
+    const planBvValue = CompensationPlanEngine.getPairIncome(plan, config);
+    const caps = expired
+      ? CompensationPlanEngine.applyExpiry(match, planBvValue)
+      : await CompensationPlanEngine.applyCaps(userId, plan, match, planBvValue, config, transaction);
+
+    return { config, match, plan, planBvValue, caps };
+  }
+
+  /**
+   * Consume `amount` BV from a user's unmatched logs on one leg, oldest first.
+   * Legacy logs without a side are used once the sided logs run out; reversed
+   * logs are never used. Returns the ids of every log that contributed to the pair.
+   */
+  static async consumeBVLogs(
+    userId: number,
+    side: BVSide,
+    amount: number,
+    transaction: Transaction
+  ): Promise<number[]> {
+    const logs = await BVLog.findAll({
+      where: {
+        userId,
+        matched: false,
+        reversedAt: null,
+        [Op.or]: [{ side }, { side: null }]
+      },
+      order: [['createdAt', 'ASC'], ['id', 'ASC']],
+      transaction
+    });
+
+    // Sided logs first, legacy logs after
+    logs.sort((a, b) => Number(a.side === null) - Number(b.side === null));
+
+    const usedIds: number[] = [];
+    let remaining = amount;
+
+    for (const log of logs) {
+      if (remaining <= 0) break;
+
+      const available = Number(log.points) - Number(log.matchedPoints);
+      if (available <= 0) continue;
+
+      const take = Math.min(available, remaining);
+      const matchedPoints = Number(log.matchedPoints) + take;
+
+      await log.update({
+        matchedPoints,
+        matched: matchedPoints >= Number(log.points)
+      }, { transaction });
+
+      usedIds.push(log.id);
+      remaining -= take;
+    }
+
+    return usedIds;
+  }
+
   /**
    * Process BV matching for all users
    */
@@ -261,80 +501,6 @@ console.log("bonusEarned", bonusEarned);
     };
   }
 
-  /**
-   * Calculate bonus based on plan's bvValue
-   */
-  private static async calculateBonusFromPlan(
-    userId: number, 
-    matchedAmount: number, 
-    transaction: Transaction
-  ): Promise<number> {
-    try {
-      // Get user's approved plan
-      const user = await User.findByPk(userId, { transaction });
-      if (!user) return 0;
-
-      // Get the user's approved plan request to find their specific plan
-     
-      const planRequest = await PlanRequest.findOne({
-        where: { 
-          userId: userId
-        },
-        order: [['createdAt', 'DESC']],
-        transaction
-      });
-
-      console.log(`🔍 Plan request lookup for user ${userId}:`, {
-        found: !!planRequest,
-        planRequestId: planRequest?.id,
-        planId: planRequest?.planId,
-        status: planRequest?.status
-      });
-
-      if (!planRequest || !planRequest.planId) {
-        console.log(`❌ No plan request found for user ${userId}`);
-        return 0;
-      }
-
-      // Get the plan directly using planId
-      const plan = await Plan.findByPk(planRequest.planId, { transaction });
-      
-      console.log(`📋 Plan details for user ${userId}:`, {
-        planFound: !!plan,
-        planId: plan?.id,
-        planName: plan?.name,
-        planBvValue: plan?.bvValue,
-        planStatus: plan?.status,
-        planIsActive: plan?.isActive
-      });
-
-      if (!plan || !plan.bvValue) {
-        console.log(`❌ No plan with bvValue found for user ${userId}`);
-        return 0;
-      }
-
-      // Calculate bonus: (matchedAmount / 50) * plan.bvValue
-      // Assuming 50 BV is the base unit for bonus calculation
-      const bonusMultiplier = Math.floor(matchedAmount / 50);
-      const bonusEarned = bonusMultiplier * plan.bvValue;
-
-      console.log(`💰 Bonus calculation for user ${userId}:`, {
-        matchedAmount,
-        planId: plan.id,
-        planName: plan.name,
-        planBvValue: plan.bvValue,
-        bonusMultiplier,
-        bonusEarned
-      });
-
-      return bonusEarned;
-
-    } catch (error) {
-      console.error(`Error calculating bonus from plan for user ${userId}:`, error);
-      return 0; // Return 0 if there's an error
-    }
-  }
-
   /**
    * Get user's referral tree BV summary
    */
@@ -360,12 +526,12 @@ console.log("bonusEarned", bonusEarned);
 
     // Get left side referrals
     const leftReferrals = await User.findAll({
-      where: { sponsorId: user.username, position: 'left' }
+      where: { placementParentId: user.username, position: 'left' }
     });
 
     // Get right side referrals
     const rightReferrals = await User.findAll({
-      where: { sponsorId: user.username, position: 'right' }
+      where: { placementParentId: user.username, position: 'right' }
     });
 
     // Get BV data for left side referrals
@@ -0,0 +1,628 @@
+import { AdminConfig } from "../models/AdminConfig.ts";
+import { Plan } from "../models/Plan.ts";
+import { PlanRequest } from "../models/PlanRequest.ts";
+import { Payment } from "../models/Payment.ts";
+import { Order } from "../models/Order.ts";
+import { UserPlan } from "../models/UserPlan.ts";
+import { BvMatch, type BvMatchSource } from "../models/BvMatch.ts";
+import { BvFlushLog } from "../models/BvFlushLog.ts";
+import { User } from "../models/User.ts";
+import { toPaise, fromPaise } from "../utils/money.ts";
+import { Transaction, Op } from "sequelize";
+
+/**
+ * Leg ratio required for a member's very first pair
+ */
+export const FIRST_PAIR_RATIOS = ["1:1", "1:2", "2:1", "either"] as const;
+
+export type FirstPairRatio = (typeof FIRST_PAIR_RATIOS)[number];
+
+/**
+ * What happens to unmatched BV after a match
+ *  - full:         both legs keep their remainder
+ *  - flush_weaker: the weaker leg's remainder is flushed
+ *  - flush_all:    both legs are reset to zero
+ */
+export const CARRY_FORWARD_POLICIES = ["full", "flush_weaker", "flush_all"] as const;
+
+export type CarryForwardPolicy = (typeof CARRY_FORWARD_POLICIES)[number];
+
+/**
+ * When an upgraded plan's pair income and caps start to apply
+ *  - immediate: as soon as the upgrade is activated
+ *  - next_day:  from the start of the next day (server time)
+ */
+export const UPGRADE_EFFECTIVE_POLICIES = ["immediate", "next_day"] as const;
+
+export type UpgradeEffectivePolicy = (typeof UPGRADE_EFFECTIVE_POLICIES)[number];
+
+/**
+ * What happens to the pairs of a member whose plan has expired
+ *  - hold:  nothing matches; the carry waits for a renewal
+ *  - flush: the pairs match but pay nothing and their BV is flushed
+ */
+export const EXPIRED_MATCHING_POLICIES = ["hold", "flush"] as const;
+
+export type ExpiredMatchingPolicy = (typeof EXPIRED_MATCHING_POLICIES)[number];
+
+/**
+ * Which price a discounted purchase's BV is worked out from
+ *  - list_price: the full plan BV, whatever the coupon took off
+ *  - paid_price: the plan BV scaled down by the share of the price paid
+ */
+export const COUPON_BV_BASES = ["list_price", "paid_price"] as const;
+
+export type CouponBvBasis = (typeof COUPON_BV_BASES)[number];
+
+export interface CompensationPlanConfig {
+  pairUnit: number;                      // BV on each leg that makes one pair
+  defaultBvPerPlan: number;              // BV distributed upline when a plan has no override
+  planBv: Record<string, number>;        // BV per plan, keyed by plan id
+  pairIncome: number | null;             // ₹ per pair; null uses the member's plan.bvValue
+  firstPairRatio: FirstPairRatio;
+  carryForward: CarryForwardPolicy;
+  maxCarryPerLeg: number | null;         // Carry above this is flushed; null for no cap
+  upgradeEffective: UpgradeEffectivePolicy;
+  expiredMatching: ExpiredMatchingPolicy;
+  expiryGraceDays: number;               // Days after expiry a plan still earns
+  renewalReminderDays: number[];         // Days before expiry a reminder is emailed
+  couponBvBasis: CouponBvBasis;
+}
+
+export interface MatchComputation {
+  pairs: number;
+  matchedAmount: number;   // BV paired off, expressed in pair units on the weaker leg
+  leftConsumed: number;
+  rightConsumed: number;
+  leftFlushed: number;
+  rightFlushed: number;
+  carryLeftAfter: number;
+  carryRightAfter: number;
+  firstPairRatioApplied: FirstPairRatio | null;
+}
+
+export interface CapComputation {
+  paidPairs: number;
+  cappedPairs: number;
+  bonusEarned: number;
+  incomeCapped: number;    // ₹ the capped pairs would have paid
+  leftCapped: number;      // BV of the capped pairs on each leg
+  rightCapped: number;
+  reason: "daily_cap" | "weekly_cap" | "plan_expired" | null;
+  periodStart: Date | null;
+}
+
+export const COMPENSATION_PLAN_CONFIG_KEY = "compensation-plan";
+
+// Matches the behaviour the plan had before it became configurable
+export const DEFAULT_COMPENSATION_PLAN: CompensationPlanConfig = {
+  pairUnit: 50,
+  defaultBvPerPlan: 50,
+  planBv: {},
+  pairIncome: null,
+  firstPairRatio: "1:1",
+  carryForward: "full",
+  maxCarryPerLeg: null,
+  upgradeEffective: "immediate",
+  expiredMatching: "hold",
+  expiryGraceDays: 0,
+  renewalReminderDays: [7, 1],
+  couponBvBasis: "list_price"
+};
+
+export class CompensationPlanEngine {
+
+  /**
+   * Load the active compensation plan, falling back to defaults for any
+   * missing or invalid setting
+   */
+  static async getConfig(transaction?: Transaction): Promise<CompensationPlanConfig> {
+    const record = await AdminConfig.findOne({
+      where: { key: COMPENSATION_PLAN_CONFIG_KEY },
+      transaction
+    });
+
+    if (!record || record.isActive === false) {
+      return { ...DEFAULT_COMPENSATION_PLAN };
+    }
+
+    try {
+      return this.normalizeConfig(JSON.parse(record.value));
+    } catch (error) {
+      console.warn("Invalid compensation plan config, using defaults:", error);
+      return { ...DEFAULT_COMPENSATION_PLAN };
+    }
+  }
+
+  /**
+   * Validate a (partial) config and merge it over the defaults
+   */
+  static normalizeConfig(input: Partial<CompensationPlanConfig>): CompensationPlanConfig {
+    const config: CompensationPlanConfig = { ...DEFAULT_COMPENSATION_PLAN, ...input };
+
+    config.pairUnit = Number(config.pairUnit);
+    if (!(config.pairUnit > 0)) {
+      throw new Error("pairUnit must be greater than 0");
+    }
+
+    config.defaultBvPerPlan = Number(config.defaultBvPerPlan);
+    if (!(config.defaultBvPerPlan >= 0)) {
+      throw new Error("defaultBvPerPlan cannot be negative");
+    }
+
+    const planBv: Record<string, number> = {};
+    for (const [planId, bv] of Object.entries(config.planBv || {})) {
+      if (!(Number(bv) >= 0)) {
+        throw new Error(`BV for plan ${planId} cannot be negative`);
+      }
+      planBv[String(planId)] = Number(bv);
+    }
+    config.planBv = planBv;
+
+    if (config.pairIncome !== null && config.pairIncome !== undefined) {
+      config.pairIncome = Number(config.pairIncome);
+      if (!(config.pairIncome >= 0)) {
+        throw new Error("pairIncome cannot be negative");
+      }
+    } else {
+      config.pairIncome = null;
+    }
+
+    if (!FIRST_PAIR_RATIOS.includes(config.firstPairRatio)) {
+      throw new Error(`firstPairRatio must be one of: ${FIRST_PAIR_RATIOS.join(", ")}`);
+    }
+
+    if (!CARRY_FORWARD_POLICIES.includes(config.carryForward)) {
+      throw new Error(`carryForward must be one of: ${CARRY_FORWARD_POLICIES.join(", ")}`);
+    }
+
+    if (config.maxCarryPerLeg !== null && config.maxCarryPerLeg !== undefined) {
+      config.maxCarryPerLeg = Number(config.maxCarryPerLeg);
+      if (!(config.maxCarryPerLeg >= 0)) {
+        throw new Error("maxCarryPerLeg cannot be negative");
+      }
+    } else {
+      config.maxCarryPerLeg = null;
+    }
+
+    if (!UPGRADE_EFFECTIVE_POLICIES.includes(config.upgradeEffective)) {
+      throw new Error(`upgradeEffective must be one of: ${UPGRADE_EFFECTIVE_POLICIES.join(", ")}`);
+    }
+
+    if (!EXPIRED_MATCHING_POLICIES.includes(config.expiredMatching)) {
+      throw new Error(`expiredMatching must be one of: ${EXPIRED_MATCHING_POLICIES.join(", ")}`);
+    }
+
+    config.expiryGraceDays = Number(config.expiryGraceDays);
+    if (!Number.isInteger(config.expiryGraceDays) || config.expiryGraceDays < 0) {
+      throw new Error("expiryGraceDays must be a whole number of days, 0 or more");
+    }
+
+    if (!Array.isArray(config.renewalReminderDays)) {
+      throw new Error("renewalReminderDays must be a list of days");
+    }
+    const reminderDays = config.renewalReminderDays.map(Number);
+    if (reminderDays.some(days => !Number.isInteger(days) || days < 1)) {
+      throw new Error("renewalReminderDays must be whole numbers of days, 1 or more");
+    }
+    config.renewalReminderDays = [...new Set(reminderDays)].sort((a, b) => b - a);
+
+    if (!COUPON_BV_BASES.includes(config.couponBvBasis)) {
+      throw new Error(`couponBvBasis must be one of: ${COUPON_BV_BASES.join(", ")}`);
+    }
+
+    return config;
+  }
+
+  /**
+   * BV a plan purchase distributes up the tree
+   */
+  static getBVForPlan(planId: number | null | undefined, config: CompensationPlanConfig): number {
+    if (planId && config.planBv[String(planId)] !== undefined) {
+      return config.planBv[String(planId)];
+    }
+    return config.defaultBvPerPlan;
+  }
+
+  /**
+   * BV an order sends up the tree: `bv` as priced from the plan, scaled to
+   * the share of the price paid when coupons count at the paid price
+   */
+  static getOrderBV(bv: number, order: { amount: number; discountAmount?: number | null }, config: CompensationPlanConfig): number {
+    const discountPaise = toPaise(order.discountAmount || 0);
+    if (config.couponBvBasis !== "paid_price" || discountPaise <= 0) return bv;
+
+    const paidPaise = toPaise(order.amount);
+    return Math.round(bv * paidPaise / (paidPaise + discountPaise) * 100) / 100;
+  }
+
+  /**
+   * BV a user's activation distributes, based on their latest activated
+   * order. Purchases approved before orders existed fall back to the latest
+   * approved plan request or payment.
+   */
+  static async getActivationBV(userId: number, transaction?: Transaction): Promise<number> {
+    const config = await this.getConfig(transaction);
+    const order = await Order.findOne({
+      where: { userId, status: 'activated' },
+      order: [['activatedAt', 'DESC']],
+      transaction
+    });
+    if (order) {
+      return this.getOrderBV(this.getBVForPlan(order.planId, config), order, config);
+    }
+
+    const planRequest = await PlanRequest.findOne({
+      where: { userId, status: 'approved' },
+      order: [['createdAt', 'DESC']],
+      transaction
+    });
+    if (planRequest) {
+      return this.getBVForPlan(planRequest.planId, config);
+    }
+
+    const payment = await Payment.findOne({
+      where: { userId, status: 'approved' },
+      order: [['createdAt', 'DESC']],
+      transaction
+    });
+    return this.getBVForPlan(payment?.planId, config);
+  }
+
+  /**
+   * The plan whose rate prices a member's pairs: the plan history row in
+   * effect at `at` (an upgrade only counts from its effective time). Falls
+   * back to the latest activated order, then the latest approved plan
+   * request, for members from before plan history or orders existed.
+   */
+  static async getEarningPlan(userId: number, transaction?: Transaction, at: Date = new Date()): Promise<Plan | null> {
+    const userPlan = await UserPlan.findOne({
+      where: { userId, status: { [Op.ne]: 'refunded' }, effectiveFrom: { [Op.lte]: at } },
+      order: [['effectiveFrom', 'DESC'], ['id', 'DESC']],
+      transaction
+    });
+    if (userPlan) {
+      return Plan.findByPk(userPlan.planId, { transaction });
+    }
+
+    const order = await Order.findOne({
+      where: { userId, status: 'activated' },
+      order: [['activatedAt', 'DESC']],
+      transaction
+    });
+    if (order) {
+      return Plan.findByPk(order.planId, { transaction });
+    }
+
+    const planRequest = await PlanRequest.findOne({
+      where: { userId, status: 'approved' },
+      order: [['createdAt', 'DESC']],
+      transaction
+    });
+    if (!planRequest?.planId) return null;
+    return Plan.findByPk(planRequest.planId, { transaction });
+  }
+
+  /**
+   * Whether a member's plan has expired for matching: its validity and the
+   * grace period after it have both run out. Plans without a validity
+   * period never expire.
+   */
+  static async isPlanExpired(
+    userId: number,
+    config: CompensationPlanConfig,
+    transaction?: Transaction,
+    at: Date = new Date()
+  ): Promise<boolean> {
+    const userPlan = await UserPlan.findOne({
+      where: { userId, status: 'active' },
+      order: [['effectiveFrom', 'DESC'], ['id', 'DESC']],
+      transaction
+    });
+    if (!userPlan?.expiresAt) return false;
+
+    const graceEnds = new Date(userPlan.expiresAt);
+    graceEnds.setDate(graceEnds.getDate() + config.expiryGraceDays);
+    return graceEnds <= at;
+  }
+
+  /**
+   * ₹ earned per pair for a plan
+   */
+  static getPairIncome(plan: Plan | null, config: CompensationPlanConfig): number {
+    if (config.pairIncome !== null) return config.pairIncome;
+    return plan ? Number(plan.bvValue) || 0 : 0;
+  }
+
+  /**
+   * Whether the member has never been paid a pair
+   */
+  static async isFirstPair(userId: number, transaction?: Transaction): Promise<boolean> {
+    const previous = await BvMatch.count({ where: { userId }, transaction });
+    if (previous > 0) return false;
+
+    // Matches from before the history table only exist as a counter
+    const user = await User.findByPk(userId, { attributes: ['id', 'totalMatched'], transaction });
+    return !user || Number(user.totalMatched) === 0;
+  }
+
+  /**
+   * Work out how many pairs the carried BV makes and what is left on each leg
+   */
+  static computeMatch(
+    carryLeft: number,
+    carryRight: number,
+    isFirstPair: boolean,
+    config: CompensationPlanConfig
+  ): MatchComputation {
+    const unit = config.pairUnit;
+    let left = carryLeft;
+    let right = carryRight;
+    let pairs = 0;
+    let leftConsumed = 0;
+    let rightConsumed = 0;
+    let firstPairRatioApplied: FirstPairRatio | null = null;
+
+    if (isFirstPair && config.firstPairRatio !== "1:1") {
+      const options: Array<[number, number]> = config.firstPairRatio === "either"
+        ? [[2, 1], [1, 2]]
+        : [config.firstPairRatio === "2:1" ? [2, 1] : [1, 2]];
+
+      const ratio = options.find(([l, r]) => left >= l * unit && right >= r * unit);
+      if (!ratio) {
+        // First pair not yet qualified: nothing matches and nothing is flushed
+        return this.noMatch(carryLeft, carryRight);
+      }
+
+      leftConsumed += ratio[0] * unit;
+      rightConsumed += ratio[1] * unit;
+      left -= ratio[0] * unit;
+      right -= ratio[1] * unit;
+      pairs = 1;
+      firstPairRatioApplied = ratio[0] === 2 ? "2:1" : "1:2";
+    }
+
+    const evenPairs = Math.floor(Math.min(left, right) / unit);
+    pairs += evenPairs;
+    leftConsumed += evenPairs * unit;
+    rightConsumed += evenPairs * unit;
+    left -= evenPairs * unit;
+    right -= evenPairs * unit;
+
+    let leftFlushed = 0;
+    let rightFlushed = 0;
+
+    if (pairs > 0) {
+      if (config.carryForward === "flush_all") {
+        leftFlushed = left;
+        rightFlushed = right;
+      } else if (config.carryForward === "flush_weaker") {
+        if (left < right) leftFlushed = left;
+        else if (right < left) rightFlushed = right;
+      }
+      left -= leftFlushed;
+      right -= rightFlushed;
+    }
+
+    if (config.maxCarryPerLeg !== null) {
+      if (left > config.maxCarryPerLeg) {
+        leftFlushed += left - config.maxCarryPerLeg;
+        left = config.maxCarryPerLeg;
+      }
+      if (right > config.maxCarryPerLeg) {
+        rightFlushed += right - config.maxCarryPerLeg;
+        right = config.maxCarryPerLeg;
+      }
+    }
+
+    return {
+      pairs,
+      matchedAmount: pairs * unit,
+      leftConsumed,
+      rightConsumed,
+      leftFlushed,
+      rightFlushed,
+      carryLeftAfter: left,
+      carryRightAfter: right,
+      firstPairRatioApplied
+    };
+  }
+
+  /**
+   * A match that pairs nothing and leaves the carry as it is
+   */
+  static noMatch(carryLeft: number, carryRight: number): MatchComputation {
+    return {
+      pairs: 0, matchedAmount: 0, leftConsumed: 0, rightConsumed: 0,
+      leftFlushed: 0, rightFlushed: 0,
+      carryLeftAfter: carryLeft, carryRightAfter: carryRight,
+      firstPairRatioApplied: null
+    };
+  }
+
+  /**
+   * Start of the day a cap period is counted from (server time)
+   */
+  static startOfDay(date: Date = new Date()): Date {
+    const start = new Date(date);
+    start.setHours(0, 0, 0, 0);
+    return start;
+  }
+
+  /**
+   * Start of the week a cap period is counted from (Monday, server time)
+   */
+  static startOfWeek(date: Date = new Date()): Date {
+    const start = this.startOfDay(date);
+    start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+    return start;
+  }
+
+  /**
+   * Pairs and income a member has been paid since a point in time
+   */
+  static async getMatchUsage(
+    userId: number,
+    since: Date,
+    transaction?: Transaction
+  ): Promise<{ pairs: number; income: number }> {
+    const where = { userId, matchedAt: { [Op.gte]: since } };
+    const pairs = await BvMatch.unscoped().sum('pairs', { where, transaction });
+    const income = await BvMatch.unscoped().sum('bonusEarned', { where, transaction });
+    return { pairs: Number(pairs) || 0, income: Number(income) || 0 };
+  }
+
+  /**
+   * Hold a match to the daily and weekly ceilings of the member's plan.
+   * Pairs over the ceiling are not paid; their BV stays consumed and is
+   * flushed, so the carry after the match is unchanged.
+   */
+  static async applyCaps(
+    userId: number,
+    plan: Plan | null,
+    match: MatchComputation,
+    pairIncome: number,
+    config: CompensationPlanConfig,
+    transaction?: Transaction,
+    now: Date = new Date()
+  ): Promise<CapComputation> {
+    const pairIncomePaise = toPaise(pairIncome);
+    const uncapped: CapComputation = {
+      paidPairs: match.pairs,
+      cappedPairs: 0,
+      bonusEarned: fromPaise(match.pairs * pairIncomePaise),
+      incomeCapped: 0,
+      leftCapped: 0,
+      rightCapped: 0,
+      reason: null,
+      periodStart: null
+    };
+    if (!plan || match.pairs <= 0) return uncapped;
+
+    const limits = [
+      { reason: "daily_cap" as const, periodStart: this.startOfDay(now), pairCap: plan.dailyPairCap, incomeCap: plan.dailyIncomeCap },
+      { reason: "weekly_cap" as const, periodStart: this.startOfWeek(now), pairCap: plan.weeklyPairCap, incomeCap: plan.weeklyIncomeCap }
+    ];
+
+    let allowed = match.pairs;
+    let reason: CapComputation["reason"] = null;
+    let periodStart: Date | null = null;
+
+    for (const limit of limits) {
+      const hasPairCap = limit.pairCap !== null && limit.pairCap !== undefined;
+      const hasIncomeCap = limit.incomeCap !== null && limit.incomeCap !== undefined;
+      if (!hasPairCap && !hasIncomeCap) continue;
+
+      const usage = await this.getMatchUsage(userId, limit.periodStart, transaction);
+      let remaining = Infinity;
+      if (hasPairCap) {
+        remaining = Math.min(remaining, Math.max(0, Number(limit.pairCap) - usage.pairs));
+      }
+      if (hasIncomeCap && pairIncomePaise > 0) {
+        const incomeLeft = toPaise(limit.incomeCap) - toPaise(usage.income);
+        remaining = Math.min(remaining, Math.max(0, Math.floor(incomeLeft / pairIncomePaise)));
+      }
+
+      if (remaining < allowed) {
+        allowed = remaining;
+        reason = limit.reason;
+        periodStart = limit.periodStart;
+      }
+    }
+
+    if (!reason) return uncapped;
+
+    // Paid pairs come first, so a first-pair ratio belongs to a paid pair
+    // unless every pair was capped
+    const unit = config.pairUnit;
+    let paidLeft = 0;
+    let paidRight = 0;
+    if (allowed > 0) {
+      const [firstLeft, firstRight] = match.firstPairRatioApplied === "2:1" ? [2, 1]
+        : match.firstPairRatioApplied === "1:2" ? [1, 2] : [1, 1];
+      paidLeft = (firstLeft + allowed - 1) * unit;
+      paidRight = (firstRight + allowed - 1) * unit;
+    }
+
+    const cappedPairs = match.pairs - allowed;
+    return {
+      paidPairs: allowed,
+      cappedPairs,
+      bonusEarned: fromPaise(allowed * pairIncomePaise),
+      incomeCapped: fromPaise(cappedPairs * pairIncomePaise),
+      leftCapped: match.leftConsumed - paidLeft,
+      rightCapped: match.rightConsumed - paidRight,
+      reason,
+      periodStart
+    };
+  }
+
+  /**
+   * Hold a match to the expired-plan rule: every pair is unpaid and its BV
+   * flushed, the way pairs over a ceiling are
+   */
+  static applyExpiry(match: MatchComputation, pairIncome: number): CapComputation {
+    return {
+      paidPairs: 0,
+      cappedPairs: match.pairs,
+      bonusEarned: 0,
+      incomeCapped: fromPaise(match.pairs * toPaise(pairIncome)),
+      leftCapped: match.leftConsumed,
+      rightCapped: match.rightConsumed,
+      reason: "plan_expired",
+      periodStart: null
+    };
+  }
+
+  /**
+   * Write the BV a match flushed (capped pairs and carry forward) to the
+   * flush ledger
+   */
+  static async recordFlushes(
+    details: {
+      userId: number;
+      source: BvMatchSource;
+      planId: number | null;
+      bvMatchId: number | null;
+      match: MatchComputation;
+      caps: CapComputation;
+      cappedBvLogIds: { left: number[]; right: number[] };
+      flushedBvLogIds: { left: number[]; right: number[] };
+    },
+    transaction?: Transaction
+  ): Promise<BvFlushLog[]> {
+    const { userId, source, planId, bvMatchId, match, caps } = details;
+    const flushes: BvFlushLog[] = [];
+
+    if (caps.reason && caps.cappedPairs > 0) {
+      flushes.push(await BvFlushLog.create({
+        userId,
+        source,
+        reason: caps.reason,
+        leftFlushed: caps.leftCapped,
+        rightFlushed: caps.rightCapped,
+        pairsCapped: caps.cappedPairs,
+        incomeCapped: caps.incomeCapped,
+        planId,
+        bvMatchId,
+        bvLogIds: details.cappedBvLogIds,
+        periodStart: caps.periodStart
+      }, { transaction }));
+    }
+
+    if (match.leftFlushed > 0 || match.rightFlushed > 0) {
+      flushes.push(await BvFlushLog.create({
+        userId,
+        source,
+        reason: 'carry_forward',
+        leftFlushed: match.leftFlushed,
+        rightFlushed: match.rightFlushed,
+        planId,
+        bvMatchId,
+        bvLogIds: details.flushedBvLogIds
+      }, { transaction }));
+    }
+
+    return flushes;
+  }
+}
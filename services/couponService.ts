@@ -0,0 +1,221 @@
+import { Coupon } from "../models/Coupon.ts";
+import { CouponRedemption, type CouponPurpose } from "../models/CouponRedemption.ts";
+import { Order } from "../models/Order.ts";
+import { toPaise, fromPaise } from "../utils/money.ts";
+import { Op, Transaction, type WhereOptions } from "sequelize";
+
+/**
+ * What a coupon is being used on, at the price before any discount
+ */
+export interface CouponTarget {
+  purpose: CouponPurpose;
+  planId?: number | null;
+  competitionId?: number | null;
+  amount: number;
+}
+
+/**
+ * The price of a purchase with a coupon applied
+ */
+export interface CouponApplication {
+  coupon: Coupon;
+  listAmount: number;
+  discountAmount: number;
+  amount: number;        // What the member pays
+}
+
+/**
+ * The purchase records a redemption belongs to
+ */
+export interface CouponRedemptionLinks {
+  orderId?: number | null;
+  paymentId?: number | null;
+  planRequestId?: number | null;
+  participationId?: number | null;
+}
+
+export class CouponService {
+  /**
+   * Canonical form of a coupon code: members type it in any case
+   */
+  static normalizeCode(code: string): string {
+    return String(code || "").trim().toUpperCase();
+  }
+
+  /**
+   * Check a coupon against a purchase and work out the discount. Throws
+   * with a message for the member if the coupon can't be used. Inside a
+   * transaction the coupon row is locked, so limits hold under concurrent
+   * redemptions.
+   */
+  static async apply(
+    code: string,
+    userId: number,
+    target: CouponTarget,
+    transaction?: Transaction,
+    at: Date = new Date()
+  ): Promise<CouponApplication> {
+    const normalized = this.normalizeCode(code);
+    const coupon = await Coupon.findOne({
+      where: { code: normalized },
+      ...(transaction ? { lock: transaction.LOCK.UPDATE, transaction } : {})
+    });
+    if (!coupon || !coupon.isActive) {
+      throw new Error(`Coupon ${normalized} is not valid`);
+    }
+    if (coupon.validFrom && at < coupon.validFrom) {
+      throw new Error(`Coupon ${normalized} is not valid yet`);
+    }
+    if (coupon.validUntil && at > coupon.validUntil) {
+      throw new Error(`Coupon ${normalized} has expired`);
+    }
+
+    if (coupon.appliesTo !== "any" && coupon.appliesTo !== target.purpose) {
+      throw new Error(`Coupon ${normalized} can only be used on ${coupon.appliesTo === "plan" ? "plans" : "competitions"}`);
+    }
+    const allowedIds = target.purpose === "plan" ? coupon.planIds : coupon.competitionIds;
+    const targetId = target.purpose === "plan" ? target.planId : target.competitionId;
+    if (Array.isArray(allowedIds) && allowedIds.length > 0 && !allowedIds.map(Number).includes(Number(targetId))) {
+      throw new Error(`Coupon ${normalized} can't be used on this ${target.purpose}`);
+    }
+
+    const listPaise = toPaise(target.amount);
+    if (coupon.minAmount !== null && coupon.minAmount !== undefined && listPaise < toPaise(coupon.minAmount)) {
+      throw new Error(`Coupon ${normalized} needs a purchase of at least ₹${fromPaise(toPaise(coupon.minAmount))}`);
+    }
+
+    if (coupon.usageLimit !== null && coupon.usageLimit !== undefined) {
+      const used = await CouponRedemption.count({ where: { couponId: coupon.id, status: "applied" }, transaction });
+      if (used >= coupon.usageLimit) {
+        throw new Error(`Coupon ${normalized} has been fully redeemed`);
+      }
+    }
+    if (coupon.perUserLimit !== null && coupon.perUserLimit !== undefined) {
+      const usedByMember = await CouponRedemption.count({ where: { couponId: coupon.id, userId, status: "applied" }, transaction });
+      if (usedByMember >= coupon.perUserLimit) {
+        throw new Error(`You have already used coupon ${normalized}${coupon.perUserLimit > 1 ? ` ${coupon.perUserLimit} times` : ""}`);
+      }
+    }
+
+    let discountPaise = coupon.discountType === "percentage"
+      ? Math.round(listPaise * Number(coupon.discountValue) / 100)
+      : toPaise(coupon.discountValue);
+    if (coupon.discountType === "percentage" && coupon.maxDiscount !== null && coupon.maxDiscount !== undefined) {
+      discountPaise = Math.min(discountPaise, toPaise(coupon.maxDiscount));
+    }
+    discountPaise = Math.min(discountPaise, listPaise);
+
+    return {
+      coupon,
+      listAmount: fromPaise(listPaise),
+      discountAmount: fromPaise(discountPaise),
+      amount: fromPaise(listPaise - discountPaise)
+    };
+  }
+
+  /**
+   * Record a use of a coupon against the purchase it paid for. The coupon
+   * is checked again under a lock, so a use that slipped past a limit
+   * since the member was quoted is refused. An order carries one coupon;
+   * a second record for the same order and coupon shares the redemption.
+   */
+  static async redeem(
+    code: string,
+    userId: number,
+    target: CouponTarget,
+    links: CouponRedemptionLinks,
+    transaction: Transaction
+  ): Promise<{ application: CouponApplication; redemption: CouponRedemption }> {
+    if (links.orderId) {
+      const existing = await CouponRedemption.findOne({
+        where: { orderId: links.orderId, status: "applied" },
+        include: [{ model: Coupon, as: "coupon" }],
+        transaction
+      });
+      if (existing) {
+        const coupon = (existing as any).coupon as Coupon;
+        if (coupon.code !== this.normalizeCode(code)) {
+          throw new Error(`Order #${links.orderId} already has coupon ${coupon.code} applied`);
+        }
+        await existing.update(this.missingLinks(existing, links), { transaction });
+        return {
+          application: {
+            coupon,
+            listAmount: Number(existing.listAmount),
+            discountAmount: Number(existing.discountAmount),
+            amount: Number(existing.paidAmount)
+          },
+          redemption: existing
+        };
+      }
+    }
+
+    const application = await this.apply(code, userId, target, transaction);
+    const redemption = await CouponRedemption.create({
+      couponId: application.coupon.id,
+      userId,
+      purpose: target.purpose,
+      planId: target.planId ?? null,
+      competitionId: target.competitionId ?? null,
+      orderId: links.orderId ?? null,
+      paymentId: links.paymentId ?? null,
+      planRequestId: links.planRequestId ?? null,
+      participationId: links.participationId ?? null,
+      listAmount: application.listAmount,
+      discountAmount: application.discountAmount,
+      paidAmount: application.amount
+    }, { transaction });
+
+    await application.coupon.increment("usedCount", { transaction });
+    if (links.orderId) {
+      await Order.update({ discountAmount: application.discountAmount }, { where: { id: links.orderId }, transaction });
+    }
+
+    return { application, redemption };
+  }
+
+  /**
+   * Give back the coupon used on an order that was cancelled
+   */
+  static async releaseForOrder(orderId: number, transaction: Transaction): Promise<number> {
+    const released = await this.release({ orderId }, transaction);
+    if (released > 0) {
+      await Order.update({ discountAmount: 0 }, { where: { id: orderId }, transaction });
+    }
+    return released;
+  }
+
+  /**
+   * Give back the coupon used on a competition entry that was rejected
+   */
+  static async releaseForParticipation(participationId: number, transaction: Transaction): Promise<number> {
+    return this.release({ participationId }, transaction);
+  }
+
+  /**
+   * Mark applied redemptions released and take them off their coupons' counts
+   */
+  private static async release(where: WhereOptions<CouponRedemption>, transaction: Transaction): Promise<number> {
+    const redemptions = await CouponRedemption.findAll({
+      where: { [Op.and]: [where, { status: "applied" }] },
+      transaction
+    });
+
+    for (const redemption of redemptions) {
+      await redemption.update({ status: "released", releasedAt: new Date() }, { transaction });
+      await Coupon.decrement("usedCount", { where: { id: redemption.couponId, usedCount: { [Op.gt]: 0 } }, transaction });
+    }
+    return redemptions.length;
+  }
+
+  /**
+   * Links a redemption doesn't have yet
+   */
+  private static missingLinks(redemption: CouponRedemption, links: CouponRedemptionLinks): CouponRedemptionLinks {
+    const update: CouponRedemptionLinks = {};
+    for (const key of ["paymentId", "planRequestId", "participationId"] as const) {
+      if (links[key] && !redemption[key]) update[key] = links[key];
+    }
+    return update;
+  }
+}
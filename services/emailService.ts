@@ -122,6 +122,38 @@ export class EmailService {
     }
   }
 
+  // Send plan expiry reminder (daysLeft 0 means the plan has expired)
+  static async sendPlanExpiryReminder(
+    to: string,
+    memberName: string,
+    planName: string,
+    expiresAt: Date,
+    daysLeft: number
+  ): Promise<void> {
+    try {
+      await this.initialize();
+
+      if (!this.transporter) {
+        throw new Error('Email service not initialized');
+      }
+
+      const mailOptions = {
+        from: process.env.FROM_EMAIL || 'no-reply@universalguruji.com',
+        to: to,
+        subject: daysLeft > 0
+          ? `⏳ Your ${planName} plan expires in ${daysLeft} day${daysLeft === 1 ? '' : 's'}`
+          : `⌛ Your ${planName} plan has expired`,
+        html: this.generatePlanExpiryReminderHTML(memberName, planName, expiresAt, daysLeft)
+      };
+
+      const result = await this.transporter.sendMail(mailOptions);
+      console.log('✅ Plan expiry reminder sent successfully:', result.messageId);
+    } catch (error) {
+      console.error('❌ Error sending plan expiry reminder:', error);
+      throw error;
+    }
+  }
+
   // Generate certificate email HTML
   private static generateCertificateEmailHTML(
     studentName: string,
@@ -374,4 +406,112 @@ export class EmailService {
       </html>
     `;
   }
+
+  // Generate plan expiry reminder HTML
+  private static generatePlanExpiryReminderHTML(
+    memberName: string,
+    planName: string,
+    expiresAt: Date,
+    daysLeft: number
+  ): string {
+    const expired = daysLeft <= 0;
+    return `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>Plan Renewal Reminder</title>
+        <style>
+          body {
+            font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif;
+            line-height: 1.6;
+            color: #333;
+            max-width: 600px;
+            margin: 0 auto;
+            padding: 20px;
+            background-color: #f4f4f4;
+          }
+          .container {
+            background: white;
+            padding: 30px;
+            border-radius: 10px;
+            box-shadow: 0 0 20px rgba(0,0,0,0.1);
+          }
+          .header {
+            text-align: center;
+            border-bottom: 3px solid #ff9800;
+            padding-bottom: 20px;
+            margin-bottom: 30px;
+          }
+          .header h1 {
+            color: #ff9800;
+            margin: 0;
+            font-size: 28px;
+          }
+          .plan-info {
+            background: #fff3e0;
+            padding: 20px;
+            border-radius: 8px;
+            border-left: 4px solid #ff9800;
+            margin: 20px 0;
+          }
+          .info-row {
+            display: flex;
+            justify-content: space-between;
+            margin: 10px 0;
+            padding: 8px 0;
+            border-bottom: 1px solid #eee;
+          }
+          .info-label {
+            font-weight: bold;
+            color: #555;
+          }
+          .info-value {
+            color: #333;
+          }
+          .action-required {
+            background: #e3f2fd;
+            padding: 15px;
+            border-radius: 8px;
+            border-left: 4px solid #2196f3;
+            margin: 20px 0;
+          }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>${expired ? '⌛ Your Plan Has Expired' : '⏳ Time to Renew Your Plan'}</h1>
+            <p>Dear ${memberName},</p>
+          </div>
+          
+          <div class="plan-info">
+            <div class="info-row">
+              <span class="info-label">Plan:</span>
+              <span class="info-value">${planName}</span>
+            </div>
+            <div class="info-row">
+              <span class="info-label">${expired ? 'Expired On:' : 'Expires On:'}</span>
+              <span class="info-value">${expiresAt.toLocaleDateString('en-IN')}</span>
+            </div>
+            ${expired ? '' : `
+            <div class="info-row">
+              <span class="info-label">Days Left:</span>
+              <span class="info-value">${daysLeft}</span>
+            </div>`}
+          </div>
+          
+          <div class="action-required">
+            <h3>🔄 Renew Your Plan</h3>
+            <p>${expired
+              ? 'Your plan no longer earns matching income. Renew it to start earning again.'
+              : 'Once your plan expires it stops earning matching income. Renew it before then to keep earning without a break.'}</p>
+            <p>You can renew from the plans page of your account.</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+  }
 }
@@ -0,0 +1,346 @@
+import fs from "fs/promises";
+import path from "path";
+import {
+  ExportJob,
+  EXPORT_FORMATS,
+  EXPORT_SOURCES,
+  type ExportFilters,
+  type ExportFormat
+} from "../models/ExportJob.ts";
+import { PlanRequest, ALLOWED_REQUEST_STATUSES } from "../models/PlanRequest.ts";
+import { Payment, PAYMENT_STATUSES } from "../models/Payment.ts";
+import { Plan } from "../models/Plan.ts";
+import { User } from "../models/User.ts";
+import { PdfService } from "./pdfService.ts";
+import { ZipWriter } from "../utils/zip.ts";
+import { writeXlsx } from "../utils/xlsx.ts";
+import { toCsv } from "../utils/csv.ts";
+import { Op, type WhereOptions } from "sequelize";
+
+export interface ExportRunSummary {
+  completed: number;
+  failed: number;
+  expired: number;
+}
+
+// One plan request or payment in an export
+interface ExportRecord {
+  type: "plan_request" | "payment";
+  row: PlanRequest | Payment;
+}
+
+export const EXPORT_SUMMARY_COLUMNS = [
+  "Type",
+  "ID",
+  "Date",
+  "Member",
+  "Username",
+  "Email",
+  "Plan",
+  "Amount",
+  "Discount",
+  "Currency",
+  "Status",
+  "Payment Method",
+  "Reference",
+  "Order ID",
+  "Approved At"
+];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export class ExportService {
+  private static readonly STORAGE_DIR = process.env.EXPORT_STORAGE_DIR || "./storage/exports";
+
+  // How long a finished file is kept for download
+  private static readonly RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+  // A running export older than this belongs to a worker that died
+  private static readonly LOCK_TIMEOUT_MS = 30 * 60 * 1000;
+
+  // Slip PDFs are rendered one by one; this keeps an archive a sensible size
+  private static readonly MAX_ZIP_RECORDS = 5000;
+
+  /**
+   * Validate export filters from a request. Statuses are checked against
+   * the records the export covers.
+   */
+  static normalizeFilters(input: Record<string, any>): ExportFilters {
+    const source = input.source || "all";
+    if (!EXPORT_SOURCES.includes(source)) {
+      throw new Error(`source must be one of: ${EXPORT_SOURCES.join(", ")}`);
+    }
+
+    for (const key of ["from", "to"] as const) {
+      if (input[key] && !DATE_PATTERN.test(String(input[key]))) {
+        throw new Error(`${key} must be a date (YYYY-MM-DD)`);
+      }
+    }
+    if (input.from && input.to && input.from > input.to) {
+      throw new Error("from must not be after to");
+    }
+
+    const status = input.status ? String(input.status) : null;
+    if (status) {
+      const allowed = this.statusesFor(source);
+      if (!allowed.includes(status)) {
+        throw new Error(`status must be one of: ${allowed.join(", ")}`);
+      }
+    }
+
+    const planId = input.planId ? Number(input.planId) : null;
+    if (planId !== null && !Number.isInteger(planId)) {
+      throw new Error("planId must be a plan id");
+    }
+
+    return {
+      source,
+      from: input.from || null,
+      to: input.to || null,
+      status,
+      planId
+    };
+  }
+
+  /**
+   * Queue an export and start it in the background. The scheduled
+   * report-exports job picks it up if this process stops first.
+   */
+  static async create(requestedBy: number, format: ExportFormat, filters: ExportFilters): Promise<ExportJob> {
+    if (!EXPORT_FORMATS.includes(format)) {
+      throw new Error(`format must be one of: ${EXPORT_FORMATS.join(", ")}`);
+    }
+
+    const job = await ExportJob.create({ requestedBy, format, filters });
+    setImmediate(() => {
+      this.process(job.id).catch(error => console.error(`❌ Export #${job.id} could not start:`, error));
+    });
+    return job;
+  }
+
+  /**
+   * Generate an export's file. The job is claimed first, so two workers
+   * never write the same export; failures are recorded on the job.
+   */
+  static async process(jobId: number): Promise<ExportJob | null> {
+    const now = new Date();
+    const [claimed] = await ExportJob.update(
+      { status: "running", startedAt: now, error: null },
+      {
+        where: {
+          id: jobId,
+          [Op.or]: [
+            { status: "queued" },
+            { status: "running", startedAt: { [Op.lt]: new Date(now.getTime() - this.LOCK_TIMEOUT_MS) } }
+          ]
+        }
+      }
+    );
+
+    const job = await ExportJob.findByPk(jobId);
+    if (!claimed || !job) return job;
+
+    const fileName = `purchases-${job.id}-${this.describe(job.filters)}.${job.format}`;
+    const filePath = path.join(this.STORAGE_DIR, fileName);
+    try {
+      await fs.mkdir(this.STORAGE_DIR, { recursive: true });
+      const records = await this.loadRecords(job.filters);
+
+      let fileSize: number;
+      if (job.format === "zip") {
+        fileSize = await this.writeZip(filePath, records);
+      } else if (job.format === "xlsx") {
+        fileSize = await writeXlsx(filePath, "Purchases", this.summaryRows(records));
+      } else {
+        const csv = toCsv(this.summaryRows(records));
+        await fs.writeFile(filePath, csv, "utf8");
+        fileSize = Buffer.byteLength(csv);
+      }
+
+      const completedAt = new Date();
+      await job.update({
+        status: "completed",
+        fileName,
+        filePath,
+        fileSize,
+        rowCount: records.length,
+        completedAt,
+        expiresAt: new Date(completedAt.getTime() + this.RETENTION_MS)
+      });
+      console.log(`📦 Export #${job.id} ready: ${records.length} records`);
+    } catch (error: any) {
+      console.error(`❌ Export #${job.id} failed:`, error);
+      await fs.rm(filePath, { force: true });
+      await job.update({ status: "failed", error: error.message || String(error) });
+    }
+
+    return job;
+  }
+
+  /**
+   * Run exports left queued or stuck, and delete expired files. Called by
+   * the report-exports job.
+   */
+  static async processPending(limit: number = 20): Promise<ExportRunSummary> {
+    const staleBefore = new Date(Date.now() - this.LOCK_TIMEOUT_MS);
+    const jobs = await ExportJob.findAll({
+      where: {
+        [Op.or]: [
+          { status: "queued" },
+          { status: "running", startedAt: { [Op.lt]: staleBefore } }
+        ]
+      },
+      order: [["createdAt", "ASC"]],
+      limit
+    });
+
+    const summary: ExportRunSummary = { completed: 0, failed: 0, expired: 0 };
+    for (const { id } of jobs) {
+      const job = await this.process(id);
+      if (job?.status === "completed") summary.completed++;
+      else if (job?.status === "failed") summary.failed++;
+    }
+
+    summary.expired = await this.purgeExpired();
+    return summary;
+  }
+
+  /**
+   * Delete files past their retention period
+   */
+  static async purgeExpired(now: Date = new Date()): Promise<number> {
+    const jobs = await ExportJob.findAll({
+      where: { status: "completed", expiresAt: { [Op.lte]: now } }
+    });
+
+    for (const job of jobs) {
+      if (job.filePath) {
+        await fs.rm(job.filePath, { force: true });
+      }
+      await job.update({ status: "expired", filePath: null });
+    }
+    return jobs.length;
+  }
+
+  /**
+   * Statuses an export covering `source` can filter on
+   */
+  static statusesFor(source: string): string[] {
+    if (source === "plan_requests") return [...ALLOWED_REQUEST_STATUSES];
+    if (source === "payments") return [...PAYMENT_STATUSES];
+    return Array.from(new Set<string>([...ALLOWED_REQUEST_STATUSES, ...PAYMENT_STATUSES]));
+  }
+
+  /**
+   * Plan requests and payments matching the filters, oldest first. With
+   * source "all", a status only one of them has leaves the other out.
+   */
+  private static async loadRecords(filters: ExportFilters): Promise<ExportRecord[]> {
+    const where: Record<string, any> = {};
+    if (filters.from || filters.to) {
+      where.createdAt = {
+        ...(filters.from ? { [Op.gte]: new Date(`${filters.from}T00:00:00`) } : {}),
+        ...(filters.to ? { [Op.lt]: this.dayAfter(filters.to) } : {})
+      };
+    }
+    if (filters.planId) {
+      where.planId = filters.planId;
+    }
+
+    const include = [
+      { model: Plan, as: "plan" },
+      { model: User, as: "user", attributes: ["id", "name", "email", "username"] }
+    ];
+    const order: [string, string][] = [["createdAt", "ASC"], ["id", "ASC"]];
+
+    const wantRequests = filters.source !== "payments"
+      && (!filters.status || (ALLOWED_REQUEST_STATUSES as readonly string[]).includes(filters.status));
+    const wantPayments = filters.source !== "plan_requests"
+      && (!filters.status || (PAYMENT_STATUSES as readonly string[]).includes(filters.status));
+    const statusWhere = filters.status ? { status: filters.status } : {};
+
+    const [requests, payments] = await Promise.all([
+      wantRequests
+        ? PlanRequest.unscoped().findAll({
+            where: { ...where, ...statusWhere } as WhereOptions,
+            include: [...include, { model: User, as: "approver", attributes: ["id", "name"] }],
+            order
+          })
+        : [],
+      wantPayments
+        ? Payment.unscoped().findAll({ where: { ...where, ...statusWhere } as WhereOptions, include, order })
+        : []
+    ]);
+
+    return [
+      ...requests.map(row => ({ type: "plan_request" as const, row })),
+      ...payments.map(row => ({ type: "payment" as const, row }))
+    ].sort((a, b) => new Date(a.row.createdAt).getTime() - new Date(b.row.createdAt).getTime());
+  }
+
+  private static summaryRows(records: ExportRecord[]): unknown[][] {
+    return [
+      EXPORT_SUMMARY_COLUMNS,
+      ...records.map(({ type, row }) => {
+        const user = (row as any).user ?? {};
+        const plan = (row as any).plan ?? {};
+        const reference = type === "payment"
+          ? (row as Payment).utrNumber
+          : (row as PlanRequest).paymentReference;
+        return [
+          type === "payment" ? "Payment" : "Plan Request",
+          row.id,
+          new Date(row.createdAt).toISOString(),
+          user.name ?? "",
+          user.username ?? "",
+          user.email ?? "",
+          plan.name ?? "",
+          Number(row.amount),
+          Number(row.discountAmount) || 0,
+          row.currency || "INR",
+          row.status,
+          row.paymentMethod ?? "",
+          reference ?? "",
+          row.orderId ?? "",
+          row.approvedAt ? new Date(row.approvedAt).toISOString() : ""
+        ];
+      })
+    ];
+  }
+
+  private static async writeZip(filePath: string, records: ExportRecord[]): Promise<number> {
+    if (records.length > this.MAX_ZIP_RECORDS) {
+      throw new Error(
+        `${records.length} records match; a ZIP export holds at most ${this.MAX_ZIP_RECORDS}. Narrow the date range.`
+      );
+    }
+
+    const zip = await ZipWriter.create(filePath);
+    try {
+      for (const { type, row } of records) {
+        const pdf = type === "payment"
+          ? await PdfService.toBuffer(doc => PdfService.renderPaymentSlip(doc, row as Payment))
+          : await PdfService.toBuffer(doc => PdfService.renderPlanRequestSlip(doc, row as PlanRequest));
+        const name = type === "payment" ? `payments/payment-${row.id}.pdf` : `plan-requests/plan-request-${row.id}.pdf`;
+        await zip.add(name, pdf, new Date(row.createdAt));
+      }
+      await zip.add("summary.csv", toCsv(this.summaryRows(records)));
+    } catch (error) {
+      await zip.abort();
+      throw error;
+    }
+    return zip.finish();
+  }
+
+  // "2025-04-01-to-2025-04-30", "all-dates"
+  private static describe(filters: ExportFilters): string {
+    if (!filters.from && !filters.to) return "all-dates";
+    return `${filters.from || "start"}-to-${filters.to || "now"}`;
+  }
+
+  private static dayAfter(date: string): Date {
+    const next = new Date(`${date}T00:00:00`);
+    next.setDate(next.getDate() + 1);
+    return next;
+  }
+}
@@ -0,0 +1,319 @@
+import { Invoice, type SupplyType } from "../models/Invoice.ts";
+import { InvoiceSequence } from "../models/InvoiceSequence.ts";
+import { Order } from "../models/Order.ts";
+import { Plan } from "../models/Plan.ts";
+import { User } from "../models/User.ts";
+import { Kyc } from "../models/Kyc.ts";
+import { AdminConfig } from "../models/AdminConfig.ts";
+import { GSTIN_PATTERN, GST_STATES, financialYearOf, placeOfSupply } from "../utils/gst.ts";
+import { toPaise, fromPaise } from "../utils/money.ts";
+import { sequelize } from "../utils/db.ts";
+import { Op, Transaction } from "sequelize";
+
+export interface GstInvoiceConfig {
+  companyName: string;
+  gstin: string | null;      // No invoices are issued until this is set
+  address: string | null;
+  gstRate: number;           // Percent; plan prices include it
+  sacCode: string;
+  invoicePrefix: string;     // Up to 4 characters, so numbers fit GST's 16
+}
+
+export interface GstBreakdown {
+  supplyType: SupplyType;
+  taxableValue: number;
+  cgstAmount: number;
+  sgstAmount: number;
+  igstAmount: number;
+}
+
+export const GST_INVOICE_CONFIG_KEY = "gst-invoice";
+
+export const DEFAULT_GST_INVOICE_CONFIG: GstInvoiceConfig = {
+  companyName: "Universal Guruji MLM Platform",
+  gstin: null,
+  address: null,
+  gstRate: 18,
+  sacCode: "998599",
+  invoicePrefix: "INV"
+};
+
+// Header of the GSTR-1 style export, one row per invoice
+export const GSTR1_COLUMNS = [
+  "Invoice Number",
+  "Invoice Date",
+  "Financial Year",
+  "Customer Name",
+  "Customer GSTIN",
+  "Place Of Supply",
+  "Supply Type",
+  "SAC",
+  "Rate",
+  "Taxable Value",
+  "IGST",
+  "CGST",
+  "SGST",
+  "Cess",
+  "Invoice Value"
+];
+
+export class InvoiceService {
+  /**
+   * Load the company's GST settings, falling back to the defaults
+   */
+  static async getConfig(transaction?: Transaction): Promise<GstInvoiceConfig> {
+    const record = await AdminConfig.findOne({
+      where: { key: GST_INVOICE_CONFIG_KEY },
+      transaction
+    });
+
+    if (!record || record.isActive === false) {
+      return { ...DEFAULT_GST_INVOICE_CONFIG };
+    }
+
+    try {
+      return this.normalizeConfig(JSON.parse(record.value));
+    } catch (error) {
+      console.warn("Invalid GST invoice config, using defaults:", error);
+      return { ...DEFAULT_GST_INVOICE_CONFIG };
+    }
+  }
+
+  /**
+   * Validate a (partial) config and merge it over the defaults
+   */
+  static normalizeConfig(input: Partial<GstInvoiceConfig>): GstInvoiceConfig {
+    const config: GstInvoiceConfig = { ...DEFAULT_GST_INVOICE_CONFIG, ...input };
+
+    const companyName = String(config.companyName || "").trim();
+    if (!companyName) {
+      throw new Error("companyName is required");
+    }
+
+    const gstin = config.gstin ? String(config.gstin).trim().toUpperCase() : null;
+    if (gstin && (!GSTIN_PATTERN.test(gstin) || !GST_STATES[gstin.slice(0, 2)])) {
+      throw new Error("gstin must be a valid 15-character GSTIN");
+    }
+
+    const gstRate = Number(config.gstRate);
+    if (!Number.isFinite(gstRate) || gstRate < 0 || gstRate > 28) {
+      throw new Error("gstRate must be a percentage between 0 and 28");
+    }
+
+    const sacCode = String(config.sacCode || "").trim();
+    if (!/^99[0-9]{4}$/.test(sacCode)) {
+      throw new Error("sacCode must be a 6-digit SAC code starting with 99");
+    }
+
+    const invoicePrefix = String(config.invoicePrefix || "").trim().toUpperCase();
+    if (!/^[A-Z0-9]{1,4}$/.test(invoicePrefix)) {
+      throw new Error("invoicePrefix must be 1 to 4 letters or digits");
+    }
+
+    const address = config.address ? String(config.address).trim() : null;
+
+    return { companyName, gstin, address: address || null, gstRate, sacCode, invoicePrefix };
+  }
+
+  /**
+   * Split a tax-inclusive amount into taxable value and GST. A buyer in
+   * the company's state pays CGST and SGST, half each; anyone else pays
+   * IGST. Worked in paise so the parts add back up to the total.
+   */
+  static computeTax(total: number, gstRate: number, intraState: boolean): GstBreakdown {
+    const totalPaise = toPaise(total);
+    const taxablePaise = Math.round((totalPaise * 100) / (100 + gstRate));
+    const taxPaise = totalPaise - taxablePaise;
+
+    if (!intraState) {
+      return {
+        supplyType: "inter_state",
+        taxableValue: fromPaise(taxablePaise),
+        cgstAmount: 0,
+        sgstAmount: 0,
+        igstAmount: fromPaise(taxPaise)
+      };
+    }
+
+    const cgstPaise = Math.floor(taxPaise / 2);
+    return {
+      supplyType: "intra_state",
+      taxableValue: fromPaise(taxablePaise),
+      cgstAmount: fromPaise(cgstPaise),
+      sgstAmount: fromPaise(taxPaise - cgstPaise),
+      igstAmount: 0
+    };
+  }
+
+  /**
+   * Issue the tax invoice for an activated order, once. Returns null when
+   * there is nothing to invoice: no company GSTIN configured yet, or an
+   * order that cost nothing. Runs in the caller's transaction so the
+   * invoice number is only used up if the activation commits.
+   */
+  static async issueForOrder(order: Order, transaction: Transaction): Promise<Invoice | null> {
+    const existing = await Invoice.findOne({ where: { orderId: order.id }, transaction });
+    if (existing) return existing;
+
+    if (order.status !== "activated") {
+      throw new Error(`Order #${order.id} is ${order.status}; only activated orders are invoiced`);
+    }
+    if (Number(order.amount) <= 0) return null;
+
+    const config = await this.getConfig(transaction);
+    if (!config.gstin) {
+      console.warn(`No company GSTIN configured; order #${order.id} was not invoiced`);
+      return null;
+    }
+
+    const [user, plan, kyc] = await Promise.all([
+      User.findByPk(order.userId, { transaction }),
+      Plan.findByPk(order.planId, { transaction }),
+      Kyc.findOne({
+        where: { userId: order.userId, status: { [Op.in]: ["approved", "pending"] } },
+        order: [["createdAt", "DESC"]],
+        transaction
+      })
+    ]);
+    if (!user || !plan) {
+      throw new Error(`Order #${order.id} has no ${user ? "plan" : "member"} to invoice`);
+    }
+
+    // Without a state on record the supply is taken to be in the company's state
+    const sellerStateCode = config.gstin.slice(0, 2);
+    const buyerStateCode = kyc?.stateCode ?? null;
+    const supplyState = buyerStateCode || sellerStateCode;
+    const tax = this.computeTax(Number(order.amount), config.gstRate, supplyState === sellerStateCode);
+
+    const invoiceDate = order.activatedAt || new Date();
+    const financialYear = financialYearOf(invoiceDate);
+    const sequence = await this.nextSequence(financialYear, transaction);
+
+    const kindLabel = order.kind === "upgrade" ? "upgrade" : order.kind === "renewal" ? "renewal" : "purchase";
+    const buyerAddress = [kyc?.address, kyc?.pincode].filter(Boolean).join(" - ");
+
+    return Invoice.create({
+      invoiceNumber: this.formatNumber(config.invoicePrefix, financialYear, sequence),
+      financialYear,
+      sequence,
+      orderId: order.id,
+      userId: order.userId,
+      planId: order.planId,
+      invoiceDate,
+      sellerName: config.companyName,
+      sellerGstin: config.gstin,
+      sellerAddress: config.address,
+      sellerStateCode,
+      buyerName: user.name,
+      buyerEmail: user.email,
+      buyerAddress: buyerAddress || null,
+      buyerStateCode,
+      placeOfSupply: supplyState,
+      supplyType: tax.supplyType,
+      sacCode: config.sacCode,
+      description: `${plan.name} plan ${kindLabel}`.slice(0, 255),
+      discountAmount: Number(order.discountAmount) || 0,
+      taxableValue: tax.taxableValue,
+      gstRate: config.gstRate,
+      cgstAmount: tax.cgstAmount,
+      sgstAmount: tax.sgstAmount,
+      igstAmount: tax.igstAmount,
+      totalAmount: Number(order.amount),
+      currency: order.currency
+    }, { transaction });
+  }
+
+  /**
+   * Invoice activated orders that have none, in activation order: orders
+   * activated before invoicing existed or before a GSTIN was configured.
+   * Safe to run again.
+   */
+  static async backfill(): Promise<{ issued: number; skipped: number }> {
+    const orders = await Order.findAll({
+      where: {
+        status: "activated",
+        id: { [Op.notIn]: sequelize.literal("(SELECT orderId FROM invoices)") }
+      },
+      order: [["activatedAt", "ASC"], ["id", "ASC"]]
+    });
+
+    let issued = 0;
+    for (const order of orders) {
+      const invoice = await sequelize.transaction(t => this.issueForOrder(order, t));
+      if (invoice) issued++;
+    }
+
+    return { issued, skipped: orders.length - issued };
+  }
+
+  /**
+   * Invoices dated within [from, to), oldest number first
+   */
+  static async listForPeriod(from: Date, to: Date): Promise<Invoice[]> {
+    return Invoice.findAll({
+      where: { invoiceDate: { [Op.gte]: from, [Op.lt]: to } },
+      order: [["financialYear", "ASC"], ["sequence", "ASC"]]
+    });
+  }
+
+  /**
+   * GSTR-1 style rows for a set of invoices. Members are unregistered
+   * buyers, so the GSTIN column is blank and every row is B2C.
+   */
+  static toGstr1Rows(invoices: Invoice[]): Array<Array<string | number>> {
+    return invoices.map(invoice => [
+      invoice.invoiceNumber,
+      this.formatGstDate(invoice.invoiceDate),
+      invoice.financialYear,
+      invoice.buyerName,
+      "",
+      placeOfSupply(invoice.placeOfSupply),
+      invoice.supplyType === "intra_state" ? "Intra State" : "Inter State",
+      invoice.sacCode,
+      Number(invoice.gstRate),
+      Number(invoice.taxableValue).toFixed(2),
+      Number(invoice.igstAmount).toFixed(2),
+      Number(invoice.cgstAmount).toFixed(2),
+      Number(invoice.sgstAmount).toFixed(2),
+      "0.00",
+      Number(invoice.totalAmount).toFixed(2)
+    ]);
+  }
+
+  /**
+   * "INV/25-26/00042"
+   */
+  static formatNumber(prefix: string, financialYear: string, sequence: number): string {
+    return `${prefix}/${financialYear.slice(2)}/${String(sequence).padStart(5, "0")}`;
+  }
+
+  /**
+   * Take the next number in a financial year's sequence. The sequence row
+   * is locked until the caller's transaction ends, so concurrent invoices
+   * queue up rather than share or skip a number.
+   */
+  private static async nextSequence(financialYear: string, transaction: Transaction): Promise<number> {
+    // The first invoice of a year creates its row; a concurrent insert is ignored
+    await InvoiceSequence.bulkCreate([{ financialYear }], { ignoreDuplicates: true, transaction });
+
+    const row = await InvoiceSequence.findOne({
+      where: { financialYear },
+      lock: transaction.LOCK.UPDATE,
+      transaction
+    });
+    if (!row) {
+      throw new Error(`Invoice sequence for ${financialYear} could not be created`);
+    }
+
+    const next = row.lastNumber + 1;
+    await row.update({ lastNumber: next }, { transaction });
+    return next;
+  }
+
+  // dd-MMM-yyyy, the date format of the GST offline tool
+  private static formatGstDate(date: Date): string {
+    const d = new Date(date);
+    const month = d.toLocaleString("en-US", { month: "short" });
+    return `${String(d.getDate()).padStart(2, "0")}-${month}-${d.getFullYear()}`;
+  }
+}
@@ -0,0 +1,217 @@
+import os from "os";
+import { ScheduledJob, type JobSchedule } from "../models/ScheduledJob.ts";
+import { PayoutCycleService } from "./payoutCycleService.ts";
+import { ActivationOutboxService } from "./activationOutboxService.ts";
+import { UserPlanService } from "./userPlanService.ts";
+import { ExportService } from "./exportService.ts";
+import { Op } from "sequelize";
+
+/**
+ * A job handler returns a short summary for the run log
+ */
+export type JobHandler = (job: ScheduledJob) => Promise<string>;
+
+// Jobs created on first run; admins adjust the schedule afterwards
+const DEFAULT_JOBS: Array<{ name: string; schedule: JobSchedule; options: Record<string, any> }> = [
+  { name: 'payout-cycle', schedule: 'daily', options: { autoPost: false } },
+  { name: 'activation-outbox', schedule: 'hourly', options: {} },
+  { name: 'plan-renewal-reminders', schedule: 'daily', options: {} },
+  { name: 'report-exports', schedule: 'hourly', options: {} }
+];
+
+export class JobRunner {
+  // A lock older than this belongs to a runner that died mid-job
+  private static readonly LOCK_TIMEOUT_MS = 30 * 60 * 1000;
+
+  private static readonly workerId = `${os.hostname()}:${process.pid}`;
+
+  private static handlers: Record<string, JobHandler> = {
+    'payout-cycle': async (job) => {
+      const openCycle = await PayoutCycleService.getOpenCycle();
+      if (openCycle) {
+        return `Skipped: payout cycle #${openCycle.id} is still ${openCycle.status}`;
+      }
+
+      const cycle = await PayoutCycleService.createCycle('schedule');
+      if (!cycle) {
+        return 'No pairs to pay';
+      }
+
+      if (job.options?.autoPost) {
+        await PayoutCycleService.approveCycle(cycle.id, null, 'Posted automatically by the payout-cycle job');
+        return `Payout cycle #${cycle.id} posted automatically`;
+      }
+      return `Payout cycle #${cycle.id} awaiting review`;
+    },
+
+    'activation-outbox': async () => {
+      const summary = await ActivationOutboxService.processPending();
+      return `${summary.processed} processed, ${summary.skipped} skipped, ${summary.failed} failed`;
+    },
+
+    'plan-renewal-reminders': async () => {
+      const summary = await UserPlanService.sendRenewalReminders();
+      return `${summary.sent} reminders sent, ${summary.failed} failed`;
+    },
+
+    'report-exports': async () => {
+      const summary = await ExportService.processPending();
+      return `${summary.completed} completed, ${summary.failed} failed, ${summary.expired} expired`;
+    }
+  };
+
+  /**
+   * Names of the jobs the runner knows how to run
+   */
+  static getJobNames(): string[] {
+    return Object.keys(this.handlers);
+  }
+
+  /**
+   * Create the default job rows that don't exist yet
+   */
+  static async ensureDefaultJobs(): Promise<void> {
+    for (const job of DEFAULT_JOBS) {
+      await ScheduledJob.findOrCreate({
+        where: { name: job.name },
+        defaults: {
+          name: job.name,
+          schedule: job.schedule,
+          options: job.options,
+          nextRunAt: this.computeNextRun(job.schedule)
+        }
+      });
+    }
+  }
+
+  /**
+   * When a job on `schedule` should next run after `from`: the top of the
+   * next hour, next midnight or next Monday midnight (server time)
+   */
+  static computeNextRun(schedule: JobSchedule, from: Date = new Date()): Date | null {
+    const next = new Date(from);
+    switch (schedule) {
+      case 'hourly':
+        next.setMinutes(0, 0, 0);
+        next.setHours(next.getHours() + 1);
+        return next;
+      case 'daily':
+        next.setHours(0, 0, 0, 0);
+        next.setDate(next.getDate() + 1);
+        return next;
+      case 'weekly':
+        next.setHours(0, 0, 0, 0);
+        next.setDate(next.getDate() + (7 - ((next.getDay() + 6) % 7)));
+        return next;
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Run every enabled job whose next run is due
+   */
+  static async runDueJobs(): Promise<void> {
+    const dueJobs = await ScheduledJob.findAll({
+      where: {
+        isEnabled: true,
+        nextRunAt: { [Op.lte]: new Date() }
+      },
+      order: [['nextRunAt', 'ASC']]
+    });
+
+    for (const job of dueJobs) {
+      await this.execute(job);
+    }
+  }
+
+  /**
+   * Run a job now regardless of its schedule
+   */
+  static async runJob(name: string): Promise<ScheduledJob> {
+    const job = await ScheduledJob.findOne({ where: { name } });
+    if (!job) {
+      throw new Error(`Job ${name} not found`);
+    }
+    await this.execute(job);
+    return job.reload();
+  }
+
+  /**
+   * Poll for due jobs until the process exits
+   */
+  static start(intervalMs: number = 60 * 1000): NodeJS.Timeout {
+    console.log(`⏱️ Job runner ${this.workerId} polling every ${Math.round(intervalMs / 1000)}s`);
+
+    let running = false;
+    const tick = async () => {
+      if (running) return;
+      running = true;
+      try {
+        await this.runDueJobs();
+      } catch (error) {
+        console.error('❌ Job runner tick failed:', error);
+      } finally {
+        running = false;
+      }
+    };
+
+    tick();
+    return setInterval(tick, intervalMs);
+  }
+
+  /**
+   * Claim a job, run its handler and schedule the next run. A job another
+   * runner holds is left alone.
+   */
+  private static async execute(job: ScheduledJob): Promise<void> {
+    const handler = this.handlers[job.name];
+    if (!handler) {
+      console.warn(`⚠️ No handler registered for job ${job.name}`);
+      return;
+    }
+
+    const now = new Date();
+    const [claimed] = await ScheduledJob.update(
+      { lockedAt: now, lockedBy: this.workerId },
+      {
+        where: {
+          id: job.id,
+          [Op.or]: [
+            { lockedAt: null },
+            { lockedAt: { [Op.lt]: new Date(now.getTime() - this.LOCK_TIMEOUT_MS) } }
+          ]
+        }
+      }
+    );
+    if (!claimed) {
+      console.log(`🔒 Job ${job.name} is locked by another runner`);
+      return;
+    }
+
+    console.log(`▶️ Running job ${job.name}...`);
+    try {
+      const summary = await handler(job);
+      // The claim was made with a static update, so release it the same way
+      await ScheduledJob.update({
+        lastRunAt: now,
+        lastStatus: 'succeeded',
+        lastError: null,
+        nextRunAt: this.computeNextRun(job.schedule, now),
+        lockedAt: null,
+        lockedBy: null
+      }, { where: { id: job.id } });
+      console.log(`✅ Job ${job.name}: ${summary}`);
+    } catch (error: any) {
+      console.error(`❌ Job ${job.name} failed:`, error);
+      await ScheduledJob.update({
+        lastRunAt: now,
+        lastStatus: 'failed',
+        lastError: error.message || String(error),
+        nextRunAt: this.computeNextRun(job.schedule, now),
+        lockedAt: null,
+        lockedBy: null
+      }, { where: { id: job.id } });
+    }
+  }
+}
@@ -0,0 +1,740 @@
+import { LedgerAccount, type LedgerAccountType } from "../models/LedgerAccount.ts";
+import { JournalEntry } from "../models/JournalEntry.ts";
+import { JournalLine } from "../models/JournalLine.ts";
+import { Wallet } from "../models/Wallet.ts";
+import { WalletTransaction, WALLET_TRANSACTION_TYPES, type WalletTransactionType } from "../models/WalletTransaction.ts";
+import { User } from "../models/User.ts";
+import { RecoveryDue } from "../models/RecoveryDue.ts";
+import { sequelize } from "../utils/db.ts";
+import { toPaise, fromPaise } from "../utils/money.ts";
+import { Transaction, Op } from "sequelize";
+
+/**
+ * Chart of system accounts. User wallets are created on demand as
+ * `USER_WALLET:<userId>` liability accounts.
+ */
+export const SYSTEM_ACCOUNTS = {
+  COMPANY_BANK: { name: "Company Bank", type: "asset" },
+  COMPANY_REVENUE: { name: "Plan Sales Revenue", type: "revenue" },
+  TDS_PAYABLE: { name: "TDS Payable", type: "liability" },
+  WITHDRAWAL_FEE_REVENUE: { name: "Withdrawal Processing Fees", type: "revenue" },
+  SPONSOR_BONUS_EXPENSE: { name: "Sponsor Bonus Expense", type: "expense" },
+  MATCHING_BONUS_EXPENSE: { name: "BV Matching Bonus Expense", type: "expense" },
+  OPENING_BALANCE_EQUITY: { name: "Opening Balance Equity", type: "equity" },
+  RECONCILIATION_ADJUSTMENT: { name: "Wallet Reconciliation Adjustments", type: "expense" },
+} as const satisfies Record<string, { name: string; type: LedgerAccountType }>;
+
+export type SystemAccountCode = keyof typeof SYSTEM_ACCOUNTS;
+
+/**
+ * Default contra account for wallet credits of each type
+ */
+const DEFAULT_CREDIT_SOURCE: Record<WalletTransactionType, SystemAccountCode> = {
+  bv_match: "MATCHING_BONUS_EXPENSE",
+  bonus: "SPONSOR_BONUS_EXPENSE",
+  commission: "SPONSOR_BONUS_EXPENSE",
+  refund: "COMPANY_BANK",
+  withdrawal: "COMPANY_BANK",
+  adjustment: "RECONCILIATION_ADJUSTMENT",
+};
+
+/**
+ * Journal entry types that reduce a wallet as a payout rather than as a
+ * reversal of earnings. Opening entries come from the backfill script.
+ */
+const WITHDRAWAL_ENTRY_TYPES = ["withdrawal", "opening_withdrawal"];
+
+export interface LedgerLineInput {
+  accountId: number;
+  debit?: number;
+  credit?: number;
+  memo?: string | null;
+}
+
+export interface PostEntryInput {
+  reference: string;
+  entryType: string;
+  description: string;
+  lines: LedgerLineInput[];
+  metadata?: Record<string, any> | null;
+  postedBy?: number | null;
+}
+
+export interface WalletPostingInput {
+  type: WalletTransactionType;
+  reference: string;
+  description: string;
+  referenceId?: string | null;
+  metadata?: Record<string, any> | null;
+  postedBy?: number | null;
+}
+
+export interface WalletCreditInput extends WalletPostingInput {
+  sourceAccount?: SystemAccountCode;
+}
+
+export interface WalletDebitInput extends WalletPostingInput {
+  // Where the debited money goes; defaults to a single COMPANY_BANK line
+  destinations?: { account: SystemAccountCode; amount: number; memo?: string }[];
+}
+
+export interface ClawbackInput {
+  reference: string;
+  description: string;
+  // Where the clawed back money goes (usually the expense that paid it out)
+  account: SystemAccountCode;
+  metadata?: Record<string, any> | null;
+  postedBy?: number | null;
+  refundId?: number | null;
+}
+
+export interface ClawbackResult {
+  recovered: number;
+  due: number;
+  recoveryDue: RecoveryDue | null;
+}
+
+export interface TrialBalanceRow {
+  accountId: number;
+  code: string;
+  name: string;
+  type: LedgerAccountType;
+  totalDebit: number;
+  totalCredit: number;
+  balance: number;
+}
+
+export const userWalletAccountCode = (userId: number) => `USER_WALLET:${userId}`;
+
+export class LedgerService {
+
+  /**
+   * Get (or lazily create) a system account by code
+   */
+  static async getSystemAccount(code: SystemAccountCode, transaction?: Transaction): Promise<LedgerAccount> {
+    const { name, type } = SYSTEM_ACCOUNTS[code];
+    const [account] = await LedgerAccount.findOrCreate({
+      where: { code },
+      defaults: { code, name, type, isSystem: true },
+      transaction
+    });
+    return account;
+  }
+
+  /**
+   * Get (or lazily create) the liability account backing a user's wallet
+   */
+  static async getUserWalletAccount(userId: number, transaction?: Transaction): Promise<LedgerAccount> {
+    const code = userWalletAccountCode(userId);
+    const [account] = await LedgerAccount.findOrCreate({
+      where: { code },
+      defaults: { code, name: `Wallet of user ${userId}`, type: "liability", userId, isSystem: false },
+      transaction
+    });
+    return account;
+  }
+
+  /**
+   * Post a balanced journal entry. Posting an already-used reference is a
+   * no-op that returns the original entry with `created: false`.
+   */
+  static async postEntry(
+    input: PostEntryInput,
+    transaction?: Transaction
+  ): Promise<{ entry: JournalEntry; created: boolean }> {
+    const t = transaction || await sequelize.transaction();
+
+    try {
+      const existing = await JournalEntry.findOne({
+        where: { reference: input.reference },
+        transaction: t
+      });
+
+      if (existing) {
+        if (!transaction) await t.commit();
+        return { entry: existing, created: false };
+      }
+
+      if (input.lines.length < 2) {
+        throw new Error("A journal entry needs at least two lines");
+      }
+
+      let debitPaise = 0;
+      let creditPaise = 0;
+      for (const line of input.lines) {
+        const debit = toPaise(line.debit);
+        const credit = toPaise(line.credit);
+        if (debit < 0 || credit < 0) {
+          throw new Error("Journal line amounts cannot be negative");
+        }
+        if ((debit > 0) === (credit > 0)) {
+          throw new Error("Each journal line must be either a debit or a credit");
+        }
+        debitPaise += debit;
+        creditPaise += credit;
+      }
+
+      if (debitPaise !== creditPaise) {
+        throw new Error(
+          `Unbalanced journal entry ${input.reference}: debits ${fromPaise(debitPaise)} != credits ${fromPaise(creditPaise)}`
+        );
+      }
+
+      const entry = await JournalEntry.create({
+        reference: input.reference,
+        entryType: input.entryType,
+        description: input.description,
+        metadata: input.metadata ?? null,
+        postedBy: input.postedBy ?? null
+      }, { transaction: t });
+
+      await JournalLine.bulkCreate(
+        input.lines.map(line => ({
+          journalEntryId: entry.id,
+          accountId: line.accountId,
+          debit: fromPaise(toPaise(line.debit)),
+          credit: fromPaise(toPaise(line.credit)),
+          memo: line.memo ?? null
+        })),
+        { transaction: t }
+      );
+
+      if (!transaction) await t.commit();
+      return { entry, created: true };
+
+    } catch (error) {
+      if (!transaction) await t.rollback();
+      throw error;
+    }
+  }
+
+  /**
+   * Credit a user's wallet: debit the source account, credit the wallet
+   * account, then update the Wallet / WalletTransaction / User projections.
+   */
+  static async creditUserWallet(
+    userId: number,
+    amount: number,
+    input: WalletCreditInput,
+    transaction?: Transaction
+  ): Promise<WalletTransaction> {
+    const t = transaction || await sequelize.transaction();
+
+    try {
+      if (toPaise(amount) <= 0) {
+        throw new Error("Credit amount must be greater than 0");
+      }
+
+      const walletAccount = await this.getUserWalletAccount(userId, t);
+      const source = await this.getSystemAccount(input.sourceAccount || DEFAULT_CREDIT_SOURCE[input.type], t);
+
+      const { entry, created } = await this.postEntry({
+        reference: input.reference,
+        entryType: input.type,
+        description: input.description,
+        metadata: input.metadata,
+        postedBy: input.postedBy,
+        lines: [
+          { accountId: source.id, debit: amount, memo: input.description },
+          { accountId: walletAccount.id, credit: amount, memo: input.description }
+        ]
+      }, t);
+
+      const walletTransaction = created
+        ? await this.projectWalletPosting(userId, "credit", amount, entry, input, t)
+        : await this.findProjection(entry, t);
+
+      // New money pays off what the member still owes before they can spend it
+      if (created) await this.collectRecoveryDues(userId, t);
+
+      if (!transaction) await t.commit();
+      return walletTransaction;
+
+    } catch (error) {
+      if (!transaction) await t.rollback();
+      throw error;
+    }
+  }
+
+  /**
+   * Debit a user's wallet: debit the wallet account and credit the
+   * destination accounts (e.g. bank for the net payout, TDS payable for tax).
+   */
+  static async debitUserWallet(
+    userId: number,
+    amount: number,
+    input: WalletDebitInput,
+    transaction?: Transaction
+  ): Promise<WalletTransaction> {
+    const t = transaction || await sequelize.transaction();
+
+    try {
+      if (toPaise(amount) <= 0) {
+        throw new Error("Debit amount must be greater than 0");
+      }
+
+      const walletAccount = await this.getUserWalletAccount(userId, t);
+      const destinations = input.destinations?.length
+        ? input.destinations
+        : [{ account: "COMPANY_BANK" as SystemAccountCode, amount }];
+
+      const lines: LedgerLineInput[] = [
+        { accountId: walletAccount.id, debit: amount, memo: input.description }
+      ];
+      for (const destination of destinations) {
+        if (toPaise(destination.amount) <= 0) continue;
+        const account = await this.getSystemAccount(destination.account, t);
+        lines.push({ accountId: account.id, credit: destination.amount, memo: destination.memo || input.description });
+      }
+
+      const { entry, created } = await this.postEntry({
+        reference: input.reference,
+        entryType: input.type,
+        description: input.description,
+        metadata: input.metadata,
+        postedBy: input.postedBy,
+        lines
+      }, t);
+
+      const walletTransaction = created
+        ? await this.projectWalletPosting(userId, "debit", amount, entry, input, t)
+        : await this.findProjection(entry, t);
+
+      if (!transaction) await t.commit();
+      return walletTransaction;
+
+    } catch (error) {
+      if (!transaction) await t.rollback();
+      throw error;
+    }
+  }
+
+  /**
+   * Record plan sale revenue (money received into the company bank)
+   */
+  static async recordPlanRevenue(
+    reference: string,
+    amount: number,
+    description: string,
+    metadata?: Record<string, any> | null,
+    transaction?: Transaction
+  ): Promise<JournalEntry | null> {
+    if (toPaise(amount) <= 0) return null;
+
+    const bank = await this.getSystemAccount("COMPANY_BANK", transaction);
+    const revenue = await this.getSystemAccount("COMPANY_REVENUE", transaction);
+
+    const { entry } = await this.postEntry({
+      reference,
+      entryType: "plan_purchase",
+      description,
+      metadata,
+      lines: [
+        { accountId: bank.id, debit: amount },
+        { accountId: revenue.id, credit: amount }
+      ]
+    }, transaction);
+
+    return entry;
+  }
+
+  /**
+   * Reverse plan sale revenue when the money goes back to the buyer
+   * (refund or chargeback)
+   */
+  static async reversePlanRevenue(
+    reference: string,
+    amount: number,
+    description: string,
+    metadata?: Record<string, any> | null,
+    transaction?: Transaction
+  ): Promise<JournalEntry | null> {
+    if (toPaise(amount) <= 0) return null;
+
+    const bank = await this.getSystemAccount("COMPANY_BANK", transaction);
+    const revenue = await this.getSystemAccount("COMPANY_REVENUE", transaction);
+
+    const { entry } = await this.postEntry({
+      reference,
+      entryType: "plan_refund",
+      description,
+      metadata,
+      lines: [
+        { accountId: revenue.id, debit: amount },
+        { accountId: bank.id, credit: amount }
+      ]
+    }, transaction);
+
+    return entry;
+  }
+
+  /**
+   * Take money back from a user's wallet. Whatever the balance can't cover
+   * is recorded as a recovery due and collected from later credits.
+   */
+  static async clawBack(
+    userId: number,
+    amount: number,
+    input: ClawbackInput,
+    transaction: Transaction
+  ): Promise<ClawbackResult> {
+    const amountPaise = toPaise(amount);
+    if (amountPaise <= 0) return { recovered: 0, due: 0, recoveryDue: null };
+
+    // Money held for an open withdrawal is left alone; the rest becomes a due
+    const wallet = await this.lockWallet(userId, transaction);
+    const recoveredPaise = Math.min(amountPaise, Math.max(toPaise(wallet.balance) - toPaise(wallet.heldBalance), 0));
+
+    if (recoveredPaise > 0) {
+      await this.debitUserWallet(userId, fromPaise(recoveredPaise), {
+        type: "refund",
+        reference: input.reference,
+        description: input.description,
+        metadata: input.metadata,
+        postedBy: input.postedBy,
+        destinations: [{ account: input.account, amount: fromPaise(recoveredPaise) }]
+      }, transaction);
+    }
+
+    const duePaise = amountPaise - recoveredPaise;
+    const recoveryDue = duePaise > 0
+      ? await RecoveryDue.create({
+        userId,
+        reference: input.reference,
+        account: input.account,
+        amount: fromPaise(duePaise),
+        description: input.description,
+        refundId: input.refundId ?? null
+      }, { transaction })
+      : null;
+
+    return { recovered: fromPaise(recoveredPaise), due: fromPaise(duePaise), recoveryDue };
+  }
+
+  /**
+   * Pay off a user's open recovery dues, oldest first, from their wallet
+   * balance. Returns the amount collected.
+   */
+  static async collectRecoveryDues(userId: number, transaction: Transaction): Promise<number> {
+    const dues = await RecoveryDue.findAll({
+      where: { userId, status: "open" },
+      order: [["createdAt", "ASC"], ["id", "ASC"]],
+      lock: transaction.LOCK.UPDATE,
+      transaction
+    });
+    if (!dues.length) return 0;
+
+    const wallet = await this.lockWallet(userId, transaction);
+    let availablePaise = toPaise(wallet.balance) - toPaise(wallet.heldBalance);
+    let collectedPaise = 0;
+
+    for (const due of dues) {
+      if (availablePaise <= 0) break;
+
+      const outstandingPaise = toPaise(due.amount) - toPaise(due.recoveredAmount);
+      const takePaise = Math.min(outstandingPaise, availablePaise);
+      if (takePaise <= 0) continue;
+
+      // The running total keeps each collection's reference unique
+      const recoveredPaise = toPaise(due.recoveredAmount) + takePaise;
+      await this.debitUserWallet(userId, fromPaise(takePaise), {
+        type: "refund",
+        reference: `${due.reference}_RECOVERY_${recoveredPaise}`,
+        description: `Recovery: ${due.description}`,
+        metadata: { recoveryDueId: due.id, refundId: due.refundId },
+        destinations: [{ account: due.account as SystemAccountCode, amount: fromPaise(takePaise) }]
+      }, transaction);
+
+      const settled = recoveredPaise >= toPaise(due.amount);
+      await due.update({
+        recoveredAmount: fromPaise(recoveredPaise),
+        ...(settled ? { status: "settled", settledAt: new Date() } : {})
+      }, { transaction });
+
+      availablePaise -= takePaise;
+      collectedPaise += takePaise;
+    }
+
+    if (collectedPaise > 0) {
+      console.log(`↩️ Collected ₹${fromPaise(collectedPaise)} of recovery dues from user ${userId}`);
+    }
+    return fromPaise(collectedPaise);
+  }
+
+  /**
+   * Natural balance of an account (positive when it has its normal balance)
+   */
+  static async getAccountBalance(accountId: number, transaction?: Transaction): Promise<number> {
+    const account = await LedgerAccount.findByPk(accountId, { transaction });
+    if (!account) {
+      throw new Error(`Ledger account ${accountId} not found`);
+    }
+
+    const totals = await JournalLine.findOne({
+      where: { accountId },
+      attributes: [
+        [sequelize.fn('COALESCE', sequelize.fn('SUM', sequelize.col('debit')), 0), 'totalDebit'],
+        [sequelize.fn('COALESCE', sequelize.fn('SUM', sequelize.col('credit')), 0), 'totalCredit']
+      ],
+      raw: true,
+      transaction
+    }) as any;
+
+    const debitPaise = toPaise(totals?.totalDebit);
+    const creditPaise = toPaise(totals?.totalCredit);
+    return fromPaise(account.isDebitNormal() ? debitPaise - creditPaise : creditPaise - debitPaise);
+  }
+
+  /**
+   * Balance of a user's wallet according to the journal
+   */
+  static async getUserLedgerBalance(userId: number, transaction?: Transaction): Promise<number> {
+    const account = await LedgerAccount.findOne({
+      where: { code: userWalletAccountCode(userId) },
+      transaction
+    });
+    return account ? this.getAccountBalance(account.id, transaction) : 0;
+  }
+
+  /**
+   * Trial balance across all accounts. Total debits always equal total credits.
+   */
+  static async getTrialBalance(): Promise<{ rows: TrialBalanceRow[]; totalDebit: number; totalCredit: number; balanced: boolean }> {
+    const accounts = await LedgerAccount.findAll({ order: [['code', 'ASC']] });
+
+    const sums = await JournalLine.findAll({
+      attributes: [
+        'accountId',
+        [sequelize.fn('SUM', sequelize.col('debit')), 'totalDebit'],
+        [sequelize.fn('SUM', sequelize.col('credit')), 'totalCredit']
+      ],
+      group: ['accountId'],
+      raw: true
+    }) as any[];
+
+    const sumsByAccount = new Map<number, { debit: number; credit: number }>();
+    for (const row of sums) {
+      sumsByAccount.set(Number(row.accountId), {
+        debit: toPaise(row.totalDebit),
+        credit: toPaise(row.totalCredit)
+      });
+    }
+
+    let totalDebitPaise = 0;
+    let totalCreditPaise = 0;
+    const rows: TrialBalanceRow[] = accounts.map(account => {
+      const { debit, credit } = sumsByAccount.get(account.id) || { debit: 0, credit: 0 };
+      totalDebitPaise += debit;
+      totalCreditPaise += credit;
+      return {
+        accountId: account.id,
+        code: account.code,
+        name: account.name,
+        type: account.type,
+        totalDebit: fromPaise(debit),
+        totalCredit: fromPaise(credit),
+        balance: fromPaise(account.isDebitNormal() ? debit - credit : credit - debit)
+      };
+    });
+
+    return {
+      rows,
+      totalDebit: fromPaise(totalDebitPaise),
+      totalCredit: fromPaise(totalCreditPaise),
+      balanced: totalDebitPaise === totalCreditPaise
+    };
+  }
+
+  /**
+   * Rebuild a user's Wallet, WalletTransaction rows and User income columns
+   * from the journal. Existing projections are corrected in place and any
+   * journal entry without a WalletTransaction gets one.
+   */
+  static async rebuildUserWallet(userId: number, transaction?: Transaction): Promise<Wallet> {
+    const t = transaction || await sequelize.transaction();
+
+    try {
+      const walletAccount = await this.getUserWalletAccount(userId, t);
+      const wallet = await this.lockWallet(userId, t);
+
+      const lines = await JournalLine.findAll({
+        where: { accountId: walletAccount.id },
+        order: [['journalEntryId', 'ASC'], ['id', 'ASC']],
+        transaction: t
+      });
+
+      const entries = await JournalEntry.findAll({
+        where: { id: { [Op.in]: lines.map(line => line.journalEntryId) } },
+        transaction: t
+      });
+      const entriesById = new Map(entries.map(entry => [entry.id, entry]));
+
+      let balance = 0;
+      let earned = 0;
+      let withdrawn = 0;
+      let lastTransactionAt: Date | null = null;
+
+      for (const line of lines) {
+        const entry = entriesById.get(line.journalEntryId)!;
+        const creditPaise = toPaise(line.credit);
+        const debitPaise = toPaise(line.debit);
+        const direction = creditPaise > 0 ? "credit" : "debit";
+        const amountPaise = creditPaise > 0 ? creditPaise : debitPaise;
+
+        const before = balance;
+        if (direction === "credit") {
+          balance += amountPaise;
+          earned += amountPaise;
+        } else {
+          balance -= amountPaise;
+          if (WITHDRAWAL_ENTRY_TYPES.includes(entry.entryType)) withdrawn += amountPaise;
+          else earned -= amountPaise;
+        }
+        lastTransactionAt = entry.createdAt;
+
+        // Opening balances have no wallet transaction of their own
+        if (!(WALLET_TRANSACTION_TYPES as readonly string[]).includes(entry.entryType)) continue;
+
+        const projection = {
+          direction,
+          amount: fromPaise(amountPaise),
+          balanceBefore: fromPaise(before),
+          balanceAfter: fromPaise(balance)
+        } as const;
+
+        const existing = await WalletTransaction.findOne({
+          where: { journalEntryId: entry.id, userId },
+          transaction: t
+        });
+
+        if (existing) {
+          await existing.update(projection, { transaction: t });
+        } else {
+          await WalletTransaction.create({
+            userId,
+            type: entry.entryType as WalletTransactionType,
+            ...projection,
+            status: "completed",
+            description: entry.description,
+            referenceId: entry.reference,
+            metadata: entry.metadata,
+            journalEntryId: entry.id
+          }, { transaction: t });
+        }
+      }
+
+      await wallet.update({
+        balance: fromPaise(balance),
+        totalEarned: fromPaise(earned),
+        totalWithdrawn: fromPaise(withdrawn),
+        lastTransactionAt
+      }, { transaction: t });
+
+      await User.update({
+        totalIncome: fromPaise(earned),
+        totalWithdrawals: fromPaise(withdrawn)
+      }, { where: { id: userId }, transaction: t });
+
+      console.log(`🔁 Rebuilt wallet for user ${userId} from ${lines.length} journal lines: balance ₹${fromPaise(balance)}`);
+
+      if (!transaction) await t.commit();
+      return wallet;
+
+    } catch (error) {
+      if (!transaction) await t.rollback();
+      throw error;
+    }
+  }
+
+  /**
+   * Fetch (creating if needed) and row-lock the user's wallet
+   */
+  static async lockWallet(userId: number, transaction: Transaction): Promise<Wallet> {
+    await Wallet.findOrCreate({
+      where: { userId },
+      defaults: { userId, balance: 0, totalEarned: 0, totalWithdrawn: 0 },
+      transaction
+    });
+
+    return (await Wallet.findOne({
+      where: { userId },
+      lock: transaction.LOCK.UPDATE,
+      transaction
+    }))!;
+  }
+
+  /**
+   * Apply a freshly posted wallet entry to the Wallet / WalletTransaction /
+   * User projections. Credits add to earnings; withdrawal debits add to
+   * withdrawn; any other debit reverses earnings. A debit can only take
+   * the available balance, not money held for withdrawals.
+   */
+  private static async projectWalletPosting(
+    userId: number,
+    direction: "credit" | "debit",
+    amount: number,
+    entry: JournalEntry,
+    input: WalletPostingInput,
+    transaction: Transaction
+  ): Promise<WalletTransaction> {
+    const wallet = await this.lockWallet(userId, transaction);
+
+    const amountPaise = toPaise(amount);
+    const balanceBefore = toPaise(wallet.balance);
+    let balanceAfter = balanceBefore;
+    let earned = toPaise(wallet.totalEarned);
+    let withdrawn = toPaise(wallet.totalWithdrawn);
+
+    if (direction === "credit") {
+      balanceAfter += amountPaise;
+      earned += amountPaise;
+    } else {
+      // Held money is spoken for; a withdrawal payout releases its hold first
+      if (balanceBefore - toPaise(wallet.heldBalance) < amountPaise) {
+        throw new Error("Insufficient wallet balance");
+      }
+      balanceAfter -= amountPaise;
+      if (WITHDRAWAL_ENTRY_TYPES.includes(input.type)) withdrawn += amountPaise;
+      else earned -= amountPaise;
+    }
+
+    await wallet.update({
+      balance: fromPaise(balanceAfter),
+      totalEarned: fromPaise(earned),
+      totalWithdrawn: fromPaise(withdrawn),
+      lastTransactionAt: new Date()
+    }, { transaction });
+
+    // User income columns mirror the wallet totals
+    await User.update({
+      totalIncome: fromPaise(earned),
+      totalWithdrawals: fromPaise(withdrawn)
+    }, { where: { id: userId }, transaction });
+
+    return WalletTransaction.create({
+      userId,
+      type: input.type,
+      direction,
+      amount: fromPaise(amountPaise),
+      balanceBefore: fromPaise(balanceBefore),
+      balanceAfter: fromPaise(balanceAfter),
+      status: "completed",
+      description: input.description,
+      referenceId: input.referenceId ?? input.reference,
+      metadata: input.metadata ?? null,
+      journalEntryId: entry.id
+    }, { transaction });
+  }
+
+  private static async findProjection(entry: JournalEntry, transaction: Transaction): Promise<WalletTransaction> {
+    const walletTransaction = await WalletTransaction.findOne({
+      where: { journalEntryId: entry.id },
+      transaction
+    });
+    if (!walletTransaction) {
+      throw new Error(`Journal entry ${entry.reference} has no wallet transaction; rebuild the wallet`);
+    }
+    console.log(`ℹ️ Ledger entry ${entry.reference} already posted, skipping`);
+    return walletTransaction;
+  }
+}
@@ -3,6 +3,9 @@ import { Plan } from '../models/Plan.ts';
 import { PlanRequest } from '../models/PlanRequest.ts';
 import { Op, Transaction } from 'sequelize';
 import { sequelize } from '../utils/db.ts';
+import { UserTreePath } from '../models/UserTreePath.ts';
+import { TreePathService, type DownlineMember } from './treePathService.ts';
+import { PlacementService } from './placementService.ts';
 
 export interface MLMRegistrationResult {
   success: boolean;
@@ -33,7 +36,9 @@ export interface TreePosition {
 
 export class MLMService {
   /**
-   * Register a new user in the MLM system
+   * Register a new user in the MLM system. A sponsor whose chosen leg is
+   * full still takes the member: they spill over to the first free slot
+   * in that leg under the placement policy.
    */
   static async registerUser(
     userData: {
@@ -44,108 +49,85 @@ export class MLMService {
       position?: 'left' | 'right';
     }
   ): Promise<MLMRegistrationResult> {
-    const transaction = await sequelize.transaction();
-    
     try {
       const { name, email, password, sponsorId, position } = userData;
 
       // Check if user already exists
       const existingUser = await User.findOne({ where: { email } });
       if (existingUser) {
-        await transaction.rollback();
         return {
           success: false,
           message: 'User already exists with this email'
         };
       }
 
-      let sponsorUserId: number | null = null;
-      let finalPosition: 'left' | 'right' | null = null;
-
-      // If sponsorId is provided, find the sponsor and determine position
-      if (sponsorId) {
-        const sponsor = await User.findOne({ where: { sponsorId } });
-        if (!sponsor) {
-          await transaction.rollback();
-          return {
-            success: false,
-            message: 'Invalid sponsor ID'
-          };
-        }
-
-        sponsorUserId = sponsor.id;
-
-        // If position is specified, check if it's available
-        if (position) {
-          const isPositionAvailable = await this.isPositionAvailable(sponsorUserId, position);
-          if (!isPositionAvailable) {
-            await transaction.rollback();
-            return {
-              success: false,
-              message: `${position} position is already occupied under this sponsor`
-            };
-          }
-          finalPosition = position;
-        } else {
-          // Auto-assign position (left first, then right)
-          if (await this.isPositionAvailable(sponsorUserId, 'left')) {
-            finalPosition = 'left';
-          } else if (await this.isPositionAvailable(sponsorUserId, 'right')) {
-            finalPosition = 'right';
-          } else {
-            await transaction.rollback();
-            return {
-              success: false,
-              message: 'No available positions under this sponsor'
-            };
-          }
-        }
-      }
-
-      // Generate unique sponsor ID for the new user
-      let newSponsorId: string;
+      // Generate unique username for the new user
+      let newUsername: string;
       let isUnique = false;
       let attempts = 0;
       
       while (!isUnique && attempts < 10) {
-        newSponsorId = this.generateSponsorId();
-        const existingSponsorId = await User.findOne({ where: { sponsorId: newSponsorId } });
-        if (!existingSponsorId) {
+        newUsername = this.generateSponsorId();
+        const existingUsername = await User.findOne({ where: { username: newUsername } });
+        if (!existingUsername) {
           isUnique = true;
         }
         attempts++;
       }
 
       if (!isUnique) {
-        await transaction.rollback();
         return {
           success: false,
           message: 'Failed to generate unique sponsor ID'
         };
       }
 
-      // Create the user
-      const user = await User.create({
-        name,
-        email,
-        password,
-        sponsorId: newSponsorId!,
-        isActive: true
-      }, { transaction });
-
-      // Update sponsor's referral if applicable
-      if (sponsorUserId && finalPosition) {
-        const updateData = finalPosition === 'left' 
-          ? { leftReferralId: user.id }
-          : { rightReferralId: user.id };
-        
-        await User.update(updateData, {
-          where: { id: sponsorUserId },
-          transaction
+      if (!sponsorId) {
+        const user = await User.create({
+          name,
+          email,
+          password,
+          username: newUsername!,
+          isActive: true
         });
+
+        return {
+          success: true,
+          message: 'User registered successfully',
+          user: {
+            id: user.id,
+            name: user.name,
+            email: user.email,
+            sponsorId: user.username!
+          }
+        };
       }
 
-      await transaction.commit();
+      const sponsor = await User.findOne({ where: { username: sponsorId } });
+      if (!sponsor) {
+        return {
+          success: false,
+          message: 'Invalid sponsor ID'
+        };
+      }
+
+      // Without a chosen leg, fill the sponsor's own slots left first
+      const leg = position
+        || (await this.isPositionAvailable(sponsor.id, 'left') ? 'left' : null)
+        || (await this.isPositionAvailable(sponsor.id, 'right') ? 'right' : 'left');
+
+      const user = await PlacementService.placeMember(sponsor, leg, (placement, transaction) =>
+        User.create({
+          name,
+          email,
+          password,
+          username: newUsername!,
+          sponsorId: sponsor.username,
+          placementParentId: placement.parent.username,
+          position: placement.position,
+          isActive: true
+        }, { transaction })
+      );
 
       return {
         success: true,
@@ -154,14 +136,13 @@ export class MLMService {
           id: user.id,
           name: user.name,
           email: user.email,
-          sponsorId: user.sponsorId!,
-          sponsorUserId: sponsorUserId || undefined,
-          position: finalPosition || undefined
+          sponsorId: user.username!,
+          sponsorUserId: sponsor.id,
+          position: user.position || undefined
         }
       };
 
     } catch (error: any) {
-      await transaction.rollback();
       console.error('MLM registration error:', error);
       return {
         success: false,
@@ -172,14 +153,17 @@ export class MLMService {
   }
 
   /**
-   * Check if a position is available under a sponsor
+   * Check if a sponsor's own slot on a side is still free
    */
   static async isPositionAvailable(sponsorUserId: number, position: 'left' | 'right'): Promise<boolean> {
     const sponsor = await User.findByPk(sponsorUserId);
-    if (!sponsor) return false;
+    if (!sponsor || !sponsor.username) return false;
 
-    const field = position === 'left' ? 'leftReferralId' : 'rightReferralId';
-    return sponsor[field] === null;
+    const occupant = await User.findOne({
+      where: { placementParentId: sponsor.username, position },
+      attributes: ['id']
+    });
+    return !occupant;
   }
 
   /**
@@ -189,125 +173,73 @@ export class MLMService {
     const user = await User.findByPk(userId);
     if (!user) return null;
 
-    const tree = await this.buildTreeStructure(userId, 0, maxLevels);
-    return tree;
-  }
-
-  /**
-   * Build tree structure recursively
-   */
-  private static async buildTreeStructure(
-    userId: number, 
-    level: number, 
-    maxLevels: number
-  ): Promise<TreePosition> {
-    const user = await User.findByPk(userId);
-    if (!user) throw new Error('User not found');
-
-
-    // Get children if not at max level
-    let children: TreePosition[] = [];
-    if (level < maxLevels) {
-      const leftChild = user.leftReferralId;
-      const rightChild = user.rightReferralId;
+    // The whole subtree and every node's leg counts come from the closure table
+    const downline = await TreePathService.getDownline(userId, maxLevels);
+    const nodeIds = [user.id, ...downline.map(member => member.id)];
+    const legRows = await UserTreePath.findAll({
+      where: { ancestorId: { [Op.in]: nodeIds }, depth: { [Op.gt]: 0 } },
+      attributes: ['ancestorId', 'side', [sequelize.fn('COUNT', sequelize.col('id')), 'count']],
+      group: ['ancestorId', 'side'],
+      raw: true
+    }) as unknown as Array<{ ancestorId: number; side: 'left' | 'right'; count: string | number }>;
+
+    const legCounts = new Map<number, { left: number; right: number }>();
+    for (const row of legRows) {
+      const counts = legCounts.get(Number(row.ancestorId)) || { left: 0, right: 0 };
+      counts[row.side] = Number(row.count);
+      legCounts.set(Number(row.ancestorId), counts);
+    }
 
-      if (leftChild) {
-        children.push(await this.buildTreeStructure(leftChild, level + 1, maxLevels));
-      }
-      if (rightChild) {
-        children.push(await this.buildTreeStructure(rightChild, level + 1, maxLevels));
-      }
+    const childrenOf = new Map<string, DownlineMember[]>();
+    for (const member of downline) {
+      if (!member.placementParentId) continue;
+      const siblings = childrenOf.get(member.placementParentId) || [];
+      siblings.push(member);
+      childrenOf.set(member.placementParentId, siblings);
     }
 
-    // Count total descendants
-    const leftCount = await this.countDescendants(userId, 'left');
-    const rightCount = await this.countDescendants(userId, 'right');
+    const buildNode = (
+      node: { id: number; name: string; email: string; sponsorId?: string | null; username?: string | null; position?: 'left' | 'right' | null },
+      level: number
+    ): TreePosition => {
+      const children = level < maxLevels && node.username
+        ? (childrenOf.get(node.username) || []).map(child => buildNode(child, level + 1))
+        : [];
+      const counts = legCounts.get(node.id) || { left: 0, right: 0 };
 
-    return {
-      userId: user.id,
-      name: user.name,
-      email: user.email,
-      sponsorId: user.sponsorId || '',
-      position: level === 0 ? 'root' : (await this.getUserPosition(userId)) || 'left',
-      level,
-      leftCount,
-      rightCount,
-      children: children.length > 0 ? children : undefined
+      return {
+        userId: node.id,
+        name: node.name,
+        email: node.email,
+        sponsorId: node.sponsorId || '',
+        position: level === 0 ? 'root' : node.position || 'left',
+        level,
+        leftCount: counts.left,
+        rightCount: counts.right,
+        children: children.length > 0 ? children : undefined
+      };
     };
+
+    return buildNode(user, 0);
   }
 
   /**
    * Get user's position relative to their sponsor
    */
   static async getUserPosition(userId: number): Promise<'left' | 'right' | null> {
-    const user = await User.findByPk(userId);
-    if (!user) return null;
-
-    // Find sponsor
-    const sponsor = await User.findOne({
-      where: {
-        [Op.or]: [
-          { leftReferralId: userId },
-          { rightReferralId: userId }
-        ]
-      }
-    });
-
-    if (!sponsor) return null;
-
-    return sponsor.leftReferralId === userId ? 'left' : 'right';
+    const user = await User.findByPk(userId, { attributes: ['position'] });
+    return user?.position ?? null;
   }
 
   /**
    * Count descendants on a specific side
    */
   static async countDescendants(userId: number, side: 'left' | 'right'): Promise<number> {
-    const referralField = side === 'left' ? 'leftReferralId' : 'rightReferralId';
-    
-    const count = await User.count({
-      where: {
-        [Op.or]: [
-          { [referralField]: userId },
-          // Add recursive counting for deeper levels
-          { 
-            [Op.and]: [
-              { [referralField]: { [Op.ne]: null } },
-              { [referralField]: { [Op.in]: await this.getAllDescendantIds(userId, referralField) } }
-            ]
-          }
-        ]
-      }
+    return UserTreePath.count({
+      where: { ancestorId: userId, side, depth: { [Op.gt]: 0 } }
     });
-
-    return count;
   }
 
-  /**
-   * Get all descendant IDs recursively
-   */
-  private static async getAllDescendantIds(userId: number, referralField: string): Promise<number[]> {
-    const descendants: number[] = [];
-    const queue = [userId];
-
-    while (queue.length > 0) {
-      const currentUserId = queue.shift()!;
-      
-      const directDescendants = await User.findAll({
-        where: { [referralField]: currentUserId },
-        attributes: ['id']
-      });
-
-      for (const descendant of directDescendants) {
-        descendants.push(descendant.id);
-        queue.push(descendant.id);
-      }
-    }
-
-    return descendants;
-  }
-
-
-
   /**
    * Generate unique sponsor ID
    */
@@ -334,42 +266,14 @@ export class MLMService {
       totalCount: number;
     }>;
   }> {
-    const leftCount = await this.countDescendants(userId, 'left');
-    const rightCount = await this.countDescendants(userId, 'right');
-
-    // Get level-wise statistics
-    const levels = [];
-    for (let level = 1; level <= 10; level++) {
-      const levelStats = await this.getLevelStats(userId, level);
-      if (levelStats.totalCount > 0) {
-        levels.push(levelStats);
-      }
-    }
+    const legs = await TreePathService.getLegCounts(userId);
+    const levels = await TreePathService.getLevelStats(userId, 10);
 
     return {
-      totalDownline: leftCount + rightCount,
-      leftDownline: leftCount,
-      rightDownline: rightCount,
+      totalDownline: legs.total,
+      leftDownline: legs.left.total,
+      rightDownline: legs.right.total,
       levels
     };
   }
-
-  /**
-   * Get statistics for a specific level
-   */
-  private static async getLevelStats(userId: number, level: number): Promise<{
-    level: number;
-    leftCount: number;
-    rightCount: number;
-    totalCount: number;
-  }> {
-    // This would require more complex queries to get level-wise counts
-    // For now, returning basic structure
-    return {
-      level,
-      leftCount: 0,
-      rightCount: 0,
-      totalCount: 0
-    };
-  }
 }
@@ -0,0 +1,355 @@
+import { Order, type OrderStatus } from "../models/Order.ts";
+import { OrderEvent } from "../models/OrderEvent.ts";
+import { Payment } from "../models/Payment.ts";
+import { PlanRequest } from "../models/PlanRequest.ts";
+import { User } from "../models/User.ts";
+import { AdminConfig } from "../models/AdminConfig.ts";
+import { LedgerService } from "./ledgerService.ts";
+import { ActivationOutboxService } from "./activationOutboxService.ts";
+import { MLMService } from "./mlmService.ts";
+import { UserPlanService } from "./userPlanService.ts";
+import { AdvancedBVMatchingService } from "./advancedBvMatchingService.ts";
+import { CouponService } from "./couponService.ts";
+import { InvoiceService } from "./invoiceService.ts";
+import { sequelize } from "../utils/db.ts";
+import { Op, Transaction } from "sequelize";
+
+export interface OrderChange {
+  actorId?: number | null;
+  note?: string | null;
+  // When the change happened, if not now (backfills)
+  at?: Date;
+  // Record the status only; the side effects already happened (backfills)
+  skipSideEffects?: boolean;
+}
+
+// Orders a new payment or plan request for the same plan can join
+const OPEN_ORDER_STATUSES: OrderStatus[] = ["created", "paid", "verified"];
+
+export class OrderService {
+  /**
+   * The order a payment belongs to, linking it to the member's open order
+   * for the plan (or a new one) if it has none yet
+   */
+  static async linkPayment(payment: Payment, transaction: Transaction): Promise<Order> {
+    if (payment.orderId) {
+      const order = await Order.findByPk(payment.orderId, { transaction });
+      if (order) return order;
+    }
+
+    const order = await this.openForPlan(payment.userId, payment.planId, Number(payment.amount), payment.currency, transaction);
+    await payment.update({ orderId: order.id }, { transaction });
+    return order;
+  }
+
+  /**
+   * The order a plan request belongs to, linking it like `linkPayment`
+   */
+  static async linkPlanRequest(request: PlanRequest, transaction: Transaction): Promise<Order> {
+    if (request.orderId) {
+      const order = await Order.findByPk(request.orderId, { transaction });
+      if (order) return order;
+    }
+
+    const order = await this.openForPlan(request.userId, request.planId, Number(request.amount), request.currency, transaction);
+    await request.update({ orderId: order.id }, { transaction });
+    return order;
+  }
+
+  /**
+   * Link a payment to its order and bring the order in line with it
+   */
+  static async syncPayment(payment: Payment, change: OrderChange, transaction: Transaction): Promise<Order> {
+    const order = await this.linkPayment(payment, transaction);
+    return this.sync(order.id, change, transaction);
+  }
+
+  /**
+   * Link a plan request to its order and bring the order in line with it
+   */
+  static async syncPlanRequest(request: PlanRequest, change: OrderChange, transaction: Transaction): Promise<Order> {
+    const order = await this.linkPlanRequest(request, transaction);
+    return this.sync(order.id, change, transaction);
+  }
+
+  /**
+   * Recompute an order's status from its payments and plan requests: the
+   * furthest any of them got wins, and an order with nothing live left is
+   * cancelled. Activated and refunded orders are final and left alone.
+   */
+  static async sync(orderId: number, change: OrderChange, transaction: Transaction): Promise<Order> {
+    const order = await Order.findByPk(orderId, { lock: transaction.LOCK.UPDATE, transaction });
+    if (!order) {
+      throw new Error(`Order ${orderId} not found`);
+    }
+    if (order.status === "activated" || order.status === "refunded") {
+      return order;
+    }
+
+    const payments = await Payment.unscoped().findAll({ where: { orderId }, transaction });
+    const requests = await PlanRequest.unscoped().findAll({ where: { orderId }, transaction });
+
+    let target: OrderStatus = "cancelled";
+    if (payments.some(p => p.status === "approved") || requests.some(r => r.status === "approved")) {
+      target = "activated";
+    } else if (payments.some(p => p.status === "verified")) {
+      target = "verified";
+    } else if (payments.some(p => p.status === "pending") || requests.some(r => r.status === "pending" && r.paymentReference)) {
+      target = "paid";
+    } else if (requests.some(r => r.status === "pending")) {
+      target = "created";
+    }
+
+    if (target === "activated") {
+      return this.activate(order, change, transaction);
+    }
+    return this.transition(order, target, change, transaction);
+  }
+
+  /**
+   * Move an order to a new status and record the change. Moving to the
+   * current status is a no-op; moves the state machine doesn't allow throw.
+   */
+  static async transition(order: Order, to: OrderStatus, change: OrderChange, transaction: Transaction): Promise<Order> {
+    if (order.status === to) return order;
+    if (!order.canMoveTo(to)) {
+      throw new Error(`Order #${order.id} cannot move from ${order.status} to ${to}`);
+    }
+
+    const at = change.at || new Date();
+    const from = order.status;
+    await order.update({
+      status: to,
+      ...(to === "paid" && !order.paidAt ? { paidAt: at } : {}),
+      ...(to === "verified" ? { verifiedAt: at } : {}),
+      ...(to === "activated" ? { activatedAt: at, activatedBy: change.actorId ?? null } : {}),
+      ...(to === "refunded" ? { refundedAt: at } : {}),
+      ...(to === "cancelled" ? { cancelledAt: at } : {})
+    }, { transaction });
+
+    await OrderEvent.create({
+      orderId: order.id,
+      fromStatus: from,
+      toStatus: to,
+      actorId: change.actorId ?? null,
+      note: change.note ?? null
+    }, { transaction });
+
+    // A cancelled order gives its coupon use back
+    if (to === "cancelled") {
+      await CouponService.releaseForOrder(order.id, transaction);
+    }
+
+    return order;
+  }
+
+  /**
+   * Activate an order: the member's account is activated, the plan sale
+   * booked and invoiced, the direct sponsor paid their bonus and the
+   * member's BV queued. The order row is locked and activation is final,
+   * so this runs once per order; BV goes through the activation outbox,
+   * once per member. An upgrade only books the price difference and sends
+   * the BV difference up the tree, and a renewal only books its price; the
+   * sponsor bonus was paid on the first purchase.
+   */
+  static async activate(order: Order, change: OrderChange, transaction: Transaction): Promise<Order> {
+    if (order.status === "activated") return order;
+    await this.transition(order, "activated", change, transaction);
+    const userPlan = await UserPlanService.recordActivation(order, order.activatedAt || new Date(), transaction);
+    if (change.skipSideEffects) return order;
+
+    const user = await User.findByPk(order.userId, { lock: transaction.LOCK.UPDATE, transaction });
+    if (!user) {
+      throw new Error(`User ${order.userId} not found for order #${order.id}`);
+    }
+
+    // Static update: the activation outbox is fed below, not by the User hook
+    const username = user.username || await this.generateUsername(transaction);
+    await User.update({ isActive: true, username }, { where: { id: user.id }, transaction });
+    user.set({ isActive: true, username });
+
+    await LedgerService.recordPlanRevenue(
+      `PLAN_ORDER_${order.id}`,
+      Number(order.amount),
+      `Plan purchase order #${order.id}`,
+      { orderId: order.id, userId: order.userId, planId: order.planId },
+      transaction
+    );
+    await InvoiceService.issueForOrder(order, transaction);
+
+    if (userPlan.kind === "purchase") {
+      await this.creditSponsorBonus(order, user, transaction);
+    }
+
+    // A member's BV is distributed once, however many plans they buy; an
+    // upgrade adds the difference once that first distribution has happened
+    const event = await ActivationOutboxService.recordActivation(user.id, transaction);
+    if (event.status === "pending") {
+      transaction.afterCommit(() => {
+        ActivationOutboxService.processEvent(event.id).catch(error => {
+          console.error(`Activation event ${event.id} processing error:`, error);
+        });
+      });
+    } else if (userPlan.kind === "upgrade") {
+      await this.distributeUpgradeBV(order, user, Number(userPlan.bvDistributed), event.status, transaction);
+    }
+
+    console.log(`✅ Order #${order.id} activated for user ${user.username}`);
+    return order;
+  }
+
+  /**
+   * Link existing payments and plan requests to orders, oldest first. Rows
+   * for the same member and plan share an open order the way new ones do;
+   * statuses are recorded without re-running side effects, which the old
+   * approval code already ran. Safe to run again.
+   */
+  static async backfill(): Promise<{ payments: number; planRequests: number; orders: number }> {
+    const payments = await Payment.unscoped().findAll({
+      where: { orderId: null },
+      order: [["createdAt", "ASC"], ["id", "ASC"]]
+    });
+    const requests = await PlanRequest.unscoped().findAll({
+      where: { orderId: null },
+      order: [["createdAt", "ASC"], ["id", "ASC"]]
+    });
+
+    const rows = [
+      ...payments.map(payment => ({ kind: "payment" as const, row: payment, createdAt: payment.createdAt })),
+      ...requests.map(request => ({ kind: "planRequest" as const, row: request, createdAt: request.createdAt }))
+    ].sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+
+    const before = await Order.count();
+    for (const { kind, row } of rows) {
+      await sequelize.transaction(async (t) => {
+        const change: OrderChange = {
+          note: `Migrated from ${kind === "payment" ? "payment" : "plan request"} #${row.id}`,
+          at: row.updatedAt,
+          skipSideEffects: true
+        };
+        if (kind === "payment") {
+          await this.syncPayment(row as Payment, change, t);
+        } else {
+          await this.syncPlanRequest(row as PlanRequest, change, t);
+        }
+      });
+    }
+
+    return {
+      payments: payments.length,
+      planRequests: requests.length,
+      orders: (await Order.count()) - before
+    };
+  }
+
+  /**
+   * The member's open order for a plan, or a new one
+   */
+  private static async openForPlan(
+    userId: number,
+    planId: number,
+    amount: number,
+    currency: string,
+    transaction: Transaction
+  ): Promise<Order> {
+    const open = await Order.findOne({
+      where: { userId, planId, status: { [Op.in]: OPEN_ORDER_STATUSES } },
+      order: [["createdAt", "DESC"]],
+      lock: transaction.LOCK.UPDATE,
+      transaction
+    });
+    if (open) return open;
+
+    // Settled again at activation, against the plan held then
+    const held = await UserPlanService.getHeldPlan(userId, transaction);
+
+    const order = await Order.create({
+      userId,
+      planId,
+      kind: !held ? "purchase" : held.planId === planId ? "renewal" : "upgrade",
+      fromPlanId: held ? held.planId : null,
+      amount,
+      currency: currency || "INR"
+    }, { transaction });
+    await OrderEvent.create({ orderId: order.id, fromStatus: null, toStatus: "created" }, { transaction });
+    return order;
+  }
+
+  /**
+   * Pay the direct sponsor (not the rest of the upline) the configured
+   * bonus. The ledger reference makes it one bonus per order.
+   */
+  private static async creditSponsorBonus(order: Order, user: User, transaction: Transaction): Promise<void> {
+    if (!user.sponsorId) return;
+
+    const sponsor = await User.findOne({ where: { username: user.sponsorId }, transaction });
+    if (!sponsor) {
+      console.log(`❌ Direct sponsor not found for username: ${user.sponsorId}`);
+      return;
+    }
+
+    const sponsorBonusConfig = await AdminConfig.findOne({ order: [["id", "ASC"]], transaction });
+    const bonusAmount = Number(sponsorBonusConfig?.sponsorBonus || 0);
+    if (bonusAmount <= 0) return;
+
+    await LedgerService.creditUserWallet(sponsor.id, bonusAmount, {
+      type: "commission",
+      reference: `SPONSOR_BONUS_ORDER_${order.id}`,
+      sourceAccount: "SPONSOR_BONUS_EXPENSE",
+      description: `Sponsor bonus for referring user ${user.username} (${user.name})`,
+      metadata: {
+        referredUserId: user.id,
+        referredUsername: user.username,
+        referredUserName: user.name,
+        referredUserEmail: user.email,
+        sponsorId: sponsor.id,
+        sponsorUsername: sponsor.username,
+        sponsorName: sponsor.name,
+        orderId: order.id,
+        bonusAmount,
+        timestamp: new Date().toISOString()
+      }
+    }, transaction);
+
+    console.log(`✅ Sponsor bonus of ₹${bonusAmount} credited to DIRECT SPONSOR ${sponsor.id} (${sponsor.username})`);
+  }
+
+  /**
+   * Send an upgrade's BV difference up the tree. Until the member's first
+   * distribution has run the outbox still owes it, and prices it from the
+   * upgraded plan, so there is no difference to send.
+   */
+  private static async distributeUpgradeBV(
+    order: Order,
+    user: User,
+    bv: number,
+    activationStatus: string,
+    transaction: Transaction
+  ): Promise<void> {
+    if (activationStatus === "processing") {
+      throw new Error("This member's BV is being distributed right now; try again shortly");
+    }
+    if (activationStatus !== "processed" || bv <= 0) return;
+    if (!user.placementParentId || !user.position) return;
+
+    const levels = await AdvancedBVMatchingService.addNestedBVToUpline(
+      user.id,
+      bv,
+      user.position as "left" | "right",
+      transaction,
+      order.id
+    );
+    console.log(`📈 Upgrade order #${order.id}: ${bv} BV sent up ${levels} levels for ${user.username}`);
+  }
+
+  /**
+   * A username nobody has, for members activated before they got one
+   */
+  private static async generateUsername(transaction: Transaction): Promise<string> {
+    let username = MLMService.generateSponsorId();
+    while (await User.findOne({ where: { username }, attributes: ["id"], transaction })) {
+      username = MLMService.generateSponsorId();
+    }
+    return username;
+  }
+}
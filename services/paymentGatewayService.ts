@@ -0,0 +1,285 @@
+import crypto from "crypto";
+import { GatewayOrder, type GatewayOrderPurpose } from "../models/GatewayOrder.ts";
+import { WebhookEvent, type WebhookEventStatus } from "../models/WebhookEvent.ts";
+import { Payment } from "../models/Payment.ts";
+import { Plan } from "../models/Plan.ts";
+import { User } from "../models/User.ts";
+import { CompetitionParticipation, ParticipationStatus } from "../models/CompetitionParticipation.ts";
+import { Competition } from "../models/Competition.ts";
+import {
+  getEnabledPaymentProviders,
+  getPaymentProvider,
+  type PaymentProvider,
+  type WebhookHeaders,
+  type WebhookNotification
+} from "./paymentProviders/index.ts";
+import { OrderService } from "./orderService.ts";
+import { UserPlanService } from "./userPlanService.ts";
+import { sequelize } from "../utils/db.ts";
+import { toPaise } from "../utils/money.ts";
+import { Op, Transaction } from "sequelize";
+
+interface GatewayPurchase {
+  purpose: GatewayOrderPurpose;
+  planId?: number;
+  participationId?: number;
+  amount: number;
+  currency: string;
+  label: string;
+}
+
+export interface WebhookResult {
+  eventId: string;
+  status: WebhookEventStatus;
+  duplicate: boolean;
+  note: string | null;
+}
+
+export class PaymentGatewayService {
+  /**
+   * Place a gateway order for a plan purchase or a competition entry fee.
+   * Uses the default provider unless one is named.
+   */
+  static async createOrder(
+    userId: number,
+    target: { planId?: number; participationId?: number },
+    providerName?: string
+  ): Promise<{ order: GatewayOrder; checkout: Record<string, unknown> }> {
+    const provider = providerName ? getPaymentProvider(providerName) : getEnabledPaymentProviders()[0];
+    if (!provider || !provider.isEnabled()) {
+      throw new Error(providerName ? `Payment provider ${providerName} is not available` : "Online payments are not available");
+    }
+
+    const user = await User.findByPk(userId);
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    const purchase = target.planId
+      ? await this.planPurchase(userId, target.planId)
+      : await this.participationPurchase(userId, target.participationId!);
+
+    const receipt = this.generateReceipt();
+    const providerOrder = await provider.createOrder({
+      receipt,
+      amount: purchase.amount,
+      currency: purchase.currency,
+      customer: { id: user.id, name: user.name, email: user.email, phone: user.phone },
+      notes: { userId: String(user.id), purpose: purchase.purpose, label: purchase.label }
+    });
+
+    const order = await GatewayOrder.create({
+      provider: provider.name,
+      providerOrderId: providerOrder.providerOrderId,
+      receipt,
+      userId,
+      purpose: purchase.purpose,
+      planId: purchase.planId ?? null,
+      participationId: purchase.participationId ?? null,
+      amount: purchase.amount,
+      currency: purchase.currency
+    });
+
+    return { order, checkout: { provider: provider.name, ...providerOrder.checkout } };
+  }
+
+  /**
+   * Verify, record and apply a provider webhook. Each provider event id is
+   * applied once: redeliveries of a processed event are acknowledged
+   * without touching the order again, and failed ones are retried.
+   */
+  static async handleWebhook(providerName: string, rawBody: Buffer, headers: WebhookHeaders): Promise<WebhookResult> {
+    const provider = getPaymentProvider(providerName);
+    if (!provider) {
+      throw new Error(`Unknown payment provider ${providerName}`);
+    }
+    if (!provider.verifyWebhook(rawBody, headers)) {
+      throw new Error("Invalid webhook signature");
+    }
+
+    const notification = provider.parseWebhook(rawBody, headers);
+    const [event] = await WebhookEvent.findOrCreate({
+      where: { provider: provider.name, eventId: notification.eventId },
+      defaults: {
+        provider: provider.name,
+        eventId: notification.eventId,
+        eventType: notification.eventType,
+        providerOrderId: notification.providerOrderId,
+        payload: rawBody.toString("utf8")
+      }
+    });
+
+    try {
+      return await sequelize.transaction(async (t) => {
+        const locked = await WebhookEvent.findByPk(event.id, { lock: t.LOCK.UPDATE, transaction: t });
+        if (!locked) {
+          throw new Error(`Webhook event ${event.id} disappeared`);
+        }
+        if (locked.status === "processed" || locked.status === "ignored") {
+          return { eventId: locked.eventId, status: locked.status, duplicate: true, note: locked.note };
+        }
+
+        const outcome = await this.applyNotification(provider, notification, t);
+        await locked.update({
+          status: outcome.status,
+          note: outcome.note,
+          attempts: locked.attempts + 1,
+          processedAt: new Date()
+        }, { transaction: t });
+
+        console.log(`🔔 ${provider.name} webhook ${notification.eventType} (${notification.eventId}): ${outcome.status}${outcome.note ? ` - ${outcome.note}` : ""}`);
+        return { eventId: locked.eventId, status: outcome.status, duplicate: false, note: outcome.note };
+      });
+    } catch (error: any) {
+      await event.update({
+        status: "failed",
+        note: error.message || String(error),
+        attempts: event.attempts + 1
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Apply a webhook to its order. Runs with the order row locked, so a
+   * payment confirmed by two different events is only applied once.
+   */
+  private static async applyNotification(
+    provider: PaymentProvider,
+    notification: WebhookNotification,
+    transaction: Transaction
+  ): Promise<{ status: WebhookEventStatus; note: string | null }> {
+    if (notification.outcome === "other") {
+      return { status: "ignored", note: "Event type not handled" };
+    }
+    if (!notification.providerOrderId) {
+      return { status: "ignored", note: "Event has no order id" };
+    }
+
+    const order = await GatewayOrder.findOne({
+      where: { provider: provider.name, providerOrderId: notification.providerOrderId },
+      lock: transaction.LOCK.UPDATE,
+      transaction
+    });
+    if (!order) {
+      return { status: "ignored", note: `Unknown order ${notification.providerOrderId}` };
+    }
+    if (order.status === "paid") {
+      return { status: "ignored", note: `Order ${order.receipt} is already paid` };
+    }
+
+    if (notification.outcome === "failed") {
+      await order.update({
+        status: "failed",
+        failureReason: (notification.failureReason || "Payment failed").slice(0, 255)
+      }, { transaction });
+      return { status: "processed", note: `Order ${order.receipt} payment failed` };
+    }
+
+    if (notification.amount !== null && toPaise(notification.amount) !== toPaise(order.amount)) {
+      return {
+        status: "failed",
+        note: `Paid ₹${notification.amount} but order ${order.receipt} is for ₹${Number(order.amount)}`
+      };
+    }
+
+    const providerPaymentId = notification.providerPaymentId || order.providerOrderId;
+    const note = `Paid via ${provider.name} (order ${order.providerOrderId}, payment ${providerPaymentId})`;
+
+    if (order.purpose === "plan") {
+      const payment = await Payment.create({
+        userId: order.userId,
+        planId: order.planId!,
+        amount: order.amount,
+        currency: order.currency,
+        utrNumber: providerPaymentId,
+        paymentMethod: "GATEWAY",
+        status: "verified",
+        verifiedAt: new Date(),
+        adminNotes: note
+      }, { transaction });
+
+      await order.update({ status: "paid", paymentId: payment.id, providerPaymentId, paidAt: new Date() }, { transaction });
+      await OrderService.syncPayment(payment, { note }, transaction);
+      return { status: "processed", note: `Payment #${payment.id} verified` };
+    }
+
+    await order.update({ status: "paid", providerPaymentId, paidAt: new Date() }, { transaction });
+
+    const participation = await CompetitionParticipation.findByPk(order.participationId!, { lock: transaction.LOCK.UPDATE, transaction });
+    if (!participation) {
+      return { status: "processed", note: `Participation #${order.participationId} no longer exists; refund the payment` };
+    }
+    if (participation.status !== ParticipationStatus.PAYMENT_PENDING) {
+      return { status: "processed", note: `Participation #${participation.id} is already ${participation.status}; review for a refund` };
+    }
+
+    await participation.update({
+      paymentMethod: "GATEWAY",
+      utrNumber: providerPaymentId,
+      status: ParticipationStatus.PAYMENT_VERIFIED,
+      verifiedAt: new Date(),
+      adminNotes: participation.adminNotes ? `${participation.adminNotes}\n${note}` : note
+    }, { transaction });
+    return { status: "processed", note: `Participation #${participation.id} verified` };
+  }
+
+  /**
+   * What a plan purchase costs, if the member can still buy the plan
+   */
+  private static async planPurchase(userId: number, planId: number): Promise<GatewayPurchase> {
+    const plan = await Plan.findByPk(planId);
+    if (!plan) {
+      throw new Error("Plan not found");
+    }
+
+    const existingPayment = await Payment.findOne({
+      where: { userId, planId, status: { [Op.in]: ["pending", "verified"] } }
+    });
+    if (existingPayment) {
+      throw new Error("You already have a payment awaiting approval for this plan");
+    }
+
+    // Refuses a plan the member already holds, unless it can be renewed
+    const quote = await UserPlanService.quote(userId, plan.id);
+
+    return {
+      purpose: "plan",
+      planId: plan.id,
+      amount: quote.amount,
+      currency: quote.currency,
+      label: quote.kind === "upgrade" ? `Upgrade to ${plan.name}` : `Plan ${plan.name}`
+    };
+  }
+
+  /**
+   * What a competition entry costs, if it is still waiting for payment
+   */
+  private static async participationPurchase(userId: number, participationId: number): Promise<GatewayPurchase> {
+    const participation = await CompetitionParticipation.findOne({
+      where: { id: participationId, userId },
+      include: [{ model: Competition, as: "competition", attributes: ["id", "title"] }]
+    });
+    if (!participation) {
+      throw new Error("Participation not found");
+    }
+    if (participation.status !== ParticipationStatus.PAYMENT_PENDING) {
+      throw new Error("Payment already submitted or participation not in pending status");
+    }
+
+    return {
+      purpose: "participation",
+      participationId: participation.id,
+      amount: Number(participation.paymentAmount),
+      currency: "INR",
+      label: `Entry ${participation.competition?.title || participation.competitionId}`
+    };
+  }
+
+  /**
+   * Our order reference, also sent to the provider as the receipt/order id
+   */
+  private static generateReceipt(): string {
+    return `UGO${Date.now().toString(36).toUpperCase()}${crypto.randomBytes(4).toString("hex").toUpperCase()}`;
+  }
+}
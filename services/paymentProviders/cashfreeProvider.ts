@@ -0,0 +1,108 @@
+import {
+  hmacSha256,
+  parseJsonBody,
+  readHeader,
+  signaturesMatch,
+  type CreateOrderInput,
+  type PaymentProvider,
+  type ProviderOrder,
+  type WebhookHeaders,
+  type WebhookNotification
+} from "./paymentProvider.ts";
+
+/**
+ * Cashfree Payment Gateway (PG API 2023-08-01). Our receipt is used as the
+ * Cashfree order id. Webhooks are signed as a base64 HMAC-SHA256 of the
+ * timestamp header followed by the raw body.
+ */
+export class CashfreeProvider implements PaymentProvider {
+  readonly name = "cashfree" as const;
+
+  private static readonly API_VERSION = "2023-08-01";
+
+  isEnabled(): boolean {
+    return !!(process.env.CASHFREE_APP_ID && process.env.CASHFREE_SECRET_KEY);
+  }
+
+  async createOrder(input: CreateOrderInput): Promise<ProviderOrder> {
+    if (!input.customer.phone) {
+      throw new Error("Add a phone number to your profile to pay with Cashfree");
+    }
+
+    const response = await fetch(`${this.apiUrl()}/orders`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "x-api-version": CashfreeProvider.API_VERSION,
+        "x-client-id": process.env.CASHFREE_APP_ID || "",
+        "x-client-secret": process.env.CASHFREE_SECRET_KEY || ""
+      },
+      body: JSON.stringify({
+        order_id: input.receipt,
+        order_amount: input.amount,
+        order_currency: input.currency,
+        customer_details: {
+          customer_id: `user_${input.customer.id}`,
+          customer_name: input.customer.name,
+          customer_email: input.customer.email,
+          customer_phone: input.customer.phone
+        },
+        order_tags: input.notes
+      })
+    });
+
+    const body: any = await response.json().catch(() => ({}));
+    if (!response.ok || !body.order_id) {
+      throw new Error(`Cashfree order failed: ${body.message || response.statusText}`);
+    }
+
+    return {
+      providerOrderId: body.order_id,
+      checkout: {
+        orderId: body.order_id,
+        paymentSessionId: body.payment_session_id,
+        mode: this.isProduction() ? "production" : "sandbox"
+      }
+    };
+  }
+
+  verifyWebhook(rawBody: Buffer, headers: WebhookHeaders): boolean {
+    const secret = process.env.CASHFREE_SECRET_KEY;
+    const timestamp = readHeader(headers, "x-webhook-timestamp");
+    if (!secret || !timestamp) return false;
+    return signaturesMatch(
+      readHeader(headers, "x-webhook-signature"),
+      hmacSha256(secret, Buffer.concat([Buffer.from(timestamp), rawBody]), "base64")
+    );
+  }
+
+  parseWebhook(rawBody: Buffer, headers: WebhookHeaders): WebhookNotification {
+    const body = parseJsonBody(rawBody);
+    const eventType = String(body.type || "unknown");
+    const order = body.data?.order;
+    const payment = body.data?.payment;
+
+    const outcome = eventType === "PAYMENT_SUCCESS_WEBHOOK" && payment?.payment_status === "SUCCESS"
+      ? "paid"
+      : eventType === "PAYMENT_FAILED_WEBHOOK" ? "failed" : "other";
+
+    const amount = payment?.payment_amount ?? order?.order_amount;
+    return {
+      eventId: readHeader(headers, "x-idempotency-key") || `${eventType}:${payment?.cf_payment_id || order?.order_id}`,
+      eventType,
+      outcome,
+      providerOrderId: order?.order_id || null,
+      providerPaymentId: payment?.cf_payment_id ? String(payment.cf_payment_id) : null,
+      amount: amount === undefined || amount === null ? null : Number(amount),
+      failureReason: payment?.payment_message || null
+    };
+  }
+
+  private isProduction(): boolean {
+    return process.env.CASHFREE_ENV === "production";
+  }
+
+  private apiUrl(): string {
+    return this.isProduction() ? "https://api.cashfree.com/pg" : "https://sandbox.cashfree.com/pg";
+  }
+}
@@ -0,0 +1,76 @@
+import crypto from "crypto";
+import {
+  hmacSha256,
+  parseJsonBody,
+  readHeader,
+  signaturesMatch,
+  type CreateOrderInput,
+  type PaymentProvider,
+  type ProviderOrder,
+  type WebhookHeaders,
+  type WebhookNotification
+} from "./paymentProvider.ts";
+
+/**
+ * Local provider for development and tests: orders are created without a
+ * network call and payments are completed by posting a webhook signed
+ * with `FakePaymentProvider.sign` (see scripts/sendFakeWebhook.ts).
+ * Off unless PAYMENT_FAKE_ENABLED is "true" and FAKE_PAYMENT_WEBHOOK_SECRET
+ * is set: anyone holding the secret can mark orders paid.
+ */
+export class FakePaymentProvider implements PaymentProvider {
+  readonly name = "fake" as const;
+
+  static readonly SIGNATURE_HEADER = "x-fake-signature";
+
+  static secret(): string | null {
+    return process.env.FAKE_PAYMENT_WEBHOOK_SECRET || null;
+  }
+
+  /**
+   * Signature for a fake webhook body
+   */
+  static sign(rawBody: Buffer | string): string {
+    const secret = this.secret();
+    if (!secret) {
+      throw new Error("FAKE_PAYMENT_WEBHOOK_SECRET is not set");
+    }
+    return hmacSha256(secret, rawBody, "hex");
+  }
+
+  isEnabled(): boolean {
+    return process.env.PAYMENT_FAKE_ENABLED === "true" && !!FakePaymentProvider.secret();
+  }
+
+  async createOrder(input: CreateOrderInput): Promise<ProviderOrder> {
+    const providerOrderId = `fake_order_${crypto.randomBytes(8).toString("hex")}`;
+    return {
+      providerOrderId,
+      checkout: {
+        orderId: providerOrderId,
+        amount: input.amount,
+        currency: input.currency
+      }
+    };
+  }
+
+  verifyWebhook(rawBody: Buffer, headers: WebhookHeaders): boolean {
+    if (!this.isEnabled()) return false;
+    return signaturesMatch(readHeader(headers, FakePaymentProvider.SIGNATURE_HEADER), FakePaymentProvider.sign(rawBody));
+  }
+
+  parseWebhook(rawBody: Buffer, headers: WebhookHeaders): WebhookNotification {
+    const body = parseJsonBody(rawBody);
+    const eventType = String(body.type || "unknown");
+
+    return {
+      eventId: String(body.id || `${eventType}:${body.paymentId}`),
+      eventType,
+      outcome: eventType === "payment.succeeded" ? "paid" : eventType === "payment.failed" ? "failed" : "other",
+      providerOrderId: body.orderId || null,
+      providerPaymentId: body.paymentId || null,
+      amount: body.amount === undefined || body.amount === null ? null : Number(body.amount),
+      failureReason: body.reason || null
+    };
+  }
+}
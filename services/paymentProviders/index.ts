@@ -0,0 +1,29 @@
+import { GATEWAY_PROVIDERS, type GatewayProvider } from "../../models/GatewayOrder.ts";
+import type { PaymentProvider } from "./paymentProvider.ts";
+import { RazorpayProvider } from "./razorpayProvider.ts";
+import { CashfreeProvider } from "./cashfreeProvider.ts";
+import { FakePaymentProvider } from "./fakeProvider.ts";
+
+export type { PaymentProvider, WebhookHeaders, WebhookNotification } from "./paymentProvider.ts";
+export { FakePaymentProvider } from "./fakeProvider.ts";
+
+const providers: Record<GatewayProvider, PaymentProvider> = {
+  razorpay: new RazorpayProvider(),
+  cashfree: new CashfreeProvider(),
+  fake: new FakePaymentProvider()
+};
+
+/**
+ * The adapter for a provider name, or null if unknown
+ */
+export const getPaymentProvider = (name: string): PaymentProvider | null =>
+  (GATEWAY_PROVIDERS as readonly string[]).includes(name) ? providers[name as GatewayProvider] : null;
+
+/**
+ * Providers with credentials configured, the default (PAYMENT_PROVIDER) first
+ */
+export const getEnabledPaymentProviders = (): PaymentProvider[] => {
+  const enabled = Object.values(providers).filter(provider => provider.isEnabled());
+  const preferred = process.env.PAYMENT_PROVIDER;
+  return enabled.sort((a, b) => Number(b.name === preferred) - Number(a.name === preferred));
+};
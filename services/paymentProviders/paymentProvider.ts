@@ -0,0 +1,87 @@
+import crypto from "crypto";
+import type { GatewayProvider } from "../../models/GatewayOrder.ts";
+
+export type WebhookHeaders = Record<string, string | string[] | undefined>;
+
+export interface CreateOrderInput {
+  receipt: string;
+  amount: number;
+  currency: string;
+  customer: { id: number; name: string; email: string; phone?: string | null };
+  notes: Record<string, string>;
+}
+
+export interface ProviderOrder {
+  providerOrderId: string;
+  // Whatever the frontend needs to open the provider's checkout
+  checkout: Record<string, unknown>;
+}
+
+/**
+ * A webhook reduced to what we act on. `outcome` is "other" for events
+ * that don't settle a payment (refunds, disputes, ...).
+ */
+export interface WebhookNotification {
+  eventId: string;
+  eventType: string;
+  outcome: "paid" | "failed" | "other";
+  providerOrderId: string | null;
+  providerPaymentId: string | null;
+  amount: number | null;
+  failureReason: string | null;
+}
+
+/**
+ * A payment gateway adapter
+ */
+export interface PaymentProvider {
+  readonly name: GatewayProvider;
+
+  /** Whether credentials for the provider are configured */
+  isEnabled(): boolean;
+
+  /** Place an order the member can pay through the provider's checkout */
+  createOrder(input: CreateOrderInput): Promise<ProviderOrder>;
+
+  /** Check the webhook's HMAC signature against the raw request body */
+  verifyWebhook(rawBody: Buffer, headers: WebhookHeaders): boolean;
+
+  /** Read a verified webhook */
+  parseWebhook(rawBody: Buffer, headers: WebhookHeaders): WebhookNotification;
+}
+
+/**
+ * A single header value; Node lower-cases incoming header names
+ */
+export const readHeader = (headers: WebhookHeaders, name: string): string | null => {
+  const value = headers[name.toLowerCase()];
+  if (Array.isArray(value)) return value[0] ?? null;
+  return value ?? null;
+};
+
+/**
+ * HMAC-SHA256 of `payload` with `secret`
+ */
+export const hmacSha256 = (secret: string, payload: Buffer | string, encoding: "hex" | "base64"): string =>
+  crypto.createHmac("sha256", secret).update(payload).digest(encoding);
+
+/**
+ * Constant-time comparison of a received signature with the expected one
+ */
+export const signaturesMatch = (received: string | null, expected: string): boolean => {
+  if (!received) return false;
+  const a = Buffer.from(received);
+  const b = Buffer.from(expected);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+};
+
+/**
+ * JSON body of a webhook; providers only ever send objects
+ */
+export const parseJsonBody = (rawBody: Buffer): any => {
+  try {
+    return JSON.parse(rawBody.toString("utf8"));
+  } catch (parseError) {
+    throw new Error("Webhook body is not valid JSON");
+  }
+};
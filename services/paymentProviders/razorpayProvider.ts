@@ -0,0 +1,94 @@
+import { toPaise, fromPaise } from "../../utils/money.ts";
+import {
+  hmacSha256,
+  parseJsonBody,
+  readHeader,
+  signaturesMatch,
+  type CreateOrderInput,
+  type PaymentProvider,
+  type ProviderOrder,
+  type WebhookHeaders,
+  type WebhookNotification
+} from "./paymentProvider.ts";
+
+/**
+ * Razorpay Orders API. Webhooks are signed with the webhook secret as a
+ * hex HMAC-SHA256 of the raw body in `X-Razorpay-Signature`.
+ */
+export class RazorpayProvider implements PaymentProvider {
+  readonly name = "razorpay" as const;
+
+  private static readonly API_URL = "https://api.razorpay.com/v1";
+
+  isEnabled(): boolean {
+    return !!(process.env.RAZORPAY_KEY_ID && process.env.RAZORPAY_KEY_SECRET && process.env.RAZORPAY_WEBHOOK_SECRET);
+  }
+
+  async createOrder(input: CreateOrderInput): Promise<ProviderOrder> {
+    const keyId = process.env.RAZORPAY_KEY_ID || "";
+    const credentials = Buffer.from(`${keyId}:${process.env.RAZORPAY_KEY_SECRET || ""}`).toString("base64");
+
+    const response = await fetch(`${RazorpayProvider.API_URL}/orders`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Basic ${credentials}`
+      },
+      body: JSON.stringify({
+        amount: toPaise(input.amount),
+        currency: input.currency,
+        receipt: input.receipt,
+        notes: input.notes
+      })
+    });
+
+    const body: any = await response.json().catch(() => ({}));
+    if (!response.ok || !body.id) {
+      throw new Error(`Razorpay order failed: ${body.error?.description || response.statusText}`);
+    }
+
+    return {
+      providerOrderId: body.id,
+      checkout: {
+        keyId,
+        orderId: body.id,
+        amount: body.amount,
+        currency: body.currency,
+        prefill: {
+          name: input.customer.name,
+          email: input.customer.email,
+          contact: input.customer.phone || undefined
+        }
+      }
+    };
+  }
+
+  verifyWebhook(rawBody: Buffer, headers: WebhookHeaders): boolean {
+    const secret = process.env.RAZORPAY_WEBHOOK_SECRET;
+    if (!secret) return false;
+    return signaturesMatch(readHeader(headers, "x-razorpay-signature"), hmacSha256(secret, rawBody, "hex"));
+  }
+
+  parseWebhook(rawBody: Buffer, headers: WebhookHeaders): WebhookNotification {
+    const body = parseJsonBody(rawBody);
+    const eventType = String(body.event || "unknown");
+    const payment = body.payload?.payment?.entity;
+    const order = body.payload?.order?.entity;
+
+    // payment.captured and order.paid both arrive for one successful payment
+    const outcome = eventType === "payment.captured" || eventType === "order.paid"
+      ? "paid"
+      : eventType === "payment.failed" ? "failed" : "other";
+
+    const paise = payment?.amount ?? order?.amount_paid;
+    return {
+      eventId: readHeader(headers, "x-razorpay-event-id") || `${eventType}:${payment?.id || order?.id}`,
+      eventType,
+      outcome,
+      providerOrderId: payment?.order_id || order?.id || null,
+      providerPaymentId: payment?.id || null,
+      amount: paise === undefined || paise === null ? null : fromPaise(Number(paise)),
+      failureReason: payment?.error_description || null
+    };
+  }
+}
@@ -0,0 +1,520 @@
+import {
+  PayoutBatch,
+  PAYOUT_MODES,
+  PAYOUT_FILE_FORMATS,
+  type PayoutMode,
+  type PayoutFileFormat,
+  type PayoutBatchStatus
+} from "../models/PayoutBatch.ts";
+import { PayoutBatchItem } from "../models/PayoutBatchItem.ts";
+import { Withdrawal } from "../models/Withdrawal.ts";
+import { AdminConfig } from "../models/AdminConfig.ts";
+import { WithdrawalService } from "./withdrawalService.ts";
+import { UtrRegistryService } from "./utrRegistryService.ts";
+import { sequelize } from "../utils/db.ts";
+import { parseCsv, toCsv } from "../utils/csv.ts";
+import { toPaise, fromPaise, roundMoney } from "../utils/money.ts";
+import { Op, Transaction } from "sequelize";
+
+export interface PayoutBatchConfig {
+  debitAccountNumber: string | null;   // No batches until this is set
+  narration: string;
+  defaultMode: PayoutMode;
+  defaultFileFormat: PayoutFileFormat;
+}
+
+export interface PayoutBatchInput {
+  withdrawalIds?: number[];            // Every approved withdrawal when empty
+  mode?: PayoutMode;
+  fileFormat?: PayoutFileFormat;
+}
+
+export interface SkippedWithdrawal {
+  withdrawalId: number;
+  reason: string;
+}
+
+export interface PayoutFile {
+  fileName: string;
+  contentType: string;
+  content: string;
+}
+
+export type PayoutResponseOutcome = 'completed' | 'failed' | 'pending' | 'already_settled' | 'unmatched' | 'error';
+
+export interface PayoutResponseRow {
+  rowNumber: number;
+  paymentReference: string;
+  withdrawalId: number | null;
+  outcome: PayoutResponseOutcome;
+  note?: string;
+}
+
+export const PAYOUT_BATCH_CONFIG_KEY = "payout-batch";
+
+export const DEFAULT_PAYOUT_BATCH_CONFIG: PayoutBatchConfig = {
+  debitAccountNumber: null,
+  narration: "Withdrawal payout",
+  defaultMode: "NEFT",
+  defaultFileFormat: "csv"
+};
+
+// Header of the CSV bulk upload
+export const PAYOUT_CSV_COLUMNS = [
+  "Payment Mode",
+  "Debit Account Number",
+  "Beneficiary Name",
+  "Beneficiary Account Number",
+  "IFSC Code",
+  "Amount",
+  "Value Date",
+  "Payment Reference",
+  "Narration"
+];
+
+/**
+ * Fixed-width layout, one line per transfer. Text is left-aligned and
+ * space-filled; the amount is right-aligned and zero-filled.
+ */
+const FIXED_WIDTH_FIELDS = [
+  { name: "mode", width: 4 },
+  { name: "debitAccount", width: 20 },
+  { name: "beneficiaryAccount", width: 20 },
+  { name: "ifsc", width: 11 },
+  { name: "beneficiaryName", width: 35 },
+  { name: "amount", width: 15 },         // 2 decimals, e.g. 000000001234.50
+  { name: "valueDate", width: 8 },       // DDMMYYYY
+  { name: "reference", width: 20 },
+  { name: "narration", width: 30 }
+] as const;
+
+type ResponseColumn = 'reference' | 'utr' | 'status' | 'reason';
+
+// Header names in the response files of the banks we've seen, normalized
+const RESPONSE_COLUMN_ALIASES: Record<ResponseColumn, string[]> = {
+  reference: ['payment reference', 'customer reference', 'customer ref no', 'cust ref no', 'reference', 'reference no', 'ref no', 'transaction reference'],
+  utr: ['utr', 'utr no', 'utr number', 'bank reference', 'bank ref no', 'rrn'],
+  status: ['status', 'transaction status', 'txn status', 'payment status'],
+  reason: ['reason', 'failure reason', 'return reason', 'rejection reason', 'remarks', 'error description']
+};
+
+const SUCCESS_STATUSES = ['success', 'successful', 'completed', 'processed', 'paid', 'executed', 'credited'];
+const FAILURE_STATUSES = ['failed', 'failure', 'rejected', 'returned', 'reversed', 'cancelled'];
+
+const ACCOUNT_NUMBER_PATTERN = /^\d{9,18}$/;
+const IFSC_PATTERN = /^[A-Z]{4}0[A-Z0-9]{6}$/;
+
+export class PayoutBatchService {
+  // Keeps one batch inside a single transaction and a single bank upload
+  static readonly MAX_ITEMS = 1000;
+
+  // IMPS takes at most ₹5,00,000 per transfer
+  static readonly IMPS_LIMIT = 500000;
+
+  // Preamble rows some banks put above the header
+  private static readonly HEADER_SEARCH_ROWS = 20;
+
+  /**
+   * Load the payout file settings, falling back to the defaults
+   */
+  static async getConfig(transaction?: Transaction): Promise<PayoutBatchConfig> {
+    const record = await AdminConfig.findOne({
+      where: { key: PAYOUT_BATCH_CONFIG_KEY },
+      transaction
+    });
+
+    if (!record || record.isActive === false) {
+      return { ...DEFAULT_PAYOUT_BATCH_CONFIG };
+    }
+
+    try {
+      return this.normalizeConfig(JSON.parse(record.value));
+    } catch (error) {
+      console.warn("Invalid payout batch config, using defaults:", error);
+      return { ...DEFAULT_PAYOUT_BATCH_CONFIG };
+    }
+  }
+
+  /**
+   * Validate a (partial) config and merge it over the defaults
+   */
+  static normalizeConfig(input: Partial<PayoutBatchConfig>): PayoutBatchConfig {
+    const config: PayoutBatchConfig = { ...DEFAULT_PAYOUT_BATCH_CONFIG, ...input };
+
+    const debitAccountNumber = config.debitAccountNumber
+      ? String(config.debitAccountNumber).replace(/\s+/g, "")
+      : null;
+    if (debitAccountNumber && !ACCOUNT_NUMBER_PATTERN.test(debitAccountNumber)) {
+      throw new Error("debitAccountNumber must be 9 to 18 digits");
+    }
+
+    const narration = this.bankText(String(config.narration || ""), 30);
+    if (!narration) {
+      throw new Error("narration is required");
+    }
+
+    if (!PAYOUT_MODES.includes(config.defaultMode)) {
+      throw new Error(`defaultMode must be one of: ${PAYOUT_MODES.join(", ")}`);
+    }
+    if (!PAYOUT_FILE_FORMATS.includes(config.defaultFileFormat)) {
+      throw new Error(`defaultFileFormat must be one of: ${PAYOUT_FILE_FORMATS.join(", ")}`);
+    }
+
+    return {
+      debitAccountNumber,
+      narration,
+      defaultMode: config.defaultMode,
+      defaultFileFormat: config.defaultFileFormat
+    };
+  }
+
+  /**
+   * Collect approved withdrawals into a batch and move them to processing,
+   * so they can't be paid twice. Withdrawals that can't go on a bank file
+   * (not a bank transfer, missing or invalid account details) are left
+   * approved and reported back.
+   */
+  static async createBatch(
+    input: PayoutBatchInput,
+    createdBy: number
+  ): Promise<{ batch: PayoutBatch; skipped: SkippedWithdrawal[] }> {
+    const config = await this.getConfig();
+    if (!config.debitAccountNumber) {
+      throw new Error("Set the debit account number in the payout batch settings first");
+    }
+
+    const mode = input.mode || config.defaultMode;
+    if (!PAYOUT_MODES.includes(mode)) {
+      throw new Error(`mode must be one of: ${PAYOUT_MODES.join(", ")}`);
+    }
+    const fileFormat = input.fileFormat || config.defaultFileFormat;
+    if (!PAYOUT_FILE_FORMATS.includes(fileFormat)) {
+      throw new Error(`fileFormat must be one of: ${PAYOUT_FILE_FORMATS.join(", ")}`);
+    }
+
+    return sequelize.transaction(async (t) => {
+      const where: Record<string, any> = { status: "approved" };
+      if (input.withdrawalIds?.length) {
+        where.id = { [Op.in]: input.withdrawalIds };
+      }
+
+      const withdrawals = await Withdrawal.findAll({
+        where,
+        order: [["createdAt", "ASC"], ["id", "ASC"]],
+        limit: this.MAX_ITEMS,
+        lock: t.LOCK.UPDATE,
+        transaction: t
+      });
+
+      const skipped: SkippedWithdrawal[] = [];
+      if (input.withdrawalIds?.length) {
+        const found = new Set(withdrawals.map(w => w.id));
+        for (const id of input.withdrawalIds) {
+          if (!found.has(id)) skipped.push({ withdrawalId: id, reason: "Not found or not approved" });
+        }
+      }
+
+      const eligible: Array<{ withdrawal: Withdrawal; item: ReturnType<typeof PayoutBatchService.describeTransfer> }> = [];
+      for (const withdrawal of withdrawals) {
+        const item = this.describeTransfer(withdrawal);
+        const reason = this.ineligibleReason(withdrawal, item, mode);
+        if (reason) skipped.push({ withdrawalId: withdrawal.id, reason });
+        else eligible.push({ withdrawal, item });
+      }
+
+      if (eligible.length === 0) {
+        throw new Error("No approved withdrawals with valid bank details to batch");
+      }
+
+      const batch = await PayoutBatch.create({
+        mode,
+        fileFormat,
+        debitAccountNumber: config.debitAccountNumber!,
+        createdBy
+      }, { transaction: t });
+
+      let totalPaise = 0;
+      for (const { withdrawal, item } of eligible) {
+        await WithdrawalService.transition(withdrawal.id, "processing", { actorId: createdBy }, t);
+        await PayoutBatchItem.create({
+          batchId: batch.id,
+          withdrawalId: withdrawal.id,
+          userId: withdrawal.userId,
+          paymentReference: this.paymentReference(withdrawal.id),
+          ...item
+        }, { transaction: t });
+        totalPaise += toPaise(item.amount);
+      }
+
+      await batch.update({ itemCount: eligible.length, totalAmount: fromPaise(totalPaise) }, { transaction: t });
+
+      console.log(`🏦 Payout batch #${batch.id}: ${eligible.length} transfers, ₹${fromPaise(totalPaise)} (${skipped.length} skipped)`);
+      return { batch, skipped };
+    });
+  }
+
+  /**
+   * Build a batch's bulk upload file. The format defaults to the one the
+   * batch was created with.
+   */
+  static async renderFile(batchId: number, format?: PayoutFileFormat): Promise<PayoutFile> {
+    const batch = await PayoutBatch.findByPk(batchId);
+    if (!batch) {
+      throw new Error("Payout batch not found");
+    }
+
+    const fileFormat = format || batch.fileFormat;
+    if (!PAYOUT_FILE_FORMATS.includes(fileFormat)) {
+      throw new Error(`format must be one of: ${PAYOUT_FILE_FORMATS.join(", ")}`);
+    }
+
+    const [config, items] = await Promise.all([
+      this.getConfig(),
+      PayoutBatchItem.findAll({ where: { batchId: batch.id }, order: [["id", "ASC"]] })
+    ]);
+
+    const today = new Date();
+    const day = String(today.getDate()).padStart(2, "0");
+    const month = String(today.getMonth() + 1).padStart(2, "0");
+    const year = String(today.getFullYear());
+    const narration = (item: PayoutBatchItem) => this.bankText(`${config.narration} ${item.paymentReference}`, 30);
+
+    if (fileFormat === "csv") {
+      return {
+        fileName: `payout-batch-${batch.id}.csv`,
+        contentType: "text/csv; charset=utf-8",
+        content: toCsv([
+          PAYOUT_CSV_COLUMNS,
+          ...items.map(item => [
+            batch.mode,
+            batch.debitAccountNumber,
+            this.bankText(item.beneficiaryName, 35),
+            item.accountNumber,
+            item.ifscCode,
+            Number(item.amount).toFixed(2),
+            `${day}/${month}/${year}`,
+            item.paymentReference,
+            narration(item)
+          ])
+        ])
+      };
+    }
+
+    const lines = items.map(item => {
+      const values: Record<(typeof FIXED_WIDTH_FIELDS)[number]["name"], string> = {
+        mode: batch.mode,
+        debitAccount: batch.debitAccountNumber,
+        beneficiaryAccount: item.accountNumber,
+        ifsc: item.ifscCode,
+        beneficiaryName: this.bankText(item.beneficiaryName, 35),
+        amount: Number(item.amount).toFixed(2).padStart(15, "0"),
+        valueDate: `${day}${month}${year}`,
+        reference: item.paymentReference,
+        narration: narration(item)
+      };
+      return FIXED_WIDTH_FIELDS.map(({ name, width }) => values[name].slice(0, width).padEnd(width, " ")).join("");
+    });
+
+    return {
+      fileName: `payout-batch-${batch.id}.txt`,
+      contentType: "text/plain; charset=utf-8",
+      content: lines.join("\r\n") + "\r\n"
+    };
+  }
+
+  /**
+   * Apply the bank's response file to a batch: successful transfers
+   * complete their withdrawal with the bank's UTR, failed ones release the
+   * hold. Each row settles in its own transaction, so one bad row doesn't
+   * hold up the rest and the same file can be imported again.
+   */
+  static async importResponse(
+    batchId: number,
+    fileName: string,
+    csvText: string,
+    importedBy: number
+  ): Promise<{ batch: PayoutBatch; rows: PayoutResponseRow[] }> {
+    const batch = await PayoutBatch.findByPk(batchId);
+    if (!batch) {
+      throw new Error("Payout batch not found");
+    }
+
+    const rows = parseCsv(csvText);
+    const headerIndex = this.findHeaderRow(rows);
+    if (headerIndex === -1) {
+      throw new Error("Could not find a header row with payment reference and status columns");
+    }
+    const columns = this.mapColumns(rows[headerIndex]);
+    const dataRows = rows.slice(headerIndex + 1);
+    if (dataRows.length > this.MAX_ITEMS) {
+      throw new Error(`Response has ${dataRows.length} rows; a batch holds at most ${this.MAX_ITEMS}`);
+    }
+
+    const items = await PayoutBatchItem.findAll({ where: { batchId: batch.id } });
+    const byReference = new Map(items.map(item => [item.paymentReference, item]));
+
+    const results: PayoutResponseRow[] = [];
+    for (let i = 0; i < dataRows.length; i++) {
+      const row = dataRows[i];
+      const cell = (column: ResponseColumn) =>
+        columns[column] === undefined ? '' : (row[columns[column]!] || '').trim();
+
+      const paymentReference = cell('reference').toUpperCase();
+      const item = byReference.get(paymentReference);
+      const result: PayoutResponseRow = {
+        rowNumber: headerIndex + i + 2,
+        paymentReference,
+        withdrawalId: item?.withdrawalId ?? null,
+        outcome: 'unmatched'
+      };
+      results.push(result);
+
+      if (!item) {
+        result.note = `No transfer with reference ${paymentReference || '(blank)'} in this batch`;
+        continue;
+      }
+      if (item.status !== 'pending') {
+        result.outcome = 'already_settled';
+        result.note = `Transfer is already ${item.status}`;
+        continue;
+      }
+
+      const status = cell('status').toLowerCase().replace(/[^a-z]+/g, '');
+      const reason = cell('reason').slice(0, 255) || null;
+      try {
+        if (SUCCESS_STATUSES.includes(status)) {
+          const utr = UtrRegistryService.normalize(cell('utr'));
+          if (!UtrRegistryService.isValid(utr)) {
+            result.outcome = 'error';
+            result.note = 'Successful transfer has no valid UTR';
+            continue;
+          }
+          await sequelize.transaction(async (t) => {
+            await WithdrawalService.transition(item.withdrawalId, 'completed', { actorId: importedBy, transactionId: utr }, t);
+            await item.update({ status: 'completed', utr, settledAt: new Date() }, { transaction: t });
+          });
+          result.outcome = 'completed';
+        } else if (FAILURE_STATUSES.includes(status)) {
+          await sequelize.transaction(async (t) => {
+            await WithdrawalService.transition(item.withdrawalId, 'failed', {
+              actorId: importedBy,
+              adminNotes: `Bank transfer failed${reason ? `: ${reason}` : ''} (payout batch #${batch.id})`
+            }, t);
+            await item.update({ status: 'failed', failureReason: reason, settledAt: new Date() }, { transaction: t });
+          });
+          result.outcome = 'failed';
+          if (reason) result.note = reason;
+        } else {
+          result.outcome = 'pending';
+          result.note = `Bank status "${cell('status')}" is not final`;
+        }
+      } catch (error: any) {
+        result.outcome = 'error';
+        result.note = error.message || String(error);
+      }
+    }
+
+    await this.refreshTotals(batch, fileName);
+
+    const settled = results.filter(r => r.outcome === 'completed' || r.outcome === 'failed').length;
+    console.log(`🏦 Payout batch #${batch.id} response (${fileName}): ${settled} of ${results.length} rows settled`);
+    return { batch, rows: results };
+  }
+
+  /**
+   * Recount a batch's settled transfers and update its status
+   */
+  private static async refreshTotals(batch: PayoutBatch, responseFileName: string): Promise<void> {
+    const [completedCount, failedCount] = await Promise.all([
+      PayoutBatchItem.count({ where: { batchId: batch.id, status: 'completed' } }),
+      PayoutBatchItem.count({ where: { batchId: batch.id, status: 'failed' } })
+    ]);
+
+    const settled = completedCount + failedCount;
+    const status: PayoutBatchStatus = settled >= batch.itemCount
+      ? 'settled'
+      : settled > 0 ? 'partially_settled' : 'generated';
+
+    await batch.update({
+      completedCount,
+      failedCount,
+      status,
+      responseFileName,
+      settledAt: status === 'settled' ? (batch.settledAt || new Date()) : null
+    });
+  }
+
+  /**
+   * Beneficiary and amount of a withdrawal's transfer, from the bank
+   * details captured when it was requested
+   */
+  private static describeTransfer(withdrawal: Withdrawal) {
+    const details = typeof withdrawal.accountDetails === "string"
+      ? JSON.parse(withdrawal.accountDetails)
+      : withdrawal.accountDetails || {};
+    const tdsAmount = Number(withdrawal.tdsAmount);
+
+    return {
+      beneficiaryName: String(details.accountHolderName || "").trim(),
+      accountNumber: String(details.accountNumber || "").replace(/\s+/g, ""),
+      ifscCode: String(details.ifscCode || "").trim().toUpperCase(),
+      bankName: details.bankName ? String(details.bankName).slice(0, 100) : null,
+      amount: roundMoney(withdrawal.getNetAmount()),
+      tdsAmount
+    };
+  }
+
+  private static ineligibleReason(
+    withdrawal: Withdrawal,
+    transfer: ReturnType<typeof PayoutBatchService.describeTransfer>,
+    mode: PayoutMode
+  ): string | null {
+    if (withdrawal.method !== "bank_transfer") return `Paid by ${withdrawal.method}, not bank transfer`;
+    if (!transfer.beneficiaryName) return "No account holder name";
+    if (!ACCOUNT_NUMBER_PATTERN.test(transfer.accountNumber)) return "Invalid bank account number";
+    if (!IFSC_PATTERN.test(transfer.ifscCode)) return "Invalid IFSC code";
+    if (transfer.amount <= 0) return "Nothing to pay after TDS";
+    if (mode === "IMPS" && transfer.amount > this.IMPS_LIMIT) return `Over the IMPS limit of ₹${this.IMPS_LIMIT}`;
+    return null;
+  }
+
+  // "WD00000123"
+  private static paymentReference(withdrawalId: number): string {
+    return `WD${String(withdrawalId).padStart(8, "0")}`;
+  }
+
+  // Bank files take letters, digits and spaces only
+  private static bankText(text: string, maxLength: number): string {
+    return text.toUpperCase().replace(/[^A-Z0-9 ]+/g, " ").replace(/\s+/g, " ").trim().slice(0, maxLength);
+  }
+
+  /**
+   * Index of the header row: the first naming a reference and a status column
+   */
+  private static findHeaderRow(rows: string[][]): number {
+    const limit = Math.min(rows.length, this.HEADER_SEARCH_ROWS);
+    for (let i = 0; i < limit; i++) {
+      const columns = this.mapColumns(rows[i]);
+      if (columns.reference !== undefined && columns.status !== undefined) {
+        return i;
+      }
+    }
+    return -1;
+  }
+
+  /**
+   * Column index for each field we read, by header name
+   */
+  private static mapColumns(header: string[]): Partial<Record<ResponseColumn, number>> {
+    const columns: Partial<Record<ResponseColumn, number>> = {};
+    header.forEach((name, index) => {
+      const normalized = name.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+      for (const [column, aliases] of Object.entries(RESPONSE_COLUMN_ALIASES) as Array<[ResponseColumn, string[]]>) {
+        if (columns[column] === undefined && aliases.includes(normalized)) {
+          columns[column] = index;
+        }
+      }
+    });
+    return columns;
+  }
+}
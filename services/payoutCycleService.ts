@@ -0,0 +1,254 @@
+import { UserBV } from "../models/UserBv.ts";
+import { PayoutCycle, type PayoutCycleTrigger } from "../models/PayoutCycle.ts";
+import { PayoutCycleItem } from "../models/PayoutCycleItem.ts";
+import { BVMatchingService } from "./bvMatchingService.ts";
+import { sequelize } from "../utils/db.ts";
+import { toPaise, fromPaise } from "../utils/money.ts";
+import { Op } from "sequelize";
+
+export class PayoutCycleService {
+  // A new cycle can't start while one of these is unfinished
+  private static readonly OPEN_STATUSES = ['pending_review', 'posting'];
+
+  /**
+   * The cycle still waiting for review or being posted, if any
+   */
+  static async getOpenCycle(): Promise<PayoutCycle | null> {
+    return PayoutCycle.findOne({
+      where: { status: { [Op.in]: this.OPEN_STATUSES } }
+    });
+  }
+
+  /**
+   * Preview matching for every member with carry on both legs and open a
+   * cycle for admins to review. Nothing is posted to wallets here; returns
+   * null when no member has a pair to pay.
+   */
+  static async createCycle(triggeredBy: PayoutCycleTrigger, createdBy: number | null = null): Promise<PayoutCycle | null> {
+    const openCycle = await this.getOpenCycle();
+    if (openCycle) {
+      throw new Error(`Payout cycle #${openCycle.id} is still ${openCycle.status}`);
+    }
+
+    const candidates = await UserBV.findAll({
+      where: {
+        carryLeft: { [Op.gt]: 0 },
+        carryRight: { [Op.gt]: 0 }
+      },
+      attributes: ['userId'],
+      raw: true
+    });
+
+    return sequelize.transaction(async (t) => {
+      const previews = [];
+      for (const { userId } of candidates) {
+        const preview = await BVMatchingService.previewUserBVMatching(Number(userId), t);
+        if (preview) previews.push(preview);
+      }
+
+      if (previews.length === 0) {
+        console.log(`ℹ️ Payout cycle skipped: ${candidates.length} members with carry, none with a pair to pay`);
+        return null;
+      }
+
+      const cycle = await PayoutCycle.create({
+        triggeredBy,
+        createdBy,
+        usersChecked: candidates.length,
+        itemCount: previews.length,
+        totalPairs: previews.reduce((sum, p) => sum + p.pairs, 0),
+        totalMatchedBv: previews.reduce((sum, p) => sum + p.matchedAmount, 0),
+        totalBonus: fromPaise(previews.reduce((sum, p) => sum + toPaise(p.bonusEarned), 0)),
+        totalCapped: fromPaise(previews.reduce((sum, p) => sum + toPaise(p.incomeCapped), 0))
+      }, { transaction: t });
+
+      await PayoutCycleItem.bulkCreate(previews.map(p => ({
+        payoutCycleId: cycle.id,
+        userId: p.userId,
+        carryLeft: p.carryLeft,
+        carryRight: p.carryRight,
+        pairs: p.pairs,
+        cappedPairs: p.cappedPairs,
+        matchedAmount: p.matchedAmount,
+        bonusEarned: p.bonusEarned,
+        incomeCapped: p.incomeCapped,
+        planId: p.planId
+      })), { transaction: t });
+
+      console.log(`🧾 Payout cycle #${cycle.id} ready for review: ${previews.length} members, ₹${cycle.totalBonus}`);
+      return cycle;
+    });
+  }
+
+  /**
+   * Approve a cycle and post its payouts. Each member is paid the pairs and
+   * bonus that were reviewed, in their own transaction, so one failure
+   * doesn't hold back the rest; a member whose carry has since fallen below
+   * the reviewed figure is skipped. Approving a cycle stuck in `posting`
+   * resumes it.
+   */
+  static async approveCycle(id: number, adminId: number | null, notes?: string | null): Promise<PayoutCycle> {
+    const cycle = await sequelize.transaction(async (t) => {
+      const cycle = await PayoutCycle.findByPk(id, { lock: t.LOCK.UPDATE, transaction: t });
+      if (!cycle) {
+        throw new Error("Payout cycle not found");
+      }
+      if (cycle.status === 'pending_review') {
+        await cycle.update({
+          status: 'posting',
+          reviewedBy: adminId,
+          reviewedAt: new Date(),
+          notes: notes || cycle.notes
+        }, { transaction: t });
+      } else if (cycle.status !== 'posting') {
+        throw new Error(`Payout cycle is already ${cycle.status}`);
+      }
+      return cycle;
+    });
+
+    return this.postPendingItems(cycle);
+  }
+
+  /**
+   * Post a posted cycle's failed items again, against the same reviewed
+   * figures
+   */
+  static async retryFailedItems(id: number): Promise<PayoutCycle> {
+    const cycle = await sequelize.transaction(async (t) => {
+      const cycle = await PayoutCycle.findByPk(id, { lock: t.LOCK.UPDATE, transaction: t });
+      if (!cycle) {
+        throw new Error("Payout cycle not found");
+      }
+      if (cycle.status !== 'posted') {
+        throw new Error(`Payout cycle is ${cycle.status}, only posted cycles can be retried`);
+      }
+
+      const [retried] = await PayoutCycleItem.update(
+        { status: 'pending' },
+        { where: { payoutCycleId: cycle.id, status: 'failed' }, transaction: t }
+      );
+      if (retried === 0) {
+        throw new Error("Payout cycle has no failed items to retry");
+      }
+
+      return cycle.update({ status: 'posting' }, { transaction: t });
+    });
+
+    return this.postPendingItems(cycle);
+  }
+
+  // Post every pending item of a cycle in `posting`, then total it up as
+  // posted. Runs can overlap (approve twice, or approve and retry): each item
+  // is locked and posted only while still pending, and the cycle is totalled
+  // once, by whichever run finds no item left pending.
+  private static async postPendingItems(cycle: PayoutCycle): Promise<PayoutCycle> {
+    const items = await PayoutCycleItem.findAll({
+      where: { payoutCycleId: cycle.id, status: 'pending' },
+      attributes: ['id', 'userId'],
+      order: [['id', 'ASC']]
+    });
+
+    for (const { id: itemId, userId } of items) {
+      try {
+        await sequelize.transaction(async (t) => {
+          const item = await PayoutCycleItem.findByPk(itemId, { lock: t.LOCK.UPDATE, transaction: t });
+          if (item?.status !== 'pending') return;
+
+          const userBV = await UserBV.findOne({
+            where: { userId },
+            lock: t.LOCK.UPDATE,
+            transaction: t
+          });
+          if (!userBV || Number(userBV.carryLeft) < Number(item.carryLeft) || Number(userBV.carryRight) < Number(item.carryRight)) {
+            await item.update({
+              status: 'skipped',
+              error: 'Carry fell below the reviewed match',
+              postedAt: new Date()
+            }, { transaction: t });
+            return;
+          }
+
+          const result = await BVMatchingService.processUserBVMatching(userId, t, {
+            carryLeft: Number(item.carryLeft),
+            carryRight: Number(item.carryRight),
+            pairs: item.pairs,
+            bonusEarned: Number(item.bonusEarned),
+            reference: `PAYOUT_CYCLE_ITEM_${item.id}`
+          });
+          if (!result) {
+            await item.update({ status: 'skipped', postedAt: new Date() }, { transaction: t });
+            return;
+          }
+
+          await item.update({
+            status: 'posted',
+            postedBonus: result.bonusEarned,
+            bvMatchId: result.bvMatchId,
+            walletTransactionId: result.walletTransactionId,
+            error: null,
+            postedAt: new Date()
+          }, { transaction: t });
+        });
+      } catch (error: any) {
+        console.error(`❌ Payout cycle #${cycle.id}: posting failed for user ${userId}:`, error);
+        await PayoutCycleItem.update(
+          { status: 'failed', error: error.message || String(error) },
+          { where: { id: itemId, status: 'pending' } }
+        );
+      }
+    }
+
+    return sequelize.transaction(async (t) => {
+      const current = await PayoutCycle.findByPk(cycle.id, { lock: t.LOCK.UPDATE, transaction: t });
+      if (!current || current.status !== 'posting') return current ?? cycle;
+
+      const allItems = await PayoutCycleItem.findAll({
+        where: { payoutCycleId: cycle.id },
+        attributes: ['status', 'postedBonus'],
+        transaction: t
+      });
+      // Another run is still posting some of them and will total the cycle
+      if (allItems.some(item => item.status === 'pending')) return current;
+
+      await current.update({
+        status: 'posted',
+        postedBonus: fromPaise(allItems.reduce((sum, item) => sum + toPaise(item.postedBonus), 0)),
+        failedCount: allItems.filter(item => item.status === 'failed').length,
+        postedAt: new Date()
+      }, { transaction: t });
+
+      console.log(`✅ Payout cycle #${current.id} posted: ₹${current.postedBonus}, ${current.failedCount} failed`);
+      return current;
+    });
+  }
+
+  /**
+   * Discard a cycle awaiting review. Carry is untouched, so its members are
+   * picked up again by the next cycle.
+   */
+  static async rejectCycle(id: number, adminId: number, notes?: string | null): Promise<PayoutCycle> {
+    return sequelize.transaction(async (t) => {
+      const cycle = await PayoutCycle.findByPk(id, { lock: t.LOCK.UPDATE, transaction: t });
+      if (!cycle) {
+        throw new Error("Payout cycle not found");
+      }
+      if (cycle.status !== 'pending_review') {
+        throw new Error(`Payout cycle is already ${cycle.status}`);
+      }
+
+      await PayoutCycleItem.update(
+        { status: 'rejected' },
+        { where: { payoutCycleId: cycle.id, status: 'pending' }, transaction: t }
+      );
+
+      await cycle.update({
+        status: 'rejected',
+        reviewedBy: adminId,
+        reviewedAt: new Date(),
+        notes: notes || cycle.notes
+      }, { transaction: t });
+
+      return cycle;
+    });
+  }
+}
@@ -0,0 +1,157 @@
+import { PayoutDestination } from "../models/PayoutDestination.ts";
+import { Withdrawal, OPEN_WITHDRAWAL_STATUSES } from "../models/Withdrawal.ts";
+import { getActivePayoutProvider } from "./payoutProviders/index.ts";
+import { isValidVpa, normalizeVpa } from "../utils/upi.ts";
+import { Op, Transaction } from "sequelize";
+
+export interface PayoutDestinationInput {
+  vpa: string;
+  label?: string | null;
+}
+
+export class PayoutDestinationService {
+  // Active UPI IDs a member can keep at once
+  static readonly MAX_ACTIVE = 5;
+
+  /**
+   * Add a UPI ID for a member and verify it with the payout provider.
+   * Adding a removed UPI ID again brings it back, verified afresh.
+   */
+  static async register(userId: number, input: PayoutDestinationInput): Promise<PayoutDestination> {
+    const vpa = normalizeVpa(input.vpa);
+    if (!isValidVpa(vpa)) {
+      throw new Error("Enter a valid UPI ID, like name@bank");
+    }
+    const label = input.label ? String(input.label).trim().slice(0, 50) || null : null;
+
+    const existing = await PayoutDestination.findOne({ where: { userId, vpa } });
+    if (existing?.isActive) {
+      throw new Error("You have already added this UPI ID");
+    }
+
+    const active = await PayoutDestination.count({ where: { userId, isActive: true } });
+    if (active >= this.MAX_ACTIVE) {
+      throw new Error(`You can keep up to ${this.MAX_ACTIVE} UPI IDs; remove one first`);
+    }
+
+    const destination = existing
+      ? await existing.update({
+        label,
+        isActive: true,
+        status: "unverified",
+        verifiedName: null,
+        verifiedAt: null,
+        failureReason: null
+      })
+      : await PayoutDestination.create({ userId, vpa, label });
+
+    return this.verify(destination);
+  }
+
+  /**
+   * Ask the payout provider to resolve the UPI ID. A provider outage
+   * leaves it unverified, with the error kept as the failure reason, so
+   * the member can retry.
+   */
+  static async verify(destination: PayoutDestination): Promise<PayoutDestination> {
+    try {
+      const result = await getActivePayoutProvider().verifyVpa(destination.vpa);
+      return destination.update(result.valid
+        ? {
+          status: "verified",
+          verifiedName: result.accountHolderName ? result.accountHolderName.slice(0, 100) : null,
+          verifiedAt: new Date(),
+          failureReason: null
+        }
+        : {
+          status: "failed",
+          verifiedName: null,
+          verifiedAt: null,
+          failureReason: (result.reason || "UPI ID could not be verified").slice(0, 255)
+        });
+    } catch (error: any) {
+      console.error(`UPI ID verification error for destination #${destination.id}:`, error);
+      return destination.update({
+        status: "unverified",
+        failureReason: `Verification unavailable: ${error.message || "provider error"}`.slice(0, 255)
+      });
+    }
+  }
+
+  /**
+   * Verify one of a member's UPI IDs again
+   */
+  static async verifyForUser(userId: number, destinationId: number): Promise<PayoutDestination> {
+    const destination = await this.findActive(userId, destinationId);
+    if (destination.isVerified()) {
+      return destination;
+    }
+    return this.verify(destination);
+  }
+
+  static async listForUser(userId: number): Promise<PayoutDestination[]> {
+    return PayoutDestination.findAll({
+      where: { userId, isActive: true },
+      order: [["createdAt", "DESC"]]
+    });
+  }
+
+  /**
+   * Remove a UPI ID. It stays on record for the withdrawals paid to it.
+   */
+  static async remove(userId: number, destinationId: number): Promise<PayoutDestination> {
+    const destination = await this.findActive(userId, destinationId);
+
+    const inProgress = await Withdrawal.count({
+      where: {
+        payoutDestinationId: destination.id,
+        status: { [Op.in]: [...OPEN_WITHDRAWAL_STATUSES] }
+      }
+    });
+    if (inProgress > 0) {
+      throw new Error("This UPI ID has a withdrawal in progress; remove it once that is settled");
+    }
+
+    return destination.update({ isActive: false });
+  }
+
+  /**
+   * The member's UPI ID a withdrawal can be paid to
+   */
+  static async payableDestination(
+    userId: number,
+    destinationId: number,
+    transaction?: Transaction
+  ): Promise<PayoutDestination> {
+    const destination = await PayoutDestination.findOne({
+      where: { id: destinationId, userId, isActive: true },
+      transaction
+    });
+    if (!destination) {
+      throw new Error("UPI ID not found");
+    }
+    if (!destination.isVerified()) {
+      throw new Error("Verify this UPI ID before withdrawing to it");
+    }
+    return destination;
+  }
+
+  /**
+   * What a withdrawal to the UPI ID records as its account details
+   */
+  static accountDetailsFor(destination: PayoutDestination): Record<string, any> {
+    return {
+      upiId: destination.vpa,
+      upiName: destination.verifiedName,
+      label: destination.label
+    };
+  }
+
+  private static async findActive(userId: number, destinationId: number): Promise<PayoutDestination> {
+    const destination = await PayoutDestination.findOne({ where: { id: destinationId, userId, isActive: true } });
+    if (!destination) {
+      throw new Error("UPI ID not found");
+    }
+    return destination;
+  }
+}
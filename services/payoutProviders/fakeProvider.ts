@@ -0,0 +1,69 @@
+import crypto from "crypto";
+import type {
+  CreatePayoutInput,
+  PayoutProvider,
+  ProviderPayout,
+  VpaVerification
+} from "./payoutProvider.ts";
+
+/**
+ * Local provider for development and tests. Nothing leaves the server:
+ * a VPA whose handle contains "invalid" doesn't verify, one containing
+ * "fail" bounces its payouts and one containing "pending" settles on the
+ * first status check. Everything else is paid at once. No money moves, so
+ * it is off unless PAYOUT_FAKE_ENABLED is "true".
+ */
+export class FakePayoutProvider implements PayoutProvider {
+  readonly name = "fake" as const;
+
+  // Payouts made since the server started, by provider id and by our reference
+  private readonly payouts = new Map<string, ProviderPayout>();
+  private readonly payoutIdsByReference = new Map<string, string>();
+
+  isEnabled(): boolean {
+    return process.env.PAYOUT_FAKE_ENABLED === "true";
+  }
+
+  async verifyVpa(vpa: string): Promise<VpaVerification> {
+    const handle = vpa.split("@")[0];
+    if (handle.includes("invalid")) {
+      return { valid: false, accountHolderName: null, reason: "VPA does not exist" };
+    }
+    return { valid: true, accountHolderName: `Fake Holder ${handle}`.slice(0, 100), reason: null };
+  }
+
+  async createPayout(input: CreatePayoutInput): Promise<ProviderPayout> {
+    const existingId = this.payoutIdsByReference.get(input.reference);
+    if (existingId) return { ...this.payouts.get(existingId)! };
+
+    const handle = input.vpa.split("@")[0];
+    const payout: ProviderPayout = {
+      providerPayoutId: `fake_pout_${crypto.randomBytes(8).toString("hex")}`,
+      status: handle.includes("fail") ? "failed" : handle.includes("pending") ? "pending" : "completed",
+      utr: null,
+      failureReason: handle.includes("fail") ? "Beneficiary bank declined the credit" : null
+    };
+    if (payout.status === "completed") payout.utr = this.utr();
+
+    this.payouts.set(payout.providerPayoutId, payout);
+    this.payoutIdsByReference.set(input.reference, payout.providerPayoutId);
+    return { ...payout };
+  }
+
+  async getPayout(providerPayoutId: string): Promise<ProviderPayout> {
+    const payout = this.payouts.get(providerPayoutId);
+    if (!payout) {
+      throw new Error(`Fake payout ${providerPayoutId} not found (fake payouts don't survive a restart)`);
+    }
+    if (payout.status === "pending") {
+      payout.status = "completed";
+      payout.utr = this.utr();
+    }
+    return { ...payout };
+  }
+
+  // 12 digits, like a UPI RRN
+  private utr(): string {
+    return String(crypto.randomInt(100000, 999999)) + String(crypto.randomInt(100000, 999999));
+  }
+}
@@ -0,0 +1,31 @@
+import { PAYOUT_PROVIDERS, type PayoutProviderName } from "../../models/Withdrawal.ts";
+import type { PayoutProvider } from "./payoutProvider.ts";
+import { FakePayoutProvider } from "./fakeProvider.ts";
+
+export type { PayoutProvider, ProviderPayout, VpaVerification, CreatePayoutInput } from "./payoutProvider.ts";
+export { FakePayoutProvider } from "./fakeProvider.ts";
+
+const providers: Record<PayoutProviderName, PayoutProvider> = {
+  fake: new FakePayoutProvider()
+};
+
+/**
+ * The adapter for a provider name, or null if unknown
+ */
+export const getPayoutProvider = (name: string): PayoutProvider | null =>
+  (PAYOUT_PROVIDERS as readonly string[]).includes(name) ? providers[name as PayoutProviderName] : null;
+
+/**
+ * The provider UPI payouts go through: PAYOUT_PROVIDER if it is enabled,
+ * otherwise the first enabled one
+ */
+export const getActivePayoutProvider = (): PayoutProvider => {
+  const preferred = getPayoutProvider(process.env.PAYOUT_PROVIDER || "");
+  const provider = preferred?.isEnabled()
+    ? preferred
+    : Object.values(providers).find(candidate => candidate.isEnabled());
+  if (!provider) {
+    throw new Error("UPI payouts are not configured");
+  }
+  return provider;
+};
@@ -0,0 +1,48 @@
+import type { PayoutProviderName } from "../../models/Withdrawal.ts";
+
+/**
+ * What the provider found at a VPA
+ */
+export interface VpaVerification {
+  valid: boolean;
+  accountHolderName: string | null;
+  reason: string | null;            // Why it isn't valid
+}
+
+export interface CreatePayoutInput {
+  reference: string;                // Ours; providers use it to de-duplicate
+  amount: number;
+  vpa: string;
+  beneficiaryName: string;
+  narration: string;
+}
+
+/**
+ * A payout's state at the provider. Pending payouts are settled later and
+ * read back with `getPayout`.
+ */
+export interface ProviderPayout {
+  providerPayoutId: string;
+  status: "pending" | "completed" | "failed";
+  utr: string | null;
+  failureReason: string | null;
+}
+
+/**
+ * A UPI payout adapter
+ */
+export interface PayoutProvider {
+  readonly name: PayoutProviderName;
+
+  /** Whether credentials for the provider are configured */
+  isEnabled(): boolean;
+
+  /** Resolve a VPA to its account holder without moving money */
+  verifyVpa(vpa: string): Promise<VpaVerification>;
+
+  /** Send money to a VPA */
+  createPayout(input: CreatePayoutInput): Promise<ProviderPayout>;
+
+  /** The current state of a payout */
+  getPayout(providerPayoutId: string): Promise<ProviderPayout>;
+}
@@ -0,0 +1,568 @@
+import PDFDocument from "pdfkit";
+import type { PlanRequest } from "../models/PlanRequest.ts";
+import type { Payment } from "../models/Payment.ts";
+import type { Invoice } from "../models/Invoice.ts";
+import type { TdsCertificate } from "./tdsService.ts";
+import { GST_STATES, placeOfSupply } from "../utils/gst.ts";
+
+// ---- utils (pure TS/JS, no extra libs) ----
+const INR = (n: number | string) =>
+  new Intl.NumberFormat("en-IN", { style: "currency", currency: "INR", maximumFractionDigits: 0 })
+    .format(typeof n === "string" ? Number(n) : n);
+
+// Paise shown; "Rs." because the built-in PDF fonts have no rupee sign
+const INRExact = (n: number | string) =>
+  `Rs. ${new Intl.NumberFormat("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 })
+    .format(typeof n === "string" ? Number(n) : n)}`;
+
+const dttmIN = (d?: Date | null) =>
+  d ? `${d.toLocaleDateString("en-IN")} ${d.toLocaleTimeString("en-IN")}` : "—";
+
+const dtIN = (d?: Date | null) =>
+  d ? d.toLocaleDateString("en-IN") : "—";
+
+const truncate = (text: string, max = 80) =>
+  (text || "").length > max ? text.slice(0, max - 1) + "…" : (text || "—");
+
+// Draw a section title bar
+function sectionTitle(doc: PDFKit.PDFDocument, text: string, x: number, y: number, width: number) {
+  doc.save();
+  doc.roundedRect(x, y, width, 24, 6).fill("#EEF5FF");
+  doc.fillColor("#0F172A").font("Helvetica-Bold").fontSize(11)
+     .text(text.toUpperCase(), x + 10, y + 6);
+  doc.restore();
+  return y + 24 + 8; // next y
+}
+
+// Draw a key–value table
+function kvTable(
+  doc: PDFKit.PDFDocument,
+  x: number,
+  startY: number,
+  width: number,
+  rows: Array<[string, string]>,
+  labelWidth = 110,
+  lineHeight = 16
+) {
+  const valueWidth = width - labelWidth - 16; // padding
+  let y = startY;
+
+  rows.forEach(([k, v], i) => {
+    if (i % 2 === 0) {
+      doc.save();
+      doc.rect(x, y - 2, width, lineHeight + 6).fill("#FBFDFF");
+      doc.restore();
+    }
+    doc.fillColor("#334155").font("Helvetica-Bold").fontSize(10)
+       .text(k, x + 8, y, { width: labelWidth });
+    doc.fillColor("#0B1220").font("Helvetica").fontSize(10)
+       .text(v ?? "—", x + 8 + labelWidth, y, { width: valueWidth });
+    y += lineHeight + 6;
+  });
+
+  // border
+  doc.save();
+  doc.lineWidth(0.8).strokeColor("#E5EAF3")
+     .roundedRect(x, startY - 6, width, y - startY + 10, 6)
+     .stroke();
+  doc.restore();
+
+  return y + 8;
+}
+
+// Horizontal divider
+function divider(doc: PDFKit.PDFDocument, x: number, y: number, width: number) {
+  doc.save();
+  doc.moveTo(x, y).lineTo(x + width, y).lineWidth(1).strokeColor("#E5EAF3").stroke();
+  doc.restore();
+  return y + 10;
+}
+
+// Badge (for status)
+function badge(doc: PDFKit.PDFDocument, text: string, x: number, y: number) {
+  const fill = text === "approved" ? "#16A34A"
+             : text === "rejected" ? "#DC2626"
+             : text === "pending"  ? "#2563EB"
+             : "#6B7280";
+             doc.font("Helvetica-Bold").fontSize(9);
+             const w = doc.widthOfString(text.toUpperCase()) + 12;
+             
+  doc.save();
+  doc.roundedRect(x, y, w, 16, 8).fill(fill);
+  doc.fillColor("#FFFFFF").font("Helvetica-Bold").fontSize(9)
+     .text(text.toUpperCase(), x + 6, y + 4);
+  doc.restore();
+  return y + 20;
+}
+
+export class PdfService {
+  /**
+   * Render a PDF into memory, for files that are stored or zipped rather
+   * than streamed to a response
+   */
+  static toBuffer(render: (doc: PDFKit.PDFDocument) => void): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      const doc = new PDFDocument({ size: "A4", margin: 36 });
+      const chunks: Buffer[] = [];
+      doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+      doc.on("end", () => resolve(Buffer.concat(chunks)));
+      doc.on("error", reject);
+      try {
+        render(doc);
+        doc.end();
+      } catch (error) {
+        reject(error);
+      }
+    });
+  }
+
+  /**
+   * Plan purchase receipt for a plan request, on one page. Expects the
+   * request loaded with its plan, user and approver.
+   */
+  static renderPlanRequestSlip(doc: PDFKit.PDFDocument, planRequest: PlanRequest) {
+    const pageW = doc.page.width;
+    const margin = 36;
+    const contentW = pageW - margin * 2;
+
+    // ---- Header band ----
+    doc.save();
+    doc.roundedRect(margin, margin, contentW, 70, 10).fill("#1F4E7A");
+    doc.fillColor("#FFFFFF");
+
+    doc.font("Helvetica-Bold").fontSize(18).text("UNIVERSAL GURUJI", margin + 16, margin + 12);
+    doc.font("Helvetica").fontSize(12).text("Plan Purchase Receipt", margin + 16, margin + 36);
+    doc.font("Helvetica").fontSize(10).text(`Request # ${planRequest.id}`, margin + 16, margin + 54);
+
+    // status badge on right
+    badge(doc, (planRequest.status || "").toLowerCase(), margin + contentW - 110, margin + 16);
+
+    doc.restore();
+
+    // ---- Meta row (date, payment ref, amount) ----
+    let y = margin + 86;
+    y = divider(doc, margin, y, contentW);
+
+    const metaCols = [
+      ["Request Date", dtIN(planRequest.createdAt)],
+      ["Payment Ref", planRequest.paymentReference || "—"],
+      ["Amount", INR(planRequest.amount ?? (planRequest as any).plan?.price ?? 0)],
+    ];
+
+    const colW = contentW / 3;
+    metaCols.forEach(([k, v], i) => {
+      const x = margin + i * colW;
+      doc.fillColor("#64748B").font("Helvetica-Bold").fontSize(9).text(k.toUpperCase(), x, y);
+      doc.fillColor("#0B1220").font("Helvetica").fontSize(11).text(v, x, y + 12, { width: colW - 12 });
+    });
+    y += 40;
+
+    // ---- Two-column grid ----
+    const gutter = 18;
+    const colWidth = (contentW - gutter) / 2;
+    let leftY = y;
+    let rightY = y;
+
+    // Left: Plan Request Details
+    leftY = sectionTitle(doc, "Plan Request Details", margin, leftY, colWidth);
+    leftY = kvTable(doc, margin, leftY, colWidth, [
+      ["Request ID", String(planRequest.id)],
+      ["Status", (planRequest.status || "").toUpperCase()],
+      ["Payment Method", planRequest.paymentMethod || "—"],
+      ["Currency", planRequest.currency || "INR"],
+      ["Approved At", dttmIN(planRequest.approvedAt)],
+    ]);
+
+    // Left: Customer Information
+    leftY = sectionTitle(doc, "Customer Information", margin, leftY, colWidth);
+    leftY = kvTable(doc, margin, leftY, colWidth, [
+      ["Customer Name", truncate((planRequest as any).user?.name ?? "—", 40)],
+      ["Email", truncate((planRequest as any).user?.email ?? "—", 45)],
+      ["Username", (planRequest as any).user?.username ?? "—"],
+      ["User ID", String((planRequest as any).user?.id ?? "—")],
+    ]);
+
+    // Right: Plan Details
+    rightY = sectionTitle(doc, "Plan Details", margin + colWidth + gutter, rightY, colWidth);
+    const plan = (planRequest as any).plan ?? {};
+    const originalPrice = plan.originalPrice ? INR(plan.originalPrice) : "—";
+    const price = plan.price ? INR(plan.price) : "—";
+    let discount = "—";
+    try {
+      if (plan.originalPrice && typeof plan.getDiscountPercentage === "function") {
+        discount = `${plan.getDiscountPercentage()}%`;
+      }
+    } catch {}
+    rightY = kvTable(doc, margin + colWidth + gutter, rightY, colWidth, [
+      ["Plan Name", truncate(plan.name ?? "—", 40)],
+      ["Description", truncate(plan.description ?? "—", 80)],
+      ["Price", price],
+      ["Original Price", originalPrice],
+      ["Discount", discount],
+      ["BV Value", plan.bvValue != null ? String(plan.bvValue) : "—"],
+    ]);
+
+    // Right: Company Information
+    rightY = sectionTitle(doc, "Company Information", margin + colWidth + gutter, rightY, colWidth);
+    rightY = kvTable(doc, margin + colWidth + gutter, rightY, colWidth, [
+      ["Company", "Universal Guruji MLM Platform"],
+      ["Email", "support@universalguruji.com"],
+      ["Website", "www.universalguruji.com"],
+      ["Phone", "+91-XXXXXXXXXX"],
+    ]);
+
+    // push below the taller column
+    y = Math.max(leftY, rightY) + 6;
+
+    // ---- Status Timeline (compact, one-liners) ----
+    y = sectionTitle(doc, "Request Status Timeline", margin, y, contentW);
+    const timeline: Array<{ label: string; when: string }> = [];
+    timeline.push({ label: "Request Submitted", when: dttmIN(planRequest.createdAt) });
+    if (planRequest.approvedAt) timeline.push({ label: "Request Approved", when: dttmIN(planRequest.approvedAt) });
+    if (planRequest.status === "rejected") {
+      timeline.push({
+        label: "Request Rejected",
+        when: `${dttmIN(planRequest.updatedAt)} ${planRequest.rejectionReason ? `– ${truncate(planRequest.rejectionReason, 60)}` : ""}`,
+      });
+    }
+
+    const rowH = 18;
+    const bulletX = margin + 10;
+    let ty = y + 6;
+    timeline.slice(0, 3).forEach((t) => {
+      doc.fillColor("#1F2937").font("Helvetica-Bold").fontSize(10).text(`• ${t.label}`, bulletX, ty);
+      doc.fillColor("#475569").font("Helvetica").fontSize(9).text(t.when, bulletX + 18, ty + 12);
+      ty += rowH + 10;
+    });
+    y = ty + 4;
+
+    // ---- Notes (short, fits page) ----
+    y = sectionTitle(doc, "Important Notes", margin, y, contentW);
+    doc.fillColor("#111827").font("Helvetica").fontSize(9);
+    const notes = [
+      "This is a computer-generated receipt and does not require a signature.",
+      "Please keep this receipt for your records.",
+      "Plan benefits activate after request approval.",
+    ];
+    notes.forEach((n, i) => {
+      doc.text(`• ${n}`, margin + 10, y + i * 14, { width: contentW - 20 });
+    });
+
+    // ---- Footer line + thank you ----
+    y += notes.length * 14 + 14;
+    divider(doc, margin, y, contentW);
+    y += 8;
+    doc.fillColor("#1F4E7A").font("Helvetica-Bold").fontSize(11)
+       .text("Thank you for choosing Universal Guruji!", margin, y, { width: contentW, align: "center" });
+  }
+
+  /**
+   * Plan payment receipt for a UTR payment, on one page. Expects the
+   * payment loaded with its plan and user.
+   */
+  static renderPaymentSlip(doc: PDFKit.PDFDocument, payment: Payment) {
+    const pageW = doc.page.width;
+    const margin = 36;
+    const contentW = pageW - margin * 2;
+
+    // ---- Header band ----
+    doc.save();
+    doc.roundedRect(margin, margin, contentW, 70, 10).fill("#1F4E7A");
+    doc.fillColor("#FFFFFF");
+
+    doc.font("Helvetica-Bold").fontSize(18).text("UNIVERSAL GURUJI", margin + 16, margin + 12);
+    doc.font("Helvetica").fontSize(12).text("Plan Payment Receipt", margin + 16, margin + 36);
+    doc.font("Helvetica").fontSize(10).text(`Payment # ${payment.id}`, margin + 16, margin + 54);
+
+    badge(doc, (payment.status || "").toLowerCase(), margin + contentW - 110, margin + 16);
+
+    doc.restore();
+
+    // ---- Meta row (date, UTR, amount) ----
+    let y = margin + 86;
+    y = divider(doc, margin, y, contentW);
+
+    const metaCols = [
+      ["Payment Date", dtIN(payment.createdAt)],
+      ["UTR", payment.utrNumber || "—"],
+      ["Amount", INRExact(payment.amount)],
+    ];
+
+    const colW = contentW / 3;
+    metaCols.forEach(([k, v], i) => {
+      const x = margin + i * colW;
+      doc.fillColor("#64748B").font("Helvetica-Bold").fontSize(9).text(k.toUpperCase(), x, y);
+      doc.fillColor("#0B1220").font("Helvetica").fontSize(11).text(v, x, y + 12, { width: colW - 12 });
+    });
+    y += 40;
+
+    // ---- Two-column grid ----
+    const gutter = 18;
+    const colWidth = (contentW - gutter) / 2;
+    const user = (payment as any).user ?? {};
+    const plan = (payment as any).plan ?? {};
+
+    let leftY = sectionTitle(doc, "Payment Details", margin, y, colWidth);
+    leftY = kvTable(doc, margin, leftY, colWidth, [
+      ["Payment ID", String(payment.id)],
+      ["Status", (payment.status || "").toUpperCase()],
+      ["Payment Method", payment.paymentMethod || "—"],
+      ["Currency", payment.currency || "INR"],
+      ["Coupon Discount", Number(payment.discountAmount) > 0 ? INRExact(payment.discountAmount) : "—"],
+      ["Verified At", dttmIN(payment.verifiedAt)],
+      ["Approved At", dttmIN(payment.approvedAt)],
+    ]);
+
+    leftY = sectionTitle(doc, "Customer Information", margin, leftY, colWidth);
+    leftY = kvTable(doc, margin, leftY, colWidth, [
+      ["Customer Name", truncate(user.name ?? "—", 40)],
+      ["Email", truncate(user.email ?? "—", 45)],
+      ["Username", user.username ?? "—"],
+      ["User ID", String(user.id ?? payment.userId)],
+    ]);
+
+    let rightY = sectionTitle(doc, "Plan Details", margin + colWidth + gutter, y, colWidth);
+    rightY = kvTable(doc, margin + colWidth + gutter, rightY, colWidth, [
+      ["Plan Name", truncate(plan.name ?? "—", 40)],
+      ["Description", truncate(plan.description ?? "—", 80)],
+      ["Price", plan.price ? INR(plan.price) : "—"],
+      ["BV Value", plan.bvValue != null ? String(plan.bvValue) : "—"],
+    ]);
+
+    y = Math.max(leftY, rightY) + 6;
+
+    // ---- Notes ----
+    y = sectionTitle(doc, "Important Notes", margin, y, contentW);
+    doc.fillColor("#111827").font("Helvetica").fontSize(9);
+    const notes = [
+      "This is a computer-generated receipt and does not require a signature.",
+      "The tax invoice for an approved payment is issued separately.",
+    ];
+    notes.forEach((n, i) => {
+      doc.text(`• ${n}`, margin + 10, y + i * 14, { width: contentW - 20 });
+    });
+
+    y += notes.length * 14 + 14;
+    divider(doc, margin, y, contentW);
+    y += 8;
+    doc.fillColor("#1F4E7A").font("Helvetica-Bold").fontSize(11)
+       .text("Thank you for choosing Universal Guruji!", margin, y, { width: contentW, align: "center" });
+  }
+
+  /**
+   * Tax invoice, on one page
+   */
+  static renderInvoice(doc: PDFKit.PDFDocument, invoice: Invoice) {
+    const pageW = doc.page.width;
+    const margin = 36;
+    const contentW = pageW - margin * 2;
+
+    // ---- Header band ----
+    doc.save();
+    doc.roundedRect(margin, margin, contentW, 70, 10).fill("#1F4E7A");
+    doc.fillColor("#FFFFFF");
+    doc.font("Helvetica-Bold").fontSize(18).text(truncate(invoice.sellerName, 45), margin + 16, margin + 12);
+    doc.font("Helvetica").fontSize(12).text("Tax Invoice", margin + 16, margin + 36);
+    doc.font("Helvetica").fontSize(10).text(`Invoice # ${invoice.invoiceNumber}`, margin + 16, margin + 54);
+    doc.restore();
+
+    // ---- Meta row (date, place of supply, total) ----
+    let y = margin + 86;
+    y = divider(doc, margin, y, contentW);
+
+    const metaCols = [
+      ["Invoice Date", dtIN(invoice.invoiceDate)],
+      ["Place of Supply", placeOfSupply(invoice.placeOfSupply)],
+      ["Invoice Total", INRExact(invoice.totalAmount)],
+    ];
+
+    const colW = contentW / 3;
+    metaCols.forEach(([k, v], i) => {
+      const x = margin + i * colW;
+      doc.fillColor("#64748B").font("Helvetica-Bold").fontSize(9).text(k.toUpperCase(), x, y);
+      doc.fillColor("#0B1220").font("Helvetica").fontSize(11).text(v, x, y + 12, { width: colW - 12 });
+    });
+    y += 40;
+
+    // ---- Supplier and buyer ----
+    const gutter = 18;
+    const colWidth = (contentW - gutter) / 2;
+
+    let leftY = sectionTitle(doc, "Supplier", margin, y, colWidth);
+    leftY = kvTable(doc, margin, leftY, colWidth, [
+      ["Name", truncate(invoice.sellerName, 40)],
+      ["GSTIN", invoice.sellerGstin],
+      ["Address", truncate(invoice.sellerAddress ?? "—", 90)],
+      ["State", `${GST_STATES[invoice.sellerStateCode] ?? "—"} (${invoice.sellerStateCode})`],
+    ], 80);
+
+    let rightY = sectionTitle(doc, "Billed To", margin + colWidth + gutter, y, colWidth);
+    rightY = kvTable(doc, margin + colWidth + gutter, rightY, colWidth, [
+      ["Name", truncate(invoice.buyerName, 40)],
+      ["Email", truncate(invoice.buyerEmail ?? "—", 45)],
+      ["Address", truncate(invoice.buyerAddress ?? "—", 90)],
+      ["State", invoice.buyerStateCode ? `${GST_STATES[invoice.buyerStateCode] ?? "—"} (${invoice.buyerStateCode})` : "—"],
+      ["GSTIN", "Unregistered"],
+    ], 80);
+
+    y = Math.max(leftY, rightY) + 6;
+
+    // ---- Supply and tax ----
+    const rate = Number(invoice.gstRate);
+    const taxRows: Array<[string, string]> = invoice.supplyType === "intra_state"
+      ? [
+          [`CGST @ ${rate / 2}%`, INRExact(invoice.cgstAmount)],
+          [`SGST @ ${rate / 2}%`, INRExact(invoice.sgstAmount)],
+        ]
+      : [[`IGST @ ${rate}%`, INRExact(invoice.igstAmount)]];
+
+    y = sectionTitle(doc, "Supply Details", margin, y, contentW);
+    y = kvTable(doc, margin, y, contentW, [
+      ["Description", truncate(invoice.description, 80)],
+      ["SAC", invoice.sacCode],
+      ["Order", `#${invoice.orderId}`],
+      ...(Number(invoice.discountAmount) > 0
+        ? [["Coupon Discount", `${INRExact(invoice.discountAmount)} (already deducted)`] as [string, string]]
+        : []),
+      ["Taxable Value", INRExact(invoice.taxableValue)],
+      ...taxRows,
+      ["Invoice Total", INRExact(invoice.totalAmount)],
+    ], 140);
+
+    // ---- Notes ----
+    y = sectionTitle(doc, "Notes", margin, y, contentW);
+    doc.fillColor("#111827").font("Helvetica").fontSize(9);
+    const notes = [
+      "Tax is not payable on reverse charge.",
+      "Prices are inclusive of GST.",
+      "This is a computer-generated invoice and does not require a signature.",
+    ];
+    notes.forEach((n, i) => {
+      doc.text(`• ${n}`, margin + 10, y + i * 14, { width: contentW - 20 });
+    });
+
+    y += notes.length * 14 + 14;
+    divider(doc, margin, y, contentW);
+  }
+
+  /**
+   * Quarterly TDS certificate in the layout of Form 16A: deductor,
+   * deductee, period, and each deduction with its totals
+   */
+  static renderTdsCertificate(doc: PDFKit.PDFDocument, certificate: TdsCertificate) {
+    const pageW = doc.page.width;
+    const pageH = doc.page.height;
+    const margin = 36;
+    const contentW = pageW - margin * 2;
+    const { policy } = certificate;
+
+    // ---- Header band ----
+    doc.save();
+    doc.roundedRect(margin, margin, contentW, 70, 10).fill("#1F4E7A");
+    doc.fillColor("#FFFFFF");
+    doc.font("Helvetica-Bold").fontSize(18).text(truncate(policy.deductorName, 45), margin + 16, margin + 12);
+    doc.font("Helvetica").fontSize(12).text("Certificate of Tax Deducted at Source (Form 16A format)", margin + 16, margin + 36);
+    doc.font("Helvetica").fontSize(10).text(`Certificate # ${certificate.certificateNumber}`, margin + 16, margin + 54);
+    doc.restore();
+
+    // ---- Meta row (period, section, total TDS) ----
+    let y = margin + 86;
+    y = divider(doc, margin, y, contentW);
+
+    const metaCols = [
+      ["Period", `${certificate.quarter} ${certificate.financialYear} (${dtIN(certificate.periodFrom)} – ${dtIN(certificate.periodTo)})`],
+      ["Section", policy.section],
+      ["Total TDS", INRExact(certificate.totalTds)],
+    ];
+
+    const colW = contentW / 3;
+    metaCols.forEach(([k, v], i) => {
+      const x = margin + i * colW;
+      doc.fillColor("#64748B").font("Helvetica-Bold").fontSize(9).text(k.toUpperCase(), x, y);
+      doc.fillColor("#0B1220").font("Helvetica").fontSize(11).text(v, x, y + 12, { width: colW - 12 });
+    });
+    y += 48;
+
+    // ---- Deductor and deductee ----
+    const gutter = 18;
+    const colWidth = (contentW - gutter) / 2;
+
+    let leftY = sectionTitle(doc, "Deductor", margin, y, colWidth);
+    leftY = kvTable(doc, margin, leftY, colWidth, [
+      ["Name", truncate(policy.deductorName, 40)],
+      ["TAN", policy.deductorTan ?? "—"],
+      ["PAN", policy.deductorPan ?? "—"],
+      ["Address", truncate(policy.deductorAddress ?? "—", 90)],
+    ], 70);
+
+    let rightY = sectionTitle(doc, "Deductee", margin + colWidth + gutter, y, colWidth);
+    rightY = kvTable(doc, margin + colWidth + gutter, rightY, colWidth, [
+      ["Name", truncate(certificate.deducteeName, 40)],
+      ["PAN", certificate.pan ?? "Not available"],
+      ["Amount Paid", INRExact(certificate.totalPaid)],
+      ["Tax Deducted", INRExact(certificate.totalTds)],
+    ], 90);
+
+    y = Math.max(leftY, rightY) + 6;
+
+    // ---- Deductions ----
+    y = sectionTitle(doc, "Deductions", margin, y, contentW);
+    const columns: Array<[string, number, "left" | "right"]> = [
+      ["Date", 0.18, "left"],
+      ["Withdrawal", 0.18, "left"],
+      ["Amount Paid", 0.24, "right"],
+      ["Rate", 0.14, "right"],
+      ["TDS", 0.26, "right"],
+    ];
+    const row = (values: string[], bold: boolean) => {
+      let x = margin + 8;
+      doc.fillColor(bold ? "#334155" : "#0B1220").font(bold ? "Helvetica-Bold" : "Helvetica").fontSize(10);
+      values.forEach((value, i) => {
+        const width = (contentW - 16) * columns[i][1];
+        doc.text(value, x, y, { width: width - 6, align: columns[i][2] });
+        x += width;
+      });
+      y += 18;
+    };
+
+    row(columns.map(([label]) => label), true);
+    for (const deduction of certificate.deductions) {
+      if (y > pageH - margin - 60) {
+        doc.addPage();
+        y = margin;
+        row(columns.map(([label]) => label), true);
+      }
+      row([
+        dtIN(new Date(deduction.deductedAt)),
+        `#${deduction.withdrawalId}`,
+        INRExact(deduction.grossAmount),
+        `${Number(deduction.rate)}%`,
+        INRExact(deduction.tdsAmount),
+      ], false);
+    }
+    y = divider(doc, margin, y, contentW);
+    row(["Total", "", INRExact(certificate.totalPaid), "", INRExact(certificate.totalTds)], true);
+    y += 8;
+
+    // ---- Notes ----
+    if (y > pageH - margin - 90) {
+      doc.addPage();
+      y = margin;
+    }
+    y = sectionTitle(doc, "Notes", margin, y, contentW);
+    doc.fillColor("#111827").font("Helvetica").fontSize(9);
+    const notes = [
+      certificate.pan
+        ? "Tax was deducted at the rate for deductees with a PAN."
+        : "No verified PAN was on record, so tax was deducted at the higher rate under section 206AA.",
+      "Credit for this tax appears in your Form 26AS once the quarterly return is processed.",
+      "This is a computer-generated statement. Form 16A downloaded from TRACES is the statutory certificate.",
+    ];
+    notes.forEach((n, i) => {
+      doc.text(`• ${n}`, margin + 10, y + i * 14, { width: contentW - 20 });
+    });
+
+    y += notes.length * 14 + 14;
+    divider(doc, margin, y, contentW);
+  }
+}
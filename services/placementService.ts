@@ -0,0 +1,188 @@
+import { User, type Position } from "../models/User.ts";
+import { AdminConfig } from "../models/AdminConfig.ts";
+import { sequelize } from "../utils/db.ts";
+import { QueryTypes, Transaction } from "sequelize";
+
+// extreme_outer: keep going down the outside edge of the chosen leg
+// breadth_first: take the shallowest open slot anywhere in the chosen leg
+export const PLACEMENT_POLICIES = ["extreme_outer", "breadth_first"] as const;
+export type PlacementPolicy = (typeof PLACEMENT_POLICIES)[number];
+
+export interface PlacementConfig {
+  policy: PlacementPolicy;
+}
+
+export interface Placement {
+  parent: User;
+  position: Position;
+}
+
+export const PLACEMENT_CONFIG_KEY = "placement-policy";
+
+export const DEFAULT_PLACEMENT_CONFIG: PlacementConfig = {
+  policy: "extreme_outer"
+};
+
+export class PlacementService {
+  // Placement retries when a concurrent registration took the slot first
+  private static readonly MAX_ATTEMPTS = 3;
+
+  /**
+   * Load the active placement policy, falling back to the default
+   */
+  static async getConfig(transaction?: Transaction): Promise<PlacementConfig> {
+    const record = await AdminConfig.findOne({
+      where: { key: PLACEMENT_CONFIG_KEY },
+      transaction
+    });
+
+    if (!record || record.isActive === false) {
+      return { ...DEFAULT_PLACEMENT_CONFIG };
+    }
+
+    try {
+      return this.normalizeConfig(JSON.parse(record.value));
+    } catch (error) {
+      console.warn("Invalid placement config, using defaults:", error);
+      return { ...DEFAULT_PLACEMENT_CONFIG };
+    }
+  }
+
+  /**
+   * Validate a (partial) config and merge it over the defaults
+   */
+  static normalizeConfig(input: Partial<PlacementConfig>): PlacementConfig {
+    const config: PlacementConfig = { ...DEFAULT_PLACEMENT_CONFIG, ...input };
+
+    if (!PLACEMENT_POLICIES.includes(config.policy)) {
+      throw new Error(`policy must be one of: ${PLACEMENT_POLICIES.join(", ")}`);
+    }
+
+    return { policy: config.policy };
+  }
+
+  /**
+   * The free slot a new member referred by `sponsor` into `leg` would
+   * take. The sponsor's own slot is used while it is free; after that the
+   * member spills over according to the policy.
+   */
+  static async findPlacement(
+    sponsor: User,
+    leg: Position,
+    policy?: PlacementPolicy,
+    transaction?: Transaction
+  ): Promise<Placement> {
+    const legRoot = await this.getChild(sponsor, leg, transaction);
+    if (!legRoot) {
+      return { parent: sponsor, position: leg };
+    }
+
+    const activePolicy = policy || (await this.getConfig(transaction)).policy;
+    return activePolicy === "breadth_first"
+      ? this.findBreadthFirst(legRoot, transaction)
+      : this.findExtremeOuter(legRoot, leg, transaction);
+  }
+
+  /**
+   * Place a new member and create them in the same transaction. The
+   * chosen parent is locked and its slot re-checked, so two registrations
+   * can't land in the same slot.
+   */
+  static async placeMember<T>(
+    sponsor: User,
+    leg: Position,
+    create: (placement: Placement, transaction: Transaction) => Promise<T>
+  ): Promise<T> {
+    for (let attempt = 1; attempt <= this.MAX_ATTEMPTS; attempt++) {
+      const result = await sequelize.transaction(async (t) => {
+        const placement = await this.findPlacement(sponsor, leg, undefined, t);
+
+        await User.findByPk(placement.parent.id, { lock: t.LOCK.UPDATE, transaction: t });
+        const occupant = await this.getChild(placement.parent, placement.position, t, true);
+        if (occupant) return null;
+
+        return { value: await create(placement, t) };
+      });
+
+      if (result) return result.value;
+      console.log(`🔁 Placement slot under ${sponsor.username} (${leg}) was taken, retrying (${attempt}/${this.MAX_ATTEMPTS})`);
+    }
+
+    throw new Error("Could not find a free position in this leg, please try again");
+  }
+
+  /**
+   * Follow the outside edge of the leg (left-most for left, right-most for
+   * right) to its end
+   */
+  private static async findExtremeOuter(legRoot: User, leg: Position, transaction?: Transaction): Promise<Placement> {
+    const visited = new Set<number>();
+    let parent = legRoot;
+
+    for (;;) {
+      if (visited.has(parent.id)) {
+        throw new Error(`Placement loop detected at ${parent.username}`);
+      }
+      visited.add(parent.id);
+
+      const child = await this.getChild(parent, leg, transaction);
+      if (!child) {
+        return { parent, position: leg };
+      }
+      parent = child;
+    }
+  }
+
+  /**
+   * The shallowest member in the leg with an open slot, earliest placed
+   * first, filling their left slot before their right
+   */
+  private static async findBreadthFirst(legRoot: User, transaction?: Transaction): Promise<Placement> {
+    const [slot] = await sequelize.query(
+      `SELECT u.id AS id,
+              SUM(CASE WHEN c.position = 'left' THEN 1 ELSE 0 END) AS leftTaken
+       FROM user_tree_paths p
+       JOIN users u ON u.id = p.descendantId
+       LEFT JOIN users c ON c.placementParentId = u.username
+       WHERE p.ancestorId = :legRootId AND u.username IS NOT NULL
+       GROUP BY u.id, p.depth, u.createdAt
+       HAVING SUM(CASE WHEN c.position = 'left' THEN 1 ELSE 0 END) = 0
+           OR SUM(CASE WHEN c.position = 'right' THEN 1 ELSE 0 END) = 0
+       ORDER BY p.depth ASC, u.createdAt ASC, u.id ASC
+       LIMIT 1`,
+      { replacements: { legRootId: legRoot.id }, type: QueryTypes.SELECT, transaction }
+    ) as Array<{ id: number; leftTaken: string | number }>;
+
+    if (!slot) {
+      throw new Error(`No tree paths found under ${legRoot.username}; run the tree path backfill`);
+    }
+
+    const parent = Number(slot.id) === legRoot.id
+      ? legRoot
+      : await User.findByPk(slot.id, { transaction });
+    if (!parent) {
+      throw new Error(`Placement parent ${slot.id} not found`);
+    }
+
+    return { parent, position: Number(slot.leftTaken) > 0 ? "right" : "left" };
+  }
+
+  /**
+   * The member placed directly under `parent` in `position`, if any
+   */
+  private static async getChild(
+    parent: User,
+    position: Position,
+    transaction?: Transaction,
+    lock: boolean = false
+  ): Promise<User | null> {
+    if (!parent.username) return null;
+
+    return User.findOne({
+      where: { placementParentId: parent.username, position },
+      order: [["createdAt", "ASC"]],
+      transaction,
+      ...(lock && transaction ? { lock: transaction.LOCK.UPDATE } : {})
+    });
+  }
+}
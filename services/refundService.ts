@@ -0,0 +1,451 @@
+import { Order } from "../models/Order.ts";
+import { Payment } from "../models/Payment.ts";
+import { PlanRequest } from "../models/PlanRequest.ts";
+import { User } from "../models/User.ts";
+import { UserBV } from "../models/UserBv.ts";
+import { BVLog, type BVSide } from "../models/BvLogs.ts";
+import { BvMatch } from "../models/BvMatch.ts";
+import { ActivationEvent } from "../models/ActivationEvent.ts";
+import { JournalEntry } from "../models/JournalEntry.ts";
+import { WalletTransaction } from "../models/WalletTransaction.ts";
+import { Refund, type RefundKind } from "../models/Refund.ts";
+import { RefundReversal } from "../models/RefundReversal.ts";
+import { LedgerService, type ClawbackResult } from "./ledgerService.ts";
+import { OrderService } from "./orderService.ts";
+import { UserPlanService } from "./userPlanService.ts";
+import { sequelize } from "../utils/db.ts";
+import { toPaise, fromPaise, roundMoney } from "../utils/money.ts";
+import { Op, Transaction } from "sequelize";
+
+export interface RefundInput {
+  kind?: RefundKind;
+  reason?: string | null;
+  externalReference?: string | null;
+  actorId?: number | null;
+}
+
+interface RefundTotals {
+  bvReversed: number;
+  recovered: number;
+  due: number;
+}
+
+export class RefundService {
+  /**
+   * Refund (or record a chargeback for) the plan purchase an approved
+   * payment paid for
+   */
+  static async refundPayment(paymentId: number, input: RefundInput): Promise<Refund> {
+    return sequelize.transaction(async (t) => {
+      const payment = await Payment.findByPk(paymentId, { transaction: t });
+      if (!payment) {
+        throw new Error("Payment not found");
+      }
+      if (payment.status !== "approved") {
+        throw new Error(`Only approved payments can be refunded; this one is ${payment.status}`);
+      }
+
+      const order = await OrderService.linkPayment(payment, t);
+      return this.refundOrder(order.id, input, t);
+    });
+  }
+
+  /**
+   * Undo an activated order: its payments are marked refunded, the plan
+   * revenue reversed, the plan history rolled back and the direct
+   * sponsor's bonus clawed back. If the member has no other activated
+   * order they are deactivated and the BV their activation sent up the
+   * tree is taken back (an upgrade takes back only its difference), along
+   * with the share of every matching bonus that BV paid for. The BV it had
+   * been paired against goes back into carry and is matched again by the
+   * next payout cycle. Money a wallet can't cover becomes a recovery due.
+   */
+  static async refundOrder(orderId: number, input: RefundInput, transaction: Transaction): Promise<Refund> {
+    const order = await Order.findByPk(orderId, { lock: transaction.LOCK.UPDATE, transaction });
+    if (!order) {
+      throw new Error(`Order ${orderId} not found`);
+    }
+    if (order.status !== "activated") {
+      throw new Error(`Order #${order.id} is ${order.status}; only activated orders can be refunded`);
+    }
+
+    const kind = input.kind || "refund";
+    const actorId = input.actorId ?? null;
+    const label = kind === "chargeback" ? "Chargeback" : "Refund";
+    const note = `${label}${input.reason ? `: ${input.reason}` : ""}`;
+
+    await UserPlanService.revertForRefund(order, transaction);
+    await OrderService.transition(order, "refunded", { actorId, note }, transaction);
+
+    const payments = await Payment.unscoped().findAll({
+      where: { orderId: order.id, status: "approved" },
+      transaction
+    });
+    for (const payment of payments) {
+      await payment.update({ status: "refunded" }, { transaction });
+    }
+
+    const refund = await Refund.create({
+      orderId: order.id,
+      userId: order.userId,
+      kind,
+      amount: Number(order.amount),
+      reason: input.reason ?? null,
+      externalReference: input.externalReference ?? null,
+      refundedBy: actorId
+    }, { transaction });
+
+    await LedgerService.reversePlanRevenue(
+      `PLAN_ORDER_REFUND_${order.id}`,
+      Number(order.amount),
+      `${label} of plan purchase order #${order.id}`,
+      { orderId: order.id, refundId: refund.id, userId: order.userId, kind },
+      transaction
+    );
+
+    const totals: RefundTotals = { bvReversed: 0, recovered: 0, due: 0 };
+    await this.reverseSponsorBonus(order, refund, payments, actorId, totals, transaction);
+
+    // BV goes out once per member, so it only comes back with their last plan
+    const activeOrders = await Order.count({
+      where: { userId: order.userId, status: "activated" },
+      transaction
+    });
+    if (activeOrders === 0) {
+      // Static update: deactivation has no hook side effects to run
+      await User.update({ isActive: false }, { where: { id: order.userId }, transaction });
+      await this.reverseBV(order.userId, refund, actorId, totals, transaction);
+    } else if (order.kind === "upgrade") {
+      await this.reverseUpgradeBV(order, refund, actorId, totals, transaction);
+    }
+
+    await refund.update({
+      bvReversed: totals.bvReversed,
+      amountRecovered: totals.recovered,
+      amountDue: totals.due
+    }, { transaction });
+
+    console.log(`↩️ ${label} of order #${order.id}: ${totals.bvReversed} BV reversed, ₹${totals.recovered} recovered, ₹${totals.due} due`);
+    return refund;
+  }
+
+  /**
+   * Claw back the direct sponsor's bonus, whether it was paid by the order
+   * or, before orders, by one of its payments or plan requests
+   */
+  private static async reverseSponsorBonus(
+    order: Order,
+    refund: Refund,
+    payments: Payment[],
+    actorId: number | null,
+    totals: RefundTotals,
+    transaction: Transaction
+  ): Promise<void> {
+    const requests = await PlanRequest.unscoped().findAll({
+      where: { orderId: order.id },
+      attributes: ["id"],
+      transaction
+    });
+
+    const entries = await JournalEntry.findAll({
+      where: {
+        reference: {
+          [Op.in]: [
+            `SPONSOR_BONUS_ORDER_${order.id}`,
+            ...payments.map(payment => `SPONSOR_BONUS_PAYMENT_${payment.id}`),
+            ...requests.map(request => `SPONSOR_BONUS_PLAN_REQUEST_${request.id}`)
+          ]
+        }
+      },
+      transaction
+    });
+
+    for (const entry of entries) {
+      const bonus = await WalletTransaction.findOne({ where: { journalEntryId: entry.id }, transaction });
+      if (!bonus) {
+        console.log(`⚠️ Sponsor bonus ${entry.reference} has no wallet transaction; rebuild the wallet and reverse it by hand`);
+        continue;
+      }
+
+      const amount = Number(bonus.amount);
+      const result = await LedgerService.clawBack(bonus.userId, amount, {
+        reference: `REFUND_${entry.reference}`,
+        description: `Sponsor bonus reversed: plan purchase order #${order.id} was refunded`,
+        account: "SPONSOR_BONUS_EXPENSE",
+        metadata: { orderId: order.id, refundId: refund.id, bonusReference: entry.reference },
+        postedBy: actorId,
+        refundId: refund.id
+      }, transaction);
+
+      await this.recordReversal(refund, {
+        userId: bonus.userId,
+        kind: "sponsor_bonus",
+        amount,
+        note: entry.reference
+      }, result, totals, transaction);
+    }
+  }
+
+  /**
+   * Take back every BV log the member's activation created, then stop the
+   * activation outbox from distributing (or re-distributing) it
+   */
+  private static async reverseBV(
+    userId: number,
+    refund: Refund,
+    actorId: number | null,
+    totals: RefundTotals,
+    transaction: Transaction
+  ): Promise<void> {
+    const event = await ActivationEvent.findOne({
+      where: { userId },
+      lock: transaction.LOCK.UPDATE,
+      transaction
+    });
+    if (event?.status === "processing") {
+      throw new Error("This member's BV is being distributed right now; try the refund again shortly");
+    }
+
+    const logs = await BVLog.findAll({
+      where: { sourceUserId: userId, reversedAt: null },
+      order: [["id", "ASC"]],
+      lock: transaction.LOCK.UPDATE,
+      transaction
+    });
+
+    for (const log of logs) {
+      await this.reverseBVLog(log, refund, actorId, totals, transaction);
+    }
+
+    if (event && event.status !== "skipped") {
+      await event.update({ status: "reversed" }, { transaction });
+    } else if (!event && logs.length) {
+      // Distributed before the outbox existed
+      await ActivationEvent.create({ userId, status: "reversed", source: "legacy" }, { transaction });
+    }
+  }
+
+  /**
+   * Take back the BV difference an upgrade sent up the tree
+   */
+  private static async reverseUpgradeBV(
+    order: Order,
+    refund: Refund,
+    actorId: number | null,
+    totals: RefundTotals,
+    transaction: Transaction
+  ): Promise<void> {
+    const logs = await BVLog.findAll({
+      where: { orderId: order.id, reversedAt: null },
+      order: [["id", "ASC"]],
+      lock: transaction.LOCK.UPDATE,
+      transaction
+    });
+
+    for (const log of logs) {
+      await this.reverseBVLog(log, refund, actorId, totals, transaction);
+    }
+  }
+
+  /**
+   * Reverse one upline member's BV log: lifetime BV drops by the whole
+   * log, carry by the part not yet paired, and the paired part unpicks the
+   * matches it went into
+   */
+  private static async reverseBVLog(
+    log: BVLog,
+    refund: Refund,
+    actorId: number | null,
+    totals: RefundTotals,
+    transaction: Transaction
+  ): Promise<void> {
+    const points = Number(log.points);
+    const unmatched = roundMoney(points - Number(log.matchedPoints));
+    let carryReversed = 0;
+
+    // Legacy logs don't say which leg they landed on, so carry is left alone
+    const userBV = log.side
+      ? await UserBV.findOne({ where: { userId: log.userId }, lock: transaction.LOCK.UPDATE, transaction })
+      : null;
+    if (userBV) {
+      const lifetimeKey = log.side === "left" ? "leftBV" : "rightBV";
+      const carryKey = log.side === "left" ? "carryLeft" : "carryRight";
+      carryReversed = Math.max(0, Math.min(unmatched, Number(userBV[carryKey])));
+
+      await userBV.update({
+        [lifetimeKey]: Math.max(0, roundMoney(Number(userBV[lifetimeKey]) - points)),
+        [carryKey]: roundMoney(Number(userBV[carryKey]) - carryReversed)
+      }, { transaction });
+    }
+
+    await log.update({ reversedAt: new Date() }, { transaction });
+
+    await RefundReversal.create({
+      refundId: refund.id,
+      userId: log.userId,
+      kind: "bv",
+      side: log.side ?? null,
+      bvLogId: log.id,
+      bv: points,
+      carryReversed,
+      note: log.side ? null : "Legacy BV log without a side; carry left as is"
+    }, { transaction });
+    totals.bvReversed = roundMoney(totals.bvReversed + points);
+
+    if (Number(log.matchedPoints) > 0) {
+      await this.reverseMatches(log, refund, actorId, totals, transaction);
+    }
+  }
+
+  /**
+   * Unpair the log's matched BV from the paid matches it went into, oldest
+   * first: each match gives back its bonus for that BV, and the BV it was
+   * paired against on the other leg returns to carry. Matched BV left over
+   * was flushed or capped and never paid.
+   */
+  private static async reverseMatches(
+    log: BVLog,
+    refund: Refund,
+    actorId: number | null,
+    totals: RefundTotals,
+    transaction: Transaction
+  ): Promise<void> {
+    const matches = await BvMatch.findAll({
+      where: { userId: log.userId, matchedAt: { [Op.gte]: log.createdAt } },
+      order: [["matchedAt", "ASC"], ["id", "ASC"]],
+      transaction
+    });
+
+    let remainingPaise = toPaise(log.matchedPoints);
+    for (const match of matches) {
+      if (remainingPaise <= 0) break;
+
+      const leg = this.matchLogIds(match, "left").includes(log.id) ? "left"
+        : this.matchLogIds(match, "right").includes(log.id) ? "right"
+        : null;
+      if (!leg) continue;
+
+      // Another refund may already have unpaired part of this match
+      const unpaired = await RefundReversal.sum("bv", {
+        where: { bvMatchId: match.id, kind: "match_bonus" },
+        transaction
+      });
+      const availablePaise = toPaise(match.matchedAmount) - toPaise(unpaired);
+      const takePaise = Math.min(remainingPaise, availablePaise);
+      if (takePaise <= 0) continue;
+      remainingPaise -= takePaise;
+
+      const bv = fromPaise(takePaise);
+      const partnerLeg: BVSide = leg === "left" ? "right" : "left";
+      await this.restorePartnerBV(match, partnerLeg, bv, transaction);
+
+      const amount = roundMoney(Number(match.bonusEarned) * bv / Number(match.matchedAmount));
+      const result = await LedgerService.clawBack(match.userId, amount, {
+        reference: `REFUND_${refund.id}_BV_MATCH_${match.id}_LOG_${log.id}`,
+        description: `Matching bonus reversed: ${bv} BV from a refunded purchase unpaired from match #${match.id}`,
+        account: "MATCHING_BONUS_EXPENSE",
+        metadata: { refundId: refund.id, bvMatchId: match.id, bvLogId: log.id, bv },
+        postedBy: actorId,
+        refundId: refund.id
+      }, transaction);
+
+      await this.recordReversal(refund, {
+        userId: match.userId,
+        kind: "match_bonus",
+        side: leg,
+        bvLogId: log.id,
+        bvMatchId: match.id,
+        bv,
+        amount
+      }, result, totals, transaction);
+    }
+  }
+
+  /**
+   * Put BV back on the partner leg of a match: carry goes up and the
+   * match's logs on that leg, newest first, become unpaired again
+   */
+  private static async restorePartnerBV(
+    match: BvMatch,
+    side: BVSide,
+    bv: number,
+    transaction: Transaction
+  ): Promise<void> {
+    const userBV = await UserBV.findOne({
+      where: { userId: match.userId },
+      lock: transaction.LOCK.UPDATE,
+      transaction
+    });
+    if (userBV) {
+      const carryKey = side === "left" ? "carryLeft" : "carryRight";
+      await userBV.update({ [carryKey]: roundMoney(Number(userBV[carryKey]) + bv) }, { transaction });
+    }
+
+    const ids = this.matchLogIds(match, side);
+    const logs = ids.length
+      ? await BVLog.findAll({
+        where: { id: { [Op.in]: ids }, reversedAt: null },
+        order: [["createdAt", "DESC"], ["id", "DESC"]],
+        lock: transaction.LOCK.UPDATE,
+        transaction
+      })
+      : [];
+
+    let remainingPaise = toPaise(bv);
+    for (const log of logs) {
+      if (remainingPaise <= 0) break;
+
+      const givePaise = Math.min(remainingPaise, toPaise(log.matchedPoints));
+      if (givePaise <= 0) continue;
+
+      await log.update({
+        matchedPoints: fromPaise(toPaise(log.matchedPoints) - givePaise),
+        matched: false
+      }, { transaction });
+      remainingPaise -= givePaise;
+    }
+  }
+
+  private static async recordReversal(
+    refund: Refund,
+    reversal: {
+      userId: number;
+      kind: "sponsor_bonus" | "match_bonus";
+      side?: BVSide;
+      bvLogId?: number;
+      bvMatchId?: number;
+      bv?: number;
+      amount: number;
+      note?: string;
+    },
+    result: ClawbackResult,
+    totals: RefundTotals,
+    transaction: Transaction
+  ): Promise<void> {
+    await RefundReversal.create({
+      refundId: refund.id,
+      userId: reversal.userId,
+      kind: reversal.kind,
+      side: reversal.side ?? null,
+      bvLogId: reversal.bvLogId ?? null,
+      bvMatchId: reversal.bvMatchId ?? null,
+      bv: reversal.bv ?? 0,
+      amount: reversal.amount,
+      recovered: result.recovered,
+      due: result.due,
+      note: reversal.note ?? null
+    }, { transaction });
+
+    totals.recovered = roundMoney(totals.recovered + result.recovered);
+    totals.due = roundMoney(totals.due + result.due);
+  }
+
+  /**
+   * Ids of the BV logs a match paired on one leg
+   */
+  private static matchLogIds(match: BvMatch, side: BVSide): number[] {
+    const raw = match.sourceBvLogIds as unknown;
+    const ids = typeof raw === "string" ? JSON.parse(raw) : raw;
+    return Array.isArray(ids?.[side]) ? ids[side].map(Number) : [];
+  }
+}
@@ -0,0 +1,345 @@
+import { TdsDeduction } from "../models/TdsDeduction.ts";
+import { Withdrawal } from "../models/Withdrawal.ts";
+import { User } from "../models/User.ts";
+import { Kyc } from "../models/Kyc.ts";
+import { AdminConfig } from "../models/AdminConfig.ts";
+import { PAN_PATTERN, tdsPeriodOf, tdsQuarterRange, type TdsQuarter } from "../utils/tds.ts";
+import { sequelize } from "../utils/db.ts";
+import { toPaise, fromPaise } from "../utils/money.ts";
+import { Op, Transaction } from "sequelize";
+
+export interface TdsPolicy {
+  section: string;              // Income-tax section payouts are taxed under
+  rateWithPan: number;          // Percent
+  rateWithoutPan: number;       // Percent; section 206AA's higher rate
+  deductorName: string;
+  deductorTan: string | null;
+  deductorPan: string | null;
+  deductorAddress: string | null;
+}
+
+export interface TdsQuote {
+  section: string;
+  rate: number;
+  pan: string | null;
+  tdsAmount: number;
+  netAmount: number;
+}
+
+export interface TdsCertificate {
+  certificateNumber: string;
+  financialYear: string;
+  quarter: TdsQuarter;
+  periodFrom: Date;
+  periodTo: Date;               // Last day of the quarter
+  policy: TdsPolicy;
+  deducteeName: string;
+  pan: string | null;
+  deductions: TdsDeduction[];
+  totalPaid: number;
+  totalTds: number;
+}
+
+export const TDS_POLICY_CONFIG_KEY = "tds-policy";
+
+export const DEFAULT_TDS_POLICY: TdsPolicy = {
+  section: "194H",
+  rateWithPan: 5,
+  rateWithoutPan: 20,
+  deductorName: "Universal Guruji MLM Platform",
+  deductorTan: null,
+  deductorPan: null,
+  deductorAddress: null
+};
+
+// Header of the Form 26Q style deductee export, one row per deduction
+export const FORM_26Q_COLUMNS = [
+  "Sr No",
+  "Deductee Code",
+  "PAN of Deductee",
+  "Name of Deductee",
+  "Section Code",
+  "Date of Payment/Credit",
+  "Amount Paid/Credited",
+  "TDS Rate (%)",
+  "TDS Deducted",
+  "Total Tax Deposited",
+  "Date of Deduction",
+  "Reason for Higher Deduction"
+];
+
+const TAN_PATTERN = /^[A-Z]{4}[0-9]{5}[A-Z]$/;
+
+export class TdsService {
+  /**
+   * Load the TDS policy. Until one is saved, the rate with PAN comes from
+   * the older single TDS percentage.
+   */
+  static async getConfig(transaction?: Transaction): Promise<TdsPolicy> {
+    const record = await AdminConfig.findOne({
+      where: { key: TDS_POLICY_CONFIG_KEY },
+      transaction
+    });
+
+    if (!record || record.isActive === false) {
+      const legacy = await AdminConfig.findOne({ order: [["id", "ASC"]], transaction });
+      return {
+        ...DEFAULT_TDS_POLICY,
+        rateWithPan: legacy ? Number(legacy.tds) : DEFAULT_TDS_POLICY.rateWithPan
+      };
+    }
+
+    try {
+      return this.normalizeConfig(JSON.parse(record.value));
+    } catch (error) {
+      console.warn("Invalid TDS policy config, using defaults:", error);
+      return { ...DEFAULT_TDS_POLICY };
+    }
+  }
+
+  /**
+   * Validate a (partial) policy and merge it over the defaults
+   */
+  static normalizeConfig(input: Partial<TdsPolicy>): TdsPolicy {
+    const config: TdsPolicy = { ...DEFAULT_TDS_POLICY, ...input };
+
+    const section = String(config.section || "").trim().toUpperCase();
+    if (!/^19[0-9]{1,2}[A-Z]{0,2}$/.test(section)) {
+      throw new Error("section must be an income-tax section like 194H");
+    }
+
+    const rateWithPan = Number(config.rateWithPan);
+    const rateWithoutPan = Number(config.rateWithoutPan);
+    for (const [name, rate] of [["rateWithPan", rateWithPan], ["rateWithoutPan", rateWithoutPan]] as const) {
+      if (!Number.isFinite(rate) || rate < 0 || rate > 100) {
+        throw new Error(`${name} must be a percentage between 0 and 100`);
+      }
+    }
+    if (rateWithoutPan < rateWithPan) {
+      throw new Error("rateWithoutPan can't be lower than rateWithPan");
+    }
+
+    const deductorName = String(config.deductorName || "").trim();
+    if (!deductorName) {
+      throw new Error("deductorName is required");
+    }
+
+    const deductorTan = config.deductorTan ? String(config.deductorTan).trim().toUpperCase() : null;
+    if (deductorTan && !TAN_PATTERN.test(deductorTan)) {
+      throw new Error("deductorTan must be a valid 10-character TAN");
+    }
+
+    const deductorPan = config.deductorPan ? String(config.deductorPan).trim().toUpperCase() : null;
+    if (deductorPan && !PAN_PATTERN.test(deductorPan)) {
+      throw new Error("deductorPan must be a valid 10-character PAN");
+    }
+
+    const deductorAddress = config.deductorAddress ? String(config.deductorAddress).trim() : null;
+
+    return {
+      section,
+      rateWithPan,
+      rateWithoutPan,
+      deductorName,
+      deductorTan,
+      deductorPan,
+      deductorAddress: deductorAddress || null
+    };
+  }
+
+  /**
+   * Save the policy. The older single TDS percentage follows the rate with
+   * PAN, for anything still reading it.
+   */
+  static async saveConfig(config: TdsPolicy): Promise<TdsPolicy> {
+    const [record, created] = await AdminConfig.findOrCreate({
+      where: { key: TDS_POLICY_CONFIG_KEY },
+      defaults: {
+        key: TDS_POLICY_CONFIG_KEY,
+        value: JSON.stringify(config),
+        description: 'TDS section, rates with and without PAN, and deductor details for certificates',
+        category: 'payment',
+        tds: config.rateWithPan
+      }
+    });
+
+    if (!created) {
+      await record.update({
+        value: JSON.stringify(config),
+        tds: config.rateWithPan,
+        isActive: true
+      });
+    }
+
+    return config;
+  }
+
+  /**
+   * The member's PAN if their approved KYC carries a valid one
+   */
+  static async verifiedPan(userId: number, transaction?: Transaction): Promise<string | null> {
+    const kyc = await Kyc.findOne({
+      where: { userId, status: "approved", panNumber: { [Op.ne]: null } },
+      order: [["createdAt", "DESC"]],
+      transaction
+    });
+
+    const pan = kyc?.panNumber?.trim().toUpperCase() ?? null;
+    return pan && PAN_PATTERN.test(pan) ? pan : null;
+  }
+
+  /**
+   * TDS on a payout of `amount` to a member: the policy's rate with PAN
+   * if they have a verified one, the higher rate otherwise
+   */
+  static async quote(userId: number, amount: number, transaction?: Transaction): Promise<TdsQuote> {
+    const [policy, pan] = await Promise.all([
+      this.getConfig(transaction),
+      this.verifiedPan(userId, transaction)
+    ]);
+
+    const rate = pan ? policy.rateWithPan : policy.rateWithoutPan;
+    const amountPaise = toPaise(amount);
+    const tdsPaise = Math.round((amountPaise * rate) / 100);
+
+    return {
+      section: policy.section,
+      rate,
+      pan,
+      tdsAmount: fromPaise(tdsPaise),
+      netAmount: fromPaise(amountPaise - tdsPaise)
+    };
+  }
+
+  /**
+   * Record the TDS on a paid-out withdrawal in the quarter it was paid.
+   * Returns the existing deduction if there is one, or null when no tax
+   * was deducted.
+   */
+  static async recordDeduction(withdrawal: Withdrawal, transaction: Transaction): Promise<TdsDeduction | null> {
+    const existing = await TdsDeduction.findOne({ where: { withdrawalId: withdrawal.id }, transaction });
+    if (existing) return existing;
+
+    if (withdrawal.status !== "completed") {
+      throw new Error(`Withdrawal #${withdrawal.id} is ${withdrawal.status}; TDS is recorded at payout`);
+    }
+    if (toPaise(withdrawal.tdsAmount) <= 0) return null;
+
+    const [policy, user] = await Promise.all([
+      this.getConfig(transaction),
+      User.findByPk(withdrawal.userId, { attributes: ["id", "name"], transaction })
+    ]);
+
+    const deductedAt = withdrawal.processedAt || new Date();
+    const { financialYear, quarter } = tdsPeriodOf(deductedAt);
+
+    return TdsDeduction.create({
+      userId: withdrawal.userId,
+      withdrawalId: withdrawal.id,
+      financialYear,
+      quarter,
+      section: policy.section,
+      deducteeName: (user?.name || `Member #${withdrawal.userId}`).slice(0, 100),
+      pan: withdrawal.tdsPan,
+      rate: Number(withdrawal.tdsRate),
+      grossAmount: Number(withdrawal.amount),
+      tdsAmount: Number(withdrawal.tdsAmount),
+      netAmount: fromPaise(toPaise(withdrawal.amount) - toPaise(withdrawal.tdsAmount)),
+      deductedAt
+    }, { transaction });
+  }
+
+  /**
+   * Record deductions for completed withdrawals that have none: payouts
+   * made before the TDS ledger existed. Safe to run again.
+   */
+  static async backfill(): Promise<{ recorded: number; skipped: number }> {
+    const withdrawals = await Withdrawal.findAll({
+      where: {
+        status: "completed",
+        tdsAmount: { [Op.gt]: 0 },
+        id: { [Op.notIn]: sequelize.literal("(SELECT withdrawalId FROM tds_deductions)") }
+      },
+      order: [["processedAt", "ASC"], ["id", "ASC"]]
+    });
+
+    let recorded = 0;
+    for (const withdrawal of withdrawals) {
+      const deduction = await sequelize.transaction(t => this.recordDeduction(withdrawal, t));
+      if (deduction) recorded++;
+    }
+
+    return { recorded, skipped: withdrawals.length - recorded };
+  }
+
+  /**
+   * Deductions in a quarter, oldest first
+   */
+  static async listForQuarter(financialYear: string, quarter: TdsQuarter, userId?: number): Promise<TdsDeduction[]> {
+    return TdsDeduction.findAll({
+      where: { financialYear, quarter, ...(userId ? { userId } : {}) },
+      order: [["deductedAt", "ASC"], ["id", "ASC"]]
+    });
+  }
+
+  /**
+   * Form 26Q style deductee rows. Members are individuals (deductee code
+   * 02); a missing PAN is reported as PANNOTAVBL with reason C, the
+   * higher rate.
+   */
+  static toForm26QRows(deductions: TdsDeduction[]): Array<Array<string | number>> {
+    return deductions.map((deduction, index) => [
+      index + 1,
+      "02",
+      deduction.pan || "PANNOTAVBL",
+      deduction.deducteeName,
+      // Form 26Q section codes drop the leading 1: 194H -> 94H
+      deduction.section.replace(/^1/, ""),
+      this.formatDate(deduction.deductedAt),
+      Number(deduction.grossAmount).toFixed(2),
+      Number(deduction.rate).toFixed(2),
+      Number(deduction.tdsAmount).toFixed(2),
+      Number(deduction.tdsAmount).toFixed(2),
+      this.formatDate(deduction.deductedAt),
+      deduction.pan ? "" : "C"
+    ]);
+  }
+
+  /**
+   * A member's TDS certificate for one quarter
+   */
+  static async certificateFor(userId: number, financialYear: string, quarter: TdsQuarter): Promise<TdsCertificate> {
+    const [deductions, policy] = await Promise.all([
+      this.listForQuarter(financialYear, quarter, userId),
+      this.getConfig()
+    ]);
+    if (deductions.length === 0) {
+      throw new Error(`No TDS was deducted in ${quarter} of ${financialYear}`);
+    }
+
+    const { from, to } = tdsQuarterRange(financialYear, quarter);
+    const latest = deductions[deductions.length - 1];
+    const sum = (pick: (d: TdsDeduction) => number) =>
+      fromPaise(deductions.reduce((total, d) => total + toPaise(pick(d)), 0));
+
+    return {
+      certificateNumber: `TDS/${financialYear}/${quarter}/${String(userId).padStart(6, "0")}`,
+      financialYear,
+      quarter,
+      periodFrom: from,
+      periodTo: new Date(to.getTime() - 24 * 60 * 60 * 1000),
+      policy,
+      deducteeName: latest.deducteeName,
+      pan: deductions.find(d => d.pan)?.pan ?? null,
+      deductions,
+      totalPaid: sum(d => d.grossAmount),
+      totalTds: sum(d => d.tdsAmount)
+    };
+  }
+
+  // dd/MM/yyyy, as the TDS return utilities expect
+  private static formatDate(date: Date): string {
+    const d = new Date(date);
+    return `${String(d.getDate()).padStart(2, "0")}/${String(d.getMonth() + 1).padStart(2, "0")}/${d.getFullYear()}`;
+  }
+}
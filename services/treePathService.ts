@@ -0,0 +1,362 @@
+import { User, type Position } from "../models/User.ts";
+import { UserTreePath } from "../models/UserTreePath.ts";
+import { sequelize } from "../utils/db.ts";
+import { Op, QueryTypes, Transaction } from "sequelize";
+
+export interface LegCount {
+  total: number;
+  active: number;
+  inactive: number;
+}
+
+export interface LegCounts {
+  left: LegCount;
+  right: LegCount;
+  total: number;
+  active: number;
+}
+
+export interface LevelStat {
+  level: number;
+  leftCount: number;
+  rightCount: number;
+  totalCount: number;
+}
+
+export interface DownlineMember {
+  id: number;
+  name: string;
+  email: string;
+  username: string | null;
+  sponsorId: string | null;
+  placementParentId: string | null;
+  position: Position | null;
+  isActive: boolean;
+  createdAt: Date;
+  depth: number;
+  side: Position;
+}
+
+export interface ReferralTreeSide {
+  count: number;
+  activeCount: number;
+  referrals: ReferralTreeNode[];
+}
+
+export interface ReferralTree {
+  leftSide: ReferralTreeSide;
+  rightSide: ReferralTreeSide;
+  totalCount: number;
+  totalActiveCount: number;
+}
+
+export interface ReferralTreeNode {
+  id: number;
+  name: string;
+  email: string;
+  username: string | null;
+  sponsorId: string | null;
+  placementParentId: string | null;
+  position: Position | null;
+  isActive: boolean;
+  joinedAt: Date;
+  referrals: ReferralTree;
+}
+
+export class TreePathService {
+  /**
+   * Add a newly registered user to the closure table: their self row plus
+   * one row for each of their placement parent's ancestors
+   */
+  static async addNode(user: User, transaction?: Transaction): Promise<void> {
+    await UserTreePath.findOrCreate({
+      where: { ancestorId: user.id, descendantId: user.id },
+      defaults: { ancestorId: user.id, descendantId: user.id, depth: 0, side: null },
+      transaction
+    });
+
+    if (!user.placementParentId || !user.position) return;
+
+    const parent = await User.findOne({
+      where: { username: user.placementParentId },
+      attributes: ['id'],
+      transaction
+    });
+    if (!parent) return;
+
+    const parentPaths = await UserTreePath.findAll({
+      where: { descendantId: parent.id },
+      transaction
+    });
+    if (parentPaths.length === 0) {
+      console.warn(`⚠️ Placement parent ${user.placementParentId} has no tree paths yet; run the tree path backfill`);
+      return;
+    }
+
+    await UserTreePath.bulkCreate(parentPaths.map(path => ({
+      ancestorId: path.ancestorId,
+      descendantId: user.id,
+      depth: path.depth + 1,
+      side: path.depth === 0 ? user.position : path.side
+    })), { ignoreDuplicates: true, transaction });
+  }
+
+  /**
+   * Re-link a user's whole subtree after their placement parent or
+   * position changed: paths to their old ancestors are dropped and paths
+   * to the new parent's ancestors are added, both in one statement each
+   */
+  static async moveSubtree(user: User, transaction?: Transaction): Promise<void> {
+    const subtreeIds = await this.getDescendantIds(user.id, transaction, true);
+
+    await UserTreePath.destroy({
+      where: {
+        descendantId: { [Op.in]: subtreeIds },
+        ancestorId: { [Op.notIn]: subtreeIds }
+      },
+      transaction
+    });
+
+    if (!user.placementParentId || !user.position) return;
+
+    const parent = await User.findOne({
+      where: { username: user.placementParentId },
+      attributes: ['id'],
+      transaction
+    });
+    if (!parent) return;
+
+    if (subtreeIds.includes(parent.id)) {
+      throw new Error(`Cannot place ${user.username} under ${user.placementParentId}, who is in their own downline`);
+    }
+
+    await sequelize.query(
+      `INSERT IGNORE INTO user_tree_paths (ancestorId, descendantId, depth, side, createdAt, updatedAt)
+       SELECT a.ancestorId, d.descendantId, a.depth + d.depth + 1,
+              CASE WHEN a.depth = 0 THEN :position ELSE a.side END, NOW(), NOW()
+       FROM user_tree_paths a
+       CROSS JOIN user_tree_paths d
+       WHERE a.descendantId = :parentId AND d.ancestorId = :userId`,
+      {
+        replacements: { position: user.position, parentId: parent.id, userId: user.id },
+        transaction
+      }
+    );
+  }
+
+  /**
+   * Rebuild the closure table from users' placement links, one tree level
+   * per statement. Used for the initial backfill and to repair drift.
+   */
+  static async rebuildAll(): Promise<{ users: number; paths: number; levels: number }> {
+    return sequelize.transaction(async (t) => {
+      await UserTreePath.destroy({ where: {}, transaction: t });
+
+      await sequelize.query(
+        `INSERT INTO user_tree_paths (ancestorId, descendantId, depth, side, createdAt, updatedAt)
+         SELECT id, id, 0, NULL, NOW(), NOW() FROM users`,
+        { transaction: t }
+      );
+
+      // Extend every path ending at depth `level` by one generation; a
+      // placement loop stops once its pairs already exist
+      let levels = 0;
+      for (;;) {
+        const [, inserted] = await sequelize.query(
+          `INSERT IGNORE INTO user_tree_paths (ancestorId, descendantId, depth, side, createdAt, updatedAt)
+           SELECT p.ancestorId, c.id, p.depth + 1,
+                  CASE WHEN p.depth = 0 THEN c.position ELSE p.side END, NOW(), NOW()
+           FROM user_tree_paths p
+           JOIN users s ON s.id = p.descendantId
+           JOIN users c ON c.placementParentId = s.username AND c.position IN ('left', 'right')
+           WHERE p.depth = :level`,
+          { replacements: { level: levels }, transaction: t }
+        ) as [unknown, any];
+
+        const affectedRows = typeof inserted === 'number' ? inserted : inserted?.affectedRows ?? 0;
+        if (!affectedRows) break;
+        levels++;
+      }
+
+      const users = await User.count({ transaction: t });
+      const paths = await UserTreePath.count({ transaction: t });
+      return { users, paths, levels };
+    });
+  }
+
+  /**
+   * IDs of everyone below a user, optionally including the user themselves
+   */
+  static async getDescendantIds(
+    userId: number,
+    transaction?: Transaction,
+    includeSelf: boolean = false
+  ): Promise<number[]> {
+    const paths = await UserTreePath.findAll({
+      where: {
+        ancestorId: userId,
+        depth: { [Op.gte]: includeSelf ? 0 : 1 }
+      },
+      attributes: ['descendantId'],
+      transaction
+    });
+    return paths.map(path => path.descendantId);
+  }
+
+  /**
+   * Whether `descendantId` is somewhere in `ancestorId`'s downline
+   */
+  static async isInDownline(ancestorId: number, descendantId: number): Promise<boolean> {
+    const path = await UserTreePath.findOne({
+      where: { ancestorId, descendantId, depth: { [Op.gt]: 0 } },
+      attributes: ['id']
+    });
+    return !!path;
+  }
+
+  /**
+   * Everyone in a user's downline down to `maxDepth` levels, nearest first
+   */
+  static async getDownline(userId: number, maxDepth?: number): Promise<DownlineMember[]> {
+    const paths = await UserTreePath.findAll({
+      where: {
+        ancestorId: userId,
+        depth: maxDepth ? { [Op.between]: [1, maxDepth] } : { [Op.gte]: 1 }
+      },
+      include: [{
+        model: User,
+        as: 'descendant',
+        attributes: ['id', 'name', 'email', 'username', 'sponsorId', 'placementParentId', 'position', 'isActive', 'createdAt']
+      }],
+      order: [['depth', 'ASC'], [{ model: User, as: 'descendant' }, 'createdAt', 'DESC']]
+    });
+
+    return paths.map(path => {
+      const member = (path as any).descendant as User;
+      return {
+        id: member.id,
+        name: member.name,
+        email: member.email,
+        username: member.username ?? null,
+        sponsorId: member.sponsorId ?? null,
+        placementParentId: member.placementParentId ?? null,
+        position: member.position ?? null,
+        isActive: member.isActive,
+        createdAt: member.createdAt,
+        depth: path.depth,
+        side: path.side as Position
+      };
+    });
+  }
+
+  /**
+   * Total and active members in each leg of a user's tree
+   */
+  static async getLegCounts(userId: number): Promise<LegCounts> {
+    const rows = await sequelize.query(
+      `SELECT p.side AS side, COUNT(*) AS total, SUM(CASE WHEN u.isActive THEN 1 ELSE 0 END) AS active
+       FROM user_tree_paths p
+       JOIN users u ON u.id = p.descendantId
+       WHERE p.ancestorId = :userId AND p.depth > 0
+       GROUP BY p.side`,
+      { replacements: { userId }, type: QueryTypes.SELECT }
+    ) as Array<{ side: Position; total: string | number; active: string | number }>;
+
+    const leg = (side: Position): LegCount => {
+      const row = rows.find(r => r.side === side);
+      const total = Number(row?.total || 0);
+      const active = Number(row?.active || 0);
+      return { total, active, inactive: total - active };
+    };
+
+    const left = leg('left');
+    const right = leg('right');
+    return {
+      left,
+      right,
+      total: left.total + right.total,
+      active: left.active + right.active
+    };
+  }
+
+  /**
+   * Left and right member counts for each level of a user's downline
+   */
+  static async getLevelStats(userId: number, maxDepth: number = 10): Promise<LevelStat[]> {
+    const rows = await UserTreePath.findAll({
+      where: { ancestorId: userId, depth: { [Op.between]: [1, maxDepth] } },
+      attributes: ['depth', 'side', [sequelize.fn('COUNT', sequelize.col('id')), 'count']],
+      group: ['depth', 'side'],
+      order: [['depth', 'ASC']],
+      raw: true
+    }) as unknown as Array<{ depth: number; side: Position; count: string | number }>;
+
+    const levels = new Map<number, LevelStat>();
+    for (const row of rows) {
+      const level = Number(row.depth);
+      const stat = levels.get(level) || { level, leftCount: 0, rightCount: 0, totalCount: 0 };
+      if (row.side === 'left') stat.leftCount += Number(row.count);
+      if (row.side === 'right') stat.rightCount += Number(row.count);
+      stat.totalCount = stat.leftCount + stat.rightCount;
+      levels.set(level, stat);
+    }
+
+    return [...levels.values()];
+  }
+
+  /**
+   * A user's referral tree, split into left and right at every node, down
+   * to `maxDepth` levels. Built from a single downline query; counts at
+   * each node cover the members within that depth.
+   */
+  static async getReferralTree(userId: number, maxDepth: number = 10): Promise<ReferralTree> {
+    const downline = await this.getDownline(userId, maxDepth);
+
+    const root = await User.findByPk(userId, { attributes: ['username'] });
+    const childrenOf = new Map<string, DownlineMember[]>();
+    for (const member of downline) {
+      if (!member.placementParentId) continue;
+      const siblings = childrenOf.get(member.placementParentId) || [];
+      siblings.push(member);
+      childrenOf.set(member.placementParentId, siblings);
+    }
+
+    const build = (username: string | null | undefined, depth: number): ReferralTree => {
+      const children = username && depth < maxDepth ? childrenOf.get(username) || [] : [];
+
+      const side = (position: Position): ReferralTreeSide => {
+        const referrals = children
+          .filter(child => child.position === position)
+          .map(child => ({
+            id: child.id,
+            name: child.name,
+            email: child.email,
+            username: child.username,
+            sponsorId: child.sponsorId,
+            placementParentId: child.placementParentId,
+            position: child.position,
+            isActive: child.isActive,
+            joinedAt: child.createdAt,
+            referrals: build(child.username, depth + 1)
+          }));
+
+        return {
+          count: referrals.reduce((sum, ref) => sum + 1 + ref.referrals.totalCount, 0),
+          activeCount: referrals.reduce((sum, ref) => sum + (ref.isActive ? 1 : 0) + ref.referrals.totalActiveCount, 0),
+          referrals
+        };
+      };
+
+      const leftSide = side('left');
+      const rightSide = side('right');
+      return {
+        leftSide,
+        rightSide,
+        totalCount: leftSide.count + rightSide.count,
+        totalActiveCount: leftSide.activeCount + rightSide.activeCount
+      };
+    };
+
+    return build(root?.username, 0);
+  }
+}
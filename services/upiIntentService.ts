@@ -0,0 +1,255 @@
+import crypto from "crypto";
+import QRCode from "qrcode";
+import { UpiPaymentIntent, type UpiIntentPurpose } from "../models/UpiPaymentIntent.ts";
+import { AdminConfig } from "../models/AdminConfig.ts";
+import { CompetitionParticipation, ParticipationStatus } from "../models/CompetitionParticipation.ts";
+import { Competition } from "../models/Competition.ts";
+import { UserPlanService } from "./userPlanService.ts";
+import { CouponService } from "./couponService.ts";
+import { toPaise } from "../utils/money.ts";
+import { Transaction } from "sequelize";
+
+export const UPI_CONFIG_KEY = "upi-config";
+
+// Default UPI Configuration
+export const DEFAULT_UPI_CONFIG = {
+  upiId: "admin@paytm",
+  upiName: "Universal Guruji",
+  bankName: "State Bank of India",
+  accountNumber: "****1234",
+  ifscCode: "SBIN0001234",
+  phoneNumber: "+91 9876543210",
+  email: "admin@universalguruji.com"
+};
+
+export type UpiConfig = typeof DEFAULT_UPI_CONFIG;
+
+export type QrFormat = "png" | "svg";
+
+export class UpiIntentService {
+  // How long a member has to pay before a fresh intent is needed
+  static readonly INTENT_TTL_MS = 30 * 60 * 1000;
+
+  // Prefix + 12 characters; unambiguous and short enough for every UPI app's note field
+  private static readonly REFERENCE_PREFIX = "UG";
+  private static readonly REFERENCE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+  private static readonly REFERENCE_PATTERN = /UG[ABCDEFGHJKLMNPQRSTUVWXYZ23456789]{12}/;
+
+  /**
+   * The admin's UPI payee details, falling back to the defaults
+   */
+  static async getPayeeConfig(): Promise<UpiConfig> {
+    const record = await AdminConfig.findOne({
+      where: { key: UPI_CONFIG_KEY, category: "payment" }
+    });
+    if (!record) return { ...DEFAULT_UPI_CONFIG };
+
+    try {
+      return { ...DEFAULT_UPI_CONFIG, ...JSON.parse(record.value) };
+    } catch (parseError) {
+      console.warn("Failed to parse UPI config from database, using defaults");
+      return { ...DEFAULT_UPI_CONFIG };
+    }
+  }
+
+  /**
+   * Issue (or re-use) the intent for buying a plan, with the coupon the
+   * member will submit the payment with taken off
+   */
+  static async createForPlan(userId: number, planId: number, couponCode?: string | null): Promise<UpiPaymentIntent> {
+    const quote = await UserPlanService.quote(userId, planId);
+    const pricing = couponCode
+      ? await CouponService.apply(couponCode, userId, { purpose: "plan", planId: quote.plan.id, amount: quote.amount })
+      : null;
+
+    return this.issue({
+      userId,
+      purpose: "plan",
+      planId: quote.plan.id,
+      amount: pricing ? pricing.amount : quote.amount,
+      currency: quote.currency,
+      label: quote.kind === "upgrade" ? `Upgrade to ${quote.plan.name}` : `Plan ${quote.plan.name}`
+    });
+  }
+
+  /**
+   * Issue (or re-use) the intent for a competition entry fee
+   */
+  static async createForParticipation(userId: number, participationId: number): Promise<UpiPaymentIntent> {
+    const participation = await CompetitionParticipation.findOne({
+      where: { id: participationId, userId },
+      include: [{ model: Competition, as: "competition", attributes: ["id", "title"] }]
+    });
+    if (!participation) {
+      throw new Error("Participation not found");
+    }
+    if (participation.status !== ParticipationStatus.PAYMENT_PENDING) {
+      throw new Error("Payment already submitted or participation not in pending status");
+    }
+
+    return this.issue({
+      userId,
+      purpose: "participation",
+      participationId: participation.id,
+      amount: Number(participation.paymentAmount),
+      currency: "INR",
+      label: `Entry ${participation.competition?.title || participation.competitionId}`
+    });
+  }
+
+  /**
+   * A member's own intent by reference
+   */
+  static async findForUser(reference: string, userId: number): Promise<UpiPaymentIntent | null> {
+    return UpiPaymentIntent.findOne({
+      where: { reference: String(reference || "").toUpperCase(), userId }
+    });
+  }
+
+  /**
+   * Find an intent reference inside free text such as a statement narration
+   */
+  static findReference(text: string | null | undefined): string | null {
+    if (!text) return null;
+    const match = text.toUpperCase().match(this.REFERENCE_PATTERN);
+    return match ? match[0] : null;
+  }
+
+  /**
+   * The `upi://pay` link UPI apps open for this intent
+   */
+  static buildUri(intent: UpiPaymentIntent): string {
+    const params = [
+      ["pa", intent.payeeVpa],
+      ["pn", intent.payeeName],
+      ["am", Number(intent.amount).toFixed(2)],
+      ["cu", intent.currency],
+      ["tr", intent.reference],
+      ["tn", intent.note]
+    ];
+    return `upi://pay?${params.map(([key, value]) => `${key}=${encodeURIComponent(value)}`).join("&")}`;
+  }
+
+  /**
+   * Render the intent's link as a QR code
+   */
+  static async renderQr(intent: UpiPaymentIntent, format: QrFormat = "png"): Promise<Buffer | string> {
+    const uri = this.buildUri(intent);
+    if (format === "svg") {
+      return QRCode.toString(uri, { type: "svg", margin: 2 });
+    }
+    return QRCode.toBuffer(uri, { type: "png", width: 320, margin: 2 });
+  }
+
+  /**
+   * Check an intent can back a submission for `purpose`, and return it
+   */
+  static async resolveForSubmission(
+    reference: string,
+    userId: number,
+    purpose: UpiIntentPurpose,
+    target: { planId?: number; participationId?: number },
+    transaction?: Transaction
+  ): Promise<UpiPaymentIntent> {
+    const intent = await UpiPaymentIntent.findOne({
+      where: { reference: String(reference || "").toUpperCase(), userId },
+      transaction
+    });
+    if (!intent) {
+      throw new Error("Payment reference not found");
+    }
+    if (intent.purpose !== purpose
+      || (target.planId && Number(intent.planId) !== Number(target.planId))
+      || (target.participationId && Number(intent.participationId) !== Number(target.participationId))) {
+      throw new Error("Payment reference was issued for a different purchase");
+    }
+    if (intent.paymentId) {
+      throw new Error("Payment reference has already been submitted");
+    }
+    if (intent.status === "cancelled") {
+      throw new Error("Payment reference was cancelled, please generate a new QR code");
+    }
+    return intent;
+  }
+
+  /**
+   * Mark an intent as paid once its transfer is confirmed
+   */
+  static async markPaid(intent: UpiPaymentIntent, transaction?: Transaction): Promise<void> {
+    if (intent.status === "paid") return;
+    await intent.update({ status: "paid", paidAt: new Date() }, { transaction });
+  }
+
+  /**
+   * Return the member's open intent for the same purchase if it is still
+   * valid, otherwise expire it and issue a new one
+   */
+  private static async issue(params: {
+    userId: number;
+    purpose: UpiIntentPurpose;
+    planId?: number;
+    participationId?: number;
+    amount: number;
+    currency: string;
+    label: string;
+  }): Promise<UpiPaymentIntent> {
+    const now = new Date();
+    const payee = await this.getPayeeConfig();
+
+    const openIntents = await UpiPaymentIntent.findAll({
+      where: {
+        userId: params.userId,
+        purpose: params.purpose,
+        planId: params.planId ?? null,
+        participationId: params.participationId ?? null,
+        paymentId: null,
+        status: "open"
+      }
+    });
+
+    for (const intent of openIntents) {
+      const stillValid = intent.expiresAt > now
+        && toPaise(intent.amount) === toPaise(params.amount)
+        && intent.payeeVpa === payee.upiId;
+      if (stillValid) return intent;
+
+      await intent.update({ status: intent.expiresAt > now ? "cancelled" : "expired" });
+    }
+
+    const reference = await this.generateReference();
+    return UpiPaymentIntent.create({
+      reference,
+      userId: params.userId,
+      purpose: params.purpose,
+      planId: params.planId ?? null,
+      participationId: params.participationId ?? null,
+      amount: params.amount,
+      currency: params.currency,
+      payeeVpa: payee.upiId,
+      payeeName: payee.upiName,
+      // The reference leads so it survives banks truncating the note
+      note: `${reference} ${params.label}`.slice(0, 50),
+      expiresAt: new Date(now.getTime() + this.INTENT_TTL_MS)
+    });
+  }
+
+  /**
+   * A reference no other intent uses
+   */
+  private static async generateReference(): Promise<string> {
+    for (let attempt = 0; attempt < 5; attempt++) {
+      const bytes = crypto.randomBytes(12);
+      let reference = this.REFERENCE_PREFIX;
+      for (const byte of bytes) {
+        reference += this.REFERENCE_ALPHABET[byte % this.REFERENCE_ALPHABET.length];
+      }
+
+      const existing = await UpiPaymentIntent.findOne({
+        where: { reference },
+        attributes: ["id"]
+      });
+      if (!existing) return reference;
+    }
+    throw new Error("Failed to generate a unique payment reference");
+  }
+}
@@ -0,0 +1,102 @@
+import { Withdrawal } from "../models/Withdrawal.ts";
+import { User } from "../models/User.ts";
+import { WithdrawalService } from "./withdrawalService.ts";
+import { getActivePayoutProvider, getPayoutProvider, type PayoutProvider, type ProviderPayout } from "./payoutProviders/index.ts";
+import { sequelize } from "../utils/db.ts";
+import { roundMoney } from "../utils/money.ts";
+
+export class UpiPayoutService {
+  /**
+   * Pay an approved UPI withdrawal through the payout provider. The
+   * withdrawal moves to processing before the provider is called, so it
+   * can't be sent twice; it completes or fails as soon as the provider
+   * answers, or stays processing until `refresh` finds out.
+   */
+  static async send(withdrawalId: number, actorId: number | null): Promise<Withdrawal> {
+    const provider = getActivePayoutProvider();
+
+    const withdrawal = await sequelize.transaction(async t => {
+      const current = await Withdrawal.findByPk(withdrawalId, { transaction: t });
+      if (!current) {
+        throw new Error("Withdrawal request not found");
+      }
+      if (!current.isVpaPayout()) {
+        throw new Error(`Withdrawal #${current.id} is paid by bank transfer; add it to a payout batch`);
+      }
+
+      const processing = await WithdrawalService.transition(withdrawalId, "processing", { actorId }, t);
+      return processing.update({ payoutProvider: provider.name }, { transaction: t });
+    });
+
+    return this.settle(withdrawal, provider, actorId);
+  }
+
+  /**
+   * Check a processing UPI withdrawal with its provider, and send it again
+   * if the first attempt never reached the provider
+   */
+  static async refresh(withdrawalId: number, actorId: number | null): Promise<Withdrawal> {
+    const withdrawal = await Withdrawal.findByPk(withdrawalId);
+    if (!withdrawal) {
+      throw new Error("Withdrawal request not found");
+    }
+    if (withdrawal.status !== "processing" || !withdrawal.payoutProvider) {
+      throw new Error(`Withdrawal #${withdrawal.id} has no UPI payout in progress`);
+    }
+
+    const provider = getPayoutProvider(withdrawal.payoutProvider);
+    if (!provider?.isEnabled()) {
+      throw new Error(`Payout provider ${withdrawal.payoutProvider} is not configured`);
+    }
+    return this.settle(withdrawal, provider, actorId);
+  }
+
+  // Ask the provider where the payout stands and move the withdrawal to match
+  private static async settle(withdrawal: Withdrawal, provider: PayoutProvider, actorId: number | null): Promise<Withdrawal> {
+    let payout: ProviderPayout;
+    try {
+      payout = withdrawal.providerPayoutId
+        ? await provider.getPayout(withdrawal.providerPayoutId)
+        : await provider.createPayout(await this.describePayout(withdrawal));
+    } catch (error: any) {
+      console.error(`UPI payout error for withdrawal #${withdrawal.id}:`, error);
+      throw new Error(`Payout provider error for withdrawal #${withdrawal.id}: ${error.message}; it stays processing, refresh it to retry`);
+    }
+
+    if (withdrawal.providerPayoutId !== payout.providerPayoutId) {
+      await withdrawal.update({ providerPayoutId: payout.providerPayoutId });
+    }
+
+    if (payout.status === "completed") {
+      return WithdrawalService.transition(withdrawal.id, "completed", {
+        actorId,
+        transactionId: payout.utr || payout.providerPayoutId
+      });
+    }
+    if (payout.status === "failed") {
+      return WithdrawalService.transition(withdrawal.id, "failed", {
+        actorId,
+        adminNotes: payout.failureReason || "UPI payout failed"
+      });
+    }
+    return withdrawal;
+  }
+
+  private static async describePayout(withdrawal: Withdrawal) {
+    const details = withdrawal.accountDetails || {};
+    const vpa = String(details.upiId || "");
+    if (!vpa) {
+      throw new Error(`Withdrawal #${withdrawal.id} has no UPI ID`);
+    }
+
+    const user = await User.findByPk(withdrawal.userId, { attributes: ["id", "name"] });
+    const reference = `WD${String(withdrawal.id).padStart(8, "0")}`;
+    return {
+      reference,
+      amount: roundMoney(withdrawal.getNetAmount()),
+      vpa,
+      beneficiaryName: details.upiName || user?.name || `Member #${withdrawal.userId}`,
+      narration: `Withdrawal payout ${reference}`
+    };
+  }
+}
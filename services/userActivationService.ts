@@ -1,109 +1,65 @@
 import { User } from "../models/User.ts";
 import { AdvancedBVMatchingService } from "./advancedBvMatchingService.ts";
-import { BVMatchingService } from "./bvMatchingService.ts";
+import { CompensationPlanEngine } from "./compensationPlanEngine.ts";
+import { Transaction } from "sequelize";
+
+export interface ActivationResult {
+  distributed: boolean;
+  bvAmount: number;
+  levels: number;
+}
 
 export class UserActivationService {
   /**
-   * Handle user activation - distribute BV to upline and process matching
+   * Handle user activation - distribute BV to upline. Matching runs in
+   * the scheduled payout cycle, not here. Only called through the
+   * activation outbox, which guarantees it runs once per user; errors are
+   * left to the outbox to record.
    */
-  static async handleUserActivation(userId: number): Promise<void> {
-    try {
-      console.log(`🔄 Handling user activation for user ${userId}...`);
-      
-      const user = await User.findByPk(userId);
-      if (!user) {
-        console.log(`❌ User ${userId} not found for activation handling.`);
-        return;
-      }
+  static async handleUserActivation(userId: number, transaction?: Transaction): Promise<ActivationResult> {
+    console.log(`🔄 Handling user activation for user ${userId}...`);
 
-      console.log(`👤 User details:`, {
-        id: user.id,
-        username: user.username,
-        sponsorId: user.sponsorId,
-        position: user.position,
-        isActive: user.isActive
-      });
+    const user = await User.findByPk(userId, { transaction });
+    if (!user) {
+      throw new Error(`User ${userId} not found for activation handling`);
+    }
 
-      // Only distribute BV if user has a sponsor and position
-      if (user.sponsorId && user.position) {
-        console.log(`📈 Distributing BV for activated user ${user.username}...`);
-        console.log(`   Sponsor: ${user.sponsorId}, Position: ${user.position}`);
-        
-        // Add 50 BV to the entire upline chain (nested bonus)
-        await AdvancedBVMatchingService.addNestedBVToUpline(
-          user.id, 
-          50, 
-          user.position as 'left' | 'right'
-        );
-        
-        console.log(`✅ BV distributed successfully for activated user:`, {
-          userId: user.id,
-          username: user.username,
-          sponsorId: user.sponsorId,
-          position: user.position,
-          note: "New user gets 0 BV, all upline parents get +50 BV each"
-        });
+    console.log(`👤 User details:`, {
+      id: user.id,
+      username: user.username,
+      sponsorId: user.sponsorId,
+      position: user.position,
+      isActive: user.isActive
+    });
 
-        // Process BV matching for all upline users after distribution
-        await this.processMatchingForUpline(user.id);
-      } else {
-        console.log(`ℹ️ User ${user.username} has no sponsor or position, skipping BV distribution`);
-      }
-    } catch (error) {
-      console.error(`❌ Error handling user activation for user ${userId}:`, error);
+    // Only distribute BV if user is placed in the tree
+    if (!user.placementParentId || !user.position) {
+      console.log(`ℹ️ User ${user.username} has no placement parent or position, skipping BV distribution`);
+      return { distributed: false, bvAmount: 0, levels: 0 };
     }
-  }
 
-  /**
-   * Process BV matching for all upline users after new user activation
-   */
-  private static async processMatchingForUpline(newUserId: number): Promise<void> {
-    try {
-      console.log(`🔄 Processing BV matching for upline after user ${newUserId} activation...`);
-      
-      let currentUserId = newUserId;
-      let level = 0;
-      const maxLevels = 20; // Prevent infinite loops
-      
-      // Go up the entire referral chain and process matching for each user
-      while (currentUserId && level < maxLevels) {
-        const currentUser = await User.findByPk(currentUserId);
-        if (!currentUser || !currentUser.sponsorId) {
-          console.log(`🏁 Reached end of upline chain at level ${level}`);
-          break;
-        }
+    console.log(`📈 Distributing BV for activated user ${user.username}...`);
+    console.log(`   Sponsor: ${user.sponsorId}, Placed under: ${user.placementParentId}, Position: ${user.position}`);
 
-        const sponsor = await User.findOne({ 
-          where: { username: currentUser.sponsorId } 
-        });
-        
-        if (!sponsor) {
-          console.log(`⚠️ Sponsor not found: ${currentUser.sponsorId}`);
-          break;
-        }
+    // BV for the user's plan, as set by the compensation plan
+    const activationBV = await CompensationPlanEngine.getActivationBV(user.id, transaction);
 
-        console.log(`🎯 Processing BV matching for sponsor ${sponsor.username} (level ${level + 1})`);
-        
-        // Process BV matching for this sponsor
-        const matchResult = await BVMatchingService.processUserBVMatching(sponsor.id);
-        if (matchResult) {
-          console.log(`✅ BV match processed for ${sponsor.username}:`, {
-            matched: matchResult.matchedAmount,
-            bonus: matchResult.bonusEarned
-          });
-        } else {
-          console.log(`ℹ️ No BV match available for ${sponsor.username}`);
-        }
+    // Add the plan's BV to the entire upline chain (nested bonus)
+    const levels = await AdvancedBVMatchingService.addNestedBVToUpline(
+      user.id,
+      activationBV,
+      user.position as 'left' | 'right',
+      transaction
+    );
 
-        // Move up to the sponsor
-        currentUserId = sponsor.id;
-        level++;
-      }
+    console.log(`✅ BV distributed successfully for activated user:`, {
+      userId: user.id,
+      username: user.username,
+      sponsorId: user.sponsorId,
+      position: user.position,
+      note: `New user gets 0 BV, all upline parents get +${activationBV} BV each`
+    });
 
-      console.log(`✅ BV matching processing completed for ${level} upline levels`);
-      
-    } catch (error) {
-      console.error(`❌ Error processing BV matching for upline:`, error);
-    }
+    return { distributed: true, bvAmount: activationBV, levels };
   }
 }
@@ -0,0 +1,390 @@
+import { UserPlan, type UserPlanKind } from "../models/UserPlan.ts";
+import { Order } from "../models/Order.ts";
+import { Plan } from "../models/Plan.ts";
+import { User } from "../models/User.ts";
+import { CompensationPlanEngine, type CompensationPlanConfig } from "./compensationPlanEngine.ts";
+import { EmailService } from "./emailService.ts";
+import { sequelize } from "../utils/db.ts";
+import { toPaise, fromPaise } from "../utils/money.ts";
+import { Op, Transaction } from "sequelize";
+
+/**
+ * The plan a member holds and the price it counts for in an upgrade
+ */
+export interface HeldPlan {
+  planId: number;
+  planPrice: number;
+  expiresAt: Date | null;
+  userPlan: UserPlan | null;   // null for members activated before plan history
+}
+
+/**
+ * What buying a plan costs a member right now
+ */
+export interface PlanQuote {
+  kind: UserPlanKind;
+  plan: Plan;
+  fromPlan: Plan | null;
+  price: number;       // List price of the plan
+  amount: number;      // What the member pays (the difference, for upgrades)
+  currency: string;
+  bv: number;          // BV the purchase sends up the tree
+  expiresAt: Date | null;  // When the plan would expire if bought now
+}
+
+/**
+ * What a plan history step records about the plan it replaces
+ */
+interface PlanStep {
+  kind: UserPlanKind;
+  previousPlanId: number | null;
+  bvDistributed: number;
+  expiresAt: Date | null;
+}
+
+export class UserPlanService {
+  /**
+   * The plan a member holds: their active plan history row, or for members
+   * activated before plan history existed, their latest activated order
+   */
+  static async getHeldPlan(userId: number, transaction?: Transaction): Promise<HeldPlan | null> {
+    const userPlan = await UserPlan.findOne({
+      where: { userId, status: "active" },
+      order: [["effectiveFrom", "DESC"], ["id", "DESC"]],
+      transaction
+    });
+    if (userPlan) {
+      return { planId: userPlan.planId, planPrice: Number(userPlan.planPrice), expiresAt: userPlan.expiresAt ?? null, userPlan };
+    }
+
+    const order = await Order.findOne({
+      where: { userId, status: "activated" },
+      include: [{ model: Plan, as: "plan", attributes: ["id", "price"] }],
+      order: [["activatedAt", "DESC"]],
+      transaction
+    });
+    const plan = order ? (order as any).plan as Plan | null : null;
+    return plan ? { planId: plan.id, planPrice: Number(plan.price), expiresAt: null, userPlan: null } : null;
+  }
+
+  /**
+   * Price a plan for a member. A member without a plan pays full price; a
+   * member with one can only move up, and pays the difference between the
+   * two list prices, or renew the plan they hold if it has a validity
+   * period, at full price.
+   */
+  static async quote(userId: number, planId: number, transaction?: Transaction): Promise<PlanQuote> {
+    const plan = await Plan.findByPk(planId, { transaction });
+    if (!plan) {
+      throw new Error("Plan not found");
+    }
+
+    const config = await CompensationPlanEngine.getConfig(transaction);
+    const price = Number(plan.price);
+    const bv = CompensationPlanEngine.getBVForPlan(plan.id, config);
+    const currency = plan.currency || "INR";
+    const now = new Date();
+
+    const held = await this.getHeldPlan(userId, transaction);
+    if (!held) {
+      return { kind: "purchase", plan, fromPlan: null, price, amount: price, currency, bv, expiresAt: plan.getExpiryFrom(now) };
+    }
+
+    const fromPlan = await Plan.findByPk(held.planId, { transaction });
+    if (held.planId === plan.id) {
+      if (!plan.validityPeriod) {
+        throw new Error(`You already hold the ${plan.name} plan`);
+      }
+      return {
+        kind: "renewal",
+        plan,
+        fromPlan,
+        price,
+        amount: price,
+        currency,
+        bv: 0,
+        expiresAt: plan.getExpiryFrom(this.renewalStart(held.expiresAt, now))
+      };
+    }
+    if (toPaise(price) <= toPaise(held.planPrice)) {
+      throw new Error(`${plan.name} is not an upgrade from your ${fromPlan?.name || "current"} plan; only higher plans can be bought`);
+    }
+
+    return {
+      kind: "upgrade",
+      plan,
+      fromPlan,
+      price,
+      amount: fromPaise(toPaise(price) - toPaise(held.planPrice)),
+      currency,
+      bv: Math.max(0, bv - CompensationPlanEngine.getBVForPlan(held.planId, config)),
+      expiresAt: plan.getExpiryFrom(now)
+    };
+  }
+
+  /**
+   * Add an activated order to the member's plan history. A member who
+   * already holds a plan is upgraded, or renewed if the order is for the
+   * same plan: the old row is superseded and the new one takes effect as
+   * the compensation plan's upgrade policy says (renewals at once). The
+   * order's kind is settled here, against what the member holds now.
+   */
+  static async recordActivation(order: Order, at: Date, transaction: Transaction): Promise<UserPlan> {
+    const existing = await UserPlan.findOne({ where: { orderId: order.id }, transaction });
+    if (existing) return existing;
+
+    await this.ensureHistory(order.userId, order.id, transaction);
+
+    const previous = await UserPlan.findOne({
+      where: { userId: order.userId, status: "active" },
+      order: [["effectiveFrom", "DESC"], ["id", "DESC"]],
+      lock: transaction.LOCK.UPDATE,
+      transaction
+    });
+
+    const plan = await Plan.findByPk(order.planId, { transaction });
+    const config = await CompensationPlanEngine.getConfig(transaction);
+    const step = this.nextStep(previous, order, plan, at, config);
+
+    const effectiveFrom = step.kind === "upgrade" && config.upgradeEffective === "next_day"
+      ? new Date(CompensationPlanEngine.startOfDay(at).getTime() + 24 * 60 * 60 * 1000)
+      : at;
+
+    if (previous) {
+      await previous.update({ status: "superseded", endedAt: effectiveFrom }, { transaction });
+    }
+    await order.update({ kind: step.kind, fromPlanId: step.previousPlanId }, { transaction });
+
+    return UserPlan.create({
+      userId: order.userId,
+      planId: order.planId,
+      orderId: order.id,
+      ...step,
+      planPrice: Number(plan?.price ?? order.amount),
+      amountPaid: Number(order.amount),
+      effectiveFrom
+    }, { transaction });
+  }
+
+  /**
+   * Take a refunded order out of the plan history. Refunding an upgrade or
+   * renewal puts the member back on the row it replaced; a plan that has
+   * since been upgraded or renewed can't be refunded until that order is.
+   */
+  static async revertForRefund(order: Order, transaction: Transaction): Promise<UserPlan | null> {
+    const userPlan = await UserPlan.findOne({
+      where: { orderId: order.id },
+      lock: transaction.LOCK.UPDATE,
+      transaction
+    });
+    if (!userPlan || userPlan.status === "refunded") return null;
+
+    if (userPlan.status === "superseded") {
+      const next = await UserPlan.findOne({
+        where: { userId: order.userId, previousPlanId: userPlan.planId, status: { [Op.ne]: "refunded" } },
+        order: [["effectiveFrom", "DESC"]],
+        transaction
+      });
+      const step = next?.kind === "renewal" ? "renewal" : "upgrade";
+      throw new Error(`Order #${order.id} has been ${step === "renewal" ? "renewed" : "upgraded"}${next ? ` by order #${next.orderId}` : ""}; only activated orders without a later upgrade or renewal can be refunded, so refund the ${step} first`);
+    }
+
+    await userPlan.update({ status: "refunded", endedAt: new Date() }, { transaction });
+
+    if (userPlan.kind !== "purchase" && userPlan.previousPlanId) {
+      const previous = await UserPlan.findOne({
+        where: { userId: order.userId, planId: userPlan.previousPlanId, status: "superseded" },
+        order: [["effectiveFrom", "DESC"], ["id", "DESC"]],
+        transaction
+      });
+      if (previous) {
+        await previous.update({ status: "active", endedAt: null }, { transaction });
+      }
+    }
+
+    return userPlan;
+  }
+
+  /**
+   * Email members whose plan is about to expire, once per reminder day in
+   * the compensation plan, and once more when it has expired. A reminder
+   * day that was missed (the job didn't run) is folded into the next one.
+   */
+  static async sendRenewalReminders(now: Date = new Date()): Promise<{ sent: number; failed: number }> {
+    const config = await CompensationPlanEngine.getConfig();
+    const dayMs = 24 * 60 * 60 * 1000;
+    const horizon = new Date(now.getTime() + Math.max(0, ...config.renewalReminderDays) * dayMs);
+
+    const userPlans = await UserPlan.findAll({
+      where: { status: "active", expiresAt: { [Op.ne]: null, [Op.lte]: horizon } },
+      include: [
+        { model: User, as: "user", attributes: ["id", "name", "email"] },
+        { model: Plan, as: "plan", attributes: ["id", "name"] }
+      ],
+      order: [["expiresAt", "ASC"]]
+    });
+
+    let sent = 0;
+    let failed = 0;
+    for (const userPlan of userPlans) {
+      const expiresAt = userPlan.expiresAt!;
+      const daysLeft = Math.max(0, Math.ceil((expiresAt.getTime() - now.getTime()) / dayMs));
+      const remindersSent = userPlan.remindersSent || [];
+
+      // The reminder day the member is on; 0 is the expiry notice
+      const due = daysLeft === 0 ? 0 : Math.min(...config.renewalReminderDays.filter(days => daysLeft <= days));
+      if (remindersSent.includes(due)) continue;
+
+      const user = (userPlan as any).user as User | null;
+      const plan = (userPlan as any).plan as Plan | null;
+      if (!user?.email) continue;
+
+      try {
+        await EmailService.sendPlanExpiryReminder(user.email, user.name, plan?.name || "current", expiresAt, daysLeft);
+        await userPlan.update({
+          remindersSent: [...new Set([...remindersSent, due, ...config.renewalReminderDays.filter(days => days > due)])]
+        });
+        sent++;
+      } catch (error) {
+        console.error(`❌ Renewal reminder for user plan #${userPlan.id} failed:`, error);
+        failed++;
+      }
+    }
+
+    return { sent, failed };
+  }
+
+  /**
+   * A member's plan history, newest first
+   */
+  static async getHistory(userId: number): Promise<UserPlan[]> {
+    return UserPlan.findAll({
+      where: { userId },
+      include: [
+        { model: Plan, as: "plan", attributes: ["id", "name", "price", "currency", "description", "bvValue"] },
+        { model: Plan, as: "previousPlan", attributes: ["id", "name", "price", "currency"] },
+        { model: Order, as: "order", attributes: ["id", "kind", "amount", "currency", "status", "activatedAt", "refundedAt"] }
+      ],
+      order: [["effectiveFrom", "DESC"], ["id", "DESC"]]
+    });
+  }
+
+  /**
+   * Build plan history from orders activated before it existed, oldest
+   * first. Safe to run again.
+   */
+  static async backfill(): Promise<{ users: number; userPlans: number }> {
+    const orders = await Order.findAll({
+      where: { status: { [Op.in]: ["activated", "refunded"] } },
+      attributes: ["userId"],
+      group: ["userId"],
+      raw: true
+    });
+
+    const before = await UserPlan.count();
+    for (const { userId } of orders) {
+      await sequelize.transaction(async (t) => {
+        await this.ensureHistory(userId, null, t);
+      });
+    }
+
+    return { users: orders.length, userPlans: (await UserPlan.count()) - before };
+  }
+
+  /**
+   * Give a member with activated orders but no plan history their history,
+   * so an upgrade is recognised as one. `exceptOrderId` is the order being
+   * activated right now.
+   */
+  private static async ensureHistory(userId: number, exceptOrderId: number | null, transaction: Transaction): Promise<void> {
+    const recorded = await UserPlan.count({ where: { userId }, transaction });
+    if (recorded > 0) return;
+
+    const orders = await Order.findAll({
+      where: {
+        userId,
+        status: { [Op.in]: ["activated", "refunded"] },
+        ...(exceptOrderId ? { id: { [Op.ne]: exceptOrderId } } : {})
+      },
+      order: [["activatedAt", "ASC"], ["id", "ASC"]],
+      transaction
+    });
+
+    const config = await CompensationPlanEngine.getConfig(transaction);
+    let previous: UserPlan | null = null;
+    for (const order of orders) {
+      const plan = await Plan.findByPk(order.planId, { transaction });
+      const at = order.activatedAt || order.createdAt;
+      const refunded = order.status === "refunded";
+
+      const userPlan: UserPlan = await UserPlan.create({
+        userId,
+        planId: order.planId,
+        orderId: order.id,
+        ...this.nextStep(previous, order, plan, at, config),
+        status: refunded ? "refunded" : "active",
+        planPrice: Number(plan?.price ?? order.amount),
+        amountPaid: Number(order.amount),
+        effectiveFrom: at,
+        endedAt: refunded ? order.refundedAt : null
+      }, { transaction });
+
+      if (refunded) continue;
+      if (previous) {
+        await previous.update({ status: "superseded", endedAt: at }, { transaction });
+      }
+      previous = userPlan;
+    }
+  }
+
+  /**
+   * How an order activated at `at` follows the row the member holds: a
+   * first purchase, a renewal of the same plan (its validity runs on from
+   * the current expiry) or an upgrade that sends up the BV difference.
+   * A coupon discount scales the BV when the compensation plan says so.
+   */
+  private static nextStep(
+    previous: UserPlan | null,
+    order: Order,
+    plan: Plan | null,
+    at: Date,
+    config: CompensationPlanConfig
+  ): PlanStep {
+    const planId = order.planId;
+    const bv = CompensationPlanEngine.getBVForPlan(planId, config);
+    if (!previous) {
+      return {
+        kind: "purchase",
+        previousPlanId: null,
+        bvDistributed: CompensationPlanEngine.getOrderBV(bv, order, config),
+        expiresAt: plan?.getExpiryFrom(at) ?? null
+      };
+    }
+    if (previous.planId === planId) {
+      return {
+        kind: "renewal",
+        previousPlanId: previous.planId,
+        bvDistributed: 0,
+        expiresAt: plan?.getExpiryFrom(this.renewalStart(previous.expiresAt ?? null, at)) ?? null
+      };
+    }
+    return {
+      kind: "upgrade",
+      previousPlanId: previous.planId,
+      bvDistributed: CompensationPlanEngine.getOrderBV(
+        Math.max(0, bv - CompensationPlanEngine.getBVForPlan(previous.planId, config)),
+        order,
+        config
+      ),
+      expiresAt: plan?.getExpiryFrom(at) ?? null
+    };
+  }
+
+  /**
+   * A renewal extends the current validity; once it has run out, the new
+   * period starts from the renewal
+   */
+  private static renewalStart(expiresAt: Date | null, at: Date): Date {
+    return expiresAt && expiresAt > at ? expiresAt : at;
+  }
+}
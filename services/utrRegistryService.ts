@@ -0,0 +1,116 @@
+import { UtrRegistry, type UtrSourceType } from "../models/UtrRegistry.ts";
+import { Payment } from "../models/Payment.ts";
+import { CompetitionParticipation, ParticipationStatus } from "../models/CompetitionParticipation.ts";
+import { Transaction, UniqueConstraintError } from "sequelize";
+
+export class UtrRegistryService {
+  /**
+   * Canonical form of a UTR: banks and payers mix case and pad with spaces
+   */
+  static normalize(utr: string): string {
+    return String(utr || "").replace(/\s+/g, "").toUpperCase();
+  }
+
+  /**
+   * Whether a normalized UTR looks like a bank or UPI reference
+   */
+  static isValid(utr: string): boolean {
+    return /^[A-Z0-9]{6,50}$/.test(utr);
+  }
+
+  /**
+   * The submission currently holding a UTR, if any
+   */
+  static async find(utr: string, transaction?: Transaction): Promise<UtrRegistry | null> {
+    return UtrRegistry.findOne({ where: { utr: this.normalize(utr) }, transaction });
+  }
+
+  /**
+   * Claim a UTR for a payment or participation. Throws if any other
+   * submission holds it; claiming again for the same source is a no-op.
+   */
+  static async claim(
+    utr: string,
+    source: { type: UtrSourceType; id: number; userId: number; amount: number },
+    transaction?: Transaction
+  ): Promise<UtrRegistry> {
+    const normalized = this.normalize(utr);
+
+    const existing = await UtrRegistry.findOne({ where: { utr: normalized }, transaction });
+    if (existing) {
+      if (existing.sourceType === source.type && existing.sourceId === source.id) {
+        return existing;
+      }
+      throw new Error(this.duplicateMessage(normalized));
+    }
+
+    try {
+      return await UtrRegistry.create({
+        utr: normalized,
+        sourceType: source.type,
+        sourceId: source.id,
+        userId: source.userId,
+        amount: source.amount
+      }, { transaction });
+    } catch (error) {
+      // A concurrent submission claimed it between the check and the insert
+      if (error instanceof UniqueConstraintError) {
+        throw new Error(this.duplicateMessage(normalized));
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Error shown to a member who submits a UTR that is already in use
+   */
+  static duplicateMessage(utr: string): string {
+    return `UTR ${this.normalize(utr)} has already been used for another payment`;
+  }
+
+  /**
+   * Free the UTR held by a rejected submission so it can be submitted again
+   */
+  static async release(type: UtrSourceType, id: number, transaction?: Transaction): Promise<void> {
+    await UtrRegistry.destroy({ where: { sourceType: type, sourceId: id }, transaction });
+  }
+
+  /**
+   * Register UTRs already stored on payments and participations. The
+   * earliest submission keeps a shared UTR; the rest are reported.
+   */
+  static async backfill(): Promise<{ registered: number; duplicates: Array<{ utr: string; type: UtrSourceType; id: number }> }> {
+    const duplicates: Array<{ utr: string; type: UtrSourceType; id: number }> = [];
+    let registered = 0;
+
+    const payments = await Payment.unscoped().findAll({
+      where: { status: ["pending", "verified", "approved"] },
+      order: [["createdAt", "ASC"]]
+    });
+    const participations = await CompetitionParticipation.findAll({
+      order: [["createdAt", "ASC"]]
+    });
+
+    const sources = [
+      ...payments.map(p => ({ type: "payment" as const, id: p.id, userId: p.userId, amount: Number(p.amount), utr: p.utrNumber, createdAt: p.createdAt })),
+      ...participations
+        .filter(p => p.utrNumber && p.status !== ParticipationStatus.REJECTED && p.status !== ParticipationStatus.CANCELLED)
+        .map(p => ({ type: "participation" as const, id: p.id, userId: p.userId, amount: Number(p.paymentAmount), utr: p.utrNumber!, createdAt: p.createdAt }))
+    ].sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+
+    for (const source of sources) {
+      const holder = await this.find(source.utr);
+      if (holder) {
+        if (holder.sourceType !== source.type || holder.sourceId !== source.id) {
+          duplicates.push({ utr: this.normalize(source.utr), type: source.type, id: source.id });
+        }
+        continue;
+      }
+
+      await this.claim(source.utr, source);
+      registered++;
+    }
+
+    return { registered, duplicates };
+  }
+}
@@ -0,0 +1,280 @@
+import { User } from "../models/User.ts";
+import { Wallet } from "../models/Wallet.ts";
+import { WalletTransaction } from "../models/WalletTransaction.ts";
+import { Withdrawal } from "../models/Withdrawal.ts";
+import { WalletReconciliation } from "../models/WalletReconciliation.ts";
+import { LedgerService } from "./ledgerService.ts";
+import { sequelize } from "../utils/db.ts";
+import { toPaise, fromPaise } from "../utils/money.ts";
+import { Transaction, Op } from "sequelize";
+
+export interface ExpectedBalance {
+  userId: number;
+  expectedBalance: number;
+  walletBalance: number;
+  userBalance: number;
+  ledgerBalance: number;
+  walletDrift: number;
+  userDrift: number;
+  breakdown: {
+    transactionCredits: number;
+    transactionDebits: number;
+    untrackedWithdrawals: number;
+    untrackedWithdrawalIds: number[];
+    untrackedMatchIncome: number;
+    bvMatchTransactions: number;
+    totalMatched: number;
+  };
+}
+
+export interface ReconciliationRunSummary {
+  usersChecked: number;
+  usersWithDrift: number;
+  totalWalletDrift: number;
+  totalUserDrift: number;
+  reconciliations: WalletReconciliation[];
+}
+
+export class WalletReconciliationService {
+  // Withdrawals that have left (or are committed to leave) the wallet
+  private static readonly SETTLED_WITHDRAWAL_STATUSES = ['approved', 'processing', 'completed'];
+
+  /**
+   * Recompute a user's balance from history:
+   *   wallet transaction credits
+   * + BV matching income that was only ever booked on User.totalIncome
+   * - wallet transaction debits
+   * - settled withdrawals that never produced a wallet transaction
+   */
+  static async computeExpectedBalance(userId: number, transaction?: Transaction): Promise<ExpectedBalance> {
+    const user = await User.findByPk(userId, {
+      attributes: ['id', 'totalIncome', 'totalWithdrawals', 'totalMatched'],
+      transaction
+    });
+    if (!user) {
+      throw new Error(`User ${userId} not found`);
+    }
+
+    const wallet = await Wallet.findOne({ where: { userId }, transaction });
+    // Pending, cancelled and failed rows record withdrawal holds; they don't
+    // move the balance but do mark the withdrawal as tracked
+    const transactions = await WalletTransaction.findAll({
+      where: { userId },
+      attributes: ['id', 'type', 'direction', 'amount', 'status', 'metadata'],
+      transaction
+    });
+
+    let creditPaise = 0;
+    let debitPaise = 0;
+    let bvMatchTransactions = 0;
+    const trackedWithdrawalIds = new Set<number>();
+
+    for (const tx of transactions) {
+      if (tx.type === 'withdrawal' && tx.metadata?.withdrawalId) {
+        trackedWithdrawalIds.add(Number(tx.metadata.withdrawalId));
+      }
+      if (tx.status !== 'completed') continue;
+
+      const amountPaise = toPaise(tx.amount);
+      if (tx.direction === 'debit') debitPaise += amountPaise;
+      else creditPaise += amountPaise;
+
+      if (tx.type === 'bv_match') bvMatchTransactions++;
+    }
+
+    // Withdrawals approved before the ledger only bumped User.totalWithdrawals
+    const settledWithdrawals = await Withdrawal.findAll({
+      where: { userId, status: { [Op.in]: this.SETTLED_WITHDRAWAL_STATUSES } },
+      attributes: ['id', 'amount'],
+      transaction
+    });
+    const untracked = settledWithdrawals.filter(w => !trackedWithdrawalIds.has(w.id));
+    const untrackedWithdrawalPaise = untracked.reduce((sum, w) => sum + toPaise(w.amount), 0);
+
+    // Matches recorded on the user without a bv_match transaction were credited
+    // to User.totalIncome only; the part of totalIncome not explained by
+    // wallet credits is that income.
+    const totalMatched = Number(user.totalMatched) || 0;
+    const untrackedMatchPaise = totalMatched > bvMatchTransactions
+      ? Math.max(0, toPaise(user.totalIncome) - creditPaise)
+      : 0;
+
+    const expectedPaise = creditPaise + untrackedMatchPaise - debitPaise - untrackedWithdrawalPaise;
+    const walletPaise = toPaise(wallet?.balance);
+    const userPaise = toPaise(user.totalIncome) - toPaise(user.totalWithdrawals);
+    const ledgerBalance = await LedgerService.getUserLedgerBalance(userId, transaction);
+
+    return {
+      userId,
+      expectedBalance: fromPaise(expectedPaise),
+      walletBalance: fromPaise(walletPaise),
+      userBalance: fromPaise(userPaise),
+      ledgerBalance,
+      walletDrift: fromPaise(expectedPaise - walletPaise),
+      userDrift: fromPaise(expectedPaise - userPaise),
+      breakdown: {
+        transactionCredits: fromPaise(creditPaise),
+        transactionDebits: fromPaise(debitPaise),
+        untrackedWithdrawals: fromPaise(untrackedWithdrawalPaise),
+        untrackedWithdrawalIds: untracked.map(w => w.id),
+        untrackedMatchIncome: fromPaise(untrackedMatchPaise),
+        bvMatchTransactions,
+        totalMatched
+      }
+    };
+  }
+
+  /**
+   * Check every user with a wallet or recorded income and open a
+   * reconciliation for each one that drifts. A previous open reconciliation
+   * for the same user is replaced by the fresh result.
+   */
+  static async runReconciliation(): Promise<ReconciliationRunSummary> {
+    const walletUserIds = (await Wallet.findAll({ attributes: ['userId'], raw: true })).map(w => Number(w.userId));
+    const incomeUserIds = (await User.findAll({
+      where: {
+        [Op.or]: [
+          { totalIncome: { [Op.gt]: 0 } },
+          { totalWithdrawals: { [Op.gt]: 0 } }
+        ]
+      },
+      attributes: ['id'],
+      raw: true
+    })).map(u => Number(u.id));
+
+    const userIds = [...new Set([...walletUserIds, ...incomeUserIds])].sort((a, b) => a - b);
+
+    const reconciliations: WalletReconciliation[] = [];
+    let walletDriftPaise = 0;
+    let userDriftPaise = 0;
+
+    for (const userId of userIds) {
+      const result = await this.computeExpectedBalance(userId);
+      const hasDrift = toPaise(result.walletDrift) !== 0 || toPaise(result.userDrift) !== 0;
+
+      await sequelize.transaction(async (t) => {
+        await WalletReconciliation.destroy({ where: { userId, status: 'open' }, transaction: t });
+
+        if (hasDrift) {
+          reconciliations.push(await WalletReconciliation.create({
+            userId,
+            expectedBalance: result.expectedBalance,
+            walletBalance: result.walletBalance,
+            userBalance: result.userBalance,
+            ledgerBalance: result.ledgerBalance,
+            walletDrift: result.walletDrift,
+            userDrift: result.userDrift,
+            breakdown: result.breakdown
+          }, { transaction: t }));
+        }
+      });
+
+      if (hasDrift) {
+        walletDriftPaise += Math.abs(toPaise(result.walletDrift));
+        userDriftPaise += Math.abs(toPaise(result.userDrift));
+      }
+    }
+
+    console.log(`🧮 Wallet reconciliation: ${reconciliations.length}/${userIds.length} users drifting`);
+
+    return {
+      usersChecked: userIds.length,
+      usersWithDrift: reconciliations.length,
+      totalWalletDrift: fromPaise(walletDriftPaise),
+      totalUserDrift: fromPaise(userDriftPaise),
+      reconciliations
+    };
+  }
+
+  /**
+   * Apply an open reconciliation: post an adjustment through the ledger that
+   * moves the wallet to the expected balance (never below zero). The User
+   * income columns follow the wallet projection.
+   */
+  static async applyReconciliation(id: number, adminId: number, notes?: string | null): Promise<WalletReconciliation> {
+    return sequelize.transaction(async (t) => {
+      const reconciliation = await WalletReconciliation.findByPk(id, {
+        lock: t.LOCK.UPDATE,
+        transaction: t
+      });
+      if (!reconciliation) {
+        throw new Error("Reconciliation not found");
+      }
+      if (reconciliation.status !== 'open') {
+        throw new Error(`Reconciliation is already ${reconciliation.status}`);
+      }
+
+      // Recompute inside the transaction so we adjust against current balances
+      const current = await this.computeExpectedBalance(reconciliation.userId, t);
+      const targetPaise = Math.max(0, toPaise(current.expectedBalance));
+      const adjustmentPaise = targetPaise - toPaise(current.walletBalance);
+
+      const input = {
+        type: 'adjustment' as const,
+        reference: `RECON_ADJUSTMENT_${reconciliation.id}`,
+        description: `Wallet reconciliation adjustment #${reconciliation.id}`,
+        metadata: {
+          reconciliationId: reconciliation.id,
+          expectedBalance: current.expectedBalance,
+          walletBalanceBefore: current.walletBalance,
+          userBalanceBefore: current.userBalance,
+          breakdown: current.breakdown,
+          notes: notes || null
+        },
+        postedBy: adminId
+      };
+
+      let walletTransaction: WalletTransaction | null = null;
+      if (adjustmentPaise > 0) {
+        walletTransaction = await LedgerService.creditUserWallet(reconciliation.userId, fromPaise(adjustmentPaise), input, t);
+      } else if (adjustmentPaise < 0) {
+        walletTransaction = await LedgerService.debitUserWallet(reconciliation.userId, fromPaise(-adjustmentPaise), {
+          ...input,
+          destinations: [{ account: 'RECONCILIATION_ADJUSTMENT', amount: fromPaise(-adjustmentPaise) }]
+        }, t);
+      }
+
+      // Legacy users may still have income columns that don't mirror the wallet
+      const wallet = await Wallet.findOne({ where: { userId: reconciliation.userId }, transaction: t });
+      if (wallet) {
+        await User.update({
+          totalIncome: Number(wallet.totalEarned),
+          totalWithdrawals: Number(wallet.totalWithdrawn)
+        }, { where: { id: reconciliation.userId }, transaction: t });
+      }
+
+      await reconciliation.update({
+        status: 'applied',
+        notes: notes || reconciliation.notes,
+        reviewedBy: adminId,
+        reviewedAt: new Date(),
+        walletTransactionId: walletTransaction?.id ?? null
+      }, { transaction: t });
+
+      console.log(`✅ Applied reconciliation ${reconciliation.id} for user ${reconciliation.userId}: adjustment ₹${fromPaise(adjustmentPaise)}`);
+      return reconciliation;
+    });
+  }
+
+  /**
+   * Close an open reconciliation without touching balances
+   */
+  static async ignoreReconciliation(id: number, adminId: number, notes?: string | null): Promise<WalletReconciliation> {
+    const reconciliation = await WalletReconciliation.findByPk(id);
+    if (!reconciliation) {
+      throw new Error("Reconciliation not found");
+    }
+    if (reconciliation.status !== 'open') {
+      throw new Error(`Reconciliation is already ${reconciliation.status}`);
+    }
+
+    await reconciliation.update({
+      status: 'ignored',
+      notes: notes || reconciliation.notes,
+      reviewedBy: adminId,
+      reviewedAt: new Date()
+    });
+
+    return reconciliation;
+  }
+}
@@ -0,0 +1,352 @@
+import { Withdrawal } from "../models/Withdrawal.ts";
+import { Wallet } from "../models/Wallet.ts";
+import { Kyc } from "../models/Kyc.ts";
+import type { PayoutDestination } from "../models/PayoutDestination.ts";
+import { AdminConfig } from "../models/AdminConfig.ts";
+import { toPaise, fromPaise } from "../utils/money.ts";
+import { Op, Transaction } from "sequelize";
+
+export interface WithdrawalRules {
+  minAmount: number;                     // Per request
+  maxAmount: number;                     // Per request
+  dailyLimit: number | null;             // Requested per calendar day; null for no cap
+  weeklyLimit: number | null;            // Per week, from Monday
+  monthlyLimit: number | null;           // Per calendar month
+  allowedWeekdays: number[];             // Days requests are taken on, 0 = Sunday
+  kycCoolingHours: number;               // Wait after KYC approval
+  bankChangeCoolingHours: number;        // Wait after the bank details change
+  feeType: WithdrawalFeeType;
+  feeValue: number;                      // Rupees when flat, percent otherwise
+  maxFee: number | null;                 // Cap on a percentage fee
+  minBalance: number;                    // Wallet balance that must stay after the request
+}
+
+export const WITHDRAWAL_FEE_TYPES = ["flat", "percentage"] as const;
+
+export type WithdrawalFeeType = (typeof WITHDRAWAL_FEE_TYPES)[number];
+
+/**
+ * Why a withdrawal request was refused
+ */
+export const WITHDRAWAL_RULE_CODES = [
+  "OPEN_REQUEST_EXISTS",
+  "INSUFFICIENT_BALANCE",
+  "AMOUNT_BELOW_MINIMUM",
+  "AMOUNT_ABOVE_MAXIMUM",
+  "DAILY_LIMIT_EXCEEDED",
+  "WEEKLY_LIMIT_EXCEEDED",
+  "MONTHLY_LIMIT_EXCEEDED",
+  "WEEKDAY_NOT_ALLOWED",
+  "KYC_COOLING_PERIOD",
+  "BANK_CHANGE_COOLING_PERIOD",
+  "MIN_BALANCE_REQUIRED",
+  "NET_AMOUNT_NOT_POSITIVE"
+] as const;
+
+export type WithdrawalRuleCode = (typeof WITHDRAWAL_RULE_CODES)[number];
+
+export interface WithdrawalRuleViolation {
+  code: WithdrawalRuleCode;
+  message: string;
+}
+
+/**
+ * A withdrawal request the rules refuse. `code` tells clients which rule.
+ */
+export class WithdrawalRuleError extends Error {
+  readonly code: WithdrawalRuleCode;
+
+  constructor(violation: WithdrawalRuleViolation) {
+    super(violation.message);
+    this.name = "WithdrawalRuleError";
+    this.code = violation.code;
+  }
+}
+
+export interface WithdrawalRuleContext {
+  wallet: Wallet;                           // Locked by the caller
+  destination?: PayoutDestination | null;   // UPI destination; the KYC bank account otherwise
+  at?: Date;
+}
+
+export const WITHDRAWAL_RULES_CONFIG_KEY = "withdrawal-rules";
+
+// The limits the Withdrawal model used to enforce; no caps, fee or waits
+export const DEFAULT_WITHDRAWAL_RULES: WithdrawalRules = {
+  minAmount: 100,
+  maxAmount: 100000,
+  dailyLimit: null,
+  weeklyLimit: null,
+  monthlyLimit: null,
+  allowedWeekdays: [0, 1, 2, 3, 4, 5, 6],
+  kycCoolingHours: 0,
+  bankChangeCoolingHours: 0,
+  feeType: "flat",
+  feeValue: 0,
+  maxFee: null,
+  minBalance: 0
+};
+
+const WEEKDAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+// Requests that count towards the caps: everything not refused or bounced
+const COUNTED_STATUSES = ["pending", "approved", "processing", "completed"];
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const formatRupees = (amount: number) => `₹${fromPaise(toPaise(amount)).toFixed(2)}`;
+
+export class WithdrawalRulesService {
+  /**
+   * Load the withdrawal rules, falling back to the defaults
+   */
+  static async getConfig(transaction?: Transaction): Promise<WithdrawalRules> {
+    const record = await AdminConfig.findOne({
+      where: { key: WITHDRAWAL_RULES_CONFIG_KEY },
+      transaction
+    });
+
+    if (!record || record.isActive === false) {
+      return { ...DEFAULT_WITHDRAWAL_RULES };
+    }
+
+    try {
+      return this.normalizeConfig(JSON.parse(record.value));
+    } catch (error) {
+      console.warn("Invalid withdrawal rules config, using defaults:", error);
+      return { ...DEFAULT_WITHDRAWAL_RULES };
+    }
+  }
+
+  /**
+   * Validate (partial) rules and merge them over the defaults
+   */
+  static normalizeConfig(input: Partial<WithdrawalRules>): WithdrawalRules {
+    const config: WithdrawalRules = { ...DEFAULT_WITHDRAWAL_RULES, ...input };
+
+    const amount = (name: string, value: unknown): number => {
+      const parsed = Number(value);
+      if (!Number.isFinite(parsed) || parsed < 0) {
+        throw new Error(`${name} must be an amount of 0 or more`);
+      }
+      return fromPaise(toPaise(parsed));
+    };
+    const optionalAmount = (name: string, value: unknown): number | null =>
+      value === null || value === undefined || value === "" ? null : amount(name, value);
+    const hours = (name: string, value: unknown): number => {
+      const parsed = Number(value);
+      if (!Number.isInteger(parsed) || parsed < 0) {
+        throw new Error(`${name} must be a whole number of hours`);
+      }
+      return parsed;
+    };
+
+    const minAmount = amount("minAmount", config.minAmount);
+    const maxAmount = amount("maxAmount", config.maxAmount);
+    if (minAmount <= 0) {
+      throw new Error("minAmount must be more than 0");
+    }
+    if (maxAmount < minAmount) {
+      throw new Error("maxAmount can't be lower than minAmount");
+    }
+
+    const dailyLimit = optionalAmount("dailyLimit", config.dailyLimit);
+    const weeklyLimit = optionalAmount("weeklyLimit", config.weeklyLimit);
+    const monthlyLimit = optionalAmount("monthlyLimit", config.monthlyLimit);
+
+    if (!Array.isArray(config.allowedWeekdays)) {
+      throw new Error("allowedWeekdays must be a list of days, 0 (Sunday) to 6 (Saturday)");
+    }
+    const allowedWeekdays = [...new Set(config.allowedWeekdays.map(Number))].sort((a, b) => a - b);
+    if (allowedWeekdays.length === 0 || allowedWeekdays.some(day => !Number.isInteger(day) || day < 0 || day > 6)) {
+      throw new Error("allowedWeekdays must be a list of days, 0 (Sunday) to 6 (Saturday)");
+    }
+
+    if (!WITHDRAWAL_FEE_TYPES.includes(config.feeType)) {
+      throw new Error(`feeType must be one of: ${WITHDRAWAL_FEE_TYPES.join(", ")}`);
+    }
+    const feeValue = amount("feeValue", config.feeValue);
+    if (config.feeType === "percentage" && feeValue > 100) {
+      throw new Error("A percentage feeValue must be between 0 and 100");
+    }
+
+    return {
+      minAmount,
+      maxAmount,
+      dailyLimit,
+      weeklyLimit,
+      monthlyLimit,
+      allowedWeekdays,
+      kycCoolingHours: hours("kycCoolingHours", config.kycCoolingHours),
+      bankChangeCoolingHours: hours("bankChangeCoolingHours", config.bankChangeCoolingHours),
+      feeType: config.feeType,
+      feeValue,
+      maxFee: optionalAmount("maxFee", config.maxFee),
+      minBalance: amount("minBalance", config.minBalance)
+    };
+  }
+
+  /**
+   * Processing fee on a withdrawal of `amount`
+   */
+  static feeFor(amount: number, rules: WithdrawalRules): number {
+    let feePaise = rules.feeType === "percentage"
+      ? Math.round((toPaise(amount) * rules.feeValue) / 100)
+      : toPaise(rules.feeValue);
+    if (rules.feeType === "percentage" && rules.maxFee !== null) {
+      feePaise = Math.min(feePaise, toPaise(rules.maxFee));
+    }
+    return fromPaise(feePaise);
+  }
+
+  /**
+   * Every rule a withdrawal of `amount` breaks, in the order members should
+   * fix them. Called with the member's wallet locked, so the caps count
+   * their other requests reliably.
+   */
+  static async evaluate(
+    userId: number,
+    amount: number,
+    context: WithdrawalRuleContext,
+    rules: WithdrawalRules,
+    transaction?: Transaction
+  ): Promise<WithdrawalRuleViolation[]> {
+    const at = context.at ?? new Date();
+    const violations: WithdrawalRuleViolation[] = [];
+    const amountPaise = toPaise(amount);
+
+    if (amountPaise < toPaise(rules.minAmount)) {
+      violations.push({ code: "AMOUNT_BELOW_MINIMUM", message: `Minimum withdrawal amount is ${formatRupees(rules.minAmount)}` });
+    }
+    if (amountPaise > toPaise(rules.maxAmount)) {
+      violations.push({ code: "AMOUNT_ABOVE_MAXIMUM", message: `Maximum withdrawal amount is ${formatRupees(rules.maxAmount)}` });
+    }
+
+    if (!rules.allowedWeekdays.includes(at.getDay())) {
+      violations.push({
+        code: "WEEKDAY_NOT_ALLOWED",
+        message: `Withdrawals can only be requested on ${rules.allowedWeekdays.map(day => WEEKDAY_NAMES[day]).join(", ")}`
+      });
+    }
+
+    const caps: Array<[WithdrawalRuleCode, string, number | null, Date]> = [
+      ["DAILY_LIMIT_EXCEEDED", "daily", rules.dailyLimit, this.startOfDay(at)],
+      ["WEEKLY_LIMIT_EXCEEDED", "weekly", rules.weeklyLimit, this.startOfWeek(at)],
+      ["MONTHLY_LIMIT_EXCEEDED", "monthly", rules.monthlyLimit, new Date(at.getFullYear(), at.getMonth(), 1)]
+    ];
+    for (const [code, period, limit, since] of caps) {
+      if (limit === null) continue;
+      const usedPaise = toPaise(await this.requestedSince(userId, since, transaction));
+      if (usedPaise + amountPaise > toPaise(limit)) {
+        violations.push({
+          code,
+          message: `This exceeds your ${period} withdrawal limit of ${formatRupees(limit)}; ${formatRupees(fromPaise(Math.max(toPaise(limit) - usedPaise, 0)))} is left`
+        });
+      }
+    }
+
+    if (rules.kycCoolingHours > 0 || rules.bankChangeCoolingHours > 0) {
+      const kyc = await Kyc.findOne({
+        where: { userId, status: "approved" },
+        order: [["createdAt", "DESC"]],
+        transaction
+      });
+      const approvedAt = kyc ? kyc.processedAt || kyc.updatedAt : null;
+
+      if (approvedAt && rules.kycCoolingHours > 0) {
+        const allowedFrom = new Date(approvedAt.getTime() + rules.kycCoolingHours * HOUR_MS);
+        if (at < allowedFrom) {
+          violations.push({
+            code: "KYC_COOLING_PERIOD",
+            message: `Withdrawals open ${rules.kycCoolingHours} hours after KYC approval, at ${allowedFrom.toISOString()}`
+          });
+        }
+      }
+
+      // A UPI destination counts from its verification, the bank account from KYC approval
+      const destination = context.destination;
+      let changedAt: Date | null = null;
+      if (rules.bankChangeCoolingHours > 0 && destination?.verifiedAt) {
+        changedAt = await this.payoutDetailsChangedAt(
+          userId,
+          destination.verifiedAt,
+          paidTo => String(paidTo.upiId || "").toLowerCase() === destination.vpa,
+          transaction
+        );
+      } else if (rules.bankChangeCoolingHours > 0 && !destination && kyc && approvedAt) {
+        changedAt = await this.payoutDetailsChangedAt(
+          userId,
+          approvedAt,
+          paidTo => String(paidTo.accountNumber || "").replace(/\s+/g, "") === kyc.accountNumber.replace(/\s+/g, "")
+            && String(paidTo.ifscCode || "").toUpperCase() === kyc.ifscCode.toUpperCase(),
+          transaction
+        );
+      }
+
+      const allowedFrom = changedAt ? new Date(changedAt.getTime() + rules.bankChangeCoolingHours * HOUR_MS) : null;
+      if (allowedFrom && at < allowedFrom) {
+        violations.push({
+          code: "BANK_CHANGE_COOLING_PERIOD",
+          message: `Your payout details changed recently; withdrawals to them open at ${allowedFrom.toISOString()}`
+        });
+      }
+    }
+
+    const leftPaise = toPaise(context.wallet.balance) - toPaise(context.wallet.heldBalance) - amountPaise;
+    if (toPaise(rules.minBalance) > 0 && leftPaise >= 0 && leftPaise < toPaise(rules.minBalance)) {
+      violations.push({
+        code: "MIN_BALANCE_REQUIRED",
+        message: `A balance of ${formatRupees(rules.minBalance)} must stay in your wallet; you can withdraw up to ${formatRupees(fromPaise(Math.max(amountPaise + leftPaise - toPaise(rules.minBalance), 0)))}`
+      });
+    }
+
+    return violations;
+  }
+
+  /**
+   * When the member's payout details changed, if that matters: the details
+   * were added (`since`) before the member's first payout, or after their
+   * last payout and that payout went somewhere else. Null otherwise.
+   */
+  private static async payoutDetailsChangedAt(
+    userId: number,
+    since: Date,
+    paysSameAs: (paidTo: Record<string, any>) => boolean,
+    transaction?: Transaction
+  ): Promise<Date | null> {
+    const lastPayout = await Withdrawal.findOne({
+      where: { userId, status: "completed" },
+      order: [["processedAt", "DESC"], ["id", "DESC"]],
+      transaction
+    });
+    // A first payout waits out the cooling period from when the details were added
+    if (!lastPayout) return since;
+    if (lastPayout.processedAt && lastPayout.processedAt > since) return null;
+
+    return paysSameAs(lastPayout.accountDetails || {}) ? null : since;
+  }
+
+  // Sum of the member's requests since `since` that still count
+  private static async requestedSince(userId: number, since: Date, transaction?: Transaction): Promise<number> {
+    const total = await Withdrawal.sum("amount", {
+      where: {
+        userId,
+        status: { [Op.in]: COUNTED_STATUSES },
+        createdAt: { [Op.gte]: since }
+      },
+      transaction
+    });
+    return Number(total || 0);
+  }
+
+  private static startOfDay(date: Date): Date {
+    return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  }
+
+  // Weeks start on Monday
+  private static startOfWeek(date: Date): Date {
+    const start = this.startOfDay(date);
+    start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+    return start;
+  }
+}
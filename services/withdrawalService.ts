@@ -0,0 +1,323 @@
+import { Withdrawal, OPEN_WITHDRAWAL_STATUSES, type WithdrawalMethod, type WithdrawalStatus } from "../models/Withdrawal.ts";
+import { Wallet } from "../models/Wallet.ts";
+import type { PayoutDestination } from "../models/PayoutDestination.ts";
+import { WalletTransaction, type TransactionStatus } from "../models/WalletTransaction.ts";
+import { JournalEntry } from "../models/JournalEntry.ts";
+import { LedgerService } from "./ledgerService.ts";
+import { TdsService, type TdsQuote } from "./tdsService.ts";
+import { PayoutDestinationService } from "./payoutDestinationService.ts";
+import {
+  WithdrawalRulesService,
+  WithdrawalRuleError,
+  type WithdrawalRuleViolation
+} from "./withdrawalRulesService.ts";
+import { sequelize } from "../utils/db.ts";
+import { toPaise, fromPaise } from "../utils/money.ts";
+import { Op, Transaction } from "sequelize";
+
+export interface WithdrawalRequestInput {
+  amount: number;
+  method: WithdrawalMethod;
+  accountDetails: Record<string, any>;
+  payoutDestinationId?: number | null;   // The member's verified UPI ID, for UPI methods
+}
+
+/**
+ * What a withdrawal of an amount would pay out, and the rules it breaks
+ */
+export interface WithdrawalPreview {
+  amount: number;
+  tds: TdsQuote;
+  feeAmount: number;
+  netAmount: number;                // After TDS and the fee
+  availableBalance: number;
+  violations: WithdrawalRuleViolation[];
+}
+
+export interface WithdrawalTransitionInput {
+  actorId?: number | null;
+  transactionId?: string | null;
+  adminNotes?: string | null;
+}
+
+// Status of the wallet transaction row each move records
+const TRANSITION_ROW_STATUS: Record<WithdrawalStatus, TransactionStatus> = {
+  pending: "pending",
+  approved: "pending",
+  processing: "pending",
+  completed: "completed",
+  rejected: "cancelled",
+  failed: "failed"
+};
+
+export class WithdrawalService {
+  /**
+   * Open a withdrawal and hold its amount in the member's wallet. The
+   * wallet row stays locked until the request is saved, so two requests
+   * can't both spend the same available balance or the same limit. TDS and
+   * the processing fee are fixed now. Throws a WithdrawalRuleError for the
+   * first rule the request breaks.
+   */
+  static async request(userId: number, input: WithdrawalRequestInput): Promise<Withdrawal> {
+    return sequelize.transaction(async transaction => {
+      const wallet = await LedgerService.lockWallet(userId, transaction);
+      const destination = input.payoutDestinationId
+        ? await PayoutDestinationService.payableDestination(userId, input.payoutDestinationId, transaction)
+        : null;
+      const preview = await this.check(userId, input.amount, wallet, destination, transaction);
+      if (preview.violations.length > 0) {
+        throw new WithdrawalRuleError(preview.violations[0]);
+      }
+
+      const amountPaise = toPaise(preview.amount);
+      const { tds } = preview;
+
+      const withdrawal = await Withdrawal.create({
+        userId,
+        amount: fromPaise(amountPaise),
+        method: input.method,
+        // The TDS figures are repeated here for clients that read them from accountDetails
+        accountDetails: {
+          ...input.accountDetails,
+          tdsPercentage: tds.rate,
+          tdsAmount: tds.tdsAmount,
+          processingFee: preview.feeAmount,
+          netAmount: preview.netAmount
+        },
+        status: "pending",
+        heldAmount: fromPaise(amountPaise),
+        tdsRate: tds.rate,
+        tdsAmount: tds.tdsAmount,
+        tdsPan: tds.pan,
+        feeAmount: preview.feeAmount,
+        payoutDestinationId: destination?.id ?? null
+      }, { transaction });
+
+      await wallet.update({ heldBalance: fromPaise(toPaise(wallet.heldBalance) + amountPaise) }, { transaction });
+      await this.recordTransition(withdrawal, wallet, "pending", { actorId: userId }, transaction);
+
+      return withdrawal;
+    });
+  }
+
+  /**
+   * What a withdrawal of `amount` would pay out now, and every rule it
+   * breaks, without requesting it
+   */
+  static async preview(userId: number, amount: number, payoutDestinationId?: number | null): Promise<WithdrawalPreview> {
+    return sequelize.transaction(async transaction => {
+      const wallet = await LedgerService.lockWallet(userId, transaction);
+      const destination = payoutDestinationId
+        ? await PayoutDestinationService.payableDestination(userId, payoutDestinationId, transaction)
+        : null;
+      return this.check(userId, amount, wallet, destination, transaction);
+    });
+  }
+
+  /**
+   * Move a withdrawal to its next status. Rejecting or failing releases
+   * the hold; completing releases it and debits the wallet through the
+   * ledger, with TDS credited to TDS payable. Every move is recorded as a
+   * wallet transaction.
+   */
+  static async transition(
+    withdrawalId: number,
+    to: WithdrawalStatus,
+    input: WithdrawalTransitionInput = {},
+    transaction?: Transaction
+  ): Promise<Withdrawal> {
+    if (!transaction) {
+      return sequelize.transaction(t => this.transition(withdrawalId, to, input, t));
+    }
+
+    const withdrawal = await Withdrawal.findByPk(withdrawalId, { lock: transaction.LOCK.UPDATE, transaction });
+    if (!withdrawal) {
+      throw new Error("Withdrawal request not found");
+    }
+    if (!withdrawal.canTransitionTo(to)) {
+      throw new Error(`Withdrawal #${withdrawal.id} is ${withdrawal.status}; it can't move to ${to}`);
+    }
+
+    const wallet = await LedgerService.lockWallet(withdrawal.userId, transaction);
+    const updates: Partial<Withdrawal> = {
+      status: to,
+      transactionId: input.transactionId || withdrawal.transactionId,
+      adminNotes: input.adminNotes || withdrawal.adminNotes
+    };
+
+    if (to === "rejected" || to === "failed") {
+      if (await this.wasDebited(withdrawal, transaction)) {
+        throw new Error(
+          `Withdrawal #${withdrawal.id} was already debited from the wallet; reverse it in the ledger instead`
+        );
+      }
+      await this.releaseHold(withdrawal, wallet, transaction);
+      updates.heldAmount = 0;
+      updates.processedAt = new Date();
+    } else if (to === "completed") {
+      await this.releaseHold(withdrawal, wallet, transaction);
+      updates.heldAmount = 0;
+      updates.processedAt = new Date();
+    }
+
+    await withdrawal.update(updates, { transaction });
+
+    if (to === "completed") {
+      // Withdrawals approved under the old flow already left the balance
+      if (!withdrawal.debitedBeforeLedger) {
+        await this.debit(withdrawal, input, transaction);
+      }
+      await TdsService.recordDeduction(withdrawal, transaction);
+    } else {
+      await this.recordTransition(withdrawal, wallet, to, input, transaction);
+    }
+
+    return withdrawal;
+  }
+
+  // Work out TDS and the fee on a request and list the rules it breaks
+  private static async check(
+    userId: number,
+    amount: number,
+    wallet: Wallet,
+    destination: PayoutDestination | null,
+    transaction: Transaction
+  ): Promise<WithdrawalPreview> {
+    const amountPaise = toPaise(amount);
+    const availablePaise = toPaise(wallet.balance) - toPaise(wallet.heldBalance);
+    const violations: WithdrawalRuleViolation[] = [];
+
+    const open = await Withdrawal.findOne({
+      where: { userId, status: { [Op.in]: [...OPEN_WITHDRAWAL_STATUSES] } },
+      transaction
+    });
+    if (open) {
+      violations.push({ code: "OPEN_REQUEST_EXISTS", message: "You already have a pending withdrawal request" });
+    }
+
+    const rules = await WithdrawalRulesService.getConfig(transaction);
+    violations.push(...await WithdrawalRulesService.evaluate(userId, fromPaise(amountPaise), { wallet, destination }, rules, transaction));
+
+    if (availablePaise < amountPaise) {
+      violations.push({
+        code: "INSUFFICIENT_BALANCE",
+        message: `Insufficient balance. Available: ₹${fromPaise(Math.max(availablePaise, 0)).toFixed(2)}`
+      });
+    }
+
+    const tds = await TdsService.quote(userId, fromPaise(amountPaise), transaction);
+    const feeAmount = WithdrawalRulesService.feeFor(fromPaise(amountPaise), rules);
+    const netPaise = amountPaise - toPaise(tds.tdsAmount) - toPaise(feeAmount);
+    if (netPaise <= 0) {
+      violations.push({
+        code: "NET_AMOUNT_NOT_POSITIVE",
+        message: `TDS and the processing fee take the whole amount; withdraw more than ₹${fromPaise(amountPaise).toFixed(2)}`
+      });
+    }
+
+    return {
+      amount: fromPaise(amountPaise),
+      tds,
+      feeAmount,
+      netAmount: fromPaise(netPaise),
+      availableBalance: fromPaise(Math.max(availablePaise, 0)),
+      violations
+    };
+  }
+
+  /**
+   * Post the payout: the net amount leaves through the bank, the TDS is
+   * owed to the government and the fee is income
+   */
+  private static async debit(withdrawal: Withdrawal, input: WithdrawalTransitionInput, transaction: Transaction) {
+    const amount = Number(withdrawal.amount);
+    const tdsAmount = Number(withdrawal.tdsAmount);
+    const feeAmount = Number(withdrawal.feeAmount);
+    const netAmount = fromPaise(toPaise(amount) - toPaise(tdsAmount) - toPaise(feeAmount));
+
+    return LedgerService.debitUserWallet(withdrawal.userId, amount, {
+      type: "withdrawal",
+      reference: `WITHDRAWAL_${withdrawal.id}`,
+      description: `Withdrawal #${withdrawal.id}: ${withdrawal.method} - ₹${withdrawal.amount}`,
+      destinations: [
+        { account: "COMPANY_BANK", amount: netAmount, memo: `Net payout for withdrawal #${withdrawal.id}` },
+        { account: "TDS_PAYABLE", amount: tdsAmount, memo: `TDS on withdrawal #${withdrawal.id}` },
+        { account: "WITHDRAWAL_FEE_REVENUE", amount: feeAmount, memo: `Processing fee on withdrawal #${withdrawal.id}` }
+      ],
+      metadata: {
+        withdrawalId: withdrawal.id,
+        transition: "completed",
+        withdrawalMethod: withdrawal.method,
+        withdrawalAmount: amount,
+        tdsPercentage: Number(withdrawal.tdsRate),
+        tdsAmount,
+        feeAmount,
+        netAmount,
+        transactionId: withdrawal.transactionId,
+        completedBy: input.actorId ?? null
+      },
+      postedBy: input.actorId ?? null
+    }, transaction);
+  }
+
+  private static async releaseHold(withdrawal: Withdrawal, wallet: Wallet, transaction: Transaction) {
+    const heldPaise = toPaise(withdrawal.heldAmount);
+    if (heldPaise <= 0) return;
+
+    const remainingPaise = Math.max(toPaise(wallet.heldBalance) - heldPaise, 0);
+    await wallet.update({ heldBalance: fromPaise(remainingPaise) }, { transaction });
+  }
+
+  // Whether the payout was already taken off the wallet
+  private static async wasDebited(withdrawal: Withdrawal, transaction: Transaction): Promise<boolean> {
+    if (withdrawal.debitedBeforeLedger) return true;
+    const entry = await JournalEntry.findOne({
+      where: { reference: `WITHDRAWAL_${withdrawal.id}` },
+      attributes: ["id"],
+      transaction
+    });
+    return entry !== null;
+  }
+
+  /**
+   * A wallet transaction row for a move that doesn't change the balance:
+   * placing, keeping or releasing a hold
+   */
+  private static async recordTransition(
+    withdrawal: Withdrawal,
+    wallet: Wallet,
+    to: WithdrawalStatus,
+    input: WithdrawalTransitionInput,
+    transaction: Transaction
+  ): Promise<WalletTransaction> {
+    const descriptions: Record<WithdrawalStatus, string> = {
+      pending: "requested; amount held",
+      approved: "approved",
+      processing: "sent for payout",
+      completed: "completed",
+      rejected: "rejected; hold released",
+      failed: "payout failed; hold released"
+    };
+
+    return WalletTransaction.create({
+      userId: withdrawal.userId,
+      type: "withdrawal",
+      direction: "debit",
+      amount: Number(withdrawal.amount),
+      balanceBefore: Number(wallet.balance),
+      balanceAfter: Number(wallet.balance),
+      status: TRANSITION_ROW_STATUS[to],
+      description: `Withdrawal #${withdrawal.id} ${descriptions[to]}`,
+      referenceId: `WITHDRAWAL_${withdrawal.id}`,
+      metadata: {
+        withdrawalId: withdrawal.id,
+        transition: to,
+        heldBalance: Number(wallet.heldBalance),
+        transactionId: withdrawal.transactionId,
+        adminNotes: input.adminNotes ?? null,
+        actorId: input.actorId ?? null
+      },
+      journalEntryId: null
+    }, { transaction });
+  }
+}
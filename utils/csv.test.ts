@@ -0,0 +1,44 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { escapeFormula, parseCsv, toCsv } from "./csv.ts";
+
+test("toCsv quotes commas, quotes and newlines", () => {
+  assert.equal(toCsv([["a,b", 'say "hi"', "two\nlines"]]), '"a,b","say ""hi""","two\nlines"\r\n');
+});
+
+test("toCsv prefixes text a spreadsheet would run as a formula", () => {
+  const csv = toCsv([[
+    '=HYPERLINK("http://evil.example","Click")',
+    "+SUM(A1:A9)",
+    "-2+3",
+    "@cmd",
+    "\tTAB",
+    "\rCR"
+  ]]);
+
+  assert.deepEqual(parseCsv(csv)[0], [
+    `'=HYPERLINK("http://evil.example","Click")`,
+    "'+SUM(A1:A9)",
+    "'-2+3",
+    "'@cmd",
+    "'\tTAB",
+    "'\rCR"
+  ]);
+});
+
+test("toCsv leaves numbers and ordinary text alone", () => {
+  assert.equal(toCsv([[-12.5, "-12.50", "+91", 0, "Asha Rao", "a=b", ""]]), "-12.5,-12.50,+91,0,Asha Rao,a=b,\r\n");
+});
+
+test("escapeFormula only touches the leading character", () => {
+  assert.equal(escapeFormula("=1+1"), "'=1+1");
+  assert.equal(escapeFormula("1+1="), "1+1=");
+});
+
+test("toCsv escapes a Form 26Q deductee name but keeps its codes and amounts", () => {
+  const row = [1, "02", "PANNOTAVBL", "=cmd|'/c calc'!A1", "94H", "15/05/2025", "1000.00", "20.00", "200.00", "200.00", "15/05/2025", "C"];
+
+  assert.deepEqual(parseCsv(toCsv([row]))[0], [
+    "1", "02", "PANNOTAVBL", "'=cmd|'/c calc'!A1", "94H", "15/05/2025", "1000.00", "20.00", "200.00", "200.00", "15/05/2025", "C"
+  ]);
+});
@@ -0,0 +1,75 @@
+/**
+ * CSV helpers
+ * Enough of RFC 4180 for bank and UPI statement exports and our own
+ * reports: quoted fields, escaped quotes, commas and newlines inside
+ * quotes, CRLF line endings.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  // Strip a UTF-8 byte order mark left by spreadsheet exports
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter(r => r.some(value => value.trim() !== ''));
+};
+
+
+/**
+ * Keep a spreadsheet from reading text as a formula. Text that starts with
+ * =, +, -, @, a tab or a carriage return is prefixed with a quote; plain
+ * numbers, negative ones included, are left alone.
+ */
+export const escapeFormula = (text: string): string =>
+  /^[=+\-@\t\r]/.test(text) && !/^[-+]?\d+(\.\d+)?$/.test(text) ? `'${text}` : text;
+
+const escapeCsvField = (value: unknown): string => {
+  const text = value === null || value === undefined ? '' : escapeFormula(String(value));
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Rows to CSV text, CRLF-terminated. Text cells are escaped so a
+ * spreadsheet opening the file doesn't run them as formulas.
+ */
+export const toCsv = (rows: unknown[][]): string =>
+  rows.map(row => row.map(escapeCsvField).join(',')).join('\r\n') + '\r\n';
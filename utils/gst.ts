@@ -0,0 +1,75 @@
+/**
+ * GST state codes
+ * The two-digit codes GSTINs start with and GSTR-1 uses for place of
+ * supply.
+ */
+export const GST_STATES: Record<string, string> = {
+  "01": "Jammu and Kashmir",
+  "02": "Himachal Pradesh",
+  "03": "Punjab",
+  "04": "Chandigarh",
+  "05": "Uttarakhand",
+  "06": "Haryana",
+  "07": "Delhi",
+  "08": "Rajasthan",
+  "09": "Uttar Pradesh",
+  "10": "Bihar",
+  "11": "Sikkim",
+  "12": "Arunachal Pradesh",
+  "13": "Nagaland",
+  "14": "Manipur",
+  "15": "Mizoram",
+  "16": "Tripura",
+  "17": "Meghalaya",
+  "18": "Assam",
+  "19": "West Bengal",
+  "20": "Jharkhand",
+  "21": "Odisha",
+  "22": "Chhattisgarh",
+  "23": "Madhya Pradesh",
+  "24": "Gujarat",
+  "26": "Dadra and Nagar Haveli and Daman and Diu",
+  "27": "Maharashtra",
+  "29": "Karnataka",
+  "30": "Goa",
+  "31": "Lakshadweep",
+  "32": "Kerala",
+  "33": "Tamil Nadu",
+  "34": "Puducherry",
+  "35": "Andaman and Nicobar Islands",
+  "36": "Telangana",
+  "37": "Andhra Pradesh",
+  "38": "Ladakh",
+};
+
+export const GST_STATE_CODES = Object.keys(GST_STATES);
+
+export const GSTIN_PATTERN = /^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+
+// "29-Karnataka", the form GSTR-1 expects for place of supply
+export const placeOfSupply = (stateCode: string): string =>
+  `${stateCode}-${GST_STATES[stateCode] ?? "Unknown"}`;
+
+/**
+ * Accept a state code ("29", "9") or name ("Karnataka", any case)
+ */
+export const resolveStateCode = (input: unknown): string | null => {
+  if (input === null || input === undefined) return null;
+  const value = String(input).trim();
+  if (!value) return null;
+
+  if (/^[0-9]{1,2}$/.test(value)) {
+    const code = value.padStart(2, "0");
+    return GST_STATES[code] ? code : null;
+  }
+  const name = value.toLowerCase();
+  return GST_STATE_CODES.find(code => GST_STATES[code].toLowerCase() === name) ?? null;
+};
+
+/**
+ * Indian financial year (April to March) a date falls in, e.g. "2025-26"
+ */
+export const financialYearOf = (date: Date): string => {
+  const start = date.getMonth() >= 3 ? date.getFullYear() : date.getFullYear() - 1;
+  return `${start}-${String((start + 1) % 100).padStart(2, "0")}`;
+};
@@ -0,0 +1,12 @@
+/**
+ * Money helpers
+ * Amounts are stored as DECIMAL(…, 2) rupees; arithmetic is done in paise
+ * so that sums and comparisons are exact.
+ */
+export const toPaise = (amount: number | string | null | undefined): number =>
+  Math.round(Number(amount || 0) * 100);
+
+export const fromPaise = (paise: number): number => paise / 100;
+
+export const roundMoney = (amount: number | string | null | undefined): number =>
+  fromPaise(toPaise(amount));
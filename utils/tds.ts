@@ -0,0 +1,44 @@
+import { financialYearOf } from "./gst.ts";
+
+/**
+ * TDS helpers
+ * Quarters follow the Indian financial year: Q1 is April to June, Q4 is
+ * January to March.
+ */
+
+export const PAN_PATTERN = /^[A-Z]{5}[0-9]{4}[A-Z]$/;
+
+export const TDS_QUARTERS = ["Q1", "Q2", "Q3", "Q4"] as const;
+
+export type TdsQuarter = (typeof TDS_QUARTERS)[number];
+
+const FINANCIAL_YEAR_PATTERN = /^(\d{4})-(\d{2})$/;
+
+/**
+ * Financial year and quarter a date falls in
+ */
+export const tdsPeriodOf = (date: Date): { financialYear: string; quarter: TdsQuarter } => ({
+  financialYear: financialYearOf(date),
+  quarter: TDS_QUARTERS[Math.floor(((date.getMonth() + 9) % 12) / 3)],
+});
+
+/**
+ * Whether a string is a financial year like "2025-26"
+ */
+export const isFinancialYear = (value: unknown): value is string => {
+  const match = FINANCIAL_YEAR_PATTERN.exec(String(value ?? ""));
+  return !!match && (Number(match[1]) + 1) % 100 === Number(match[2]);
+};
+
+/**
+ * First day of a quarter and first day of the next, in local time
+ */
+export const tdsQuarterRange = (financialYear: string, quarter: TdsQuarter): { from: Date; to: Date } => {
+  const startYear = Number(financialYear.slice(0, 4));
+  const startMonth = 3 + TDS_QUARTERS.indexOf(quarter) * 3;   // April is month 3
+  return {
+    from: new Date(startYear, startMonth, 1),
+    to: new Date(startYear, startMonth + 3, 1),
+  };
+};
+
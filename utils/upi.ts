@@ -0,0 +1,20 @@
+/**
+ * UPI virtual payment address: a handle, "@", and the PSP's name
+ * (ramesh.k@okicici). Compared in lower case.
+ */
+export const VPA_PATTERN = /^[a-z0-9][a-z0-9._-]{1,255}@[a-z][a-z0-9]{1,63}$/;
+
+/**
+ * Canonical form of a VPA as members type it
+ */
+export const normalizeVpa = (vpa: string): string => String(vpa || "").trim().toLowerCase();
+
+export const isValidVpa = (vpa: string): boolean => VPA_PATTERN.test(normalizeVpa(vpa));
+
+/**
+ * A VPA with its last four characters hidden, for responses
+ */
+export const maskVpa = (vpa: string): string => {
+  const value = normalizeVpa(vpa);
+  return `${value.slice(0, Math.max(value.length - 4, 0))}****`;
+};
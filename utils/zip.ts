@@ -0,0 +1,133 @@
+import { open, type FileHandle } from "fs/promises";
+import zlib from "zlib";
+
+/**
+ * ZIP writer
+ * Enough of the ZIP format for our exports: deflated entries written
+ * straight to disk one at a time, so an archive of many PDFs never has
+ * to fit in memory. No ZIP64, so up to 65,535 entries and 4 GB.
+ */
+
+interface CentralEntry {
+  name: Buffer;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  offset: number;
+  time: number;
+  date: number;
+}
+
+const MAX_ENTRIES = 0xffff;
+const MAX_OFFSET = 0xffffffff;
+const UTF8_FLAG = 0x0800;
+const DEFLATE = 8;
+
+// MS-DOS time and date fields, in local time
+const dosDateTime = (d: Date): { time: number; date: number } => ({
+  time: (d.getHours() << 11) | (d.getMinutes() << 5) | Math.floor(d.getSeconds() / 2),
+  date: ((Math.max(d.getFullYear(), 1980) - 1980) << 9) | ((d.getMonth() + 1) << 5) | d.getDate(),
+});
+
+export class ZipWriter {
+  private entries: CentralEntry[] = [];
+  private offset = 0;
+
+  private constructor(private file: FileHandle) {}
+
+  static async create(path: string): Promise<ZipWriter> {
+    return new ZipWriter(await open(path, "w"));
+  }
+
+  /**
+   * Add a file to the archive
+   */
+  async add(name: string, data: Buffer | string, modified: Date = new Date()): Promise<void> {
+    if (this.entries.length >= MAX_ENTRIES) {
+      throw new Error(`A ZIP archive can hold at most ${MAX_ENTRIES} files`);
+    }
+
+    const content = typeof data === "string" ? Buffer.from(data, "utf8") : data;
+    const compressed = zlib.deflateRawSync(content);
+    const fileName = Buffer.from(name, "utf8");
+    const { time, date } = dosDateTime(modified);
+    const entry: CentralEntry = {
+      name: fileName,
+      crc: zlib.crc32(content),
+      compressedSize: compressed.length,
+      size: content.length,
+      offset: this.offset,
+      time,
+      date,
+    };
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(20, 4);               // version needed
+    header.writeUInt16LE(UTF8_FLAG, 6);
+    header.writeUInt16LE(DEFLATE, 8);
+    header.writeUInt16LE(time, 10);
+    header.writeUInt16LE(date, 12);
+    header.writeUInt32LE(entry.crc, 14);
+    header.writeUInt32LE(entry.compressedSize, 18);
+    header.writeUInt32LE(entry.size, 22);
+    header.writeUInt16LE(fileName.length, 26);
+    header.writeUInt16LE(0, 28);               // extra field length
+
+    await this.write(Buffer.concat([header, fileName, compressed]));
+    this.entries.push(entry);
+  }
+
+  /**
+   * Write the central directory and close the file. Returns the archive size.
+   */
+  async finish(): Promise<number> {
+    try {
+      const directoryOffset = this.offset;
+      for (const entry of this.entries) {
+        const record = Buffer.alloc(46);
+        record.writeUInt32LE(0x02014b50, 0);
+        record.writeUInt16LE(20, 4);             // version made by
+        record.writeUInt16LE(20, 6);             // version needed
+        record.writeUInt16LE(UTF8_FLAG, 8);
+        record.writeUInt16LE(DEFLATE, 10);
+        record.writeUInt16LE(entry.time, 12);
+        record.writeUInt16LE(entry.date, 14);
+        record.writeUInt32LE(entry.crc, 16);
+        record.writeUInt32LE(entry.compressedSize, 20);
+        record.writeUInt32LE(entry.size, 24);
+        record.writeUInt16LE(entry.name.length, 28);
+        // extra, comment, disk number, internal and external attributes stay 0
+        record.writeUInt32LE(entry.offset, 42);
+        await this.write(Buffer.concat([record, entry.name]));
+      }
+
+      const end = Buffer.alloc(22);
+      end.writeUInt32LE(0x06054b50, 0);
+      end.writeUInt16LE(this.entries.length, 8);
+      end.writeUInt16LE(this.entries.length, 10);
+      end.writeUInt32LE(this.offset - directoryOffset, 12);
+      end.writeUInt32LE(directoryOffset, 16);
+      await this.write(end);
+
+      return this.offset;
+    } finally {
+      await this.file.close();
+    }
+  }
+
+  /**
+   * Close the file without finishing it, after a failure
+   */
+  async abort(): Promise<void> {
+    await this.file.close();
+  }
+
+  private async write(chunk: Buffer): Promise<void> {
+    if (this.offset + chunk.length > MAX_OFFSET) {
+      throw new Error("ZIP archive would exceed 4 GB");
+    }
+    await this.file.write(chunk);
+    this.offset += chunk.length;
+  }
+}